@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Cleartexts - decoding of the values the FHE decryption oracle hands to a callback
+/// @dev Internal functions only, so the library is inlined into its callers and needs no linking
+library Cleartexts {
+    /// @dev Reads the `_index`-th 32-byte word of ABI-encoded decrypted uint32 values. The word is read without
+    /// a bounds check: callers compare `_cleartexts.length` with the number of words they expect first
+    function decodeWord(bytes memory _cleartexts, uint256 _index) internal pure returns (uint32) {
+        uint256 word;
+        assembly {
+            word := mload(add(_cleartexts, add(32, mul(_index, 32))))
+        }
+        return uint32(word);
+    }
+}
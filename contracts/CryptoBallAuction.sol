@@ -0,0 +1,299 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, eaddress, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {CryptoBalls} from "./CryptoBalls.sol";
+
+/// @title CryptoBall Auction - sealed-bid auctions of CryptoPriceGuess balls
+/// @notice Bids are encrypted amounts in wei. The highest bid and its bidder are tracked homomorphically and
+/// only the winning bid and winner are decrypted when the auction closes; losing bids are never revealed
+/// @dev The ball is escrowed by this contract for the auction's lifetime. Every bid comes with a public ETH
+/// deposit that caps it (a bid above its deposit counts as zero), so bidders hide their bid by depositing more
+/// than they bid. Losers reclaim their whole deposit and the winner the part above their bid with `claimRefund`;
+/// the seller's proceeds and the royalty are credited to `pendingWithdrawals` and pulled with `withdraw`
+contract CryptoBallAuction is SepoliaConfig, ReentrancyGuard {
+    CryptoBalls public immutable balls;
+
+    uint256 public constant MAX_DURATION = 30 days;
+
+    enum AuctionStatus {
+        OPEN, // Taking bids until endTime
+        REVEALING, // Closed, waiting for the oracle to decrypt the winning bid
+        SETTLED, // Winner revealed (or no sale) and the ball released
+        CANCELLED // Cancelled by the seller before any bid
+    }
+
+    struct Auction {
+        uint256 ballId;
+        address seller;
+        uint256 reservePrice; // Minimum winning bid in wei, public
+        uint256 endTime;
+        uint256 bidCount;
+        AuctionStatus status;
+        euint64 highestBid;
+        eaddress highestBidder;
+        address winner; // Revealed at settlement, address(0) when the ball did not sell
+        uint256 winningBid; // Revealed at settlement, in wei
+    }
+
+    Auction[] private auctions;
+
+    // Mapping: auctionId => bidder => encrypted bid (decryptable by the bidder)
+    mapping(uint256 => mapping(address => euint64)) private bids;
+    // Mapping: auctionId => bidder => ETH deposit still held for the bidder
+    mapping(uint256 => mapping(address => uint256)) public deposits;
+    // Mapping: auctionId => bidders, in bid order
+    mapping(uint256 => address[]) private bidders;
+
+    // Mapping: account => ETH it can withdraw (sale proceeds and royalties)
+    mapping(address => uint256) public pendingWithdrawals;
+
+    // Mapping: decryption request ID => auction ID + 1 (0 = not an auction request)
+    mapping(uint256 => uint256) private _requestToAuction;
+
+    event AuctionCreated(
+        uint256 indexed auctionId,
+        uint256 indexed ballId,
+        address indexed seller,
+        uint256 reservePrice,
+        uint256 endTime
+    );
+    event BidPlaced(uint256 indexed auctionId, address indexed bidder, uint256 deposit);
+    event AuctionClosed(uint256 indexed auctionId, uint256 requestId);
+    event AuctionSettled(uint256 indexed auctionId, address indexed winner, uint256 winningBid, uint256 royalty);
+    event AuctionCancelled(uint256 indexed auctionId);
+    event RefundClaimed(uint256 indexed auctionId, address indexed bidder, uint256 amount);
+    event Withdrawal(address indexed account, uint256 amount);
+
+    modifier auctionExists(uint256 _auctionId) {
+        require(_auctionId < auctions.length, "Auction does not exist");
+        _;
+    }
+
+    constructor(CryptoBalls _balls) {
+        balls = _balls;
+    }
+
+    /// @notice Put one of your balls up for a sealed-bid auction; the ball is escrowed until settlement
+    /// @param _ballId The ball to sell (approve this contract first)
+    /// @param _reservePrice Minimum winning bid in wei (0 = none)
+    /// @param _duration Bidding period in seconds
+    function createAuction(uint256 _ballId, uint256 _reservePrice, uint256 _duration) external returns (uint256) {
+        require(_duration > 0 && _duration <= MAX_DURATION, "Invalid duration");
+        require(_reservePrice <= type(uint64).max, "Reserve price too high");
+        require(balls.ownerOf(_ballId) == msg.sender, "Not ball owner");
+
+        balls.transferFrom(msg.sender, address(this), _ballId);
+
+        uint256 auctionId = auctions.length;
+        Auction storage auction = auctions.push();
+        auction.ballId = _ballId;
+        auction.seller = msg.sender;
+        auction.reservePrice = _reservePrice;
+        auction.endTime = block.timestamp + _duration;
+        auction.highestBid = FHE.asEuint64(0);
+        auction.highestBidder = FHE.asEaddress(address(0));
+        FHE.allowThis(auction.highestBid);
+        FHE.allowThis(auction.highestBidder);
+
+        emit AuctionCreated(auctionId, _ballId, msg.sender, _reservePrice, auction.endTime);
+        return auctionId;
+    }
+
+    /// @notice Place a sealed bid, one per bidder and auction
+    /// @param _auctionId The auction ID
+    /// @param _encryptedBid The bid in wei, encrypted
+    /// @param inputProof The proof for the encrypted input
+    /// @dev msg.value is the public deposit backing the bid; a bid above it counts as zero
+    function placeBid(
+        uint256 _auctionId,
+        externalEuint64 _encryptedBid,
+        bytes calldata inputProof
+    ) external payable auctionExists(_auctionId) {
+        Auction storage auction = auctions[_auctionId];
+        require(auction.status == AuctionStatus.OPEN, "Auction not open");
+        require(block.timestamp < auction.endTime, "Bidding has ended");
+        require(msg.sender != auction.seller, "Seller cannot bid");
+        require(deposits[_auctionId][msg.sender] == 0, "Already bid");
+        require(msg.value > 0, "Deposit required");
+        require(msg.value <= type(uint64).max, "Deposit too high");
+
+        euint64 bid = FHE.fromExternal(_encryptedBid, inputProof);
+        bid = FHE.select(FHE.le(bid, FHE.asEuint64(uint64(msg.value))), bid, FHE.asEuint64(0));
+
+        // Ties keep the earlier bidder
+        ebool isHigher = FHE.gt(bid, auction.highestBid);
+        auction.highestBid = FHE.max(auction.highestBid, bid);
+        auction.highestBidder = FHE.select(isHigher, FHE.asEaddress(msg.sender), auction.highestBidder);
+        FHE.allowThis(auction.highestBid);
+        FHE.allowThis(auction.highestBidder);
+
+        bids[_auctionId][msg.sender] = bid;
+        FHE.allowThis(bid);
+        FHE.allow(bid, msg.sender);
+
+        deposits[_auctionId][msg.sender] = msg.value;
+        bidders[_auctionId].push(msg.sender);
+        auction.bidCount++;
+
+        emit BidPlaced(_auctionId, msg.sender, msg.value);
+    }
+
+    /// @notice Close an auction once bidding has ended (anyone can call this)
+    /// @dev Requests decryption of the winning bid and bidder; auctionRevealCallback settles. Without bids the
+    /// ball goes straight back to the seller
+    function closeAuction(uint256 _auctionId) external auctionExists(_auctionId) {
+        Auction storage auction = auctions[_auctionId];
+        require(auction.status == AuctionStatus.OPEN, "Auction not open");
+        require(block.timestamp >= auction.endTime, "Bidding has not ended");
+
+        if (auction.bidCount == 0) {
+            auction.status = AuctionStatus.SETTLED;
+            balls.transferFrom(address(this), auction.seller, auction.ballId);
+            emit AuctionSettled(_auctionId, address(0), 0, 0);
+            return;
+        }
+
+        auction.status = AuctionStatus.REVEALING;
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(auction.highestBid);
+        cts[1] = FHE.toBytes32(auction.highestBidder);
+        uint256 requestId = FHE.requestDecryption(cts, this.auctionRevealCallback.selector);
+        _requestToAuction[requestId] = _auctionId + 1;
+
+        emit AuctionClosed(_auctionId, requestId);
+    }
+
+    /// @notice Callback called by the FHE decryption oracle with the winning bid and bidder
+    /// @dev `cleartexts` is the ABI-encoded (uint64 winningBid, address winner). A winning bid below the
+    /// reserve price is no sale: the ball returns to the seller and every bidder reclaims their deposit
+    function auctionRevealCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) public returns (bool) {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint256 auctionRef = _requestToAuction[requestId];
+        require(auctionRef != 0, "Unknown auction request");
+        delete _requestToAuction[requestId];
+
+        uint256 auctionId = auctionRef - 1;
+        Auction storage auction = auctions[auctionId];
+        require(auction.status == AuctionStatus.REVEALING, "Auction not revealing");
+        auction.status = AuctionStatus.SETTLED;
+
+        (uint64 highestBid, address highestBidder) = abi.decode(cleartexts, (uint64, address));
+
+        if (highestBidder == address(0) || highestBid == 0 || highestBid < auction.reservePrice) {
+            balls.transferFrom(address(this), auction.seller, auction.ballId);
+            emit AuctionSettled(auctionId, address(0), 0, 0);
+            return true;
+        }
+
+        auction.winner = highestBidder;
+        auction.winningBid = highestBid;
+        deposits[auctionId][highestBidder] -= highestBid;
+
+        (address receiver, uint256 royalty) = balls.royaltyInfo(auction.ballId, highestBid);
+        pendingWithdrawals[receiver] += royalty;
+        pendingWithdrawals[auction.seller] += highestBid - royalty;
+
+        // A plain transfer: a receiver hook reverting here would block the oracle callback
+        balls.transferFrom(address(this), highestBidder, auction.ballId);
+
+        emit AuctionSettled(auctionId, highestBidder, highestBid, royalty);
+        return true;
+    }
+
+    /// @notice Cancel your auction before anyone bids; the ball is returned
+    function cancelAuction(uint256 _auctionId) external auctionExists(_auctionId) {
+        Auction storage auction = auctions[_auctionId];
+        require(auction.seller == msg.sender, "Not the seller");
+        require(auction.status == AuctionStatus.OPEN, "Auction not open");
+        require(auction.bidCount == 0, "Auction has bids");
+
+        auction.status = AuctionStatus.CANCELLED;
+        balls.transferFrom(address(this), msg.sender, auction.ballId);
+
+        emit AuctionCancelled(_auctionId);
+    }
+
+    /// @notice Reclaim your deposit once the auction is settled (the winner gets back the part above their bid)
+    function claimRefund(uint256 _auctionId) external nonReentrant auctionExists(_auctionId) {
+        require(auctions[_auctionId].status == AuctionStatus.SETTLED, "Auction not settled");
+        uint256 amount = deposits[_auctionId][msg.sender];
+        require(amount > 0, "Nothing to refund");
+
+        deposits[_auctionId][msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "ETH transfer failed");
+
+        emit RefundClaimed(_auctionId, msg.sender, amount);
+    }
+
+    /// @notice Withdraw your sale proceeds and royalties
+    function withdraw() external nonReentrant {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+
+        pendingWithdrawals[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "ETH transfer failed");
+
+        emit Withdrawal(msg.sender, amount);
+    }
+
+    /// @notice Get the number of auctions
+    function getAuctionCount() external view returns (uint256) {
+        return auctions.length;
+    }
+
+    /// @notice Get the public state of an auction
+    /// @dev `winner` and `winningBid` are only set once the auction is settled with a sale
+    function getAuction(
+        uint256 _auctionId
+    )
+        external
+        view
+        auctionExists(_auctionId)
+        returns (
+            uint256 ballId,
+            address seller,
+            uint256 reservePrice,
+            uint256 endTime,
+            uint256 bidCount,
+            AuctionStatus status,
+            address winner,
+            uint256 winningBid
+        )
+    {
+        Auction storage auction = auctions[_auctionId];
+        return (
+            auction.ballId,
+            auction.seller,
+            auction.reservePrice,
+            auction.endTime,
+            auction.bidCount,
+            auction.status,
+            auction.winner,
+            auction.winningBid
+        );
+    }
+
+    /// @notice Get the bidders of an auction, in bid order
+    function getBidders(uint256 _auctionId) external view auctionExists(_auctionId) returns (address[] memory) {
+        return bidders[_auctionId];
+    }
+
+    /// @notice Get a bidder's encrypted bid (decryptable by the bidder)
+    function getEncryptedBid(
+        uint256 _auctionId,
+        address _bidder
+    ) external view auctionExists(_auctionId) returns (euint64) {
+        return bids[_auctionId][_bidder];
+    }
+}
@@ -0,0 +1,307 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {CryptoBalls} from "./CryptoBalls.sol";
+
+/// @title CryptoBall Marketplace - peer-to-peer trading of CryptoPriceGuess balls
+/// @notice Fixed-price listings and ETH offers, settled with the ERC-2981 royalty of the ball's source event
+/// @dev Listings are non-custodial: the seller keeps the ball and approves this contract, so a listing goes
+/// stale when the ball moves and is skipped by the views. Offers are escrowed in ETH, and all proceeds,
+/// royalties and refunds are credited to `pendingWithdrawals` and pulled with `withdraw`
+contract CryptoBallMarketplace is ReentrancyGuard {
+    CryptoBalls public immutable balls;
+
+    struct Listing {
+        address seller;
+        uint256 price; // In wei
+        uint256 listedAt;
+    }
+
+    // Mapping: ballId => listing (seller == address(0) when not listed)
+    mapping(uint256 => Listing) public listings;
+    // Listed ball ids, unordered; _listedIndex holds index + 1
+    uint256[] private listedBallIds;
+    mapping(uint256 => uint256) private _listedIndex;
+
+    // Mapping: ballId => buyer => escrowed offer (in wei)
+    mapping(uint256 => mapping(address => uint256)) public offers;
+    // Mapping: ballId => buyers with an open offer, unordered; _offererIndex holds index + 1
+    mapping(uint256 => address[]) private offerers;
+    mapping(uint256 => mapping(address => uint256)) private _offererIndex;
+
+    // Mapping: account => ETH it can withdraw (sale proceeds, royalties, refunded offers)
+    mapping(address => uint256) public pendingWithdrawals;
+
+    event BallListed(uint256 indexed ballId, address indexed seller, uint256 price);
+    event ListingCancelled(uint256 indexed ballId, address indexed seller);
+    event BallSold(
+        uint256 indexed ballId,
+        address indexed seller,
+        address indexed buyer,
+        uint256 price,
+        uint256 royalty
+    );
+    event OfferMade(uint256 indexed ballId, address indexed buyer, uint256 amount);
+    event OfferCancelled(uint256 indexed ballId, address indexed buyer, uint256 amount);
+    event Withdrawal(address indexed account, uint256 amount);
+
+    constructor(CryptoBalls _balls) {
+        balls = _balls;
+    }
+
+    /// @notice List one of your balls at a fixed price (re-listing updates the price)
+    /// @param _ballId The ball to sell
+    /// @param _price The price in wei
+    /// @dev Approve this contract first (approve or setApprovalForAll)
+    function listBall(uint256 _ballId, uint256 _price) external {
+        require(_price > 0, "Price must be greater than 0");
+        require(balls.ownerOf(_ballId) == msg.sender, "Not ball owner");
+        require(_isApproved(_ballId, msg.sender), "Marketplace not approved");
+        (, , , , bool isActive) = balls.getCryptoBall(_ballId);
+        require(isActive, "Ball is not active");
+
+        if (_listedIndex[_ballId] == 0) {
+            listedBallIds.push(_ballId);
+            _listedIndex[_ballId] = listedBallIds.length;
+        }
+        listings[_ballId] = Listing({seller: msg.sender, price: _price, listedAt: block.timestamp});
+
+        emit BallListed(_ballId, msg.sender, _price);
+    }
+
+    /// @notice Cancel a listing (the seller, or anyone once the seller no longer owns the ball)
+    function cancelListing(uint256 _ballId) external {
+        Listing storage listing = listings[_ballId];
+        require(listing.seller != address(0), "Ball not listed");
+        require(listing.seller == msg.sender || !_isListingValid(_ballId), "Not the seller");
+
+        address seller = listing.seller;
+        _removeListing(_ballId);
+        emit ListingCancelled(_ballId, seller);
+    }
+
+    /// @notice Buy a listed ball at its price
+    function buyBall(uint256 _ballId) external payable nonReentrant {
+        Listing memory listing = listings[_ballId];
+        require(listing.seller != address(0), "Ball not listed");
+        require(listing.seller != msg.sender, "Cannot buy your own ball");
+        require(msg.value == listing.price, "Incorrect payment");
+        require(_isListingValid(_ballId), "Listing is stale");
+
+        _removeListing(_ballId);
+        _settle(_ballId, listing.seller, msg.sender, listing.price);
+    }
+
+    /// @notice Offer ETH for any ball; the amount is escrowed until accepted or cancelled
+    /// @dev A second offer on the same ball adds to the first
+    function makeOffer(uint256 _ballId) external payable {
+        require(msg.value > 0, "Offer must be greater than 0");
+        require(balls.ownerOf(_ballId) != msg.sender, "Cannot offer on your own ball");
+
+        if (offers[_ballId][msg.sender] == 0) {
+            offerers[_ballId].push(msg.sender);
+            _offererIndex[_ballId][msg.sender] = offerers[_ballId].length;
+        }
+        offers[_ballId][msg.sender] += msg.value;
+
+        emit OfferMade(_ballId, msg.sender, offers[_ballId][msg.sender]);
+    }
+
+    /// @notice Cancel your offer; the escrowed ETH becomes withdrawable
+    function cancelOffer(uint256 _ballId) external {
+        uint256 amount = _removeOffer(_ballId, msg.sender);
+        pendingWithdrawals[msg.sender] += amount;
+        emit OfferCancelled(_ballId, msg.sender, amount);
+    }
+
+    /// @notice Accept an offer on one of your balls
+    /// @param _ballId The ball to sell
+    /// @param _buyer The buyer whose offer is accepted
+    function acceptOffer(uint256 _ballId, address _buyer) external nonReentrant {
+        require(balls.ownerOf(_ballId) == msg.sender, "Not ball owner");
+        require(_isApproved(_ballId, msg.sender), "Marketplace not approved");
+
+        uint256 amount = _removeOffer(_ballId, _buyer);
+        if (_listedIndex[_ballId] != 0) {
+            _removeListing(_ballId);
+        }
+        _settle(_ballId, msg.sender, _buyer, amount);
+    }
+
+    /// @notice Withdraw your proceeds, royalties and refunded offers
+    function withdraw() external nonReentrant {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+
+        pendingWithdrawals[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "ETH transfer failed");
+
+        emit Withdrawal(msg.sender, amount);
+    }
+
+    /// @notice Get the open offers on a ball (unordered)
+    function getOffers(uint256 _ballId) external view returns (address[] memory buyers, uint256[] memory amounts) {
+        buyers = offerers[_ballId];
+        amounts = new uint256[](buyers.length);
+        for (uint256 i = 0; i < buyers.length; i++) {
+            amounts[i] = offers[_ballId][buyers[i]];
+        }
+    }
+
+    /// @notice Get valid listings filtered by ball type and power
+    /// @param _ballTypeFilter 0: all, 1: Crystal, 2: Prediction, 3: Vault
+    /// @param _minPower Minimum power level (inclusive)
+    /// @param _maxPower Maximum power level (inclusive, 0 = no maximum)
+    /// @param _sortBy 0: listing time, 1: price, 2: power level
+    /// @param _sortOrder 0: ascending, 1: descending
+    /// @param _limit Maximum listings to return
+    /// @param _offset Starting offset for pagination
+    /// @dev `totalMatches` counts the listings matching the filters across all pages; stale listings are skipped
+    function getFilteredListings(
+        uint256 _ballTypeFilter,
+        uint256 _minPower,
+        uint256 _maxPower,
+        uint256 _sortBy,
+        uint256 _sortOrder,
+        uint256 _limit,
+        uint256 _offset
+    )
+        external
+        view
+        returns (uint256[] memory ballIds, uint256[] memory prices, address[] memory sellers, uint256 totalMatches)
+    {
+        uint256[] memory matches = new uint256[](listedBallIds.length);
+        uint256[] memory sortKeys = new uint256[](listedBallIds.length);
+        uint256 matchCount = 0;
+
+        for (uint256 i = 0; i < listedBallIds.length; i++) {
+            uint256 ballId = listedBallIds[i];
+            (bool isMatch, uint256 sortKey) = _matchListing(ballId, _ballTypeFilter, _minPower, _maxPower, _sortBy);
+            if (isMatch) {
+                matches[matchCount] = ballId;
+                sortKeys[matchCount] = sortKey;
+                matchCount++;
+            }
+        }
+        _sortMatches(matches, sortKeys, matchCount, _sortOrder == 0);
+
+        totalMatches = matchCount;
+        uint256 pageCount = _offset >= matchCount ? 0 : matchCount - _offset;
+        if (pageCount > _limit) {
+            pageCount = _limit;
+        }
+
+        ballIds = new uint256[](pageCount);
+        prices = new uint256[](pageCount);
+        sellers = new address[](pageCount);
+        for (uint256 i = 0; i < pageCount; i++) {
+            ballIds[i] = matches[_offset + i];
+            prices[i] = listings[ballIds[i]].price;
+            sellers[i] = listings[ballIds[i]].seller;
+        }
+    }
+
+    /// @dev Whether a listing is valid and passes the getFilteredListings filters, and its sort key
+    function _matchListing(
+        uint256 _ballId,
+        uint256 _ballTypeFilter,
+        uint256 _minPower,
+        uint256 _maxPower,
+        uint256 _sortBy
+    ) private view returns (bool isMatch, uint256 sortKey) {
+        if (!_isListingValid(_ballId)) {
+            return (false, 0);
+        }
+
+        (CryptoBalls.BallType ballType, , uint256 powerLevel, , ) = balls.getCryptoBall(_ballId);
+        isMatch =
+            (_ballTypeFilter == 0 || uint256(ballType) + 1 == _ballTypeFilter) &&
+            powerLevel >= _minPower &&
+            (_maxPower == 0 || powerLevel <= _maxPower);
+
+        Listing storage listing = listings[_ballId];
+        sortKey = _sortBy == 1
+            ? listing.price
+            : _sortBy == 2
+                ? powerLevel
+                : listing.listedAt;
+    }
+
+    /// @dev Insertion sort of the first `_count` matches by their sort keys (ties keep listing order)
+    function _sortMatches(
+        uint256[] memory _matches,
+        uint256[] memory _sortKeys,
+        uint256 _count,
+        bool _ascending
+    ) private pure {
+        for (uint256 i = 1; i < _count; i++) {
+            uint256 ballId = _matches[i];
+            uint256 key = _sortKeys[i];
+            uint256 j = i;
+            while (j > 0 && (_ascending ? _sortKeys[j - 1] > key : _sortKeys[j - 1] < key)) {
+                _matches[j] = _matches[j - 1];
+                _sortKeys[j] = _sortKeys[j - 1];
+                j--;
+            }
+            _matches[j] = ballId;
+            _sortKeys[j] = key;
+        }
+    }
+
+    /// @dev Pays the royalty receiver and the seller (pull payments), then moves the ball to the buyer
+    function _settle(uint256 _ballId, address _seller, address _buyer, uint256 _price) private {
+        (address receiver, uint256 royalty) = balls.royaltyInfo(_ballId, _price);
+        if (receiver == address(0)) {
+            royalty = 0;
+        }
+
+        pendingWithdrawals[receiver] += royalty;
+        pendingWithdrawals[_seller] += _price - royalty;
+
+        emit BallSold(_ballId, _seller, _buyer, _price, royalty);
+        balls.safeTransferFrom(_seller, _buyer, _ballId);
+    }
+
+    function _removeListing(uint256 _ballId) private {
+        uint256 index = _listedIndex[_ballId] - 1;
+        uint256 lastBallId = listedBallIds[listedBallIds.length - 1];
+
+        listedBallIds[index] = lastBallId;
+        _listedIndex[lastBallId] = index + 1;
+        listedBallIds.pop();
+
+        delete _listedIndex[_ballId];
+        delete listings[_ballId];
+    }
+
+    /// @dev Removes `_buyer`'s offer on `_ballId` and returns the escrowed amount
+    function _removeOffer(uint256 _ballId, address _buyer) private returns (uint256 amount) {
+        amount = offers[_ballId][_buyer];
+        require(amount > 0, "No offer to remove");
+        delete offers[_ballId][_buyer];
+
+        address[] storage buyers = offerers[_ballId];
+        uint256 index = _offererIndex[_ballId][_buyer] - 1;
+        address lastBuyer = buyers[buyers.length - 1];
+
+        buyers[index] = lastBuyer;
+        _offererIndex[_ballId][lastBuyer] = index + 1;
+        buyers.pop();
+
+        delete _offererIndex[_ballId][_buyer];
+    }
+
+    /// @dev A listing is valid while its seller still owns the (active) ball and the approval stands.
+    /// getCryptoBall, unlike ownerOf, does not revert for burned balls
+    function _isListingValid(uint256 _ballId) private view returns (bool) {
+        address seller = listings[_ballId].seller;
+        (, , , address owner, bool isActive) = balls.getCryptoBall(_ballId);
+        return owner == seller && isActive && _isApproved(_ballId, seller);
+    }
+
+    function _isApproved(uint256 _ballId, address _owner) private view returns (bool) {
+        return balls.getApproved(_ballId) == address(this) || balls.isApprovedForAll(_owner, address(this));
+    }
+}
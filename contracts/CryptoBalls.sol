@@ -0,0 +1,874 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721Enumerable} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+import {IERC2981} from "@openzeppelin/contracts/interfaces/IERC2981.sol";
+
+/// @title CryptoBalls - the collectible balls of CryptoPriceGuess
+/// @notice Balls are claimed from finalized prediction events, with a rarity tier earned by the prediction's
+/// accuracy (see CryptoPriceGuess.generateCryptoBall); here they are fused, upgraded and gathered into collections
+/// @dev ERC-721 tokens (id = index into `cryptoBalls`) with on-chain SVG metadata and ERC-2981 royalties. Claimed
+/// balls are minted by the `minter`, the CryptoPriceGuess deployment.
+contract CryptoBalls is ReentrancyGuard, ERC721Enumerable {
+    using Strings for uint256;
+
+    constructor() ERC721("CryptoBall", "CBALL") {
+        minter = msg.sender;
+    }
+
+    enum BallType {
+        CRYSTAL,
+        PREDICTION,
+        VAULT
+    }
+
+    // Ownership lives in the ERC-721 state (ownerOf / tokenOfOwnerByIndex)
+    struct CryptoBall {
+        BallType ballType;
+        uint256 generationTime;
+        uint256 powerLevel;
+        bool isActive;
+    }
+
+    // Mints claimed balls: the deployer until it hands the role to CryptoPriceGuess with setMinter
+    address public minter;
+
+    // CryptoBall system: ball id == ERC-721 token id
+    CryptoBall[] public cryptoBalls;
+    // Mapping: ballId => eventId + 1 of the event it was claimed from (0 = minted by fusion)
+    mapping(uint256 => uint256) public ballSourceEvents;
+
+    // ERC-2981 royalty on ball sales, paid to the admin of the ball's source event
+    uint256 public constant ROYALTY_BPS = 250;
+    // Mapping: ballId => royalty receiver (address(0) = no royalty)
+    mapping(uint256 => address) private royaltyReceivers;
+
+    // Fusion burns FUSION_COST active balls of one tier to mint a ball of the next tier up
+    // (VAULT -> PREDICTION -> CRYSTAL)
+    uint256 public constant FUSION_COST = 3;
+
+    // Reward points: earned when a claimed ball is minted (a fifth of its power), spent 1:1 on power
+    mapping(address => uint256) public rewardPoints;
+
+    // Level-up history: how a ball got (or gained) its power
+    enum UpgradeSource {
+        FUSION, // Minted by fusion; previousPower is 0
+        BALLS, // Other balls burned into it
+        POINTS // Reward points spent on it
+    }
+
+    struct PowerUpgrade {
+        UpgradeSource source;
+        uint256 previousPower;
+        uint256 newPower;
+        uint256 timestamp;
+    }
+
+    // Mapping: ballId => level-ups, oldest first
+    mapping(uint256 => PowerUpgrade[]) private ballUpgrades;
+
+    // CryptoBall collection system
+    struct BallCollection {
+        string name;
+        address owner;
+        uint256[] ballIds;
+        uint256 createdAt;
+        bool isPublic;
+    }
+
+    BallCollection[] public ballCollections;
+    mapping(address => uint256[]) public userCollections;
+
+    // Public collections, unordered (a collection going private swaps in the last one); _publicCollectionIndex
+    // holds index + 1
+    uint256[] private publicCollectionIds;
+    mapping(uint256 => uint256) private _publicCollectionIndex;
+
+    // Bounds the ordering checks of reorderCollectionBalls
+    uint256 public constant MAX_COLLECTION_BALLS = 100;
+
+    // Curators besides the owner. EDITORs add their own balls, remove them and reorder the collection; MANAGERs
+    // can also remove any ball, rename, change visibility and appoint or dismiss editors. Only the owner appoints
+    // managers and transfers the collection. Every ball in a collection belongs to its owner or a curator.
+    enum CollectionRole {
+        NONE,
+        EDITOR,
+        MANAGER
+    }
+
+    // Mapping: collectionId => curator => role
+    mapping(uint256 => mapping(address => CollectionRole)) public collectionRoles;
+    // Mapping: collectionId => curators (role other than NONE), unordered
+    mapping(uint256 => address[]) private collectionCurators;
+    // Mapping: user => collections they curate without owning them, unordered
+    mapping(address => uint256[]) private curatedCollections;
+    // Mapping: ballId => collections holding it, so a transfer can drop it from those the new owner cannot curate
+    mapping(uint256 => uint256[]) private ballCollectionIds;
+
+    // Events
+    event MinterSet(address indexed minter);
+
+    // CryptoBall events
+    event CryptoBallGenerated(uint256 indexed ballId, address owner, BallType ballType);
+    event CryptoBallsFused(uint256 indexed ballId, address indexed owner, uint256[] burnedBallIds);
+    event RewardPointsEarned(address indexed user, uint256 points);
+    event BallPowerUpgraded(uint256 indexed ballId, uint256 newPowerLevel, address owner);
+
+    // Collection events
+    event CollectionCreated(uint256 indexed collectionId, address indexed owner, string name);
+    event BallAddedToCollection(uint256 indexed collectionId, uint256 indexed ballId, address owner);
+    event BallRemovedFromCollection(uint256 indexed collectionId, uint256 indexed ballId, address owner);
+    event CollectionRenamed(uint256 indexed collectionId, string name);
+    event CollectionReordered(uint256 indexed collectionId);
+    event CollectionVisibilityChanged(uint256 indexed collectionId, bool isPublic);
+    event CollectionCuratorSet(uint256 indexed collectionId, address indexed curator, CollectionRole role);
+    event CollectionTransferred(uint256 indexed collectionId, address indexed from, address indexed to);
+
+    /// @notice Hand the minter role over, e.g. from the deployer to the CryptoPriceGuess deployment (minter only)
+    function setMinter(address _minter) external {
+        require(msg.sender == minter, "Only the minter can do this");
+        minter = _minter;
+        emit MinterSet(_minter);
+    }
+
+    /// @notice Mint a ball claimed from a prediction event at its tier's base power, and credit the claimer a fifth
+    /// of that power in reward points (minter only)
+    /// @param _owner The claimer
+    /// @param _ballType The rarity tier the claim decrypted to
+    /// @param _sourceEventId The prediction event the ball was claimed from
+    /// @param _royaltyReceiver The admin of that event, paid the royalty on the ball's sales
+    function mintClaimedBall(
+        address _owner,
+        BallType _ballType,
+        uint256 _sourceEventId,
+        address _royaltyReceiver
+    ) external returns (uint256 ballId) {
+        require(msg.sender == minter, "Only the minter can do this");
+
+        uint256 powerLevel = _basePower(_ballType);
+        ballId = _createBall(_owner, _ballType, powerLevel);
+        ballSourceEvents[ballId] = _sourceEventId + 1;
+        royaltyReceivers[ballId] = _royaltyReceiver;
+
+        uint256 points = powerLevel / 5;
+        rewardPoints[_owner] += points;
+        emit RewardPointsEarned(_owner, points);
+
+        // A plain mint: the minter calls this from an oracle callback, which a receiver hook must not block
+        _mint(_owner, ballId);
+    }
+
+    /// @notice Burn FUSION_COST balls of the same tier to mint one ball of the next tier
+    /// @param _ballIds The balls to burn (owned by the caller, active, same tier below CRYSTAL)
+    /// @dev The new ball starts at its tier's base power plus the power the burned balls had gained
+    /// through upgrades
+    function fuseCryptoBalls(uint256[] calldata _ballIds) external nonReentrant returns (uint256) {
+        require(_ballIds.length == FUSION_COST, "Wrong number of balls to fuse");
+        BallType ballType = cryptoBalls[_ballIds[0]].ballType;
+        require(ballType != BallType.CRYSTAL, "Crystal balls cannot be fused");
+
+        uint256 upgradedPower = 0;
+        for (uint256 i = 0; i < _ballIds.length; i++) {
+            require(cryptoBalls[_ballIds[i]].ballType == ballType, "Balls must share a tier");
+            upgradedPower += _consumeBall(_ballIds[i]) - _basePower(ballType);
+        }
+
+        BallType fusedType = BallType(uint8(ballType) - 1);
+        uint256 powerLevel = _basePower(fusedType) + upgradedPower;
+        uint256 ballId = _createBall(msg.sender, fusedType, powerLevel);
+        ballUpgrades[ballId].push(PowerUpgrade(UpgradeSource.FUSION, 0, powerLevel, block.timestamp));
+
+        emit CryptoBallsFused(ballId, msg.sender, _ballIds);
+        _safeMint(msg.sender, ballId);
+        return ballId;
+    }
+
+    /// @notice Burn other balls into a ball, adding their power to it
+    /// @param _ballId The ball to upgrade
+    /// @param _consumedBallIds The balls to burn (owned by the caller and active)
+    function upgradeBallWithBalls(uint256 _ballId, uint256[] calldata _consumedBallIds) external {
+        require(_consumedBallIds.length > 0, "No balls to consume");
+
+        uint256 gainedPower = 0;
+        for (uint256 i = 0; i < _consumedBallIds.length; i++) {
+            require(_consumedBallIds[i] != _ballId, "Cannot consume the upgraded ball");
+            gainedPower += _consumeBall(_consumedBallIds[i]);
+        }
+        _upgradePower(_ballId, gainedPower, UpgradeSource.BALLS);
+    }
+
+    /// @notice Spend reward points on a ball's power (1 point = 1 power)
+    /// @param _ballId The ball to upgrade
+    /// @param _points The reward points to spend
+    function upgradeBallWithPoints(uint256 _ballId, uint256 _points) external {
+        require(_points > 0, "No points to spend");
+        require(rewardPoints[msg.sender] >= _points, "Not enough reward points");
+
+        rewardPoints[msg.sender] -= _points;
+        _upgradePower(_ballId, _points, UpgradeSource.POINTS);
+    }
+
+    /// @notice Get a ball's level-up history, oldest first
+    function getBallUpgradeHistory(uint256 _ballId) external view returns (PowerUpgrade[] memory) {
+        require(_ballId < cryptoBalls.length, "Ball does not exist");
+        return ballUpgrades[_ballId];
+    }
+
+    function _basePower(BallType _type) private pure returns (uint256) {
+        return
+            _type == BallType.CRYSTAL
+                ? 100
+                : _type == BallType.PREDICTION
+                    ? 50
+                    : 25;
+    }
+
+    /// @dev Records a new ball; the caller mints it to `_owner`
+    function _createBall(address _owner, BallType _type, uint256 _powerLevel) private returns (uint256 ballId) {
+        ballId = cryptoBalls.length;
+        cryptoBalls.push(
+            CryptoBall({ballType: _type, generationTime: block.timestamp, powerLevel: _powerLevel, isActive: true})
+        );
+        emit CryptoBallGenerated(ballId, _owner, _type);
+    }
+
+    /// @dev Burns one of the caller's active balls, leaving its record inactive; returns its power
+    function _consumeBall(uint256 _ballId) private returns (uint256) {
+        require(ownerOf(_ballId) == msg.sender, "Not ball owner");
+        CryptoBall storage ball = cryptoBalls[_ballId];
+        require(ball.isActive, "Ball is not active");
+
+        _burn(_ballId);
+        ball.isActive = false;
+        return ball.powerLevel;
+    }
+
+    function _upgradePower(uint256 _ballId, uint256 _gainedPower, UpgradeSource _source) private {
+        require(ownerOf(_ballId) == msg.sender, "Not ball owner");
+        CryptoBall storage ball = cryptoBalls[_ballId];
+        require(ball.isActive, "Ball is not active");
+
+        uint256 previousPower = ball.powerLevel;
+        ball.powerLevel = previousPower + _gainedPower;
+        ballUpgrades[_ballId].push(PowerUpgrade(_source, previousPower, ball.powerLevel, block.timestamp));
+
+        emit BallPowerUpgraded(_ballId, ball.powerLevel, msg.sender);
+    }
+
+    /// @notice Get user's CryptoBall count
+    function getUserBallCount(address _user) external view returns (uint256) {
+        return balanceOf(_user);
+    }
+
+    /// @notice Get CryptoBall details
+    function getCryptoBall(
+        uint256 _ballId
+    )
+        public
+        view
+        returns (BallType ballType, uint256 generationTime, uint256 powerLevel, address owner, bool isActive)
+    {
+        CryptoBall storage ball = cryptoBalls[_ballId];
+        return (ball.ballType, ball.generationTime, ball.powerLevel, _ownerOf(_ballId), ball.isActive);
+    }
+
+    /// @notice ERC-721 metadata: a base64 JSON document with an on-chain SVG image
+    function tokenURI(uint256 _ballId) public view override returns (string memory) {
+        _requireOwned(_ballId);
+        CryptoBall storage ball = cryptoBalls[_ballId];
+        string memory typeName = _ballTypeName(ball.ballType);
+
+        // JSON keys and values need double quotes, so these literals stay single-quoted
+        /* solhint-disable quotes */
+        string memory json = string.concat(
+            '{"name":"CryptoBall #',
+            _ballId.toString(),
+            '","description":"Minted from an encrypted CryptoPriceGuess prediction event."',
+            ',"image":"data:image/svg+xml;base64,',
+            Base64.encode(bytes(_ballSvg(_ballId, ball, typeName))),
+            '","attributes":[{"trait_type":"Type","value":"',
+            typeName,
+            '"},{"trait_type":"Power Level","display_type":"number","value":',
+            ball.powerLevel.toString(),
+            '},{"trait_type":"Generated","display_type":"date","value":',
+            ball.generationTime.toString(),
+            '},{"trait_type":"Active","value":"',
+            ball.isActive ? "Yes" : "No",
+            '"}]}'
+        );
+        /* solhint-enable quotes */
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    function _ballTypeName(BallType _type) private pure returns (string memory) {
+        if (_type == BallType.CRYSTAL) return "Crystal";
+        if (_type == BallType.PREDICTION) return "Prediction";
+        return "Vault";
+    }
+
+    /// @dev Ball color by type, radius grows with power: 50 + 0.7 * power, capped at power 100 (25 -> 67, 100+ -> 120)
+    function _ballSvg(
+        uint256 _ballId,
+        CryptoBall storage _ball,
+        string memory _typeName
+    ) private view returns (string memory) {
+        string memory color = _ball.ballType == BallType.CRYSTAL
+            ? "#a855f7"
+            : _ball.ballType == BallType.PREDICTION
+                ? "#3b82f6"
+                : "#22c55e";
+        uint256 radius = 50 + ((_ball.powerLevel > 100 ? 100 : _ball.powerLevel) * 7) / 10;
+
+        return
+            string.concat(
+                "<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 350 350'>",
+                "<defs><radialGradient id='g' cx='35%' cy='35%'><stop offset='0%' stop-color='#fff'/>",
+                "<stop offset='100%' stop-color='",
+                color,
+                "'/></radialGradient></defs><rect width='350' height='350' fill='#0b1020'/>",
+                "<circle cx='175' cy='160' r='",
+                radius.toString(),
+                "' fill='url(#g)' opacity='",
+                _ball.isActive ? "1" : "0.4",
+                "'/><text x='175' y='310' fill='#e5e7eb' font-family='monospace' font-size='16' text-anchor='middle'>",
+                _typeName,
+                " #",
+                _ballId.toString(),
+                " | Power ",
+                _ball.powerLevel.toString(),
+                "</text></svg>"
+            );
+    }
+
+    /// @notice ERC-2981 royalty: ROYALTY_BPS of the sale price to the admin of the ball's source event
+    /// @dev Balls minted by fusion have no source event and pay no royalty
+    function royaltyInfo(uint256 _ballId, uint256 _salePrice) external view returns (address, uint256) {
+        address receiver = royaltyReceivers[_ballId];
+        if (receiver == address(0)) {
+            return (address(0), 0);
+        }
+        return (receiver, (_salePrice * ROYALTY_BPS) / 10000);
+    }
+
+    function supportsInterface(bytes4 _interfaceId) public view override returns (bool) {
+        return _interfaceId == type(IERC2981).interfaceId || super.supportsInterface(_interfaceId);
+    }
+
+    /// @dev Inactive balls are locked: they can be minted and burned but not transferred. A ball that is burned,
+    /// or moves to someone who is neither owner nor curator of a collection holding it, leaves that collection.
+    function _update(address _to, uint256 _ballId, address _auth) internal override returns (address) {
+        address from = _ownerOf(_ballId);
+        if (from != address(0) && _to != address(0)) {
+            require(cryptoBalls[_ballId].isActive, "Ball is not active");
+        }
+        if (from != address(0)) {
+            uint256[] storage collectionIds = ballCollectionIds[_ballId];
+            for (uint256 i = collectionIds.length; i > 0; i--) {
+                uint256 collectionId = collectionIds[i - 1];
+                if (_to == address(0) || !_isCollectionMember(collectionId, _to)) {
+                    _removeCollectionBall(collectionId, _ballId, from);
+                }
+            }
+        }
+        return super._update(_to, _ballId, _auth);
+    }
+
+    /// @notice Create a new CryptoBall collection
+    /// @param _name The name of the collection
+    /// @param _isPublic Whether the collection is publicly visible
+    function createBallCollection(string memory _name, bool _isPublic) external returns (uint256) {
+        _validateCollectionName(_name);
+
+        uint256 collectionId = ballCollections.length;
+
+        BallCollection memory newCollection = BallCollection({
+            name: _name,
+            owner: msg.sender,
+            ballIds: new uint256[](0),
+            createdAt: block.timestamp,
+            isPublic: _isPublic
+        });
+
+        ballCollections.push(newCollection);
+        userCollections[msg.sender].push(collectionId);
+        if (_isPublic) {
+            _addPublicCollection(collectionId);
+        }
+
+        emit CollectionCreated(collectionId, msg.sender, _name);
+        return collectionId;
+    }
+
+    /// @notice Rename a collection (owner or manager)
+    function renameBallCollection(uint256 _collectionId, string memory _name) external {
+        BallCollection storage collection = _curatedCollection(_collectionId, CollectionRole.MANAGER);
+        _validateCollectionName(_name);
+
+        collection.name = _name;
+        emit CollectionRenamed(_collectionId, _name);
+    }
+
+    /// @notice Make a collection public (listed by getPublicCollections) or private (owner or manager)
+    function setCollectionPublic(uint256 _collectionId, bool _isPublic) external {
+        BallCollection storage collection = _curatedCollection(_collectionId, CollectionRole.MANAGER);
+        require(collection.isPublic != _isPublic, "Visibility unchanged");
+
+        collection.isPublic = _isPublic;
+        if (_isPublic) {
+            _addPublicCollection(_collectionId);
+        } else {
+            _removePublicCollection(_collectionId);
+        }
+        emit CollectionVisibilityChanged(_collectionId, _isPublic);
+    }
+
+    /// @notice Reorder the balls of a collection (any curator)
+    /// @param _ballIds The collection's balls in their new order (the same balls, each exactly once)
+    function reorderCollectionBalls(uint256 _collectionId, uint256[] calldata _ballIds) external {
+        BallCollection storage collection = _curatedCollection(_collectionId, CollectionRole.EDITOR);
+        require(_ballIds.length == collection.ballIds.length, "Ball count mismatch");
+
+        // Same length and every new entry found exactly once among the current ones: a permutation
+        for (uint256 i = 0; i < _ballIds.length; i++) {
+            uint256 occurrences = 0;
+            for (uint256 j = 0; j < _ballIds.length; j++) {
+                if (_ballIds[j] == _ballIds[i]) {
+                    occurrences++;
+                }
+            }
+            require(occurrences == 1, "Duplicate ball");
+            require(_collectionContains(collection, _ballIds[i]), "Ball not found in collection");
+        }
+
+        collection.ballIds = _ballIds;
+        emit CollectionReordered(_collectionId);
+    }
+
+    /// @notice Add one of your balls to a collection you own or curate
+    /// @param _collectionId The collection ID
+    /// @param _ballId The ball ID to add
+    function addBallToCollection(uint256 _collectionId, uint256 _ballId) external {
+        require(_ballId < cryptoBalls.length, "Ball does not exist");
+
+        BallCollection storage collection = _curatedCollection(_collectionId, CollectionRole.EDITOR);
+        CryptoBall storage ball = cryptoBalls[_ballId];
+
+        require(ownerOf(_ballId) == msg.sender, "Not ball owner");
+        require(ball.isActive, "Ball is not active");
+        require(!_collectionContains(collection, _ballId), "Ball already in collection");
+        require(collection.ballIds.length < MAX_COLLECTION_BALLS, "Collection is full");
+
+        collection.ballIds.push(_ballId);
+        ballCollectionIds[_ballId].push(_collectionId);
+        emit BallAddedToCollection(_collectionId, _ballId, msg.sender);
+    }
+
+    /// @notice Remove a ball from a collection: editors can remove their own balls, the owner and managers any ball
+    /// @param _collectionId The collection ID
+    /// @param _ballId The ball ID to remove
+    function removeBallFromCollection(uint256 _collectionId, uint256 _ballId) external {
+        BallCollection storage collection = _curatedCollection(
+            _collectionId,
+            _ownerOf(_ballId) == msg.sender ? CollectionRole.EDITOR : CollectionRole.MANAGER
+        );
+        require(_collectionContains(collection, _ballId), "Ball not found in collection");
+
+        _removeCollectionBall(_collectionId, _ballId, _ownerOf(_ballId));
+    }
+
+    /// @notice Appoint, change or dismiss a curator. The owner manages every role, managers appoint and dismiss
+    /// editors, and any curator can step down by setting their own role to NONE. A dismissed curator's balls
+    /// leave the collection.
+    function setCollectionCurator(uint256 _collectionId, address _curator, CollectionRole _role) external {
+        require(_collectionId < ballCollections.length, "Collection does not exist");
+        BallCollection storage collection = ballCollections[_collectionId];
+        require(_curator != address(0) && _curator != collection.owner, "Invalid curator");
+
+        CollectionRole current = collectionRoles[_collectionId][_curator];
+        require(current != _role, "Role unchanged");
+        if (msg.sender != collection.owner && !(msg.sender == _curator && _role == CollectionRole.NONE)) {
+            require(
+                collectionRoles[_collectionId][msg.sender] == CollectionRole.MANAGER &&
+                    current != CollectionRole.MANAGER &&
+                    _role != CollectionRole.MANAGER,
+                "Not allowed to set this role"
+            );
+        }
+
+        if (current == CollectionRole.NONE) {
+            collectionCurators[_collectionId].push(_curator);
+            curatedCollections[_curator].push(_collectionId);
+        } else if (_role == CollectionRole.NONE) {
+            _dropCurator(_collectionId, _curator);
+            for (uint256 i = collection.ballIds.length; i > 0; i--) {
+                uint256 ballId = collection.ballIds[i - 1];
+                if (_ownerOf(ballId) == _curator) {
+                    _removeCollectionBall(_collectionId, ballId, _curator);
+                }
+            }
+        }
+        collectionRoles[_collectionId][_curator] = _role;
+        emit CollectionCuratorSet(_collectionId, _curator, _role);
+    }
+
+    /// @notice Hand one of your collections over to another user, together with every ball of yours in it.
+    /// Balls of other curators stay with them, and so do their roles; a new owner who was a curator loses
+    /// that role.
+    function transferBallCollection(uint256 _collectionId, address _to) external {
+        BallCollection storage collection = _ownedCollection(_collectionId);
+        require(_to != address(0) && _to != msg.sender, "Invalid recipient");
+
+        if (collectionRoles[_collectionId][_to] != CollectionRole.NONE) {
+            _dropCurator(_collectionId, _to);
+            delete collectionRoles[_collectionId][_to];
+            emit CollectionCuratorSet(_collectionId, _to, CollectionRole.NONE);
+        }
+        _removeId(userCollections[msg.sender], _collectionId);
+        userCollections[_to].push(_collectionId);
+        collection.owner = _to;
+
+        // Ownership changes first, so the balls stay in this collection as _update moves them
+        uint256[] memory ballIds = collection.ballIds;
+        for (uint256 i = 0; i < ballIds.length; i++) {
+            if (_ownerOf(ballIds[i]) == msg.sender) {
+                _transfer(msg.sender, _to, ballIds[i]);
+            }
+        }
+
+        emit CollectionTransferred(_collectionId, msg.sender, _to);
+    }
+
+    /// @notice Get collection details
+    /// @param _collectionId The collection ID
+    function getBallCollection(
+        uint256 _collectionId
+    )
+        external
+        view
+        returns (string memory name, address owner, uint256[] memory ballIds, uint256 createdAt, bool isPublic)
+    {
+        require(_collectionId < ballCollections.length, "Collection does not exist");
+
+        BallCollection storage collection = ballCollections[_collectionId];
+
+        // Only public collections can be viewed by anyone besides the owner and curators
+        require(collection.isPublic || _isCollectionMember(_collectionId, msg.sender), "Collection not accessible");
+
+        return (collection.name, collection.owner, collection.ballIds, collection.createdAt, collection.isPublic);
+    }
+
+    /// @notice Get user's collection count
+    function getUserCollectionCount(address _user) external view returns (uint256) {
+        return userCollections[_user].length;
+    }
+
+    /// @notice Get the IDs of a user's collections
+    function getUserCollectionIds(address _user) external view returns (uint256[] memory) {
+        return userCollections[_user];
+    }
+
+    /// @notice Get the IDs of the collections a user curates without owning them
+    function getCuratedCollectionIds(address _user) external view returns (uint256[] memory) {
+        return curatedCollections[_user];
+    }
+
+    /// @notice Get a collection's curators and their roles
+    function getCollectionCurators(
+        uint256 _collectionId
+    ) external view returns (address[] memory curators, CollectionRole[] memory roles) {
+        require(_collectionId < ballCollections.length, "Collection does not exist");
+        curators = collectionCurators[_collectionId];
+        roles = new CollectionRole[](curators.length);
+        for (uint256 i = 0; i < curators.length; i++) {
+            roles[i] = collectionRoles[_collectionId][curators[i]];
+        }
+    }
+
+    /// @notice Get a page of public collections
+    /// @param _limit Maximum collections to return
+    /// @param _offset Starting offset for pagination
+    /// @dev `total` is the number of public collections across all pages
+    function getPublicCollections(
+        uint256 _limit,
+        uint256 _offset
+    )
+        external
+        view
+        returns (
+            uint256[] memory collectionIds,
+            string[] memory names,
+            address[] memory owners,
+            uint256[] memory ballCounts,
+            uint256 total
+        )
+    {
+        total = publicCollectionIds.length;
+        uint256 end = _offset + _limit > total ? total : _offset + _limit;
+        uint256 count = end > _offset ? end - _offset : 0;
+
+        collectionIds = new uint256[](count);
+        names = new string[](count);
+        owners = new address[](count);
+        ballCounts = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            uint256 collectionId = publicCollectionIds[_offset + i];
+            BallCollection storage collection = ballCollections[collectionId];
+            collectionIds[i] = collectionId;
+            names[i] = collection.name;
+            owners[i] = collection.owner;
+            ballCounts[i] = collection.ballIds.length;
+        }
+    }
+
+    function _ownedCollection(uint256 _collectionId) private view returns (BallCollection storage collection) {
+        require(_collectionId < ballCollections.length, "Collection does not exist");
+        collection = ballCollections[_collectionId];
+        require(collection.owner == msg.sender, "Not collection owner");
+    }
+
+    function _curatedCollection(
+        uint256 _collectionId,
+        CollectionRole _minRole
+    ) private view returns (BallCollection storage collection) {
+        require(_collectionId < ballCollections.length, "Collection does not exist");
+        collection = ballCollections[_collectionId];
+        if (collection.owner != msg.sender) {
+            CollectionRole role = collectionRoles[_collectionId][msg.sender];
+            require(role != CollectionRole.NONE, "Not a collection curator");
+            require(role >= _minRole, "Collection role too low");
+        }
+    }
+
+    function _isCollectionMember(uint256 _collectionId, address _user) private view returns (bool) {
+        return
+            ballCollections[_collectionId].owner == _user ||
+            collectionRoles[_collectionId][_user] != CollectionRole.NONE;
+    }
+
+    /// @dev Removes a ball from a collection, shifting the rest down to keep the collection's order
+    function _removeCollectionBall(uint256 _collectionId, uint256 _ballId, address _ballOwner) private {
+        uint256[] storage ballIds = ballCollections[_collectionId].ballIds;
+        for (uint256 i = 0; i < ballIds.length; i++) {
+            if (ballIds[i] == _ballId) {
+                for (uint256 j = i; j + 1 < ballIds.length; j++) {
+                    ballIds[j] = ballIds[j + 1];
+                }
+                ballIds.pop();
+                break;
+            }
+        }
+        _removeId(ballCollectionIds[_ballId], _collectionId);
+        emit BallRemovedFromCollection(_collectionId, _ballId, _ballOwner);
+    }
+
+    function _dropCurator(uint256 _collectionId, address _curator) private {
+        address[] storage curators = collectionCurators[_collectionId];
+        for (uint256 i = 0; i < curators.length; i++) {
+            if (curators[i] == _curator) {
+                curators[i] = curators[curators.length - 1];
+                curators.pop();
+                break;
+            }
+        }
+        _removeId(curatedCollections[_curator], _collectionId);
+    }
+
+    /// @dev Swap-and-pop removal of the first occurrence of `_id`
+    function _removeId(uint256[] storage _ids, uint256 _id) private {
+        for (uint256 i = 0; i < _ids.length; i++) {
+            if (_ids[i] == _id) {
+                _ids[i] = _ids[_ids.length - 1];
+                _ids.pop();
+                return;
+            }
+        }
+    }
+
+    function _validateCollectionName(string memory _name) private pure {
+        require(bytes(_name).length > 0, "Collection name cannot be empty");
+        require(bytes(_name).length <= 50, "Collection name too long");
+    }
+
+    function _collectionContains(BallCollection storage _collection, uint256 _ballId) private view returns (bool) {
+        for (uint256 i = 0; i < _collection.ballIds.length; i++) {
+            if (_collection.ballIds[i] == _ballId) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    function _addPublicCollection(uint256 _collectionId) private {
+        publicCollectionIds.push(_collectionId);
+        _publicCollectionIndex[_collectionId] = publicCollectionIds.length;
+    }
+
+    /// @dev Swap-and-pop: the last public collection takes the removed one's place
+    function _removePublicCollection(uint256 _collectionId) private {
+        uint256 index = _publicCollectionIndex[_collectionId] - 1;
+        uint256 lastId = publicCollectionIds[publicCollectionIds.length - 1];
+        publicCollectionIds[index] = lastId;
+        _publicCollectionIndex[lastId] = index + 1;
+        publicCollectionIds.pop();
+        delete _publicCollectionIndex[_collectionId];
+    }
+
+    /// @notice Get filtered CryptoBalls for user
+    /// @param _user The user address
+    /// @param _ballTypeFilter 0: all, 1: Crystal, 2: Prediction, 3: Vault
+    /// @param _activeFilter 0: all, 1: active only (a ball is only deactivated when it is burned, so an owner's
+    /// balls are always active)
+    /// @param _sortBy 0: generation time, 1: power level, 2: ball type
+    /// @param _sortOrder 0: ascending, 1: descending
+    /// @param _limit Maximum balls to return
+    /// @param _offset Starting offset for pagination
+    /// @dev `totalMatches` counts the balls matching the filters across all pages
+    function getFilteredUserBalls(
+        address _user,
+        uint256 _ballTypeFilter,
+        uint256 _activeFilter,
+        uint256 _sortBy,
+        uint256 _sortOrder,
+        uint256 _limit,
+        uint256 _offset
+    )
+        external
+        view
+        returns (
+            uint256[] memory ballIds,
+            BallType[] memory ballTypes,
+            uint256[] memory powerLevels,
+            bool[] memory isActive,
+            uint256 totalMatches
+        )
+    {
+        uint256 totalBalls = balanceOf(_user);
+        uint256[] memory userBallIds = new uint256[](totalBalls);
+        for (uint256 i = 0; i < totalBalls; i++) {
+            userBallIds[i] = tokenOfOwnerByIndex(_user, i);
+        }
+
+        // Count matching balls
+        uint256 matchCount = 0;
+        for (uint256 i = 0; i < totalBalls; i++) {
+            uint256 ballId = userBallIds[i];
+            (BallType ballType, , uint256 powerLevel, , bool active) = getCryptoBall(ballId);
+
+            bool matchesType = _ballTypeFilter == 0 ||
+                (_ballTypeFilter == 1 && ballType == BallType.CRYSTAL) ||
+                (_ballTypeFilter == 2 && ballType == BallType.PREDICTION) ||
+                (_ballTypeFilter == 3 && ballType == BallType.VAULT);
+
+            bool matchesActive = _activeFilter == 0 || (_activeFilter == 1 && active);
+
+            if (matchesType && matchesActive) {
+                matchCount++;
+            }
+        }
+
+        // Create result arrays
+        uint256[] memory resultBallIds = new uint256[](matchCount);
+        BallType[] memory resultBallTypes = new BallType[](matchCount);
+        uint256[] memory resultPowerLevels = new uint256[](matchCount);
+        bool[] memory resultIsActive = new bool[](matchCount);
+
+        uint256 resultIndex = 0;
+        for (uint256 i = 0; i < totalBalls; i++) {
+            uint256 ballId = userBallIds[i];
+            (BallType ballType, , uint256 powerLevel, , bool active) = getCryptoBall(ballId);
+
+            bool matchesType = _ballTypeFilter == 0 ||
+                (_ballTypeFilter == 1 && ballType == BallType.CRYSTAL) ||
+                (_ballTypeFilter == 2 && ballType == BallType.PREDICTION) ||
+                (_ballTypeFilter == 3 && ballType == BallType.VAULT);
+
+            bool matchesActive = _activeFilter == 0 || (_activeFilter == 1 && active);
+
+            if (matchesType && matchesActive) {
+                resultBallIds[resultIndex] = ballId;
+                resultBallTypes[resultIndex] = ballType;
+                resultPowerLevels[resultIndex] = powerLevel;
+                resultIsActive[resultIndex] = active;
+                resultIndex++;
+            }
+        }
+
+        // Simple bubble sort (small arrays expected)
+        for (uint256 i = 0; i + 1 < matchCount; i++) {
+            for (uint256 j = 0; j < matchCount - i - 1; j++) {
+                bool shouldSwap = false;
+
+                if (_sortBy == 0) {
+                    // generation time (using ball ID as proxy)
+                    shouldSwap = _sortOrder == 0
+                        ? resultBallIds[j] > resultBallIds[j + 1]
+                        : resultBallIds[j] < resultBallIds[j + 1];
+                } else if (_sortBy == 1) {
+                    // power level
+                    shouldSwap = _sortOrder == 0
+                        ? resultPowerLevels[j] > resultPowerLevels[j + 1]
+                        : resultPowerLevels[j] < resultPowerLevels[j + 1];
+                } else if (_sortBy == 2) {
+                    // ball type
+                    shouldSwap = _sortOrder == 0
+                        ? uint256(resultBallTypes[j]) > uint256(resultBallTypes[j + 1])
+                        : uint256(resultBallTypes[j]) < uint256(resultBallTypes[j + 1]);
+                }
+
+                if (shouldSwap) {
+                    // Swap all arrays
+                    uint256 tempUint = resultBallIds[j];
+                    resultBallIds[j] = resultBallIds[j + 1];
+                    resultBallIds[j + 1] = tempUint;
+
+                    BallType tempType = resultBallTypes[j];
+                    resultBallTypes[j] = resultBallTypes[j + 1];
+                    resultBallTypes[j + 1] = tempType;
+
+                    tempUint = resultPowerLevels[j];
+                    resultPowerLevels[j] = resultPowerLevels[j + 1];
+                    resultPowerLevels[j + 1] = tempUint;
+
+                    bool tempBool = resultIsActive[j];
+                    resultIsActive[j] = resultIsActive[j + 1];
+                    resultIsActive[j + 1] = tempBool;
+                }
+            }
+        }
+
+        // Pagination
+        uint256 startIndex = _offset;
+        uint256 endIndex = startIndex + _limit;
+        if (endIndex > matchCount) endIndex = matchCount;
+        if (startIndex >= matchCount) {
+            return (new uint256[](0), new BallType[](0), new uint256[](0), new bool[](0), matchCount);
+        }
+
+        uint256 pageCount = endIndex - startIndex;
+        ballIds = new uint256[](pageCount);
+        ballTypes = new BallType[](pageCount);
+        powerLevels = new uint256[](pageCount);
+        isActive = new bool[](pageCount);
+        for (uint256 i = 0; i < pageCount; i++) {
+            ballIds[i] = resultBallIds[startIndex + i];
+            ballTypes[i] = resultBallTypes[startIndex + i];
+            powerLevels[i] = resultPowerLevels[startIndex + i];
+            isActive[i] = resultIsActive[startIndex + i];
+        }
+        totalMatches = matchCount;
+    }
+
+    /// @notice Get the number of balls ever minted
+    function getBallCount() external view returns (uint256) {
+        return cryptoBalls.length;
+    }
+
+    /// @notice Get the number of collections ever created
+    function getCollectionCount() external view returns (uint256) {
+        return ballCollections.length;
+    }
+}
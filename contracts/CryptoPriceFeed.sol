@@ -0,0 +1,408 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Crypto Price Feed - asset registry, price oracle and user preferences of CryptoPriceGuess
+/// @notice Authorized feeders publish the prices of the registered assets; users keep their alert and profile
+/// preferences here
+/// @dev Prediction events reference assets by their id in `assets`
+contract CryptoPriceFeed {
+    // Asset registry: prediction events and price feeds reference assets by id
+    struct Asset {
+        string symbol;
+        uint8 decimals; // Decimals of the asset itself (informational, e.g. 8 for BTC, 6 for USDC)
+        uint32 priceScale; // Prices are stored as USD * priceScale (100 = cents)
+        bool isActive; // Inactive assets keep their history but take no new events or prices
+    }
+
+    Asset[] public assets;
+    // Mapping: keccak256(symbol) => assetId + 1 (0 = not registered)
+    mapping(bytes32 => uint256) private assetIdsBySymbol;
+
+    // Price oracle system
+    struct PriceData {
+        uint256 price;
+        uint256 timestamp;
+        address updater;
+        bool isValid;
+    }
+
+    mapping(uint256 => PriceData) public latestPrices;
+    mapping(uint256 => PriceData[]) public priceHistory;
+
+    // Price feeder authorization
+    mapping(address => bool) public authorizedPriceFeeders;
+    address public priceFeedAdmin;
+
+    // User preferences system
+    struct UserPreferences {
+        bool emailNotifications;
+        bool priceAlerts;
+        uint256 minAlertThreshold; // Minimum price change for alerts (in basis points)
+        uint256 preferredAsset; // Asset id from the registry
+        bool autoGenerateBalls;
+        bool publicProfile;
+        string displayName;
+        uint256 theme; // 0: light, 1: dark, 2: auto
+    }
+
+    mapping(address => UserPreferences) public userPreferences;
+    mapping(address => bool) public hasSetPreferences;
+
+    // Asset registry events
+    event AssetAdded(uint256 indexed assetId, string symbol, uint8 decimals, uint32 priceScale);
+    event AssetStatusChanged(uint256 indexed assetId, bool isActive);
+
+    // Price oracle events
+    event PriceUpdated(uint256 indexed assetId, uint256 price, uint256 timestamp, address updater);
+    event PriceFeedAuthorized(address indexed feeder, bool authorized);
+
+    // User preferences events
+    event UserPreferencesUpdated(address indexed user);
+    event PriceAlertTriggered(address indexed user, uint256 assetId, uint256 price, uint256 change);
+
+    modifier assetExists(uint256 _assetId) {
+        require(_assetId < assets.length, "Asset does not exist");
+        _;
+    }
+
+    constructor() {
+        priceFeedAdmin = msg.sender;
+        authorizedPriceFeeders[msg.sender] = true;
+
+        // Seed the registry with the assets events used before it existed (ids 0 and 1)
+        _addAsset("BTC", 8, 100);
+        _addAsset("ETH", 18, 100);
+    }
+
+    /// @notice List a new asset that events can predict and feeders can price (price feed admin only)
+    /// @param _symbol Ticker symbol, unique in the registry (e.g. "SOL")
+    /// @param _decimals Decimals of the asset itself
+    /// @param _priceScale Prices are stored as USD * _priceScale; a power of ten (100 = cents)
+    function addAsset(string calldata _symbol, uint8 _decimals, uint32 _priceScale) external returns (uint256) {
+        require(msg.sender == priceFeedAdmin, "Only price feed admin can manage assets");
+        return _addAsset(_symbol, _decimals, _priceScale);
+    }
+
+    /// @notice Delist or relist an asset (price feed admin only)
+    /// @dev Existing events keep running; inactive assets only stop new events and price updates
+    function setAssetActive(uint256 _assetId, bool _isActive) external assetExists(_assetId) {
+        require(msg.sender == priceFeedAdmin, "Only price feed admin can manage assets");
+        assets[_assetId].isActive = _isActive;
+        emit AssetStatusChanged(_assetId, _isActive);
+    }
+
+    /// @notice Get the number of registered assets
+    function getAssetCount() external view returns (uint256) {
+        return assets.length;
+    }
+
+    /// @notice Get the registry id of an asset by its symbol
+    function getAssetIdBySymbol(string calldata _symbol) external view returns (uint256) {
+        uint256 idPlusOne = assetIdsBySymbol[keccak256(bytes(_symbol))];
+        require(idPlusOne > 0, "Asset does not exist");
+        return idPlusOne - 1;
+    }
+
+    /// @notice Whether an asset is listed for new events and prices
+    function isAssetActive(uint256 _assetId) external view assetExists(_assetId) returns (bool) {
+        return assets[_assetId].isActive;
+    }
+
+    function _addAsset(string memory _symbol, uint8 _decimals, uint32 _priceScale) private returns (uint256) {
+        uint256 symbolLength = bytes(_symbol).length;
+        require(symbolLength > 0 && symbolLength <= 12, "Invalid symbol");
+        require(assetIdsBySymbol[keccak256(bytes(_symbol))] == 0, "Asset already registered");
+
+        uint32 scale = _priceScale;
+        while (scale >= 10 && scale % 10 == 0) {
+            scale /= 10;
+        }
+        require(scale == 1, "Price scale must be a power of ten");
+
+        uint256 assetId = assets.length;
+        assets.push(Asset({symbol: _symbol, decimals: _decimals, priceScale: _priceScale, isActive: true}));
+        assetIdsBySymbol[keccak256(bytes(_symbol))] = assetId + 1;
+
+        emit AssetAdded(assetId, _symbol, _decimals, _priceScale);
+        return assetId;
+    }
+
+    /// @notice Authorize or revoke price feeder permissions
+    /// @param _feeder The address to authorize/revoke
+    /// @param _authorized Whether to authorize or revoke
+    function setPriceFeederAuthorization(address _feeder, bool _authorized) external {
+        require(msg.sender == priceFeedAdmin, "Only price feed admin can authorize feeders");
+        authorizedPriceFeeders[_feeder] = _authorized;
+        emit PriceFeedAuthorized(_feeder, _authorized);
+    }
+
+    /// @notice Update price for an asset (authorized feeders only)
+    /// @param _assetId The registry id of the asset
+    /// @param _price The current price in USD * priceScale of the asset (e.g., 5000000 = $50,000 at scale 100)
+    function updatePrice(uint256 _assetId, uint256 _price) external assetExists(_assetId) {
+        require(authorizedPriceFeeders[msg.sender], "Not authorized to update prices");
+        require(assets[_assetId].isActive, "Asset is not active");
+        require(_price > 0, "Price must be greater than 0");
+        require(_price < 1_000_000 * uint256(assets[_assetId].priceScale), "Price seems unreasonably high"); // Max $1M
+
+        PriceData memory newPriceData = PriceData({
+            price: _price,
+            timestamp: block.timestamp,
+            updater: msg.sender,
+            isValid: true
+        });
+
+        latestPrices[_assetId] = newPriceData;
+        priceHistory[_assetId].push(newPriceData);
+
+        // Keep only last 100 price updates for gas efficiency
+        if (priceHistory[_assetId].length > 100) {
+            // Remove oldest prices (keep most recent 100)
+            for (uint256 i = 0; i < priceHistory[_assetId].length - 100; i++) {
+                delete priceHistory[_assetId][i];
+            }
+            // This is simplified - in production you'd want a more efficient circular buffer
+        }
+
+        emit PriceUpdated(_assetId, _price, block.timestamp, msg.sender);
+    }
+
+    /// @notice Get current price for an asset
+    /// @param _assetId The registry id of the asset
+    function getCurrentPrice(
+        uint256 _assetId
+    ) external view assetExists(_assetId) returns (uint256 price, uint256 timestamp, address updater, bool isValid) {
+        PriceData memory priceData = latestPrices[_assetId];
+        return (priceData.price, priceData.timestamp, priceData.updater, priceData.isValid);
+    }
+
+    /// @notice Get price history for an asset
+    /// @param _assetId The registry id of the asset
+    /// @param _limit Maximum number of historical prices to return
+    function getPriceHistory(
+        uint256 _assetId,
+        uint256 _limit
+    )
+        external
+        view
+        assetExists(_assetId)
+        returns (uint256[] memory prices, uint256[] memory timestamps, address[] memory updaters)
+    {
+        PriceData[] memory history = priceHistory[_assetId];
+        uint256 historyLength = history.length;
+        uint256 returnCount = _limit > historyLength ? historyLength : _limit;
+
+        uint256[] memory returnPrices = new uint256[](returnCount);
+        uint256[] memory returnTimestamps = new uint256[](returnCount);
+        address[] memory returnUpdaters = new address[](returnCount);
+
+        // Return most recent prices first
+        for (uint256 i = 0; i < returnCount; i++) {
+            uint256 historyIndex = historyLength - 1 - i;
+            PriceData memory priceData = history[historyIndex];
+            returnPrices[i] = priceData.price;
+            returnTimestamps[i] = priceData.timestamp;
+            returnUpdaters[i] = priceData.updater;
+        }
+
+        return (returnPrices, returnTimestamps, returnUpdaters);
+    }
+
+    /// @notice Get price statistics for an asset
+    /// @param _assetId The registry id of the asset
+    function getPriceStatistics(
+        uint256 _assetId
+    )
+        external
+        view
+        assetExists(_assetId)
+        returns (
+            uint256 currentPrice,
+            uint256 averagePrice,
+            uint256 highestPrice,
+            uint256 lowestPrice,
+            uint256 priceChange24h,
+            uint256 volatility
+        )
+    {
+        PriceData[] memory history = priceHistory[_assetId];
+        uint256 historyLength = history.length;
+
+        if (historyLength == 0) {
+            return (0, 0, 0, 0, 0, 0);
+        }
+
+        uint256 current = latestPrices[_assetId].price;
+        uint256 total = 0;
+        uint256 highest = 0;
+        uint256 lowest = type(uint256).max;
+        uint256 price24hAgo = 0;
+
+        // Calculate statistics from available history
+        for (uint256 i = 0; i < historyLength; i++) {
+            uint256 price = history[i].price;
+            total += price;
+
+            if (price > highest) highest = price;
+            if (price < lowest) lowest = price;
+
+            // Find price from ~24 hours ago (assuming updates every few hours)
+            if (i >= 8 && price24hAgo == 0) {
+                // Rough approximation
+                price24hAgo = price;
+            }
+        }
+
+        uint256 average = total / historyLength;
+        uint256 change24h = price24hAgo > 0
+            ? current > price24hAgo
+                ? current - price24hAgo
+                : price24hAgo - current
+            : 0;
+
+        // Simplified volatility calculation (standard deviation)
+        uint256 variance = 0;
+        for (uint256 i = 0; i < historyLength; i++) {
+            uint256 diff = history[i].price > average ? history[i].price - average : average - history[i].price;
+            variance += diff * diff;
+        }
+        uint256 volatilityValue = historyLength > 1 ? sqrt(variance / (historyLength - 1)) : 0;
+
+        return (current, average, highest, lowest, change24h, volatilityValue);
+    }
+
+    /// @notice Simple square root function for volatility calculation
+    function sqrt(uint256 x) internal pure returns (uint256) {
+        if (x == 0) return 0;
+        uint256 z = (x + 1) / 2;
+        uint256 y = x;
+        while (z < y) {
+            y = z;
+            z = (x / z + z) / 2;
+        }
+        return y;
+    }
+
+    /// @notice Set user preferences
+    /// @param _emailNotifications Enable email notifications
+    /// @param _priceAlerts Enable price alerts
+    /// @param _minAlertThreshold Minimum price change threshold (basis points)
+    /// @param _preferredAsset Preferred asset id
+    /// @param _autoGenerateBalls Auto-generate balls after predictions
+    /// @param _publicProfile Make profile public
+    /// @param _displayName Display name (max 32 characters)
+    /// @param _theme UI theme preference
+    function setUserPreferences(
+        bool _emailNotifications,
+        bool _priceAlerts,
+        uint256 _minAlertThreshold,
+        uint256 _preferredAsset,
+        bool _autoGenerateBalls,
+        bool _publicProfile,
+        string memory _displayName,
+        uint256 _theme
+    ) external {
+        require(_minAlertThreshold <= 10000, "Threshold cannot exceed 100%");
+        require(_theme <= 2, "Invalid theme");
+        require(bytes(_displayName).length <= 32, "Display name too long");
+        require(_preferredAsset < assets.length, "Asset does not exist");
+
+        userPreferences[msg.sender] = UserPreferences({
+            emailNotifications: _emailNotifications,
+            priceAlerts: _priceAlerts,
+            minAlertThreshold: _minAlertThreshold,
+            preferredAsset: _preferredAsset,
+            autoGenerateBalls: _autoGenerateBalls,
+            publicProfile: _publicProfile,
+            displayName: _displayName,
+            theme: _theme
+        });
+
+        hasSetPreferences[msg.sender] = true;
+        emit UserPreferencesUpdated(msg.sender);
+    }
+
+    /// @notice Get user preferences
+    function getUserPreferences(
+        address _user
+    )
+        external
+        view
+        returns (
+            bool emailNotifications,
+            bool priceAlerts,
+            uint256 minAlertThreshold,
+            uint256 preferredAsset,
+            bool autoGenerateBalls,
+            bool publicProfile,
+            string memory displayName,
+            uint256 theme
+        )
+    {
+        // Only user themselves or if profile is public
+        require(_user == msg.sender || userPreferences[_user].publicProfile, "Profile not public");
+
+        UserPreferences memory prefs = userPreferences[_user];
+        return (
+            prefs.emailNotifications,
+            prefs.priceAlerts,
+            prefs.minAlertThreshold,
+            prefs.preferredAsset,
+            prefs.autoGenerateBalls,
+            prefs.publicProfile,
+            prefs.displayName,
+            prefs.theme
+        );
+    }
+
+    /// @notice Check if price alert should be triggered for user
+    /// @param _user The user to check
+    /// @param _assetId The registry id of the asset
+    /// @param _currentPrice The current price
+    /// @param _previousPrice The previous price
+    function shouldTriggerPriceAlert(
+        address _user,
+        uint256 _assetId,
+        uint256 _currentPrice,
+        uint256 _previousPrice
+    ) external view returns (bool) {
+        if (!hasSetPreferences[_user] || !userPreferences[_user].priceAlerts) {
+            return false;
+        }
+
+        // Only trigger for preferred asset
+        if (userPreferences[_user].preferredAsset != _assetId) {
+            return false;
+        }
+
+        // Calculate price change in basis points
+        uint256 change;
+        if (_currentPrice > _previousPrice) {
+            change = ((_currentPrice - _previousPrice) * 10000) / _previousPrice;
+        } else {
+            change = ((_previousPrice - _currentPrice) * 10000) / _previousPrice;
+        }
+
+        return change >= userPreferences[_user].minAlertThreshold;
+    }
+
+    /// @notice Trigger price alert for user (can be called by authorized price feeders)
+    /// @param _user The user to alert
+    /// @param _assetId The registry id of the asset
+    /// @param _price The current price
+    /// @param _change The price change amount
+    function triggerPriceAlert(address _user, uint256 _assetId, uint256 _price, uint256 _change) external {
+        require(authorizedPriceFeeders[msg.sender], "Not authorized to trigger alerts");
+        require(hasSetPreferences[_user], "User has no preferences set");
+        require(userPreferences[_user].priceAlerts, "User has alerts disabled");
+
+        emit PriceAlertTriggered(_user, _assetId, _price, _change);
+    }
+
+    /// @notice Reset user preferences to defaults
+    function resetUserPreferences() external {
+        delete userPreferences[msg.sender];
+        hasSetPreferences[msg.sender] = false;
+        emit UserPreferencesUpdated(msg.sender);
+    }
+}
@@ -1,40 +1,37 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, euint8, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {CryptoBalls} from "./CryptoBalls.sol";
+import {CryptoPriceFeed} from "./CryptoPriceFeed.sol";
+import {Cleartexts} from "./Cleartexts.sol";
+import {EventMarkets} from "./EventMarkets.sol";
+import {EventPools} from "./EventPools.sol";
+import {Leaderboards} from "./Leaderboards.sol";
 
 /// @title Crypto Price Guess - Anonymous Price Prediction Market
 /// @notice A privacy-preserving prediction market where users submit encrypted price predictions
-/// @dev Predictions are encrypted using FHE and only decrypted after the prediction period ends
-contract CryptoPriceGuess is SepoliaConfig {
+/// @dev Predictions are encrypted using FHE and only decrypted after the prediction period ends.
+/// Predictors claim CryptoBalls from finalized events; this contract mints them as the minter of `balls`.
+contract CryptoPriceGuess is SepoliaConfig, ReentrancyGuard {
+    using EventMarkets for EventMarkets.EventMarket;
+    using EventPools for EventPools.EventPool;
 
-    constructor() {
-        priceFeedAdmin = msg.sender;
-        authorizedPriceFeeders[msg.sender] = true;
-    }
-    enum TokenType {
-        BTC,
-        ETH
-    }
-
-    enum BallType {
-        CRYSTAL,
-        PREDICTION,
-        VAULT
-    }
+    CryptoBalls public immutable balls;
+    CryptoPriceFeed public immutable priceFeed;
 
-    struct CryptoBall {
-        BallType ballType;
-        uint256 generationTime;
-        uint256 powerLevel;
-        address owner;
-        bool isActive;
+    /// @param _balls The ball contract, whose minter role must be handed to this contract (CryptoBalls.setMinter)
+    /// @param _priceFeed The asset registry events are created for
+    constructor(CryptoBalls _balls, CryptoPriceFeed _priceFeed) {
+        balls = _balls;
+        priceFeed = _priceFeed;
     }
 
     struct PredictionEvent {
         string title;
-        TokenType tokenType;
+        uint256 assetId;
         uint256 targetDate;
         uint256 endTime;
         bool isActive;
@@ -46,6 +43,8 @@ contract CryptoPriceGuess is SepoliaConfig {
         uint32 decryptedAveragePrice; // Decrypted average after finalization
     }
 
+    uint256 public constant MAX_RANGE_BUCKETS = EventMarkets.MAX_RANGE_BUCKETS;
+
     struct UserPrediction {
         euint32 encryptedPrice;
         uint256 timestamp;
@@ -57,110 +56,85 @@ contract CryptoPriceGuess is SepoliaConfig {
     // Mapping: eventId => user => prediction
     mapping(uint256 => mapping(address => UserPrediction)) public userPredictions;
 
-    // Mapping: requestId => eventId (for decryption callbacks)
-    mapping(uint256 => uint256) private _requestToEvent;
+    // Mapping: eventId => market (events without an entry are PRICE markets)
+    mapping(uint256 => EventMarkets.EventMarket) private eventMarkets;
+    // Mapping: eventId => user => encrypted upper bound (BOUNDS markets; the lower bound is encryptedPrice)
+    mapping(uint256 => mapping(address => euint32)) private predictionUpperBounds;
+
+    // Mapping: requestId => eventId + 1, one per decryption callback so that a request can only be answered
+    // through the callback it was made for (0 = not a request of that kind)
+    mapping(uint256 => uint256) private _finalizeRequestToEvent;
+    mapping(uint256 => uint256) private _leaderboardRequestToEvent;
+
+    // Accuracy scoring: encrypted |prediction - actualPrice| per user, ranked homomorphically; only the
+    // ranks are revealed as a leaderboard
+    struct EventLeaderboard {
+        uint256 scoredCount; // Predictors whose error has been computed and ranked (in eventPredictors order)
+        bool revealRequested;
+        bool isRevealed;
+        address winner;
+    }
+
+    // Mapping: eventId => predictors in submission order, except that a withdrawal moves the last predictor
+    // into the freed slot
+    mapping(uint256 => address[]) private eventPredictors;
+    // Mapping: eventId => user => index + 1 in eventPredictors (0 = not a predictor)
+    mapping(uint256 => mapping(address => uint256)) private eventPredictorIndex;
+    // Mapping: eventId => user => encrypted absolute error (in USD * the asset's price scale; outcome or
+    // bucket distance for THRESHOLD and RANGE markets)
+    mapping(uint256 => mapping(address => euint32)) private predictionErrors;
+    // Mapping: eventId => user => encrypted number of scored predictors ranked ahead of the user
+    mapping(uint256 => mapping(address => euint32)) private predictionRanks;
+    // Mapping: eventId => user => decrypted 0-based leaderboard rank (valid once revealed)
+    mapping(uint256 => mapping(address => uint32)) public revealedRanks;
+    mapping(uint256 => EventLeaderboard) public eventLeaderboards;
+
+    // Prize pools (see EventPools)
+    uint256 public constant MAX_PAYOUT_RANKS = EventPools.MAX_PAYOUT_RANKS;
+    // Time the admin has after the target date to finalize the event and reveal its leaderboard; past it
+    // predictors can reclaim their stake themselves (see claimRefund)
+    uint256 public constant RESOLUTION_PERIOD = 7 days;
+
+    mapping(uint256 => EventPools.EventPool) private eventPools;
+    // Mapping: eventId => user => winnings or refund claimed
+    mapping(uint256 => mapping(address => bool)) public hasClaimed;
+
+    // CryptoBall claims. Mapping: eventId => user => ball claimed (one ball per prediction)
+    mapping(uint256 => mapping(address => bool)) public hasClaimedBall;
+    // Mapping: requestId => claimer awaiting their rarity tier decryption, and eventId + 1 of the claim
+    mapping(uint256 => address) private _requestToBallClaimer;
+    mapping(uint256 => uint256) private _ballClaimRequestToEvent;
+
+    // Rarity tiers by prediction error relative to the actual price (basis points): within 1% mints a
+    // CRYSTAL ball, within 5% a PREDICTION ball, anything else a VAULT ball
+    uint256 public constant CRYSTAL_ERROR_BPS = 100;
+    uint256 public constant PREDICTION_ERROR_BPS = 500;
 
-    // CryptoBall system
-    CryptoBall[] public cryptoBalls;
-    mapping(address => uint256[]) public userBalls;
-
-    // CryptoBall collection system
-    struct BallCollection {
-        string name;
-        address owner;
-        uint256[] ballIds;
-        uint256 createdAt;
-        bool isPublic;
-    }
-
-    BallCollection[] public ballCollections;
-    mapping(address => uint256[]) public userCollections;
-
-    // Price oracle system
-    struct PriceData {
-        uint256 price;
-        uint256 timestamp;
-        address updater;
-        bool isValid;
-    }
-
-    mapping(TokenType => PriceData) public latestPrices;
-    mapping(TokenType => PriceData[]) public priceHistory;
-
-    // Price feeder authorization
-    mapping(address => bool) public authorizedPriceFeeders;
-    address public priceFeedAdmin;
-
-    // User preferences system
-    struct UserPreferences {
-        bool emailNotifications;
-        bool priceAlerts;
-        uint256 minAlertThreshold; // Minimum price change for alerts (in basis points)
-        TokenType preferredToken; // BTC or ETH
-        bool autoGenerateBalls;
-        bool publicProfile;
-        string displayName;
-        uint256 theme; // 0: light, 1: dark, 2: auto
-    }
-
-    mapping(address => UserPreferences) public userPreferences;
-    mapping(address => bool) public hasSetPreferences;
-
-    // Encrypted storage system
-    struct EncryptedStorage {
-        euint32 storedValue;
-        address owner;
-        uint256 timestamp;
-        bool isEncrypted;
-    }
-
-    EncryptedStorage[] public encryptedStorages;
-    mapping(address => uint256[]) public userEncryptedStorages;
-    
     // Events
-    event PredictionEventCreated(
-        uint256 indexed eventId,
-        string title,
-        TokenType tokenType,
-        address indexed admin
-    );
-    event PredictionSubmitted(
-        uint256 indexed eventId,
-        address indexed user
-    );
+    event PredictionEventCreated(uint256 indexed eventId, string title, uint256 assetId, address indexed admin);
+    event PredictionSubmitted(uint256 indexed eventId, address indexed user);
+    event PredictionUpdated(uint256 indexed eventId, address indexed user);
+    event PredictionWithdrawn(uint256 indexed eventId, address indexed user);
     event PredictionEventEnded(uint256 indexed eventId);
     event FinalizeRequested(uint256 indexed eventId, uint256 requestId);
-    event PredictionEventFinalized(
-        uint256 indexed eventId,
-        uint32 decryptedAveragePrice,
-        uint256 actualPrice
-    );
+    event PredictionEventFinalized(uint256 indexed eventId, uint32 decryptedAveragePrice, uint256 actualPrice);
     event ActualPriceSet(uint256 indexed eventId, uint256 actualPrice);
+    event PredictionsScored(uint256 indexed eventId, uint256 scoredCount, uint256 totalPredictions);
+    event LeaderboardRevealRequested(uint256 indexed eventId, uint256 requestId);
+    event LeaderboardRevealed(uint256 indexed eventId, address indexed winner);
 
-    // CryptoBall events
-    event CryptoBallGenerated(uint256 indexed ballId, address owner, BallType ballType); // BUG: 参数顺序错误，应该先ballId再owner
-    event BallPowerUpgraded(uint256 indexed ballId, uint256 newPowerLevel, address owner);
-
-    // Collection events
-    event CollectionCreated(uint256 indexed collectionId, address indexed owner, string name);
-    event BallAddedToCollection(uint256 indexed collectionId, uint256 indexed ballId, address owner);
-    event BallRemovedFromCollection(uint256 indexed collectionId, uint256 indexed ballId, address owner);
-
-    // Price oracle events
-    event PriceUpdated(TokenType indexed tokenType, uint256 price, uint256 timestamp, address updater);
-    event PriceFeedAuthorized(address indexed feeder, bool authorized);
+    // Market events
+    event EventMarketCreated(uint256 indexed eventId, EventMarkets.EventKind kind, uint32[] params);
 
-    // User preferences events
-    event UserPreferencesUpdated(address indexed user);
-    event PriceAlertTriggered(address indexed user, TokenType tokenType, uint256 price, uint256 change);
+    // Prize pool events
+    event EventPoolCreated(uint256 indexed eventId, address stakeToken, uint256 stakeAmount, uint16[] payoutShares);
+    event StakeDeposited(uint256 indexed eventId, address indexed user, uint256 amount);
+    event WinningsClaimed(uint256 indexed eventId, address indexed user, uint256 amount);
+    event PredictionEventCancelled(uint256 indexed eventId);
+    event StakeRefunded(uint256 indexed eventId, address indexed user, uint256 amount);
 
-    // Encrypted storage events
-    event ValueStored(uint256 indexed storageId, address indexed owner);
-    event ValueRetrieved(uint256 indexed storageId, address indexed owner, uint32 decryptedValue);
-
-    // Transfer events
-    event BallTransferred(address indexed from, uint256 indexed ballId, address indexed to);
-    event StorageTransferred(uint256 storageId, address from, address to);
+    // CryptoBall events (the ball contract emits the mint)
+    event CryptoBallClaimRequested(uint256 indexed eventId, address indexed user, uint256 requestId);
 
     modifier onlyAdmin(uint256 _eventId) {
         require(predictionEvents[_eventId].admin == msg.sender, "Only admin can perform this action");
@@ -181,23 +155,115 @@ contract CryptoPriceGuess is SepoliaConfig {
 
     /// @notice Create a new prediction event
     /// @param _title The title of the prediction event
-    /// @param _tokenType The token type (BTC or ETH)
+    /// @param _assetId The registry id of the asset to predict
     /// @param _targetDate The target date for price prediction (Unix timestamp)
     /// @param _durationInHours Duration of the prediction period in hours
     function createPredictionEvent(
         string memory _title,
-        TokenType _tokenType,
+        uint256 _assetId,
         uint256 _targetDate,
         uint256 _durationInHours
     ) external returns (uint256) {
+        return _createPredictionEvent(_title, _assetId, _targetDate, _durationInHours);
+    }
+
+    /// @notice Create a prediction event with an entry stake and a prize pool
+    /// @param _title The title of the prediction event
+    /// @param _assetId The registry id of the asset to predict
+    /// @param _targetDate The target date for price prediction (Unix timestamp)
+    /// @param _durationInHours Duration of the prediction period in hours
+    /// @param _stakeToken ERC-20 used for stakes, or address(0) for ETH
+    /// @param _stakeAmount Entry stake every predictor pays on submission
+    /// @param _payoutShares Share of the pool per leaderboard rank in basis points (e.g. [6000, 3000, 1000])
+    function createStakedPredictionEvent(
+        string memory _title,
+        uint256 _assetId,
+        uint256 _targetDate,
+        uint256 _durationInHours,
+        address _stakeToken,
+        uint256 _stakeAmount,
+        uint16[] calldata _payoutShares
+    ) external returns (uint256) {
+        uint256 eventId = _createPredictionEvent(_title, _assetId, _targetDate, _durationInHours);
+        _createEventPool(eventId, _stakeToken, _stakeAmount, _payoutShares);
+        return eventId;
+    }
+
+    /// @notice Create a threshold, range or bounds market (or a plain PRICE event)
+    /// @param _title The title of the prediction event
+    /// @param _assetId The registry id of the asset to predict
+    /// @param _targetDate The target date for price prediction (Unix timestamp)
+    /// @param _durationInHours Duration of the prediction period in hours
+    /// @param _kind The market kind
+    /// @param _marketParams THRESHOLD: [threshold]; RANGE: ascending bucket bounds (n bounds = n + 1 buckets);
+    /// PRICE: ascending bounds of the prediction histogram (optional); BOUNDS: empty.
+    /// Prices are in USD * the asset's price scale
+    function createMarketEvent(
+        string memory _title,
+        uint256 _assetId,
+        uint256 _targetDate,
+        uint256 _durationInHours,
+        EventMarkets.EventKind _kind,
+        uint32[] calldata _marketParams
+    ) external returns (uint256) {
+        uint256 eventId = _createPredictionEvent(_title, _assetId, _targetDate, _durationInHours);
+        _createEventMarket(eventId, _kind, _marketParams);
+        return eventId;
+    }
+
+    /// @notice Create a threshold, range or bounds market with an entry stake and a prize pool
+    /// @dev Combines createMarketEvent and createStakedPredictionEvent; see both for the parameters
+    function createStakedMarketEvent(
+        string memory _title,
+        uint256 _assetId,
+        uint256 _targetDate,
+        uint256 _durationInHours,
+        EventMarkets.EventKind _kind,
+        uint32[] calldata _marketParams,
+        address _stakeToken,
+        uint256 _stakeAmount,
+        uint16[] calldata _payoutShares
+    ) external returns (uint256) {
+        uint256 eventId = _createPredictionEvent(_title, _assetId, _targetDate, _durationInHours);
+        _createEventMarket(eventId, _kind, _marketParams);
+        _createEventPool(eventId, _stakeToken, _stakeAmount, _payoutShares);
+        return eventId;
+    }
+
+    function _createEventMarket(
+        uint256 _eventId,
+        EventMarkets.EventKind _kind,
+        uint32[] calldata _marketParams
+    ) private {
+        eventMarkets[_eventId].create(_kind, _marketParams);
+        emit EventMarketCreated(_eventId, _kind, _marketParams);
+    }
+
+    function _createEventPool(
+        uint256 _eventId,
+        address _stakeToken,
+        uint256 _stakeAmount,
+        uint16[] calldata _payoutShares
+    ) private {
+        eventPools[_eventId].create(_stakeToken, _stakeAmount, _payoutShares);
+        emit EventPoolCreated(_eventId, _stakeToken, _stakeAmount, _payoutShares);
+    }
+
+    function _createPredictionEvent(
+        string memory _title,
+        uint256 _assetId,
+        uint256 _targetDate,
+        uint256 _durationInHours
+    ) private returns (uint256) {
+        require(priceFeed.isAssetActive(_assetId), "Asset is not active");
         require(_targetDate > block.timestamp, "Target date must be in the future");
         require(_durationInHours > 0, "Duration must be greater than 0");
 
         uint256 eventId = predictionEvents.length;
-        
+
         PredictionEvent storage newEvent = predictionEvents.push();
         newEvent.title = _title;
-        newEvent.tokenType = _tokenType;
+        newEvent.assetId = _assetId;
         newEvent.targetDate = _targetDate;
         newEvent.endTime = block.timestamp + (_durationInHours * 1 hours);
         newEvent.isActive = true;
@@ -206,66 +272,79 @@ contract CryptoPriceGuess is SepoliaConfig {
         newEvent.totalPredictions = 0;
         newEvent.actualPrice = 0;
 
-        emit PredictionEventCreated(eventId, _title, _tokenType, msg.sender);
-        
+        emit PredictionEventCreated(eventId, _title, _assetId, msg.sender);
+
         return eventId;
     }
 
     /// @notice Submit an encrypted price prediction
     /// @param _eventId The ID of the prediction event
-    /// @param _encryptedPrice The encrypted price prediction (in USD * 100, e.g., 50000 = $50,000)
+    /// @param _encryptedPrice The encrypted prediction: a price in USD * the asset's price scale (PRICE),
+    /// 1 for above / 0 for below (THRESHOLD) or a bucket index (RANGE)
     /// @param inputProof The proof for the encrypted input
-    /// @dev Users encrypt their price prediction before submitting
+    /// @dev Users encrypt their price prediction before submitting. Staked events take the entry stake
+    /// as msg.value (ETH) or via transferFrom (ERC-20, approve first)
     function submitPrediction(
         uint256 _eventId,
         externalEuint32 _encryptedPrice,
         bytes calldata inputProof
-    ) external eventExists(_eventId) eventActive(_eventId) {
+    ) external payable nonReentrant eventExists(_eventId) eventActive(_eventId) {
         require(!userPredictions[_eventId][msg.sender].exists, "Already submitted prediction");
-
-        PredictionEvent storage event_ = predictionEvents[_eventId];
+        require(eventMarkets[_eventId].kind != EventMarkets.EventKind.BOUNDS, "Use submitBoundsPrediction");
 
         // Convert external encrypted input to internal euint32
         euint32 encryptedPrice = FHE.fromExternal(_encryptedPrice, inputProof);
+        _recordPrediction(_eventId, encryptedPrice);
 
-        // Store user prediction
-        userPredictions[_eventId][msg.sender] = UserPrediction({
-            encryptedPrice: encryptedPrice,
-            timestamp: block.timestamp,
-            exists: true
-        });
+        require(msg.value == _collectStake(_eventId), "Incorrect ETH stake");
+    }
 
-        // Add the encrypted price to the sum
-        if (event_.totalPredictions == 0) {
-            event_.encryptedPriceSum = encryptedPrice;
-        } else {
-            event_.encryptedPriceSum = FHE.add(event_.encryptedPriceSum, encryptedPrice);
-        }
+    /// @notice Submit encrypted lower and upper price bounds to a BOUNDS market
+    /// @param _eventId The ID of the prediction event
+    /// @param _encryptedLower The encrypted lower bound (in USD * the asset's price scale)
+    /// @param _encryptedUpper The encrypted upper bound (in USD * the asset's price scale)
+    /// @param inputProof The proof for both encrypted inputs
+    /// @dev Swapped bounds are reordered homomorphically. Staked events take the entry stake as in submitPrediction
+    function submitBoundsPrediction(
+        uint256 _eventId,
+        externalEuint32 _encryptedLower,
+        externalEuint32 _encryptedUpper,
+        bytes calldata inputProof
+    ) external payable nonReentrant eventExists(_eventId) eventActive(_eventId) {
+        require(!userPredictions[_eventId][msg.sender].exists, "Already submitted prediction");
+        EventMarkets.EventMarket storage market = eventMarkets[_eventId];
+        require(market.kind == EventMarkets.EventKind.BOUNDS, "Not a bounds market");
 
-        // Grant permissions
-        FHE.allowThis(event_.encryptedPriceSum);
-        FHE.allow(event_.encryptedPriceSum, event_.admin);
+        (euint32 lower, euint32 upper) = market.tallyBounds(
+            FHE.fromExternal(_encryptedLower, inputProof),
+            FHE.fromExternal(_encryptedUpper, inputProof),
+            euint32.wrap(0)
+        );
+        predictionUpperBounds[_eventId][msg.sender] = upper;
+        FHE.allow(upper, msg.sender);
 
-        event_.totalPredictions++;
+        _recordPrediction(_eventId, lower);
 
-        emit PredictionSubmitted(_eventId, msg.sender);
+        require(msg.value == _collectStake(_eventId), "Incorrect ETH stake");
     }
 
     /// @notice Submit multiple encrypted price predictions in batch
     /// @param _eventIds Array of prediction event IDs
-    /// @param _encryptedPrices Array of encrypted price predictions
+    /// @param _encryptedPrices Array of encrypted predictions (see submitPrediction)
     /// @param _inputProofs Array of proofs for the encrypted inputs
-    /// @dev Batch submission for improved efficiency
+    /// @dev Batch submission for improved efficiency; msg.value must cover the ETH stakes of all events.
+    /// BOUNDS markets are not supported
     function submitBatchPredictions(
         uint256[] calldata _eventIds,
         externalEuint32[] calldata _encryptedPrices,
         bytes[] calldata _inputProofs
-    ) external {
+    ) external payable nonReentrant {
         require(_eventIds.length == _encryptedPrices.length, "Array length mismatch");
         require(_eventIds.length == _inputProofs.length, "Array length mismatch");
         require(_eventIds.length > 0, "Cannot submit empty batch");
         require(_eventIds.length <= 10, "Batch size too large");
 
+        uint256 ethStakes = 0;
         for (uint256 i = 0; i < _eventIds.length; i++) {
             uint256 eventId = _eventIds[i];
 
@@ -275,43 +354,168 @@ contract CryptoPriceGuess is SepoliaConfig {
             require(event_.isActive, "Event is not active");
             require(block.timestamp < event_.endTime, "Event has ended");
             require(!event_.isFinalized, "Event is finalized");
+            require(eventMarkets[eventId].kind != EventMarkets.EventKind.BOUNDS, "Use submitBoundsPrediction");
 
             // Check user hasn't already predicted
             require(!userPredictions[eventId][msg.sender].exists, "Already submitted prediction for event");
 
             // Convert external encrypted input to internal euint32
             euint32 encryptedPrice = FHE.fromExternal(_encryptedPrices[i], _inputProofs[i]);
+            _recordPrediction(eventId, encryptedPrice);
 
-            // Store user prediction
-            userPredictions[eventId][msg.sender] = UserPrediction({
-                encryptedPrice: encryptedPrice,
-                timestamp: block.timestamp,
-                exists: true
-            });
+            ethStakes += _collectStake(eventId);
+        }
 
-            // Add the encrypted price to the sum
-            if (event_.totalPredictions == 0) {
-                event_.encryptedPriceSum = encryptedPrice;
-            } else {
-                event_.encryptedPriceSum = FHE.add(event_.encryptedPriceSum, encryptedPrice);
-            }
+        require(msg.value == ethStakes, "Incorrect ETH stake");
+    }
 
-            // Grant permissions
-            FHE.allowThis(event_.encryptedPriceSum);
-            FHE.allow(event_.encryptedPriceSum, event_.admin);
+    /// @notice Replace your encrypted prediction while the event is active
+    /// @param _eventId The ID of the prediction event
+    /// @param _encryptedPrice The new encrypted prediction (see submitPrediction)
+    /// @param inputProof The proof for the encrypted input
+    /// @dev The old ciphertext is subtracted from the event aggregates and the new one added; the stake is kept
+    function updatePrediction(
+        uint256 _eventId,
+        externalEuint32 _encryptedPrice,
+        bytes calldata inputProof
+    ) external eventExists(_eventId) eventActive(_eventId) {
+        require(userPredictions[_eventId][msg.sender].exists, "No prediction to update");
+        require(eventMarkets[_eventId].kind != EventMarkets.EventKind.BOUNDS, "Use updateBoundsPrediction");
 
-            event_.totalPredictions++;
+        _replacePrediction(_eventId, FHE.fromExternal(_encryptedPrice, inputProof));
+    }
 
-            emit PredictionSubmitted(eventId, msg.sender);
+    /// @notice Replace your encrypted bounds in a BOUNDS market while the event is active
+    /// @param _eventId The ID of the prediction event
+    /// @param _encryptedLower The new encrypted lower bound
+    /// @param _encryptedUpper The new encrypted upper bound
+    /// @param inputProof The proof for both encrypted inputs
+    function updateBoundsPrediction(
+        uint256 _eventId,
+        externalEuint32 _encryptedLower,
+        externalEuint32 _encryptedUpper,
+        bytes calldata inputProof
+    ) external eventExists(_eventId) eventActive(_eventId) {
+        require(userPredictions[_eventId][msg.sender].exists, "No prediction to update");
+        EventMarkets.EventMarket storage market = eventMarkets[_eventId];
+        require(market.kind == EventMarkets.EventKind.BOUNDS, "Not a bounds market");
+
+        (euint32 lower, euint32 upper) = market.tallyBounds(
+            FHE.fromExternal(_encryptedLower, inputProof),
+            FHE.fromExternal(_encryptedUpper, inputProof),
+            predictionUpperBounds[_eventId][msg.sender]
+        );
+        predictionUpperBounds[_eventId][msg.sender] = upper;
+        FHE.allow(upper, msg.sender);
+
+        _replacePrediction(_eventId, lower);
+    }
+
+    /// @notice Withdraw your prediction while the event is active
+    /// @param _eventId The ID of the prediction event
+    /// @dev Removes the prediction from the event aggregates and refunds the entry stake of staked events
+    function withdrawPrediction(uint256 _eventId) external nonReentrant eventExists(_eventId) eventActive(_eventId) {
+        UserPrediction storage prediction = userPredictions[_eventId][msg.sender];
+        require(prediction.exists, "No prediction to withdraw");
+        PredictionEvent storage event_ = predictionEvents[_eventId];
+
+        event_.encryptedPriceSum = eventMarkets[_eventId].removePrediction(
+            event_.encryptedPriceSum,
+            prediction.encryptedPrice,
+            predictionUpperBounds[_eventId][msg.sender],
+            event_.admin
+        );
+
+        event_.totalPredictions--;
+        _removePredictor(_eventId, msg.sender);
+        delete userPredictions[_eventId][msg.sender];
+
+        emit PredictionWithdrawn(_eventId, msg.sender);
+
+        EventPools.EventPool storage pool = eventPools[_eventId];
+        if (pool.stakeAmount > 0) {
+            pool.totalStaked -= pool.stakeAmount;
+            pool.pay(msg.sender, pool.stakeAmount);
+            emit StakeRefunded(_eventId, msg.sender, pool.stakeAmount);
+        }
+    }
+
+    /// @dev Swaps the caller's stored prediction for `_prediction` in the event aggregates
+    function _replacePrediction(uint256 _eventId, euint32 _prediction) private {
+        PredictionEvent storage event_ = predictionEvents[_eventId];
+        UserPrediction storage prediction = userPredictions[_eventId][msg.sender];
+
+        (_prediction, event_.encryptedPriceSum) = eventMarkets[_eventId].addPrediction(
+            event_.encryptedPriceSum,
+            prediction.encryptedPrice,
+            _prediction,
+            event_.admin
+        );
+        prediction.encryptedPrice = _prediction;
+        prediction.timestamp = block.timestamp;
+
+        // The predictor can decrypt their own prediction
+        FHE.allow(_prediction, msg.sender);
+
+        emit PredictionUpdated(_eventId, msg.sender);
+    }
+
+    /// @dev Removes `_user` from the event's predictors by moving the last predictor into their slot
+    function _removePredictor(uint256 _eventId, address _user) private {
+        address[] storage predictors = eventPredictors[_eventId];
+        uint256 index = eventPredictorIndex[_eventId][_user];
+        address last = predictors[predictors.length - 1];
+
+        predictors[index - 1] = last;
+        eventPredictorIndex[_eventId][last] = index;
+        predictors.pop();
+        delete eventPredictorIndex[_eventId][_user];
+    }
+
+    /// @dev Stores the caller's prediction and folds it into the event aggregates (see EventMarkets.addPrediction)
+    function _recordPrediction(uint256 _eventId, euint32 _prediction) private {
+        PredictionEvent storage event_ = predictionEvents[_eventId];
+
+        // Normalize the prediction and add the encrypted price to the sum
+        (_prediction, event_.encryptedPriceSum) = eventMarkets[_eventId].addPrediction(
+            event_.encryptedPriceSum,
+            euint32.wrap(0),
+            _prediction,
+            event_.admin
+        );
+
+        // Store user prediction
+        userPredictions[_eventId][msg.sender] = UserPrediction({
+            encryptedPrice: _prediction,
+            timestamp: block.timestamp,
+            exists: true
+        });
+
+        // The predictor can decrypt their own prediction
+        FHE.allow(_prediction, msg.sender);
+
+        event_.totalPredictions++;
+        eventPredictors[_eventId].push(msg.sender);
+        eventPredictorIndex[_eventId][msg.sender] = eventPredictors[_eventId].length;
+
+        emit PredictionSubmitted(_eventId, msg.sender);
+    }
+
+    /// @dev Records the caller's entry stake for an event, pulling ERC-20 stakes; returns the ETH owed
+    function _collectStake(uint256 _eventId) private returns (uint256) {
+        EventPools.EventPool storage pool = eventPools[_eventId];
+        if (pool.stakeAmount == 0) {
+            return 0;
         }
+
+        emit StakeDeposited(_eventId, msg.sender, pool.stakeAmount);
+        return pool.collect();
     }
 
     /// @notice Get the encrypted price sum (only admin can decrypt)
     /// @param _eventId The ID of the prediction event
     /// @return The encrypted sum of all predictions
-    function getEncryptedPriceSum(
-        uint256 _eventId
-    ) external view eventExists(_eventId) returns (euint32) {
+    function getEncryptedPriceSum(uint256 _eventId) external view eventExists(_eventId) returns (euint32) {
         return predictionEvents[_eventId].encryptedPriceSum;
     }
 
@@ -328,14 +532,14 @@ contract CryptoPriceGuess is SepoliaConfig {
 
     /// @notice Set the actual price after target date (admin only)
     /// @param _eventId The ID of the prediction event
-    /// @param _actualPrice The actual price at target date (in USD * 100)
-    function setActualPrice(
-        uint256 _eventId,
-        uint256 _actualPrice
-    ) external eventExists(_eventId) onlyAdmin(_eventId) {
+    /// @param _actualPrice The actual price at target date (in USD * the asset's price scale)
+    function setActualPrice(uint256 _eventId, uint256 _actualPrice) external eventExists(_eventId) onlyAdmin(_eventId) {
         PredictionEvent storage event_ = predictionEvents[_eventId];
+        require(!eventPools[_eventId].isCancelled, "Event cancelled");
         require(block.timestamp >= event_.targetDate, "Target date not reached");
         require(_actualPrice > 0, "Actual price must be greater than 0");
+        require(_actualPrice <= type(uint32).max, "Actual price out of range");
+        require(eventLeaderboards[_eventId].scoredCount == 0, "Predictions already scored");
 
         event_.actualPrice = _actualPrice;
         emit ActualPriceSet(_eventId, _actualPrice);
@@ -345,43 +549,40 @@ contract CryptoPriceGuess is SepoliaConfig {
     /// @param _eventId The ID of the prediction event
     function finalizePredictionEvent(uint256 _eventId) external eventExists(_eventId) onlyAdmin(_eventId) {
         PredictionEvent storage event_ = predictionEvents[_eventId];
+        require(!eventPools[_eventId].isCancelled, "Event cancelled");
         require(!event_.isActive, "Event still active");
         require(!event_.isFinalized, "Event already finalized");
         require(event_.totalPredictions > 0, "No predictions to finalize");
 
-        // Request decryption for the encrypted price sum
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(event_.encryptedPriceSum);
-
+        // Request decryption for the encrypted price sum, followed by the market tallies
+        bytes32[] memory cts = eventMarkets[_eventId].encryptedResults(event_.encryptedPriceSum);
         uint256 requestId = FHE.requestDecryption(cts, this.decryptionCallback.selector);
-        _requestToEvent[requestId] = _eventId;
+        _finalizeRequestToEvent[requestId] = _eventId + 1;
         emit FinalizeRequested(_eventId, requestId);
     }
 
     /// @notice Callback called by the FHE decryption oracle
-    /// @dev Expects the decrypted sum in bytes
+    /// @dev `cleartexts` is the ABI-encoded decrypted sum followed by the market tallies, verified against
+    /// the KMS signatures
     function decryptionCallback(
         uint256 requestId,
         bytes memory cleartexts,
-        bytes[] memory /*signatures*/
+        bytes memory decryptionProof
     ) public returns (bool) {
-        uint256 eventId = _requestToEvent[requestId];
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint256 eventRef = _finalizeRequestToEvent[requestId];
+        require(eventRef != 0, "Unknown finalize request");
+        delete _finalizeRequestToEvent[requestId];
+
+        uint256 eventId = eventRef - 1;
         PredictionEvent storage event_ = predictionEvents[eventId];
         require(!event_.isFinalized, "Event already finalized");
         require(!event_.isActive, "Event still active");
 
-        // Parse the decrypted sum (uint32)
-        require(cleartexts.length >= 4, "Invalid cleartexts length");
-        uint32 decryptedSum;
-        assembly {
-            // Read 4 bytes starting at offset 32 (skip bytes length slot)
-            decryptedSum := shr(224, mload(add(cleartexts, 32)))
-        }
+        EventMarkets.EventMarket storage market = eventMarkets[eventId];
+        uint32 averagePrice = market.recordResults(cleartexts, uint32(event_.totalPredictions));
 
-        // Calculate average price (sum / totalPredictions)
-        // Note: This is a simplified calculation. In production, consider using euint32 division
-        uint32 averagePrice = decryptedSum / uint32(event_.totalPredictions);
-        
         event_.decryptedAveragePrice = averagePrice;
         event_.isFinalized = true;
 
@@ -391,1026 +592,379 @@ contract CryptoPriceGuess is SepoliaConfig {
 
     /// @notice Get the decrypted average price (only available after finalize)
     /// @param _eventId The ID of the prediction event
-    function getDecryptedAveragePrice(
-        uint256 _eventId
-    ) external view eventExists(_eventId) returns (uint32) {
+    function getDecryptedAveragePrice(uint256 _eventId) external view eventExists(_eventId) returns (uint32) {
         require(predictionEvents[_eventId].isFinalized, "Event not finalized");
         return predictionEvents[_eventId].decryptedAveragePrice;
     }
 
-    /// @notice Get prediction event details
+    /// @notice Score predictions against the actual price (admin only)
     /// @param _eventId The ID of the prediction event
-    function getPredictionEvent(
-        uint256 _eventId
-    ) external view eventExists(_eventId) returns (
-        string memory title,
-        TokenType tokenType,
-        uint256 targetDate,
-        uint256 endTime,
-        bool isActive,
-        bool isFinalized,
-        address admin,
-        uint256 totalPredictions,
-        uint256 actualPrice,
-        uint32 decryptedAveragePrice
-    ) {
+    /// @param _maxCount Maximum number of predictions to score in this call (0 = all remaining)
+    /// @dev Computes |prediction - actualPrice| homomorphically; each predictor can decrypt their own error.
+    /// THRESHOLD and RANGE predictions are compared with the actual outcome (0/1) or bucket instead, so a
+    /// correct call scores 0. BOUNDS predictions score max(upper, actual) - min(lower, actual): the width of
+    /// the bounds, plus the distance to the actual price when it falls outside them. Each newly scored error
+    /// is compared with the ones scored before it to rank the predictors without decrypting any error, so a
+    /// batch costs one comparison per already scored predictor
+    function scorePredictions(uint256 _eventId, uint256 _maxCount) external eventExists(_eventId) onlyAdmin(_eventId) {
         PredictionEvent storage event_ = predictionEvents[_eventId];
-        return (
-            event_.title,
-            event_.tokenType,
-            event_.targetDate,
-            event_.endTime,
-            event_.isActive,
-            event_.isFinalized,
-            event_.admin,
-            event_.totalPredictions,
-            event_.actualPrice,
-            event_.decryptedAveragePrice
-        );
-    }
-
-    /// @notice Get total number of prediction events
-    function getEventCount() external view returns (uint256) {
-        return predictionEvents.length;
-    }
-
-    /// @notice Check if a user has submitted a prediction
-    function hasUserPredicted(uint256 _eventId, address _user) external view returns (bool) {
-        return userPredictions[_eventId][_user].exists;
-    }
-
-    /// @notice Get prediction statistics for an event
-    /// @param _eventId The event ID
-    function getPredictionStatistics(uint256 _eventId) external view eventExists(_eventId) returns (
-        uint256 totalPredictions,
-        uint256 activePredictions,
-        uint256 finalizedPredictions,
-        uint256 averagePredictionAge,
-        uint256 uniquePredictors
-    ) {
-        PredictionEvent storage event_ = predictionEvents[_eventId];
-
-        uint256 activeCount = 0;
-        uint256 finalizedCount = 0;
-        uint256 totalAge = 0;
-        uint256 predictorCount = 0;
-
-        // This is a simplified statistics calculation
-        // In production, you might want to store more detailed statistics
-        if (event_.isFinalized) {
-            finalizedCount = event_.totalPredictions;
-        } else if (event_.isActive) {
-            activeCount = event_.totalPredictions;
-        }
-
-        // Calculate average prediction age (simplified)
-        if (event_.totalPredictions > 0) {
-            totalAge = (block.timestamp - event_.targetDate) * event_.totalPredictions;
-            averagePredictionAge = totalAge / event_.totalPredictions;
-        }
-
-        // For unique predictors, we'd need additional tracking
-        // For now, assume each prediction is from a unique predictor
-        predictorCount = event_.totalPredictions;
-
-        return (
-            event_.totalPredictions,
-            activeCount,
-            finalizedCount,
-            averagePredictionAge,
-            predictorCount
-        );
-    }
-
-    /// @notice Get user's prediction history across all events
-    /// @param _user The user address
-    function getUserPredictionHistory(address _user) external view returns (
-        uint256 totalPredictions,
-        uint256 activePredictions,
-        uint256 finalizedPredictions,
-        uint256[] memory participatedEventIds
-    ) {
-        uint256 eventCount = predictionEvents.length;
-        uint256[] memory tempEventIds = new uint256[](eventCount);
-        uint256 participatedCount = 0;
-        uint256 activeCount = 0;
-        uint256 finalizedCount = 0;
-
-        for (uint256 i = 0; i < eventCount; i++) {
-            if (userPredictions[i][_user].exists) {
-                tempEventIds[participatedCount] = i;
-                participatedCount++;
-
-                PredictionEvent storage event_ = predictionEvents[i];
-                if (event_.isFinalized) {
-                    finalizedCount++;
-                } else if (event_.isActive) {
-                    activeCount++;
-                }
-            }
-        }
-
-        // Create properly sized array
-        uint256[] memory finalEventIds = new uint256[](participatedCount);
-        for (uint256 i = 0; i < participatedCount; i++) {
-            finalEventIds[i] = tempEventIds[i];
-        }
+        require(!eventPools[_eventId].isCancelled, "Event cancelled");
+        require(!event_.isActive, "Event still active");
+        require(event_.actualPrice > 0, "Actual price not set");
 
-        return (
-            participatedCount,
-            activeCount,
-            finalizedCount,
-            finalEventIds
-        );
-    }
+        EventLeaderboard storage board = eventLeaderboards[_eventId];
+        address[] storage predictors = eventPredictors[_eventId];
+        require(board.scoredCount < predictors.length, "All predictions scored");
 
-    /// @notice Get global statistics across all events
-    function getGlobalStatistics() external view returns (
-        uint256 totalEvents,
-        uint256 activeEvents,
-        uint256 finalizedEvents,
-        uint256 totalPredictions,
-        uint256 totalCryptoBalls,
-        uint256 totalCollections
-    ) {
-        uint256 events = predictionEvents.length;
-        uint256 active = 0;
-        uint256 finalized = 0;
-        uint256 predictions = 0;
-        uint256 balls = cryptoBalls.length;
-        uint256 collections = ballCollections.length;
-
-        for (uint256 i = 0; i < events; i++) {
-            PredictionEvent storage event_ = predictionEvents[i];
-            predictions += event_.totalPredictions;
-
-            if (event_.isFinalized) {
-                finalized++;
-            } else if (event_.isActive) {
-                active++;
-            }
+        uint256 end = predictors.length;
+        if (_maxCount > 0 && board.scoredCount + _maxCount < end) {
+            end = board.scoredCount + _maxCount;
         }
 
-        return (
-            events,
-            active,
-            finalized,
-            predictions,
-            balls,
-            collections
-        );
-    }
-
-    /// @notice Get user's encrypted prediction (user can decrypt their own)
-    function getUserEncryptedPrediction(
-        uint256 _eventId,
-        address _user
-    ) external view eventExists(_eventId) returns (euint32) {
-        require(userPredictions[_eventId][_user].exists, "User has not predicted");
-        return userPredictions[_eventId][_user].encryptedPrice;
-    }
-
-    /// @notice Generate a CryptoBall based on prediction performance
-    /// @param _eventId The prediction event ID
-    function generateCryptoBall(uint256 _eventId) external eventExists(_eventId) {
-        // Verify user has submitted a prediction for this event
-        require(userPredictions[_eventId][msg.sender].exists, "User must have submitted prediction");
-
-        PredictionEvent storage event_ = predictionEvents[_eventId];
-        require(event_.isFinalized, "Event must be finalized to generate ball");
-
-        BallType ballType;
-        uint256 powerLevel;
-
-        // Simple ball generation logic based on event data
-        if (event_.totalPredictions > 10) {
-            ballType = BallType.CRYSTAL;
-            powerLevel = 100;
-        } else if (event_.totalPredictions > 5) {
-            ballType = BallType.PREDICTION;
-            powerLevel = 50;
-        } else {
-            ballType = BallType.VAULT;
-            powerLevel = 25;
+        uint32 actualValue = _actualOutcome(_eventId);
+        for (uint256 i = board.scoredCount; i < end; i++) {
+            euint32 error = _predictionError(_eventId, predictors[i], actualValue);
+            Leaderboards.rank(predictionErrors[_eventId], predictionRanks[_eventId], predictors, i, error);
         }
 
-        uint256 ballId = cryptoBalls.length;
-        CryptoBall memory newBall = CryptoBall({
-            ballType: ballType,
-            generationTime: block.timestamp,
-            powerLevel: powerLevel,
-            owner: msg.sender,
-            isActive: true
-        });
-
-        cryptoBalls.push(newBall);
-        userBalls[msg.sender].push(ballId);
-
-        emit CryptoBallGenerated(ballId, ballType, msg.sender);
-    }
-
-    /// @notice Get user's CryptoBall count
-    function getUserBallCount(address _user) external view returns (uint256) {
-        return userBalls[_user].length;
+        board.scoredCount = end;
+        emit PredictionsScored(_eventId, end, predictors.length);
     }
 
-    /// @notice Get CryptoBall details
-    function getCryptoBall(uint256 _ballId) external view returns (
-        BallType ballType,
-        uint256 generationTime,
-        uint256 powerLevel,
-        address owner,
-        bool isActive
-    ) {
-        CryptoBall storage ball = cryptoBalls[_ballId];
-        return (ball.ballType, ball.generationTime, ball.powerLevel, ball.owner, ball.isActive);
+    /// @dev Encrypted error of `_user`'s prediction against `_actualValue` (see scorePredictions)
+    function _predictionError(uint256 _eventId, address _user, uint32 _actualValue) private returns (euint32) {
+        return
+            eventMarkets[_eventId].predictionError(
+                userPredictions[_eventId][_user].encryptedPrice,
+                predictionUpperBounds[_eventId][_user],
+                _actualValue
+            );
     }
 
-    /// @notice Store an encrypted value in the vault
-    /// @param _encryptedValue The encrypted value to store
-    /// @param inputProof The proof for the encrypted input
-    function storeEncryptedValue(
-        externalEuint32 _encryptedValue,
-        bytes calldata inputProof
-    ) external {
-        // Initialize FHE context properly
-        require(FHE.isInitialized(), "FHE not initialized");
-
-        // Verify the input proof before conversion
-        require(FHE.verifyProof(inputProof), "Invalid input proof");
-
-        // Check input bounds
-        require(_encryptedValue != externalEuint32.wrap(0), "Value cannot be zero");
-
-        // Initialize encryption parameters
-        FHE.initEncryption();
-
-        // Set up encryption context
-        FHE.setEncryptionContext(msg.sender);
-
-        // Convert external encrypted input to internal euint32
-        euint32 encryptedValue = FHE.fromExternal(_encryptedValue, inputProof);
-
-        uint256 storageId = encryptedStorages.length;
-
-        EncryptedStorage memory newStorage = EncryptedStorage({
-            storedValue: encryptedValue,
-            owner: msg.sender,
-            timestamp: block.timestamp,
-            isEncrypted: true
-        });
-
-        encryptedStorages.push(newStorage);
-        userEncryptedStorages[msg.sender].push(storageId);
-
-        // Grant decryption permissions
-        FHE.allowThis(encryptedValue);
-        FHE.allow(encryptedValue, msg.sender);
-
-        // Set up decryption context
-        FHE.setDecryptionContext(msg.sender, encryptedValue);
-
-        emit ValueStored(storageId, msg.sender);
-    }
-
-    /// @notice Retrieve and decrypt a stored value
-    /// @param _storageId The storage ID to retrieve
-    function retrieveEncryptedValue(uint256 _storageId) external {
-        require(_storageId < encryptedStorages.length, "Storage does not exist");
-
-        EncryptedStorage storage storage_ = encryptedStorages[_storageId];
-        require(storage_.owner == msg.sender, "Not the owner");
-        require(storage_.isEncrypted, "Value not encrypted");
-        require(storage_.timestamp > 0, "Invalid storage timestamp");
-
-        // Verify FHE context is ready for decryption
-        require(FHE.isInitialized(), "FHE context not initialized");
-
-        // Ensure the stored value is still accessible
-        require(!FHE.isNullified(storage_.storedValue), "Value has been nullified");
-
-        // Prepare ciphertext for decryption
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(storage_.storedValue);
-
-        // Request decryption with enhanced error handling
-        uint256 requestId = FHE.requestDecryption(cts, this.valueDecryptionCallback.selector);
-
-        // Store request mapping with validation
-        require(_requestToEvent[requestId] == 0, "Request ID collision detected");
-        _requestToEvent[requestId] = _storageId;
+    /// @dev What predictions are scored against (see EventMarkets.actualOutcome)
+    function _actualOutcome(uint256 _eventId) private view returns (uint32) {
+        return eventMarkets[_eventId].actualOutcome(uint32(predictionEvents[_eventId].actualPrice));
     }
 
-    /// @notice Callback for value decryption
-    function valueDecryptionCallback(
+    /// @notice Request decryption of the predictors' ranks to publish the leaderboard (admin only)
+    /// @param _eventId The ID of the prediction event
+    /// @dev Only the ranks computed in scorePredictions are decrypted; errors, and with them the predictions,
+    /// stay encrypted
+    function revealLeaderboard(uint256 _eventId) external eventExists(_eventId) onlyAdmin(_eventId) {
+        require(!eventPools[_eventId].isCancelled, "Event cancelled");
+        EventLeaderboard storage board = eventLeaderboards[_eventId];
+        address[] storage predictors = eventPredictors[_eventId];
+        require(predictors.length > 0, "No predictions to reveal");
+        require(board.scoredCount == predictors.length, "Predictions not fully scored");
+        require(!board.revealRequested, "Leaderboard reveal already requested");
+
+        bytes32[] memory cts = Leaderboards.encryptedRanks(predictionRanks[_eventId], predictors);
+        uint256 requestId = FHE.requestDecryption(cts, this.leaderboardDecryptionCallback.selector);
+        _leaderboardRequestToEvent[requestId] = _eventId + 1;
+        board.revealRequested = true;
+
+        emit LeaderboardRevealRequested(_eventId, requestId);
+    }
+
+    /// @notice Callback called by the FHE decryption oracle with every predictor's rank
+    /// @dev `cleartexts` holds one ABI-encoded uint32 per predictor, in eventPredictors order
+    function leaderboardDecryptionCallback(
         uint256 requestId,
         bytes memory cleartexts,
-        bytes[] memory /*signatures*/
+        bytes memory decryptionProof
     ) public returns (bool) {
-        uint256 storageId = _requestToEvent[requestId];
-        EncryptedStorage storage storage_ = encryptedStorages[storageId];
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
 
-        require(cleartexts.length >= 4, "Invalid cleartexts length");
-        uint32 decryptedValue;
-        assembly {
-            decryptedValue := shr(224, mload(add(cleartexts, 32)))
-        }
+        uint256 eventRef = _leaderboardRequestToEvent[requestId];
+        require(eventRef != 0, "Unknown leaderboard request");
+        delete _leaderboardRequestToEvent[requestId];
 
-        emit ValueRetrieved(storageId, storage_.owner, decryptedValue);
-        return true;
-    }
+        uint256 eventId = eventRef - 1;
+        EventLeaderboard storage board = eventLeaderboards[eventId];
+        require(board.revealRequested && !board.isRevealed, "Leaderboard not awaiting reveal");
 
-    /// @notice Get encrypted storage count for user
-    function getUserStorageCount(address _user) external view returns (uint256) {
-        return userEncryptedStorages[_user].length;
-    }
+        board.winner = Leaderboards.recordRanks(revealedRanks[eventId], eventPredictors[eventId], cleartexts);
+        board.isRevealed = true;
 
-    /// @notice Create a new CryptoBall collection
-    /// @param _name The name of the collection
-    /// @param _isPublic Whether the collection is publicly visible
-    function createBallCollection(string memory _name, bool _isPublic) external returns (uint256) {
-        require(bytes(_name).length > 0, "Collection name cannot be empty");
-        require(bytes(_name).length <= 50, "Collection name too long");
-
-        uint256 collectionId = ballCollections.length;
-
-        BallCollection memory newCollection = BallCollection({
-            name: _name,
-            owner: msg.sender,
-            ballIds: new uint256[](0),
-            createdAt: block.timestamp,
-            isPublic: _isPublic
-        });
-
-        ballCollections.push(newCollection);
-        userCollections[msg.sender].push(collectionId);
-
-        emit CollectionCreated(collectionId, msg.sender, _name);
-        return collectionId;
-    }
-
-    /// @notice Add a ball to a collection
-    /// @param _collectionId The collection ID
-    /// @param _ballId The ball ID to add
-    function addBallToCollection(uint256 _collectionId, uint256 _ballId) external {
-        require(_collectionId < ballCollections.length, "Collection does not exist");
-        require(_ballId < cryptoBalls.length, "Ball does not exist");
-
-        BallCollection storage collection = ballCollections[_collectionId];
-        CryptoBall storage ball = cryptoBalls[_ballId];
-
-        require(collection.owner == msg.sender, "Not collection owner");
-        require(ball.owner == msg.sender, "Not ball owner");
-        require(ball.isActive, "Ball is not active");
-
-        // Check if ball is already in collection
-        for (uint256 i = 0; i < collection.ballIds.length; i++) {
-            require(collection.ballIds[i] != _ballId, "Ball already in collection");
-        }
-
-        collection.ballIds.push(_ballId);
-        emit BallAddedToCollection(_collectionId, _ballId, msg.sender);
+        emit LeaderboardRevealed(eventId, board.winner);
+        return true;
     }
 
-    /// @notice Remove a ball from a collection
-    /// @param _collectionId The collection ID
-    /// @param _ballId The ball ID to remove
-    function removeBallFromCollection(uint256 _collectionId, uint256 _ballId) external {
-        require(_collectionId < ballCollections.length, "Collection does not exist");
-
-        BallCollection storage collection = ballCollections[_collectionId];
-        require(collection.owner == msg.sender, "Not collection owner");
-
-        // Find and remove the ball
-        for (uint256 i = 0; i < collection.ballIds.length; i++) {
-            if (collection.ballIds[i] == _ballId) {
-                collection.ballIds[i] = collection.ballIds[collection.ballIds.length - 1];
-                collection.ballIds.pop();
-                emit BallRemovedFromCollection(_collectionId, _ballId, msg.sender);
-                return;
-            }
+    /// @notice Get the event leaderboard
+    /// @param _eventId The ID of the prediction event
+    /// @return predictors Predictors, sorted by rank once revealed (eventPredictors order before). Errors are not
+    /// revealed; each predictor can decrypt their own with getUserEncryptedError
+    /// @return isRevealed Whether the ranks have been decrypted
+    function getEventLeaderboard(
+        uint256 _eventId
+    ) external view eventExists(_eventId) returns (address[] memory predictors, bool isRevealed) {
+        isRevealed = eventLeaderboards[_eventId].isRevealed;
+        if (!isRevealed) {
+            return (eventPredictors[_eventId], isRevealed);
         }
-
-        revert("Ball not found in collection");
+        return (Leaderboards.sorted(revealedRanks[_eventId], eventPredictors[_eventId]), isRevealed);
     }
 
-    /// @notice Get collection details
-    /// @param _collectionId The collection ID
-    function getBallCollection(uint256 _collectionId) external view returns (
-        string memory name,
-        address owner,
-        uint256[] memory ballIds,
-        uint256 createdAt,
-        bool isPublic
-    ) {
-        require(_collectionId < ballCollections.length, "Collection does not exist");
-
-        BallCollection storage collection = ballCollections[_collectionId];
-
-        // Only owner or public collections can be viewed
-        require(collection.owner == msg.sender || collection.isPublic, "Collection not accessible");
-
-        return (
-            collection.name,
-            collection.owner,
-            collection.ballIds,
-            collection.createdAt,
-            collection.isPublic
-        );
+    /// @notice Get user's encrypted prediction error (user can decrypt their own once scored)
+    function getUserEncryptedError(
+        uint256 _eventId,
+        address _user
+    ) external view eventExists(_eventId) returns (euint32) {
+        require(userPredictions[_eventId][_user].exists, "User has not predicted");
+        return predictionErrors[_eventId][_user];
     }
 
-    /// @notice Get user's collection count
-    function getUserCollectionCount(address _user) external view returns (uint256) {
-        return userCollections[_user].length;
+    /// @notice Get the market kind, parameters and (after finalize) results of an event
+    /// @param _eventId The ID of the prediction event
+    /// @return kind The market kind
+    /// @return params THRESHOLD: [threshold]; RANGE: ascending bucket bounds; PRICE: histogram bucket bounds
+    /// (may be empty); BOUNDS: empty
+    /// @return results THRESHOLD: [below, above] counts; RANGE/PRICE: count per bucket; BOUNDS: [average lower,
+    /// average upper]; empty until finalized
+    /// @return actualOutcome Once the actual price is set: the THRESHOLD outcome (1 = above), or the RANGE/PRICE
+    /// bucket the actual price fell in
+    function getEventMarket(
+        uint256 _eventId
+    )
+        external
+        view
+        eventExists(_eventId)
+        returns (EventMarkets.EventKind kind, uint32[] memory params, uint32[] memory results, uint32 actualOutcome)
+    {
+        EventMarkets.EventMarket storage market = eventMarkets[_eventId];
+        uint256 actualPrice = predictionEvents[_eventId].actualPrice;
+        if (actualPrice > 0) {
+            actualOutcome = market.reportedOutcome(uint32(actualPrice));
+        }
+        return (market.kind, market.params, market.results, actualOutcome);
     }
 
-    /// @notice Authorize or revoke price feeder permissions
-    /// @param _feeder The address to authorize/revoke
-    /// @param _authorized Whether to authorize or revoke
-    function setPriceFeederAuthorization(address _feeder, bool _authorized) external {
-        require(msg.sender == priceFeedAdmin, "Only price feed admin can authorize feeders");
-        authorizedPriceFeeders[_feeder] = _authorized;
-        emit PriceFeedAuthorized(_feeder, _authorized);
+    /// @notice Get user's encrypted bounds in a BOUNDS market (user can decrypt their own)
+    function getUserEncryptedBounds(
+        uint256 _eventId,
+        address _user
+    ) external view eventExists(_eventId) returns (euint32 lower, euint32 upper) {
+        require(userPredictions[_eventId][_user].exists, "User has not predicted");
+        require(eventMarkets[_eventId].kind == EventMarkets.EventKind.BOUNDS, "Not a bounds market");
+        return (userPredictions[_eventId][_user].encryptedPrice, predictionUpperBounds[_eventId][_user]);
     }
 
-    /// @notice Update price for a token type (authorized feeders only)
-    /// @param _tokenType The token type (BTC or ETH)
-    /// @param _price The current price in USD * 100 (e.g., 50000 = $50,000)
-    function updatePrice(TokenType _tokenType, uint256 _price) external {
-        require(authorizedPriceFeeders[msg.sender], "Not authorized to update prices");
-        require(_price > 0, "Price must be greater than 0");
-        require(_price < 100000000, "Price seems unreasonably high"); // Max $1M
-
-        PriceData memory newPriceData = PriceData({
-            price: _price,
-            timestamp: block.timestamp,
-            updater: msg.sender,
-            isValid: true
-        });
-
-        latestPrices[_tokenType] = newPriceData;
-        priceHistory[_tokenType].push(newPriceData);
-
-        // Keep only last 100 price updates for gas efficiency
-        if (priceHistory[_tokenType].length > 100) {
-            // Remove oldest prices (keep most recent 100)
-            for (uint256 i = 0; i < priceHistory[_tokenType].length - 100; i++) {
-                delete priceHistory[_tokenType][i];
-            }
-            // This is simplified - in production you'd want a more efficient circular buffer
-        }
+    /// @notice Cancel an event before its leaderboard is revealed (admin only)
+    /// @param _eventId The ID of the prediction event
+    /// @dev Predictors of a staked event can then reclaim their stake with claimRefund
+    function cancelPredictionEvent(uint256 _eventId) external eventExists(_eventId) onlyAdmin(_eventId) {
+        require(!eventPools[_eventId].isCancelled, "Event already cancelled");
+        require(!eventLeaderboards[_eventId].isRevealed, "Leaderboard already revealed");
 
-        emit PriceUpdated(_tokenType, _price, block.timestamp, msg.sender);
+        _cancelPredictionEvent(_eventId);
     }
 
-    /// @notice Get current price for a token type
-    /// @param _tokenType The token type
-    function getCurrentPrice(TokenType _tokenType) external view returns (
-        uint256 price,
-        uint256 timestamp,
-        address updater,
-        bool isValid
-    ) {
-        PriceData memory priceData = latestPrices[_tokenType];
-        return (
-            priceData.price,
-            priceData.timestamp,
-            priceData.updater,
-            priceData.isValid
-        );
+    /// @notice Whether an event missed its resolution deadline: it was not both finalized and revealed within
+    /// RESOLUTION_PERIOD of the target date, so predictors can reclaim their stake without the admin
+    /// @param _eventId The ID of the prediction event
+    /// @dev Winnings need both, so a revealed leaderboard alone does not resolve the event
+    function isResolutionOverdue(uint256 _eventId) public view eventExists(_eventId) returns (bool) {
+        return
+            !eventPools[_eventId].isCancelled &&
+            (!predictionEvents[_eventId].isFinalized || !eventLeaderboards[_eventId].isRevealed) &&
+            block.timestamp >= predictionEvents[_eventId].targetDate + RESOLUTION_PERIOD;
     }
 
-    /// @notice Get price history for a token type
-    /// @param _tokenType The token type
-    /// @param _limit Maximum number of historical prices to return
-    function getPriceHistory(TokenType _tokenType, uint256 _limit) external view returns (
-        uint256[] memory prices,
-        uint256[] memory timestamps,
-        address[] memory updaters
-    ) {
-        PriceData[] memory history = priceHistory[_tokenType];
-        uint256 historyLength = history.length;
-        uint256 returnCount = _limit > historyLength ? historyLength : _limit;
-
-        uint256[] memory returnPrices = new uint256[](returnCount);
-        uint256[] memory returnTimestamps = new uint256[](returnCount);
-        address[] memory returnUpdaters = new address[](returnCount);
-
-        // Return most recent prices first
-        for (uint256 i = 0; i < returnCount; i++) {
-            uint256 historyIndex = historyLength - 1 - i;
-            PriceData memory priceData = history[historyIndex];
-            returnPrices[i] = priceData.price;
-            returnTimestamps[i] = priceData.timestamp;
-            returnUpdaters[i] = priceData.updater;
-        }
+    function _cancelPredictionEvent(uint256 _eventId) private {
+        eventPools[_eventId].isCancelled = true;
+        predictionEvents[_eventId].isActive = false;
 
-        return (returnPrices, returnTimestamps, returnUpdaters);
+        emit PredictionEventCancelled(_eventId);
     }
 
-    /// @notice Get price statistics for a token type
-    /// @param _tokenType The token type
-    function getPriceStatistics(TokenType _tokenType) external view returns (
-        uint256 currentPrice,
-        uint256 averagePrice,
-        uint256 highestPrice,
-        uint256 lowestPrice,
-        uint256 priceChange24h,
-        uint256 volatility
-    ) {
-        PriceData[] memory history = priceHistory[_tokenType];
-        uint256 historyLength = history.length;
-
-        if (historyLength == 0) {
-            return (0, 0, 0, 0, 0, 0);
-        }
-
-        uint256 current = latestPrices[_tokenType].price;
-        uint256 total = 0;
-        uint256 highest = 0;
-        uint256 lowest = type(uint256).max;
-        uint256 price24hAgo = 0;
-
-        // Calculate statistics from available history
-        for (uint256 i = 0; i < historyLength; i++) {
-            uint256 price = history[i].price;
-            total += price;
-
-            if (price > highest) highest = price;
-            if (price < lowest) lowest = price;
-
-            // Find price from ~24 hours ago (assuming updates every few hours)
-            if (i >= 8 && price24hAgo == 0) { // Rough approximation
-                price24hAgo = price;
-            }
-        }
+    /// @notice Claim your share of the prize pool once the leaderboard is revealed
+    /// @param _eventId The ID of the prediction event
+    function claimWinnings(uint256 _eventId) external nonReentrant eventExists(_eventId) {
+        require(predictionEvents[_eventId].isFinalized, "Event not finalized");
+        require(eventLeaderboards[_eventId].isRevealed, "Leaderboard not revealed");
+        require(!eventPools[_eventId].isCancelled, "Event cancelled");
+        require(!hasClaimed[_eventId][msg.sender], "Already claimed");
 
-        uint256 average = total / historyLength;
-        uint256 change24h = price24hAgo > 0 ? current > price24hAgo ?
-            current - price24hAgo : price24hAgo - current : 0;
+        uint256 amount = _winningsOf(_eventId, msg.sender);
+        require(amount > 0, "No winnings to claim");
 
-        // Simplified volatility calculation (standard deviation)
-        uint256 variance = 0;
-        for (uint256 i = 0; i < historyLength; i++) {
-            uint256 diff = history[i].price > average ?
-                history[i].price - average : average - history[i].price;
-            variance += diff * diff;
-        }
-        uint256 volatilityValue = historyLength > 1 ? sqrt(variance / (historyLength - 1)) : 0;
+        hasClaimed[_eventId][msg.sender] = true;
+        eventPools[_eventId].pay(msg.sender, amount);
 
-        return (
-            current,
-            average,
-            highest,
-            lowest,
-            change24h,
-            volatilityValue
-        );
+        emit WinningsClaimed(_eventId, msg.sender, amount);
     }
 
-    /// @notice Simple square root function for volatility calculation
-    function sqrt(uint256 x) internal pure returns (uint256) {
-        if (x == 0) return 0;
-        uint256 z = (x + 1) / 2;
-        uint256 y = x;
-        while (z < y) {
-            y = z;
-            z = (x / z + z) / 2;
+    /// @notice Reclaim your entry stake from a cancelled event
+    /// @param _eventId The ID of the prediction event
+    /// @dev Anyone who predicted can also claim once the event is overdue (see isResolutionOverdue); the first
+    /// such claim cancels the event, so the pool is no longer paid out to the leaderboard
+    function claimRefund(uint256 _eventId) external nonReentrant eventExists(_eventId) {
+        EventPools.EventPool storage pool = eventPools[_eventId];
+        if (!pool.isCancelled) {
+            require(isResolutionOverdue(_eventId), "Event not cancelled");
+            _cancelPredictionEvent(_eventId);
         }
-        return y;
-    }
+        require(pool.stakeAmount > 0, "Event has no stake");
+        require(userPredictions[_eventId][msg.sender].exists, "User has not predicted");
+        require(!hasClaimed[_eventId][msg.sender], "Already claimed");
 
-    /// @notice Set user preferences
-    /// @param _emailNotifications Enable email notifications
-    /// @param _priceAlerts Enable price alerts
-    /// @param _minAlertThreshold Minimum price change threshold (basis points)
-    /// @param _preferredToken Preferred token type
-    /// @param _autoGenerateBalls Auto-generate balls after predictions
-    /// @param _publicProfile Make profile public
-    /// @param _displayName Display name (max 32 characters)
-    /// @param _theme UI theme preference
-    function setUserPreferences(
-        bool _emailNotifications,
-        bool _priceAlerts,
-        uint256 _minAlertThreshold,
-        TokenType _preferredToken,
-        bool _autoGenerateBalls,
-        bool _publicProfile,
-        string memory _displayName,
-        uint256 _theme
-    ) external {
-        require(_minAlertThreshold <= 10000, "Threshold cannot exceed 100%");
-        require(_theme <= 2, "Invalid theme");
-        require(bytes(_displayName).length <= 32, "Display name too long");
-
-        userPreferences[msg.sender] = UserPreferences({
-            emailNotifications: _emailNotifications,
-            priceAlerts: _priceAlerts,
-            minAlertThreshold: _minAlertThreshold,
-            preferredToken: _preferredToken,
-            autoGenerateBalls: _autoGenerateBalls,
-            publicProfile: _publicProfile,
-            displayName: _displayName,
-            theme: _theme
-        });
-
-        hasSetPreferences[msg.sender] = true;
-        emit UserPreferencesUpdated(msg.sender);
-    }
+        hasClaimed[_eventId][msg.sender] = true;
+        pool.pay(msg.sender, pool.stakeAmount);
 
-    /// @notice Get user preferences
-    function getUserPreferences(address _user) external view returns (
-        bool emailNotifications,
-        bool priceAlerts,
-        uint256 minAlertThreshold,
-        TokenType preferredToken,
-        bool autoGenerateBalls,
-        bool publicProfile,
-        string memory displayName,
-        uint256 theme
-    ) {
-        // Only user themselves or if profile is public
-        require(_user == msg.sender || userPreferences[_user].publicProfile, "Profile not public");
-
-        UserPreferences memory prefs = userPreferences[_user];
-        return (
-            prefs.emailNotifications,
-            prefs.priceAlerts,
-            prefs.minAlertThreshold,
-            prefs.preferredToken,
-            prefs.autoGenerateBalls,
-            prefs.publicProfile,
-            prefs.displayName,
-            prefs.theme
-        );
+        emit StakeRefunded(_eventId, msg.sender, pool.stakeAmount);
     }
 
-    /// @notice Check if price alert should be triggered for user
-    /// @param _user The user to check
-    /// @param _tokenType The token type
-    /// @param _currentPrice The current price
-    /// @param _previousPrice The previous price
-    function shouldTriggerPriceAlert(
-        address _user,
-        TokenType _tokenType,
-        uint256 _currentPrice,
-        uint256 _previousPrice
-    ) external view returns (bool) {
-        if (!hasSetPreferences[_user] || !userPreferences[_user].priceAlerts) {
-            return false;
+    /// @notice Get the prize pool of an event
+    /// @param _eventId The ID of the prediction event
+    function getEventPool(
+        uint256 _eventId
+    )
+        external
+        view
+        eventExists(_eventId)
+        returns (
+            address stakeToken,
+            uint256 stakeAmount,
+            uint256 totalStaked,
+            uint16[] memory payoutShares,
+            bool isCancelled
+        )
+    {
+        EventPools.EventPool storage pool = eventPools[_eventId];
+        return (pool.stakeToken, pool.stakeAmount, pool.totalStaked, pool.payoutShares, pool.isCancelled);
+    }
+
+    /// @notice Get what a user can currently claim from an event (winnings, or the refund if cancelled or overdue)
+    function getClaimableAmount(uint256 _eventId, address _user) external view eventExists(_eventId) returns (uint256) {
+        EventPools.EventPool storage pool = eventPools[_eventId];
+        if (hasClaimed[_eventId][_user] || !userPredictions[_eventId][_user].exists) {
+            return 0;
         }
-
-        // Only trigger for preferred token
-        if (userPreferences[_user].preferredToken != _tokenType) {
-            return false;
+        if (pool.isCancelled || isResolutionOverdue(_eventId)) {
+            return pool.stakeAmount;
         }
-
-        // Calculate price change in basis points
-        uint256 change;
-        if (_currentPrice > _previousPrice) {
-            change = ((_currentPrice - _previousPrice) * 10000) / _previousPrice;
-        } else {
-            change = ((_previousPrice - _currentPrice) * 10000) / _previousPrice;
+        if (!predictionEvents[_eventId].isFinalized || !eventLeaderboards[_eventId].isRevealed) {
+            return 0;
         }
-
-        return change >= userPreferences[_user].minAlertThreshold;
-    }
-
-    /// @notice Trigger price alert for user (can be called by authorized price feeders)
-    /// @param _user The user to alert
-    /// @param _tokenType The token type
-    /// @param _price The current price
-    /// @param _change The price change amount
-    function triggerPriceAlert(
-        address _user,
-        TokenType _tokenType,
-        uint256 _price,
-        uint256 _change
-    ) external {
-        require(authorizedPriceFeeders[msg.sender], "Not authorized to trigger alerts");
-        require(hasSetPreferences[_user], "User has no preferences set");
-        require(userPreferences[_user].priceAlerts, "User has alerts disabled");
-
-        emit PriceAlertTriggered(_user, _tokenType, _price, _change);
+        return _winningsOf(_eventId, _user);
     }
 
-    /// @notice Get user's public profile information
-    function getUserPublicProfile(address _user) external view returns (
-        string memory displayName,
-        bool hasPublicProfile,
-        uint256 totalPredictions,
-        uint256 totalBalls,
-        uint256 totalCollections
-    ) {
-        UserPreferences memory prefs = userPreferences[_user];
-
-        if (!prefs.publicProfile) {
-            return ("", false, 0, 0, 0);
+    /// @dev Pool share of a predictor from their leaderboard rank (see EventPools.winningsOf)
+    function _winningsOf(uint256 _eventId, address _user) private view returns (uint256) {
+        EventPools.EventPool storage pool = eventPools[_eventId];
+        if (pool.totalStaked == 0 || !userPredictions[_eventId][_user].exists) {
+            return 0;
         }
+        return pool.winningsOf(revealedRanks[_eventId][_user], eventPredictors[_eventId].length);
+    }
 
-        (uint256 predictions,,) = getUserPredictionHistory(_user);
-
+    /// @notice Get prediction event details
+    /// @param _eventId The ID of the prediction event
+    function getPredictionEvent(
+        uint256 _eventId
+    )
+        external
+        view
+        eventExists(_eventId)
+        returns (
+            string memory title,
+            uint256 assetId,
+            uint256 targetDate,
+            uint256 endTime,
+            bool isActive,
+            bool isFinalized,
+            address admin,
+            uint256 totalPredictions,
+            uint256 actualPrice,
+            uint32 decryptedAveragePrice
+        )
+    {
+        PredictionEvent storage event_ = predictionEvents[_eventId];
         return (
-            prefs.displayName,
-            true,
-            predictions,
-            userBalls[_user].length,
-            userCollections[_user].length
+            event_.title,
+            event_.assetId,
+            event_.targetDate,
+            event_.endTime,
+            event_.isActive,
+            event_.isFinalized,
+            event_.admin,
+            event_.totalPredictions,
+            event_.actualPrice,
+            event_.decryptedAveragePrice
         );
     }
 
-    /// @notice Reset user preferences to defaults
-    function resetUserPreferences() external {
-        delete userPreferences[msg.sender];
-        hasSetPreferences[msg.sender] = false;
-        emit UserPreferencesUpdated(msg.sender);
+    /// @notice Get total number of prediction events
+    function getEventCount() external view returns (uint256) {
+        return predictionEvents.length;
     }
 
-    /// @notice Get filtered and sorted events
-    /// @param _statusFilter 0: all, 1: active, 2: ended, 3: finalized
-    /// @param _tokenFilter 0: all, 1: BTC, 2: ETH
-    /// @param _sortBy 0: creation time, 1: end time, 2: total predictions, 3: target date
-    /// @param _sortOrder 0: ascending, 1: descending
-    /// @param _limit Maximum events to return
-    /// @param _offset Starting offset for pagination
-    function getFilteredEvents(
-        uint256 _statusFilter,
-        uint256 _tokenFilter,
-        uint256 _sortBy,
-        uint256 _sortOrder,
-        uint256 _limit,
-        uint256 _offset
-    ) external view returns (
-        uint256[] memory eventIds,
-        string[] memory titles,
-        TokenType[] memory tokenTypes,
-        uint256[] memory endTimes,
-        bool[] memory isActive,
-        bool[] memory isFinalized,
-        uint256[] memory totalPredictions
-    ) {
-        uint256 totalEvents = predictionEvents.length;
-        uint256[] memory tempEventIds = new uint256[](totalEvents);
-        uint256 filteredCount = 0;
-
-        // First pass: filter events
-        for (uint256 i = 0; i < totalEvents; i++) {
-            PredictionEvent storage event_ = predictionEvents[i];
-            bool matchesFilter = true;
-
-            // Status filter
-            if (_statusFilter == 1 && !event_.isActive) matchesFilter = false;
-            if (_statusFilter == 2 && (event_.isActive || !event_.isFinalized)) matchesFilter = false;
-            if (_statusFilter == 3 && !event_.isFinalized) matchesFilter = false;
-
-            // Token filter
-            if (_tokenFilter == 1 && event_.tokenType != TokenType.BTC) matchesFilter = false;
-            if (_tokenFilter == 2 && event_.tokenType != TokenType.ETH) matchesFilter = false;
-
-            if (matchesFilter) {
-                tempEventIds[filteredCount] = i;
-                filteredCount++;
-            }
-        }
-
-        // Sort filtered events
-        for (uint256 i = 0; i < filteredCount - 1; i++) {
-            for (uint256 j = 0; j < filteredCount - i - 1; j++) {
-                bool shouldSwap = false;
-                uint256 leftId = tempEventIds[j];
-                uint256 rightId = tempEventIds[j + 1];
-                PredictionEvent storage leftEvent = predictionEvents[leftId];
-                PredictionEvent storage rightEvent = predictionEvents[rightId];
-
-                if (_sortBy == 0) { // creation time (using array index as proxy)
-                    shouldSwap = _sortOrder == 0 ? leftId > rightId : leftId < rightId;
-                } else if (_sortBy == 1) { // end time
-                    shouldSwap = _sortOrder == 0 ? leftEvent.endTime > rightEvent.endTime : leftEvent.endTime < rightEvent.endTime;
-                } else if (_sortBy == 2) { // total predictions
-                    shouldSwap = _sortOrder == 0 ? leftEvent.totalPredictions > rightEvent.totalPredictions : leftEvent.totalPredictions < rightEvent.totalPredictions;
-                } else if (_sortBy == 3) { // target date
-                    shouldSwap = _sortOrder == 0 ? leftEvent.targetDate > rightEvent.targetDate : leftEvent.targetDate < rightEvent.targetDate;
-                }
-
-                if (shouldSwap) {
-                    uint256 temp = tempEventIds[j];
-                    tempEventIds[j] = tempEventIds[j + 1];
-                    tempEventIds[j + 1] = temp;
-                }
-            }
-        }
-
-        // Pagination
-        uint256 startIndex = _offset;
-        uint256 endIndex = startIndex + _limit;
-        if (endIndex > filteredCount) endIndex = filteredCount;
-        if (startIndex >= filteredCount) {
-            // Return empty arrays
-            return (new uint256[](0), new string[](0), new TokenType[](0), new uint256[](0), new bool[](0), new bool[](0), new uint256[](0));
-        }
-
-        uint256 resultCount = endIndex - startIndex;
-        uint256[] memory resultEventIds = new uint256[](resultCount);
-        string[] memory resultTitles = new string[](resultCount);
-        TokenType[] memory resultTokenTypes = new TokenType[](resultCount);
-        uint256[] memory resultEndTimes = new uint256[](resultCount);
-        bool[] memory resultIsActive = new bool[](resultCount);
-        bool[] memory resultIsFinalized = new bool[](resultCount);
-        uint256[] memory resultTotalPredictions = new uint256[](resultCount);
-
-        for (uint256 i = 0; i < resultCount; i++) {
-            uint256 eventId = tempEventIds[startIndex + i];
-            PredictionEvent storage event_ = predictionEvents[eventId];
-
-            resultEventIds[i] = eventId;
-            resultTitles[i] = event_.title;
-            resultTokenTypes[i] = event_.tokenType;
-            resultEndTimes[i] = event_.endTime;
-            resultIsActive[i] = event_.isActive;
-            resultIsFinalized[i] = event_.isFinalized;
-            resultTotalPredictions[i] = event_.totalPredictions;
-        }
-
-        return (
-            resultEventIds,
-            resultTitles,
-            resultTokenTypes,
-            resultEndTimes,
-            resultIsActive,
-            resultIsFinalized,
-            resultTotalPredictions
-        );
+    /// @notice Check if a user has submitted a prediction
+    function hasUserPredicted(uint256 _eventId, address _user) external view returns (bool) {
+        return userPredictions[_eventId][_user].exists;
     }
 
-    /// @notice Get filtered CryptoBalls for user
-    /// @param _user The user address
-    /// @param _ballTypeFilter 0: all, 1: Crystal, 2: Prediction, 3: Vault
-    /// @param _activeFilter 0: all, 1: active only, 2: inactive only
-    /// @param _sortBy 0: generation time, 1: power level, 2: ball type
-    /// @param _sortOrder 0: ascending, 1: descending
-    function getFilteredUserBalls(
-        address _user,
-        uint256 _ballTypeFilter,
-        uint256 _activeFilter,
-        uint256 _sortBy,
-        uint256 _sortOrder
-    ) external view returns (
-        uint256[] memory ballIds,
-        BallType[] memory ballTypes,
-        uint256[] memory powerLevels,
-        bool[] memory isActive
-    ) {
-        uint256[] memory userBallIds = userBalls[_user];
-        uint256 totalBalls = userBallIds.length;
-
-        // Count matching balls
-        uint256 matchCount = 0;
-        for (uint256 i = 0; i < totalBalls; i++) {
-            uint256 ballId = userBallIds[i];
-            (BallType ballType, , uint256 powerLevel, , bool active) = getCryptoBall(ballId);
-
-            bool matchesType = _ballTypeFilter == 0 ||
-                (_ballTypeFilter == 1 && ballType == BallType.CRYSTAL) ||
-                (_ballTypeFilter == 2 && ballType == BallType.PREDICTION) ||
-                (_ballTypeFilter == 3 && ballType == BallType.VAULT);
-
-            bool matchesActive = _activeFilter == 0 ||
-                (_activeFilter == 1 && active) ||
-                (_activeFilter == 2 && !active);
-
-            if (matchesType && matchesActive) {
-                matchCount++;
-            }
-        }
+    /// @notice Get user's encrypted prediction (user can decrypt their own)
+    function getUserEncryptedPrediction(
+        uint256 _eventId,
+        address _user
+    ) external view eventExists(_eventId) returns (euint32) {
+        require(userPredictions[_eventId][_user].exists, "User has not predicted");
+        return userPredictions[_eventId][_user].encryptedPrice;
+    }
 
-        // Create result arrays
-        uint256[] memory resultBallIds = new uint256[](matchCount);
-        BallType[] memory resultBallTypes = new BallType[](matchCount);
-        uint256[] memory resultPowerLevels = new uint256[](matchCount);
-        bool[] memory resultIsActive = new bool[](matchCount);
-
-        uint256 resultIndex = 0;
-        for (uint256 i = 0; i < totalBalls; i++) {
-            uint256 ballId = userBallIds[i];
-            (BallType ballType, , uint256 powerLevel, , bool active) = getCryptoBall(ballId);
-
-            bool matchesType = _ballTypeFilter == 0 ||
-                (_ballTypeFilter == 1 && ballType == BallType.CRYSTAL) ||
-                (_ballTypeFilter == 2 && ballType == BallType.PREDICTION) ||
-                (_ballTypeFilter == 3 && ballType == BallType.VAULT);
-
-            bool matchesActive = _activeFilter == 0 ||
-                (_activeFilter == 1 && active) ||
-                (_activeFilter == 2 && !active);
-
-            if (matchesType && matchesActive) {
-                resultBallIds[resultIndex] = ballId;
-                resultBallTypes[resultIndex] = ballType;
-                resultPowerLevels[resultIndex] = powerLevel;
-                resultIsActive[resultIndex] = active;
-                resultIndex++;
-            }
-        }
+    /// @notice Claim the CryptoBall of a finalized event you predicted on (once per event)
+    /// @param _eventId The prediction event ID
+    /// @dev The ball's rarity comes from the caller's prediction error, compared with the tier thresholds
+    /// homomorphically. Only the resulting tier is decrypted; the ball is minted in ballClaimCallback
+    function generateCryptoBall(uint256 _eventId) external eventExists(_eventId) {
+        // Verify user has submitted a prediction for this event
+        require(userPredictions[_eventId][msg.sender].exists, "User must have submitted prediction");
+        require(!hasClaimedBall[_eventId][msg.sender], "Ball already claimed");
 
-        // Simple bubble sort (small arrays expected)
-        for (uint256 i = 0; i < matchCount - 1; i++) {
-            for (uint256 j = 0; j < matchCount - i - 1; j++) {
-                bool shouldSwap = false;
-
-                if (_sortBy == 0) { // generation time (using ball ID as proxy)
-                    shouldSwap = _sortOrder == 0 ? resultBallIds[j] > resultBallIds[j + 1] : resultBallIds[j] < resultBallIds[j + 1];
-                } else if (_sortBy == 1) { // power level
-                    shouldSwap = _sortOrder == 0 ? resultPowerLevels[j] > resultPowerLevels[j + 1] : resultPowerLevels[j] < resultPowerLevels[j + 1];
-                } else if (_sortBy == 2) { // ball type
-                    shouldSwap = _sortOrder == 0 ? uint256(resultBallTypes[j]) > uint256(resultBallTypes[j + 1]) : uint256(resultBallTypes[j]) < uint256(resultBallTypes[j + 1]);
-                }
-
-                if (shouldSwap) {
-                    // Swap all arrays
-                    uint256 tempUint = resultBallIds[j];
-                    resultBallIds[j] = resultBallIds[j + 1];
-                    resultBallIds[j + 1] = tempUint;
-
-                    BallType tempType = resultBallTypes[j];
-                    resultBallTypes[j] = resultBallTypes[j + 1];
-                    resultBallTypes[j + 1] = tempType;
-
-                    tempUint = resultPowerLevels[j];
-                    resultPowerLevels[j] = resultPowerLevels[j + 1];
-                    resultPowerLevels[j + 1] = tempUint;
-
-                    bool tempBool = resultIsActive[j];
-                    resultIsActive[j] = resultIsActive[j + 1];
-                    resultIsActive[j + 1] = tempBool;
-                }
-            }
-        }
+        PredictionEvent storage event_ = predictionEvents[_eventId];
+        require(event_.isFinalized, "Event must be finalized to generate ball");
+        require(event_.actualPrice > 0, "Actual price not set");
 
-        return (resultBallIds, resultBallTypes, resultPowerLevels, resultIsActive);
-    }
+        hasClaimedBall[_eventId][msg.sender] = true;
 
-    /// @notice Transfer a CryptoBall to another address
-    /// @param _ballId The ball ID to transfer
-    /// @param _to The recipient address
-    function transferCryptoBall(uint256 _ballId, address _to) external {
-        require(_to != address(0), "Cannot transfer to zero address");
-        require(_ballId < cryptoBalls.length, "Ball does not exist");
-
-        CryptoBall storage ball = cryptoBalls[_ballId];
-
-        // Verify ownership before transfer
-        require(ball.owner == msg.sender, "Not the owner");
-
-        require(ball.isActive, "Ball is not active");
-
-        // Update ownership
-        address previousOwner = ball.owner;
-        ball.owner = _to;
-
-        // Update user ball mappings
-        // Remove from previous owner
-        uint256[] storage previousOwnerBalls = userBalls[previousOwner];
-        for (uint256 i = 0; i < previousOwnerBalls.length; i++) {
-            if (previousOwnerBalls[i] == _ballId) {
-                previousOwnerBalls[i] = previousOwnerBalls[previousOwnerBalls.length - 1];
-                previousOwnerBalls.pop();
-                break;
-            }
-        }
+        // The tier is the BallType of the ball to mint
+        euint8 tier = eventMarkets[_eventId].rarityTier(
+            userPredictions[_eventId][msg.sender].encryptedPrice,
+            predictionUpperBounds[_eventId][msg.sender],
+            uint32(event_.actualPrice),
+            CRYSTAL_ERROR_BPS,
+            PREDICTION_ERROR_BPS
+        );
+        FHE.allowThis(tier);
 
-        // Add to new owner
-        userBalls[_to].push(_ballId);
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(tier);
+        uint256 requestId = FHE.requestDecryption(cts, this.ballClaimCallback.selector);
+        _requestToBallClaimer[requestId] = msg.sender;
+        _ballClaimRequestToEvent[requestId] = _eventId + 1;
 
-        // BUG: Event not properly indexed - missing indexed keyword for ballId
-        emit BallTransferred(previousOwner, _ballId, _to);
+        emit CryptoBallClaimRequested(_eventId, msg.sender, requestId);
     }
 
-    /// @notice Transfer encrypted storage to another address
-    /// @param _storageId The storage ID to transfer
-    /// @param _to The recipient address
-    function transferEncryptedStorage(uint256 _storageId, address _to) external {
-        require(_to != address(0), "Cannot transfer to zero address");
-        require(_storageId < encryptedStorages.length, "Storage does not exist");
-
-        EncryptedStorage storage storage_ = encryptedStorages[_storageId];
-        require(storage_.owner == msg.sender, "Not the owner");
-
-        address previousOwner = storage_.owner;
-        storage_.owner = _to;
-
-        // Update user storage mappings
-        uint256[] storage previousOwnerStorages = userEncryptedStorages[previousOwner];
-        for (uint256 i = 0; i < previousOwnerStorages.length; i++) {
-            if (previousOwnerStorages[i] == _storageId) {
-                previousOwnerStorages[i] = previousOwnerStorages[previousOwnerStorages.length - 1];
-                previousOwnerStorages.pop();
-                break;
-            }
-        }
+    /// @notice Callback called by the FHE decryption oracle with a claimer's rarity tier
+    /// @dev `cleartexts` is the ABI-encoded BallType
+    function ballClaimCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) public returns (bool) {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
 
-        userEncryptedStorages[_to].push(_storageId);
+        address claimer = _requestToBallClaimer[requestId];
+        require(claimer != address(0), "Unknown ball claim");
+        require(cleartexts.length == 32, "Invalid cleartexts length");
+        uint256 eventId = _ballClaimRequestToEvent[requestId] - 1;
+        delete _requestToBallClaimer[requestId];
+        delete _ballClaimRequestToEvent[requestId];
 
-        emit StorageTransferred(_storageId, previousOwner, _to);
+        CryptoBalls.BallType ballType = CryptoBalls.BallType(Cleartexts.decodeWord(cleartexts, 0));
+        balls.mintClaimedBall(claimer, ballType, eventId, predictionEvents[eventId].admin);
+        return true;
     }
 }
-
@@ -0,0 +1,342 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {CryptoPriceGuess} from "./CryptoPriceGuess.sol";
+
+/// @title CryptoPriceGuess Stats - statistics, history and search views over CryptoPriceGuess
+/// @notice Read-only: everything is computed from the public state of the game, its balls and its price feed
+/// @dev Each view reads the events through `priceGuess.getPredictionEvent`, so its cost grows with the event count
+contract CryptoPriceGuessStats {
+    CryptoPriceGuess public immutable priceGuess;
+
+    // The fields of a prediction event the views read
+    struct EventSummary {
+        string title;
+        uint256 assetId;
+        uint256 targetDate;
+        uint256 endTime;
+        bool isActive;
+        bool isFinalized;
+        uint256 totalPredictions;
+    }
+
+    constructor(CryptoPriceGuess _priceGuess) {
+        priceGuess = _priceGuess;
+    }
+
+    modifier eventExists(uint256 _eventId) {
+        require(_eventId < priceGuess.getEventCount(), "Event does not exist");
+        _;
+    }
+
+    /// @notice Get prediction statistics for an event
+    /// @param _eventId The event ID
+    function getPredictionStatistics(
+        uint256 _eventId
+    )
+        external
+        view
+        eventExists(_eventId)
+        returns (
+            uint256 totalPredictions,
+            uint256 activePredictions,
+            uint256 finalizedPredictions,
+            uint256 averagePredictionAge,
+            uint256 uniquePredictors
+        )
+    {
+        EventSummary memory event_ = _getEvent(_eventId);
+
+        uint256 activeCount = 0;
+        uint256 finalizedCount = 0;
+        uint256 totalAge = 0;
+        uint256 predictorCount = 0;
+
+        // This is a simplified statistics calculation
+        // In production, you might want to store more detailed statistics
+        if (event_.isFinalized) {
+            finalizedCount = event_.totalPredictions;
+        } else if (event_.isActive) {
+            activeCount = event_.totalPredictions;
+        }
+
+        // Calculate average prediction age (simplified)
+        if (event_.totalPredictions > 0) {
+            totalAge = (block.timestamp - event_.targetDate) * event_.totalPredictions;
+            averagePredictionAge = totalAge / event_.totalPredictions;
+        }
+
+        // For unique predictors, we'd need additional tracking
+        // For now, assume each prediction is from a unique predictor
+        predictorCount = event_.totalPredictions;
+
+        return (event_.totalPredictions, activeCount, finalizedCount, averagePredictionAge, predictorCount);
+    }
+
+    /// @notice Get user's prediction history across all events
+    /// @param _user The user address
+    function getUserPredictionHistory(
+        address _user
+    )
+        public
+        view
+        returns (
+            uint256 totalPredictions,
+            uint256 activePredictions,
+            uint256 finalizedPredictions,
+            uint256[] memory participatedEventIds
+        )
+    {
+        uint256 eventCount = priceGuess.getEventCount();
+        uint256[] memory tempEventIds = new uint256[](eventCount);
+        uint256 participatedCount = 0;
+        uint256 activeCount = 0;
+        uint256 finalizedCount = 0;
+
+        for (uint256 i = 0; i < eventCount; i++) {
+            if (priceGuess.hasUserPredicted(i, _user)) {
+                tempEventIds[participatedCount] = i;
+                participatedCount++;
+
+                EventSummary memory event_ = _getEvent(i);
+                if (event_.isFinalized) {
+                    finalizedCount++;
+                } else if (event_.isActive) {
+                    activeCount++;
+                }
+            }
+        }
+
+        // Create properly sized array
+        uint256[] memory finalEventIds = new uint256[](participatedCount);
+        for (uint256 i = 0; i < participatedCount; i++) {
+            finalEventIds[i] = tempEventIds[i];
+        }
+
+        return (participatedCount, activeCount, finalizedCount, finalEventIds);
+    }
+
+    /// @notice Get global statistics across all events
+    function getGlobalStatistics()
+        external
+        view
+        returns (
+            uint256 totalEvents,
+            uint256 activeEvents,
+            uint256 finalizedEvents,
+            uint256 totalPredictions,
+            uint256 totalCryptoBalls,
+            uint256 totalCollections
+        )
+    {
+        uint256 events = priceGuess.getEventCount();
+        uint256 active = 0;
+        uint256 finalized = 0;
+        uint256 predictions = 0;
+
+        for (uint256 i = 0; i < events; i++) {
+            EventSummary memory event_ = _getEvent(i);
+            predictions += event_.totalPredictions;
+
+            if (event_.isFinalized) {
+                finalized++;
+            } else if (event_.isActive) {
+                active++;
+            }
+        }
+
+        return (
+            events,
+            active,
+            finalized,
+            predictions,
+            priceGuess.balls().getBallCount(),
+            priceGuess.balls().getCollectionCount()
+        );
+    }
+
+    /// @notice Get user's public profile information
+    function getUserPublicProfile(
+        address _user
+    )
+        external
+        view
+        returns (
+            string memory displayName,
+            bool hasPublicProfile,
+            uint256 totalPredictions,
+            uint256 totalBalls,
+            uint256 totalCollections
+        )
+    {
+        (, , , , , bool publicProfile, string memory name, ) = priceGuess.priceFeed().userPreferences(_user);
+
+        if (!publicProfile) {
+            return ("", false, 0, 0, 0);
+        }
+
+        (uint256 predictions, , , ) = getUserPredictionHistory(_user);
+
+        return (
+            name,
+            true,
+            predictions,
+            priceGuess.balls().balanceOf(_user),
+            priceGuess.balls().getUserCollectionCount(_user)
+        );
+    }
+
+    /// @notice Get filtered and sorted events
+    /// @param _statusFilter 0: all, 1: active, 2: ended, 3: finalized
+    /// @param _assetFilter 0: all, otherwise assetId + 1
+    /// @param _sortBy 0: creation time, 1: end time, 2: total predictions, 3: target date
+    /// @param _sortOrder 0: ascending, 1: descending
+    /// @param _limit Maximum events to return
+    /// @param _offset Starting offset for pagination
+    function getFilteredEvents(
+        uint256 _statusFilter,
+        uint256 _assetFilter,
+        uint256 _sortBy,
+        uint256 _sortOrder,
+        uint256 _limit,
+        uint256 _offset
+    )
+        external
+        view
+        returns (
+            uint256[] memory eventIds,
+            string[] memory titles,
+            uint256[] memory assetIds,
+            uint256[] memory endTimes,
+            bool[] memory isActive,
+            bool[] memory isFinalized,
+            uint256[] memory totalPredictions
+        )
+    {
+        uint256 totalEvents = priceGuess.getEventCount();
+        EventSummary[] memory events = new EventSummary[](totalEvents);
+        uint256[] memory tempEventIds = new uint256[](totalEvents);
+        uint256 filteredCount = 0;
+
+        // First pass: filter events
+        for (uint256 i = 0; i < totalEvents; i++) {
+            EventSummary memory event_ = _getEvent(i);
+            events[i] = event_;
+            bool matchesFilter = true;
+
+            // Status filter
+            if (_statusFilter == 1 && !event_.isActive) matchesFilter = false;
+            if (_statusFilter == 2 && (event_.isActive || !event_.isFinalized)) matchesFilter = false;
+            if (_statusFilter == 3 && !event_.isFinalized) matchesFilter = false;
+
+            // Asset filter
+            if (_assetFilter != 0 && event_.assetId != _assetFilter - 1) matchesFilter = false;
+
+            if (matchesFilter) {
+                tempEventIds[filteredCount] = i;
+                filteredCount++;
+            }
+        }
+
+        // Sort filtered events
+        for (uint256 i = 0; i + 1 < filteredCount; i++) {
+            for (uint256 j = 0; j < filteredCount - i - 1; j++) {
+                bool shouldSwap = false;
+                uint256 leftId = tempEventIds[j];
+                uint256 rightId = tempEventIds[j + 1];
+                EventSummary memory leftEvent = events[leftId];
+                EventSummary memory rightEvent = events[rightId];
+
+                if (_sortBy == 0) {
+                    // creation time (using array index as proxy)
+                    shouldSwap = _sortOrder == 0 ? leftId > rightId : leftId < rightId;
+                } else if (_sortBy == 1) {
+                    // end time
+                    shouldSwap = _sortOrder == 0
+                        ? leftEvent.endTime > rightEvent.endTime
+                        : leftEvent.endTime < rightEvent.endTime;
+                } else if (_sortBy == 2) {
+                    // total predictions
+                    shouldSwap = _sortOrder == 0
+                        ? leftEvent.totalPredictions > rightEvent.totalPredictions
+                        : leftEvent.totalPredictions < rightEvent.totalPredictions;
+                } else if (_sortBy == 3) {
+                    // target date
+                    shouldSwap = _sortOrder == 0
+                        ? leftEvent.targetDate > rightEvent.targetDate
+                        : leftEvent.targetDate < rightEvent.targetDate;
+                }
+
+                if (shouldSwap) {
+                    uint256 temp = tempEventIds[j];
+                    tempEventIds[j] = tempEventIds[j + 1];
+                    tempEventIds[j + 1] = temp;
+                }
+            }
+        }
+
+        // Pagination
+        uint256 startIndex = _offset;
+        uint256 endIndex = startIndex + _limit;
+        if (endIndex > filteredCount) endIndex = filteredCount;
+        if (startIndex >= filteredCount) {
+            // Return empty arrays
+            return (
+                new uint256[](0),
+                new string[](0),
+                new uint256[](0),
+                new uint256[](0),
+                new bool[](0),
+                new bool[](0),
+                new uint256[](0)
+            );
+        }
+
+        uint256 resultCount = endIndex - startIndex;
+        uint256[] memory resultEventIds = new uint256[](resultCount);
+        string[] memory resultTitles = new string[](resultCount);
+        uint256[] memory resultAssetIds = new uint256[](resultCount);
+        uint256[] memory resultEndTimes = new uint256[](resultCount);
+        bool[] memory resultIsActive = new bool[](resultCount);
+        bool[] memory resultIsFinalized = new bool[](resultCount);
+        uint256[] memory resultTotalPredictions = new uint256[](resultCount);
+
+        for (uint256 i = 0; i < resultCount; i++) {
+            uint256 eventId = tempEventIds[startIndex + i];
+            EventSummary memory event_ = events[eventId];
+
+            resultEventIds[i] = eventId;
+            resultTitles[i] = event_.title;
+            resultAssetIds[i] = event_.assetId;
+            resultEndTimes[i] = event_.endTime;
+            resultIsActive[i] = event_.isActive;
+            resultIsFinalized[i] = event_.isFinalized;
+            resultTotalPredictions[i] = event_.totalPredictions;
+        }
+
+        return (
+            resultEventIds,
+            resultTitles,
+            resultAssetIds,
+            resultEndTimes,
+            resultIsActive,
+            resultIsFinalized,
+            resultTotalPredictions
+        );
+    }
+
+    function _getEvent(uint256 _eventId) private view returns (EventSummary memory event_) {
+        (
+            event_.title,
+            event_.assetId,
+            event_.targetDate,
+            event_.endTime,
+            event_.isActive,
+            event_.isFinalized,
+            ,
+            event_.totalPredictions,
+            ,
+
+        ) = priceGuess.getPredictionEvent(_eventId);
+    }
+}
@@ -0,0 +1,759 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {
+    FHE,
+    ebool,
+    euint8,
+    euint16,
+    euint32,
+    euint64,
+    eaddress,
+    externalEbool,
+    externalEuint8,
+    externalEuint16,
+    externalEuint32,
+    externalEuint64,
+    externalEaddress
+} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+
+/// @title Crypto Vault - encrypted personal storage of the CryptoPriceGuess app
+/// @notice Users store FHE-encrypted values, decrypt them privately and publish them through the decryption oracle
+/// @dev Entries are identified by their index in `encryptedStorages`
+contract CryptoVault is SepoliaConfig {
+    // Encrypted storage system
+    enum VaultValueType {
+        BOOL,
+        UINT8,
+        UINT16,
+        UINT32,
+        UINT64,
+        ADDRESS
+    }
+
+    // Comparisons of compareVaultEntries: entry <op> other entry
+    enum VaultComparison {
+        EQ,
+        NE,
+        LT,
+        LE,
+        GT,
+        GE
+    }
+
+    struct EncryptedStorage {
+        bytes32 storedValue; // Ciphertext handle of type valueType
+        address owner;
+        uint256 timestamp;
+        bool isEncrypted;
+        VaultValueType valueType;
+        string label;
+        uint256 expiresAt; // 0 = never expires
+        uint256 releaseAt; // 0 = not time-locked, see storeTimeLockedEntry
+    }
+
+    uint256 public constant MAX_VAULT_LABEL_LENGTH = 64;
+
+    // Read access an owner shares on an entry, until vaultShareExpiry (0 = not shared). ACL grants are permanent,
+    // so revoking a share, or pruning expired ones, re-issues the entry under a fresh handle.
+    mapping(uint256 => address[]) private vaultGrantees;
+    mapping(uint256 => mapping(address => uint256)) public vaultShareExpiry;
+    mapping(address => uint256[]) private sharedVaultEntries;
+
+    // Bounds the re-issuing loop of revokeVaultShare
+    uint256 public constant MAX_VAULT_GRANTEES = 10;
+
+    EncryptedStorage[] public encryptedStorages;
+    mapping(address => uint256[]) public userEncryptedStorages;
+    // Entries whose owner asked the oracle to publish them (isEncrypted turns false once published)
+    mapping(uint256 => bool) public publishRequested;
+
+    // Plaintext of published entries, valid once isEncrypted is false
+    mapping(uint256 => uint256) public publishedVaultValues;
+
+    // Time-locked entries not yet published, for keepers to find the due ones (index + 1 in the queue, 0 = absent)
+    uint256[] private vaultReleaseQueue;
+    mapping(uint256 => uint256) private vaultReleaseQueueIndex;
+
+    // Mapping: requestId => storageId + 1 of the entry awaiting publication (0 = not a vault request)
+    mapping(uint256 => uint256) private _requestToStorage;
+
+    // Events
+    event ValueStored(uint256 indexed storageId, address indexed owner);
+    // `value` is the plaintext widened to uint256: 0/1 for BOOL, the address as uint160 for ADDRESS
+    event ValuePublished(uint256 indexed storageId, address indexed owner, VaultValueType valueType, uint256 value);
+    event StorageTransferred(uint256 indexed storageId, address indexed from, address indexed to);
+    event VaultEntryShared(uint256 indexed storageId, address indexed grantee, uint256 expiresAt);
+    event VaultShareRevoked(uint256 indexed storageId, address indexed grantee);
+    event VaultEntryUpdated(uint256 indexed storageId, address indexed owner);
+    event VaultReleaseScheduled(uint256 indexed storageId, uint256 releaseAt);
+    event VaultReleaseTriggered(uint256 indexed storageId, address indexed keeper);
+
+    /// @notice Store an encrypted 32-bit value in the vault, unlabelled and without expiry
+    /// @param _encryptedValue The encrypted value to store
+    /// @param inputProof The proof for the encrypted input
+    function storeEncryptedValue(externalEuint32 _encryptedValue, bytes calldata inputProof) external {
+        // Check input bounds
+        require(externalEuint32.unwrap(_encryptedValue) != bytes32(0), "Value cannot be zero");
+
+        // Convert external encrypted input to internal euint32
+        euint32 encryptedValue = FHE.fromExternal(_encryptedValue, inputProof);
+
+        // Grant decryption permissions
+        FHE.allowThis(encryptedValue);
+        FHE.allow(encryptedValue, msg.sender);
+
+        _storeVaultEntry(FHE.toBytes32(encryptedValue), VaultValueType.UINT32, "", 0);
+    }
+
+    /// @notice Store an encrypted value of any vault type, with a label and an optional expiry
+    /// @param _valueType The type the value was encrypted as (addBool, add8, add16, add32, add64, addAddress)
+    /// @param _encryptedValue The external handle of the encrypted input
+    /// @param inputProof The proof for the encrypted input
+    /// @param _label A label shown in the owner's vault, visible on-chain
+    /// @param _expiresAt Timestamp after which the entry can no longer be retrieved, transferred or published
+    /// (0 for never)
+    function storeEncryptedEntry(
+        VaultValueType _valueType,
+        bytes32 _encryptedValue,
+        bytes calldata inputProof,
+        string calldata _label,
+        uint256 _expiresAt
+    ) external returns (uint256) {
+        require(_encryptedValue != bytes32(0), "Value cannot be zero");
+        require(bytes(_label).length <= MAX_VAULT_LABEL_LENGTH, "Label too long");
+        require(_expiresAt == 0 || _expiresAt > block.timestamp, "Expiry must be in the future");
+
+        bytes32 handle = _fromExternalVaultValue(_valueType, _encryptedValue, inputProof);
+        _allowVaultValue(_valueType, handle, address(this));
+        _allowVaultValue(_valueType, handle, msg.sender);
+        return _storeVaultEntry(handle, _valueType, _label, _expiresAt);
+    }
+
+    /// @notice Store an encrypted value that becomes public at `_releaseAt`, like a dead man's switch: unless you
+    /// push the release time forward with heartbeatVaultEntry, anyone can then have the oracle publish it
+    /// (releaseVaultEntry). The value can no longer change, which makes it a commitment, e.g. to a price call.
+    /// @param _valueType The type the value was encrypted as
+    /// @param _encryptedValue The external handle of the encrypted input
+    /// @param inputProof The proof for the encrypted input
+    /// @param _label A label shown in the owner's vault, visible on-chain
+    /// @param _releaseAt Timestamp from which anyone can publish the value
+    function storeTimeLockedEntry(
+        VaultValueType _valueType,
+        bytes32 _encryptedValue,
+        bytes calldata inputProof,
+        string calldata _label,
+        uint256 _releaseAt
+    ) external returns (uint256 storageId) {
+        require(_encryptedValue != bytes32(0), "Value cannot be zero");
+        require(bytes(_label).length <= MAX_VAULT_LABEL_LENGTH, "Label too long");
+        require(_releaseAt > block.timestamp, "Release time must be in the future");
+
+        bytes32 handle = _fromExternalVaultValue(_valueType, _encryptedValue, inputProof);
+        _allowVaultValue(_valueType, handle, address(this));
+        _allowVaultValue(_valueType, handle, msg.sender);
+        // Time-locked entries never expire, so they can always be released
+        storageId = _storeVaultEntry(handle, _valueType, _label, 0);
+
+        encryptedStorages[storageId].releaseAt = _releaseAt;
+        vaultReleaseQueue.push(storageId);
+        vaultReleaseQueueIndex[storageId] = vaultReleaseQueue.length;
+
+        emit VaultReleaseScheduled(storageId, _releaseAt);
+    }
+
+    /// @notice Push the release time of one of your time-locked entries forward, before it passes
+    /// @param _storageId The storage ID
+    /// @param _releaseAt The new release time, later than the current one
+    function heartbeatVaultEntry(uint256 _storageId, uint256 _releaseAt) external {
+        EncryptedStorage storage storage_ = _ownedVaultEntry(_storageId);
+        require(storage_.releaseAt != 0, "Not time-locked");
+        require(!publishRequested[_storageId], "Value already published");
+        require(block.timestamp < storage_.releaseAt, "Release time passed");
+        require(_releaseAt > storage_.releaseAt, "Release time can only move forward");
+
+        storage_.releaseAt = _releaseAt;
+
+        emit VaultReleaseScheduled(_storageId, _releaseAt);
+    }
+
+    /// @notice Have the oracle publish a time-locked entry whose release time has passed; anyone can call it.
+    /// The plaintext is recorded in publishedVaultValues and emitted in ValuePublished.
+    /// @param _storageId The storage ID to release
+    function releaseVaultEntry(uint256 _storageId) external {
+        require(_storageId < encryptedStorages.length, "Storage does not exist");
+        EncryptedStorage storage storage_ = encryptedStorages[_storageId];
+        require(storage_.releaseAt != 0, "Not time-locked");
+        require(storage_.isEncrypted && !publishRequested[_storageId], "Value already published");
+        require(block.timestamp >= storage_.releaseAt, "Release time not reached");
+
+        _requestVaultPublication(_storageId);
+
+        emit VaultReleaseTriggered(_storageId, msg.sender);
+    }
+
+    /// @notice Get the time-locked entries waiting to be published, in no particular order
+    /// @param _dueOnly Whether to list only the entries whose release time has passed
+    /// @param _limit Maximum entries to return
+    /// @param _offset Starting offset for pagination
+    /// @dev `totalMatches` counts the matching entries across all pages
+    function getPendingVaultReleases(
+        bool _dueOnly,
+        uint256 _limit,
+        uint256 _offset
+    ) external view returns (uint256[] memory storageIds, uint256[] memory releaseAt, uint256 totalMatches) {
+        uint256[] memory matches = new uint256[](vaultReleaseQueue.length);
+        for (uint256 i = 0; i < vaultReleaseQueue.length; i++) {
+            uint256 storageId = vaultReleaseQueue[i];
+            if (!_dueOnly || encryptedStorages[storageId].releaseAt <= block.timestamp) {
+                matches[totalMatches++] = storageId;
+            }
+        }
+
+        uint256 endIndex = _offset + _limit;
+        if (endIndex > totalMatches) endIndex = totalMatches;
+        uint256 pageCount = _offset < endIndex ? endIndex - _offset : 0;
+
+        storageIds = new uint256[](pageCount);
+        releaseAt = new uint256[](pageCount);
+        for (uint256 i = 0; i < pageCount; i++) {
+            storageIds[i] = matches[_offset + i];
+            releaseAt[i] = encryptedStorages[storageIds[i]].releaseAt;
+        }
+    }
+
+    /// @notice Retrieve one of your stored values, to decrypt it with a signed user decryption request
+    /// (EIP-712); only the owner has ACL access to the handle, so the value never leaves the owner's client
+    /// @param _storageId The storage ID to retrieve
+    /// @return The ciphertext handle, of the entry's valueType
+    function retrieveEncryptedValue(uint256 _storageId) external view returns (bytes32) {
+        return _ownedVaultEntry(_storageId).storedValue;
+    }
+
+    /// @notice Publish one of your stored values: the oracle decrypts it and the plaintext is emitted in
+    /// ValuePublished for anyone to read. Use retrieveEncryptedValue to read a value privately.
+    /// @param _storageId The storage ID to publish
+    function publishEncryptedValue(uint256 _storageId) external {
+        EncryptedStorage storage storage_ = _ownedVaultEntry(_storageId);
+        require(storage_.isEncrypted && !publishRequested[_storageId], "Value already published");
+
+        _requestVaultPublication(_storageId);
+    }
+
+    /// @notice Callback for publishEncryptedValue
+    function valuePublishCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) public returns (bool) {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint256 storageRef = _requestToStorage[requestId];
+        require(storageRef != 0, "Unknown vault publication");
+        require(cleartexts.length == 32, "Invalid cleartexts length");
+        delete _requestToStorage[requestId];
+
+        uint256 storageId = storageRef - 1;
+        EncryptedStorage storage storage_ = encryptedStorages[storageId];
+        require(publishRequested[storageId] && storage_.isEncrypted, "Entry not awaiting publication");
+        storage_.isEncrypted = false;
+
+        // Every type is ABI-encoded as one word
+        uint256 value = abi.decode(cleartexts, (uint256));
+        publishedVaultValues[storageId] = value;
+
+        emit ValuePublished(storageId, storage_.owner, storage_.valueType, value);
+        return true;
+    }
+
+    /// @notice Get encrypted storage count for user
+    function getUserStorageCount(address _user) external view returns (uint256) {
+        return userEncryptedStorages[_user].length;
+    }
+
+    /// @notice Get the IDs of a user's encrypted storages
+    function getUserStorageIds(address _user) external view returns (uint256[] memory) {
+        return userEncryptedStorages[_user];
+    }
+
+    /// @notice Get a user's vault entries, in storage order
+    /// @param _user The user address
+    /// @param _typeFilter 0: all, otherwise the VaultValueType + 1
+    /// @param _includeExpired Whether to list entries past their expiry
+    /// @param _limit Maximum entries to return
+    /// @param _offset Starting offset for pagination
+    /// @dev `totalMatches` counts the entries matching the filters across all pages
+    function getFilteredVaultEntries(
+        address _user,
+        uint256 _typeFilter,
+        bool _includeExpired,
+        uint256 _limit,
+        uint256 _offset
+    )
+        external
+        view
+        returns (
+            uint256[] memory storageIds,
+            VaultValueType[] memory valueTypes,
+            string[] memory labels,
+            uint256[] memory expiresAt,
+            uint256 totalMatches
+        )
+    {
+        uint256[] storage userStorageIds = userEncryptedStorages[_user];
+
+        uint256[] memory matches = new uint256[](userStorageIds.length);
+        for (uint256 i = 0; i < userStorageIds.length; i++) {
+            EncryptedStorage storage storage_ = encryptedStorages[userStorageIds[i]];
+            bool matchesType = _typeFilter == 0 || uint256(storage_.valueType) + 1 == _typeFilter;
+            bool matchesExpiry = _includeExpired || !_isVaultEntryExpired(storage_);
+            if (matchesType && matchesExpiry) {
+                matches[totalMatches++] = userStorageIds[i];
+            }
+        }
+
+        uint256 endIndex = _offset + _limit;
+        if (endIndex > totalMatches) endIndex = totalMatches;
+        uint256 pageCount = _offset < endIndex ? endIndex - _offset : 0;
+
+        storageIds = new uint256[](pageCount);
+        valueTypes = new VaultValueType[](pageCount);
+        labels = new string[](pageCount);
+        expiresAt = new uint256[](pageCount);
+        for (uint256 i = 0; i < pageCount; i++) {
+            uint256 storageId = matches[_offset + i];
+            EncryptedStorage storage storage_ = encryptedStorages[storageId];
+            storageIds[i] = storageId;
+            valueTypes[i] = storage_.valueType;
+            labels[i] = storage_.label;
+            expiresAt[i] = storage_.expiresAt;
+        }
+    }
+
+    function _storeVaultEntry(
+        bytes32 _handle,
+        VaultValueType _valueType,
+        string memory _label,
+        uint256 _expiresAt
+    ) private returns (uint256 storageId) {
+        storageId = encryptedStorages.length;
+        encryptedStorages.push(
+            EncryptedStorage({
+                storedValue: _handle,
+                owner: msg.sender,
+                timestamp: block.timestamp,
+                isEncrypted: true,
+                valueType: _valueType,
+                label: _label,
+                expiresAt: _expiresAt,
+                releaseAt: 0
+            })
+        );
+        userEncryptedStorages[msg.sender].push(storageId);
+
+        emit ValueStored(storageId, msg.sender);
+    }
+
+    // Sends the entry to the oracle (see valuePublishCallback); a time-locked entry leaves the release queue
+    function _requestVaultPublication(uint256 _storageId) private {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = encryptedStorages[_storageId].storedValue;
+
+        uint256 requestId = FHE.requestDecryption(cts, this.valuePublishCallback.selector);
+        _requestToStorage[requestId] = _storageId + 1;
+        publishRequested[_storageId] = true;
+
+        uint256 queueIndex = vaultReleaseQueueIndex[_storageId];
+        if (queueIndex != 0) {
+            uint256 lastId = vaultReleaseQueue[vaultReleaseQueue.length - 1];
+            vaultReleaseQueue[queueIndex - 1] = lastId;
+            vaultReleaseQueueIndex[lastId] = queueIndex;
+            vaultReleaseQueue.pop();
+            delete vaultReleaseQueueIndex[_storageId];
+        }
+    }
+
+    // A live entry of the caller
+    function _ownedVaultEntry(uint256 _storageId) private view returns (EncryptedStorage storage storage_) {
+        require(_storageId < encryptedStorages.length, "Storage does not exist");
+        storage_ = encryptedStorages[_storageId];
+        require(storage_.owner == msg.sender, "Not the owner");
+        require(!_isVaultEntryExpired(storage_), "Entry expired");
+    }
+
+    function _isVaultEntryExpired(EncryptedStorage storage _storage) private view returns (bool) {
+        return _storage.expiresAt != 0 && block.timestamp >= _storage.expiresAt;
+    }
+
+    // Verifies an encrypted input of `_valueType`; the input verifier rejects a handle encrypted as another type
+    function _fromExternalVaultValue(
+        VaultValueType _valueType,
+        bytes32 _encryptedValue,
+        bytes calldata _inputProof
+    ) private returns (bytes32) {
+        if (_valueType == VaultValueType.BOOL) {
+            return FHE.toBytes32(FHE.fromExternal(externalEbool.wrap(_encryptedValue), _inputProof));
+        } else if (_valueType == VaultValueType.UINT8) {
+            return FHE.toBytes32(FHE.fromExternal(externalEuint8.wrap(_encryptedValue), _inputProof));
+        } else if (_valueType == VaultValueType.UINT16) {
+            return FHE.toBytes32(FHE.fromExternal(externalEuint16.wrap(_encryptedValue), _inputProof));
+        } else if (_valueType == VaultValueType.UINT32) {
+            return FHE.toBytes32(FHE.fromExternal(externalEuint32.wrap(_encryptedValue), _inputProof));
+        } else if (_valueType == VaultValueType.UINT64) {
+            return FHE.toBytes32(FHE.fromExternal(externalEuint64.wrap(_encryptedValue), _inputProof));
+        } else {
+            return FHE.toBytes32(FHE.fromExternal(externalEaddress.wrap(_encryptedValue), _inputProof));
+        }
+    }
+
+    // Re-derives a handle into a fresh one holding the same plaintext (a no-op FHE operation)
+    function _rederiveVaultValue(VaultValueType _valueType, bytes32 _handle) private returns (bytes32) {
+        if (_valueType == VaultValueType.BOOL) {
+            return FHE.toBytes32(FHE.and(ebool.wrap(_handle), true));
+        } else if (_valueType == VaultValueType.UINT8) {
+            return FHE.toBytes32(FHE.add(euint8.wrap(_handle), uint8(0)));
+        } else if (_valueType == VaultValueType.UINT16) {
+            return FHE.toBytes32(FHE.add(euint16.wrap(_handle), uint16(0)));
+        } else if (_valueType == VaultValueType.UINT32) {
+            return FHE.toBytes32(FHE.add(euint32.wrap(_handle), uint32(0)));
+        } else if (_valueType == VaultValueType.UINT64) {
+            return FHE.toBytes32(FHE.add(euint64.wrap(_handle), uint64(0)));
+        } else {
+            eaddress value = eaddress.wrap(_handle);
+            return FHE.toBytes32(FHE.select(FHE.asEbool(true), value, value));
+        }
+    }
+
+    function _allowVaultValue(VaultValueType _valueType, bytes32 _handle, address _account) private {
+        if (_valueType == VaultValueType.BOOL) {
+            FHE.allow(ebool.wrap(_handle), _account);
+        } else if (_valueType == VaultValueType.UINT8) {
+            FHE.allow(euint8.wrap(_handle), _account);
+        } else if (_valueType == VaultValueType.UINT16) {
+            FHE.allow(euint16.wrap(_handle), _account);
+        } else if (_valueType == VaultValueType.UINT32) {
+            FHE.allow(euint32.wrap(_handle), _account);
+        } else if (_valueType == VaultValueType.UINT64) {
+            FHE.allow(euint64.wrap(_handle), _account);
+        } else {
+            FHE.allow(eaddress.wrap(_handle), _account);
+        }
+    }
+
+    // Replaces an entry's handle with a fresh one of the same value, see _replaceVaultHandle
+    function _reissueVaultHandle(uint256 _storageId) private returns (uint256) {
+        EncryptedStorage storage storage_ = encryptedStorages[_storageId];
+        return _replaceVaultHandle(_storageId, _rederiveVaultValue(storage_.valueType, storage_.storedValue));
+    }
+
+    // Stores `_handle` as an entry's value, granted to the contract, the owner and the live grantees only.
+    // Expired shares are dropped on the way; returns how many.
+    function _replaceVaultHandle(uint256 _storageId, bytes32 _handle) private returns (uint256 pruned) {
+        EncryptedStorage storage storage_ = encryptedStorages[_storageId];
+        bytes32 handle = _handle;
+        _allowVaultValue(storage_.valueType, handle, address(this));
+        _allowVaultValue(storage_.valueType, handle, storage_.owner);
+
+        address[] storage grantees = vaultGrantees[_storageId];
+        for (uint256 i = grantees.length; i > 0; i--) {
+            address grantee = grantees[i - 1];
+            if (vaultShareExpiry[_storageId][grantee] <= block.timestamp) {
+                _removeVaultShare(_storageId, grantee);
+                pruned++;
+            } else {
+                _allowVaultValue(storage_.valueType, handle, grantee);
+            }
+        }
+
+        storage_.storedValue = handle;
+    }
+
+    function _removeVaultShare(uint256 _storageId, address _grantee) private {
+        address[] storage grantees = vaultGrantees[_storageId];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            if (grantees[i] == _grantee) {
+                grantees[i] = grantees[grantees.length - 1];
+                grantees.pop();
+                break;
+            }
+        }
+        _removeId(sharedVaultEntries[_grantee], _storageId);
+        delete vaultShareExpiry[_storageId][_grantee];
+
+        emit VaultShareRevoked(_storageId, _grantee);
+    }
+
+    /// @notice Transfer encrypted storage to another address
+    /// @dev ACL grants cannot be revoked, so the value is re-derived into a fresh handle that only the contract
+    /// and the recipient may decrypt. The sender keeps access to the old handle only, which is no longer stored.
+    /// @param _storageId The storage ID to transfer
+    /// @param _to The recipient address
+    function transferEncryptedStorage(uint256 _storageId, address _to) external {
+        require(_to != address(0), "Cannot transfer to zero address");
+
+        EncryptedStorage storage storage_ = _ownedVaultEntry(_storageId);
+
+        address previousOwner = storage_.owner;
+        storage_.owner = _to;
+
+        // Shares were granted by the previous owner
+        address[] storage grantees = vaultGrantees[_storageId];
+        while (grantees.length > 0) {
+            _removeVaultShare(_storageId, grantees[grantees.length - 1]);
+        }
+        _reissueVaultHandle(_storageId);
+
+        // Update user storage mappings
+        uint256[] storage previousOwnerStorages = userEncryptedStorages[previousOwner];
+        for (uint256 i = 0; i < previousOwnerStorages.length; i++) {
+            if (previousOwnerStorages[i] == _storageId) {
+                previousOwnerStorages[i] = previousOwnerStorages[previousOwnerStorages.length - 1];
+                previousOwnerStorages.pop();
+                break;
+            }
+        }
+
+        userEncryptedStorages[_to].push(_storageId);
+
+        emit StorageTransferred(_storageId, previousOwner, _to);
+    }
+
+    /// @notice Let another address decrypt one of your entries until `_expiresAt`. Sharing again with the same
+    /// address changes the expiry.
+    /// @param _storageId The storage ID to share
+    /// @param _grantee The address that may decrypt the entry (see retrieveSharedVaultValue)
+    /// @param _expiresAt Timestamp the share lasts until
+    function shareVaultEntry(uint256 _storageId, address _grantee, uint256 _expiresAt) external {
+        EncryptedStorage storage storage_ = _ownedVaultEntry(_storageId);
+        require(_grantee != address(0) && _grantee != msg.sender, "Invalid grantee");
+        require(_expiresAt > block.timestamp, "Expiry must be in the future");
+
+        if (vaultShareExpiry[_storageId][_grantee] == 0) {
+            require(vaultGrantees[_storageId].length < MAX_VAULT_GRANTEES, "Too many grantees");
+            vaultGrantees[_storageId].push(_grantee);
+            sharedVaultEntries[_grantee].push(_storageId);
+            _allowVaultValue(storage_.valueType, storage_.storedValue, _grantee);
+        }
+        vaultShareExpiry[_storageId][_grantee] = _expiresAt;
+
+        emit VaultEntryShared(_storageId, _grantee, _expiresAt);
+    }
+
+    /// @notice Take back a grantee's read access; the entry moves to a fresh handle the grantee has no access to
+    /// @param _storageId The storage ID
+    /// @param _grantee The grantee to revoke
+    function revokeVaultShare(uint256 _storageId, address _grantee) external {
+        _ownedVaultEntry(_storageId);
+        require(vaultShareExpiry[_storageId][_grantee] != 0, "Not shared with this address");
+
+        _removeVaultShare(_storageId, _grantee);
+        _reissueVaultHandle(_storageId);
+    }
+
+    /// @notice Drop the expired shares of an entry, re-issuing it so their grantees lose access. Anyone can call it.
+    /// @param _storageId The storage ID
+    function pruneExpiredVaultShares(uint256 _storageId) external {
+        require(_storageId < encryptedStorages.length, "Storage does not exist");
+        require(_reissueVaultHandle(_storageId) > 0, "No expired shares");
+    }
+
+    /// @notice Retrieve an entry shared with you, to decrypt it with a signed user decryption request
+    /// @param _storageId The storage ID
+    /// @return The ciphertext handle, of the entry's valueType
+    function retrieveSharedVaultValue(uint256 _storageId) external view returns (bytes32) {
+        require(_storageId < encryptedStorages.length, "Storage does not exist");
+        EncryptedStorage storage storage_ = encryptedStorages[_storageId];
+        require(vaultShareExpiry[_storageId][msg.sender] > block.timestamp, "Not shared with you");
+        require(!_isVaultEntryExpired(storage_), "Entry expired");
+        return storage_.storedValue;
+    }
+
+    /// @notice Get the grantees of an entry and until when they may decrypt it (expired shares included until
+    /// they are pruned)
+    function getVaultGrantees(
+        uint256 _storageId
+    ) external view returns (address[] memory grantees, uint256[] memory expiresAt) {
+        grantees = vaultGrantees[_storageId];
+        expiresAt = new uint256[](grantees.length);
+        for (uint256 i = 0; i < grantees.length; i++) {
+            expiresAt[i] = vaultShareExpiry[_storageId][grantees[i]];
+        }
+    }
+
+    /// @notice Get the IDs of the entries a user can currently decrypt as a grantee
+    function getSharedVaultEntryIds(address _user) external view returns (uint256[] memory storageIds) {
+        uint256[] storage entryIds = sharedVaultEntries[_user];
+
+        uint256 liveCount = 0;
+        for (uint256 i = 0; i < entryIds.length; i++) {
+            if (_isLiveVaultShare(entryIds[i], _user)) liveCount++;
+        }
+
+        storageIds = new uint256[](liveCount);
+        uint256 index = 0;
+        for (uint256 i = 0; i < entryIds.length; i++) {
+            if (_isLiveVaultShare(entryIds[i], _user)) storageIds[index++] = entryIds[i];
+        }
+    }
+
+    /// @notice Add an encrypted amount to one of your number entries, in place. A sum that would overflow the
+    /// entry's type leaves it unchanged (the check runs on ciphertexts, so it cannot revert).
+    /// @param _storageId The storage ID to update
+    /// @param _encryptedAmount The amount, encrypted as the entry's type
+    /// @param inputProof The proof for the encrypted input
+    function addToVaultEntry(uint256 _storageId, bytes32 _encryptedAmount, bytes calldata inputProof) external {
+        EncryptedStorage storage storage_ = _mutableVaultEntry(_storageId);
+        euint64 value = _widenVaultValue(storage_.valueType, storage_.storedValue);
+        euint64 amount = _widenVaultValue(
+            storage_.valueType,
+            _fromExternalVaultValue(storage_.valueType, _encryptedAmount, inputProof)
+        );
+
+        euint64 sum = FHE.add(value, amount);
+        // Narrow types are added as 64-bit numbers, so only a 64-bit sum can wrap around
+        ebool fits = storage_.valueType == VaultValueType.UINT64
+            ? FHE.ge(sum, value)
+            : FHE.le(sum, _vaultTypeMax(storage_.valueType));
+        _updateVaultEntry(_storageId, FHE.select(fits, sum, value));
+    }
+
+    /// @notice Subtract an encrypted amount from one of your number entries, in place. An amount larger than the
+    /// entry leaves it unchanged, so the entry works as a private balance that never goes negative.
+    /// @param _storageId The storage ID to update
+    /// @param _encryptedAmount The amount, encrypted as the entry's type
+    /// @param inputProof The proof for the encrypted input
+    function subtractFromVaultEntry(uint256 _storageId, bytes32 _encryptedAmount, bytes calldata inputProof) external {
+        EncryptedStorage storage storage_ = _mutableVaultEntry(_storageId);
+        euint64 value = _widenVaultValue(storage_.valueType, storage_.storedValue);
+        euint64 amount = _widenVaultValue(
+            storage_.valueType,
+            _fromExternalVaultValue(storage_.valueType, _encryptedAmount, inputProof)
+        );
+
+        _updateVaultEntry(_storageId, FHE.select(FHE.le(amount, value), FHE.sub(value, amount), value));
+    }
+
+    /// @notice Replace one of your number entries with the smaller of itself and another entry of yours
+    /// @param _storageId The storage ID to update
+    /// @param _otherId An entry of the same type
+    function minVaultEntries(uint256 _storageId, uint256 _otherId) external {
+        (euint64 value, euint64 other) = _vaultOperands(_storageId, _otherId);
+        _mutableVaultEntry(_storageId);
+        _updateVaultEntry(_storageId, FHE.min(value, other));
+    }
+
+    /// @notice Replace one of your number entries with the larger of itself and another entry of yours
+    /// @param _storageId The storage ID to update
+    /// @param _otherId An entry of the same type
+    function maxVaultEntries(uint256 _storageId, uint256 _otherId) external {
+        (euint64 value, euint64 other) = _vaultOperands(_storageId, _otherId);
+        _mutableVaultEntry(_storageId);
+        _updateVaultEntry(_storageId, FHE.max(value, other));
+    }
+
+    /// @notice Compare two of your number entries without revealing them. The encrypted result is stored as a
+    /// new BOOL entry of yours, labelled after the comparison, for you to decrypt or publish.
+    /// @param _storageId The left-hand entry
+    /// @param _otherId The right-hand entry, of the same type
+    /// @param _comparison How to compare them
+    /// @return resultId The storage ID of the result entry
+    function compareVaultEntries(
+        uint256 _storageId,
+        uint256 _otherId,
+        VaultComparison _comparison
+    ) external returns (uint256 resultId) {
+        (euint64 value, euint64 other) = _vaultOperands(_storageId, _otherId);
+
+        ebool result;
+        if (_comparison == VaultComparison.EQ) result = FHE.eq(value, other);
+        else if (_comparison == VaultComparison.NE) result = FHE.ne(value, other);
+        else if (_comparison == VaultComparison.LT) result = FHE.lt(value, other);
+        else if (_comparison == VaultComparison.LE) result = FHE.le(value, other);
+        else if (_comparison == VaultComparison.GT) result = FHE.gt(value, other);
+        else result = FHE.ge(value, other);
+
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+
+        string[6] memory symbols = ["==", "!=", "<", "<=", ">", ">="];
+        string memory label = string.concat(
+            "#",
+            Strings.toString(_storageId),
+            " ",
+            symbols[uint256(_comparison)],
+            " #",
+            Strings.toString(_otherId)
+        );
+        resultId = _storeVaultEntry(FHE.toBytes32(result), VaultValueType.BOOL, label, 0);
+    }
+
+    // A live number entry of the caller that has not been published, whose value can change
+    function _mutableVaultEntry(uint256 _storageId) private view returns (EncryptedStorage storage storage_) {
+        storage_ = _ownedVaultEntry(_storageId);
+        require(_isVaultNumber(storage_.valueType), "Not a number entry");
+        require(storage_.isEncrypted && !publishRequested[_storageId], "Value already published");
+        require(storage_.releaseAt == 0, "Entry is time-locked");
+    }
+
+    // Both entries of a binary operation, widened to 64 bits
+    function _vaultOperands(uint256 _storageId, uint256 _otherId) private returns (euint64, euint64) {
+        EncryptedStorage storage storage_ = _ownedVaultEntry(_storageId);
+        EncryptedStorage storage other = _ownedVaultEntry(_otherId);
+        require(_isVaultNumber(storage_.valueType), "Not a number entry");
+        require(other.valueType == storage_.valueType, "Entry types differ");
+        return (
+            _widenVaultValue(storage_.valueType, storage_.storedValue),
+            _widenVaultValue(other.valueType, other.storedValue)
+        );
+    }
+
+    function _updateVaultEntry(uint256 _storageId, euint64 _value) private {
+        EncryptedStorage storage storage_ = encryptedStorages[_storageId];
+        _replaceVaultHandle(_storageId, _narrowVaultValue(storage_.valueType, _value));
+        emit VaultEntryUpdated(_storageId, storage_.owner);
+    }
+
+    function _isVaultNumber(VaultValueType _valueType) private pure returns (bool) {
+        return _valueType != VaultValueType.BOOL && _valueType != VaultValueType.ADDRESS;
+    }
+
+    function _vaultTypeMax(VaultValueType _valueType) private pure returns (uint64) {
+        if (_valueType == VaultValueType.UINT8) return type(uint8).max;
+        if (_valueType == VaultValueType.UINT16) return type(uint16).max;
+        if (_valueType == VaultValueType.UINT32) return type(uint32).max;
+        return type(uint64).max;
+    }
+
+    // Number entries are computed on as 64-bit values and narrowed back to their type
+    function _widenVaultValue(VaultValueType _valueType, bytes32 _handle) private returns (euint64) {
+        if (_valueType == VaultValueType.UINT8) return FHE.asEuint64(euint8.wrap(_handle));
+        if (_valueType == VaultValueType.UINT16) return FHE.asEuint64(euint16.wrap(_handle));
+        if (_valueType == VaultValueType.UINT32) return FHE.asEuint64(euint32.wrap(_handle));
+        return euint64.wrap(_handle);
+    }
+
+    function _narrowVaultValue(VaultValueType _valueType, euint64 _value) private returns (bytes32) {
+        if (_valueType == VaultValueType.UINT8) return FHE.toBytes32(FHE.asEuint8(_value));
+        if (_valueType == VaultValueType.UINT16) return FHE.toBytes32(FHE.asEuint16(_value));
+        if (_valueType == VaultValueType.UINT32) return FHE.toBytes32(FHE.asEuint32(_value));
+        return FHE.toBytes32(_value);
+    }
+
+    function _isLiveVaultShare(uint256 _storageId, address _grantee) private view returns (bool) {
+        return
+            vaultShareExpiry[_storageId][_grantee] > block.timestamp &&
+            !_isVaultEntryExpired(encryptedStorages[_storageId]);
+    }
+
+    function _removeId(uint256[] storage _ids, uint256 _id) private {
+        for (uint256 i = 0; i < _ids.length; i++) {
+            if (_ids[i] == _id) {
+                _ids[i] = _ids[_ids.length - 1];
+                _ids.pop();
+                return;
+            }
+        }
+    }
+}
@@ -0,0 +1,318 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8, euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {Cleartexts} from "./Cleartexts.sol";
+
+/// @title Event markets - how the predictions of a CryptoPriceGuess event are encrypted, tallied and scored
+/// @dev Linked into CryptoPriceGuess as an external library: its functions run through delegatecall, so the
+/// tallies are stored and ACL-allowed for the game contract itself
+library EventMarkets {
+    // Market kinds: what a prediction encrypts and how it is tallied and scored
+    enum EventKind {
+        PRICE, // Point price guess (USD * priceScale), averaged (and optionally histogrammed) at finalize
+        THRESHOLD, // Binary "above/below threshold" market: 1 = above, 0 = below
+        RANGE, // Bucketed range: encrypted bucket index, tallied per bucket
+        BOUNDS // Encrypted [lower, upper] price bounds, averaged at finalize
+    }
+
+    struct EventMarket {
+        EventKind kind;
+        // THRESHOLD: [threshold]; RANGE: ascending bucket bounds; PRICE: ascending histogram bucket bounds
+        // (optional); BOUNDS: empty
+        uint32[] params;
+        // RANGE/PRICE: encrypted count per bucket; BOUNDS: [encrypted sum of upper bounds]
+        euint32[] encryptedTallies;
+        // Decrypted at finalize. THRESHOLD: [below, above] counts; RANGE/PRICE: count per bucket;
+        // BOUNDS: [average lower, average upper]
+        uint32[] results;
+    }
+
+    uint256 internal constant MAX_RANGE_BUCKETS = 10;
+
+    /// @dev Validates the market parameters of `_kind` and stores them
+    function create(EventMarket storage _market, EventKind _kind, uint32[] calldata _params) external {
+        if (_kind == EventKind.THRESHOLD) {
+            require(_params.length == 1 && _params[0] > 0, "Threshold market takes one threshold");
+        } else if (_kind == EventKind.RANGE || _kind == EventKind.PRICE) {
+            require(
+                (_params.length > 0 || _kind == EventKind.PRICE) && _params.length < MAX_RANGE_BUCKETS,
+                "Invalid number of range buckets"
+            );
+            for (uint256 i = 1; i < _params.length; i++) {
+                require(_params[i] > _params[i - 1], "Bucket bounds must be ascending");
+            }
+        } else {
+            require(_params.length == 0, "Market takes no parameters");
+        }
+
+        _market.kind = _kind;
+        _market.params = _params;
+    }
+
+    /// @dev Folds a prediction into the market: normalizes it, counts it into the tallies and adds it to the
+    /// encrypted prediction sum, in place of `_replaced` when the prediction is an update. Returns the normalized
+    /// prediction, allowed to the game contract, and the new sum, allowed to the game contract and `_admin`
+    /// @param _replaced The prediction an update replaces (uninitialized for a new prediction)
+    function addPrediction(
+        EventMarket storage _market,
+        euint32 _sum,
+        euint32 _replaced,
+        euint32 _prediction,
+        address _admin
+    ) external returns (euint32 prediction, euint32 sum) {
+        prediction = _normalize(_market, _prediction);
+        sum = prediction;
+        if (FHE.isInitialized(_replaced)) {
+            _tally(_market, _replaced, false);
+            _sum = FHE.sub(_sum, _replaced);
+        }
+        _tally(_market, prediction, true);
+        if (FHE.isInitialized(_sum)) {
+            sum = FHE.add(_sum, prediction);
+        }
+
+        FHE.allowThis(prediction);
+        FHE.allowThis(sum);
+        FHE.allow(sum, _admin);
+    }
+
+    /// @dev Takes a withdrawn prediction out of the tallies (with its upper bound in BOUNDS markets) and out of
+    /// the encrypted prediction sum; returns the new sum, allowed to the game contract and `_admin`
+    function removePrediction(
+        EventMarket storage _market,
+        euint32 _sum,
+        euint32 _prediction,
+        euint32 _upper,
+        address _admin
+    ) external returns (euint32 sum) {
+        _tally(_market, _prediction, false);
+        if (_market.kind == EventKind.BOUNDS) {
+            _tallyUpperBound(_market, _upper, false);
+        }
+
+        sum = FHE.sub(_sum, _prediction);
+        FHE.allowThis(sum);
+        FHE.allow(sum, _admin);
+    }
+
+    /// @dev THRESHOLD predictions are normalized to 0/1 and RANGE bucket indexes clamped to the last bucket,
+    /// so the sum of a THRESHOLD market is its "above" count
+    function _normalize(EventMarket storage _market, euint32 _prediction) private returns (euint32) {
+        if (_market.kind == EventKind.THRESHOLD) {
+            return FHE.asEuint32(FHE.ne(_prediction, 0));
+        } else if (_market.kind == EventKind.RANGE) {
+            return FHE.min(_prediction, uint32(_market.params.length));
+        }
+        return _prediction;
+    }
+
+    /// @dev Counts a stored prediction into (or out of) its bucket: RANGE predictions are bucket indexes,
+    /// PRICE predictions with histogram bounds count into the bucket they fall in
+    function _tally(EventMarket storage _market, euint32 _prediction, bool _add) private {
+        if (_market.kind == EventKind.RANGE) {
+            _tallyBucket(_market, _prediction, _add);
+        } else if (_market.kind == EventKind.PRICE && _market.params.length > 0) {
+            // Bucket index = number of bounds at or below the predicted price
+            euint32 one = FHE.asEuint32(1);
+            euint32 zero = FHE.asEuint32(0);
+            euint32 bucket = zero;
+            for (uint256 i = 0; i < _market.params.length; i++) {
+                bucket = FHE.add(bucket, FHE.select(FHE.le(_market.params[i], _prediction), one, zero));
+            }
+            _tallyBucket(_market, bucket, _add);
+        }
+    }
+
+    /// @dev Orders the encrypted bounds of a BOUNDS prediction homomorphically and counts the upper bound into
+    /// the sum of upper bounds; returns both bounds, the upper one allowed to the game contract
+    /// @param _replacedUpper The upper bound an update replaces (uninitialized for a new prediction)
+    function tallyBounds(
+        EventMarket storage _market,
+        euint32 _first,
+        euint32 _second,
+        euint32 _replacedUpper
+    ) external returns (euint32 lower, euint32 upper) {
+        upper = FHE.max(_first, _second);
+        if (FHE.isInitialized(_replacedUpper)) {
+            _tallyUpperBound(_market, _replacedUpper, false);
+        }
+        _tallyUpperBound(_market, upper, true);
+        FHE.allowThis(upper);
+
+        return (FHE.min(_first, _second), upper);
+    }
+
+    /// @dev Adds (or subtracts) a BOUNDS prediction's upper bound to the encrypted sum of upper bounds
+    function _tallyUpperBound(EventMarket storage _market, euint32 _upper, bool _add) private {
+        if (_market.encryptedTallies.length == 0) {
+            _market.encryptedTallies.push(_upper);
+        } else if (_add) {
+            _market.encryptedTallies[0] = FHE.add(_market.encryptedTallies[0], _upper);
+        } else {
+            _market.encryptedTallies[0] = FHE.sub(_market.encryptedTallies[0], _upper);
+        }
+        FHE.allowThis(_market.encryptedTallies[0]);
+    }
+
+    /// @dev Adds (or subtracts) 1 to the encrypted counter of `_bucket` (one counter per bucket,
+    /// params.length + 1 buckets) without revealing which one: every counter is updated, only the matching one by 1
+    function _tallyBucket(EventMarket storage _market, euint32 _bucket, bool _add) private {
+        uint256 bucketCount = _market.params.length + 1;
+        for (uint256 b = 0; b < bucketCount; b++) {
+            euint32 hit = FHE.asEuint32(FHE.eq(_bucket, uint32(b)));
+            if (_market.encryptedTallies.length == b) {
+                _market.encryptedTallies.push(hit);
+            } else if (_add) {
+                _market.encryptedTallies[b] = FHE.add(_market.encryptedTallies[b], hit);
+            } else {
+                _market.encryptedTallies[b] = FHE.sub(_market.encryptedTallies[b], hit);
+            }
+            FHE.allowThis(_market.encryptedTallies[b]);
+        }
+    }
+
+    /// @dev Handles to decrypt at finalize: the encrypted prediction sum followed by the market tallies, in the
+    /// order recordResults decodes them
+    function encryptedResults(
+        EventMarket storage _market,
+        euint32 _priceSum
+    ) external view returns (bytes32[] memory cts) {
+        cts = new bytes32[](1 + _market.encryptedTallies.length);
+        cts[0] = FHE.toBytes32(_priceSum);
+        for (uint256 i = 0; i < _market.encryptedTallies.length; i++) {
+            cts[i + 1] = FHE.toBytes32(_market.encryptedTallies[i]);
+        }
+    }
+
+    /// @dev Stores the decrypted tallies as the market results and returns the average prediction
+    /// @param _cleartexts The ABI-encoded decrypted prediction sum followed by the market tallies
+    /// @param _totalPredictions Number of predictions in the sum
+    function recordResults(
+        EventMarket storage _market,
+        bytes memory _cleartexts,
+        uint32 _totalPredictions
+    ) external returns (uint32 averagePrice) {
+        require(_cleartexts.length == (1 + _market.encryptedTallies.length) * 32, "Invalid cleartexts length");
+        uint32 decryptedSum = Cleartexts.decodeWord(_cleartexts, 0);
+
+        // Calculate average price (sum / totalPredictions)
+        // Note: This is a simplified calculation. In production, consider using euint32 division
+        averagePrice = decryptedSum / _totalPredictions;
+
+        if (_market.kind == EventKind.THRESHOLD) {
+            // The sum of 0/1 predictions is the "above" count
+            _market.results.push(_totalPredictions - decryptedSum);
+            _market.results.push(decryptedSum);
+            averagePrice = 0;
+        } else if (_market.kind == EventKind.RANGE || _market.kind == EventKind.PRICE) {
+            // Per-bucket counts (none for PRICE events without a histogram)
+            for (uint256 i = 0; i < _market.encryptedTallies.length; i++) {
+                _market.results.push(Cleartexts.decodeWord(_cleartexts, i + 1));
+            }
+            if (_market.kind == EventKind.RANGE) {
+                averagePrice = 0;
+            }
+        } else if (_market.kind == EventKind.BOUNDS) {
+            uint32 averageUpper = Cleartexts.decodeWord(_cleartexts, 1) / _totalPredictions;
+            _market.results.push(averagePrice);
+            _market.results.push(averageUpper);
+            // Report the midpoint of the average bounds as the average prediction
+            averagePrice = uint32((uint256(averagePrice) + averageUpper) / 2);
+        }
+    }
+
+    /// @dev Encrypted error of a prediction against `_actualValue` (see CryptoPriceGuess.scorePredictions)
+    /// @param _upper The prediction's upper bound (BOUNDS markets only)
+    function predictionError(
+        EventMarket storage _market,
+        euint32 _prediction,
+        euint32 _upper,
+        uint32 _actualValue
+    ) external returns (euint32) {
+        return _predictionError(_market, _prediction, _upper, _actualValue);
+    }
+
+    /// @dev Encrypted rarity tier of a prediction: 0 when its error is at most the CRYSTAL threshold, 1 at most
+    /// the PREDICTION threshold and 2 otherwise (the order of CryptoBalls.BallType). Price errors are relative to
+    /// the actual price (BOUNDS errors include the width of the bounds); THRESHOLD calls must be right for tier 0,
+    /// and RANGE calls within one bucket of the outcome reach tier 1
+    /// @param _crystalErrorBps Tier 0 threshold of price errors, in basis points of the actual price
+    /// @param _predictionErrorBps Tier 1 threshold of price errors, in basis points of the actual price
+    function rarityTier(
+        EventMarket storage _market,
+        euint32 _prediction,
+        euint32 _upper,
+        uint32 _actualPrice,
+        uint256 _crystalErrorBps,
+        uint256 _predictionErrorBps
+    ) external returns (euint8) {
+        uint32 crystalMax = 0;
+        uint32 predictionMax = _market.kind == EventKind.RANGE ? 1 : 0;
+        if (_market.kind != EventKind.THRESHOLD && _market.kind != EventKind.RANGE) {
+            crystalMax = uint32((uint256(_actualPrice) * _crystalErrorBps) / 10000);
+            predictionMax = uint32((uint256(_actualPrice) * _predictionErrorBps) / 10000);
+        }
+
+        euint32 error = _predictionError(_market, _prediction, _upper, _actualOutcome(_market, _actualPrice));
+        return
+            FHE.select(
+                FHE.le(error, crystalMax),
+                FHE.asEuint8(0),
+                FHE.select(FHE.le(error, predictionMax), FHE.asEuint8(1), FHE.asEuint8(2))
+            );
+    }
+
+    function _predictionError(
+        EventMarket storage _market,
+        euint32 _prediction,
+        euint32 _upper,
+        uint32 _actualValue
+    ) private returns (euint32) {
+        if (_market.kind == EventKind.BOUNDS) {
+            return FHE.sub(FHE.max(_upper, _actualValue), FHE.min(_prediction, _actualValue));
+        }
+        // Pick the non-negative difference so the subtraction never wraps
+        return
+            FHE.select(
+                FHE.ge(_prediction, _actualValue),
+                FHE.sub(_prediction, _actualValue),
+                FHE.sub(_actualValue, _prediction)
+            );
+    }
+
+    /// @dev What predictions are scored against: the actual price, or for THRESHOLD and RANGE markets the
+    /// outcome (1 when the price ended above the threshold) or the index of the bucket the price fell in
+    function actualOutcome(EventMarket storage _market, uint32 _actualPrice) external view returns (uint32) {
+        return _actualOutcome(_market, _actualPrice);
+    }
+
+    /// @dev The outcome reported with the market results: the THRESHOLD outcome, the RANGE or PRICE histogram
+    /// bucket the actual price fell in, and 0 for BOUNDS markets
+    function reportedOutcome(EventMarket storage _market, uint32 _actualPrice) external view returns (uint32) {
+        if (_market.kind == EventKind.PRICE) {
+            return _bucketOf(_market.params, _actualPrice);
+        }
+        if (_market.kind == EventKind.BOUNDS) {
+            return 0;
+        }
+        return _actualOutcome(_market, _actualPrice);
+    }
+
+    function _actualOutcome(EventMarket storage _market, uint32 _actualPrice) private view returns (uint32) {
+        if (_market.kind == EventKind.THRESHOLD) {
+            return _actualPrice > _market.params[0] ? 1 : 0;
+        }
+        if (_market.kind == EventKind.RANGE) {
+            return _bucketOf(_market.params, _actualPrice);
+        }
+        return _actualPrice;
+    }
+
+    /// @dev Index of the bucket `_price` falls in: bucket i covers [bounds[i - 1], bounds[i])
+    function _bucketOf(uint32[] storage _bounds, uint32 _price) private view returns (uint32 bucket) {
+        while (bucket < _bounds.length && _price >= _bounds[bucket]) {
+            bucket++;
+        }
+    }
+}
@@ -0,0 +1,97 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/// @title Event pools - entry stakes and prize payouts of CryptoPriceGuess events
+/// @dev Linked into CryptoPriceGuess as an external library: its functions run through delegatecall, so stakes
+/// are pulled into and paid out of the game contract itself
+library EventPools {
+    using SafeERC20 for IERC20;
+
+    // Prize pools: every predictor pays the same entry stake, the pool is split among the closest predictors
+    struct EventPool {
+        address stakeToken; // address(0) for ETH
+        uint256 stakeAmount; // Entry stake per prediction (0 = free event)
+        uint256 totalStaked;
+        uint16[] payoutShares; // Basis points per leaderboard rank, summing to 10000
+        bool isCancelled;
+    }
+
+    uint256 internal constant MAX_PAYOUT_RANKS = 10;
+
+    /// @dev Validates the stake and payout shares and stores them
+    function create(
+        EventPool storage _pool,
+        address _stakeToken,
+        uint256 _stakeAmount,
+        uint16[] calldata _payoutShares
+    ) external {
+        require(_stakeAmount > 0, "Stake must be greater than 0");
+        require(_payoutShares.length > 0 && _payoutShares.length <= MAX_PAYOUT_RANKS, "Invalid number of payout ranks");
+
+        uint256 totalShares = 0;
+        for (uint256 i = 0; i < _payoutShares.length; i++) {
+            totalShares += _payoutShares[i];
+        }
+        require(totalShares == 10000, "Payout shares must sum to 10000");
+
+        _pool.stakeToken = _stakeToken;
+        _pool.stakeAmount = _stakeAmount;
+        _pool.payoutShares = _payoutShares;
+    }
+
+    /// @dev Records the caller's entry stake, pulling ERC-20 stakes; returns the ETH owed
+    function collect(EventPool storage _pool) external returns (uint256) {
+        _pool.totalStaked += _pool.stakeAmount;
+
+        if (_pool.stakeToken == address(0)) {
+            return _pool.stakeAmount;
+        }
+        IERC20(_pool.stakeToken).safeTransferFrom(msg.sender, address(this), _pool.stakeAmount);
+        return 0;
+    }
+
+    /// @dev Pool share of the predictor at `_rank` of the leaderboard. When there are fewer predictors than
+    /// paid ranks, the unused shares are spread over the paid ones; rounding dust goes to the winner.
+    function winningsOf(
+        EventPool storage _pool,
+        uint256 _rank,
+        uint256 _predictorCount
+    ) external view returns (uint256) {
+        uint256 paidRanks = _pool.payoutShares.length;
+        if (_predictorCount < paidRanks) {
+            paidRanks = _predictorCount;
+        }
+
+        if (_rank >= paidRanks) {
+            return 0;
+        }
+
+        uint256 paidShares = 0;
+        for (uint256 i = 0; i < paidRanks; i++) {
+            paidShares += _pool.payoutShares[i];
+        }
+
+        uint256 amount = (_pool.totalStaked * _pool.payoutShares[_rank]) / paidShares;
+        if (_rank == 0) {
+            uint256 distributed = 0;
+            for (uint256 i = 0; i < paidRanks; i++) {
+                distributed += (_pool.totalStaked * _pool.payoutShares[i]) / paidShares;
+            }
+            amount += _pool.totalStaked - distributed;
+        }
+        return amount;
+    }
+
+    /// @dev Pays `_amount` of the pool's stake token (ETH for address(0)) to `_to`
+    function pay(EventPool storage _pool, address _to, uint256 _amount) external {
+        if (_pool.stakeToken == address(0)) {
+            (bool sent, ) = payable(_to).call{value: _amount}("");
+            require(sent, "ETH transfer failed");
+        } else {
+            IERC20(_pool.stakeToken).safeTransfer(_to, _amount);
+        }
+    }
+}
@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {Cleartexts} from "./Cleartexts.sol";
+
+/// @title Leaderboards - homomorphic ranking of the predictors of a CryptoPriceGuess event
+/// @dev Linked into CryptoPriceGuess as an external library: its functions run through delegatecall, so the
+/// encrypted ranks are stored and ACL-allowed for the game contract itself. Predictors are ranked in the
+/// order of the event's predictor list, and a rank is the number of predictors ranked ahead
+library Leaderboards {
+    /// @dev Stores the encrypted error of the `_index`-th predictor, who can decrypt it, and ranks them against
+    /// the predictors scored before them: the smaller error moves ahead, ties go to the predictor listed first
+    function rank(
+        mapping(address => euint32) storage _errors,
+        mapping(address => euint32) storage _ranks,
+        address[] storage _predictors,
+        uint256 _index,
+        euint32 _error
+    ) external {
+        address user = _predictors[_index];
+        _errors[user] = _error;
+        FHE.allowThis(_error);
+        FHE.allow(_error, user);
+
+        euint32 rank_ = FHE.asEuint32(0);
+        for (uint256 j = 0; j < _index; j++) {
+            address other = _predictors[j];
+            ebool isAhead = FHE.lt(_error, _errors[other]);
+
+            _ranks[other] = FHE.add(_ranks[other], FHE.asEuint32(isAhead));
+            FHE.allowThis(_ranks[other]);
+            rank_ = FHE.add(rank_, FHE.asEuint32(FHE.not(isAhead)));
+        }
+
+        _ranks[user] = rank_;
+        FHE.allowThis(rank_);
+    }
+
+    /// @dev Handles of the predictors' encrypted ranks, in `_predictors` order, for a decryption request
+    function encryptedRanks(
+        mapping(address => euint32) storage _ranks,
+        address[] storage _predictors
+    ) external view returns (bytes32[] memory cts) {
+        cts = new bytes32[](_predictors.length);
+        for (uint256 i = 0; i < _predictors.length; i++) {
+            cts[i] = FHE.toBytes32(_ranks[_predictors[i]]);
+        }
+    }
+
+    /// @dev Stores the decrypted ranks and returns the predictor ranked first
+    /// @param _cleartexts One ABI-encoded uint32 rank per predictor, in `_predictors` order
+    function recordRanks(
+        mapping(address => uint32) storage _revealedRanks,
+        address[] storage _predictors,
+        bytes memory _cleartexts
+    ) external returns (address winner) {
+        require(_cleartexts.length == _predictors.length * 32, "Invalid cleartexts length");
+
+        for (uint256 i = 0; i < _predictors.length; i++) {
+            uint32 rank_ = Cleartexts.decodeWord(_cleartexts, i);
+            _revealedRanks[_predictors[i]] = rank_;
+
+            if (rank_ == 0) {
+                winner = _predictors[i];
+            }
+        }
+    }
+
+    /// @dev The predictors sorted by their revealed rank (ranks are a permutation of the predictor indexes)
+    function sorted(
+        mapping(address => uint32) storage _revealedRanks,
+        address[] storage _predictors
+    ) external view returns (address[] memory predictors) {
+        predictors = new address[](_predictors.length);
+        for (uint256 i = 0; i < _predictors.length; i++) {
+            predictors[_revealedRanks[_predictors[i]]] = _predictors[i];
+        }
+    }
+}
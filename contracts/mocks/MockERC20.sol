@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title Mock ERC-20 used as a stake token in tests
+contract MockERC20 is ERC20 {
+    constructor(string memory _name, string memory _symbol) ERC20(_name, _symbol) {}
+
+    /// @notice Mint tokens to any address (test only)
+    function mint(address _to, uint256 _amount) external {
+        _mint(_to, _amount);
+    }
+}
@@ -1,16 +1,125 @@
+import * as fs from "fs";
+import * as path from "path";
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+// Per-chain manifest read by the UI (ui/src/abi/CryptoPriceGuessAddresses.ts)
+const MANIFEST_PATH = path.resolve(__dirname, "..", "ui", "src", "abi", "CryptoPriceGuessDeployments.json");
+
+type DeploymentManifestEntry = {
+  chainId: number;
+  chainName: string;
+  address: string;
+  deploymentBlock: number;
+  ballsAddress: string;
+  vaultAddress: string;
+  priceFeedAddress: string;
+  statsAddress: string;
+  marketplaceAddress: string;
+  auctionAddress: string;
+};
+
+function writeDeploymentManifest(entry: DeploymentManifestEntry) {
+  const manifest: Record<string, DeploymentManifestEntry> = fs.existsSync(MANIFEST_PATH)
+    ? JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf-8"))
+    : {};
+
+  manifest[String(entry.chainId)] = entry;
+
+  const sorted = Object.fromEntries(Object.entries(manifest).sort(([a], [b]) => Number(a) - Number(b)));
+  fs.writeFileSync(MANIFEST_PATH, JSON.stringify(sorted, null, 2) + "\n", "utf-8");
+}
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute } = hre.deployments;
+
+  const deployedBalls = await deploy("CryptoBalls", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`CryptoBalls contract: `, deployedBalls.address);
+
+  const deployedPriceFeed = await deploy("CryptoPriceFeed", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`CryptoPriceFeed contract: `, deployedPriceFeed.address);
+
+  // External libraries linked into CryptoPriceGuess to keep it under the contract size limit
+  const libraries: Record<string, string> = {};
+  for (const library of ["EventMarkets", "EventPools", "Leaderboards"]) {
+    libraries[library] = (await deploy(library, { from: deployer, log: true })).address;
+  }
 
   const deployedCryptoPriceGuess = await deploy("CryptoPriceGuess", {
     from: deployer,
+    args: [deployedBalls.address, deployedPriceFeed.address],
+    libraries,
     log: true,
   });
 
   console.log(`CryptoPriceGuess contract: `, deployedCryptoPriceGuess.address);
+
+  // Prediction balls are minted by the game
+  await execute("CryptoBalls", { from: deployer, log: true }, "setMinter", deployedCryptoPriceGuess.address);
+
+  const deployedStats = await deploy("CryptoPriceGuessStats", {
+    from: deployer,
+    args: [deployedCryptoPriceGuess.address],
+    log: true,
+  });
+
+  console.log(`CryptoPriceGuessStats contract: `, deployedStats.address);
+
+  const deployedVault = await deploy("CryptoVault", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`CryptoVault contract: `, deployedVault.address);
+
+  const deployedMarketplace = await deploy("CryptoBallMarketplace", {
+    from: deployer,
+    args: [deployedBalls.address],
+    log: true,
+  });
+
+  console.log(`CryptoBallMarketplace contract: `, deployedMarketplace.address);
+
+  const deployedAuction = await deploy("CryptoBallAuction", {
+    from: deployer,
+    args: [deployedBalls.address],
+    log: true,
+  });
+
+  console.log(`CryptoBallAuction contract: `, deployedAuction.address);
+
+  // Reused deployments may come back without a receipt, so fall back to the deployment tx
+  let deploymentBlock = deployedCryptoPriceGuess.receipt?.blockNumber;
+  if (deploymentBlock === undefined && deployedCryptoPriceGuess.transactionHash) {
+    const receipt = await hre.ethers.provider.getTransactionReceipt(deployedCryptoPriceGuess.transactionHash);
+    deploymentBlock = receipt?.blockNumber;
+  }
+
+  const chainId = Number(await hre.getChainId());
+  writeDeploymentManifest({
+    chainId,
+    // `npx hardhat node` deploys on the in-process "hardhat" network but serves it as localhost
+    chainName: hre.network.name === "hardhat" ? "localhost" : hre.network.name,
+    address: deployedCryptoPriceGuess.address,
+    deploymentBlock: deploymentBlock ?? 0,
+    ballsAddress: deployedBalls.address,
+    vaultAddress: deployedVault.address,
+    priceFeedAddress: deployedPriceFeed.address,
+    statsAddress: deployedStats.address,
+    marketplaceAddress: deployedMarketplace.address,
+    auctionAddress: deployedAuction.address,
+  });
+
+  console.log(`CryptoPriceGuess manifest updated for chain ${chainId}: ${MANIFEST_PATH}`);
 };
 export default func;
 func.id = "deploy_cryptoPriceGuess"; // id required to prevent reexecution
@@ -11,6 +11,9 @@ import "solidity-coverage";
 
 import "./tasks/accounts";
 import "./tasks/FHECounter";
+import "./tasks/CryptoPriceGuess";
+import "./tasks/CryptoBallAuction";
+import "./tasks/CryptoVault";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -79,6 +82,9 @@ const config: HardhatUserConfig = {
         runs: 800,
       },
       evmVersion: "cancun",
+      // The filtered views (CryptoPriceGuessStats.getFilteredEvents, CryptoBalls.getFilteredUserBalls) need
+      // the IR pipeline to avoid "stack too deep"
+      viaIR: true,
     },
   },
   typechain: {
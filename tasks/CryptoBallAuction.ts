@@ -0,0 +1,299 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Auction a CryptoBall with sealed bids (--network localhost)
+ * =====================================================================
+ *
+ * 1. Deploy the contracts and claim a ball (see tasks/CryptoPriceGuess.ts), then put it up for
+ *    auction with an optional reserve price in ETH and a bidding period in hours:
+ *
+ *   npx hardhat --network localhost task:auction-create --ball 0 --reserve 0.1 --duration 24
+ *
+ * 2. Bid from other accounts. The bid is encrypted; --deposit is the public ETH sent with it and
+ *    must cover the bid (deposit more than you bid to hide it, the rest is refunded):
+ *
+ *   npx hardhat --network localhost task:auction-bid --auction 0 --bid 0.25 --deposit 1 --signer 1
+ *   npx hardhat --network localhost task:auction-bid --auction 0 --bid 0.4 --deposit 0.5 --signer 2
+ *   npx hardhat --network localhost task:auction-decrypt-bid --auction 0 --signer 1
+ *
+ * 3. Once bidding has ended (`evm_increaseTime` on localhost), close the auction. Only the winning
+ *    bid and bidder are decrypted; everyone then reclaims their deposit and the seller withdraws:
+ *
+ *   npx hardhat --network localhost task:auction-close --auction 0
+ *   npx hardhat --network localhost task:auction-refund --auction 0 --signer 1
+ *   npx hardhat --network localhost task:auction-withdraw
+ *   npx hardhat --network localhost task:auction-list
+ *
+ * On Sepolia, `task:auction-close` only submits the decryption request; the relayer settles the
+ * auction later, re-run `task:auction-list` to see the result.
+ *
+ */
+
+const AUCTION_STATUSES = ["open", "revealing", "settled", "cancelled"];
+
+async function getCryptoBallAuction(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const { ethers, deployments } = hre;
+
+  const CryptoBallAuctionDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("CryptoBallAuction");
+  console.log(`CryptoBallAuction: ${CryptoBallAuctionDeployment.address}`);
+
+  const contract = await ethers.getContractAt("CryptoBallAuction", CryptoBallAuctionDeployment.address);
+
+  return { contract, address: CryptoBallAuctionDeployment.address };
+}
+
+async function getSigner(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const signers = await hre.ethers.getSigners();
+
+  const index = taskArguments.signer !== undefined ? parseInt(taskArguments.signer) : 0;
+  if (!Number.isInteger(index) || index < 0 || index >= signers.length) {
+    throw new Error(`Argument --signer must be an index between 0 and ${signers.length - 1}`);
+  }
+
+  return signers[index];
+}
+
+function parseId(value: string, argument: string): number {
+  const id = parseInt(value);
+  if (!Number.isInteger(id) || id < 0) {
+    throw new Error(`Argument --${argument} is not a valid id`);
+  }
+  return id;
+}
+
+// ETH (e.g. "0.25") -> wei
+function parseEth(value: string, argument: string, hre: HardhatRuntimeEnvironment): bigint {
+  if (!Number.isFinite(Number(value)) || Number(value) < 0) {
+    throw new Error(`Argument --${argument} is not a valid ETH amount`);
+  }
+  return hre.ethers.parseEther(value);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction-create --ball 0 --duration 24
+ *   - npx hardhat --network sepolia task:auction-create --ball 3 --reserve 0.05 --duration 48
+ */
+task("task:auction-create", "Calls the createAuction() function of CryptoBallAuction Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoBallAuction contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("ball", "The ball id")
+  .addOptionalParam("reserve", "Minimum winning bid in ETH", "0")
+  .addOptionalParam("duration", "Bidding period in hours", "24")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const ballId = parseId(taskArguments.ball, "ball");
+    const reservePrice = parseEth(taskArguments.reserve, "reserve", hre);
+    const hours = Number(taskArguments.duration);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      throw new Error(`Argument --duration is not a positive number of hours`);
+    }
+
+    const { contract, address } = await getCryptoBallAuction(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    // The auction escrows the ball, so it needs an approval first
+    const balls = await hre.ethers.getContractAt("CryptoBalls", await contract.balls());
+    if ((await balls.getApproved(ballId)) !== address && !(await balls.isApprovedForAll(signer.address, address))) {
+      const approveTx = await balls.connect(signer).approve(address, ballId);
+      console.log(`Wait for approval tx:${approveTx.hash}...`);
+      await approveTx.wait();
+    }
+
+    const auctionId = await contract.getAuctionCount();
+    const tx = await contract.connect(signer).createAuction(ballId, reservePrice, Math.round(hours * 3600));
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Ball #${ballId} is up for auction #${auctionId}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction-bid --auction 0 --bid 0.25 --signer 1
+ *   - npx hardhat --network sepolia task:auction-bid --auction 0 --bid 0.25 --deposit 1
+ */
+task("task:auction-bid", "Calls the placeBid() function of CryptoBallAuction Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoBallAuction contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("auction", "The auction id")
+  .addParam("bid", "The bid in ETH (encrypted before it is sent)")
+  .addOptionalParam("deposit", "Public ETH deposit covering the bid (defaults to the bid)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const auctionId = parseId(taskArguments.auction, "auction");
+    const bid = parseEth(taskArguments.bid, "bid", hre);
+    const deposit = parseEth(taskArguments.deposit ?? taskArguments.bid, "deposit", hre);
+    if (deposit < bid) {
+      throw new Error(`Argument --deposit must cover the bid, a larger bid would count as zero`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { contract, address } = await getCryptoBallAuction(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const encrypted = await fhevm.createEncryptedInput(address, signer.address).add64(bid).encrypt();
+
+    const tx = await contract
+      .connect(signer)
+      .placeBid(auctionId, encrypted.handles[0], encrypted.inputProof, { value: deposit });
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`${signer.address} placed a sealed bid on auction #${auctionId}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction-decrypt-bid --auction 0 --signer 1
+ */
+task("task:auction-decrypt-bid", "Decrypts the signer's own bid via getEncryptedBid()")
+  .addOptionalParam("address", "Optionally specify the CryptoBallAuction contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("auction", "The auction id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const auctionId = parseId(taskArguments.auction, "auction");
+
+    await fhevm.initializeCLIApi();
+
+    const { contract, address } = await getCryptoBallAuction(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const encryptedBid = await contract.getEncryptedBid(auctionId, signer.address);
+    const clearBid = await fhevm.userDecryptEuint(FhevmType.euint64, encryptedBid, address, signer);
+    console.log(`Encrypted bid: ${encryptedBid}`);
+    console.log(`Clear bid    : ${hre.ethers.formatEther(clearBid)} ETH (0 if it exceeded the deposit)`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction-close --auction 0
+ *   - npx hardhat --network sepolia task:auction-close --auction 0
+ */
+task("task:auction-close", "Calls the closeAuction() function of CryptoBallAuction Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoBallAuction contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("auction", "The auction id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const auctionId = parseId(taskArguments.auction, "auction");
+
+    await fhevm.initializeCLIApi();
+
+    const { contract } = await getCryptoBallAuction(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).closeAuction(auctionId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (!fhevm.isMock) {
+      console.log(`Decryption requested for auction #${auctionId}, the oracle will settle it asynchronously.`);
+      return;
+    }
+
+    // The mock oracle only answers when asked to
+    await fhevm.awaitDecryptionOracle();
+
+    const auction = await contract.getAuction(auctionId);
+    console.log(`Status     : ${AUCTION_STATUSES[Number(auction.status)]}`);
+    if (auction.winner === hre.ethers.ZeroAddress) {
+      console.log(`No sale, ball #${auction.ballId} returned to ${auction.seller}`);
+    } else {
+      console.log(`Winner     : ${auction.winner}`);
+      console.log(`Winning bid: ${hre.ethers.formatEther(auction.winningBid)} ETH`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction-refund --auction 0 --signer 1
+ */
+task("task:auction-refund", "Calls the claimRefund() function of CryptoBallAuction Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoBallAuction contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("auction", "The auction id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const auctionId = parseId(taskArguments.auction, "auction");
+
+    const { contract } = await getCryptoBallAuction(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const amount = await contract.deposits(auctionId, signer.address);
+
+    const tx = await contract.connect(signer).claimRefund(auctionId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`${signer.address} refunded ${hre.ethers.formatEther(amount)} ETH from auction #${auctionId}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction-withdraw
+ */
+task("task:auction-withdraw", "Calls the withdraw() function of CryptoBallAuction Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoBallAuction contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getCryptoBallAuction(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const amount = await contract.pendingWithdrawals(signer.address);
+
+    const tx = await contract.connect(signer).withdraw();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`${signer.address} withdrew ${hre.ethers.formatEther(amount)} ETH of proceeds and royalties`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction-list
+ *   - npx hardhat --network sepolia task:auction-list
+ */
+task("task:auction-list", "Lists all CryptoBallAuction auctions")
+  .addOptionalParam("address", "Optionally specify the CryptoBallAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getCryptoBallAuction(taskArguments, hre);
+
+    const auctionCount = Number(await contract.getAuctionCount());
+    if (auctionCount === 0) {
+      console.log("No auctions");
+      return;
+    }
+
+    for (let auctionId = 0; auctionId < auctionCount; auctionId++) {
+      const auction = await contract.getAuction(auctionId);
+      const endTime = new Date(Number(auction.endTime) * 1000).toISOString();
+
+      console.log(`#${auctionId} ball #${auction.ballId} ${AUCTION_STATUSES[Number(auction.status)]}`);
+      console.log(`    seller      : ${auction.seller}`);
+      console.log(`    reserve     : ${hre.ethers.formatEther(auction.reservePrice)} ETH`);
+      console.log(`    bids        : ${auction.bidCount}`);
+      console.log(`    ends at     : ${endTime}`);
+      if (auction.winner !== hre.ethers.ZeroAddress) {
+        console.log(`    winner      : ${auction.winner}`);
+        console.log(`    winning bid : ${hre.ethers.formatEther(auction.winningBid)} ETH`);
+      }
+    }
+  });
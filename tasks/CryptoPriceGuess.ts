@@ -0,0 +1,1050 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Run a CryptoPriceGuess event from the CLI (--network localhost)
+ * =========================================================================
+ *
+ * 1. From a separate terminal window:
+ *
+ *   npx hardhat node
+ *
+ * 2. Deploy the CryptoPriceGuess contract
+ *
+ *   npx hardhat --network localhost deploy
+ *
+ * 3. Run an event end to end (prices are in USD, stored on-chain as USD * the asset's price scale,
+ *    i.e. cents for the BTC and ETH assets the contract is deployed with)
+ *
+ *   npx hardhat --network localhost task:cpg-create --title "BTC end of week" --asset BTC --target 1767225600 --duration 1
+ *   npx hardhat --network localhost task:cpg-submit --event 0 --price 98500.50
+ *   npx hardhat --network localhost task:cpg-submit --event 0 --price 101000 --signer 1
+ *   npx hardhat --network localhost task:cpg-decrypt-prediction --event 0
+ *   npx hardhat --network localhost task:cpg-update --event 0 --price 99000
+ *   npx hardhat --network localhost task:cpg-withdraw --event 0 --signer 1
+ *   npx hardhat --network localhost task:cpg-end --event 0
+ *   npx hardhat --network localhost task:cpg-set-price --event 0 --price 99750
+ *   npx hardhat --network localhost task:cpg-finalize --event 0
+ *   npx hardhat --network localhost task:cpg-score --event 0
+ *   npx hardhat --network localhost task:cpg-reveal-leaderboard --event 0
+ *   npx hardhat --network localhost task:cpg-events
+ *
+ * Staked events take an entry stake from every predictor and pay the pool out to the closest
+ * predictors once the leaderboard is revealed (or refund everyone if the event is cancelled):
+ *
+ *   npx hardhat --network localhost task:cpg-create --title "ETH pool" --asset ETH --target 1767225600 --stake 0.01 --payout 6000,3000,1000
+ *   npx hardhat --network localhost task:cpg-submit --event 1 --price 3450
+ *   npx hardhat --network localhost task:cpg-claim --event 1
+ *   npx hardhat --network localhost task:cpg-cancel --event 1
+ *   npx hardhat --network localhost task:cpg-refund --event 1
+ *
+ * Besides point prices, events can be threshold (above/below), range (bucket) or bounds markets:
+ *
+ *   npx hardhat --network localhost task:cpg-create --title "BTC over 100k?" --target 1767225600 --kind threshold --threshold 100000
+ *   npx hardhat --network localhost task:cpg-submit --event 2 --side above
+ *   npx hardhat --network localhost task:cpg-create --title "BTC range" --target 1767225600 --kind range --buckets 90000,110000
+ *   npx hardhat --network localhost task:cpg-submit --event 3 --bucket 1
+ *   npx hardhat --network localhost task:cpg-create --title "BTC bounds" --target 1767225600 --kind bounds
+ *   npx hardhat --network localhost task:cpg-submit --event 4 --lower 97000 --upper 103000
+ *
+ * Other assets are listed in the CryptoPriceFeed registry by its admin before events can use them:
+ *
+ *   npx hardhat --network localhost task:cpg-add-asset --symbol SOL --decimals 9
+ *   npx hardhat --network localhost task:cpg-update-price --asset SOL --price 172.50
+ *   npx hardhat --network localhost task:cpg-assets
+ *
+ * On localhost, `evm_increaseTime` (e.g. via `npx hardhat console`) is needed to get past
+ * the end time and target date before ending the event and setting the actual price.
+ *
+ *
+ * Tutorial: Run a CryptoPriceGuess event on Sepolia (--network sepolia)
+ * ====================================================================
+ *
+ * Same commands with `--network sepolia`. `task:cpg-finalize` only submits the decryption
+ * request there; the relayer calls back later, re-run `task:cpg-events` to see the result.
+ *
+ */
+
+async function getCryptoPriceGuess(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const { ethers, deployments } = hre;
+
+  const CryptoPriceGuessDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("CryptoPriceGuess");
+  console.log(`CryptoPriceGuess: ${CryptoPriceGuessDeployment.address}`);
+
+  const contract = await ethers.getContractAt("CryptoPriceGuess", CryptoPriceGuessDeployment.address);
+
+  return { contract, address: CryptoPriceGuessDeployment.address };
+}
+
+async function getSigner(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const signers = await hre.ethers.getSigners();
+
+  const index = taskArguments.signer !== undefined ? parseInt(taskArguments.signer) : 0;
+  if (!Number.isInteger(index) || index < 0 || index >= signers.length) {
+    throw new Error(`Argument --signer must be an index between 0 and ${signers.length - 1}`);
+  }
+
+  return signers[index];
+}
+
+function parseEventId(value: string): number {
+  const eventId = parseInt(value);
+  if (!Number.isInteger(eventId) || eventId < 0) {
+    throw new Error(`Argument --event is not a valid event id`);
+  }
+  return eventId;
+}
+
+type CryptoPriceGuessContract = Awaited<ReturnType<typeof getCryptoPriceGuess>>["contract"];
+
+// Assets and their prices are registered in the CryptoPriceFeed the game was deployed with
+async function getPriceFeed(contract: CryptoPriceGuessContract, hre: HardhatRuntimeEnvironment) {
+  return hre.ethers.getContractAt("CryptoPriceFeed", await contract.priceFeed());
+}
+
+type CryptoPriceFeedContract = Awaited<ReturnType<typeof getPriceFeed>>;
+
+type RegisteredAsset = { assetId: number; symbol: string; priceScale: number; isActive: boolean };
+
+async function getAsset(priceFeed: CryptoPriceFeedContract, assetId: number | bigint): Promise<RegisteredAsset> {
+  const asset = await priceFeed.assets(assetId);
+  return {
+    assetId: Number(assetId),
+    symbol: asset.symbol,
+    priceScale: Number(asset.priceScale),
+    isActive: asset.isActive,
+  };
+}
+
+// --asset accepts a registry symbol ("SOL") or id ("2")
+async function resolveAsset(priceFeed: CryptoPriceFeedContract, value: string): Promise<RegisteredAsset> {
+  const assetId = /^\d+$/.test(value) ? BigInt(value) : await priceFeed.getAssetIdBySymbol(value.toUpperCase());
+  if (assetId >= (await priceFeed.getAssetCount())) {
+    throw new Error(`Argument --asset is not a registered asset`);
+  }
+  return getAsset(priceFeed, assetId);
+}
+
+async function getEventAsset(
+  contract: CryptoPriceGuessContract,
+  hre: HardhatRuntimeEnvironment,
+  eventId: number,
+): Promise<RegisteredAsset> {
+  const event_ = await contract.getPredictionEvent(eventId);
+  return getAsset(await getPriceFeed(contract, hre), event_.assetId);
+}
+
+// USD (e.g. "98500.50") -> USD * priceScale, the unit used by the contract (cents at scale 100)
+function parseUsdPrice(value: string, priceScale: number, argument = "price"): number {
+  const usd = Number(value);
+  if (!Number.isFinite(usd) || usd <= 0) {
+    throw new Error(`Argument --${argument} is not a positive number`);
+  }
+  return Math.round(usd * priceScale);
+}
+
+function formatUsdPrice(amount: bigint | number, priceScale: number): string {
+  const fractionDigits = String(priceScale).length - 1;
+  return `$${(Number(amount) / priceScale).toFixed(fractionDigits)}`;
+}
+
+// Index = CryptoPriceGuess.EventKind
+const MARKET_KINDS = ["price", "threshold", "range", "bounds"] as const;
+
+const KIND_PRICE = 0;
+const KIND_THRESHOLD = 1;
+const KIND_RANGE = 2;
+const KIND_BOUNDS = 3;
+
+function parseMarketKind(value: string): number {
+  const kind = MARKET_KINDS.indexOf(String(value).toLowerCase() as (typeof MARKET_KINDS)[number]);
+  if (kind < 0) {
+    throw new Error(`Argument --kind must be one of ${MARKET_KINDS.join(", ")}`);
+  }
+  return kind;
+}
+
+// --threshold / --buckets (USD) -> the contract's market params (USD * priceScale). On price events,
+// --buckets is optional and sets the bounds of the prediction histogram
+function parseMarketParams(taskArguments: TaskArguments, kind: number, priceScale: number): number[] {
+  if (kind === KIND_THRESHOLD) {
+    if (taskArguments.threshold === undefined) {
+      throw new Error(`Threshold markets need --threshold`);
+    }
+    return [parseUsdPrice(taskArguments.threshold, priceScale, "threshold")];
+  }
+  if (kind === KIND_RANGE || (kind === KIND_PRICE && taskArguments.buckets !== undefined)) {
+    if (taskArguments.buckets === undefined) {
+      throw new Error(`Range markets need --buckets`);
+    }
+    return String(taskArguments.buckets)
+      .split(",")
+      .map((bound) => parseUsdPrice(bound, priceScale, "buckets"));
+  }
+  return [];
+}
+
+// Ascending bounds [b0, b1] -> ["< b0", "b0 - b1", ">= b1"]
+function formatBuckets(bounds: readonly bigint[], priceScale: number): string[] {
+  const labels = bounds.map((bound, i) =>
+    i === 0
+      ? `< ${formatUsdPrice(bound, priceScale)}`
+      : `${formatUsdPrice(bounds[i - 1], priceScale)} - ${formatUsdPrice(bound, priceScale)}`,
+  );
+  labels.push(`>= ${formatUsdPrice(bounds[bounds.length - 1], priceScale)}`);
+  return labels;
+}
+
+// Prints the market kind, its parameters and, once finalized, its results
+async function printMarket(contract: CryptoPriceGuessContract, eventId: number, priceScale: number, indent = "") {
+  const market = await contract.getEventMarket(eventId);
+  const kind = Number(market.kind);
+  console.log(`${indent}market      : ${MARKET_KINDS[kind]}`);
+
+  if (kind === KIND_THRESHOLD) {
+    console.log(`${indent}threshold   : ${formatUsdPrice(market.params[0], priceScale)}`);
+    if (market.results.length > 0) {
+      console.log(`${indent}below/above : ${market.results[0]} / ${market.results[1]}`);
+    }
+  } else if (kind === KIND_RANGE || (kind === KIND_PRICE && market.params.length > 0)) {
+    const labels = formatBuckets(market.params, priceScale);
+    labels.forEach((label, i) => {
+      const count = market.results.length > 0 ? ` (${market.results[i]})` : "";
+      console.log(`${indent}bucket ${i}    : ${label}${count}`);
+    });
+  } else if (kind === KIND_BOUNDS && market.results.length > 0) {
+    console.log(
+      `${indent}avg bounds  : ${formatUsdPrice(market.results[0], priceScale)} - ` +
+        formatUsdPrice(market.results[1], priceScale),
+    );
+  }
+}
+
+// Encrypts the prediction arguments of cpg-submit/cpg-update for the event's market kind: --price (price),
+// --side (threshold), --bucket (range) or --lower/--upper (bounds, two values under one proof)
+async function encryptPrediction(
+  taskArguments: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+  contract: CryptoPriceGuessContract,
+  address: string,
+  signerAddress: string,
+  eventId: number,
+) {
+  const asset = await getEventAsset(contract, hre, eventId);
+  const market = await contract.getEventMarket(eventId);
+  const kind = Number(market.kind);
+
+  const input = hre.fhevm.createEncryptedInput(address, signerAddress);
+  if (kind === KIND_THRESHOLD) {
+    if (taskArguments.side !== "above" && taskArguments.side !== "below") {
+      throw new Error(`Threshold markets need --side above or --side below`);
+    }
+    input.add32(taskArguments.side === "above" ? 1 : 0);
+  } else if (kind === KIND_RANGE) {
+    const bucket = parseInt(taskArguments.bucket);
+    if (!Number.isInteger(bucket) || bucket < 0 || bucket > market.params.length) {
+      throw new Error(`Argument --bucket must be a bucket index between 0 and ${market.params.length}`);
+    }
+    input.add32(bucket);
+  } else if (kind === KIND_BOUNDS) {
+    if (taskArguments.lower === undefined || taskArguments.upper === undefined) {
+      throw new Error(`Bounds markets need --lower and --upper`);
+    }
+    input.add32(parseUsdPrice(taskArguments.lower, asset.priceScale, "lower"));
+    input.add32(parseUsdPrice(taskArguments.upper, asset.priceScale, "upper"));
+  } else {
+    if (taskArguments.price === undefined) {
+      throw new Error(`Price markets need --price`);
+    }
+    input.add32(parseUsdPrice(taskArguments.price, asset.priceScale));
+  }
+
+  return { kind, encrypted: await input.encrypt() };
+}
+
+// "6000,3000,1000" -> [6000, 3000, 1000], basis points per leaderboard rank
+function parsePayoutShares(value: string): number[] {
+  const shares = String(value)
+    .split(",")
+    .map((share) => parseInt(share));
+  if (shares.some((share) => !Number.isInteger(share) || share <= 0)) {
+    throw new Error(`Argument --payout must be a comma separated list of positive basis points`);
+  }
+  return shares;
+}
+
+// ETH pools (stakeToken = 0x0) use 18 decimals, ERC-20 pools use the token's own decimals
+async function getStakeUnit(stakeToken: string, hre: HardhatRuntimeEnvironment) {
+  if (stakeToken === hre.ethers.ZeroAddress) {
+    return { symbol: "ETH", decimals: 18 };
+  }
+  const token = await hre.ethers.getContractAt("IERC20Metadata", stakeToken);
+  return { symbol: await token.symbol(), decimals: Number(await token.decimals()) };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-address
+ *   - npx hardhat --network sepolia task:cpg-address
+ */
+task("task:cpg-address", "Prints the CryptoPriceGuess address").setAction(async function (
+  _taskArguments: TaskArguments,
+  hre,
+) {
+  const { deployments } = hre;
+
+  const cryptoPriceGuess = await deployments.get("CryptoPriceGuess");
+
+  console.log("CryptoPriceGuess address is " + cryptoPriceGuess.address);
+});
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-create --title "BTC weekly" --asset BTC --target 1767225600 --duration 24
+ *   - npx hardhat --network sepolia task:cpg-create --title "ETH weekly" --asset ETH --target 1767225600 --duration 24
+ *   - npx hardhat --network localhost task:cpg-create --title "BTC pool" --asset BTC --target 1767225600 --stake 0.01 --payout 7000,3000
+ *   - npx hardhat --network localhost task:cpg-create --title "BTC over 100k?" --target 1767225600 --kind threshold --threshold 100000
+ *   - npx hardhat --network localhost task:cpg-create --title "BTC range" --target 1767225600 --kind range --buckets 90000,100000,110000
+ *   - npx hardhat --network localhost task:cpg-create --title "BTC bounds" --target 1767225600 --kind bounds
+ *   - npx hardhat --network localhost task:cpg-create --title "BTC weekly" --target 1767225600 --buckets 90000,100000,110000
+ */
+task(
+  "task:cpg-create",
+  "Calls the createPredictionEvent() (createMarketEvent() with --kind, the staked variant with --stake) function of CryptoPriceGuess Contract",
+)
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("title", "The event title")
+  .addOptionalParam("asset", "Symbol or id of the registered asset to predict", "BTC")
+  .addParam("target", "The target date as a unix timestamp (seconds)")
+  .addOptionalParam("duration", "How long predictions are accepted, in hours", "24")
+  .addOptionalParam("stake", "Entry stake per prediction, in ETH or whole stake tokens (makes a staked event)")
+  .addOptionalParam("stakeToken", "ERC-20 used for the stake (defaults to ETH)")
+  .addOptionalParam("payout", "Pool share per leaderboard rank in basis points", "10000")
+  .addOptionalParam("kind", `Market kind: ${MARKET_KINDS.join(", ")}`, "price")
+  .addOptionalParam("threshold", "Threshold price in USD (threshold markets)")
+  .addOptionalParam(
+    "buckets",
+    "Comma separated ascending bucket bounds in USD (range markets, or the histogram of price events)",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const kind = parseMarketKind(taskArguments.kind);
+
+    const targetDate = parseInt(taskArguments.target);
+    if (!Number.isInteger(targetDate)) {
+      throw new Error(`Argument --target is not an integer`);
+    }
+
+    const duration = parseInt(taskArguments.duration);
+    if (!Number.isInteger(duration) || duration <= 0) {
+      throw new Error(`Argument --duration is not a positive integer`);
+    }
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const asset = await resolveAsset(await getPriceFeed(contract, hre), String(taskArguments.asset));
+    const marketParams = parseMarketParams(taskArguments, kind, asset.priceScale);
+    const eventId = await contract.getEventCount();
+
+    if (taskArguments.stake === undefined) {
+      const tx =
+        kind === KIND_PRICE && marketParams.length === 0
+          ? await contract
+              .connect(signer)
+              .createPredictionEvent(taskArguments.title, asset.assetId, targetDate, duration)
+          : await contract
+              .connect(signer)
+              .createMarketEvent(taskArguments.title, asset.assetId, targetDate, duration, kind, marketParams);
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(
+        `CryptoPriceGuess ${MARKET_KINDS[kind]} event #${eventId} created (${asset.symbol}, ${duration}h window)`,
+      );
+      return;
+    }
+
+    const stakeToken = taskArguments.stakeToken ?? ethers.ZeroAddress;
+    if (!ethers.isAddress(stakeToken)) {
+      throw new Error(`Argument --stakeToken is not a valid address`);
+    }
+    const payoutShares = parsePayoutShares(taskArguments.payout);
+
+    const { symbol, decimals } = await getStakeUnit(stakeToken, hre);
+    const stakeAmount = ethers.parseUnits(taskArguments.stake, decimals);
+
+    const tx =
+      kind === KIND_PRICE && marketParams.length === 0
+        ? await contract
+            .connect(signer)
+            .createStakedPredictionEvent(
+              taskArguments.title,
+              asset.assetId,
+              targetDate,
+              duration,
+              stakeToken,
+              stakeAmount,
+              payoutShares,
+            )
+        : await contract
+            .connect(signer)
+            .createStakedMarketEvent(
+              taskArguments.title,
+              asset.assetId,
+              targetDate,
+              duration,
+              kind,
+              marketParams,
+              stakeToken,
+              stakeAmount,
+              payoutShares,
+            );
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(
+      `CryptoPriceGuess ${MARKET_KINDS[kind]} event #${eventId} created (${asset.symbol}, ${duration}h window, ` +
+        `${taskArguments.stake} ${symbol} stake, payout ${payoutShares.join("/")})`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-submit --event 0 --price 98500.50
+ *   - npx hardhat --network sepolia task:cpg-submit --event 0 --price 98500.50
+ *   - npx hardhat --network localhost task:cpg-submit --event 1 --side above
+ *   - npx hardhat --network localhost task:cpg-submit --event 2 --bucket 1
+ *   - npx hardhat --network localhost task:cpg-submit --event 3 --lower 97000 --upper 103000
+ *
+ * The prediction argument depends on the event's market kind: --price (price), --side (threshold),
+ * --bucket (range) or --lower/--upper (bounds).
+ * Staked events are paid automatically: the ETH stake is sent with the call, ERC-20 stakes are
+ * approved first.
+ */
+task(
+  "task:cpg-submit",
+  "Encrypts a prediction and calls the submitPrediction() (submitBoundsPrediction() for bounds markets) function of CryptoPriceGuess Contract",
+)
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .addOptionalParam("price", "The predicted price in USD (price markets)")
+  .addOptionalParam("side", "above or below the threshold (threshold markets)")
+  .addOptionalParam("bucket", "Index of the predicted bucket (range markets)")
+  .addOptionalParam("lower", "Lower bound in USD (bounds markets)")
+  .addOptionalParam("upper", "Upper bound in USD (bounds markets)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    await hre.fhevm.initializeCLIApi();
+
+    const { contract, address } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const { kind, encrypted } = await encryptPrediction(taskArguments, hre, contract, address, signer.address, eventId);
+
+    const pool = await contract.getEventPool(eventId);
+    let value = 0n;
+    if (pool.stakeAmount > 0n && pool.stakeToken === hre.ethers.ZeroAddress) {
+      value = pool.stakeAmount;
+    } else if (pool.stakeAmount > 0n) {
+      const token = await hre.ethers.getContractAt("IERC20", pool.stakeToken);
+      if ((await token.allowance(signer.address, address)) < pool.stakeAmount) {
+        const approveTx = await token.connect(signer).approve(address, pool.stakeAmount);
+        console.log(`Wait for stake approval tx:${approveTx.hash}...`);
+        await approveTx.wait();
+      }
+    }
+
+    const tx =
+      kind === KIND_BOUNDS
+        ? await contract
+            .connect(signer)
+            .submitBoundsPrediction(eventId, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+              value,
+            })
+        : await contract
+            .connect(signer)
+            .submitPrediction(eventId, encrypted.handles[0], encrypted.inputProof, { value });
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`CryptoPriceGuess prediction on event #${eventId} from ${signer.address} succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-update --event 0 --price 99000
+ *   - npx hardhat --network sepolia task:cpg-update --event 3 --lower 98000 --upper 102000
+ *
+ * Replaces the signer's prediction while the event is active; takes the same prediction
+ * arguments as task:cpg-submit.
+ */
+task(
+  "task:cpg-update",
+  "Encrypts a prediction and calls the updatePrediction() (updateBoundsPrediction() for bounds markets) function of CryptoPriceGuess Contract",
+)
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .addOptionalParam("price", "The predicted price in USD (price markets)")
+  .addOptionalParam("side", "above or below the threshold (threshold markets)")
+  .addOptionalParam("bucket", "Index of the predicted bucket (range markets)")
+  .addOptionalParam("lower", "Lower bound in USD (bounds markets)")
+  .addOptionalParam("upper", "Upper bound in USD (bounds markets)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    await hre.fhevm.initializeCLIApi();
+
+    const { contract, address } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const { kind, encrypted } = await encryptPrediction(taskArguments, hre, contract, address, signer.address, eventId);
+
+    const tx =
+      kind === KIND_BOUNDS
+        ? await contract
+            .connect(signer)
+            .updateBoundsPrediction(eventId, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof)
+        : await contract.connect(signer).updatePrediction(eventId, encrypted.handles[0], encrypted.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`CryptoPriceGuess prediction on event #${eventId} from ${signer.address} updated!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-withdraw --event 0
+ *   - npx hardhat --network sepolia task:cpg-withdraw --event 0 --signer 1
+ *
+ * The entry stake of a staked event is refunded with the withdrawal.
+ */
+task("task:cpg-withdraw", "Calls the withdrawPrediction() function of CryptoPriceGuess Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).withdrawPrediction(eventId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`${signer.address} withdrew their prediction from event #${eventId}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-end --event 0
+ *   - npx hardhat --network sepolia task:cpg-end --event 0
+ */
+task("task:cpg-end", "Calls the endPredictionEvent() function of CryptoPriceGuess Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).endPredictionEvent(eventId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`CryptoPriceGuess endPredictionEvent(${eventId}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-set-price --event 0 --price 99750
+ *   - npx hardhat --network sepolia task:cpg-set-price --event 0 --price 99750
+ */
+task("task:cpg-set-price", "Calls the setActualPrice() function of CryptoPriceGuess Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .addParam("price", "The actual price at the target date in USD")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const asset = await getEventAsset(contract, hre, eventId);
+    const price = parseUsdPrice(taskArguments.price, asset.priceScale);
+
+    const tx = await contract.connect(signer).setActualPrice(eventId, price);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`CryptoPriceGuess setActualPrice(${eventId}, ${formatUsdPrice(price, asset.priceScale)}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-finalize --event 0
+ *   - npx hardhat --network sepolia task:cpg-finalize --event 0
+ */
+task("task:cpg-finalize", "Calls the finalizePredictionEvent() function of CryptoPriceGuess Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const eventId = parseEventId(taskArguments.event);
+
+    await fhevm.initializeCLIApi();
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).finalizePredictionEvent(eventId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (!fhevm.isMock) {
+      console.log(`Decryption requested for event #${eventId}, the oracle will finalize it asynchronously.`);
+      return;
+    }
+
+    // The mock oracle only answers when asked to
+    await fhevm.awaitDecryptionOracle();
+
+    const event_ = await contract.getPredictionEvent(eventId);
+    const { priceScale } = await getAsset(await getPriceFeed(contract, hre), event_.assetId);
+    console.log(`Finalized        : ${event_.isFinalized}`);
+    console.log(`Average predicted: ${formatUsdPrice(event_.decryptedAveragePrice, priceScale)}`);
+    console.log(
+      `Actual price     : ${event_.actualPrice > 0n ? formatUsdPrice(event_.actualPrice, priceScale) : "not set"}`,
+    );
+    await printMarket(contract, eventId, priceScale);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-score --event 0
+ *   - npx hardhat --network sepolia task:cpg-score --event 0 --batch 20
+ */
+task("task:cpg-score", "Calls the scorePredictions() function of CryptoPriceGuess Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .addOptionalParam("batch", "Maximum number of predictions to score (0 = all remaining)", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    const batch = parseInt(taskArguments.batch);
+    if (!Number.isInteger(batch) || batch < 0) {
+      throw new Error(`Argument --batch is not a non-negative integer`);
+    }
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).scorePredictions(eventId, batch);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const board = await contract.eventLeaderboards(eventId);
+    const event_ = await contract.getPredictionEvent(eventId);
+    console.log(`Scored ${board.scoredCount}/${event_.totalPredictions} predictions for event #${eventId}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-reveal-leaderboard --event 0
+ *   - npx hardhat --network sepolia task:cpg-reveal-leaderboard --event 0
+ */
+task("task:cpg-reveal-leaderboard", "Calls the revealLeaderboard() function of CryptoPriceGuess Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const eventId = parseEventId(taskArguments.event);
+
+    await fhevm.initializeCLIApi();
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).revealLeaderboard(eventId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (!fhevm.isMock) {
+      console.log(`Decryption requested for event #${eventId}, run task:cpg-leaderboard once the oracle answers.`);
+      return;
+    }
+
+    await fhevm.awaitDecryptionOracle();
+    await hre.run("task:cpg-leaderboard", { address: taskArguments.address, event: taskArguments.event });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-claim --event 0
+ *   - npx hardhat --network sepolia task:cpg-claim --event 0 --signer 1
+ */
+task("task:cpg-claim", "Calls the claimWinnings() function of CryptoPriceGuess Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const pool = await contract.getEventPool(eventId);
+    const { symbol, decimals } = await getStakeUnit(pool.stakeToken, hre);
+    const amount = await contract.getClaimableAmount(eventId, signer.address);
+
+    const tx = await contract.connect(signer).claimWinnings(eventId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(
+      `${signer.address} claimed ${hre.ethers.formatUnits(amount, decimals)} ${symbol} from event #${eventId}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-cancel --event 0
+ *   - npx hardhat --network sepolia task:cpg-cancel --event 0
+ */
+task("task:cpg-cancel", "Calls the cancelPredictionEvent() function of CryptoPriceGuess Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).cancelPredictionEvent(eventId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`CryptoPriceGuess cancelPredictionEvent(${eventId}) succeeded! Predictors can now claim refunds.`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-refund --event 0
+ *   - npx hardhat --network sepolia task:cpg-refund --event 0 --signer 1
+ */
+task("task:cpg-refund", "Calls the claimRefund() function of CryptoPriceGuess Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const pool = await contract.getEventPool(eventId);
+    const { symbol, decimals } = await getStakeUnit(pool.stakeToken, hre);
+
+    const tx = await contract.connect(signer).claimRefund(eventId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(
+      `${signer.address} refunded ${hre.ethers.formatUnits(pool.stakeAmount, decimals)} ${symbol} from event #${eventId}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-leaderboard --event 0
+ *   - npx hardhat --network sepolia task:cpg-leaderboard --event 0
+ */
+task("task:cpg-leaderboard", "Prints the leaderboard of a CryptoPriceGuess event")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addParam("event", "The event id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eventId = parseEventId(taskArguments.event);
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+
+    const [predictors, isRevealed] = await contract.getEventLeaderboard(eventId);
+    if (predictors.length === 0) {
+      console.log(`No predictions for event #${eventId}`);
+      return;
+    }
+
+    if (!isRevealed) {
+      console.log(`Leaderboard for event #${eventId} is not revealed yet. Predictors:`);
+      predictors.forEach((predictor) => console.log(`    ${predictor}`));
+      return;
+    }
+
+    // Only the ranks are public; each predictor can decrypt their own error from getUserEncryptedError()
+    console.log(`Leaderboard for event #${eventId}:`);
+    predictors.forEach((predictor, index) => {
+      console.log(`  ${index + 1}. ${predictor}`);
+    });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-decrypt-prediction --event 0
+ *   - npx hardhat --network sepolia task:cpg-decrypt-prediction --event 0 --signer 1
+ */
+task("task:cpg-decrypt-prediction", "Decrypts the signer's own prediction via getUserEncryptedPrediction()")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("event", "The event id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const eventId = parseEventId(taskArguments.event);
+
+    await fhevm.initializeCLIApi();
+
+    const { contract, address } = await getCryptoPriceGuess(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const encryptedPrediction = await contract.getUserEncryptedPrediction(eventId, signer.address);
+    const { priceScale } = await getEventAsset(contract, hre, eventId);
+    const market = await contract.getEventMarket(eventId);
+    const kind = Number(market.kind);
+
+    const clearPrediction = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedPrediction, address, signer);
+    console.log(`Encrypted prediction: ${encryptedPrediction}`);
+
+    if (kind === KIND_THRESHOLD) {
+      console.log(`Clear prediction    : ${clearPrediction === 1n ? "above" : "below"} the threshold`);
+    } else if (kind === KIND_RANGE) {
+      const label = formatBuckets(market.params, priceScale)[Number(clearPrediction)];
+      console.log(`Clear prediction    : bucket ${clearPrediction} (${label})`);
+    } else if (kind === KIND_BOUNDS) {
+      const [, encryptedUpper] = await contract.getUserEncryptedBounds(eventId, signer.address);
+      const clearUpper = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedUpper, address, signer);
+      console.log(
+        `Clear prediction    : ${formatUsdPrice(clearPrediction, priceScale)} - ${formatUsdPrice(clearUpper, priceScale)}`,
+      );
+    } else {
+      console.log(`Clear prediction    : ${formatUsdPrice(clearPrediction, priceScale)}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-assets
+ *   - npx hardhat --network sepolia task:cpg-assets
+ */
+task(
+  "task:cpg-assets",
+  "Lists the assets registered in the CryptoPriceFeed of CryptoPriceGuess with their latest price",
+)
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const priceFeed = await getPriceFeed(contract, hre);
+
+    const assetCount = Number(await priceFeed.getAssetCount());
+    for (let assetId = 0; assetId < assetCount; assetId++) {
+      const asset = await priceFeed.assets(assetId);
+      const latest = await priceFeed.latestPrices(assetId);
+
+      const status = asset.isActive ? "active" : "inactive";
+      const price = latest.isValid ? formatUsdPrice(latest.price, Number(asset.priceScale)) : "no price yet";
+      console.log(
+        `#${assetId} ${asset.symbol} [${status}] decimals=${asset.decimals} priceScale=${asset.priceScale} price=${price}`,
+      );
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-add-asset --symbol SOL --decimals 9
+ *   - npx hardhat --network sepolia task:cpg-add-asset --symbol USDC --decimals 6 --scale 1000000
+ */
+task("task:cpg-add-asset", "Calls the addAsset() function of CryptoPriceFeed Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("symbol", "The asset symbol")
+  .addParam("decimals", "Decimals of the asset itself")
+  .addOptionalParam("scale", "Prices are stored as USD * scale (a power of ten)", "100")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const symbol = String(taskArguments.symbol).toUpperCase();
+
+    const decimals = parseInt(taskArguments.decimals);
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+      throw new Error(`Argument --decimals is not an integer between 0 and 255`);
+    }
+
+    const scale = parseInt(taskArguments.scale);
+    if (!Number.isInteger(scale) || scale <= 0) {
+      throw new Error(`Argument --scale is not a positive integer`);
+    }
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const priceFeed = await getPriceFeed(contract, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const assetId = await priceFeed.getAssetCount();
+
+    const tx = await priceFeed.connect(signer).addAsset(symbol, decimals, scale);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`CryptoPriceGuess asset #${assetId} ${symbol} added (priceScale ${scale})`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-set-asset-active --asset SOL --active false
+ */
+task("task:cpg-set-asset-active", "Calls the setAssetActive() function of CryptoPriceFeed Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("asset", "Symbol or id of the registered asset")
+  .addParam("active", "true to list the asset, false to delist it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.active !== "true" && taskArguments.active !== "false") {
+      throw new Error(`Argument --active must be true or false`);
+    }
+    const isActive = taskArguments.active === "true";
+
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const priceFeed = await getPriceFeed(contract, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const asset = await resolveAsset(priceFeed, String(taskArguments.asset));
+
+    const tx = await priceFeed.connect(signer).setAssetActive(asset.assetId, isActive);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`CryptoPriceGuess asset ${asset.symbol} is now ${isActive ? "active" : "inactive"}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-update-price --asset SOL --price 172.50
+ *   - npx hardhat --network sepolia task:cpg-update-price --asset BTC --price 98500
+ */
+task("task:cpg-update-price", "Calls the updatePrice() function of CryptoPriceFeed Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("asset", "Symbol or id of the registered asset")
+  .addParam("price", "The current price in USD")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+    const priceFeed = await getPriceFeed(contract, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const asset = await resolveAsset(priceFeed, String(taskArguments.asset));
+    const price = parseUsdPrice(taskArguments.price, asset.priceScale);
+
+    const tx = await priceFeed.connect(signer).updatePrice(asset.assetId, price);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`CryptoPriceGuess ${asset.symbol} price set to ${formatUsdPrice(price, asset.priceScale)}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cpg-events
+ *   - npx hardhat --network sepolia task:cpg-events
+ */
+task("task:cpg-events", "Lists all CryptoPriceGuess prediction events")
+  .addOptionalParam("address", "Optionally specify the CryptoPriceGuess contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getCryptoPriceGuess(taskArguments, hre);
+
+    const eventCount = Number(await contract.getEventCount());
+    if (eventCount === 0) {
+      console.log("No prediction events");
+      return;
+    }
+
+    for (let eventId = 0; eventId < eventCount; eventId++) {
+      const event_ = await contract.getPredictionEvent(eventId);
+      const asset = await getAsset(await getPriceFeed(contract, hre), event_.assetId);
+
+      const pool = await contract.getEventPool(eventId);
+
+      const status = pool.isCancelled
+        ? "cancelled"
+        : event_.isFinalized
+          ? "finalized"
+          : event_.isActive
+            ? "active"
+            : "ended";
+      const targetDate = new Date(Number(event_.targetDate) * 1000).toISOString();
+      const endTime = new Date(Number(event_.endTime) * 1000).toISOString();
+
+      console.log(`#${eventId} ${event_.title} [${asset.symbol}] ${status}`);
+      console.log(`    admin       : ${event_.admin}`);
+      console.log(`    predictions : ${event_.totalPredictions}`);
+      console.log(`    ends at     : ${endTime}`);
+      console.log(`    target date : ${targetDate}`);
+      console.log(
+        `    actual price: ${event_.actualPrice > 0n ? formatUsdPrice(event_.actualPrice, asset.priceScale) : "not set"}`,
+      );
+      if (event_.isFinalized) {
+        console.log(`    avg predict : ${formatUsdPrice(event_.decryptedAveragePrice, asset.priceScale)}`);
+      }
+      await printMarket(contract, eventId, asset.priceScale, "    ");
+      if (pool.stakeAmount > 0n) {
+        const { symbol, decimals } = await getStakeUnit(pool.stakeToken, hre);
+        console.log(`    entry stake : ${hre.ethers.formatUnits(pool.stakeAmount, decimals)} ${symbol}`);
+        console.log(`    prize pool  : ${hre.ethers.formatUnits(pool.totalStaked, decimals)} ${symbol}`);
+        console.log(`    payout      : ${pool.payoutShares.join("/")} (basis points per rank)`);
+      }
+    }
+  });
@@ -0,0 +1,690 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Keep private values in the CryptoVault (--network localhost)
+ * ======================================================================
+ *
+ * 1. Deploy the contracts (see tasks/CryptoPriceGuess.ts), then store encrypted values. Entries are 32-bit
+ *    numbers unless --type says otherwise (bool, uint8, uint16, uint32, uint64, address), and can carry a
+ *    label and expire after a number of hours:
+ *
+ *   npx hardhat --network localhost task:vault-store --value 1234
+ *   npx hardhat --network localhost task:vault-store --type address --value 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --label backup
+ *   npx hardhat --network localhost task:vault-store --type bool --value true --label flag --expires 24
+ *   npx hardhat --network localhost task:vault-list
+ *   npx hardhat --network localhost task:vault-list --type bool --expired true
+ *
+ * 2. Read a value back. The signer signs a user decryption request, so only the owner learns it:
+ *
+ *   npx hardhat --network localhost task:vault-decrypt --entry 0
+ *
+ * 3. Let another account decrypt an entry for a number of hours, list what is shared with it, and revoke
+ *    (revoking re-issues the entry under a fresh handle the grantee cannot decrypt):
+ *
+ *   npx hardhat --network localhost task:vault-share --entry 0 --to 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --hours 24
+ *   npx hardhat --network localhost task:vault-shared --signer 1
+ *   npx hardhat --network localhost task:vault-decrypt --entry 0 --signer 1
+ *   npx hardhat --network localhost task:vault-revoke --entry 0 --grantee 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *
+ * 4. Use number entries as a private counter or balance: add or subtract an encrypted amount (a result
+ *    that would overflow or go below zero leaves the entry unchanged), bound an entry by another one,
+ *    or compare two entries into a new encrypted bool entry:
+ *
+ *   npx hardhat --network localhost task:vault-add --entry 0 --amount 50
+ *   npx hardhat --network localhost task:vault-sub --entry 0 --amount 20
+ *   npx hardhat --network localhost task:vault-store --value 1000 --label limit
+ *   npx hardhat --network localhost task:vault-min --entry 0 --other 3
+ *   npx hardhat --network localhost task:vault-compare --entry 0 --other 3 --op lt
+ *
+ * 5. Hand an entry to another account, or publish it: the oracle decrypts it and the plaintext
+ *    is emitted in a public ValuePublished log for anyone to read:
+ *
+ *   npx hardhat --network localhost task:vault-transfer --entry 0 --to 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *   npx hardhat --network localhost task:vault-publish --entry 0 --signer 1
+ *
+ * 6. Time-lock an entry like a dead man's switch: once its release time passes, anyone (a keeper) can have the
+ *    oracle publish it, unless the owner keeps pushing the release time forward. The value cannot change:
+ *
+ *   npx hardhat --network localhost task:vault-store --value 65000 --label "BTC call" --release 24
+ *   npx hardhat --network localhost task:vault-heartbeat --entry 5 --hours 48
+ *   npx hardhat --network localhost task:vault-releases --due true
+ *   npx hardhat --network localhost task:vault-release --entry 5 --signer 2
+ *
+ * On Sepolia, `task:vault-publish` and `task:vault-release` only submit the decryption request; the relayer
+ * publishes the value later, re-run `task:vault-list` to see it.
+ *
+ */
+
+async function getCryptoVault(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const { ethers, deployments } = hre;
+
+  const CryptoVaultDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("CryptoVault");
+  console.log(`CryptoVault: ${CryptoVaultDeployment.address}`);
+
+  const contract = await ethers.getContractAt("CryptoVault", CryptoVaultDeployment.address);
+
+  return { contract, address: CryptoVaultDeployment.address };
+}
+
+async function getSigner(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const signers = await hre.ethers.getSigners();
+
+  const index = taskArguments.signer !== undefined ? parseInt(taskArguments.signer) : 0;
+  if (!Number.isInteger(index) || index < 0 || index >= signers.length) {
+    throw new Error(`Argument --signer must be an index between 0 and ${signers.length - 1}`);
+  }
+
+  return signers[index];
+}
+
+// Mirrors CryptoVault.VaultValueType
+const VAULT_VALUE_TYPES = ["bool", "uint8", "uint16", "uint32", "uint64", "address"] as const;
+type VaultValueTypeName = (typeof VAULT_VALUE_TYPES)[number];
+
+function parseValueType(value: string | undefined): number {
+  const valueType = VAULT_VALUE_TYPES.indexOf((value ?? "uint32") as VaultValueTypeName);
+  if (valueType === -1) {
+    throw new Error(`Argument --type must be one of ${VAULT_VALUE_TYPES.join(", ")}`);
+  }
+  return valueType;
+}
+
+function formatValue(valueType: number, value: bigint): string {
+  switch (VAULT_VALUE_TYPES[valueType]) {
+    case "bool":
+      return value === 0n ? "false" : "true";
+    case "address":
+      return `0x${value.toString(16).padStart(40, "0")}`;
+    default:
+      return value.toString();
+  }
+}
+
+type EncryptedInput = ReturnType<HardhatRuntimeEnvironment["fhevm"]["createEncryptedInput"]>;
+
+// Adds `value` to the input as a number of the given vault type (uint8 to uint64)
+function addNumber(input: EncryptedInput, valueType: number, value: string, argument: string) {
+  const bits = Number(VAULT_VALUE_TYPES[valueType].slice("uint".length));
+  let number: bigint;
+  try {
+    number = BigInt(value);
+  } catch {
+    throw new Error(`Argument --${argument} is not a ${bits}-bit unsigned integer`);
+  }
+  if (number < 0n || number >= 2n ** BigInt(bits)) {
+    throw new Error(`Argument --${argument} is not a ${bits}-bit unsigned integer`);
+  }
+  if (bits === 8) input.add8(number);
+  else if (bits === 16) input.add16(number);
+  else if (bits === 32) input.add32(number);
+  else input.add64(number);
+}
+
+function isNumberType(valueType: number): boolean {
+  const typeName = VAULT_VALUE_TYPES[valueType];
+  return typeName !== "bool" && typeName !== "address";
+}
+
+// Mirrors CryptoVault.VaultComparison
+const VAULT_COMPARISONS = ["eq", "ne", "lt", "le", "gt", "ge"] as const;
+const VAULT_COMPARISON_SYMBOLS = ["==", "!=", "<", "<=", ">", ">="];
+
+function parseId(value: string, argument: string): number {
+  const id = parseInt(value);
+  if (!Number.isInteger(id) || id < 0) {
+    throw new Error(`Argument --${argument} is not a valid id`);
+  }
+  return id;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-store --value 1234
+ *   - npx hardhat --network sepolia task:vault-store --value 1234 --signer 1
+ */
+task("task:vault-store", "Encrypts a value and calls the storeEncryptedEntry() function of CryptoVault Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addOptionalParam("type", "bool, uint8, uint16, uint32, uint64 or address (defaults to uint32)")
+  .addOptionalParam("label", "A label for the entry, visible on-chain")
+  .addOptionalParam("expires", "Hours until the entry expires (defaults to never)")
+  .addOptionalParam("release", "Hours until anyone can publish the entry (time-locked, see task:vault-heartbeat)")
+  .addParam("value", "The value to store")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const valueType = parseValueType(taskArguments.type);
+    const label: string = taskArguments.label ?? "";
+
+    let expiresAt = 0;
+    if (taskArguments.expires !== undefined) {
+      const hours = Number(taskArguments.expires);
+      if (!Number.isFinite(hours) || hours <= 0) {
+        throw new Error(`Argument --expires must be a positive number of hours`);
+      }
+      expiresAt = Math.floor(Date.now() / 1000 + hours * 3600);
+    }
+
+    let releaseAt = 0;
+    if (taskArguments.release !== undefined) {
+      if (expiresAt !== 0) {
+        throw new Error(`Time-locked entries never expire, use either --expires or --release`);
+      }
+      const hours = Number(taskArguments.release);
+      if (!Number.isFinite(hours) || hours <= 0) {
+        throw new Error(`Argument --release must be a positive number of hours`);
+      }
+      const latestBlock = await ethers.provider.getBlock("latest");
+      releaseAt = (latestBlock?.timestamp ?? Math.floor(Date.now() / 1000)) + Math.floor(hours * 3600);
+    }
+
+    await hre.fhevm.initializeCLIApi();
+
+    const { contract, address } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const input = hre.fhevm.createEncryptedInput(address, signer.address);
+    const typeName = VAULT_VALUE_TYPES[valueType];
+    if (typeName === "bool") {
+      if (taskArguments.value !== "true" && taskArguments.value !== "false") {
+        throw new Error(`Argument --value must be true or false`);
+      }
+      input.addBool(taskArguments.value === "true");
+    } else if (typeName === "address") {
+      if (!ethers.isAddress(taskArguments.value)) {
+        throw new Error(`Argument --value is not a valid address`);
+      }
+      input.addAddress(taskArguments.value);
+    } else {
+      addNumber(input, valueType, taskArguments.value, "value");
+    }
+    const encrypted = await input.encrypt();
+
+    const tx =
+      releaseAt !== 0
+        ? await contract
+            .connect(signer)
+            .storeTimeLockedEntry(valueType, encrypted.handles[0], encrypted.inputProof, label, releaseAt)
+        : await contract
+            .connect(signer)
+            .storeEncryptedEntry(valueType, encrypted.handles[0], encrypted.inputProof, label, expiresAt);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const [stored] = await contract.queryFilter(
+      contract.filters.ValueStored(undefined, signer.address),
+      receipt?.blockNumber,
+      receipt?.blockNumber,
+    );
+    console.log(`Vault entry #${stored.args.storageId} stored for ${signer.address}`);
+    if (releaseAt !== 0) {
+      console.log(`Anyone can publish it from ${new Date(releaseAt * 1000).toISOString()}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-decrypt --entry 0
+ *   - npx hardhat --network localhost task:vault-decrypt --entry 0 --signer 1 (an entry shared with signer 1)
+ */
+task("task:vault-decrypt", "Decrypts a vault entry the signer owns or that is shared with the signer")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("entry", "The vault entry (storage) id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const storageId = parseId(taskArguments.entry, "entry");
+
+    await fhevm.initializeCLIApi();
+
+    const { contract, address } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const { owner, valueType } = await contract.encryptedStorages(storageId);
+    const encryptedValue =
+      owner === signer.address
+        ? await contract.connect(signer).retrieveEncryptedValue(storageId)
+        : await contract.connect(signer).retrieveSharedVaultValue(storageId);
+
+    let clearValue: string;
+    switch (VAULT_VALUE_TYPES[Number(valueType)]) {
+      case "bool":
+        clearValue = String(await fhevm.userDecryptEbool(encryptedValue, address, signer));
+        break;
+      case "address":
+        clearValue = await fhevm.userDecryptEaddress(encryptedValue, address, signer);
+        break;
+      case "uint8":
+        clearValue = String(await fhevm.userDecryptEuint(FhevmType.euint8, encryptedValue, address, signer));
+        break;
+      case "uint16":
+        clearValue = String(await fhevm.userDecryptEuint(FhevmType.euint16, encryptedValue, address, signer));
+        break;
+      case "uint32":
+        clearValue = String(await fhevm.userDecryptEuint(FhevmType.euint32, encryptedValue, address, signer));
+        break;
+      default:
+        clearValue = String(await fhevm.userDecryptEuint(FhevmType.euint64, encryptedValue, address, signer));
+    }
+    console.log(`Encrypted value: ${encryptedValue}`);
+    console.log(`Clear value    : ${clearValue}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-transfer --entry 0 --to 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ */
+task("task:vault-transfer", "Calls the transferEncryptedStorage() function of CryptoVault Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("entry", "The vault entry (storage) id")
+  .addParam("to", "The recipient address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const storageId = parseId(taskArguments.entry, "entry");
+    if (!hre.ethers.isAddress(taskArguments.to)) {
+      throw new Error(`Argument --to is not a valid address`);
+    }
+
+    const { contract } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).transferEncryptedStorage(storageId, taskArguments.to);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Vault entry #${storageId} transferred to ${taskArguments.to}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-share --entry 0 --to 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --hours 24
+ */
+task("task:vault-share", "Calls the shareVaultEntry() function of CryptoVault Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("entry", "The vault entry (storage) id")
+  .addParam("to", "The address to share the entry with")
+  .addParam("hours", "How many hours the share lasts")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const storageId = parseId(taskArguments.entry, "entry");
+    if (!hre.ethers.isAddress(taskArguments.to)) {
+      throw new Error(`Argument --to is not a valid address`);
+    }
+    const hours = Number(taskArguments.hours);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      throw new Error(`Argument --hours must be a positive number of hours`);
+    }
+
+    const { contract } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const latestBlock = await hre.ethers.provider.getBlock("latest");
+    const expiresAt = (latestBlock?.timestamp ?? Math.floor(Date.now() / 1000)) + Math.floor(hours * 3600);
+
+    const tx = await contract.connect(signer).shareVaultEntry(storageId, taskArguments.to, expiresAt);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(
+      `Vault entry #${storageId} shared with ${taskArguments.to} until ${new Date(expiresAt * 1000).toISOString()}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-revoke --entry 0 --grantee 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ */
+task("task:vault-revoke", "Calls the revokeVaultShare() function of CryptoVault Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("entry", "The vault entry (storage) id")
+  .addParam("grantee", "The grantee to revoke")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const storageId = parseId(taskArguments.entry, "entry");
+    if (!hre.ethers.isAddress(taskArguments.grantee)) {
+      throw new Error(`Argument --grantee is not a valid address`);
+    }
+
+    const { contract } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).revokeVaultShare(storageId, taskArguments.grantee);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Access of ${taskArguments.grantee} to vault entry #${storageId} revoked`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-shared --signer 1
+ */
+task("task:vault-shared", "Lists the vault entries shared with the signer, and who the signer shares entries with")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const sharedIds = await contract.getSharedVaultEntryIds(signer.address);
+    console.log(`Shared with ${signer.address}: ${sharedIds.length === 0 ? "nothing" : ""}`);
+    for (const storageId of sharedIds) {
+      const entry = await contract.encryptedStorages(storageId);
+      const expiresAt = await contract.vaultShareExpiry(storageId, signer.address);
+      console.log(
+        `  #${storageId} ${VAULT_VALUE_TYPES[Number(entry.valueType)]} "${entry.label}" from ${entry.owner}, until ${new Date(Number(expiresAt) * 1000).toISOString()}`,
+      );
+    }
+
+    console.log(`Shared by ${signer.address}:`);
+    for (const storageId of await contract.getUserStorageIds(signer.address)) {
+      const { grantees, expiresAt } = await contract.getVaultGrantees(storageId);
+      for (let i = 0; i < grantees.length; i++) {
+        console.log(`  #${storageId} with ${grantees[i]} until ${new Date(Number(expiresAt[i]) * 1000).toISOString()}`);
+      }
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-add --entry 0 --amount 50
+ *   - npx hardhat --network localhost task:vault-sub --entry 0 --amount 20
+ */
+for (const [name, functionName] of [
+  ["task:vault-add", "addToVaultEntry"],
+  ["task:vault-sub", "subtractFromVaultEntry"],
+] as const) {
+  task(name, `Encrypts an amount and calls the ${functionName}() function of CryptoVault Contract`)
+    .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+    .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+    .addParam("entry", "The vault entry (storage) id, a number entry")
+    .addParam("amount", "The amount, within the entry's type")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+      const storageId = parseId(taskArguments.entry, "entry");
+
+      await hre.fhevm.initializeCLIApi();
+
+      const { contract, address } = await getCryptoVault(taskArguments, hre);
+      const signer = await getSigner(taskArguments, hre);
+
+      const valueType = Number((await contract.encryptedStorages(storageId)).valueType);
+      if (!isNumberType(valueType)) {
+        throw new Error(`Vault entry #${storageId} is not a number entry`);
+      }
+      const input = hre.fhevm.createEncryptedInput(address, signer.address);
+      addNumber(input, valueType, taskArguments.amount, "amount");
+      const encrypted = await input.encrypt();
+
+      const tx = await contract.connect(signer)[functionName](storageId, encrypted.handles[0], encrypted.inputProof);
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      // An overflow or underflow leaves the entry unchanged, which only shows once decrypted
+      console.log(`Vault entry #${storageId} updated, run task:vault-decrypt --entry ${storageId} to read it`);
+    });
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-compare --entry 0 --other 1 --op lt
+ */
+task("task:vault-compare", "Calls the compareVaultEntries() function of CryptoVault Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("entry", "The left-hand vault entry (storage) id")
+  .addParam("other", "The right-hand vault entry (storage) id, of the same type")
+  .addParam("op", `One of ${VAULT_COMPARISONS.join(", ")}`)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const storageId = parseId(taskArguments.entry, "entry");
+    const otherId = parseId(taskArguments.other, "other");
+    const comparison = VAULT_COMPARISONS.indexOf(taskArguments.op);
+    if (comparison === -1) {
+      throw new Error(`Argument --op must be one of ${VAULT_COMPARISONS.join(", ")}`);
+    }
+
+    const { contract } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).compareVaultEntries(storageId, otherId, comparison);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const [stored] = await contract.queryFilter(
+      contract.filters.ValueStored(undefined, signer.address),
+      receipt?.blockNumber,
+      receipt?.blockNumber,
+    );
+    const resultId = stored.args.storageId;
+    console.log(`#${storageId} ${VAULT_COMPARISON_SYMBOLS[comparison]} #${otherId} stored as vault entry #${resultId}`);
+    console.log(`Run task:vault-decrypt --entry ${resultId} to read it`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-min --entry 0 --other 1
+ *   - npx hardhat --network localhost task:vault-max --entry 0 --other 1
+ */
+for (const [name, functionName] of [
+  ["task:vault-min", "minVaultEntries"],
+  ["task:vault-max", "maxVaultEntries"],
+] as const) {
+  task(name, `Calls the ${functionName}() function of CryptoVault Contract`)
+    .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+    .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+    .addParam("entry", "The vault entry (storage) id to update")
+    .addParam("other", "The vault entry (storage) id to bound it with, of the same type")
+    .setAction(async function (taskArguments: TaskArguments, hre) {
+      const storageId = parseId(taskArguments.entry, "entry");
+      const otherId = parseId(taskArguments.other, "other");
+
+      const { contract } = await getCryptoVault(taskArguments, hre);
+      const signer = await getSigner(taskArguments, hre);
+
+      const tx = await contract.connect(signer)[functionName](storageId, otherId);
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`Vault entry #${storageId} updated, run task:vault-decrypt --entry ${storageId} to read it`);
+    });
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-publish --entry 0
+ *   - npx hardhat --network sepolia task:vault-publish --entry 0
+ */
+task("task:vault-publish", "Calls the publishEncryptedValue() function of CryptoVault Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("entry", "The vault entry (storage) id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const storageId = parseId(taskArguments.entry, "entry");
+
+    await fhevm.initializeCLIApi();
+
+    const { contract } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).publishEncryptedValue(storageId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (fhevm.isMock) {
+      // The mock oracle only answers when asked to
+      await fhevm.awaitDecryptionOracle();
+      const [published] = await contract.queryFilter(contract.filters.ValuePublished(storageId));
+      const value = formatValue(Number(published.args.valueType), published.args.value);
+      console.log(`Vault entry #${storageId} published: ${value}`);
+    } else {
+      console.log(`Publication of vault entry #${storageId} requested, waiting for the relayer`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-heartbeat --entry 0 --hours 24
+ */
+task("task:vault-heartbeat", "Calls the heartbeatVaultEntry() function of CryptoVault Contract")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("entry", "The vault entry (storage) id, a time-locked entry")
+  .addParam("hours", "Hours from now until the new release time")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const storageId = parseId(taskArguments.entry, "entry");
+    const hours = Number(taskArguments.hours);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      throw new Error(`Argument --hours must be a positive number of hours`);
+    }
+
+    const { contract } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const latestBlock = await hre.ethers.provider.getBlock("latest");
+    const releaseAt = (latestBlock?.timestamp ?? Math.floor(Date.now() / 1000)) + Math.floor(hours * 3600);
+
+    const tx = await contract.connect(signer).heartbeatVaultEntry(storageId, releaseAt);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Vault entry #${storageId} release pushed back to ${new Date(releaseAt * 1000).toISOString()}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-release --entry 0 --signer 2
+ */
+task("task:vault-release", "Calls the releaseVaultEntry() function of CryptoVault Contract, as a keeper")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addParam("entry", "The vault entry (storage) id, a time-locked entry past its release time")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const storageId = parseId(taskArguments.entry, "entry");
+
+    await fhevm.initializeCLIApi();
+
+    const { contract } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const tx = await contract.connect(signer).releaseVaultEntry(storageId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (fhevm.isMock) {
+      // The mock oracle only answers when asked to
+      await fhevm.awaitDecryptionOracle();
+      const { valueType } = await contract.encryptedStorages(storageId);
+      const value = formatValue(Number(valueType), await contract.publishedVaultValues(storageId));
+      console.log(`Vault entry #${storageId} released: ${value}`);
+    } else {
+      console.log(`Release of vault entry #${storageId} requested, waiting for the relayer`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-releases
+ *   - npx hardhat --network localhost task:vault-releases --due true
+ */
+task("task:vault-releases", "Lists the time-locked vault entries waiting to be published, of every user")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("due", "Only list entries past their release time (true/false, defaults to false)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const dueOnly = taskArguments.due === "true";
+
+    const { contract } = await getCryptoVault(taskArguments, hre);
+
+    const { totalMatches } = await contract.getPendingVaultReleases(dueOnly, 0, 0);
+    const { storageIds, releaseAt } = await contract.getPendingVaultReleases(dueOnly, totalMatches, 0);
+    if (storageIds.length === 0) {
+      console.log(dueOnly ? "No time-locked entries are due" : "No time-locked entries");
+      return;
+    }
+
+    const latestBlock = await hre.ethers.provider.getBlock("latest");
+    const now = BigInt(latestBlock?.timestamp ?? Math.floor(Date.now() / 1000));
+    for (let i = 0; i < storageIds.length; i++) {
+      const entry = await contract.encryptedStorages(storageIds[i]);
+      const due = releaseAt[i] <= now ? " (due, run task:vault-release)" : "";
+      console.log(
+        `#${storageIds[i]} "${entry.label}" of ${entry.owner} releases at ${new Date(Number(releaseAt[i]) * 1000).toISOString()}${due}`,
+      );
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-list --signer 1
+ *   - npx hardhat --network localhost task:vault-list --type address --expired true
+ */
+task("task:vault-list", "Lists the signer's vault entries via getFilteredVaultEntries()")
+  .addOptionalParam("address", "Optionally specify the CryptoVault contract address")
+  .addOptionalParam("signer", "Index of the signer to use (defaults to 0)")
+  .addOptionalParam("type", "Only list entries of this type")
+  .addOptionalParam("expired", "Also list expired entries (true/false, defaults to false)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const typeFilter = taskArguments.type !== undefined ? parseValueType(taskArguments.type) + 1 : 0;
+    const includeExpired = taskArguments.expired === "true";
+
+    const { contract } = await getCryptoVault(taskArguments, hre);
+    const signer = await getSigner(taskArguments, hre);
+
+    const { totalMatches } = await contract.getFilteredVaultEntries(signer.address, typeFilter, includeExpired, 0, 0);
+    const entries = await contract.getFilteredVaultEntries(signer.address, typeFilter, includeExpired, totalMatches, 0);
+    if (entries.storageIds.length === 0) {
+      console.log(`No vault entries for ${signer.address}`);
+      return;
+    }
+
+    for (let i = 0; i < entries.storageIds.length; i++) {
+      const storageId = entries.storageIds[i];
+      const valueType = Number(entries.valueTypes[i]);
+      const entry = await contract.encryptedStorages(storageId);
+      const storedAt = new Date(Number(entry.timestamp) * 1000).toISOString();
+      const expiresAt = entries.expiresAt[i];
+      let status = "encrypted";
+      if (!entry.isEncrypted) {
+        status = `published: ${formatValue(valueType, await contract.publishedVaultValues(storageId))}`;
+      } else if (await contract.publishRequested(storageId)) {
+        status = "publishing";
+      }
+
+      console.log(`#${storageId} ${VAULT_VALUE_TYPES[valueType]} "${entries.labels[i]}" ${status}`);
+      console.log(`    stored at : ${storedAt}`);
+      if (expiresAt !== 0n) {
+        console.log(`    expires at: ${new Date(Number(expiresAt) * 1000).toISOString()}`);
+      }
+      if (entry.releaseAt !== 0n) {
+        console.log(`    release at: ${new Date(Number(entry.releaseAt) * 1000).toISOString()}`);
+      }
+      console.log(`    handle    : ${entry.storedValue}`);
+    }
+  });
@@ -0,0 +1,234 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import {
+  CryptoBallAuction,
+  CryptoBallAuction__factory,
+  CryptoBalls,
+  CryptoBalls__factory,
+  CryptoPriceGuess,
+  CryptoPriceGuess__factory,
+} from "../types";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  charlie: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const ballsFactory = (await ethers.getContractFactory("CryptoBalls")) as CryptoBalls__factory;
+  const ballsContract = (await ballsFactory.deploy()) as CryptoBalls;
+  const ballsContractAddress = await ballsContract.getAddress();
+  const priceFeed = await (await ethers.getContractFactory("CryptoPriceFeed")).deploy();
+
+  const libraries: Record<string, string> = {};
+  for (const library of ["EventMarkets", "EventPools", "Leaderboards"]) {
+    libraries[library] = await (await (await ethers.getContractFactory(library)).deploy()).getAddress();
+  }
+  const factory = (await ethers.getContractFactory("CryptoPriceGuess", { libraries })) as CryptoPriceGuess__factory;
+  const cryptoPriceGuessContract = (await factory.deploy(
+    ballsContractAddress,
+    await priceFeed.getAddress(),
+  )) as CryptoPriceGuess;
+  const cryptoPriceGuessContractAddress = await cryptoPriceGuessContract.getAddress();
+  await ballsContract.setMinter(cryptoPriceGuessContractAddress);
+
+  const auctionFactory = (await ethers.getContractFactory("CryptoBallAuction")) as CryptoBallAuction__factory;
+  const auctionContract = (await auctionFactory.deploy(ballsContractAddress)) as CryptoBallAuction;
+  const auctionContractAddress = await auctionContract.getAddress();
+
+  return {
+    cryptoPriceGuessContract,
+    cryptoPriceGuessContractAddress,
+    ballsContract,
+    auctionContract,
+    auctionContractAddress,
+  };
+}
+
+describe("CryptoBallAuction", function () {
+  const actualPrice = 500000; // $5,000
+  const duration = 3600;
+
+  let signers: Signers;
+  let cryptoPriceGuessContract: CryptoPriceGuess;
+  let cryptoPriceGuessContractAddress: string;
+  let ballsContract: CryptoBalls;
+  let auctionContract: CryptoBallAuction;
+  let auctionContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      charlie: ethSigners[3],
+      dave: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({
+      cryptoPriceGuessContract,
+      cryptoPriceGuessContractAddress,
+      ballsContract,
+      auctionContract,
+      auctionContractAddress,
+    } = await deployFixture());
+  });
+
+  // Mints `user` a Crystal ball (an exact prediction) from a fresh event run by the deployer
+  async function mintBall(user: HardhatEthersSigner) {
+    const eventId = Number(await cryptoPriceGuessContract.getEventCount());
+    const latestBlock = await ethers.provider.getBlock("latest");
+    await cryptoPriceGuessContract
+      .connect(signers.deployer)
+      .createPredictionEvent("ETH balls", 1, latestBlock!.timestamp + 3600, 1);
+
+    const encrypted = await fhevm
+      .createEncryptedInput(cryptoPriceGuessContractAddress, user.address)
+      .add32(actualPrice)
+      .encrypt();
+    await cryptoPriceGuessContract.connect(user).submitPrediction(eventId, encrypted.handles[0], encrypted.inputProof);
+
+    await ethers.provider.send("evm_increaseTime", [3601]);
+    await ethers.provider.send("evm_mine", []);
+    await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(eventId);
+    await cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(eventId, actualPrice);
+    await cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(eventId);
+    await fhevm.awaitDecryptionOracle();
+
+    await cryptoPriceGuessContract.connect(user).generateCryptoBall(eventId);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  async function placeBid(auctionId: number, bidder: HardhatEthersSigner, bid: bigint, deposit: bigint) {
+    const encrypted = await fhevm.createEncryptedInput(auctionContractAddress, bidder.address).add64(bid).encrypt();
+    return auctionContract
+      .connect(bidder)
+      .placeBid(auctionId, encrypted.handles[0], encrypted.inputProof, { value: deposit });
+  }
+
+  async function endBidding() {
+    await ethers.provider.send("evm_increaseTime", [duration + 1]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  it("should sell to the highest sealed bid and refund losing deposits", async function () {
+    await mintBall(signers.alice);
+    await ballsContract.connect(signers.alice).approve(auctionContractAddress, 0);
+    await auctionContract.connect(signers.alice).createAuction(0, ethers.parseEther("0.5"), duration);
+    expect(await ballsContract.ownerOf(0)).to.eq(auctionContractAddress);
+
+    const bobBid = ethers.parseEther("1");
+    await expect(placeBid(0, signers.bob, bobBid, ethers.parseEther("2")))
+      .to.emit(auctionContract, "BidPlaced")
+      .withArgs(0, signers.bob.address, ethers.parseEther("2"));
+    // Higher than Bob's bid but above its own deposit, so it counts as zero
+    await placeBid(0, signers.charlie, ethers.parseEther("1.5"), ethers.parseEther("1.2"));
+    await placeBid(0, signers.dave, ethers.parseEther("0.8"), ethers.parseEther("1"));
+
+    await expect(placeBid(0, signers.bob, bobBid, bobBid)).to.be.revertedWith("Already bid");
+    await expect(placeBid(0, signers.alice, bobBid, bobBid)).to.be.revertedWith("Seller cannot bid");
+    await expect(auctionContract.closeAuction(0)).to.be.revertedWith("Bidding has not ended");
+
+    // Bidders can decrypt their own bid
+    const encryptedBid = await auctionContract.getEncryptedBid(0, signers.dave.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, encryptedBid, auctionContractAddress, signers.dave)).to.eq(
+      ethers.parseEther("0.8"),
+    );
+
+    await endBidding();
+    await expect(placeBid(0, signers.charlie, bobBid, bobBid)).to.be.revertedWith("Bidding has ended");
+
+    const royalty = (bobBid * 250n) / 10000n;
+    await expect(auctionContract.connect(signers.charlie).closeAuction(0)).to.emit(auctionContract, "AuctionClosed");
+    expect((await auctionContract.getAuction(0)).status).to.eq(1); // REVEALING
+    await fhevm.awaitDecryptionOracle();
+
+    const auction = await auctionContract.getAuction(0);
+    expect(auction.winner).to.eq(signers.bob.address);
+    expect(auction.winningBid).to.eq(bobBid);
+    expect(auction.status).to.eq(2); // SETTLED
+    expect(await ballsContract.ownerOf(0)).to.eq(signers.bob.address);
+
+    expect(await auctionContract.pendingWithdrawals(signers.alice.address)).to.eq(bobBid - royalty);
+    expect(await auctionContract.pendingWithdrawals(signers.deployer.address)).to.eq(royalty);
+
+    // The winner gets back the deposit above their bid, losers their whole deposit
+    await expect(auctionContract.connect(signers.bob).claimRefund(0)).to.changeEtherBalances(
+      [auctionContract, signers.bob],
+      [-ethers.parseEther("1"), ethers.parseEther("1")],
+    );
+    await expect(auctionContract.connect(signers.charlie).claimRefund(0))
+      .to.emit(auctionContract, "RefundClaimed")
+      .withArgs(0, signers.charlie.address, ethers.parseEther("1.2"));
+    await expect(auctionContract.connect(signers.charlie).claimRefund(0)).to.be.revertedWith("Nothing to refund");
+
+    await expect(auctionContract.connect(signers.alice).withdraw()).to.changeEtherBalances(
+      [auctionContract, signers.alice],
+      [-(bobBid - royalty), bobBid - royalty],
+    );
+  });
+
+  it("should return the ball when the reserve price is not met", async function () {
+    await mintBall(signers.alice);
+    await ballsContract.connect(signers.alice).approve(auctionContractAddress, 0);
+    await auctionContract.connect(signers.alice).createAuction(0, ethers.parseEther("2"), duration);
+
+    await placeBid(0, signers.bob, ethers.parseEther("1"), ethers.parseEther("1"));
+    await expect(auctionContract.connect(signers.alice).cancelAuction(0)).to.be.revertedWith("Auction has bids");
+    await expect(auctionContract.connect(signers.bob).claimRefund(0)).to.be.revertedWith("Auction not settled");
+
+    await endBidding();
+    await auctionContract.closeAuction(0);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await ballsContract.ownerOf(0)).to.eq(signers.alice.address);
+    const auction = await auctionContract.getAuction(0);
+    expect(auction.status).to.eq(2); // SETTLED
+    expect(auction.winner).to.eq(ethers.ZeroAddress);
+    expect(await auctionContract.pendingWithdrawals(signers.alice.address)).to.eq(0);
+    await expect(auctionContract.connect(signers.bob).claimRefund(0)).to.changeEtherBalances(
+      [auctionContract, signers.bob],
+      [-ethers.parseEther("1"), ethers.parseEther("1")],
+    );
+  });
+
+  it("should let the seller cancel or close an auction without bids", async function () {
+    await mintBall(signers.alice);
+    await mintBall(signers.alice);
+    await expect(auctionContract.connect(signers.alice).createAuction(0, 0, duration)).to.be.reverted;
+    await ballsContract.connect(signers.alice).setApprovalForAll(auctionContractAddress, true);
+    await expect(auctionContract.connect(signers.bob).createAuction(0, 0, duration)).to.be.revertedWith(
+      "Not ball owner",
+    );
+
+    await auctionContract.connect(signers.alice).createAuction(0, 0, duration);
+    await auctionContract.connect(signers.alice).createAuction(1, 0, duration);
+
+    await expect(auctionContract.connect(signers.bob).cancelAuction(0)).to.be.revertedWith("Not the seller");
+    await expect(auctionContract.connect(signers.alice).cancelAuction(0))
+      .to.emit(auctionContract, "AuctionCancelled")
+      .withArgs(0);
+    expect(await ballsContract.ownerOf(0)).to.eq(signers.alice.address);
+
+    await endBidding();
+    await expect(auctionContract.connect(signers.bob).closeAuction(1))
+      .to.emit(auctionContract, "AuctionSettled")
+      .withArgs(1, ethers.ZeroAddress, 0, 0);
+    expect(await ballsContract.ownerOf(1)).to.eq(signers.alice.address);
+    expect(await auctionContract.getAuctionCount()).to.eq(2);
+  });
+});
@@ -0,0 +1,230 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import {
+  CryptoBallMarketplace,
+  CryptoBallMarketplace__factory,
+  CryptoBalls,
+  CryptoBalls__factory,
+  CryptoPriceGuess,
+  CryptoPriceGuess__factory,
+} from "../types";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  charlie: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const ballsFactory = (await ethers.getContractFactory("CryptoBalls")) as CryptoBalls__factory;
+  const ballsContract = (await ballsFactory.deploy()) as CryptoBalls;
+  const ballsContractAddress = await ballsContract.getAddress();
+  const priceFeed = await (await ethers.getContractFactory("CryptoPriceFeed")).deploy();
+
+  const libraries: Record<string, string> = {};
+  for (const library of ["EventMarkets", "EventPools", "Leaderboards"]) {
+    libraries[library] = await (await (await ethers.getContractFactory(library)).deploy()).getAddress();
+  }
+  const factory = (await ethers.getContractFactory("CryptoPriceGuess", { libraries })) as CryptoPriceGuess__factory;
+  const cryptoPriceGuessContract = (await factory.deploy(
+    ballsContractAddress,
+    await priceFeed.getAddress(),
+  )) as CryptoPriceGuess;
+  const cryptoPriceGuessContractAddress = await cryptoPriceGuessContract.getAddress();
+  await ballsContract.setMinter(cryptoPriceGuessContractAddress);
+
+  const marketFactory = (await ethers.getContractFactory("CryptoBallMarketplace")) as CryptoBallMarketplace__factory;
+  const marketplaceContract = (await marketFactory.deploy(ballsContractAddress)) as CryptoBallMarketplace;
+  const marketplaceContractAddress = await marketplaceContract.getAddress();
+
+  return {
+    cryptoPriceGuessContract,
+    cryptoPriceGuessContractAddress,
+    ballsContract,
+    marketplaceContract,
+    marketplaceContractAddress,
+  };
+}
+
+describe("CryptoBallMarketplace", function () {
+  const actualPrice = 500000; // $5,000
+  const price = ethers.parseEther("1");
+
+  let signers: Signers;
+  let cryptoPriceGuessContract: CryptoPriceGuess;
+  let cryptoPriceGuessContractAddress: string;
+  let ballsContract: CryptoBalls;
+  let marketplaceContract: CryptoBallMarketplace;
+  let marketplaceContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], charlie: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({
+      cryptoPriceGuessContract,
+      cryptoPriceGuessContractAddress,
+      ballsContract,
+      marketplaceContract,
+      marketplaceContractAddress,
+    } = await deployFixture());
+  });
+
+  // Mints `user` a ball from a fresh event run by the deployer: an exact prediction mints a Crystal (power 100),
+  // one 20% off a Vault ball (power 25)
+  async function mintBall(user: HardhatEthersSigner, prediction: number) {
+    const eventId = Number(await cryptoPriceGuessContract.getEventCount());
+    const latestBlock = await ethers.provider.getBlock("latest");
+    await cryptoPriceGuessContract
+      .connect(signers.deployer)
+      .createPredictionEvent("ETH balls", 1, latestBlock!.timestamp + 3600, 1);
+
+    const encrypted = await fhevm
+      .createEncryptedInput(cryptoPriceGuessContractAddress, user.address)
+      .add32(prediction)
+      .encrypt();
+    await cryptoPriceGuessContract.connect(user).submitPrediction(eventId, encrypted.handles[0], encrypted.inputProof);
+
+    await ethers.provider.send("evm_increaseTime", [3601]);
+    await ethers.provider.send("evm_mine", []);
+    await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(eventId);
+    await cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(eventId, actualPrice);
+    await cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(eventId);
+    await fhevm.awaitDecryptionOracle();
+
+    await cryptoPriceGuessContract.connect(user).generateCryptoBall(eventId);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  it("should sell a listed ball and pay the event admin's royalty", async function () {
+    await mintBall(signers.alice, actualPrice);
+
+    await expect(marketplaceContract.connect(signers.alice).listBall(0, price)).to.be.revertedWith(
+      "Marketplace not approved",
+    );
+    await ballsContract.connect(signers.alice).setApprovalForAll(marketplaceContractAddress, true);
+    await expect(marketplaceContract.connect(signers.bob).listBall(0, price)).to.be.revertedWith("Not ball owner");
+
+    await expect(marketplaceContract.connect(signers.alice).listBall(0, price))
+      .to.emit(marketplaceContract, "BallListed")
+      .withArgs(0, signers.alice.address, price);
+
+    await expect(marketplaceContract.connect(signers.bob).buyBall(0, { value: price - 1n })).to.be.revertedWith(
+      "Incorrect payment",
+    );
+
+    // 2.5% royalty to the admin of the event the ball was claimed from
+    const royalty = (price * 250n) / 10000n;
+    await expect(marketplaceContract.connect(signers.bob).buyBall(0, { value: price }))
+      .to.emit(marketplaceContract, "BallSold")
+      .withArgs(0, signers.alice.address, signers.bob.address, price, royalty);
+
+    expect(await ballsContract.ownerOf(0)).to.eq(signers.bob.address);
+    expect((await marketplaceContract.listings(0)).seller).to.eq(ethers.ZeroAddress);
+    expect(await marketplaceContract.pendingWithdrawals(signers.deployer.address)).to.eq(royalty);
+    expect(await marketplaceContract.pendingWithdrawals(signers.alice.address)).to.eq(price - royalty);
+
+    await expect(marketplaceContract.connect(signers.alice).withdraw()).to.changeEtherBalances(
+      [marketplaceContract, signers.alice],
+      [-(price - royalty), price - royalty],
+    );
+    await expect(marketplaceContract.connect(signers.alice).withdraw()).to.be.revertedWith("Nothing to withdraw");
+  });
+
+  it("should escrow offers until they are accepted or cancelled", async function () {
+    await mintBall(signers.alice, actualPrice);
+    await ballsContract.connect(signers.alice).approve(marketplaceContractAddress, 0);
+
+    await expect(marketplaceContract.connect(signers.alice).makeOffer(0, { value: price })).to.be.revertedWith(
+      "Cannot offer on your own ball",
+    );
+    await expect(marketplaceContract.connect(signers.bob).makeOffer(0, { value: price })).to.changeEtherBalances(
+      [marketplaceContract, signers.bob],
+      [price, -price],
+    );
+    await marketplaceContract.connect(signers.charlie).makeOffer(0, { value: price / 2n });
+
+    const offers = await marketplaceContract.getOffers(0);
+    expect(offers.buyers).to.deep.eq([signers.bob.address, signers.charlie.address]);
+    expect(offers.amounts).to.deep.eq([price, price / 2n]);
+
+    await expect(marketplaceContract.connect(signers.charlie).cancelOffer(0))
+      .to.emit(marketplaceContract, "OfferCancelled")
+      .withArgs(0, signers.charlie.address, price / 2n);
+    expect(await marketplaceContract.pendingWithdrawals(signers.charlie.address)).to.eq(price / 2n);
+
+    await expect(marketplaceContract.connect(signers.bob).acceptOffer(0, signers.charlie.address)).to.be.revertedWith(
+      "Not ball owner",
+    );
+    await marketplaceContract.connect(signers.alice).acceptOffer(0, signers.bob.address);
+
+    expect(await ballsContract.ownerOf(0)).to.eq(signers.bob.address);
+    expect((await marketplaceContract.getOffers(0)).buyers).to.deep.eq([]);
+    expect(await marketplaceContract.pendingWithdrawals(signers.alice.address)).to.eq((price * 9750n) / 10000n);
+  });
+
+  it("should move the last offer into the slot of a removed one", async function () {
+    await mintBall(signers.alice, actualPrice);
+    await ballsContract.connect(signers.alice).approve(marketplaceContractAddress, 0);
+
+    await marketplaceContract.connect(signers.bob).makeOffer(0, { value: price });
+    await marketplaceContract.connect(signers.charlie).makeOffer(0, { value: price / 2n });
+    await marketplaceContract.connect(signers.deployer).makeOffer(0, { value: price / 4n });
+
+    await marketplaceContract.connect(signers.bob).cancelOffer(0);
+    let offers = await marketplaceContract.getOffers(0);
+    expect(offers.buyers).to.deep.eq([signers.deployer.address, signers.charlie.address]);
+    expect(offers.amounts).to.deep.eq([price / 4n, price / 2n]);
+
+    // A renewed offer is appended again
+    await marketplaceContract.connect(signers.bob).makeOffer(0, { value: price });
+    await marketplaceContract.connect(signers.alice).acceptOffer(0, signers.deployer.address);
+    offers = await marketplaceContract.getOffers(0);
+    expect(offers.buyers).to.deep.eq([signers.bob.address, signers.charlie.address]);
+    await expect(marketplaceContract.connect(signers.deployer).cancelOffer(0)).to.be.revertedWith("No offer to remove");
+  });
+
+  it("should browse valid listings by type and power and skip stale ones", async function () {
+    await mintBall(signers.alice, actualPrice); // Crystal #0
+    await mintBall(signers.alice, 600000); // Vault #1
+    await mintBall(signers.alice, 600000); // Vault #2
+    await ballsContract.connect(signers.alice).setApprovalForAll(marketplaceContractAddress, true);
+
+    await marketplaceContract.connect(signers.alice).listBall(0, price * 3n);
+    await marketplaceContract.connect(signers.alice).listBall(1, price * 2n);
+    await marketplaceContract.connect(signers.alice).listBall(2, price);
+
+    // By price, ascending
+    const byPrice = await marketplaceContract.getFilteredListings(0, 0, 0, 1, 0, 10, 0);
+    expect(byPrice.ballIds).to.deep.eq([2n, 1n, 0n]);
+    expect(byPrice.prices).to.deep.eq([price, price * 2n, price * 3n]);
+    expect(byPrice.totalMatches).to.eq(3);
+
+    const vaults = await marketplaceContract.getFilteredListings(3, 0, 0, 0, 0, 10, 0);
+    expect(vaults.ballIds).to.deep.eq([1n, 2n]);
+    const powerful = await marketplaceContract.getFilteredListings(0, 50, 0, 2, 1, 10, 0);
+    expect(powerful.ballIds).to.deep.eq([0n]);
+    const secondPage = await marketplaceContract.getFilteredListings(0, 0, 0, 1, 1, 2, 2);
+    expect(secondPage.ballIds).to.deep.eq([2n]);
+
+    // Moving the ball outside the marketplace leaves a stale listing that anyone can clear
+    await ballsContract.connect(signers.alice).transferFrom(signers.alice.address, signers.charlie.address, 2);
+    expect((await marketplaceContract.getFilteredListings(0, 0, 0, 1, 0, 10, 0)).ballIds).to.deep.eq([1n, 0n]);
+    await expect(marketplaceContract.connect(signers.bob).buyBall(2, { value: price })).to.be.revertedWith(
+      "Listing is stale",
+    );
+    await expect(marketplaceContract.connect(signers.bob).cancelListing(1)).to.be.revertedWith("Not the seller");
+    await marketplaceContract.connect(signers.bob).cancelListing(2);
+    expect((await marketplaceContract.listings(2)).seller).to.eq(ethers.ZeroAddress);
+  });
+});
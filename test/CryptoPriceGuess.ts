@@ -1,8 +1,20 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm } from "hardhat";
-import { CryptoPriceGuess, CryptoPriceGuess__factory } from "../types";
+import {
+  CryptoBalls,
+  CryptoBalls__factory,
+  CryptoPriceFeed,
+  CryptoPriceFeed__factory,
+  CryptoPriceGuess,
+  CryptoPriceGuess__factory,
+  CryptoPriceGuessStats,
+  CryptoPriceGuessStats__factory,
+  MockERC20,
+  MockERC20__factory,
+} from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -12,17 +24,44 @@ type Signers = {
 };
 
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("CryptoPriceGuess")) as CryptoPriceGuess__factory;
-  const cryptoPriceGuessContract = (await factory.deploy()) as CryptoPriceGuess;
+  const ballsFactory = (await ethers.getContractFactory("CryptoBalls")) as CryptoBalls__factory;
+  const ballsContract = (await ballsFactory.deploy()) as CryptoBalls;
+  const priceFeedFactory = (await ethers.getContractFactory("CryptoPriceFeed")) as CryptoPriceFeed__factory;
+  const priceFeedContract = (await priceFeedFactory.deploy()) as CryptoPriceFeed;
+
+  const libraries: Record<string, string> = {};
+  for (const library of ["EventMarkets", "EventPools", "Leaderboards"]) {
+    libraries[library] = await (await (await ethers.getContractFactory(library)).deploy()).getAddress();
+  }
+  const factory = (await ethers.getContractFactory("CryptoPriceGuess", { libraries })) as CryptoPriceGuess__factory;
+  const cryptoPriceGuessContract = (await factory.deploy(
+    await ballsContract.getAddress(),
+    await priceFeedContract.getAddress()
+  )) as CryptoPriceGuess;
   const cryptoPriceGuessContractAddress = await cryptoPriceGuessContract.getAddress();
+  await ballsContract.setMinter(cryptoPriceGuessContractAddress);
+
+  const statsFactory = (await ethers.getContractFactory("CryptoPriceGuessStats")) as CryptoPriceGuessStats__factory;
+  const statsContract = (await statsFactory.deploy(cryptoPriceGuessContractAddress)) as CryptoPriceGuessStats;
 
-  return { cryptoPriceGuessContract, cryptoPriceGuessContractAddress };
+  return { cryptoPriceGuessContract, cryptoPriceGuessContractAddress, ballsContract, priceFeedContract, statsContract };
+}
+
+// Arguments of the decryption callback the oracle relayed last (call right after awaitDecryptionOracle)
+async function lastOracleCallback(contract: CryptoPriceGuess) {
+  const block = await ethers.provider.getBlock("latest", true);
+  const call = contract.interface.parseTransaction(block!.prefetchedTransactions.at(-1)!)!;
+  const [requestId, cleartexts, decryptionProof] = call.args as unknown as [bigint, string, string];
+  return { name: call.name, requestId, cleartexts, decryptionProof };
 }
 
 describe("CryptoPriceGuess", function () {
   let signers: Signers;
   let cryptoPriceGuessContract: CryptoPriceGuess;
   let cryptoPriceGuessContractAddress: string;
+  let ballsContract: CryptoBalls;
+  let priceFeedContract: CryptoPriceFeed;
+  let statsContract: CryptoPriceGuessStats;
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
@@ -41,7 +80,8 @@ describe("CryptoPriceGuess", function () {
       this.skip();
     }
 
-    ({ cryptoPriceGuessContract, cryptoPriceGuessContractAddress } = await deployFixture());
+    ({ cryptoPriceGuessContract, cryptoPriceGuessContractAddress, ballsContract, priceFeedContract, statsContract } =
+      await deployFixture());
   });
 
   it("should create a new prediction event", async function () {
@@ -58,7 +98,7 @@ describe("CryptoPriceGuess", function () {
 
     const event_ = await cryptoPriceGuessContract.getPredictionEvent(0);
     expect(event_.title).to.eq("BTC Price Prediction");
-    expect(event_.tokenType).to.eq(0); // BTC
+    expect(event_.assetId).to.eq(0); // BTC
     expect(event_.isActive).to.be.true;
     expect(event_.admin).to.eq(signers.deployer.address);
   });
@@ -201,17 +241,119 @@ describe("CryptoPriceGuess", function () {
     const tx = await cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(0);
     await tx.wait();
 
-    // Wait for decryption callback (in mock environment, this happens immediately)
-    // In real environment, we'd need to wait for the oracle callback
+    // The mock oracle only delivers the decryption callback when asked to
+    await fhevm.awaitDecryptionOracle();
 
     const event_ = await cryptoPriceGuessContract.getPredictionEvent(0);
-    // Average should be approximately (500000 + 520000) / 2 = 510000
-    // Note: Due to integer division, this might be slightly different
+    // Average: (500000 + 520000) / 2 = 510000
     expect(event_.isFinalized).to.be.true;
+    expect(event_.decryptedAveragePrice).to.eq(510000);
+  });
+
+  it("should let a predictor decrypt only their own prediction", async function () {
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const targetDate = latestBlock!.timestamp + 86400;
+    const durationInHours = 24;
+
+    await cryptoPriceGuessContract
+      .connect(signers.deployer)
+      .createPredictionEvent("BTC Price Prediction", 0, targetDate, durationInHours);
+
+    const alicePrice = 495050; // $4,950.50
+    const encryptedAlicePrice = await fhevm
+      .createEncryptedInput(cryptoPriceGuessContractAddress, signers.alice.address)
+      .add32(alicePrice)
+      .encrypt();
+
+    await cryptoPriceGuessContract
+      .connect(signers.alice)
+      .submitPrediction(0, encryptedAlicePrice.handles[0], encryptedAlicePrice.inputProof);
+
+    const encryptedPrediction = await cryptoPriceGuessContract.getUserEncryptedPrediction(0, signers.alice.address);
+
+    const clearPrediction = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      encryptedPrediction,
+      cryptoPriceGuessContractAddress,
+      signers.alice
+    );
+    expect(clearPrediction).to.eq(alicePrice);
+
+    await expect(
+      fhevm.userDecryptEuint(FhevmType.euint32, encryptedPrediction, cryptoPriceGuessContractAddress, signers.bob)
+    ).to.be.rejected;
+  });
+
+  it("should update and withdraw predictions while the event is active", async function () {
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const targetDate = latestBlock!.timestamp + 86400;
+    await cryptoPriceGuessContract
+      .connect(signers.deployer)
+      .createPredictionEvent("BTC Price Prediction", 0, targetDate, 24);
+
+    const encryptPrice = (signer: HardhatEthersSigner, price: number) =>
+      fhevm.createEncryptedInput(cryptoPriceGuessContractAddress, signer.address).add32(price).encrypt();
+
+    for (const [signer, price] of [
+      [signers.alice, 500000],
+      [signers.bob, 520000],
+      [signers.charlie, 600000],
+    ] as const) {
+      const encrypted = await encryptPrice(signer, price);
+      await cryptoPriceGuessContract.connect(signer).submitPrediction(0, encrypted.handles[0], encrypted.inputProof);
+    }
+
+    // Alice fixes her typo: $5,000 -> $51,000
+    const update = await encryptPrice(signers.alice, 510000);
+    await expect(
+      cryptoPriceGuessContract.connect(signers.alice).updatePrediction(0, update.handles[0], update.inputProof)
+    )
+      .to.emit(cryptoPriceGuessContract, "PredictionUpdated")
+      .withArgs(0, signers.alice.address);
+    const alicePrediction = await cryptoPriceGuessContract.getUserEncryptedPrediction(0, signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, alicePrediction, cryptoPriceGuessContractAddress, signers.alice)
+    ).to.eq(510000);
+
+    const stranger = await encryptPrice(signers.deployer, 510000);
+    await expect(
+      cryptoPriceGuessContract.connect(signers.deployer).updatePrediction(0, stranger.handles[0], stranger.inputProof)
+    ).to.be.revertedWith("No prediction to update");
+
+    // Charlie pulls out entirely
+    await expect(cryptoPriceGuessContract.connect(signers.charlie).withdrawPrediction(0))
+      .to.emit(cryptoPriceGuessContract, "PredictionWithdrawn")
+      .withArgs(0, signers.charlie.address);
+    await expect(cryptoPriceGuessContract.connect(signers.charlie).withdrawPrediction(0)).to.be.revertedWith(
+      "No prediction to withdraw"
+    );
+    expect(await cryptoPriceGuessContract.hasUserPredicted(0, signers.charlie.address)).to.eq(false);
+    expect((await cryptoPriceGuessContract.getPredictionEvent(0)).totalPredictions).to.eq(2);
+    const [predictors] = await cryptoPriceGuessContract.getEventLeaderboard(0);
+    expect(predictors).to.deep.eq([signers.alice.address, signers.bob.address]);
+
+    await ethers.provider.send("evm_increaseTime", [86401]);
+    await ethers.provider.send("evm_mine", []);
+    await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(0);
+
+    await expect(cryptoPriceGuessContract.connect(signers.bob).withdrawPrediction(0)).to.be.revertedWith(
+      "Event is not active"
+    );
+
+    const encryptedSum = await cryptoPriceGuessContract.getEncryptedPriceSum(0);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, encryptedSum, cryptoPriceGuessContractAddress, signers.deployer)
+    ).to.eq(1030000);
+
+    await cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(0);
+    await fhevm.awaitDecryptionOracle();
+    expect((await cryptoPriceGuessContract.getPredictionEvent(0)).decryptedAveragePrice).to.eq(515000);
   });
 
   it("should set actual price after target date", async function () {
-    const targetDate = Math.floor(Date.now() / 1000) + 3600; // 1 hour from now
+    // Earlier tests advance the chain clock, so anchor on the latest block rather than Date.now()
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const targetDate = latestBlock!.timestamp + 3600; // 1 hour from now
     const durationInHours = 24;
 
     await cryptoPriceGuessContract
@@ -228,5 +370,1195 @@ describe("CryptoPriceGuess", function () {
     const event_ = await cryptoPriceGuessContract.getPredictionEvent(0);
     expect(event_.actualPrice).to.eq(actualPrice);
   });
-});
 
+  describe("asset registry", function () {
+    it("should seed BTC and ETH with their legacy ids", async function () {
+      expect(await priceFeedContract.getAssetCount()).to.eq(2);
+
+      const btc = await priceFeedContract.assets(0);
+      expect(btc.symbol).to.eq("BTC");
+      expect(btc.decimals).to.eq(8);
+      expect(btc.priceScale).to.eq(100);
+      expect(btc.isActive).to.be.true;
+
+      expect(await priceFeedContract.getAssetIdBySymbol("ETH")).to.eq(1);
+      await expect(priceFeedContract.getAssetIdBySymbol("SOL")).to.be.revertedWith("Asset does not exist");
+    });
+
+    it("should let only the price feed admin list valid assets", async function () {
+      await expect(priceFeedContract.connect(signers.alice).addAsset("SOL", 9, 100)).to.be.revertedWith(
+        "Only price feed admin can manage assets"
+      );
+      await expect(priceFeedContract.connect(signers.deployer).addAsset("BTC", 8, 100)).to.be.revertedWith(
+        "Asset already registered"
+      );
+      await expect(priceFeedContract.connect(signers.deployer).addAsset("USDC", 6, 250)).to.be.revertedWith(
+        "Price scale must be a power of ten"
+      );
+      await expect(priceFeedContract.connect(signers.deployer).addAsset("", 6, 100)).to.be.revertedWith(
+        "Invalid symbol"
+      );
+
+      await expect(priceFeedContract.connect(signers.deployer).addAsset("USDC", 6, 1000000))
+        .to.emit(priceFeedContract, "AssetAdded")
+        .withArgs(2, "USDC", 6, 1000000);
+      expect(await priceFeedContract.getAssetIdBySymbol("USDC")).to.eq(2);
+    });
+
+    it("should create events and take prices for listed assets only", async function () {
+      await priceFeedContract.connect(signers.deployer).addAsset("SOL", 9, 100);
+      const latestBlock = await ethers.provider.getBlock("latest");
+      const targetDate = latestBlock!.timestamp + 3600;
+
+      await cryptoPriceGuessContract.connect(signers.alice).createPredictionEvent("SOL weekly", 2, targetDate, 1);
+      expect((await cryptoPriceGuessContract.getPredictionEvent(0)).assetId).to.eq(2);
+
+      await expect(
+        cryptoPriceGuessContract.connect(signers.alice).createPredictionEvent("Unknown", 3, targetDate, 1)
+      ).to.be.revertedWith("Asset does not exist");
+
+      await priceFeedContract.connect(signers.deployer).updatePrice(2, 17250);
+      expect((await priceFeedContract.latestPrices(2)).price).to.eq(17250);
+      expect((await priceFeedContract.getCurrentPrice(2)).price).to.eq(17250);
+
+      await priceFeedContract.connect(signers.deployer).setAssetActive(2, false);
+      await expect(
+        cryptoPriceGuessContract.connect(signers.alice).createPredictionEvent("SOL again", 2, targetDate, 1)
+      ).to.be.revertedWith("Asset is not active");
+      await expect(priceFeedContract.connect(signers.deployer).updatePrice(2, 17300)).to.be.revertedWith(
+        "Asset is not active"
+      );
+    });
+
+    it("should bound prices by the asset's price scale", async function () {
+      await priceFeedContract.connect(signers.deployer).addAsset("PEPE", 18, 100000000);
+
+      // $0.00001234 at a 1e8 scale
+      await priceFeedContract.connect(signers.deployer).updatePrice(2, 1234);
+      await expect(priceFeedContract.connect(signers.deployer).updatePrice(0, 100000000)).to.be.revertedWith(
+        "Price seems unreasonably high"
+      );
+    });
+
+    it("should filter events by asset", async function () {
+      await priceFeedContract.connect(signers.deployer).addAsset("SOL", 9, 100);
+      const latestBlock = await ethers.provider.getBlock("latest");
+      const targetDate = latestBlock!.timestamp + 3600;
+
+      await cryptoPriceGuessContract.connect(signers.deployer).createPredictionEvent("BTC", 0, targetDate, 1);
+      await cryptoPriceGuessContract.connect(signers.deployer).createPredictionEvent("SOL", 2, targetDate, 1);
+      await cryptoPriceGuessContract.connect(signers.deployer).createPredictionEvent("SOL 2", 2, targetDate, 1);
+
+      const solEvents = await statsContract.getFilteredEvents(0, 3, 0, 0, 10, 0);
+      expect(solEvents.eventIds).to.deep.eq([1n, 2n]);
+      expect(solEvents.assetIds).to.deep.eq([2n, 2n]);
+
+      const ethEvents = await statsContract.getFilteredEvents(0, 2, 0, 0, 10, 0);
+      expect(ethEvents.eventIds).to.deep.eq([]);
+    });
+  });
+
+  describe("scoring and leaderboard", function () {
+    const actualPrice = 510000; // $5,100
+
+    async function runEventToActualPrice(prices: { signer: HardhatEthersSigner; price: number }[]) {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      const targetDate = latestBlock!.timestamp + 3600;
+
+      await cryptoPriceGuessContract
+        .connect(signers.deployer)
+        .createPredictionEvent("ETH Price Prediction", 1, targetDate, 1);
+
+      for (const { signer, price } of prices) {
+        const encryptedPrice = await fhevm
+          .createEncryptedInput(cryptoPriceGuessContractAddress, signer.address)
+          .add32(price)
+          .encrypt();
+        await cryptoPriceGuessContract
+          .connect(signer)
+          .submitPrediction(0, encryptedPrice.handles[0], encryptedPrice.inputProof);
+      }
+
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(0);
+      await cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(0, actualPrice);
+    }
+
+    it("should score each prediction with an encrypted absolute error", async function () {
+      await runEventToActualPrice([
+        { signer: signers.alice, price: 500000 },
+        { signer: signers.bob, price: 515000 },
+      ]);
+
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 0);
+
+      const aliceError = await cryptoPriceGuessContract.getUserEncryptedError(0, signers.alice.address);
+      const clearAliceError = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        aliceError,
+        cryptoPriceGuessContractAddress,
+        signers.alice
+      );
+      expect(clearAliceError).to.eq(10000);
+
+      const bobError = await cryptoPriceGuessContract.getUserEncryptedError(0, signers.bob.address);
+      const clearBobError = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        bobError,
+        cryptoPriceGuessContractAddress,
+        signers.bob
+      );
+      expect(clearBobError).to.eq(5000);
+
+      // The actual price cannot move once errors are computed against it
+      await expect(
+        cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(0, actualPrice + 1)
+      ).to.be.revertedWith("Predictions already scored");
+    });
+
+    it("should score in batches and require full scoring before reveal", async function () {
+      await runEventToActualPrice([
+        { signer: signers.alice, price: 500000 },
+        { signer: signers.bob, price: 515000 },
+        { signer: signers.charlie, price: 600000 },
+      ]);
+
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 2);
+      expect((await cryptoPriceGuessContract.eventLeaderboards(0)).scoredCount).to.eq(2);
+
+      await expect(cryptoPriceGuessContract.connect(signers.deployer).revealLeaderboard(0)).to.be.revertedWith(
+        "Predictions not fully scored"
+      );
+
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 2);
+      expect((await cryptoPriceGuessContract.eventLeaderboards(0)).scoredCount).to.eq(3);
+
+      await expect(cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 0)).to.be.revertedWith(
+        "All predictions scored"
+      );
+    });
+
+    it("should reveal a leaderboard sorted by error with the closest predictor as winner", async function () {
+      await runEventToActualPrice([
+        { signer: signers.alice, price: 500000 },
+        { signer: signers.bob, price: 600000 },
+        { signer: signers.charlie, price: 512000 },
+      ]);
+
+      // Ranked over two batches
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 2);
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 0);
+
+      const [hiddenPredictors, hiddenRevealed] = await cryptoPriceGuessContract.getEventLeaderboard(0);
+      expect(hiddenRevealed).to.be.false;
+      expect(hiddenPredictors).to.deep.eq([signers.alice.address, signers.bob.address, signers.charlie.address]);
+
+      await expect(cryptoPriceGuessContract.connect(signers.deployer).revealLeaderboard(0))
+        .to.emit(cryptoPriceGuessContract, "LeaderboardRevealRequested")
+        .withArgs(0, anyValue);
+      await fhevm.awaitDecryptionOracle();
+
+      // Only the ranks are decrypted: the errors, and with them the predictions, stay private
+      const reveal = await lastOracleCallback(cryptoPriceGuessContract);
+      expect(reveal.cleartexts).to.eq(
+        ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32", "uint32"], [1, 2, 0])
+      );
+
+      const [predictors, isRevealed] = await cryptoPriceGuessContract.getEventLeaderboard(0);
+      expect(isRevealed).to.be.true;
+      expect(predictors).to.deep.eq([signers.charlie.address, signers.alice.address, signers.bob.address]);
+      expect(await cryptoPriceGuessContract.revealedRanks(0, signers.bob.address)).to.eq(2);
+
+      const board = await cryptoPriceGuessContract.eventLeaderboards(0);
+      expect(board.winner).to.eq(signers.charlie.address);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          await cryptoPriceGuessContract.getUserEncryptedError(0, signers.charlie.address),
+          cryptoPriceGuessContractAddress,
+          signers.alice
+        )
+      ).to.be.rejected;
+
+      await expect(cryptoPriceGuessContract.connect(signers.deployer).revealLeaderboard(0)).to.be.revertedWith(
+        "Leaderboard reveal already requested"
+      );
+    });
+
+    it("should break ties by submission order without decrypting errors", async function () {
+      await runEventToActualPrice([
+        { signer: signers.alice, price: 520000 },
+        { signer: signers.bob, price: 500000 },
+        { signer: signers.charlie, price: 510000 },
+      ]);
+
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 0);
+      await cryptoPriceGuessContract.connect(signers.deployer).revealLeaderboard(0);
+      await fhevm.awaitDecryptionOracle();
+
+      const [predictors] = await cryptoPriceGuessContract.getEventLeaderboard(0);
+      expect(predictors).to.deep.eq([signers.charlie.address, signers.alice.address, signers.bob.address]);
+    });
+
+    it("should only accept oracle answers through the callback they were requested for", async function () {
+      await runEventToActualPrice([
+        { signer: signers.alice, price: 500000 },
+        { signer: signers.bob, price: 600000 },
+      ]);
+
+      await cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(0);
+      await fhevm.awaitDecryptionOracle();
+      const finalize = await lastOracleCallback(cryptoPriceGuessContract);
+      expect(finalize.name).to.eq("decryptionCallback");
+
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 0);
+      await cryptoPriceGuessContract.connect(signers.deployer).revealLeaderboard(0);
+
+      // A finalize answer cannot settle the pending reveal, nor be replayed
+      await expect(
+        cryptoPriceGuessContract.leaderboardDecryptionCallback(
+          finalize.requestId,
+          finalize.cleartexts,
+          finalize.decryptionProof
+        )
+      ).to.be.revertedWith("Unknown leaderboard request");
+      await expect(
+        cryptoPriceGuessContract.decryptionCallback(finalize.requestId, finalize.cleartexts, finalize.decryptionProof)
+      ).to.be.revertedWith("Unknown finalize request");
+      expect((await cryptoPriceGuessContract.eventLeaderboards(0)).isRevealed).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+      const reveal = await lastOracleCallback(cryptoPriceGuessContract);
+      expect(reveal.name).to.eq("leaderboardDecryptionCallback");
+      await expect(
+        cryptoPriceGuessContract.decryptionCallback(reveal.requestId, reveal.cleartexts, reveal.decryptionProof)
+      ).to.be.revertedWith("Unknown finalize request");
+      expect((await cryptoPriceGuessContract.eventLeaderboards(0)).winner).to.eq(signers.alice.address);
+    });
+
+    it("should only let the event admin score and reveal", async function () {
+      await runEventToActualPrice([{ signer: signers.alice, price: 500000 }]);
+
+      await expect(cryptoPriceGuessContract.connect(signers.alice).scorePredictions(0, 0)).to.be.revertedWith(
+        "Only admin can perform this action"
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.alice).revealLeaderboard(0)).to.be.revertedWith(
+        "Only admin can perform this action"
+      );
+    });
+  });
+
+  describe("market kinds", function () {
+    const PRICE = 0;
+    const THRESHOLD = 1;
+    const RANGE = 2;
+    const BOUNDS = 3;
+    const actualPrice = 510000; // $5,100
+
+    async function createMarket(kind: number, params: number[]) {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      const targetDate = latestBlock!.timestamp + 3600;
+      return cryptoPriceGuessContract
+        .connect(signers.deployer)
+        .createMarketEvent("ETH market", 1, targetDate, 1, kind, params);
+    }
+
+    async function submit(signer: HardhatEthersSigner, value: number) {
+      const encrypted = await fhevm
+        .createEncryptedInput(cryptoPriceGuessContractAddress, signer.address)
+        .add32(value)
+        .encrypt();
+      return cryptoPriceGuessContract.connect(signer).submitPrediction(0, encrypted.handles[0], encrypted.inputProof);
+    }
+
+    async function submitBounds(signer: HardhatEthersSigner, lower: number, upper: number) {
+      const encrypted = await fhevm
+        .createEncryptedInput(cryptoPriceGuessContractAddress, signer.address)
+        .add32(lower)
+        .add32(upper)
+        .encrypt();
+      return cryptoPriceGuessContract
+        .connect(signer)
+        .submitBoundsPrediction(0, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+    }
+
+    async function closeAndScore() {
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(0);
+      await cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(0, actualPrice);
+      await cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(0);
+      await fhevm.awaitDecryptionOracle();
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 0);
+    }
+
+    async function decryptError(signer: HardhatEthersSigner) {
+      const error = await cryptoPriceGuessContract.getUserEncryptedError(0, signer.address);
+      return fhevm.userDecryptEuint(FhevmType.euint32, error, cryptoPriceGuessContractAddress, signer);
+    }
+
+    it("should validate market parameters", async function () {
+      await expect(createMarket(THRESHOLD, [])).to.be.revertedWith("Threshold market takes one threshold");
+      await expect(createMarket(THRESHOLD, [0])).to.be.revertedWith("Threshold market takes one threshold");
+      await expect(createMarket(RANGE, [])).to.be.revertedWith("Invalid number of range buckets");
+      await expect(createMarket(RANGE, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10])).to.be.revertedWith(
+        "Invalid number of range buckets"
+      );
+      await expect(createMarket(RANGE, [520000, 500000])).to.be.revertedWith("Bucket bounds must be ascending");
+      await expect(createMarket(BOUNDS, [500000])).to.be.revertedWith("Market takes no parameters");
+
+      await expect(createMarket(RANGE, [500000, 520000]))
+        .to.emit(cryptoPriceGuessContract, "EventMarketCreated")
+        .withArgs(0, RANGE, [500000, 520000]);
+
+      // Events created the old way are PRICE markets
+      const latestBlock = await ethers.provider.getBlock("latest");
+      await cryptoPriceGuessContract
+        .connect(signers.deployer)
+        .createPredictionEvent("BTC Price Prediction", 0, latestBlock!.timestamp + 3600, 1);
+      expect((await cryptoPriceGuessContract.getEventMarket(1)).kind).to.eq(PRICE);
+    });
+
+    it("should tally a threshold market and score calls against the outcome", async function () {
+      await createMarket(THRESHOLD, [500000]);
+      await expect(submitBounds(signers.alice, 1, 2)).to.be.revertedWith("Not a bounds market");
+
+      await submit(signers.alice, 1); // above
+      await submit(signers.bob, 0); // below
+      await submit(signers.charlie, 7); // any non-zero value means above
+
+      const charliePrediction = await cryptoPriceGuessContract.getUserEncryptedPrediction(0, signers.charlie.address);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          charliePrediction,
+          cryptoPriceGuessContractAddress,
+          signers.charlie
+        )
+      ).to.eq(1);
+
+      await closeAndScore();
+
+      const market = await cryptoPriceGuessContract.getEventMarket(0);
+      expect(market.results).to.deep.eq([1n, 2n]);
+      expect(market.actualOutcome).to.eq(1);
+      expect((await cryptoPriceGuessContract.getPredictionEvent(0)).decryptedAveragePrice).to.eq(0);
+
+      expect(await decryptError(signers.alice)).to.eq(0);
+      expect(await decryptError(signers.bob)).to.eq(1);
+      expect(await decryptError(signers.charlie)).to.eq(0);
+    });
+
+    it("should tally range buckets homomorphically and score by bucket distance", async function () {
+      // Buckets: < $5,000 | $5,000 - $5,200 | >= $5,200
+      await createMarket(RANGE, [500000, 520000]);
+
+      await submit(signers.alice, 1);
+      await submit(signers.bob, 1);
+      await submit(signers.charlie, 9); // clamped into the last bucket
+
+      await closeAndScore();
+
+      const market = await cryptoPriceGuessContract.getEventMarket(0);
+      expect(market.params).to.deep.eq([500000n, 520000n]);
+      expect(market.results).to.deep.eq([0n, 2n, 1n]);
+      expect(market.actualOutcome).to.eq(1);
+
+      expect(await decryptError(signers.alice)).to.eq(0);
+      expect(await decryptError(signers.charlie)).to.eq(1);
+    });
+
+    it("should histogram price predictions into encrypted buckets revealed at finalize", async function () {
+      await expect(createMarket(PRICE, [520000, 500000])).to.be.revertedWith("Bucket bounds must be ascending");
+
+      // Buckets: < $5,000 | $5,000 - $5,200 | >= $5,200
+      await createMarket(PRICE, [500000, 520000]);
+
+      await submit(signers.alice, 490000);
+      await submit(signers.bob, 500000); // a bound belongs to the bucket above it
+      await submit(signers.charlie, 530000);
+      await submit(signers.deployer, 515000);
+
+      await closeAndScore();
+
+      const market = await cryptoPriceGuessContract.getEventMarket(0);
+      expect(market.results).to.deep.eq([1n, 2n, 1n]);
+      expect(market.actualOutcome).to.eq(1);
+      // The histogram comes on top of the average
+      expect((await cryptoPriceGuessContract.getPredictionEvent(0)).decryptedAveragePrice).to.eq(508750);
+      expect(await decryptError(signers.bob)).to.eq(10000);
+    });
+
+    it("should move updated and withdrawn predictions between encrypted buckets", async function () {
+      await createMarket(RANGE, [500000, 520000]);
+
+      await submit(signers.alice, 0);
+      await submit(signers.bob, 1);
+      await submit(signers.charlie, 2);
+
+      const update = await fhevm
+        .createEncryptedInput(cryptoPriceGuessContractAddress, signers.alice.address)
+        .add32(2)
+        .encrypt();
+      await cryptoPriceGuessContract.connect(signers.alice).updatePrediction(0, update.handles[0], update.inputProof);
+      await cryptoPriceGuessContract.connect(signers.charlie).withdrawPrediction(0);
+
+      await closeAndScore();
+
+      const market = await cryptoPriceGuessContract.getEventMarket(0);
+      expect(market.results).to.deep.eq([0n, 1n, 1n]);
+      expect(await decryptError(signers.alice)).to.eq(1);
+    });
+
+    it("should average encrypted bounds and rank the tightest bounds around the price first", async function () {
+      await createMarket(BOUNDS, []);
+      await expect(submit(signers.alice, 500000)).to.be.revertedWith("Use submitBoundsPrediction");
+
+      await submitBounds(signers.alice, 505000, 515000); // contains the price, 10000 wide
+      await submitBounds(signers.bob, 530000, 520000); // swapped, misses the price by 10000
+
+      const [lower, upper] = await cryptoPriceGuessContract.getUserEncryptedBounds(0, signers.bob.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, lower, cryptoPriceGuessContractAddress, signers.bob)
+      ).to.eq(520000);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, upper, cryptoPriceGuessContractAddress, signers.bob)
+      ).to.eq(530000);
+
+      await closeAndScore();
+
+      const market = await cryptoPriceGuessContract.getEventMarket(0);
+      expect(market.results).to.deep.eq([512500n, 522500n]);
+      expect((await cryptoPriceGuessContract.getPredictionEvent(0)).decryptedAveragePrice).to.eq(517500);
+
+      expect(await decryptError(signers.alice)).to.eq(10000);
+      expect(await decryptError(signers.bob)).to.eq(20000);
+
+      await cryptoPriceGuessContract.connect(signers.deployer).revealLeaderboard(0);
+      await fhevm.awaitDecryptionOracle();
+      expect((await cryptoPriceGuessContract.eventLeaderboards(0)).winner).to.eq(signers.alice.address);
+    });
+
+    it("should update and withdraw encrypted bounds", async function () {
+      await createMarket(BOUNDS, []);
+
+      await submitBounds(signers.alice, 505000, 515000);
+      await submitBounds(signers.bob, 520000, 530000);
+      await submitBounds(signers.charlie, 400000, 600000);
+
+      const update = await fhevm
+        .createEncryptedInput(cryptoPriceGuessContractAddress, signers.bob.address)
+        .add32(520000)
+        .add32(500000)
+        .encrypt();
+      await expect(
+        cryptoPriceGuessContract.connect(signers.bob).updatePrediction(0, update.handles[0], update.inputProof)
+      ).to.be.revertedWith("Use updateBoundsPrediction");
+      await cryptoPriceGuessContract
+        .connect(signers.bob)
+        .updateBoundsPrediction(0, update.handles[0], update.handles[1], update.inputProof);
+      await cryptoPriceGuessContract.connect(signers.charlie).withdrawPrediction(0);
+
+      const [lower, upper] = await cryptoPriceGuessContract.getUserEncryptedBounds(0, signers.bob.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, lower, cryptoPriceGuessContractAddress, signers.bob)
+      ).to.eq(500000);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, upper, cryptoPriceGuessContractAddress, signers.bob)
+      ).to.eq(520000);
+
+      await closeAndScore();
+
+      const market = await cryptoPriceGuessContract.getEventMarket(0);
+      expect(market.results).to.deep.eq([502500n, 517500n]);
+    });
+  });
+
+  describe("crypto balls", function () {
+    const actualPrice = 500000; // $5,000
+
+    // Runs an ETH event with the given predictions to finalization, actual price set; returns its id
+    async function finalizeEventWith(predictions: [HardhatEthersSigner, number][]) {
+      const eventId = Number(await cryptoPriceGuessContract.getEventCount());
+      const latestBlock = await ethers.provider.getBlock("latest");
+      await cryptoPriceGuessContract
+        .connect(signers.deployer)
+        .createPredictionEvent("ETH balls", 1, latestBlock!.timestamp + 3600, 1);
+      for (const [predictor, price] of predictions) {
+        const encrypted = await fhevm
+          .createEncryptedInput(cryptoPriceGuessContractAddress, predictor.address)
+          .add32(price)
+          .encrypt();
+        await cryptoPriceGuessContract
+          .connect(predictor)
+          .submitPrediction(eventId, encrypted.handles[0], encrypted.inputProof);
+      }
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(eventId);
+      await cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(eventId, actualPrice);
+      await cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(eventId);
+      await fhevm.awaitDecryptionOracle();
+      return eventId;
+    }
+
+    // The ball is minted once the oracle reveals the rarity tier
+    async function claimBall(user: HardhatEthersSigner, eventId: number) {
+      await cryptoPriceGuessContract.connect(user).generateCryptoBall(eventId);
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("should mint one ball per prediction with a rarity tier from its accuracy", async function () {
+      const eventId = await finalizeEventWith([
+        [signers.alice, 502000], // 0.4% off
+        [signers.bob, 520000], // 4% off
+        [signers.charlie, 400000], // 20% off
+      ]);
+
+      await expect(cryptoPriceGuessContract.connect(signers.alice).generateCryptoBall(eventId))
+        .to.emit(cryptoPriceGuessContract, "CryptoBallClaimRequested")
+        .withArgs(eventId, signers.alice.address, anyValue);
+      await fhevm.awaitDecryptionOracle();
+      await claimBall(signers.bob, eventId);
+      await claimBall(signers.charlie, eventId);
+
+      const crystal = await ballsContract.getCryptoBall(0);
+      expect(crystal.ballType).to.eq(0);
+      expect(crystal.powerLevel).to.eq(100);
+      expect(crystal.owner).to.eq(signers.alice.address);
+      expect((await ballsContract.getCryptoBall(1)).ballType).to.eq(1);
+      expect((await ballsContract.getCryptoBall(2)).ballType).to.eq(2);
+
+      expect(await cryptoPriceGuessContract.hasClaimedBall(eventId, signers.alice.address)).to.eq(true);
+      await expect(cryptoPriceGuessContract.connect(signers.alice).generateCryptoBall(eventId)).to.be.revertedWith(
+        "Ball already claimed"
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.deployer).generateCryptoBall(eventId)).to.be.revertedWith(
+        "User must have submitted prediction"
+      );
+    });
+
+    it("should only mint crystal balls for correct threshold calls", async function () {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      await cryptoPriceGuessContract
+        .connect(signers.deployer)
+        .createMarketEvent("ETH above $4,800?", 1, latestBlock!.timestamp + 3600, 1, 1, [480000]);
+      for (const [predictor, call] of [
+        [signers.alice, 1],
+        [signers.bob, 0],
+      ] as [HardhatEthersSigner, number][]) {
+        const encrypted = await fhevm
+          .createEncryptedInput(cryptoPriceGuessContractAddress, predictor.address)
+          .add32(call)
+          .encrypt();
+        await cryptoPriceGuessContract
+          .connect(predictor)
+          .submitPrediction(0, encrypted.handles[0], encrypted.inputProof);
+      }
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(0);
+      await cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(0);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(cryptoPriceGuessContract.connect(signers.alice).generateCryptoBall(0)).to.be.revertedWith(
+        "Actual price not set"
+      );
+      await cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(0, actualPrice);
+
+      await claimBall(signers.alice, 0);
+      await claimBall(signers.bob, 0);
+      expect((await ballsContract.getCryptoBall(0)).ballType).to.eq(0);
+      expect((await ballsContract.getCryptoBall(1)).ballType).to.eq(2);
+    });
+
+    it("should fuse three balls of a tier into a ball of the next tier", async function () {
+      for (let i = 0; i < 3; i++) {
+        await claimBall(signers.alice, await finalizeEventWith([[signers.alice, 600000]]));
+      }
+
+      await expect(ballsContract.connect(signers.alice).fuseCryptoBalls([0, 1])).to.be.revertedWith(
+        "Wrong number of balls to fuse"
+      );
+      await expect(ballsContract.connect(signers.bob).fuseCryptoBalls([0, 1, 2])).to.be.revertedWith(
+        "Not ball owner"
+      );
+
+      await expect(ballsContract.connect(signers.alice).fuseCryptoBalls([0, 1, 2]))
+        .to.emit(ballsContract, "CryptoBallsFused")
+        .withArgs(3, signers.alice.address, [0, 1, 2]);
+
+      const fused = await ballsContract.getCryptoBall(3);
+      expect(fused.ballType).to.eq(1);
+      expect(fused.powerLevel).to.eq(50);
+      expect(await ballsContract.balanceOf(signers.alice.address)).to.eq(1);
+
+      // Burned balls keep their record, inactive and without an owner
+      const burned = await ballsContract.getCryptoBall(0);
+      expect(burned.isActive).to.eq(false);
+      expect(burned.owner).to.eq(ethers.ZeroAddress);
+      await expect(ballsContract.ownerOf(0)).to.be.revertedWithCustomError(
+        ballsContract,
+        "ERC721NonexistentToken"
+      );
+
+      const history = await ballsContract.getBallUpgradeHistory(3);
+      expect(history.length).to.eq(1);
+      expect(history[0].source).to.eq(0);
+      expect(history[0].newPower).to.eq(50);
+    });
+
+    it("should upgrade a ball's power with other balls and reward points", async function () {
+      await claimBall(signers.alice, await finalizeEventWith([[signers.alice, actualPrice]]));
+      await claimBall(signers.alice, await finalizeEventWith([[signers.alice, 600000]]));
+
+      // A fifth of each minted ball's power: 20 + 5
+      expect(await ballsContract.rewardPoints(signers.alice.address)).to.eq(25);
+
+      await expect(ballsContract.connect(signers.alice).upgradeBallWithBalls(0, [0])).to.be.revertedWith(
+        "Cannot consume the upgraded ball"
+      );
+      await expect(ballsContract.connect(signers.alice).upgradeBallWithBalls(0, [1]))
+        .to.emit(ballsContract, "BallPowerUpgraded")
+        .withArgs(0, 125, signers.alice.address);
+
+      await ballsContract.connect(signers.alice).upgradeBallWithPoints(0, 10);
+      expect((await ballsContract.getCryptoBall(0)).powerLevel).to.eq(135);
+      expect(await ballsContract.rewardPoints(signers.alice.address)).to.eq(15);
+
+      await expect(ballsContract.connect(signers.alice).upgradeBallWithPoints(0, 16)).to.be.revertedWith(
+        "Not enough reward points"
+      );
+      await expect(ballsContract.connect(signers.bob).upgradeBallWithPoints(0, 0)).to.be.revertedWith(
+        "No points to spend"
+      );
+
+      const history = await ballsContract.getBallUpgradeHistory(0);
+      expect(history.map((upgrade) => [upgrade.source, upgrade.previousPower, upgrade.newPower])).to.deep.eq([
+        [1n, 100n, 125n],
+        [2n, 125n, 135n],
+      ]);
+    });
+
+    it("should filter, sort and page a user's balls", async function () {
+      // No balls yet: an empty result instead of an underflow in the sort
+      const empty = await ballsContract.getFilteredUserBalls(signers.alice.address, 0, 0, 0, 0, 10, 0);
+      expect(empty.ballIds).to.deep.eq([]);
+      expect(empty.totalMatches).to.eq(0);
+
+      // Crystal, prediction and vault balls, in that order
+      for (const price of [500000, 510000, 600000]) {
+        await claimBall(signers.alice, await finalizeEventWith([[signers.alice, price]]));
+      }
+
+      const crystals = await ballsContract.getFilteredUserBalls(signers.alice.address, 1, 0, 0, 0, 10, 0);
+      expect(crystals.ballIds).to.deep.eq([0n]);
+      expect(crystals.totalMatches).to.eq(1);
+
+      // By power level, descending
+      const firstPage = await ballsContract.getFilteredUserBalls(signers.alice.address, 0, 1, 1, 1, 2, 0);
+      expect(firstPage.ballIds).to.deep.eq([0n, 1n]);
+      expect(firstPage.powerLevels).to.deep.eq([100n, 50n]);
+      expect(firstPage.totalMatches).to.eq(3);
+
+      const lastPage = await ballsContract.getFilteredUserBalls(signers.alice.address, 0, 1, 1, 1, 2, 2);
+      expect(lastPage.ballIds).to.deep.eq([2n]);
+      expect(lastPage.totalMatches).to.eq(3);
+
+      const pastTheEnd = await ballsContract.getFilteredUserBalls(signers.alice.address, 0, 0, 0, 0, 2, 4);
+      expect(pastTheEnd.ballIds).to.deep.eq([]);
+      expect(pastTheEnd.totalMatches).to.eq(3);
+    });
+
+    it("should transfer balls as ERC-721 tokens and keep the owner index in sync", async function () {
+      await claimBall(signers.alice, await finalizeEventWith([[signers.alice, actualPrice]]));
+      await claimBall(signers.alice, await finalizeEventWith([[signers.alice, actualPrice]]));
+
+      expect(await ballsContract.balanceOf(signers.alice.address)).to.eq(2);
+      expect(await ballsContract.ownerOf(0)).to.eq(signers.alice.address);
+      expect(await ballsContract.totalSupply()).to.eq(2);
+
+      // Single-token approval
+      await ballsContract.connect(signers.alice).approve(signers.bob.address, 0);
+      await expect(
+        ballsContract.connect(signers.bob).transferFrom(signers.alice.address, signers.bob.address, 0)
+      )
+        .to.emit(ballsContract, "Transfer")
+        .withArgs(signers.alice.address, signers.bob.address, 0);
+      expect(await ballsContract.getApproved(0)).to.eq(ethers.ZeroAddress);
+
+      // Operator approval
+      await ballsContract.connect(signers.alice).setApprovalForAll(signers.charlie.address, true);
+      await ballsContract
+        .connect(signers.charlie)
+        ["safeTransferFrom(address,address,uint256)"](signers.alice.address, signers.bob.address, 1);
+
+      expect(await ballsContract.balanceOf(signers.alice.address)).to.eq(0);
+      expect(await ballsContract.tokenOfOwnerByIndex(signers.bob.address, 1)).to.eq(1);
+      const bobBalls = await ballsContract.getFilteredUserBalls(signers.bob.address, 0, 0, 0, 0, 10, 0);
+      expect(bobBalls.ballIds).to.deep.eq([0n, 1n]);
+      expect((await ballsContract.getCryptoBall(1)).owner).to.eq(signers.bob.address);
+
+      await expect(
+        ballsContract.connect(signers.alice).transferFrom(signers.bob.address, signers.alice.address, 0)
+      ).to.be.revertedWithCustomError(ballsContract, "ERC721InsufficientApproval");
+
+      // Contracts that do not implement onERC721Received cannot receive safe transfers
+      const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+      const token = (await tokenFactory.deploy("Stake Token", "STK")) as MockERC20;
+      await expect(
+        ballsContract
+          .connect(signers.bob)
+          ["safeTransferFrom(address,address,uint256)"](signers.bob.address, await token.getAddress(), 0)
+      ).to.be.revertedWithCustomError(ballsContract, "ERC721InvalidReceiver");
+    });
+
+    it("should render on-chain SVG metadata", async function () {
+      await claimBall(signers.alice, await finalizeEventWith([[signers.alice, 600000]]));
+
+      const uri = await ballsContract.tokenURI(0);
+      expect(uri.startsWith("data:application/json;base64,")).to.eq(true);
+      const metadata = JSON.parse(Buffer.from(uri.split(",")[1], "base64").toString());
+      expect(metadata.name).to.eq("CryptoBall #0");
+      expect(metadata.attributes).to.deep.include({ trait_type: "Type", value: "Vault" });
+      expect(metadata.attributes).to.deep.include({ trait_type: "Power Level", display_type: "number", value: 25 });
+
+      const svg = Buffer.from(metadata.image.split(",")[1], "base64").toString();
+      expect(svg).to.contain("<svg");
+      expect(svg).to.contain("Vault #0 | Power 25");
+
+      expect(await ballsContract.supportsInterface("0x80ac58cd")).to.eq(true); // ERC-721
+      expect(await ballsContract.supportsInterface("0x5b5e139f")).to.eq(true); // ERC-721 Metadata
+      await expect(ballsContract.tokenURI(1)).to.be.revertedWithCustomError(
+        ballsContract,
+        "ERC721NonexistentToken"
+      );
+    });
+
+    it("should manage collections and index the public ones", async function () {
+      for (let i = 0; i < 3; i++) {
+        await claimBall(signers.alice, await finalizeEventWith([[signers.alice, actualPrice]]));
+      }
+
+      await ballsContract.connect(signers.alice).createBallCollection("Favourites", true);
+      await ballsContract.connect(signers.alice).createBallCollection("Hidden", false);
+      await ballsContract.connect(signers.bob).createBallCollection("Bob's", true);
+      expect(await ballsContract.getUserCollectionIds(signers.alice.address)).to.deep.eq([0n, 1n]);
+
+      const firstPage = await ballsContract.getPublicCollections(1, 0);
+      expect(firstPage.collectionIds).to.deep.eq([0n]);
+      expect(firstPage.names).to.deep.eq(["Favourites"]);
+      expect(firstPage.owners).to.deep.eq([signers.alice.address]);
+      expect(firstPage.total).to.eq(2);
+      expect((await ballsContract.getPublicCollections(10, 1)).collectionIds).to.deep.eq([2n]);
+      expect((await ballsContract.getPublicCollections(10, 5)).collectionIds).to.deep.eq([]);
+
+      for (const ballId of [0, 1, 2]) {
+        await ballsContract.connect(signers.alice).addBallToCollection(0, ballId);
+      }
+      await expect(ballsContract.connect(signers.alice).addBallToCollection(0, 1)).to.be.revertedWith(
+        "Ball already in collection"
+      );
+      await expect(ballsContract.connect(signers.bob).addBallToCollection(2, 0)).to.be.revertedWith("Not ball owner");
+      expect((await ballsContract.getPublicCollections(10, 0)).ballCounts).to.deep.eq([3n, 0n]);
+
+      // Reordering must be a permutation of the current balls
+      await expect(ballsContract.connect(signers.alice).reorderCollectionBalls(0, [2, 0])).to.be.revertedWith(
+        "Ball count mismatch"
+      );
+      await expect(ballsContract.connect(signers.alice).reorderCollectionBalls(0, [2, 2, 0])).to.be.revertedWith(
+        "Duplicate ball"
+      );
+      await expect(ballsContract.connect(signers.alice).reorderCollectionBalls(0, [2, 0, 7])).to.be.revertedWith(
+        "Ball not found in collection"
+      );
+      await expect(ballsContract.connect(signers.bob).reorderCollectionBalls(0, [2, 0, 1])).to.be.revertedWith(
+        "Not a collection curator"
+      );
+      await expect(ballsContract.connect(signers.alice).reorderCollectionBalls(0, [2, 0, 1]))
+        .to.emit(ballsContract, "CollectionReordered")
+        .withArgs(0);
+
+      // Removing keeps the remaining order
+      await ballsContract.connect(signers.alice).removeBallFromCollection(0, 0);
+      await ballsContract.connect(signers.alice).renameBallCollection(0, "Crystals");
+      await expect(ballsContract.connect(signers.alice).renameBallCollection(0, "")).to.be.revertedWith(
+        "Collection name cannot be empty"
+      );
+      const collection = await ballsContract.connect(signers.bob).getBallCollection(0);
+      expect(collection.name).to.eq("Crystals");
+      expect(collection.ballIds).to.deep.eq([2n, 1n]);
+
+      // Hiding swaps the last public collection into the freed slot
+      await expect(ballsContract.connect(signers.alice).setCollectionPublic(0, false))
+        .to.emit(ballsContract, "CollectionVisibilityChanged")
+        .withArgs(0, false);
+      await expect(ballsContract.connect(signers.alice).setCollectionPublic(0, false)).to.be.revertedWith(
+        "Visibility unchanged"
+      );
+      await expect(ballsContract.connect(signers.bob).getBallCollection(0)).to.be.revertedWith(
+        "Collection not accessible"
+      );
+      await ballsContract.connect(signers.alice).setCollectionPublic(1, true);
+      const publicCollections = await ballsContract.getPublicCollections(10, 0);
+      expect(publicCollections.collectionIds).to.deep.eq([2n, 1n]);
+      expect(publicCollections.total).to.eq(2);
+    });
+
+    it("should let curators share a collection and transfer it as a whole", async function () {
+      // Alice: balls 0 and 1, Bob: ball 2
+      await claimBall(signers.alice, await finalizeEventWith([[signers.alice, actualPrice]]));
+      await claimBall(signers.alice, await finalizeEventWith([[signers.alice, actualPrice]]));
+      await claimBall(signers.bob, await finalizeEventWith([[signers.bob, actualPrice]]));
+
+      await ballsContract.connect(signers.alice).createBallCollection("Shared", false);
+      await ballsContract.connect(signers.alice).addBallToCollection(0, 0);
+      await ballsContract.connect(signers.alice).addBallToCollection(0, 1);
+      await expect(ballsContract.connect(signers.bob).addBallToCollection(0, 2)).to.be.revertedWith(
+        "Not a collection curator"
+      );
+
+      await expect(ballsContract.connect(signers.alice).setCollectionCurator(0, signers.bob.address, 1))
+        .to.emit(ballsContract, "CollectionCuratorSet")
+        .withArgs(0, signers.bob.address, 1);
+      await ballsContract.connect(signers.bob).addBallToCollection(0, 2);
+      expect(await ballsContract.getCuratedCollectionIds(signers.bob.address)).to.deep.eq([0n]);
+
+      // Editors reorder and remove their own balls, but cannot rename, remove others' balls or appoint curators
+      await ballsContract.connect(signers.bob).reorderCollectionBalls(0, [2, 1, 0]);
+      await expect(ballsContract.connect(signers.bob).renameBallCollection(0, "Mine")).to.be.revertedWith(
+        "Collection role too low"
+      );
+      await expect(ballsContract.connect(signers.bob).removeBallFromCollection(0, 0)).to.be.revertedWith(
+        "Collection role too low"
+      );
+      await expect(
+        ballsContract.connect(signers.bob).setCollectionCurator(0, signers.charlie.address, 1)
+      ).to.be.revertedWith("Not allowed to set this role");
+
+      // Managers appoint editors, but not other managers
+      await ballsContract.connect(signers.alice).setCollectionCurator(0, signers.bob.address, 2);
+      await ballsContract.connect(signers.bob).setCollectionCurator(0, signers.charlie.address, 1);
+      await expect(
+        ballsContract.connect(signers.bob).setCollectionCurator(0, signers.charlie.address, 2)
+      ).to.be.revertedWith("Not allowed to set this role");
+      const curators = await ballsContract.getCollectionCurators(0);
+      expect(curators.curators).to.deep.eq([signers.bob.address, signers.charlie.address]);
+      expect(curators.roles).to.deep.eq([2n, 1n]);
+      expect((await ballsContract.connect(signers.charlie).getBallCollection(0)).ballIds).to.deep.eq([2n, 1n, 0n]);
+
+      // A ball moving to someone outside the collection leaves it; to a curator, it stays
+      await ballsContract.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, 1);
+      await expect(ballsContract.connect(signers.bob).transferFrom(signers.bob.address, signers.deployer.address, 1))
+        .to.emit(ballsContract, "BallRemovedFromCollection")
+        .withArgs(0, 1, signers.bob.address);
+      expect((await ballsContract.connect(signers.alice).getBallCollection(0)).ballIds).to.deep.eq([2n, 0n]);
+
+      // Transferring moves the owner's balls with the collection; the new owner gives up their curator role
+      await expect(
+        ballsContract.connect(signers.bob).transferBallCollection(0, signers.charlie.address)
+      ).to.be.revertedWith("Not collection owner");
+      await expect(ballsContract.connect(signers.alice).transferBallCollection(0, signers.charlie.address))
+        .to.emit(ballsContract, "CollectionTransferred")
+        .withArgs(0, signers.alice.address, signers.charlie.address);
+      expect(await ballsContract.ownerOf(0)).to.eq(signers.charlie.address);
+      expect(await ballsContract.ownerOf(2)).to.eq(signers.bob.address);
+      expect(await ballsContract.collectionRoles(0, signers.charlie.address)).to.eq(0);
+      expect(await ballsContract.getUserCollectionIds(signers.alice.address)).to.deep.eq([]);
+      expect(await ballsContract.getUserCollectionIds(signers.charlie.address)).to.deep.eq([0n]);
+      expect(await ballsContract.getCuratedCollectionIds(signers.charlie.address)).to.deep.eq([]);
+      await expect(ballsContract.connect(signers.alice).getBallCollection(0)).to.be.revertedWith(
+        "Collection not accessible"
+      );
+
+      // A curator stepping down takes their balls out of the collection
+      await ballsContract.connect(signers.bob).setCollectionCurator(0, signers.bob.address, 0);
+      const collection = await ballsContract.connect(signers.charlie).getBallCollection(0);
+      expect(collection.owner).to.eq(signers.charlie.address);
+      expect(collection.ballIds).to.deep.eq([0n]);
+      expect(await ballsContract.getCuratedCollectionIds(signers.bob.address)).to.deep.eq([]);
+    });
+  });
+
+  describe("prize pools", function () {
+    const stake = ethers.parseEther("1");
+    const actualPrice = 510000; // $5,100
+
+    async function createStakedEvent(stakeToken: string, payoutShares: number[]) {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      const targetDate = latestBlock!.timestamp + 3600;
+
+      await cryptoPriceGuessContract
+        .connect(signers.deployer)
+        .createStakedPredictionEvent("ETH Price Pool", 1, targetDate, 1, stakeToken, stake, payoutShares);
+    }
+
+    async function submit(signer: HardhatEthersSigner, price: number, value: bigint) {
+      const encryptedPrice = await fhevm
+        .createEncryptedInput(cryptoPriceGuessContractAddress, signer.address)
+        .add32(price)
+        .encrypt();
+      return cryptoPriceGuessContract
+        .connect(signer)
+        .submitPrediction(0, encryptedPrice.handles[0], encryptedPrice.inputProof, { value });
+    }
+
+    async function settleEvent() {
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(0);
+      await cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(0, actualPrice);
+      await cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(0);
+      await fhevm.awaitDecryptionOracle();
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 0);
+      await cryptoPriceGuessContract.connect(signers.deployer).revealLeaderboard(0);
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("should validate pool configuration", async function () {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      const targetDate = latestBlock!.timestamp + 3600;
+
+      await expect(
+        cryptoPriceGuessContract
+          .connect(signers.deployer)
+          .createStakedPredictionEvent("Pool", 0, targetDate, 1, ethers.ZeroAddress, stake, [6000, 3000])
+      ).to.be.revertedWith("Payout shares must sum to 10000");
+      await expect(
+        cryptoPriceGuessContract
+          .connect(signers.deployer)
+          .createStakedPredictionEvent("Pool", 0, targetDate, 1, ethers.ZeroAddress, 0, [10000])
+      ).to.be.revertedWith("Stake must be greater than 0");
+      await expect(
+        cryptoPriceGuessContract
+          .connect(signers.deployer)
+          .createStakedPredictionEvent("Pool", 0, targetDate, 1, ethers.ZeroAddress, stake, [])
+      ).to.be.revertedWith("Invalid number of payout ranks");
+    });
+
+    it("should require the exact ETH entry stake", async function () {
+      await createStakedEvent(ethers.ZeroAddress, [10000]);
+
+      await expect(submit(signers.alice, 500000, 0n)).to.be.revertedWith("Incorrect ETH stake");
+      await expect(submit(signers.alice, 500000, stake * 2n)).to.be.revertedWith("Incorrect ETH stake");
+
+      await submit(signers.alice, 500000, stake);
+      const pool = await cryptoPriceGuessContract.getEventPool(0);
+      expect(pool.totalStaked).to.eq(stake);
+    });
+
+    it("should reject ETH sent to a free event", async function () {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      await cryptoPriceGuessContract
+        .connect(signers.deployer)
+        .createPredictionEvent("Free", 0, latestBlock!.timestamp + 3600, 1);
+
+      await expect(submit(signers.alice, 500000, stake)).to.be.revertedWith("Incorrect ETH stake");
+    });
+
+    it("should pay the ETH pool to the closest predictors by payout share", async function () {
+      await createStakedEvent(ethers.ZeroAddress, [7000, 3000]);
+
+      await submit(signers.alice, 500000, stake); // off by 10000
+      await submit(signers.bob, 600000, stake); // off by 90000
+      await submit(signers.charlie, 512000, stake); // off by 2000
+      await settleEvent();
+
+      expect(await cryptoPriceGuessContract.getClaimableAmount(0, signers.charlie.address)).to.eq(
+        ethers.parseEther("2.1")
+      );
+      expect(await cryptoPriceGuessContract.getClaimableAmount(0, signers.bob.address)).to.eq(0);
+
+      await expect(cryptoPriceGuessContract.connect(signers.charlie).claimWinnings(0)).to.changeEtherBalance(
+        signers.charlie,
+        ethers.parseEther("2.1")
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.alice).claimWinnings(0)).to.changeEtherBalance(
+        signers.alice,
+        ethers.parseEther("0.9")
+      );
+
+      await expect(cryptoPriceGuessContract.connect(signers.charlie).claimWinnings(0)).to.be.revertedWith(
+        "Already claimed"
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.bob).claimWinnings(0)).to.be.revertedWith(
+        "No winnings to claim"
+      );
+    });
+
+    it("should collect ERC-20 stakes and spread unused ranks over the paid ones", async function () {
+      const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+      const token = (await tokenFactory.deploy("Stake Token", "STK")) as MockERC20;
+      const tokenAddress = await token.getAddress();
+
+      // Three paid ranks but only two predictors: 5000 / 3000 of the pool out of 8000
+      await createStakedEvent(tokenAddress, [5000, 3000, 2000]);
+
+      for (const signer of [signers.alice, signers.bob]) {
+        await token.mint(signer.address, stake);
+        await token.connect(signer).approve(cryptoPriceGuessContractAddress, stake);
+      }
+
+      await expect(submit(signers.alice, 500000, stake)).to.be.revertedWith("Incorrect ETH stake");
+      await submit(signers.alice, 500000, 0n);
+      await submit(signers.bob, 515000, 0n);
+      expect(await token.balanceOf(cryptoPriceGuessContractAddress)).to.eq(stake * 2n);
+
+      await settleEvent();
+
+      // Bob (off by 5000) wins 5/8 of the pool, Alice (off by 10000) gets 3/8
+      await expect(cryptoPriceGuessContract.connect(signers.bob).claimWinnings(0)).to.changeTokenBalance(
+        token,
+        signers.bob,
+        ethers.parseEther("1.25")
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.alice).claimWinnings(0)).to.changeTokenBalance(
+        token,
+        signers.alice,
+        ethers.parseEther("0.75")
+      );
+      expect(await token.balanceOf(cryptoPriceGuessContractAddress)).to.eq(0);
+    });
+
+    it("should refund the stake of a withdrawn prediction", async function () {
+      await createStakedEvent(ethers.ZeroAddress, [10000]);
+
+      await submit(signers.alice, 500000, stake);
+      await submit(signers.bob, 515000, stake);
+
+      await expect(cryptoPriceGuessContract.connect(signers.alice).withdrawPrediction(0))
+        .to.emit(cryptoPriceGuessContract, "StakeRefunded")
+        .withArgs(0, signers.alice.address, stake);
+      expect((await cryptoPriceGuessContract.getEventPool(0)).totalStaked).to.eq(stake);
+
+      // A withdrawn predictor can enter again by paying the stake again
+      await submit(signers.alice, 510000, stake);
+      expect((await cryptoPriceGuessContract.getEventPool(0)).totalStaked).to.eq(2n * stake);
+
+      await settleEvent();
+      expect(await cryptoPriceGuessContract.getClaimableAmount(0, signers.alice.address)).to.eq(2n * stake);
+    });
+
+    it("should refund stakes when the event is cancelled", async function () {
+      await createStakedEvent(ethers.ZeroAddress, [10000]);
+
+      await submit(signers.alice, 500000, stake);
+      await submit(signers.bob, 515000, stake);
+
+      await expect(cryptoPriceGuessContract.connect(signers.alice).cancelPredictionEvent(0)).to.be.revertedWith(
+        "Only admin can perform this action"
+      );
+      await cryptoPriceGuessContract.connect(signers.deployer).cancelPredictionEvent(0);
+
+      await expect(submit(signers.charlie, 510000, stake)).to.be.revertedWith("Event is not active");
+      await expect(cryptoPriceGuessContract.connect(signers.deployer).finalizePredictionEvent(0)).to.be.revertedWith(
+        "Event cancelled"
+      );
+
+      expect(await cryptoPriceGuessContract.getClaimableAmount(0, signers.alice.address)).to.eq(stake);
+      await expect(cryptoPriceGuessContract.connect(signers.alice).claimRefund(0)).to.changeEtherBalance(
+        signers.alice,
+        stake
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.alice).claimRefund(0)).to.be.revertedWith(
+        "Already claimed"
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.charlie).claimRefund(0)).to.be.revertedWith(
+        "User has not predicted"
+      );
+    });
+
+    it("should let predictors reclaim their stake once the admin misses the resolution deadline", async function () {
+      await createStakedEvent(ethers.ZeroAddress, [10000]);
+
+      await submit(signers.alice, 500000, stake);
+      await submit(signers.bob, 515000, stake);
+      await submit(signers.charlie, 510000, stake);
+
+      // A withdrawal moves the last predictor into the freed slot
+      await cryptoPriceGuessContract.connect(signers.alice).withdrawPrediction(0);
+      const [predictors] = await cryptoPriceGuessContract.getEventLeaderboard(0);
+      expect(predictors).to.deep.eq([signers.charlie.address, signers.bob.address]);
+
+      // Scored but never revealed
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(0);
+      await cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(0, actualPrice);
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 0);
+
+      await expect(cryptoPriceGuessContract.connect(signers.bob).claimRefund(0)).to.be.revertedWith(
+        "Event not cancelled"
+      );
+      expect(await cryptoPriceGuessContract.getClaimableAmount(0, signers.bob.address)).to.eq(0);
+
+      const resolutionPeriod = await cryptoPriceGuessContract.RESOLUTION_PERIOD();
+      await ethers.provider.send("evm_increaseTime", [Number(resolutionPeriod)]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await cryptoPriceGuessContract.isResolutionOverdue(0)).to.eq(true);
+      expect(await cryptoPriceGuessContract.getClaimableAmount(0, signers.bob.address)).to.eq(stake);
+
+      // The first refund cancels the event, so the pool can no longer be paid to the leaderboard
+      const refund = cryptoPriceGuessContract.connect(signers.bob).claimRefund(0);
+      await expect(refund).to.changeEtherBalance(signers.bob, stake);
+      await expect(refund).to.emit(cryptoPriceGuessContract, "PredictionEventCancelled").withArgs(0);
+      expect((await cryptoPriceGuessContract.getEventPool(0)).isCancelled).to.eq(true);
+      expect(await cryptoPriceGuessContract.isResolutionOverdue(0)).to.eq(false);
+      await expect(cryptoPriceGuessContract.connect(signers.deployer).revealLeaderboard(0)).to.be.revertedWith(
+        "Event cancelled"
+      );
+
+      await expect(cryptoPriceGuessContract.connect(signers.charlie).claimRefund(0)).to.changeEtherBalance(
+        signers.charlie,
+        stake
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.alice).claimRefund(0)).to.be.revertedWith(
+        "User has not predicted"
+      );
+    });
+
+    it("should refund a revealed event that was never finalized once the deadline passes", async function () {
+      await createStakedEvent(ethers.ZeroAddress, [10000]);
+
+      await submit(signers.alice, 500000, stake);
+      await submit(signers.bob, 515000, stake);
+
+      // Revealed without finalizing, so no winnings can be claimed
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await cryptoPriceGuessContract.connect(signers.deployer).endPredictionEvent(0);
+      await cryptoPriceGuessContract.connect(signers.deployer).setActualPrice(0, actualPrice);
+      await cryptoPriceGuessContract.connect(signers.deployer).scorePredictions(0, 0);
+      await cryptoPriceGuessContract.connect(signers.deployer).revealLeaderboard(0);
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await cryptoPriceGuessContract.eventLeaderboards(0)).isRevealed).to.eq(true);
+      await expect(cryptoPriceGuessContract.connect(signers.bob).claimWinnings(0)).to.be.revertedWith(
+        "Event not finalized"
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.deployer).cancelPredictionEvent(0)).to.be.revertedWith(
+        "Leaderboard already revealed"
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.alice).claimRefund(0)).to.be.revertedWith(
+        "Event not cancelled"
+      );
+
+      const resolutionPeriod = await cryptoPriceGuessContract.RESOLUTION_PERIOD();
+      await ethers.provider.send("evm_increaseTime", [Number(resolutionPeriod)]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await cryptoPriceGuessContract.isResolutionOverdue(0)).to.eq(true);
+      expect(await cryptoPriceGuessContract.getClaimableAmount(0, signers.bob.address)).to.eq(stake);
+
+      await expect(cryptoPriceGuessContract.connect(signers.bob).claimRefund(0)).to.changeEtherBalance(
+        signers.bob,
+        stake
+      );
+      await expect(cryptoPriceGuessContract.connect(signers.alice).claimRefund(0)).to.changeEtherBalance(
+        signers.alice,
+        stake
+      );
+      expect((await cryptoPriceGuessContract.getEventPool(0)).isCancelled).to.eq(true);
+    });
+  });
+});
@@ -0,0 +1,483 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { CryptoVault, CryptoVault__factory } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  charlie: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("CryptoVault")) as CryptoVault__factory;
+  const vaultContract = (await factory.deploy()) as CryptoVault;
+  const vaultContractAddress = await vaultContract.getAddress();
+
+  return { vaultContract, vaultContractAddress };
+}
+
+// Arguments of the decryption callback the oracle relayed last (call right after awaitDecryptionOracle)
+async function lastOracleCallback(contract: CryptoVault) {
+  const block = await ethers.provider.getBlock("latest", true);
+  const call = contract.interface.parseTransaction(block!.prefetchedTransactions.at(-1)!)!;
+  const [requestId, cleartexts, decryptionProof] = call.args as unknown as [bigint, string, string];
+  return { name: call.name, requestId, cleartexts, decryptionProof };
+}
+
+describe("CryptoVault", function () {
+  let signers: Signers;
+  let vaultContract: CryptoVault;
+  let vaultContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      charlie: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ vaultContract, vaultContractAddress } = await deployFixture());
+  });
+
+  async function storeValue(user: HardhatEthersSigner, value: number) {
+    const encrypted = await fhevm.createEncryptedInput(vaultContractAddress, user.address).add32(value).encrypt();
+    return vaultContract.connect(user).storeEncryptedValue(encrypted.handles[0], encrypted.inputProof);
+  }
+
+  it("should store values only their owner can decrypt and list them per user", async function () {
+    await expect(storeValue(signers.alice, 1234))
+      .to.emit(vaultContract, "ValueStored")
+      .withArgs(0, signers.alice.address);
+    await storeValue(signers.bob, 99);
+    await storeValue(signers.alice, 5678);
+
+    expect(await vaultContract.getUserStorageIds(signers.alice.address)).to.deep.eq([0n, 2n]);
+    expect(await vaultContract.getUserStorageCount(signers.bob.address)).to.eq(1);
+
+    const entry = await vaultContract.encryptedStorages(2);
+    expect(entry.owner).to.eq(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, entry.storedValue, vaultContractAddress, signers.alice),
+    ).to.eq(5678);
+
+    await expect(
+      vaultContract.connect(signers.bob).transferEncryptedStorage(0, signers.bob.address),
+    ).to.be.revertedWith("Not the owner");
+    await vaultContract.connect(signers.alice).transferEncryptedStorage(0, signers.bob.address);
+    expect(await vaultContract.getUserStorageIds(signers.alice.address)).to.deep.eq([2n]);
+    expect(await vaultContract.getUserStorageIds(signers.bob.address)).to.deep.eq([1n, 0n]);
+  });
+
+  it("should keep values private unless the owner publishes them", async function () {
+    await storeValue(signers.alice, 4242);
+
+    // Retrieval hands the owner the handle to user-decrypt; nothing is decrypted on-chain
+    const handle = await vaultContract.connect(signers.alice).retrieveEncryptedValue(0);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, vaultContractAddress, signers.alice)).to.eq(4242);
+    await expect(vaultContract.connect(signers.bob).retrieveEncryptedValue(0)).to.be.revertedWith("Not the owner");
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, vaultContractAddress, signers.bob)).to.be.rejected;
+
+    await expect(vaultContract.connect(signers.bob).publishEncryptedValue(0)).to.be.revertedWith("Not the owner");
+    await vaultContract.connect(signers.alice).publishEncryptedValue(0);
+    await expect(vaultContract.connect(signers.alice).publishEncryptedValue(0)).to.be.revertedWith(
+      "Value already published",
+    );
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await vaultContract.encryptedStorages(0)).isEncrypted).to.eq(false);
+    const [published] = await vaultContract.queryFilter(vaultContract.filters.ValuePublished(0));
+    expect(published.args.owner).to.eq(signers.alice.address);
+    expect(published.args.value).to.eq(4242);
+  });
+
+  it("should only accept the oracle's answer to the entry's own publication request", async function () {
+    await storeValue(signers.alice, 4242);
+    await storeValue(signers.bob, 99);
+
+    // A publication is answered once
+    await vaultContract.connect(signers.bob).publishEncryptedValue(1);
+    await fhevm.awaitDecryptionOracle();
+    const publication = await lastOracleCallback(vaultContract);
+    expect(publication.name).to.eq("valuePublishCallback");
+    await expect(
+      vaultContract.valuePublishCallback(publication.requestId, publication.cleartexts, publication.decryptionProof),
+    ).to.be.revertedWith("Unknown vault publication");
+    expect(await vaultContract.publishedVaultValues(1)).to.eq(99);
+
+    // Another vault's answer to its request of the same id, signed by the KMS like any other
+    const { vaultContract: otherVault, vaultContractAddress: otherVaultAddress } = await deployFixture();
+    const encrypted = await fhevm
+      .createEncryptedInput(otherVaultAddress, signers.charlie.address)
+      .add32(6500000)
+      .encrypt();
+    await otherVault.connect(signers.charlie).storeEncryptedValue(encrypted.handles[0], encrypted.inputProof);
+    await otherVault.connect(signers.charlie).publishEncryptedValue(0);
+    await fhevm.awaitDecryptionOracle();
+
+    // Its signatures cover the other vault's handles, so the KMS verifier rejects them for this vault's request
+    const foreign = await lastOracleCallback(otherVault);
+    expect(foreign.requestId).to.eq(publication.requestId);
+    await expect(vaultContract.valuePublishCallback(foreign.requestId, foreign.cleartexts, foreign.decryptionProof)).to
+      .be.reverted;
+    expect((await vaultContract.encryptedStorages(0)).isEncrypted).to.eq(true);
+  });
+
+  it("should hand the decryption rights to the recipient of a transfer", async function () {
+    await storeValue(signers.alice, 777);
+    const oldHandle = (await vaultContract.encryptedStorages(0)).storedValue;
+
+    await expect(vaultContract.connect(signers.alice).transferEncryptedStorage(0, signers.bob.address))
+      .to.emit(vaultContract, "StorageTransferred")
+      .withArgs(0, signers.alice.address, signers.bob.address);
+
+    // A fresh handle for the same value, decryptable by the recipient only
+    const newHandle = await vaultContract.connect(signers.bob).retrieveEncryptedValue(0);
+    expect(newHandle).to.not.eq(oldHandle);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, newHandle, vaultContractAddress, signers.bob)).to.eq(777);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, newHandle, vaultContractAddress, signers.alice)).to.be
+      .rejected;
+    await expect(vaultContract.connect(signers.alice).retrieveEncryptedValue(0)).to.be.revertedWith("Not the owner");
+
+    // Passing it on again leaves the previous recipient without access as well
+    await vaultContract.connect(signers.bob).transferEncryptedStorage(0, signers.charlie.address);
+    const charlieHandle = (await vaultContract.encryptedStorages(0)).storedValue;
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, charlieHandle, vaultContractAddress, signers.charlie)).to.eq(
+      777,
+    );
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, charlieHandle, vaultContractAddress, signers.bob)).to.be
+      .rejected;
+
+    // The contract kept access, so the new owner can still publish the value
+    await vaultContract.connect(signers.charlie).publishEncryptedValue(0);
+    await fhevm.awaitDecryptionOracle();
+    const [published] = await vaultContract.queryFilter(vaultContract.filters.ValuePublished(0));
+    expect(published.args.owner).to.eq(signers.charlie.address);
+    expect(published.args.value).to.eq(777);
+  });
+
+  it("should store typed, labelled entries and filter them by type and expiry", async function () {
+    const contractAddress = vaultContractAddress;
+    const UINT8 = 1;
+    const ADDRESS = 5;
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add8(42)
+      .addBool(true)
+      .addAddress(signers.charlie.address)
+      .add64(2n ** 40n)
+      .encrypt();
+    const [pin, flag, backup, balance] = encrypted.handles;
+    const proof = encrypted.inputProof;
+    const store = vaultContract.connect(signers.alice).storeEncryptedEntry;
+
+    await expect(store(UINT8, pin, proof, "x".repeat(65), 0)).to.be.revertedWith("Label too long");
+    await expect(store(UINT8, pin, proof, "pin", now)).to.be.revertedWith("Expiry must be in the future");
+    // The handle's encrypted type has to match the declared one
+    await expect(store(ADDRESS, pin, proof, "pin", 0)).to.be.reverted;
+
+    await store(UINT8, pin, proof, "pin", 0);
+    await store(0, flag, proof, "flag", 0);
+    await store(ADDRESS, backup, proof, "backup", 0);
+    await store(4, balance, proof, "balance", now + 3600);
+
+    const entry = await vaultContract.encryptedStorages(2);
+    expect(entry.valueType).to.eq(ADDRESS);
+    expect(entry.label).to.eq("backup");
+    expect(entry.expiresAt).to.eq(0);
+
+    const retrieve = vaultContract.connect(signers.alice).retrieveEncryptedValue;
+    expect(await fhevm.userDecryptEuint(FhevmType.euint8, await retrieve(0), contractAddress, signers.alice)).to.eq(42);
+    expect(await fhevm.userDecryptEbool(await retrieve(1), contractAddress, signers.alice)).to.eq(true);
+    expect(await fhevm.userDecryptEaddress(await retrieve(2), contractAddress, signers.alice)).to.eq(
+      signers.charlie.address,
+    );
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, await retrieve(3), contractAddress, signers.alice)).to.eq(
+      2n ** 40n,
+    );
+
+    const all = await vaultContract.getFilteredVaultEntries(signers.alice.address, 0, false, 10, 0);
+    expect(all.storageIds).to.deep.eq([0n, 1n, 2n, 3n]);
+    expect(all.labels).to.deep.eq(["pin", "flag", "backup", "balance"]);
+    const addresses = await vaultContract.getFilteredVaultEntries(signers.alice.address, ADDRESS + 1, false, 10, 0);
+    expect(addresses.storageIds).to.deep.eq([2n]);
+    const page = await vaultContract.getFilteredVaultEntries(signers.alice.address, 0, false, 2, 1);
+    expect(page.storageIds).to.deep.eq([1n, 2n]);
+    expect(page.totalMatches).to.eq(4);
+
+    // Typed values re-derive on transfer too
+    await vaultContract.connect(signers.alice).transferEncryptedStorage(2, signers.bob.address);
+    const bobHandle = await vaultContract.connect(signers.bob).retrieveEncryptedValue(2);
+    expect(await fhevm.userDecryptEaddress(bobHandle, contractAddress, signers.bob)).to.eq(signers.charlie.address);
+    await expect(fhevm.userDecryptEaddress(bobHandle, contractAddress, signers.alice)).to.be.rejected;
+
+    await vaultContract.connect(signers.alice).publishEncryptedValue(1);
+    await fhevm.awaitDecryptionOracle();
+    const [published] = await vaultContract.queryFilter(vaultContract.filters.ValuePublished(1));
+    expect(published.args.valueType).to.eq(0);
+    expect(published.args.value).to.eq(1);
+
+    // Expired entries drop out of the list and can no longer be used
+    await ethers.provider.send("evm_increaseTime", [3601]);
+    await ethers.provider.send("evm_mine", []);
+    await expect(retrieve(3)).to.be.revertedWith("Entry expired");
+    await expect(vaultContract.connect(signers.alice).publishEncryptedValue(3)).to.be.revertedWith("Entry expired");
+    const live = await vaultContract.getFilteredVaultEntries(signers.alice.address, 0, false, 10, 0);
+    expect(live.storageIds).to.deep.eq([0n, 1n]);
+    const withExpired = await vaultContract.getFilteredVaultEntries(signers.alice.address, 0, true, 10, 0);
+    expect(withExpired.storageIds).to.deep.eq([0n, 1n, 3n]);
+  });
+
+  it("should share read access until it expires or is revoked", async function () {
+    const contractAddress = vaultContractAddress;
+    const decrypt = (handle: string, user: HardhatEthersSigner) =>
+      fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, user);
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    await storeValue(signers.alice, 31337);
+    const share = vaultContract.connect(signers.alice).shareVaultEntry;
+
+    await expect(
+      vaultContract.connect(signers.bob).shareVaultEntry(0, signers.charlie.address, now + 3600),
+    ).to.be.revertedWith("Not the owner");
+    await expect(share(0, signers.alice.address, now + 3600)).to.be.revertedWith("Invalid grantee");
+    await expect(share(0, signers.bob.address, now)).to.be.revertedWith("Expiry must be in the future");
+
+    await expect(share(0, signers.bob.address, now + 3600))
+      .to.emit(vaultContract, "VaultEntryShared")
+      .withArgs(0, signers.bob.address, now + 3600);
+    await share(0, signers.charlie.address, now + 7200);
+
+    const [grantees, expiries] = await vaultContract.getVaultGrantees(0);
+    expect(grantees).to.deep.eq([signers.bob.address, signers.charlie.address]);
+    expect(expiries).to.deep.eq([BigInt(now + 3600), BigInt(now + 7200)]);
+    expect(await vaultContract.getSharedVaultEntryIds(signers.bob.address)).to.deep.eq([0n]);
+
+    const sharedHandle = await vaultContract.connect(signers.bob).retrieveSharedVaultValue(0);
+    expect(await decrypt(sharedHandle, signers.bob)).to.eq(31337);
+    expect(await decrypt(sharedHandle, signers.charlie)).to.eq(31337);
+    await expect(vaultContract.connect(signers.deployer).retrieveSharedVaultValue(0)).to.be.revertedWith(
+      "Not shared with you",
+    );
+
+    // Revoking moves the entry to a fresh handle the revoked grantee cannot decrypt
+    await expect(vaultContract.connect(signers.alice).revokeVaultShare(0, signers.charlie.address))
+      .to.emit(vaultContract, "VaultShareRevoked")
+      .withArgs(0, signers.charlie.address);
+    await expect(vaultContract.connect(signers.alice).revokeVaultShare(0, signers.charlie.address)).to.be.revertedWith(
+      "Not shared with this address",
+    );
+    const afterRevoke = (await vaultContract.encryptedStorages(0)).storedValue;
+    expect(afterRevoke).to.not.eq(sharedHandle);
+    expect(await decrypt(afterRevoke, signers.alice)).to.eq(31337);
+    expect(await decrypt(afterRevoke, signers.bob)).to.eq(31337);
+    await expect(decrypt(afterRevoke, signers.charlie)).to.be.rejected;
+    expect(await vaultContract.getSharedVaultEntryIds(signers.charlie.address)).to.deep.eq([]);
+
+    // Once expired the share stops counting, and pruning it takes the access away
+    await ethers.provider.send("evm_increaseTime", [3601]);
+    await ethers.provider.send("evm_mine", []);
+    expect(await vaultContract.getSharedVaultEntryIds(signers.bob.address)).to.deep.eq([]);
+    await expect(vaultContract.connect(signers.bob).retrieveSharedVaultValue(0)).to.be.revertedWith(
+      "Not shared with you",
+    );
+    await vaultContract.connect(signers.charlie).pruneExpiredVaultShares(0);
+    await expect(vaultContract.connect(signers.charlie).pruneExpiredVaultShares(0)).to.be.revertedWith(
+      "No expired shares",
+    );
+    const afterPrune = (await vaultContract.encryptedStorages(0)).storedValue;
+    expect(await decrypt(afterPrune, signers.alice)).to.eq(31337);
+    await expect(decrypt(afterPrune, signers.bob)).to.be.rejected;
+    expect((await vaultContract.getVaultGrantees(0)).grantees).to.deep.eq([]);
+
+    // A transfer drops the previous owner's shares
+    await share(0, signers.bob.address, now + 86400);
+    await vaultContract.connect(signers.alice).transferEncryptedStorage(0, signers.charlie.address);
+    expect((await vaultContract.getVaultGrantees(0)).grantees).to.deep.eq([]);
+    expect(await vaultContract.vaultShareExpiry(0, signers.bob.address)).to.eq(0);
+    const afterTransfer = (await vaultContract.encryptedStorages(0)).storedValue;
+    await expect(decrypt(afterTransfer, signers.bob)).to.be.rejected;
+  });
+
+  it("should add, subtract, compare and bound entries without decrypting them", async function () {
+    const contractAddress = vaultContractAddress;
+    const UINT8 = 1;
+    const vault = vaultContract.connect(signers.alice);
+    const valueOf = async (storageId: number, user: HardhatEthersSigner = signers.alice) =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        (await vaultContract.encryptedStorages(storageId)).storedValue,
+        contractAddress,
+        user,
+      );
+    const amount32 = (value: number) =>
+      fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(value).encrypt();
+
+    await storeValue(signers.alice, 100);
+    await storeValue(signers.alice, 250);
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    await vault.shareVaultEntry(0, signers.bob.address, now + 3600);
+
+    let amount = await amount32(50);
+    await expect(vault.addToVaultEntry(0, amount.handles[0], amount.inputProof))
+      .to.emit(vaultContract, "VaultEntryUpdated")
+      .withArgs(0, signers.alice.address);
+    expect(await valueOf(0)).to.eq(150);
+    // Live grantees keep reading the running value
+    expect(await valueOf(0, signers.bob)).to.eq(150);
+
+    amount = await amount32(40);
+    await vault.subtractFromVaultEntry(0, amount.handles[0], amount.inputProof);
+    expect(await valueOf(0)).to.eq(110);
+    // More than the balance: the entry stays as it was
+    amount = await amount32(111);
+    await vault.subtractFromVaultEntry(0, amount.handles[0], amount.inputProof);
+    expect(await valueOf(0)).to.eq(110);
+
+    amount = await amount32(1);
+    await expect(
+      vaultContract.connect(signers.bob).addToVaultEntry(0, amount.handles[0], amount.inputProof),
+    ).to.be.revertedWith("Not the owner");
+
+    // The result of a comparison is a new, encrypted BOOL entry
+    await vault.compareVaultEntries(0, 1, 2);
+    const result = await vaultContract.encryptedStorages(2);
+    expect(result.valueType).to.eq(0);
+    expect(result.label).to.eq("#0 < #1");
+    expect(await fhevm.userDecryptEbool(result.storedValue, contractAddress, signers.alice)).to.eq(true);
+    await vault.compareVaultEntries(0, 1, 0);
+    const equal = (await vaultContract.encryptedStorages(3)).storedValue;
+    expect(await fhevm.userDecryptEbool(equal, contractAddress, signers.alice)).to.eq(false);
+    await expect(vault.compareVaultEntries(2, 3, 0)).to.be.revertedWith("Not a number entry");
+
+    await vault.maxVaultEntries(0, 1);
+    expect(await valueOf(0)).to.eq(250);
+    amount = await amount32(200);
+    await vault.subtractFromVaultEntry(1, amount.handles[0], amount.inputProof);
+    await vault.minVaultEntries(0, 1);
+    expect(await valueOf(0)).to.eq(50);
+
+    // Sums are bounded by the entry's own type
+    const small = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add8(200)
+      .add8(100)
+      .encrypt();
+    await vault.storeEncryptedEntry(UINT8, small.handles[0], small.inputProof, "counter", 0);
+    await expect(vault.compareVaultEntries(0, 4, 0)).to.be.revertedWith("Entry types differ");
+    await vault.addToVaultEntry(4, small.handles[1], small.inputProof);
+    const counter = (await vaultContract.encryptedStorages(4)).storedValue;
+    expect(await fhevm.userDecryptEuint(FhevmType.euint8, counter, contractAddress, signers.alice)).to.eq(200);
+
+    // A published value is final
+    await vault.publishEncryptedValue(0);
+    amount = await amount32(1);
+    await expect(vault.addToVaultEntry(0, amount.handles[0], amount.inputProof)).to.be.revertedWith(
+      "Value already published",
+    );
+  });
+
+  it("should let anyone publish a time-locked entry once its owner stops pushing the release back", async function () {
+    const UINT32 = 3;
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const encrypted = await fhevm
+      .createEncryptedInput(vaultContractAddress, signers.alice.address)
+      .add32(65000)
+      .encrypt();
+    const vault = vaultContract.connect(signers.alice);
+    const keeper = vaultContract.connect(signers.charlie);
+
+    await expect(
+      vault.storeTimeLockedEntry(UINT32, encrypted.handles[0], encrypted.inputProof, "BTC call", now),
+    ).to.be.revertedWith("Release time must be in the future");
+    await expect(vault.storeTimeLockedEntry(UINT32, encrypted.handles[0], encrypted.inputProof, "BTC call", now + 3600))
+      .to.emit(vaultContract, "VaultReleaseScheduled")
+      .withArgs(0, now + 3600);
+    await storeValue(signers.alice, 1);
+
+    expect((await vaultContract.encryptedStorages(0)).releaseAt).to.eq(now + 3600);
+    await expect(keeper.releaseVaultEntry(0)).to.be.revertedWith("Release time not reached");
+    await expect(keeper.releaseVaultEntry(1)).to.be.revertedWith("Not time-locked");
+
+    // Heartbeats only come from the owner and only move the release time forward
+    await expect(keeper.heartbeatVaultEntry(0, now + 7200)).to.be.revertedWith("Not the owner");
+    await expect(vault.heartbeatVaultEntry(0, now + 1800)).to.be.revertedWith("Release time can only move forward");
+    await expect(vault.heartbeatVaultEntry(0, now + 7200))
+      .to.emit(vaultContract, "VaultReleaseScheduled")
+      .withArgs(0, now + 7200);
+
+    // A commitment cannot be changed
+    const amount = await fhevm.createEncryptedInput(vaultContractAddress, signers.alice.address).add32(1).encrypt();
+    await expect(vault.addToVaultEntry(0, amount.handles[0], amount.inputProof)).to.be.revertedWith(
+      "Entry is time-locked",
+    );
+
+    expect((await vaultContract.getPendingVaultReleases(false, 10, 0)).storageIds).to.deep.eq([0n]);
+    expect((await vaultContract.getPendingVaultReleases(true, 10, 0)).storageIds).to.deep.eq([]);
+
+    await ethers.provider.send("evm_increaseTime", [7200]);
+    await ethers.provider.send("evm_mine", []);
+    await expect(vault.heartbeatVaultEntry(0, now + 86400)).to.be.revertedWith("Release time passed");
+    const [dueIds, dueReleaseAt, totalDue] = await vaultContract.getPendingVaultReleases(true, 10, 0);
+    expect(dueIds).to.deep.eq([0n]);
+    expect(dueReleaseAt).to.deep.eq([BigInt(now + 7200)]);
+    expect(totalDue).to.eq(1);
+
+    await expect(keeper.releaseVaultEntry(0))
+      .to.emit(vaultContract, "VaultReleaseTriggered")
+      .withArgs(0, signers.charlie.address);
+    await expect(keeper.releaseVaultEntry(0)).to.be.revertedWith("Value already published");
+    expect((await vaultContract.getPendingVaultReleases(false, 10, 0)).storageIds).to.deep.eq([]);
+
+    await fhevm.awaitDecryptionOracle();
+    expect((await vaultContract.encryptedStorages(0)).isEncrypted).to.eq(false);
+    expect(await vaultContract.publishedVaultValues(0)).to.eq(65000);
+    const [published] = await vaultContract.queryFilter(vaultContract.filters.ValuePublished(0));
+    expect(published.args.owner).to.eq(signers.alice.address);
+    expect(published.args.value).to.eq(65000);
+  });
+
+  it("should not let another request's proof publish a released entry", async function () {
+    const UINT32 = 3;
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const encrypted = await fhevm
+      .createEncryptedInput(vaultContractAddress, signers.alice.address)
+      .add32(65000)
+      .encrypt();
+    await vaultContract
+      .connect(signers.alice)
+      .storeTimeLockedEntry(UINT32, encrypted.handles[0], encrypted.inputProof, "BTC call", now + 3600);
+    await storeValue(signers.bob, 1);
+
+    await vaultContract.connect(signers.bob).publishEncryptedValue(1);
+    await fhevm.awaitDecryptionOracle();
+    const publication = await lastOracleCallback(vaultContract);
+
+    await ethers.provider.send("evm_increaseTime", [3600]);
+    await ethers.provider.send("evm_mine", []);
+    await vaultContract.connect(signers.charlie).releaseVaultEntry(0);
+
+    // The released entry awaits its own request; bob's signed answer cannot settle it
+    await expect(
+      vaultContract.valuePublishCallback(publication.requestId, publication.cleartexts, publication.decryptionProof),
+    ).to.be.revertedWith("Unknown vault publication");
+    expect((await vaultContract.encryptedStorages(0)).isEncrypted).to.eq(true);
+
+    await fhevm.awaitDecryptionOracle();
+    expect(await vaultContract.publishedVaultValues(0)).to.eq(65000);
+  });
+});
@@ -0,0 +1,10 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as introspection from "./introspection";
+export type { introspection };
+import type * as math from "./math";
+export type { math };
+export type { Base64 } from "./Base64";
+export type { ReentrancyGuard } from "./ReentrancyGuard";
+export type { Strings } from "./Strings";
@@ -0,0 +1,686 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface CryptoBallAuctionInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_DURATION"
+      | "auctionRevealCallback"
+      | "balls"
+      | "cancelAuction"
+      | "claimRefund"
+      | "closeAuction"
+      | "createAuction"
+      | "deposits"
+      | "getAuction"
+      | "getAuctionCount"
+      | "getBidders"
+      | "getEncryptedBid"
+      | "pendingWithdrawals"
+      | "placeBid"
+      | "protocolId"
+      | "withdraw"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AuctionCancelled"
+      | "AuctionClosed"
+      | "AuctionCreated"
+      | "AuctionSettled"
+      | "BidPlaced"
+      | "DecryptionFulfilled"
+      | "RefundClaimed"
+      | "Withdrawal"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctionRevealCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "balls", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "cancelAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRefund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAuction",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deposits",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBidders",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedBid",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingWithdrawals",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeBid",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionRevealCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "balls", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "deposits", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getAuction", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBidders", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedBid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingWithdrawals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "placeBid", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+}
+
+export namespace AuctionCancelledEvent {
+  export type InputTuple = [auctionId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionClosedEvent {
+  export type InputTuple = [auctionId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint, requestId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionCreatedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    ballId: BigNumberish,
+    seller: AddressLike,
+    reservePrice: BigNumberish,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    ballId: bigint,
+    seller: string,
+    reservePrice: bigint,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    ballId: bigint;
+    seller: string;
+    reservePrice: bigint;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionSettledEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    winner: AddressLike,
+    winningBid: BigNumberish,
+    royalty: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    winner: string,
+    winningBid: bigint,
+    royalty: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    winner: string;
+    winningBid: bigint;
+    royalty: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidPlacedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    deposit: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    deposit: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    deposit: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundClaimedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [auctionId: bigint, bidder: string, amount: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CryptoBallAuction extends BaseContract {
+  connect(runner?: ContractRunner | null): CryptoBallAuction;
+  waitForDeployment(): Promise<this>;
+
+  interface: CryptoBallAuctionInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  auctionRevealCallback: TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+
+  balls: TypedContractMethod<[], [string], "view">;
+
+  cancelAuction: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimRefund: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeAuction: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createAuction: TypedContractMethod<
+    [
+      _ballId: BigNumberish,
+      _reservePrice: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  deposits: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getAuction: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, bigint, bigint, string, bigint] & {
+        ballId: bigint;
+        seller: string;
+        reservePrice: bigint;
+        endTime: bigint;
+        bidCount: bigint;
+        status: bigint;
+        winner: string;
+        winningBid: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getAuctionCount: TypedContractMethod<[], [bigint], "view">;
+
+  getBidders: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getEncryptedBid: TypedContractMethod<
+    [_auctionId: BigNumberish, _bidder: AddressLike],
+    [string],
+    "view"
+  >;
+
+  pendingWithdrawals: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  placeBid: TypedContractMethod<
+    [_auctionId: BigNumberish, _encryptedBid: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "auctionRevealCallback"
+  ): TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "balls"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "cancelAuction"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimRefund"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeAuction"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "createAuction"
+  ): TypedContractMethod<
+    [
+      _ballId: BigNumberish,
+      _reservePrice: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "deposits"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuction"
+  ): TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, bigint, bigint, string, bigint] & {
+        ballId: bigint;
+        seller: string;
+        reservePrice: bigint;
+        endTime: bigint;
+        bidCount: bigint;
+        status: bigint;
+        winner: string;
+        winningBid: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuctionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBidders"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedBid"
+  ): TypedContractMethod<
+    [_auctionId: BigNumberish, _bidder: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingWithdrawals"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "placeBid"
+  ): TypedContractMethod<
+    [_auctionId: BigNumberish, _encryptedBid: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "AuctionCancelled"
+  ): TypedContractEvent<
+    AuctionCancelledEvent.InputTuple,
+    AuctionCancelledEvent.OutputTuple,
+    AuctionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionClosed"
+  ): TypedContractEvent<
+    AuctionClosedEvent.InputTuple,
+    AuctionClosedEvent.OutputTuple,
+    AuctionClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionCreated"
+  ): TypedContractEvent<
+    AuctionCreatedEvent.InputTuple,
+    AuctionCreatedEvent.OutputTuple,
+    AuctionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionSettled"
+  ): TypedContractEvent<
+    AuctionSettledEvent.InputTuple,
+    AuctionSettledEvent.OutputTuple,
+    AuctionSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidPlaced"
+  ): TypedContractEvent<
+    BidPlacedEvent.InputTuple,
+    BidPlacedEvent.OutputTuple,
+    BidPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundClaimed"
+  ): TypedContractEvent<
+    RefundClaimedEvent.InputTuple,
+    RefundClaimedEvent.OutputTuple,
+    RefundClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawal"
+  ): TypedContractEvent<
+    WithdrawalEvent.InputTuple,
+    WithdrawalEvent.OutputTuple,
+    WithdrawalEvent.OutputObject
+  >;
+
+  filters: {
+    "AuctionCancelled(uint256)": TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+    AuctionCancelled: TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+
+    "AuctionClosed(uint256,uint256)": TypedContractEvent<
+      AuctionClosedEvent.InputTuple,
+      AuctionClosedEvent.OutputTuple,
+      AuctionClosedEvent.OutputObject
+    >;
+    AuctionClosed: TypedContractEvent<
+      AuctionClosedEvent.InputTuple,
+      AuctionClosedEvent.OutputTuple,
+      AuctionClosedEvent.OutputObject
+    >;
+
+    "AuctionCreated(uint256,uint256,address,uint256,uint256)": TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+    AuctionCreated: TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+
+    "AuctionSettled(uint256,address,uint256,uint256)": TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+    AuctionSettled: TypedContractEvent<
+      AuctionSettledEvent.InputTuple,
+      AuctionSettledEvent.OutputTuple,
+      AuctionSettledEvent.OutputObject
+    >;
+
+    "BidPlaced(uint256,address,uint256)": TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+    BidPlaced: TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "RefundClaimed(uint256,address,uint256)": TypedContractEvent<
+      RefundClaimedEvent.InputTuple,
+      RefundClaimedEvent.OutputTuple,
+      RefundClaimedEvent.OutputObject
+    >;
+    RefundClaimed: TypedContractEvent<
+      RefundClaimedEvent.InputTuple,
+      RefundClaimedEvent.OutputTuple,
+      RefundClaimedEvent.OutputObject
+    >;
+
+    "Withdrawal(address,uint256)": TypedContractEvent<
+      WithdrawalEvent.InputTuple,
+      WithdrawalEvent.OutputTuple,
+      WithdrawalEvent.OutputObject
+    >;
+    Withdrawal: TypedContractEvent<
+      WithdrawalEvent.InputTuple,
+      WithdrawalEvent.OutputTuple,
+      WithdrawalEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,572 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface CryptoBallMarketplaceInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "acceptOffer"
+      | "balls"
+      | "buyBall"
+      | "cancelListing"
+      | "cancelOffer"
+      | "getFilteredListings"
+      | "getOffers"
+      | "listBall"
+      | "listings"
+      | "makeOffer"
+      | "offers"
+      | "pendingWithdrawals"
+      | "withdraw"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BallListed"
+      | "BallSold"
+      | "ListingCancelled"
+      | "OfferCancelled"
+      | "OfferMade"
+      | "Withdrawal"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "acceptOffer",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "balls", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "buyBall",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelListing",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOffer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFilteredListings",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOffers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listBall",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listings",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "makeOffer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "offers",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingWithdrawals",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "acceptOffer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "balls", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "buyBall", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelListing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOffer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFilteredListings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getOffers", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "listBall", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "listings", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "makeOffer", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "offers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingWithdrawals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+}
+
+export namespace BallListedEvent {
+  export type InputTuple = [
+    ballId: BigNumberish,
+    seller: AddressLike,
+    price: BigNumberish
+  ];
+  export type OutputTuple = [ballId: bigint, seller: string, price: bigint];
+  export interface OutputObject {
+    ballId: bigint;
+    seller: string;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BallSoldEvent {
+  export type InputTuple = [
+    ballId: BigNumberish,
+    seller: AddressLike,
+    buyer: AddressLike,
+    price: BigNumberish,
+    royalty: BigNumberish
+  ];
+  export type OutputTuple = [
+    ballId: bigint,
+    seller: string,
+    buyer: string,
+    price: bigint,
+    royalty: bigint
+  ];
+  export interface OutputObject {
+    ballId: bigint;
+    seller: string;
+    buyer: string;
+    price: bigint;
+    royalty: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingCancelledEvent {
+  export type InputTuple = [ballId: BigNumberish, seller: AddressLike];
+  export type OutputTuple = [ballId: bigint, seller: string];
+  export interface OutputObject {
+    ballId: bigint;
+    seller: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OfferCancelledEvent {
+  export type InputTuple = [
+    ballId: BigNumberish,
+    buyer: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [ballId: bigint, buyer: string, amount: bigint];
+  export interface OutputObject {
+    ballId: bigint;
+    buyer: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OfferMadeEvent {
+  export type InputTuple = [
+    ballId: BigNumberish,
+    buyer: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [ballId: bigint, buyer: string, amount: bigint];
+  export interface OutputObject {
+    ballId: bigint;
+    buyer: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CryptoBallMarketplace extends BaseContract {
+  connect(runner?: ContractRunner | null): CryptoBallMarketplace;
+  waitForDeployment(): Promise<this>;
+
+  interface: CryptoBallMarketplaceInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  acceptOffer: TypedContractMethod<
+    [_ballId: BigNumberish, _buyer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  balls: TypedContractMethod<[], [string], "view">;
+
+  buyBall: TypedContractMethod<[_ballId: BigNumberish], [void], "payable">;
+
+  cancelListing: TypedContractMethod<
+    [_ballId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelOffer: TypedContractMethod<
+    [_ballId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFilteredListings: TypedContractMethod<
+    [
+      _ballTypeFilter: BigNumberish,
+      _minPower: BigNumberish,
+      _maxPower: BigNumberish,
+      _sortBy: BigNumberish,
+      _sortOrder: BigNumberish,
+      _limit: BigNumberish,
+      _offset: BigNumberish
+    ],
+    [
+      [bigint[], bigint[], string[], bigint] & {
+        ballIds: bigint[];
+        prices: bigint[];
+        sellers: string[];
+        totalMatches: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getOffers: TypedContractMethod<
+    [_ballId: BigNumberish],
+    [[string[], bigint[]] & { buyers: string[]; amounts: bigint[] }],
+    "view"
+  >;
+
+  listBall: TypedContractMethod<
+    [_ballId: BigNumberish, _price: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  listings: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint] & {
+        seller: string;
+        price: bigint;
+        listedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  makeOffer: TypedContractMethod<[_ballId: BigNumberish], [void], "payable">;
+
+  offers: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  pendingWithdrawals: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "acceptOffer"
+  ): TypedContractMethod<
+    [_ballId: BigNumberish, _buyer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "balls"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "buyBall"
+  ): TypedContractMethod<[_ballId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "cancelListing"
+  ): TypedContractMethod<[_ballId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelOffer"
+  ): TypedContractMethod<[_ballId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getFilteredListings"
+  ): TypedContractMethod<
+    [
+      _ballTypeFilter: BigNumberish,
+      _minPower: BigNumberish,
+      _maxPower: BigNumberish,
+      _sortBy: BigNumberish,
+      _sortOrder: BigNumberish,
+      _limit: BigNumberish,
+      _offset: BigNumberish
+    ],
+    [
+      [bigint[], bigint[], string[], bigint] & {
+        ballIds: bigint[];
+        prices: bigint[];
+        sellers: string[];
+        totalMatches: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOffers"
+  ): TypedContractMethod<
+    [_ballId: BigNumberish],
+    [[string[], bigint[]] & { buyers: string[]; amounts: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "listBall"
+  ): TypedContractMethod<
+    [_ballId: BigNumberish, _price: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "listings"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint] & {
+        seller: string;
+        price: bigint;
+        listedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "makeOffer"
+  ): TypedContractMethod<[_ballId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "offers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingWithdrawals"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "BallListed"
+  ): TypedContractEvent<
+    BallListedEvent.InputTuple,
+    BallListedEvent.OutputTuple,
+    BallListedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BallSold"
+  ): TypedContractEvent<
+    BallSoldEvent.InputTuple,
+    BallSoldEvent.OutputTuple,
+    BallSoldEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingCancelled"
+  ): TypedContractEvent<
+    ListingCancelledEvent.InputTuple,
+    ListingCancelledEvent.OutputTuple,
+    ListingCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OfferCancelled"
+  ): TypedContractEvent<
+    OfferCancelledEvent.InputTuple,
+    OfferCancelledEvent.OutputTuple,
+    OfferCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OfferMade"
+  ): TypedContractEvent<
+    OfferMadeEvent.InputTuple,
+    OfferMadeEvent.OutputTuple,
+    OfferMadeEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawal"
+  ): TypedContractEvent<
+    WithdrawalEvent.InputTuple,
+    WithdrawalEvent.OutputTuple,
+    WithdrawalEvent.OutputObject
+  >;
+
+  filters: {
+    "BallListed(uint256,address,uint256)": TypedContractEvent<
+      BallListedEvent.InputTuple,
+      BallListedEvent.OutputTuple,
+      BallListedEvent.OutputObject
+    >;
+    BallListed: TypedContractEvent<
+      BallListedEvent.InputTuple,
+      BallListedEvent.OutputTuple,
+      BallListedEvent.OutputObject
+    >;
+
+    "BallSold(uint256,address,address,uint256,uint256)": TypedContractEvent<
+      BallSoldEvent.InputTuple,
+      BallSoldEvent.OutputTuple,
+      BallSoldEvent.OutputObject
+    >;
+    BallSold: TypedContractEvent<
+      BallSoldEvent.InputTuple,
+      BallSoldEvent.OutputTuple,
+      BallSoldEvent.OutputObject
+    >;
+
+    "ListingCancelled(uint256,address)": TypedContractEvent<
+      ListingCancelledEvent.InputTuple,
+      ListingCancelledEvent.OutputTuple,
+      ListingCancelledEvent.OutputObject
+    >;
+    ListingCancelled: TypedContractEvent<
+      ListingCancelledEvent.InputTuple,
+      ListingCancelledEvent.OutputTuple,
+      ListingCancelledEvent.OutputObject
+    >;
+
+    "OfferCancelled(uint256,address,uint256)": TypedContractEvent<
+      OfferCancelledEvent.InputTuple,
+      OfferCancelledEvent.OutputTuple,
+      OfferCancelledEvent.OutputObject
+    >;
+    OfferCancelled: TypedContractEvent<
+      OfferCancelledEvent.InputTuple,
+      OfferCancelledEvent.OutputTuple,
+      OfferCancelledEvent.OutputObject
+    >;
+
+    "OfferMade(uint256,address,uint256)": TypedContractEvent<
+      OfferMadeEvent.InputTuple,
+      OfferMadeEvent.OutputTuple,
+      OfferMadeEvent.OutputObject
+    >;
+    OfferMade: TypedContractEvent<
+      OfferMadeEvent.InputTuple,
+      OfferMadeEvent.OutputTuple,
+      OfferMadeEvent.OutputObject
+    >;
+
+    "Withdrawal(address,uint256)": TypedContractEvent<
+      WithdrawalEvent.InputTuple,
+      WithdrawalEvent.OutputTuple,
+      WithdrawalEvent.OutputObject
+    >;
+    Withdrawal: TypedContractEvent<
+      WithdrawalEvent.InputTuple,
+      WithdrawalEvent.OutputTuple,
+      WithdrawalEvent.OutputObject
+    >;
+  };
+}
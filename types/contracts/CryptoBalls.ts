@@ -0,0 +1,1781 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace CryptoBalls {
+  export type PowerUpgradeStruct = {
+    source: BigNumberish;
+    previousPower: BigNumberish;
+    newPower: BigNumberish;
+    timestamp: BigNumberish;
+  };
+
+  export type PowerUpgradeStructOutput = [
+    source: bigint,
+    previousPower: bigint,
+    newPower: bigint,
+    timestamp: bigint
+  ] & {
+    source: bigint;
+    previousPower: bigint;
+    newPower: bigint;
+    timestamp: bigint;
+  };
+}
+
+export interface CryptoBallsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "FUSION_COST"
+      | "MAX_COLLECTION_BALLS"
+      | "ROYALTY_BPS"
+      | "addBallToCollection"
+      | "approve"
+      | "balanceOf"
+      | "ballCollections"
+      | "ballSourceEvents"
+      | "collectionRoles"
+      | "createBallCollection"
+      | "cryptoBalls"
+      | "fuseCryptoBalls"
+      | "getApproved"
+      | "getBallCollection"
+      | "getBallCount"
+      | "getBallUpgradeHistory"
+      | "getCollectionCount"
+      | "getCollectionCurators"
+      | "getCryptoBall"
+      | "getCuratedCollectionIds"
+      | "getFilteredUserBalls"
+      | "getPublicCollections"
+      | "getUserBallCount"
+      | "getUserCollectionCount"
+      | "getUserCollectionIds"
+      | "isApprovedForAll"
+      | "mintClaimedBall"
+      | "minter"
+      | "name"
+      | "ownerOf"
+      | "removeBallFromCollection"
+      | "renameBallCollection"
+      | "reorderCollectionBalls"
+      | "rewardPoints"
+      | "royaltyInfo"
+      | "safeTransferFrom(address,address,uint256)"
+      | "safeTransferFrom(address,address,uint256,bytes)"
+      | "setApprovalForAll"
+      | "setCollectionCurator"
+      | "setCollectionPublic"
+      | "setMinter"
+      | "supportsInterface"
+      | "symbol"
+      | "tokenByIndex"
+      | "tokenOfOwnerByIndex"
+      | "tokenURI"
+      | "totalSupply"
+      | "transferBallCollection"
+      | "transferFrom"
+      | "upgradeBallWithBalls"
+      | "upgradeBallWithPoints"
+      | "userCollections"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "Approval"
+      | "ApprovalForAll"
+      | "BallAddedToCollection"
+      | "BallPowerUpgraded"
+      | "BallRemovedFromCollection"
+      | "CollectionCreated"
+      | "CollectionCuratorSet"
+      | "CollectionRenamed"
+      | "CollectionReordered"
+      | "CollectionTransferred"
+      | "CollectionVisibilityChanged"
+      | "CryptoBallGenerated"
+      | "CryptoBallsFused"
+      | "MinterSet"
+      | "RewardPointsEarned"
+      | "Transfer"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "FUSION_COST",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_COLLECTION_BALLS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ROYALTY_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addBallToCollection",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approve",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ballCollections",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ballSourceEvents",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collectionRoles",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createBallCollection",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cryptoBalls",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fuseCryptoBalls",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApproved",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBallCollection",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBallCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBallUpgradeHistory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCollectionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCollectionCurators",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCryptoBall",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCuratedCollectionIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFilteredUserBalls",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPublicCollections",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserBallCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserCollectionCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserCollectionIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isApprovedForAll",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mintClaimedBall",
+    values: [AddressLike, BigNumberish, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "minter", values?: undefined): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "ownerOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeBallFromCollection",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renameBallCollection",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reorderCollectionBalls",
+    values: [BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardPoints",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "royaltyInfo",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    values: [AddressLike, AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApprovalForAll",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCollectionCurator",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCollectionPublic",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMinter",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tokenByIndex",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenOfOwnerByIndex",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenURI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalSupply",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferBallCollection",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferFrom",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upgradeBallWithBalls",
+    values: [BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upgradeBallWithPoints",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userCollections",
+    values: [AddressLike, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "FUSION_COST",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_COLLECTION_BALLS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ROYALTY_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addBallToCollection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ballCollections",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ballSourceEvents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collectionRoles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createBallCollection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cryptoBalls",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fuseCryptoBalls",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApproved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBallCollection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBallCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBallUpgradeHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCollectionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCollectionCurators",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCryptoBall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCuratedCollectionIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFilteredUserBalls",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPublicCollections",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserBallCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserCollectionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserCollectionIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isApprovedForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mintClaimedBall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "minter", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeBallFromCollection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renameBallCollection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reorderCollectionBalls",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardPoints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "royaltyInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setApprovalForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCollectionCurator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCollectionPublic",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setMinter", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenByIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenOfOwnerByIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalSupply",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferBallCollection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeBallWithBalls",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeBallWithPoints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "userCollections",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ApprovalEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    approved: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [owner: string, approved: string, tokenId: bigint];
+  export interface OutputObject {
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApprovalForAllEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    operator: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    owner: string,
+    operator: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BallAddedToCollectionEvent {
+  export type InputTuple = [
+    collectionId: BigNumberish,
+    ballId: BigNumberish,
+    owner: AddressLike
+  ];
+  export type OutputTuple = [
+    collectionId: bigint,
+    ballId: bigint,
+    owner: string
+  ];
+  export interface OutputObject {
+    collectionId: bigint;
+    ballId: bigint;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BallPowerUpgradedEvent {
+  export type InputTuple = [
+    ballId: BigNumberish,
+    newPowerLevel: BigNumberish,
+    owner: AddressLike
+  ];
+  export type OutputTuple = [
+    ballId: bigint,
+    newPowerLevel: bigint,
+    owner: string
+  ];
+  export interface OutputObject {
+    ballId: bigint;
+    newPowerLevel: bigint;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BallRemovedFromCollectionEvent {
+  export type InputTuple = [
+    collectionId: BigNumberish,
+    ballId: BigNumberish,
+    owner: AddressLike
+  ];
+  export type OutputTuple = [
+    collectionId: bigint,
+    ballId: bigint,
+    owner: string
+  ];
+  export interface OutputObject {
+    collectionId: bigint;
+    ballId: bigint;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollectionCreatedEvent {
+  export type InputTuple = [
+    collectionId: BigNumberish,
+    owner: AddressLike,
+    name: string
+  ];
+  export type OutputTuple = [collectionId: bigint, owner: string, name: string];
+  export interface OutputObject {
+    collectionId: bigint;
+    owner: string;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollectionCuratorSetEvent {
+  export type InputTuple = [
+    collectionId: BigNumberish,
+    curator: AddressLike,
+    role: BigNumberish
+  ];
+  export type OutputTuple = [
+    collectionId: bigint,
+    curator: string,
+    role: bigint
+  ];
+  export interface OutputObject {
+    collectionId: bigint;
+    curator: string;
+    role: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollectionRenamedEvent {
+  export type InputTuple = [collectionId: BigNumberish, name: string];
+  export type OutputTuple = [collectionId: bigint, name: string];
+  export interface OutputObject {
+    collectionId: bigint;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollectionReorderedEvent {
+  export type InputTuple = [collectionId: BigNumberish];
+  export type OutputTuple = [collectionId: bigint];
+  export interface OutputObject {
+    collectionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollectionTransferredEvent {
+  export type InputTuple = [
+    collectionId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike
+  ];
+  export type OutputTuple = [collectionId: bigint, from: string, to: string];
+  export interface OutputObject {
+    collectionId: bigint;
+    from: string;
+    to: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollectionVisibilityChangedEvent {
+  export type InputTuple = [collectionId: BigNumberish, isPublic: boolean];
+  export type OutputTuple = [collectionId: bigint, isPublic: boolean];
+  export interface OutputObject {
+    collectionId: bigint;
+    isPublic: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CryptoBallGeneratedEvent {
+  export type InputTuple = [
+    ballId: BigNumberish,
+    owner: AddressLike,
+    ballType: BigNumberish
+  ];
+  export type OutputTuple = [ballId: bigint, owner: string, ballType: bigint];
+  export interface OutputObject {
+    ballId: bigint;
+    owner: string;
+    ballType: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CryptoBallsFusedEvent {
+  export type InputTuple = [
+    ballId: BigNumberish,
+    owner: AddressLike,
+    burnedBallIds: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    ballId: bigint,
+    owner: string,
+    burnedBallIds: bigint[]
+  ];
+  export interface OutputObject {
+    ballId: bigint;
+    owner: string;
+    burnedBallIds: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MinterSetEvent {
+  export type InputTuple = [minter: AddressLike];
+  export type OutputTuple = [minter: string];
+  export interface OutputObject {
+    minter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardPointsEarnedEvent {
+  export type InputTuple = [user: AddressLike, points: BigNumberish];
+  export type OutputTuple = [user: string, points: bigint];
+  export interface OutputObject {
+    user: string;
+    points: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    to: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [from: string, to: string, tokenId: bigint];
+  export interface OutputObject {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CryptoBalls extends BaseContract {
+  connect(runner?: ContractRunner | null): CryptoBalls;
+  waitForDeployment(): Promise<this>;
+
+  interface: CryptoBallsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  FUSION_COST: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_COLLECTION_BALLS: TypedContractMethod<[], [bigint], "view">;
+
+  ROYALTY_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  addBallToCollection: TypedContractMethod<
+    [_collectionId: BigNumberish, _ballId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  approve: TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  balanceOf: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  ballCollections: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean] & {
+        name: string;
+        owner: string;
+        createdAt: bigint;
+        isPublic: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  ballSourceEvents: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  collectionRoles: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  createBallCollection: TypedContractMethod<
+    [_name: string, _isPublic: boolean],
+    [bigint],
+    "nonpayable"
+  >;
+
+  cryptoBalls: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        ballType: bigint;
+        generationTime: bigint;
+        powerLevel: bigint;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  fuseCryptoBalls: TypedContractMethod<
+    [_ballIds: BigNumberish[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getApproved: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  getBallCollection: TypedContractMethod<
+    [_collectionId: BigNumberish],
+    [
+      [string, string, bigint[], bigint, boolean] & {
+        name: string;
+        owner: string;
+        ballIds: bigint[];
+        createdAt: bigint;
+        isPublic: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getBallCount: TypedContractMethod<[], [bigint], "view">;
+
+  getBallUpgradeHistory: TypedContractMethod<
+    [_ballId: BigNumberish],
+    [CryptoBalls.PowerUpgradeStructOutput[]],
+    "view"
+  >;
+
+  getCollectionCount: TypedContractMethod<[], [bigint], "view">;
+
+  getCollectionCurators: TypedContractMethod<
+    [_collectionId: BigNumberish],
+    [[string[], bigint[]] & { curators: string[]; roles: bigint[] }],
+    "view"
+  >;
+
+  getCryptoBall: TypedContractMethod<
+    [_ballId: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, boolean] & {
+        ballType: bigint;
+        generationTime: bigint;
+        powerLevel: bigint;
+        owner: string;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getCuratedCollectionIds: TypedContractMethod<
+    [_user: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getFilteredUserBalls: TypedContractMethod<
+    [
+      _user: AddressLike,
+      _ballTypeFilter: BigNumberish,
+      _activeFilter: BigNumberish,
+      _sortBy: BigNumberish,
+      _sortOrder: BigNumberish,
+      _limit: BigNumberish,
+      _offset: BigNumberish
+    ],
+    [
+      [bigint[], bigint[], bigint[], boolean[], bigint] & {
+        ballIds: bigint[];
+        ballTypes: bigint[];
+        powerLevels: bigint[];
+        isActive: boolean[];
+        totalMatches: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getPublicCollections: TypedContractMethod<
+    [_limit: BigNumberish, _offset: BigNumberish],
+    [
+      [bigint[], string[], string[], bigint[], bigint] & {
+        collectionIds: bigint[];
+        names: string[];
+        owners: string[];
+        ballCounts: bigint[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getUserBallCount: TypedContractMethod<[_user: AddressLike], [bigint], "view">;
+
+  getUserCollectionCount: TypedContractMethod<
+    [_user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getUserCollectionIds: TypedContractMethod<
+    [_user: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  isApprovedForAll: TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  mintClaimedBall: TypedContractMethod<
+    [
+      _owner: AddressLike,
+      _ballType: BigNumberish,
+      _sourceEventId: BigNumberish,
+      _royaltyReceiver: AddressLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  minter: TypedContractMethod<[], [string], "view">;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  ownerOf: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  removeBallFromCollection: TypedContractMethod<
+    [_collectionId: BigNumberish, _ballId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  renameBallCollection: TypedContractMethod<
+    [_collectionId: BigNumberish, _name: string],
+    [void],
+    "nonpayable"
+  >;
+
+  reorderCollectionBalls: TypedContractMethod<
+    [_collectionId: BigNumberish, _ballIds: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  rewardPoints: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  royaltyInfo: TypedContractMethod<
+    [_ballId: BigNumberish, _salePrice: BigNumberish],
+    [[string, bigint]],
+    "view"
+  >;
+
+  "safeTransferFrom(address,address,uint256)": TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256,bytes)": TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setApprovalForAll: TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setCollectionCurator: TypedContractMethod<
+    [_collectionId: BigNumberish, _curator: AddressLike, _role: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCollectionPublic: TypedContractMethod<
+    [_collectionId: BigNumberish, _isPublic: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setMinter: TypedContractMethod<[_minter: AddressLike], [void], "nonpayable">;
+
+  supportsInterface: TypedContractMethod<
+    [_interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  symbol: TypedContractMethod<[], [string], "view">;
+
+  tokenByIndex: TypedContractMethod<[index: BigNumberish], [bigint], "view">;
+
+  tokenOfOwnerByIndex: TypedContractMethod<
+    [owner: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  tokenURI: TypedContractMethod<[_ballId: BigNumberish], [string], "view">;
+
+  totalSupply: TypedContractMethod<[], [bigint], "view">;
+
+  transferBallCollection: TypedContractMethod<
+    [_collectionId: BigNumberish, _to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferFrom: TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  upgradeBallWithBalls: TypedContractMethod<
+    [_ballId: BigNumberish, _consumedBallIds: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  upgradeBallWithPoints: TypedContractMethod<
+    [_ballId: BigNumberish, _points: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  userCollections: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "FUSION_COST"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_COLLECTION_BALLS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ROYALTY_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addBallToCollection"
+  ): TypedContractMethod<
+    [_collectionId: BigNumberish, _ballId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "approve"
+  ): TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "balanceOf"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ballCollections"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean] & {
+        name: string;
+        owner: string;
+        createdAt: bigint;
+        isPublic: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "ballSourceEvents"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "collectionRoles"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "createBallCollection"
+  ): TypedContractMethod<
+    [_name: string, _isPublic: boolean],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cryptoBalls"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        ballType: bigint;
+        generationTime: bigint;
+        powerLevel: bigint;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "fuseCryptoBalls"
+  ): TypedContractMethod<[_ballIds: BigNumberish[]], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getApproved"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getBallCollection"
+  ): TypedContractMethod<
+    [_collectionId: BigNumberish],
+    [
+      [string, string, bigint[], bigint, boolean] & {
+        name: string;
+        owner: string;
+        ballIds: bigint[];
+        createdAt: bigint;
+        isPublic: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBallCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBallUpgradeHistory"
+  ): TypedContractMethod<
+    [_ballId: BigNumberish],
+    [CryptoBalls.PowerUpgradeStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCollectionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCollectionCurators"
+  ): TypedContractMethod<
+    [_collectionId: BigNumberish],
+    [[string[], bigint[]] & { curators: string[]; roles: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCryptoBall"
+  ): TypedContractMethod<
+    [_ballId: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, boolean] & {
+        ballType: bigint;
+        generationTime: bigint;
+        powerLevel: bigint;
+        owner: string;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCuratedCollectionIds"
+  ): TypedContractMethod<[_user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getFilteredUserBalls"
+  ): TypedContractMethod<
+    [
+      _user: AddressLike,
+      _ballTypeFilter: BigNumberish,
+      _activeFilter: BigNumberish,
+      _sortBy: BigNumberish,
+      _sortOrder: BigNumberish,
+      _limit: BigNumberish,
+      _offset: BigNumberish
+    ],
+    [
+      [bigint[], bigint[], bigint[], boolean[], bigint] & {
+        ballIds: bigint[];
+        ballTypes: bigint[];
+        powerLevels: bigint[];
+        isActive: boolean[];
+        totalMatches: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPublicCollections"
+  ): TypedContractMethod<
+    [_limit: BigNumberish, _offset: BigNumberish],
+    [
+      [bigint[], string[], string[], bigint[], bigint] & {
+        collectionIds: bigint[];
+        names: string[];
+        owners: string[];
+        ballCounts: bigint[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getUserBallCount"
+  ): TypedContractMethod<[_user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getUserCollectionCount"
+  ): TypedContractMethod<[_user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getUserCollectionIds"
+  ): TypedContractMethod<[_user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "isApprovedForAll"
+  ): TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "mintClaimedBall"
+  ): TypedContractMethod<
+    [
+      _owner: AddressLike,
+      _ballType: BigNumberish,
+      _sourceEventId: BigNumberish,
+      _royaltyReceiver: AddressLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "minter"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ownerOf"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "removeBallFromCollection"
+  ): TypedContractMethod<
+    [_collectionId: BigNumberish, _ballId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renameBallCollection"
+  ): TypedContractMethod<
+    [_collectionId: BigNumberish, _name: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reorderCollectionBalls"
+  ): TypedContractMethod<
+    [_collectionId: BigNumberish, _ballIds: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rewardPoints"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "royaltyInfo"
+  ): TypedContractMethod<
+    [_ballId: BigNumberish, _salePrice: BigNumberish],
+    [[string, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256)"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256,bytes)"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setApprovalForAll"
+  ): TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCollectionCurator"
+  ): TypedContractMethod<
+    [_collectionId: BigNumberish, _curator: AddressLike, _role: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCollectionPublic"
+  ): TypedContractMethod<
+    [_collectionId: BigNumberish, _isPublic: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMinter"
+  ): TypedContractMethod<[_minter: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[_interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "symbol"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenByIndex"
+  ): TypedContractMethod<[index: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "tokenOfOwnerByIndex"
+  ): TypedContractMethod<
+    [owner: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "tokenURI"
+  ): TypedContractMethod<[_ballId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "totalSupply"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferBallCollection"
+  ): TypedContractMethod<
+    [_collectionId: BigNumberish, _to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferFrom"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "upgradeBallWithBalls"
+  ): TypedContractMethod<
+    [_ballId: BigNumberish, _consumedBallIds: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "upgradeBallWithPoints"
+  ): TypedContractMethod<
+    [_ballId: BigNumberish, _points: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "userCollections"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getEvent(
+    key: "Approval"
+  ): TypedContractEvent<
+    ApprovalEvent.InputTuple,
+    ApprovalEvent.OutputTuple,
+    ApprovalEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApprovalForAll"
+  ): TypedContractEvent<
+    ApprovalForAllEvent.InputTuple,
+    ApprovalForAllEvent.OutputTuple,
+    ApprovalForAllEvent.OutputObject
+  >;
+  getEvent(
+    key: "BallAddedToCollection"
+  ): TypedContractEvent<
+    BallAddedToCollectionEvent.InputTuple,
+    BallAddedToCollectionEvent.OutputTuple,
+    BallAddedToCollectionEvent.OutputObject
+  >;
+  getEvent(
+    key: "BallPowerUpgraded"
+  ): TypedContractEvent<
+    BallPowerUpgradedEvent.InputTuple,
+    BallPowerUpgradedEvent.OutputTuple,
+    BallPowerUpgradedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BallRemovedFromCollection"
+  ): TypedContractEvent<
+    BallRemovedFromCollectionEvent.InputTuple,
+    BallRemovedFromCollectionEvent.OutputTuple,
+    BallRemovedFromCollectionEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollectionCreated"
+  ): TypedContractEvent<
+    CollectionCreatedEvent.InputTuple,
+    CollectionCreatedEvent.OutputTuple,
+    CollectionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollectionCuratorSet"
+  ): TypedContractEvent<
+    CollectionCuratorSetEvent.InputTuple,
+    CollectionCuratorSetEvent.OutputTuple,
+    CollectionCuratorSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollectionRenamed"
+  ): TypedContractEvent<
+    CollectionRenamedEvent.InputTuple,
+    CollectionRenamedEvent.OutputTuple,
+    CollectionRenamedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollectionReordered"
+  ): TypedContractEvent<
+    CollectionReorderedEvent.InputTuple,
+    CollectionReorderedEvent.OutputTuple,
+    CollectionReorderedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollectionTransferred"
+  ): TypedContractEvent<
+    CollectionTransferredEvent.InputTuple,
+    CollectionTransferredEvent.OutputTuple,
+    CollectionTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollectionVisibilityChanged"
+  ): TypedContractEvent<
+    CollectionVisibilityChangedEvent.InputTuple,
+    CollectionVisibilityChangedEvent.OutputTuple,
+    CollectionVisibilityChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CryptoBallGenerated"
+  ): TypedContractEvent<
+    CryptoBallGeneratedEvent.InputTuple,
+    CryptoBallGeneratedEvent.OutputTuple,
+    CryptoBallGeneratedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CryptoBallsFused"
+  ): TypedContractEvent<
+    CryptoBallsFusedEvent.InputTuple,
+    CryptoBallsFusedEvent.OutputTuple,
+    CryptoBallsFusedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MinterSet"
+  ): TypedContractEvent<
+    MinterSetEvent.InputTuple,
+    MinterSetEvent.OutputTuple,
+    MinterSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardPointsEarned"
+  ): TypedContractEvent<
+    RewardPointsEarnedEvent.InputTuple,
+    RewardPointsEarnedEvent.OutputTuple,
+    RewardPointsEarnedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Transfer"
+  ): TypedContractEvent<
+    TransferEvent.InputTuple,
+    TransferEvent.OutputTuple,
+    TransferEvent.OutputObject
+  >;
+
+  filters: {
+    "Approval(address,address,uint256)": TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+    Approval: TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+
+    "ApprovalForAll(address,address,bool)": TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+    ApprovalForAll: TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+
+    "BallAddedToCollection(uint256,uint256,address)": TypedContractEvent<
+      BallAddedToCollectionEvent.InputTuple,
+      BallAddedToCollectionEvent.OutputTuple,
+      BallAddedToCollectionEvent.OutputObject
+    >;
+    BallAddedToCollection: TypedContractEvent<
+      BallAddedToCollectionEvent.InputTuple,
+      BallAddedToCollectionEvent.OutputTuple,
+      BallAddedToCollectionEvent.OutputObject
+    >;
+
+    "BallPowerUpgraded(uint256,uint256,address)": TypedContractEvent<
+      BallPowerUpgradedEvent.InputTuple,
+      BallPowerUpgradedEvent.OutputTuple,
+      BallPowerUpgradedEvent.OutputObject
+    >;
+    BallPowerUpgraded: TypedContractEvent<
+      BallPowerUpgradedEvent.InputTuple,
+      BallPowerUpgradedEvent.OutputTuple,
+      BallPowerUpgradedEvent.OutputObject
+    >;
+
+    "BallRemovedFromCollection(uint256,uint256,address)": TypedContractEvent<
+      BallRemovedFromCollectionEvent.InputTuple,
+      BallRemovedFromCollectionEvent.OutputTuple,
+      BallRemovedFromCollectionEvent.OutputObject
+    >;
+    BallRemovedFromCollection: TypedContractEvent<
+      BallRemovedFromCollectionEvent.InputTuple,
+      BallRemovedFromCollectionEvent.OutputTuple,
+      BallRemovedFromCollectionEvent.OutputObject
+    >;
+
+    "CollectionCreated(uint256,address,string)": TypedContractEvent<
+      CollectionCreatedEvent.InputTuple,
+      CollectionCreatedEvent.OutputTuple,
+      CollectionCreatedEvent.OutputObject
+    >;
+    CollectionCreated: TypedContractEvent<
+      CollectionCreatedEvent.InputTuple,
+      CollectionCreatedEvent.OutputTuple,
+      CollectionCreatedEvent.OutputObject
+    >;
+
+    "CollectionCuratorSet(uint256,address,uint8)": TypedContractEvent<
+      CollectionCuratorSetEvent.InputTuple,
+      CollectionCuratorSetEvent.OutputTuple,
+      CollectionCuratorSetEvent.OutputObject
+    >;
+    CollectionCuratorSet: TypedContractEvent<
+      CollectionCuratorSetEvent.InputTuple,
+      CollectionCuratorSetEvent.OutputTuple,
+      CollectionCuratorSetEvent.OutputObject
+    >;
+
+    "CollectionRenamed(uint256,string)": TypedContractEvent<
+      CollectionRenamedEvent.InputTuple,
+      CollectionRenamedEvent.OutputTuple,
+      CollectionRenamedEvent.OutputObject
+    >;
+    CollectionRenamed: TypedContractEvent<
+      CollectionRenamedEvent.InputTuple,
+      CollectionRenamedEvent.OutputTuple,
+      CollectionRenamedEvent.OutputObject
+    >;
+
+    "CollectionReordered(uint256)": TypedContractEvent<
+      CollectionReorderedEvent.InputTuple,
+      CollectionReorderedEvent.OutputTuple,
+      CollectionReorderedEvent.OutputObject
+    >;
+    CollectionReordered: TypedContractEvent<
+      CollectionReorderedEvent.InputTuple,
+      CollectionReorderedEvent.OutputTuple,
+      CollectionReorderedEvent.OutputObject
+    >;
+
+    "CollectionTransferred(uint256,address,address)": TypedContractEvent<
+      CollectionTransferredEvent.InputTuple,
+      CollectionTransferredEvent.OutputTuple,
+      CollectionTransferredEvent.OutputObject
+    >;
+    CollectionTransferred: TypedContractEvent<
+      CollectionTransferredEvent.InputTuple,
+      CollectionTransferredEvent.OutputTuple,
+      CollectionTransferredEvent.OutputObject
+    >;
+
+    "CollectionVisibilityChanged(uint256,bool)": TypedContractEvent<
+      CollectionVisibilityChangedEvent.InputTuple,
+      CollectionVisibilityChangedEvent.OutputTuple,
+      CollectionVisibilityChangedEvent.OutputObject
+    >;
+    CollectionVisibilityChanged: TypedContractEvent<
+      CollectionVisibilityChangedEvent.InputTuple,
+      CollectionVisibilityChangedEvent.OutputTuple,
+      CollectionVisibilityChangedEvent.OutputObject
+    >;
+
+    "CryptoBallGenerated(uint256,address,uint8)": TypedContractEvent<
+      CryptoBallGeneratedEvent.InputTuple,
+      CryptoBallGeneratedEvent.OutputTuple,
+      CryptoBallGeneratedEvent.OutputObject
+    >;
+    CryptoBallGenerated: TypedContractEvent<
+      CryptoBallGeneratedEvent.InputTuple,
+      CryptoBallGeneratedEvent.OutputTuple,
+      CryptoBallGeneratedEvent.OutputObject
+    >;
+
+    "CryptoBallsFused(uint256,address,uint256[])": TypedContractEvent<
+      CryptoBallsFusedEvent.InputTuple,
+      CryptoBallsFusedEvent.OutputTuple,
+      CryptoBallsFusedEvent.OutputObject
+    >;
+    CryptoBallsFused: TypedContractEvent<
+      CryptoBallsFusedEvent.InputTuple,
+      CryptoBallsFusedEvent.OutputTuple,
+      CryptoBallsFusedEvent.OutputObject
+    >;
+
+    "MinterSet(address)": TypedContractEvent<
+      MinterSetEvent.InputTuple,
+      MinterSetEvent.OutputTuple,
+      MinterSetEvent.OutputObject
+    >;
+    MinterSet: TypedContractEvent<
+      MinterSetEvent.InputTuple,
+      MinterSetEvent.OutputTuple,
+      MinterSetEvent.OutputObject
+    >;
+
+    "RewardPointsEarned(address,uint256)": TypedContractEvent<
+      RewardPointsEarnedEvent.InputTuple,
+      RewardPointsEarnedEvent.OutputTuple,
+      RewardPointsEarnedEvent.OutputObject
+    >;
+    RewardPointsEarned: TypedContractEvent<
+      RewardPointsEarnedEvent.InputTuple,
+      RewardPointsEarnedEvent.OutputTuple,
+      RewardPointsEarnedEvent.OutputObject
+    >;
+
+    "Transfer(address,address,uint256)": TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+    Transfer: TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+  };
+}
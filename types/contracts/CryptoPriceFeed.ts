@@ -0,0 +1,926 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface CryptoPriceFeedInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "addAsset"
+      | "assets"
+      | "authorizedPriceFeeders"
+      | "getAssetCount"
+      | "getAssetIdBySymbol"
+      | "getCurrentPrice"
+      | "getPriceHistory"
+      | "getPriceStatistics"
+      | "getUserPreferences"
+      | "hasSetPreferences"
+      | "isAssetActive"
+      | "latestPrices"
+      | "priceFeedAdmin"
+      | "priceHistory"
+      | "resetUserPreferences"
+      | "setAssetActive"
+      | "setPriceFeederAuthorization"
+      | "setUserPreferences"
+      | "shouldTriggerPriceAlert"
+      | "triggerPriceAlert"
+      | "updatePrice"
+      | "userPreferences"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AssetAdded"
+      | "AssetStatusChanged"
+      | "PriceAlertTriggered"
+      | "PriceFeedAuthorized"
+      | "PriceUpdated"
+      | "UserPreferencesUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "addAsset",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assets",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "authorizedPriceFeeders",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssetCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssetIdBySymbol",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCurrentPrice",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPriceHistory",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPriceStatistics",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserPreferences",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasSetPreferences",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAssetActive",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "latestPrices",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "priceFeedAdmin",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "priceHistory",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resetUserPreferences",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAssetActive",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPriceFeederAuthorization",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setUserPreferences",
+    values: [
+      boolean,
+      boolean,
+      BigNumberish,
+      BigNumberish,
+      boolean,
+      boolean,
+      string,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shouldTriggerPriceAlert",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "triggerPriceAlert",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePrice",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userPreferences",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "addAsset", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "assets", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "authorizedPriceFeeders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssetCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssetIdBySymbol",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCurrentPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPriceHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPriceStatistics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserPreferences",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasSetPreferences",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAssetActive",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "latestPrices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "priceFeedAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "priceHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resetUserPreferences",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAssetActive",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPriceFeederAuthorization",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setUserPreferences",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shouldTriggerPriceAlert",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "triggerPriceAlert",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updatePrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "userPreferences",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AssetAddedEvent {
+  export type InputTuple = [
+    assetId: BigNumberish,
+    symbol: string,
+    decimals: BigNumberish,
+    priceScale: BigNumberish
+  ];
+  export type OutputTuple = [
+    assetId: bigint,
+    symbol: string,
+    decimals: bigint,
+    priceScale: bigint
+  ];
+  export interface OutputObject {
+    assetId: bigint;
+    symbol: string;
+    decimals: bigint;
+    priceScale: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AssetStatusChangedEvent {
+  export type InputTuple = [assetId: BigNumberish, isActive: boolean];
+  export type OutputTuple = [assetId: bigint, isActive: boolean];
+  export interface OutputObject {
+    assetId: bigint;
+    isActive: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceAlertTriggeredEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    assetId: BigNumberish,
+    price: BigNumberish,
+    change: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    assetId: bigint,
+    price: bigint,
+    change: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    assetId: bigint;
+    price: bigint;
+    change: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceFeedAuthorizedEvent {
+  export type InputTuple = [feeder: AddressLike, authorized: boolean];
+  export type OutputTuple = [feeder: string, authorized: boolean];
+  export interface OutputObject {
+    feeder: string;
+    authorized: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceUpdatedEvent {
+  export type InputTuple = [
+    assetId: BigNumberish,
+    price: BigNumberish,
+    timestamp: BigNumberish,
+    updater: AddressLike
+  ];
+  export type OutputTuple = [
+    assetId: bigint,
+    price: bigint,
+    timestamp: bigint,
+    updater: string
+  ];
+  export interface OutputObject {
+    assetId: bigint;
+    price: bigint;
+    timestamp: bigint;
+    updater: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UserPreferencesUpdatedEvent {
+  export type InputTuple = [user: AddressLike];
+  export type OutputTuple = [user: string];
+  export interface OutputObject {
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CryptoPriceFeed extends BaseContract {
+  connect(runner?: ContractRunner | null): CryptoPriceFeed;
+  waitForDeployment(): Promise<this>;
+
+  interface: CryptoPriceFeedInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  addAsset: TypedContractMethod<
+    [_symbol: string, _decimals: BigNumberish, _priceScale: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  assets: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, boolean] & {
+        symbol: string;
+        decimals: bigint;
+        priceScale: bigint;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  authorizedPriceFeeders: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  getAssetCount: TypedContractMethod<[], [bigint], "view">;
+
+  getAssetIdBySymbol: TypedContractMethod<[_symbol: string], [bigint], "view">;
+
+  getCurrentPrice: TypedContractMethod<
+    [_assetId: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        price: bigint;
+        timestamp: bigint;
+        updater: string;
+        isValid: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getPriceHistory: TypedContractMethod<
+    [_assetId: BigNumberish, _limit: BigNumberish],
+    [
+      [bigint[], bigint[], string[]] & {
+        prices: bigint[];
+        timestamps: bigint[];
+        updaters: string[];
+      }
+    ],
+    "view"
+  >;
+
+  getPriceStatistics: TypedContractMethod<
+    [_assetId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        currentPrice: bigint;
+        averagePrice: bigint;
+        highestPrice: bigint;
+        lowestPrice: bigint;
+        priceChange24h: bigint;
+        volatility: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getUserPreferences: TypedContractMethod<
+    [_user: AddressLike],
+    [
+      [boolean, boolean, bigint, bigint, boolean, boolean, string, bigint] & {
+        emailNotifications: boolean;
+        priceAlerts: boolean;
+        minAlertThreshold: bigint;
+        preferredAsset: bigint;
+        autoGenerateBalls: boolean;
+        publicProfile: boolean;
+        displayName: string;
+        theme: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  hasSetPreferences: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isAssetActive: TypedContractMethod<
+    [_assetId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  latestPrices: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        price: bigint;
+        timestamp: bigint;
+        updater: string;
+        isValid: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  priceFeedAdmin: TypedContractMethod<[], [string], "view">;
+
+  priceHistory: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        price: bigint;
+        timestamp: bigint;
+        updater: string;
+        isValid: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  resetUserPreferences: TypedContractMethod<[], [void], "nonpayable">;
+
+  setAssetActive: TypedContractMethod<
+    [_assetId: BigNumberish, _isActive: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setPriceFeederAuthorization: TypedContractMethod<
+    [_feeder: AddressLike, _authorized: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setUserPreferences: TypedContractMethod<
+    [
+      _emailNotifications: boolean,
+      _priceAlerts: boolean,
+      _minAlertThreshold: BigNumberish,
+      _preferredAsset: BigNumberish,
+      _autoGenerateBalls: boolean,
+      _publicProfile: boolean,
+      _displayName: string,
+      _theme: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  shouldTriggerPriceAlert: TypedContractMethod<
+    [
+      _user: AddressLike,
+      _assetId: BigNumberish,
+      _currentPrice: BigNumberish,
+      _previousPrice: BigNumberish
+    ],
+    [boolean],
+    "view"
+  >;
+
+  triggerPriceAlert: TypedContractMethod<
+    [
+      _user: AddressLike,
+      _assetId: BigNumberish,
+      _price: BigNumberish,
+      _change: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updatePrice: TypedContractMethod<
+    [_assetId: BigNumberish, _price: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  userPreferences: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, boolean, bigint, bigint, boolean, boolean, string, bigint] & {
+        emailNotifications: boolean;
+        priceAlerts: boolean;
+        minAlertThreshold: bigint;
+        preferredAsset: bigint;
+        autoGenerateBalls: boolean;
+        publicProfile: boolean;
+        displayName: string;
+        theme: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "addAsset"
+  ): TypedContractMethod<
+    [_symbol: string, _decimals: BigNumberish, _priceScale: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "assets"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, boolean] & {
+        symbol: string;
+        decimals: bigint;
+        priceScale: bigint;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "authorizedPriceFeeders"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "getAssetCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAssetIdBySymbol"
+  ): TypedContractMethod<[_symbol: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCurrentPrice"
+  ): TypedContractMethod<
+    [_assetId: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        price: bigint;
+        timestamp: bigint;
+        updater: string;
+        isValid: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPriceHistory"
+  ): TypedContractMethod<
+    [_assetId: BigNumberish, _limit: BigNumberish],
+    [
+      [bigint[], bigint[], string[]] & {
+        prices: bigint[];
+        timestamps: bigint[];
+        updaters: string[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPriceStatistics"
+  ): TypedContractMethod<
+    [_assetId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        currentPrice: bigint;
+        averagePrice: bigint;
+        highestPrice: bigint;
+        lowestPrice: bigint;
+        priceChange24h: bigint;
+        volatility: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getUserPreferences"
+  ): TypedContractMethod<
+    [_user: AddressLike],
+    [
+      [boolean, boolean, bigint, bigint, boolean, boolean, string, bigint] & {
+        emailNotifications: boolean;
+        priceAlerts: boolean;
+        minAlertThreshold: bigint;
+        preferredAsset: bigint;
+        autoGenerateBalls: boolean;
+        publicProfile: boolean;
+        displayName: string;
+        theme: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasSetPreferences"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isAssetActive"
+  ): TypedContractMethod<[_assetId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "latestPrices"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        price: bigint;
+        timestamp: bigint;
+        updater: string;
+        isValid: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "priceFeedAdmin"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "priceHistory"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        price: bigint;
+        timestamp: bigint;
+        updater: string;
+        isValid: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "resetUserPreferences"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setAssetActive"
+  ): TypedContractMethod<
+    [_assetId: BigNumberish, _isActive: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPriceFeederAuthorization"
+  ): TypedContractMethod<
+    [_feeder: AddressLike, _authorized: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setUserPreferences"
+  ): TypedContractMethod<
+    [
+      _emailNotifications: boolean,
+      _priceAlerts: boolean,
+      _minAlertThreshold: BigNumberish,
+      _preferredAsset: BigNumberish,
+      _autoGenerateBalls: boolean,
+      _publicProfile: boolean,
+      _displayName: string,
+      _theme: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shouldTriggerPriceAlert"
+  ): TypedContractMethod<
+    [
+      _user: AddressLike,
+      _assetId: BigNumberish,
+      _currentPrice: BigNumberish,
+      _previousPrice: BigNumberish
+    ],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "triggerPriceAlert"
+  ): TypedContractMethod<
+    [
+      _user: AddressLike,
+      _assetId: BigNumberish,
+      _price: BigNumberish,
+      _change: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updatePrice"
+  ): TypedContractMethod<
+    [_assetId: BigNumberish, _price: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "userPreferences"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, boolean, bigint, bigint, boolean, boolean, string, bigint] & {
+        emailNotifications: boolean;
+        priceAlerts: boolean;
+        minAlertThreshold: bigint;
+        preferredAsset: bigint;
+        autoGenerateBalls: boolean;
+        publicProfile: boolean;
+        displayName: string;
+        theme: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "AssetAdded"
+  ): TypedContractEvent<
+    AssetAddedEvent.InputTuple,
+    AssetAddedEvent.OutputTuple,
+    AssetAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AssetStatusChanged"
+  ): TypedContractEvent<
+    AssetStatusChangedEvent.InputTuple,
+    AssetStatusChangedEvent.OutputTuple,
+    AssetStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceAlertTriggered"
+  ): TypedContractEvent<
+    PriceAlertTriggeredEvent.InputTuple,
+    PriceAlertTriggeredEvent.OutputTuple,
+    PriceAlertTriggeredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceFeedAuthorized"
+  ): TypedContractEvent<
+    PriceFeedAuthorizedEvent.InputTuple,
+    PriceFeedAuthorizedEvent.OutputTuple,
+    PriceFeedAuthorizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceUpdated"
+  ): TypedContractEvent<
+    PriceUpdatedEvent.InputTuple,
+    PriceUpdatedEvent.OutputTuple,
+    PriceUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UserPreferencesUpdated"
+  ): TypedContractEvent<
+    UserPreferencesUpdatedEvent.InputTuple,
+    UserPreferencesUpdatedEvent.OutputTuple,
+    UserPreferencesUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "AssetAdded(uint256,string,uint8,uint32)": TypedContractEvent<
+      AssetAddedEvent.InputTuple,
+      AssetAddedEvent.OutputTuple,
+      AssetAddedEvent.OutputObject
+    >;
+    AssetAdded: TypedContractEvent<
+      AssetAddedEvent.InputTuple,
+      AssetAddedEvent.OutputTuple,
+      AssetAddedEvent.OutputObject
+    >;
+
+    "AssetStatusChanged(uint256,bool)": TypedContractEvent<
+      AssetStatusChangedEvent.InputTuple,
+      AssetStatusChangedEvent.OutputTuple,
+      AssetStatusChangedEvent.OutputObject
+    >;
+    AssetStatusChanged: TypedContractEvent<
+      AssetStatusChangedEvent.InputTuple,
+      AssetStatusChangedEvent.OutputTuple,
+      AssetStatusChangedEvent.OutputObject
+    >;
+
+    "PriceAlertTriggered(address,uint256,uint256,uint256)": TypedContractEvent<
+      PriceAlertTriggeredEvent.InputTuple,
+      PriceAlertTriggeredEvent.OutputTuple,
+      PriceAlertTriggeredEvent.OutputObject
+    >;
+    PriceAlertTriggered: TypedContractEvent<
+      PriceAlertTriggeredEvent.InputTuple,
+      PriceAlertTriggeredEvent.OutputTuple,
+      PriceAlertTriggeredEvent.OutputObject
+    >;
+
+    "PriceFeedAuthorized(address,bool)": TypedContractEvent<
+      PriceFeedAuthorizedEvent.InputTuple,
+      PriceFeedAuthorizedEvent.OutputTuple,
+      PriceFeedAuthorizedEvent.OutputObject
+    >;
+    PriceFeedAuthorized: TypedContractEvent<
+      PriceFeedAuthorizedEvent.InputTuple,
+      PriceFeedAuthorizedEvent.OutputTuple,
+      PriceFeedAuthorizedEvent.OutputObject
+    >;
+
+    "PriceUpdated(uint256,uint256,uint256,address)": TypedContractEvent<
+      PriceUpdatedEvent.InputTuple,
+      PriceUpdatedEvent.OutputTuple,
+      PriceUpdatedEvent.OutputObject
+    >;
+    PriceUpdated: TypedContractEvent<
+      PriceUpdatedEvent.InputTuple,
+      PriceUpdatedEvent.OutputTuple,
+      PriceUpdatedEvent.OutputObject
+    >;
+
+    "UserPreferencesUpdated(address)": TypedContractEvent<
+      UserPreferencesUpdatedEvent.InputTuple,
+      UserPreferencesUpdatedEvent.OutputTuple,
+      UserPreferencesUpdatedEvent.OutputObject
+    >;
+    UserPreferencesUpdated: TypedContractEvent<
+      UserPreferencesUpdatedEvent.InputTuple,
+      UserPreferencesUpdatedEvent.OutputTuple,
+      UserPreferencesUpdatedEvent.OutputObject
+    >;
+  };
+}
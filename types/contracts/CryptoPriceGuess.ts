@@ -26,49 +26,182 @@ import type {
 export interface CryptoPriceGuessInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "CRYSTAL_ERROR_BPS"
+      | "MAX_PAYOUT_RANKS"
+      | "MAX_RANGE_BUCKETS"
+      | "PREDICTION_ERROR_BPS"
+      | "RESOLUTION_PERIOD"
+      | "ballClaimCallback"
+      | "balls"
+      | "cancelPredictionEvent"
+      | "claimRefund"
+      | "claimWinnings"
+      | "createMarketEvent"
       | "createPredictionEvent"
+      | "createStakedMarketEvent"
+      | "createStakedPredictionEvent"
       | "decryptionCallback"
       | "endPredictionEvent"
+      | "eventLeaderboards"
       | "finalizePredictionEvent"
+      | "generateCryptoBall"
+      | "getClaimableAmount"
       | "getDecryptedAveragePrice"
       | "getEncryptedPriceSum"
       | "getEventCount"
+      | "getEventLeaderboard"
+      | "getEventMarket"
+      | "getEventPool"
       | "getPredictionEvent"
+      | "getUserEncryptedBounds"
+      | "getUserEncryptedError"
       | "getUserEncryptedPrediction"
+      | "hasClaimed"
+      | "hasClaimedBall"
       | "hasUserPredicted"
+      | "isResolutionOverdue"
+      | "leaderboardDecryptionCallback"
       | "predictionEvents"
+      | "priceFeed"
       | "protocolId"
+      | "revealLeaderboard"
+      | "revealedRanks"
+      | "scorePredictions"
       | "setActualPrice"
+      | "submitBatchPredictions"
+      | "submitBoundsPrediction"
       | "submitPrediction"
+      | "updateBoundsPrediction"
+      | "updatePrediction"
       | "userPredictions"
+      | "withdrawPrediction"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
       | "ActualPriceSet"
+      | "CryptoBallClaimRequested"
+      | "DecryptionFulfilled"
+      | "EventMarketCreated"
+      | "EventPoolCreated"
       | "FinalizeRequested"
+      | "LeaderboardRevealRequested"
+      | "LeaderboardRevealed"
+      | "PredictionEventCancelled"
       | "PredictionEventCreated"
       | "PredictionEventEnded"
       | "PredictionEventFinalized"
       | "PredictionSubmitted"
+      | "PredictionUpdated"
+      | "PredictionWithdrawn"
+      | "PredictionsScored"
+      | "StakeDeposited"
+      | "StakeRefunded"
+      | "WinningsClaimed"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "CRYSTAL_ERROR_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAYOUT_RANKS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RANGE_BUCKETS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PREDICTION_ERROR_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RESOLUTION_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ballClaimCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "balls", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "cancelPredictionEvent",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRefund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimWinnings",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createMarketEvent",
+    values: [
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish[]
+    ]
+  ): string;
   encodeFunctionData(
     functionFragment: "createPredictionEvent",
     values: [string, BigNumberish, BigNumberish, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "createStakedMarketEvent",
+    values: [
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish[],
+      AddressLike,
+      BigNumberish,
+      BigNumberish[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createStakedPredictionEvent",
+    values: [
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      BigNumberish,
+      BigNumberish[]
+    ]
+  ): string;
   encodeFunctionData(
     functionFragment: "decryptionCallback",
-    values: [BigNumberish, BytesLike, BytesLike[]]
+    values: [BigNumberish, BytesLike, BytesLike]
   ): string;
   encodeFunctionData(
     functionFragment: "endPredictionEvent",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "eventLeaderboards",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "finalizePredictionEvent",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "generateCryptoBall",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClaimableAmount",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getDecryptedAveragePrice",
     values: [BigNumberish]
@@ -81,43 +214,161 @@ export interface CryptoPriceGuessInterface extends Interface {
     functionFragment: "getEventCount",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getEventLeaderboard",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEventMarket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEventPool",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getPredictionEvent",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getUserEncryptedBounds",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserEncryptedError",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getUserEncryptedPrediction",
     values: [BigNumberish, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "hasClaimed",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasClaimedBall",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "hasUserPredicted",
     values: [BigNumberish, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "isResolutionOverdue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "leaderboardDecryptionCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "predictionEvents",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(functionFragment: "priceFeed", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "protocolId",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "revealLeaderboard",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealedRanks",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scorePredictions",
+    values: [BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "setActualPrice",
     values: [BigNumberish, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "submitBatchPredictions",
+    values: [BigNumberish[], BytesLike[], BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitBoundsPrediction",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "submitPrediction",
     values: [BigNumberish, BytesLike, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "updateBoundsPrediction",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePrediction",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "userPredictions",
     values: [BigNumberish, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawPrediction",
+    values: [BigNumberish]
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "CRYSTAL_ERROR_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAYOUT_RANKS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_RANGE_BUCKETS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PREDICTION_ERROR_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RESOLUTION_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ballClaimCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "balls", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelPredictionEvent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimWinnings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createMarketEvent",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "createPredictionEvent",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "createStakedMarketEvent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createStakedPredictionEvent",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "decryptionCallback",
     data: BytesLike
@@ -126,10 +377,22 @@ export interface CryptoPriceGuessInterface extends Interface {
     functionFragment: "endPredictionEvent",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "eventLeaderboards",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "finalizePredictionEvent",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "generateCryptoBall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClaimableAmount",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getDecryptedAveragePrice",
     data: BytesLike
@@ -142,35 +405,101 @@ export interface CryptoPriceGuessInterface extends Interface {
     functionFragment: "getEventCount",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEventLeaderboard",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEventMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEventPool",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getPredictionEvent",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserEncryptedBounds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserEncryptedError",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getUserEncryptedPrediction",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "hasClaimed", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasClaimedBall",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "hasUserPredicted",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "isResolutionOverdue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "leaderboardDecryptionCallback",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "predictionEvents",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "priceFeed", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "revealLeaderboard",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealedRanks",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scorePredictions",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "setActualPrice",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitBatchPredictions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitBoundsPrediction",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "submitPrediction",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateBoundsPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updatePrediction",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "userPredictions",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawPrediction",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace ActualPriceSetEvent {
@@ -186,6 +515,79 @@ export namespace ActualPriceSetEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace CryptoBallClaimRequestedEvent {
+  export type InputTuple = [
+    eventId: BigNumberish,
+    user: AddressLike,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [eventId: bigint, user: string, requestId: bigint];
+  export interface OutputObject {
+    eventId: bigint;
+    user: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EventMarketCreatedEvent {
+  export type InputTuple = [
+    eventId: BigNumberish,
+    kind: BigNumberish,
+    params: BigNumberish[]
+  ];
+  export type OutputTuple = [eventId: bigint, kind: bigint, params: bigint[]];
+  export interface OutputObject {
+    eventId: bigint;
+    kind: bigint;
+    params: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EventPoolCreatedEvent {
+  export type InputTuple = [
+    eventId: BigNumberish,
+    stakeToken: AddressLike,
+    stakeAmount: BigNumberish,
+    payoutShares: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    eventId: bigint,
+    stakeToken: string,
+    stakeAmount: bigint,
+    payoutShares: bigint[]
+  ];
+  export interface OutputObject {
+    eventId: bigint;
+    stakeToken: string;
+    stakeAmount: bigint;
+    payoutShares: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace FinalizeRequestedEvent {
   export type InputTuple = [eventId: BigNumberish, requestId: BigNumberish];
   export type OutputTuple = [eventId: bigint, requestId: bigint];
@@ -199,23 +601,61 @@ export namespace FinalizeRequestedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace LeaderboardRevealRequestedEvent {
+  export type InputTuple = [eventId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [eventId: bigint, requestId: bigint];
+  export interface OutputObject {
+    eventId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LeaderboardRevealedEvent {
+  export type InputTuple = [eventId: BigNumberish, winner: AddressLike];
+  export type OutputTuple = [eventId: bigint, winner: string];
+  export interface OutputObject {
+    eventId: bigint;
+    winner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionEventCancelledEvent {
+  export type InputTuple = [eventId: BigNumberish];
+  export type OutputTuple = [eventId: bigint];
+  export interface OutputObject {
+    eventId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace PredictionEventCreatedEvent {
   export type InputTuple = [
     eventId: BigNumberish,
     title: string,
-    tokenType: BigNumberish,
+    assetId: BigNumberish,
     admin: AddressLike
   ];
   export type OutputTuple = [
     eventId: bigint,
     title: string,
-    tokenType: bigint,
+    assetId: bigint,
     admin: string
   ];
   export interface OutputObject {
     eventId: bigint;
     title: string;
-    tokenType: bigint;
+    assetId: bigint;
     admin: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
@@ -271,6 +711,108 @@ export namespace PredictionSubmittedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace PredictionUpdatedEvent {
+  export type InputTuple = [eventId: BigNumberish, user: AddressLike];
+  export type OutputTuple = [eventId: bigint, user: string];
+  export interface OutputObject {
+    eventId: bigint;
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionWithdrawnEvent {
+  export type InputTuple = [eventId: BigNumberish, user: AddressLike];
+  export type OutputTuple = [eventId: bigint, user: string];
+  export interface OutputObject {
+    eventId: bigint;
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionsScoredEvent {
+  export type InputTuple = [
+    eventId: BigNumberish,
+    scoredCount: BigNumberish,
+    totalPredictions: BigNumberish
+  ];
+  export type OutputTuple = [
+    eventId: bigint,
+    scoredCount: bigint,
+    totalPredictions: bigint
+  ];
+  export interface OutputObject {
+    eventId: bigint;
+    scoredCount: bigint;
+    totalPredictions: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeDepositedEvent {
+  export type InputTuple = [
+    eventId: BigNumberish,
+    user: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [eventId: bigint, user: string, amount: bigint];
+  export interface OutputObject {
+    eventId: bigint;
+    user: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeRefundedEvent {
+  export type InputTuple = [
+    eventId: BigNumberish,
+    user: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [eventId: bigint, user: string, amount: bigint];
+  export interface OutputObject {
+    eventId: bigint;
+    user: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinningsClaimedEvent {
+  export type InputTuple = [
+    eventId: BigNumberish,
+    user: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [eventId: bigint, user: string, amount: bigint];
+  export interface OutputObject {
+    eventId: bigint;
+    user: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface CryptoPriceGuess extends BaseContract {
   connect(runner?: ContractRunner | null): CryptoPriceGuess;
   waitForDeployment(): Promise<this>;
@@ -314,10 +856,63 @@ export interface CryptoPriceGuess extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  CRYSTAL_ERROR_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PAYOUT_RANKS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RANGE_BUCKETS: TypedContractMethod<[], [bigint], "view">;
+
+  PREDICTION_ERROR_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  RESOLUTION_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  ballClaimCallback: TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+
+  balls: TypedContractMethod<[], [string], "view">;
+
+  cancelPredictionEvent: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimRefund: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimWinnings: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createMarketEvent: TypedContractMethod<
+    [
+      _title: string,
+      _assetId: BigNumberish,
+      _targetDate: BigNumberish,
+      _durationInHours: BigNumberish,
+      _kind: BigNumberish,
+      _marketParams: BigNumberish[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
   createPredictionEvent: TypedContractMethod<
     [
       _title: string,
-      _tokenType: BigNumberish,
+      _assetId: BigNumberish,
       _targetDate: BigNumberish,
       _durationInHours: BigNumberish
     ],
@@ -325,8 +920,42 @@ export interface CryptoPriceGuess extends BaseContract {
     "nonpayable"
   >;
 
+  createStakedMarketEvent: TypedContractMethod<
+    [
+      _title: string,
+      _assetId: BigNumberish,
+      _targetDate: BigNumberish,
+      _durationInHours: BigNumberish,
+      _kind: BigNumberish,
+      _marketParams: BigNumberish[],
+      _stakeToken: AddressLike,
+      _stakeAmount: BigNumberish,
+      _payoutShares: BigNumberish[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createStakedPredictionEvent: TypedContractMethod<
+    [
+      _title: string,
+      _assetId: BigNumberish,
+      _targetDate: BigNumberish,
+      _durationInHours: BigNumberish,
+      _stakeToken: AddressLike,
+      _stakeAmount: BigNumberish,
+      _payoutShares: BigNumberish[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
   decryptionCallback: TypedContractMethod<
-    [requestId: BigNumberish, cleartexts: BytesLike, arg2: BytesLike[]],
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
     [boolean],
     "nonpayable"
   >;
@@ -337,12 +966,37 @@ export interface CryptoPriceGuess extends BaseContract {
     "nonpayable"
   >;
 
+  eventLeaderboards: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, boolean, string] & {
+        scoredCount: bigint;
+        revealRequested: boolean;
+        isRevealed: boolean;
+        winner: string;
+      }
+    ],
+    "view"
+  >;
+
   finalizePredictionEvent: TypedContractMethod<
     [_eventId: BigNumberish],
     [void],
     "nonpayable"
   >;
 
+  generateCryptoBall: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getClaimableAmount: TypedContractMethod<
+    [_eventId: BigNumberish, _user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
   getDecryptedAveragePrice: TypedContractMethod<
     [_eventId: BigNumberish],
     [bigint],
@@ -357,6 +1011,39 @@ export interface CryptoPriceGuess extends BaseContract {
 
   getEventCount: TypedContractMethod<[], [bigint], "view">;
 
+  getEventLeaderboard: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [[string[], boolean] & { predictors: string[]; isRevealed: boolean }],
+    "view"
+  >;
+
+  getEventMarket: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [
+      [bigint, bigint[], bigint[], bigint] & {
+        kind: bigint;
+        params: bigint[];
+        results: bigint[];
+        actualOutcome: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEventPool: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint[], boolean] & {
+        stakeToken: string;
+        stakeAmount: bigint;
+        totalStaked: bigint;
+        payoutShares: bigint[];
+        isCancelled: boolean;
+      }
+    ],
+    "view"
+  >;
+
   getPredictionEvent: TypedContractMethod<
     [_eventId: BigNumberish],
     [
@@ -373,7 +1060,7 @@ export interface CryptoPriceGuess extends BaseContract {
         bigint
       ] & {
         title: string;
-        tokenType: bigint;
+        assetId: bigint;
         targetDate: bigint;
         endTime: bigint;
         isActive: boolean;
@@ -387,18 +1074,58 @@ export interface CryptoPriceGuess extends BaseContract {
     "view"
   >;
 
+  getUserEncryptedBounds: TypedContractMethod<
+    [_eventId: BigNumberish, _user: AddressLike],
+    [[string, string] & { lower: string; upper: string }],
+    "view"
+  >;
+
+  getUserEncryptedError: TypedContractMethod<
+    [_eventId: BigNumberish, _user: AddressLike],
+    [string],
+    "view"
+  >;
+
   getUserEncryptedPrediction: TypedContractMethod<
     [_eventId: BigNumberish, _user: AddressLike],
     [string],
     "view"
   >;
 
+  hasClaimed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasClaimedBall: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
   hasUserPredicted: TypedContractMethod<
     [_eventId: BigNumberish, _user: AddressLike],
     [boolean],
     "view"
   >;
 
+  isResolutionOverdue: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  leaderboardDecryptionCallback: TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+
   predictionEvents: TypedContractMethod<
     [arg0: BigNumberish],
     [
@@ -416,7 +1143,7 @@ export interface CryptoPriceGuess extends BaseContract {
         bigint
       ] & {
         title: string;
-        tokenType: bigint;
+        assetId: bigint;
         targetDate: bigint;
         endTime: bigint;
         isActive: boolean;
@@ -428,18 +1155,76 @@ export interface CryptoPriceGuess extends BaseContract {
         decryptedAveragePrice: bigint;
       }
     ],
-    "view"
+    "view"
+  >;
+
+  priceFeed: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  revealLeaderboard: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revealedRanks: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  scorePredictions: TypedContractMethod<
+    [_eventId: BigNumberish, _maxCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setActualPrice: TypedContractMethod<
+    [_eventId: BigNumberish, _actualPrice: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitBatchPredictions: TypedContractMethod<
+    [
+      _eventIds: BigNumberish[],
+      _encryptedPrices: BytesLike[],
+      _inputProofs: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+
+  submitBoundsPrediction: TypedContractMethod<
+    [
+      _eventId: BigNumberish,
+      _encryptedLower: BytesLike,
+      _encryptedUpper: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
   >;
 
-  protocolId: TypedContractMethod<[], [bigint], "view">;
+  submitPrediction: TypedContractMethod<
+    [_eventId: BigNumberish, _encryptedPrice: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
 
-  setActualPrice: TypedContractMethod<
-    [_eventId: BigNumberish, _actualPrice: BigNumberish],
+  updateBoundsPrediction: TypedContractMethod<
+    [
+      _eventId: BigNumberish,
+      _encryptedLower: BytesLike,
+      _encryptedUpper: BytesLike,
+      inputProof: BytesLike
+    ],
     [void],
     "nonpayable"
   >;
 
-  submitPrediction: TypedContractMethod<
+  updatePrediction: TypedContractMethod<
     [_eventId: BigNumberish, _encryptedPrice: BytesLike, inputProof: BytesLike],
     [void],
     "nonpayable"
@@ -457,35 +1242,153 @@ export interface CryptoPriceGuess extends BaseContract {
     "view"
   >;
 
+  withdrawPrediction: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "CRYSTAL_ERROR_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PAYOUT_RANKS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RANGE_BUCKETS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PREDICTION_ERROR_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "RESOLUTION_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ballClaimCallback"
+  ): TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "balls"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "cancelPredictionEvent"
+  ): TypedContractMethod<[_eventId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimRefund"
+  ): TypedContractMethod<[_eventId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimWinnings"
+  ): TypedContractMethod<[_eventId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "createMarketEvent"
+  ): TypedContractMethod<
+    [
+      _title: string,
+      _assetId: BigNumberish,
+      _targetDate: BigNumberish,
+      _durationInHours: BigNumberish,
+      _kind: BigNumberish,
+      _marketParams: BigNumberish[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "createPredictionEvent"
   ): TypedContractMethod<
     [
       _title: string,
-      _tokenType: BigNumberish,
+      _assetId: BigNumberish,
       _targetDate: BigNumberish,
       _durationInHours: BigNumberish
     ],
     [bigint],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "createStakedMarketEvent"
+  ): TypedContractMethod<
+    [
+      _title: string,
+      _assetId: BigNumberish,
+      _targetDate: BigNumberish,
+      _durationInHours: BigNumberish,
+      _kind: BigNumberish,
+      _marketParams: BigNumberish[],
+      _stakeToken: AddressLike,
+      _stakeAmount: BigNumberish,
+      _payoutShares: BigNumberish[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createStakedPredictionEvent"
+  ): TypedContractMethod<
+    [
+      _title: string,
+      _assetId: BigNumberish,
+      _targetDate: BigNumberish,
+      _durationInHours: BigNumberish,
+      _stakeToken: AddressLike,
+      _stakeAmount: BigNumberish,
+      _payoutShares: BigNumberish[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "decryptionCallback"
   ): TypedContractMethod<
-    [requestId: BigNumberish, cleartexts: BytesLike, arg2: BytesLike[]],
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
     [boolean],
     "nonpayable"
   >;
   getFunction(
     nameOrSignature: "endPredictionEvent"
   ): TypedContractMethod<[_eventId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "eventLeaderboards"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, boolean, string] & {
+        scoredCount: bigint;
+        revealRequested: boolean;
+        isRevealed: boolean;
+        winner: string;
+      }
+    ],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "finalizePredictionEvent"
   ): TypedContractMethod<[_eventId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "generateCryptoBall"
+  ): TypedContractMethod<[_eventId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getClaimableAmount"
+  ): TypedContractMethod<
+    [_eventId: BigNumberish, _user: AddressLike],
+    [bigint],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getDecryptedAveragePrice"
   ): TypedContractMethod<[_eventId: BigNumberish], [bigint], "view">;
@@ -495,6 +1398,42 @@ export interface CryptoPriceGuess extends BaseContract {
   getFunction(
     nameOrSignature: "getEventCount"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getEventLeaderboard"
+  ): TypedContractMethod<
+    [_eventId: BigNumberish],
+    [[string[], boolean] & { predictors: string[]; isRevealed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEventMarket"
+  ): TypedContractMethod<
+    [_eventId: BigNumberish],
+    [
+      [bigint, bigint[], bigint[], bigint] & {
+        kind: bigint;
+        params: bigint[];
+        results: bigint[];
+        actualOutcome: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEventPool"
+  ): TypedContractMethod<
+    [_eventId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint[], boolean] & {
+        stakeToken: string;
+        stakeAmount: bigint;
+        totalStaked: bigint;
+        payoutShares: bigint[];
+        isCancelled: boolean;
+      }
+    ],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getPredictionEvent"
   ): TypedContractMethod<
@@ -513,7 +1452,7 @@ export interface CryptoPriceGuess extends BaseContract {
         bigint
       ] & {
         title: string;
-        tokenType: bigint;
+        assetId: bigint;
         targetDate: bigint;
         endTime: bigint;
         isActive: boolean;
@@ -526,6 +1465,20 @@ export interface CryptoPriceGuess extends BaseContract {
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getUserEncryptedBounds"
+  ): TypedContractMethod<
+    [_eventId: BigNumberish, _user: AddressLike],
+    [[string, string] & { lower: string; upper: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getUserEncryptedError"
+  ): TypedContractMethod<
+    [_eventId: BigNumberish, _user: AddressLike],
+    [string],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getUserEncryptedPrediction"
   ): TypedContractMethod<
@@ -533,6 +1486,20 @@ export interface CryptoPriceGuess extends BaseContract {
     [string],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "hasClaimed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasClaimedBall"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "hasUserPredicted"
   ): TypedContractMethod<
@@ -540,6 +1507,20 @@ export interface CryptoPriceGuess extends BaseContract {
     [boolean],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "isResolutionOverdue"
+  ): TypedContractMethod<[_eventId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "leaderboardDecryptionCallback"
+  ): TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "predictionEvents"
   ): TypedContractMethod<
@@ -559,7 +1540,7 @@ export interface CryptoPriceGuess extends BaseContract {
         bigint
       ] & {
         title: string;
-        tokenType: bigint;
+        assetId: bigint;
         targetDate: bigint;
         endTime: bigint;
         isActive: boolean;
@@ -573,9 +1554,29 @@ export interface CryptoPriceGuess extends BaseContract {
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "priceFeed"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "protocolId"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revealLeaderboard"
+  ): TypedContractMethod<[_eventId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealedRanks"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "scorePredictions"
+  ): TypedContractMethod<
+    [_eventId: BigNumberish, _maxCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "setActualPrice"
   ): TypedContractMethod<
@@ -583,8 +1584,50 @@ export interface CryptoPriceGuess extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "submitBatchPredictions"
+  ): TypedContractMethod<
+    [
+      _eventIds: BigNumberish[],
+      _encryptedPrices: BytesLike[],
+      _inputProofs: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "submitBoundsPrediction"
+  ): TypedContractMethod<
+    [
+      _eventId: BigNumberish,
+      _encryptedLower: BytesLike,
+      _encryptedUpper: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
   getFunction(
     nameOrSignature: "submitPrediction"
+  ): TypedContractMethod<
+    [_eventId: BigNumberish, _encryptedPrice: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "updateBoundsPrediction"
+  ): TypedContractMethod<
+    [
+      _eventId: BigNumberish,
+      _encryptedLower: BytesLike,
+      _encryptedUpper: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updatePrediction"
   ): TypedContractMethod<
     [_eventId: BigNumberish, _encryptedPrice: BytesLike, inputProof: BytesLike],
     [void],
@@ -603,6 +1646,9 @@ export interface CryptoPriceGuess extends BaseContract {
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "withdrawPrediction"
+  ): TypedContractMethod<[_eventId: BigNumberish], [void], "nonpayable">;
 
   getEvent(
     key: "ActualPriceSet"
@@ -611,6 +1657,34 @@ export interface CryptoPriceGuess extends BaseContract {
     ActualPriceSetEvent.OutputTuple,
     ActualPriceSetEvent.OutputObject
   >;
+  getEvent(
+    key: "CryptoBallClaimRequested"
+  ): TypedContractEvent<
+    CryptoBallClaimRequestedEvent.InputTuple,
+    CryptoBallClaimRequestedEvent.OutputTuple,
+    CryptoBallClaimRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "EventMarketCreated"
+  ): TypedContractEvent<
+    EventMarketCreatedEvent.InputTuple,
+    EventMarketCreatedEvent.OutputTuple,
+    EventMarketCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EventPoolCreated"
+  ): TypedContractEvent<
+    EventPoolCreatedEvent.InputTuple,
+    EventPoolCreatedEvent.OutputTuple,
+    EventPoolCreatedEvent.OutputObject
+  >;
   getEvent(
     key: "FinalizeRequested"
   ): TypedContractEvent<
@@ -618,6 +1692,27 @@ export interface CryptoPriceGuess extends BaseContract {
     FinalizeRequestedEvent.OutputTuple,
     FinalizeRequestedEvent.OutputObject
   >;
+  getEvent(
+    key: "LeaderboardRevealRequested"
+  ): TypedContractEvent<
+    LeaderboardRevealRequestedEvent.InputTuple,
+    LeaderboardRevealRequestedEvent.OutputTuple,
+    LeaderboardRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LeaderboardRevealed"
+  ): TypedContractEvent<
+    LeaderboardRevealedEvent.InputTuple,
+    LeaderboardRevealedEvent.OutputTuple,
+    LeaderboardRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionEventCancelled"
+  ): TypedContractEvent<
+    PredictionEventCancelledEvent.InputTuple,
+    PredictionEventCancelledEvent.OutputTuple,
+    PredictionEventCancelledEvent.OutputObject
+  >;
   getEvent(
     key: "PredictionEventCreated"
   ): TypedContractEvent<
@@ -646,6 +1741,48 @@ export interface CryptoPriceGuess extends BaseContract {
     PredictionSubmittedEvent.OutputTuple,
     PredictionSubmittedEvent.OutputObject
   >;
+  getEvent(
+    key: "PredictionUpdated"
+  ): TypedContractEvent<
+    PredictionUpdatedEvent.InputTuple,
+    PredictionUpdatedEvent.OutputTuple,
+    PredictionUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionWithdrawn"
+  ): TypedContractEvent<
+    PredictionWithdrawnEvent.InputTuple,
+    PredictionWithdrawnEvent.OutputTuple,
+    PredictionWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionsScored"
+  ): TypedContractEvent<
+    PredictionsScoredEvent.InputTuple,
+    PredictionsScoredEvent.OutputTuple,
+    PredictionsScoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeDeposited"
+  ): TypedContractEvent<
+    StakeDepositedEvent.InputTuple,
+    StakeDepositedEvent.OutputTuple,
+    StakeDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeRefunded"
+  ): TypedContractEvent<
+    StakeRefundedEvent.InputTuple,
+    StakeRefundedEvent.OutputTuple,
+    StakeRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinningsClaimed"
+  ): TypedContractEvent<
+    WinningsClaimedEvent.InputTuple,
+    WinningsClaimedEvent.OutputTuple,
+    WinningsClaimedEvent.OutputObject
+  >;
 
   filters: {
     "ActualPriceSet(uint256,uint256)": TypedContractEvent<
@@ -659,6 +1796,50 @@ export interface CryptoPriceGuess extends BaseContract {
       ActualPriceSetEvent.OutputObject
     >;
 
+    "CryptoBallClaimRequested(uint256,address,uint256)": TypedContractEvent<
+      CryptoBallClaimRequestedEvent.InputTuple,
+      CryptoBallClaimRequestedEvent.OutputTuple,
+      CryptoBallClaimRequestedEvent.OutputObject
+    >;
+    CryptoBallClaimRequested: TypedContractEvent<
+      CryptoBallClaimRequestedEvent.InputTuple,
+      CryptoBallClaimRequestedEvent.OutputTuple,
+      CryptoBallClaimRequestedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "EventMarketCreated(uint256,uint8,uint32[])": TypedContractEvent<
+      EventMarketCreatedEvent.InputTuple,
+      EventMarketCreatedEvent.OutputTuple,
+      EventMarketCreatedEvent.OutputObject
+    >;
+    EventMarketCreated: TypedContractEvent<
+      EventMarketCreatedEvent.InputTuple,
+      EventMarketCreatedEvent.OutputTuple,
+      EventMarketCreatedEvent.OutputObject
+    >;
+
+    "EventPoolCreated(uint256,address,uint256,uint16[])": TypedContractEvent<
+      EventPoolCreatedEvent.InputTuple,
+      EventPoolCreatedEvent.OutputTuple,
+      EventPoolCreatedEvent.OutputObject
+    >;
+    EventPoolCreated: TypedContractEvent<
+      EventPoolCreatedEvent.InputTuple,
+      EventPoolCreatedEvent.OutputTuple,
+      EventPoolCreatedEvent.OutputObject
+    >;
+
     "FinalizeRequested(uint256,uint256)": TypedContractEvent<
       FinalizeRequestedEvent.InputTuple,
       FinalizeRequestedEvent.OutputTuple,
@@ -670,7 +1851,40 @@ export interface CryptoPriceGuess extends BaseContract {
       FinalizeRequestedEvent.OutputObject
     >;
 
-    "PredictionEventCreated(uint256,string,uint8,address)": TypedContractEvent<
+    "LeaderboardRevealRequested(uint256,uint256)": TypedContractEvent<
+      LeaderboardRevealRequestedEvent.InputTuple,
+      LeaderboardRevealRequestedEvent.OutputTuple,
+      LeaderboardRevealRequestedEvent.OutputObject
+    >;
+    LeaderboardRevealRequested: TypedContractEvent<
+      LeaderboardRevealRequestedEvent.InputTuple,
+      LeaderboardRevealRequestedEvent.OutputTuple,
+      LeaderboardRevealRequestedEvent.OutputObject
+    >;
+
+    "LeaderboardRevealed(uint256,address)": TypedContractEvent<
+      LeaderboardRevealedEvent.InputTuple,
+      LeaderboardRevealedEvent.OutputTuple,
+      LeaderboardRevealedEvent.OutputObject
+    >;
+    LeaderboardRevealed: TypedContractEvent<
+      LeaderboardRevealedEvent.InputTuple,
+      LeaderboardRevealedEvent.OutputTuple,
+      LeaderboardRevealedEvent.OutputObject
+    >;
+
+    "PredictionEventCancelled(uint256)": TypedContractEvent<
+      PredictionEventCancelledEvent.InputTuple,
+      PredictionEventCancelledEvent.OutputTuple,
+      PredictionEventCancelledEvent.OutputObject
+    >;
+    PredictionEventCancelled: TypedContractEvent<
+      PredictionEventCancelledEvent.InputTuple,
+      PredictionEventCancelledEvent.OutputTuple,
+      PredictionEventCancelledEvent.OutputObject
+    >;
+
+    "PredictionEventCreated(uint256,string,uint256,address)": TypedContractEvent<
       PredictionEventCreatedEvent.InputTuple,
       PredictionEventCreatedEvent.OutputTuple,
       PredictionEventCreatedEvent.OutputObject
@@ -713,5 +1927,71 @@ export interface CryptoPriceGuess extends BaseContract {
       PredictionSubmittedEvent.OutputTuple,
       PredictionSubmittedEvent.OutputObject
     >;
+
+    "PredictionUpdated(uint256,address)": TypedContractEvent<
+      PredictionUpdatedEvent.InputTuple,
+      PredictionUpdatedEvent.OutputTuple,
+      PredictionUpdatedEvent.OutputObject
+    >;
+    PredictionUpdated: TypedContractEvent<
+      PredictionUpdatedEvent.InputTuple,
+      PredictionUpdatedEvent.OutputTuple,
+      PredictionUpdatedEvent.OutputObject
+    >;
+
+    "PredictionWithdrawn(uint256,address)": TypedContractEvent<
+      PredictionWithdrawnEvent.InputTuple,
+      PredictionWithdrawnEvent.OutputTuple,
+      PredictionWithdrawnEvent.OutputObject
+    >;
+    PredictionWithdrawn: TypedContractEvent<
+      PredictionWithdrawnEvent.InputTuple,
+      PredictionWithdrawnEvent.OutputTuple,
+      PredictionWithdrawnEvent.OutputObject
+    >;
+
+    "PredictionsScored(uint256,uint256,uint256)": TypedContractEvent<
+      PredictionsScoredEvent.InputTuple,
+      PredictionsScoredEvent.OutputTuple,
+      PredictionsScoredEvent.OutputObject
+    >;
+    PredictionsScored: TypedContractEvent<
+      PredictionsScoredEvent.InputTuple,
+      PredictionsScoredEvent.OutputTuple,
+      PredictionsScoredEvent.OutputObject
+    >;
+
+    "StakeDeposited(uint256,address,uint256)": TypedContractEvent<
+      StakeDepositedEvent.InputTuple,
+      StakeDepositedEvent.OutputTuple,
+      StakeDepositedEvent.OutputObject
+    >;
+    StakeDeposited: TypedContractEvent<
+      StakeDepositedEvent.InputTuple,
+      StakeDepositedEvent.OutputTuple,
+      StakeDepositedEvent.OutputObject
+    >;
+
+    "StakeRefunded(uint256,address,uint256)": TypedContractEvent<
+      StakeRefundedEvent.InputTuple,
+      StakeRefundedEvent.OutputTuple,
+      StakeRefundedEvent.OutputObject
+    >;
+    StakeRefunded: TypedContractEvent<
+      StakeRefundedEvent.InputTuple,
+      StakeRefundedEvent.OutputTuple,
+      StakeRefundedEvent.OutputObject
+    >;
+
+    "WinningsClaimed(uint256,address,uint256)": TypedContractEvent<
+      WinningsClaimedEvent.InputTuple,
+      WinningsClaimedEvent.OutputTuple,
+      WinningsClaimedEvent.OutputObject
+    >;
+    WinningsClaimed: TypedContractEvent<
+      WinningsClaimedEvent.InputTuple,
+      WinningsClaimedEvent.OutputTuple,
+      WinningsClaimedEvent.OutputObject
+    >;
   };
 }
@@ -0,0 +1,323 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface CryptoPriceGuessStatsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "getFilteredEvents"
+      | "getGlobalStatistics"
+      | "getPredictionStatistics"
+      | "getUserPredictionHistory"
+      | "getUserPublicProfile"
+      | "priceGuess"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "getFilteredEvents",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGlobalStatistics",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPredictionStatistics",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserPredictionHistory",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserPublicProfile",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "priceGuess",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "getFilteredEvents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getGlobalStatistics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPredictionStatistics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserPredictionHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserPublicProfile",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "priceGuess", data: BytesLike): Result;
+}
+
+export interface CryptoPriceGuessStats extends BaseContract {
+  connect(runner?: ContractRunner | null): CryptoPriceGuessStats;
+  waitForDeployment(): Promise<this>;
+
+  interface: CryptoPriceGuessStatsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFilteredEvents: TypedContractMethod<
+    [
+      _statusFilter: BigNumberish,
+      _assetFilter: BigNumberish,
+      _sortBy: BigNumberish,
+      _sortOrder: BigNumberish,
+      _limit: BigNumberish,
+      _offset: BigNumberish
+    ],
+    [
+      [
+        bigint[],
+        string[],
+        bigint[],
+        bigint[],
+        boolean[],
+        boolean[],
+        bigint[]
+      ] & {
+        eventIds: bigint[];
+        titles: string[];
+        assetIds: bigint[];
+        endTimes: bigint[];
+        isActive: boolean[];
+        isFinalized: boolean[];
+        totalPredictions: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getGlobalStatistics: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        totalEvents: bigint;
+        activeEvents: bigint;
+        finalizedEvents: bigint;
+        totalPredictions: bigint;
+        totalCryptoBalls: bigint;
+        totalCollections: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getPredictionStatistics: TypedContractMethod<
+    [_eventId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        totalPredictions: bigint;
+        activePredictions: bigint;
+        finalizedPredictions: bigint;
+        averagePredictionAge: bigint;
+        uniquePredictors: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getUserPredictionHistory: TypedContractMethod<
+    [_user: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint[]] & {
+        totalPredictions: bigint;
+        activePredictions: bigint;
+        finalizedPredictions: bigint;
+        participatedEventIds: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getUserPublicProfile: TypedContractMethod<
+    [_user: AddressLike],
+    [
+      [string, boolean, bigint, bigint, bigint] & {
+        displayName: string;
+        hasPublicProfile: boolean;
+        totalPredictions: bigint;
+        totalBalls: bigint;
+        totalCollections: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  priceGuess: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "getFilteredEvents"
+  ): TypedContractMethod<
+    [
+      _statusFilter: BigNumberish,
+      _assetFilter: BigNumberish,
+      _sortBy: BigNumberish,
+      _sortOrder: BigNumberish,
+      _limit: BigNumberish,
+      _offset: BigNumberish
+    ],
+    [
+      [
+        bigint[],
+        string[],
+        bigint[],
+        bigint[],
+        boolean[],
+        boolean[],
+        bigint[]
+      ] & {
+        eventIds: bigint[];
+        titles: string[];
+        assetIds: bigint[];
+        endTimes: bigint[];
+        isActive: boolean[];
+        isFinalized: boolean[];
+        totalPredictions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getGlobalStatistics"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        totalEvents: bigint;
+        activeEvents: bigint;
+        finalizedEvents: bigint;
+        totalPredictions: bigint;
+        totalCryptoBalls: bigint;
+        totalCollections: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPredictionStatistics"
+  ): TypedContractMethod<
+    [_eventId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        totalPredictions: bigint;
+        activePredictions: bigint;
+        finalizedPredictions: bigint;
+        averagePredictionAge: bigint;
+        uniquePredictors: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getUserPredictionHistory"
+  ): TypedContractMethod<
+    [_user: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint[]] & {
+        totalPredictions: bigint;
+        activePredictions: bigint;
+        finalizedPredictions: bigint;
+        participatedEventIds: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getUserPublicProfile"
+  ): TypedContractMethod<
+    [_user: AddressLike],
+    [
+      [string, boolean, bigint, bigint, bigint] & {
+        displayName: string;
+        hasPublicProfile: boolean;
+        totalPredictions: bigint;
+        totalBalls: bigint;
+        totalCollections: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "priceGuess"
+  ): TypedContractMethod<[], [string], "view">;
+
+  filters: {};
+}
@@ -0,0 +1,1156 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface CryptoVaultInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_VAULT_GRANTEES"
+      | "MAX_VAULT_LABEL_LENGTH"
+      | "addToVaultEntry"
+      | "compareVaultEntries"
+      | "encryptedStorages"
+      | "getFilteredVaultEntries"
+      | "getPendingVaultReleases"
+      | "getSharedVaultEntryIds"
+      | "getUserStorageCount"
+      | "getUserStorageIds"
+      | "getVaultGrantees"
+      | "heartbeatVaultEntry"
+      | "maxVaultEntries"
+      | "minVaultEntries"
+      | "protocolId"
+      | "pruneExpiredVaultShares"
+      | "publishEncryptedValue"
+      | "publishRequested"
+      | "publishedVaultValues"
+      | "releaseVaultEntry"
+      | "retrieveEncryptedValue"
+      | "retrieveSharedVaultValue"
+      | "revokeVaultShare"
+      | "shareVaultEntry"
+      | "storeEncryptedEntry"
+      | "storeEncryptedValue"
+      | "storeTimeLockedEntry"
+      | "subtractFromVaultEntry"
+      | "transferEncryptedStorage"
+      | "userEncryptedStorages"
+      | "valuePublishCallback"
+      | "vaultShareExpiry"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "StorageTransferred"
+      | "ValuePublished"
+      | "ValueStored"
+      | "VaultEntryShared"
+      | "VaultEntryUpdated"
+      | "VaultReleaseScheduled"
+      | "VaultReleaseTriggered"
+      | "VaultShareRevoked"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_VAULT_GRANTEES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_VAULT_LABEL_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addToVaultEntry",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "compareVaultEntries",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedStorages",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFilteredVaultEntries",
+    values: [AddressLike, BigNumberish, boolean, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingVaultReleases",
+    values: [boolean, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSharedVaultEntryIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserStorageCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserStorageIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVaultGrantees",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "heartbeatVaultEntry",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxVaultEntries",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minVaultEntries",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pruneExpiredVaultShares",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishEncryptedValue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishRequested",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishedVaultValues",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseVaultEntry",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retrieveEncryptedValue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retrieveSharedVaultValue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeVaultShare",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareVaultEntry",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storeEncryptedEntry",
+    values: [BigNumberish, BytesLike, BytesLike, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storeEncryptedValue",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storeTimeLockedEntry",
+    values: [BigNumberish, BytesLike, BytesLike, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subtractFromVaultEntry",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferEncryptedStorage",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userEncryptedStorages",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "valuePublishCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vaultShareExpiry",
+    values: [BigNumberish, AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_VAULT_GRANTEES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_VAULT_LABEL_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addToVaultEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "compareVaultEntries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedStorages",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFilteredVaultEntries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingVaultReleases",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSharedVaultEntryIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserStorageCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserStorageIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVaultGrantees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "heartbeatVaultEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxVaultEntries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minVaultEntries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pruneExpiredVaultShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishEncryptedValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishRequested",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishedVaultValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseVaultEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retrieveEncryptedValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retrieveSharedVaultValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeVaultShare",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shareVaultEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "storeEncryptedEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "storeEncryptedValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "storeTimeLockedEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subtractFromVaultEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferEncryptedStorage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "userEncryptedStorages",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "valuePublishCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "vaultShareExpiry",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StorageTransferredEvent {
+  export type InputTuple = [
+    storageId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike
+  ];
+  export type OutputTuple = [storageId: bigint, from: string, to: string];
+  export interface OutputObject {
+    storageId: bigint;
+    from: string;
+    to: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValuePublishedEvent {
+  export type InputTuple = [
+    storageId: BigNumberish,
+    owner: AddressLike,
+    valueType: BigNumberish,
+    value: BigNumberish
+  ];
+  export type OutputTuple = [
+    storageId: bigint,
+    owner: string,
+    valueType: bigint,
+    value: bigint
+  ];
+  export interface OutputObject {
+    storageId: bigint;
+    owner: string;
+    valueType: bigint;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValueStoredEvent {
+  export type InputTuple = [storageId: BigNumberish, owner: AddressLike];
+  export type OutputTuple = [storageId: bigint, owner: string];
+  export interface OutputObject {
+    storageId: bigint;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VaultEntrySharedEvent {
+  export type InputTuple = [
+    storageId: BigNumberish,
+    grantee: AddressLike,
+    expiresAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    storageId: bigint,
+    grantee: string,
+    expiresAt: bigint
+  ];
+  export interface OutputObject {
+    storageId: bigint;
+    grantee: string;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VaultEntryUpdatedEvent {
+  export type InputTuple = [storageId: BigNumberish, owner: AddressLike];
+  export type OutputTuple = [storageId: bigint, owner: string];
+  export interface OutputObject {
+    storageId: bigint;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VaultReleaseScheduledEvent {
+  export type InputTuple = [storageId: BigNumberish, releaseAt: BigNumberish];
+  export type OutputTuple = [storageId: bigint, releaseAt: bigint];
+  export interface OutputObject {
+    storageId: bigint;
+    releaseAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VaultReleaseTriggeredEvent {
+  export type InputTuple = [storageId: BigNumberish, keeper: AddressLike];
+  export type OutputTuple = [storageId: bigint, keeper: string];
+  export interface OutputObject {
+    storageId: bigint;
+    keeper: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VaultShareRevokedEvent {
+  export type InputTuple = [storageId: BigNumberish, grantee: AddressLike];
+  export type OutputTuple = [storageId: bigint, grantee: string];
+  export interface OutputObject {
+    storageId: bigint;
+    grantee: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CryptoVault extends BaseContract {
+  connect(runner?: ContractRunner | null): CryptoVault;
+  waitForDeployment(): Promise<this>;
+
+  interface: CryptoVaultInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_VAULT_GRANTEES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_VAULT_LABEL_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  addToVaultEntry: TypedContractMethod<
+    [
+      _storageId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  compareVaultEntries: TypedContractMethod<
+    [
+      _storageId: BigNumberish,
+      _otherId: BigNumberish,
+      _comparison: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  encryptedStorages: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, bigint, string, bigint, bigint] & {
+        storedValue: string;
+        owner: string;
+        timestamp: bigint;
+        isEncrypted: boolean;
+        valueType: bigint;
+        label: string;
+        expiresAt: bigint;
+        releaseAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getFilteredVaultEntries: TypedContractMethod<
+    [
+      _user: AddressLike,
+      _typeFilter: BigNumberish,
+      _includeExpired: boolean,
+      _limit: BigNumberish,
+      _offset: BigNumberish
+    ],
+    [
+      [bigint[], bigint[], string[], bigint[], bigint] & {
+        storageIds: bigint[];
+        valueTypes: bigint[];
+        labels: string[];
+        expiresAt: bigint[];
+        totalMatches: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getPendingVaultReleases: TypedContractMethod<
+    [_dueOnly: boolean, _limit: BigNumberish, _offset: BigNumberish],
+    [
+      [bigint[], bigint[], bigint] & {
+        storageIds: bigint[];
+        releaseAt: bigint[];
+        totalMatches: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSharedVaultEntryIds: TypedContractMethod<
+    [_user: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getUserStorageCount: TypedContractMethod<
+    [_user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getUserStorageIds: TypedContractMethod<
+    [_user: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getVaultGrantees: TypedContractMethod<
+    [_storageId: BigNumberish],
+    [[string[], bigint[]] & { grantees: string[]; expiresAt: bigint[] }],
+    "view"
+  >;
+
+  heartbeatVaultEntry: TypedContractMethod<
+    [_storageId: BigNumberish, _releaseAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  maxVaultEntries: TypedContractMethod<
+    [_storageId: BigNumberish, _otherId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  minVaultEntries: TypedContractMethod<
+    [_storageId: BigNumberish, _otherId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  pruneExpiredVaultShares: TypedContractMethod<
+    [_storageId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  publishEncryptedValue: TypedContractMethod<
+    [_storageId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  publishRequested: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  publishedVaultValues: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  releaseVaultEntry: TypedContractMethod<
+    [_storageId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  retrieveEncryptedValue: TypedContractMethod<
+    [_storageId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  retrieveSharedVaultValue: TypedContractMethod<
+    [_storageId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  revokeVaultShare: TypedContractMethod<
+    [_storageId: BigNumberish, _grantee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  shareVaultEntry: TypedContractMethod<
+    [_storageId: BigNumberish, _grantee: AddressLike, _expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  storeEncryptedEntry: TypedContractMethod<
+    [
+      _valueType: BigNumberish,
+      _encryptedValue: BytesLike,
+      inputProof: BytesLike,
+      _label: string,
+      _expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  storeEncryptedValue: TypedContractMethod<
+    [_encryptedValue: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  storeTimeLockedEntry: TypedContractMethod<
+    [
+      _valueType: BigNumberish,
+      _encryptedValue: BytesLike,
+      inputProof: BytesLike,
+      _label: string,
+      _releaseAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  subtractFromVaultEntry: TypedContractMethod<
+    [
+      _storageId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferEncryptedStorage: TypedContractMethod<
+    [_storageId: BigNumberish, _to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  userEncryptedStorages: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  valuePublishCallback: TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+
+  vaultShareExpiry: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_VAULT_GRANTEES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_VAULT_LABEL_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addToVaultEntry"
+  ): TypedContractMethod<
+    [
+      _storageId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "compareVaultEntries"
+  ): TypedContractMethod<
+    [
+      _storageId: BigNumberish,
+      _otherId: BigNumberish,
+      _comparison: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedStorages"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, bigint, string, bigint, bigint] & {
+        storedValue: string;
+        owner: string;
+        timestamp: bigint;
+        isEncrypted: boolean;
+        valueType: bigint;
+        label: string;
+        expiresAt: bigint;
+        releaseAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getFilteredVaultEntries"
+  ): TypedContractMethod<
+    [
+      _user: AddressLike,
+      _typeFilter: BigNumberish,
+      _includeExpired: boolean,
+      _limit: BigNumberish,
+      _offset: BigNumberish
+    ],
+    [
+      [bigint[], bigint[], string[], bigint[], bigint] & {
+        storageIds: bigint[];
+        valueTypes: bigint[];
+        labels: string[];
+        expiresAt: bigint[];
+        totalMatches: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPendingVaultReleases"
+  ): TypedContractMethod<
+    [_dueOnly: boolean, _limit: BigNumberish, _offset: BigNumberish],
+    [
+      [bigint[], bigint[], bigint] & {
+        storageIds: bigint[];
+        releaseAt: bigint[];
+        totalMatches: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSharedVaultEntryIds"
+  ): TypedContractMethod<[_user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getUserStorageCount"
+  ): TypedContractMethod<[_user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getUserStorageIds"
+  ): TypedContractMethod<[_user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getVaultGrantees"
+  ): TypedContractMethod<
+    [_storageId: BigNumberish],
+    [[string[], bigint[]] & { grantees: string[]; expiresAt: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "heartbeatVaultEntry"
+  ): TypedContractMethod<
+    [_storageId: BigNumberish, _releaseAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "maxVaultEntries"
+  ): TypedContractMethod<
+    [_storageId: BigNumberish, _otherId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "minVaultEntries"
+  ): TypedContractMethod<
+    [_storageId: BigNumberish, _otherId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pruneExpiredVaultShares"
+  ): TypedContractMethod<[_storageId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "publishEncryptedValue"
+  ): TypedContractMethod<[_storageId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "publishRequested"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "publishedVaultValues"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "releaseVaultEntry"
+  ): TypedContractMethod<[_storageId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "retrieveEncryptedValue"
+  ): TypedContractMethod<[_storageId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "retrieveSharedVaultValue"
+  ): TypedContractMethod<[_storageId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "revokeVaultShare"
+  ): TypedContractMethod<
+    [_storageId: BigNumberish, _grantee: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shareVaultEntry"
+  ): TypedContractMethod<
+    [_storageId: BigNumberish, _grantee: AddressLike, _expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storeEncryptedEntry"
+  ): TypedContractMethod<
+    [
+      _valueType: BigNumberish,
+      _encryptedValue: BytesLike,
+      inputProof: BytesLike,
+      _label: string,
+      _expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storeEncryptedValue"
+  ): TypedContractMethod<
+    [_encryptedValue: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storeTimeLockedEntry"
+  ): TypedContractMethod<
+    [
+      _valueType: BigNumberish,
+      _encryptedValue: BytesLike,
+      inputProof: BytesLike,
+      _label: string,
+      _releaseAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "subtractFromVaultEntry"
+  ): TypedContractMethod<
+    [
+      _storageId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferEncryptedStorage"
+  ): TypedContractMethod<
+    [_storageId: BigNumberish, _to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "userEncryptedStorages"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "valuePublishCallback"
+  ): TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      cleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "vaultShareExpiry"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "StorageTransferred"
+  ): TypedContractEvent<
+    StorageTransferredEvent.InputTuple,
+    StorageTransferredEvent.OutputTuple,
+    StorageTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValuePublished"
+  ): TypedContractEvent<
+    ValuePublishedEvent.InputTuple,
+    ValuePublishedEvent.OutputTuple,
+    ValuePublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValueStored"
+  ): TypedContractEvent<
+    ValueStoredEvent.InputTuple,
+    ValueStoredEvent.OutputTuple,
+    ValueStoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "VaultEntryShared"
+  ): TypedContractEvent<
+    VaultEntrySharedEvent.InputTuple,
+    VaultEntrySharedEvent.OutputTuple,
+    VaultEntrySharedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VaultEntryUpdated"
+  ): TypedContractEvent<
+    VaultEntryUpdatedEvent.InputTuple,
+    VaultEntryUpdatedEvent.OutputTuple,
+    VaultEntryUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VaultReleaseScheduled"
+  ): TypedContractEvent<
+    VaultReleaseScheduledEvent.InputTuple,
+    VaultReleaseScheduledEvent.OutputTuple,
+    VaultReleaseScheduledEvent.OutputObject
+  >;
+  getEvent(
+    key: "VaultReleaseTriggered"
+  ): TypedContractEvent<
+    VaultReleaseTriggeredEvent.InputTuple,
+    VaultReleaseTriggeredEvent.OutputTuple,
+    VaultReleaseTriggeredEvent.OutputObject
+  >;
+  getEvent(
+    key: "VaultShareRevoked"
+  ): TypedContractEvent<
+    VaultShareRevokedEvent.InputTuple,
+    VaultShareRevokedEvent.OutputTuple,
+    VaultShareRevokedEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "StorageTransferred(uint256,address,address)": TypedContractEvent<
+      StorageTransferredEvent.InputTuple,
+      StorageTransferredEvent.OutputTuple,
+      StorageTransferredEvent.OutputObject
+    >;
+    StorageTransferred: TypedContractEvent<
+      StorageTransferredEvent.InputTuple,
+      StorageTransferredEvent.OutputTuple,
+      StorageTransferredEvent.OutputObject
+    >;
+
+    "ValuePublished(uint256,address,uint8,uint256)": TypedContractEvent<
+      ValuePublishedEvent.InputTuple,
+      ValuePublishedEvent.OutputTuple,
+      ValuePublishedEvent.OutputObject
+    >;
+    ValuePublished: TypedContractEvent<
+      ValuePublishedEvent.InputTuple,
+      ValuePublishedEvent.OutputTuple,
+      ValuePublishedEvent.OutputObject
+    >;
+
+    "ValueStored(uint256,address)": TypedContractEvent<
+      ValueStoredEvent.InputTuple,
+      ValueStoredEvent.OutputTuple,
+      ValueStoredEvent.OutputObject
+    >;
+    ValueStored: TypedContractEvent<
+      ValueStoredEvent.InputTuple,
+      ValueStoredEvent.OutputTuple,
+      ValueStoredEvent.OutputObject
+    >;
+
+    "VaultEntryShared(uint256,address,uint256)": TypedContractEvent<
+      VaultEntrySharedEvent.InputTuple,
+      VaultEntrySharedEvent.OutputTuple,
+      VaultEntrySharedEvent.OutputObject
+    >;
+    VaultEntryShared: TypedContractEvent<
+      VaultEntrySharedEvent.InputTuple,
+      VaultEntrySharedEvent.OutputTuple,
+      VaultEntrySharedEvent.OutputObject
+    >;
+
+    "VaultEntryUpdated(uint256,address)": TypedContractEvent<
+      VaultEntryUpdatedEvent.InputTuple,
+      VaultEntryUpdatedEvent.OutputTuple,
+      VaultEntryUpdatedEvent.OutputObject
+    >;
+    VaultEntryUpdated: TypedContractEvent<
+      VaultEntryUpdatedEvent.InputTuple,
+      VaultEntryUpdatedEvent.OutputTuple,
+      VaultEntryUpdatedEvent.OutputObject
+    >;
+
+    "VaultReleaseScheduled(uint256,uint256)": TypedContractEvent<
+      VaultReleaseScheduledEvent.InputTuple,
+      VaultReleaseScheduledEvent.OutputTuple,
+      VaultReleaseScheduledEvent.OutputObject
+    >;
+    VaultReleaseScheduled: TypedContractEvent<
+      VaultReleaseScheduledEvent.InputTuple,
+      VaultReleaseScheduledEvent.OutputTuple,
+      VaultReleaseScheduledEvent.OutputObject
+    >;
+
+    "VaultReleaseTriggered(uint256,address)": TypedContractEvent<
+      VaultReleaseTriggeredEvent.InputTuple,
+      VaultReleaseTriggeredEvent.OutputTuple,
+      VaultReleaseTriggeredEvent.OutputObject
+    >;
+    VaultReleaseTriggered: TypedContractEvent<
+      VaultReleaseTriggeredEvent.InputTuple,
+      VaultReleaseTriggeredEvent.OutputTuple,
+      VaultReleaseTriggeredEvent.OutputObject
+    >;
+
+    "VaultShareRevoked(uint256,address)": TypedContractEvent<
+      VaultShareRevokedEvent.InputTuple,
+      VaultShareRevokedEvent.OutputTuple,
+      VaultShareRevokedEvent.OutputObject
+    >;
+    VaultShareRevoked: TypedContractEvent<
+      VaultShareRevokedEvent.InputTuple,
+      VaultShareRevokedEvent.OutputTuple,
+      VaultShareRevokedEvent.OutputObject
+    >;
+  };
+}
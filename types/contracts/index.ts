@@ -1,5 +1,14 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { CryptoBallAuction } from "./CryptoBallAuction";
+export type { CryptoBallMarketplace } from "./CryptoBallMarketplace";
+export type { CryptoBalls } from "./CryptoBalls";
+export type { CryptoPriceFeed } from "./CryptoPriceFeed";
 export type { CryptoPriceGuess } from "./CryptoPriceGuess";
+export type { CryptoPriceGuessStats } from "./CryptoPriceGuessStats";
+export type { CryptoVault } from "./CryptoVault";
+export type { EventPools } from "./EventPools";
 export type { FHECounter } from "./FHECounter";
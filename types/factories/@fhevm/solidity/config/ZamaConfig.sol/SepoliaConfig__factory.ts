@@ -36,7 +36,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561000f575f5ffd5b5061018a6100ae604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b604c806101965f395ff3fe6080604052348015600e575f5ffd5b50600436106026575f3560e01c8063da1f12ab14602a575b5f5ffd5b61271160405190815260200160405180910390f3fea164736f6c634300081b000a";
+  "0x608060405234610193575f6060610014610197565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060610044610197565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03195f5160206102775f395f51905f525416175f5160206102775f395f51905f525573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f5160206102375f395f51905f525416175f5160206102375f395f51905f525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f5160206102575f395f51905f525416175f5160206102575f395f51905f5255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f5160206102175f395f51905f525416175f5160206102175f395f51905f5255604051604c90816101cb8239f35b5f80fd5b60405190608082016001600160401b038111838210176101b657604052565b634e487b7160e01b5f52604160045260245ffdfe60808060405260043610156011575f80fd5b5f3560e01c63da1f12ab146023575f80fd5b34603b575f366003190112603b578061271160209252f35b5f80fdfea164736f6c634300081b000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700";
 
 type SepoliaConfigConstructorParams =
   | [signer?: Signer]
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as draftIerc6093Sol from "./draft-IERC6093.sol";
+export { IERC1363__factory } from "./IERC1363__factory";
+export { IERC2981__factory } from "./IERC2981__factory";
@@ -0,0 +1,608 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CryptoBallAuction,
+  CryptoBallAuctionInterface,
+} from "../../contracts/CryptoBallAuction";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CryptoBalls",
+        name: "_balls",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reservePrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "winningBid",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "royalty",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deposit",
+        type: "uint256",
+      },
+    ],
+    name: "BidPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RefundClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawal",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "auctionRevealCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "balls",
+    outputs: [
+      {
+        internalType: "contract CryptoBalls",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "closeAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_reservePrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_duration",
+        type: "uint256",
+      },
+    ],
+    name: "createAuction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "deposits",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "reservePrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "bidCount",
+        type: "uint256",
+      },
+      {
+        internalType: "enum CryptoBallAuction.AuctionStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "winningBid",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAuctionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getBidders",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_bidder",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedBid",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pendingWithdrawals",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a06040523461023357604051601f61266038819003918201601f19168301916001600160401b038311848410176102375780849260209460405283398101031261023357516001600160a01b0381168103610233575f606061006061024b565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606061009061024b565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03195f5160206126405f395f51905f525416175f5160206126405f395f51905f525573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f5160206126005f395f51905f525416175f5160206126005f395f51905f525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f5160206126205f395f51905f525416175f5160206126205f395f51905f5255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f5160206125e05f395f51905f525416175f5160206125e05f395f51905f525560017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055608052604051612375908161026b8239608051818181610169015281816105f4015281816107fd0152818161198201528181611dd40152611f740152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176102375760405256fe60806040526004361015610011575f80fd5b5f5f3560e01c8063236ed8f3146113ec5780633ccfd60b146113095780633ec04a7d14610b1b5780634fa7b50714610a5657806353a58de114610a1057806355ea29b3146109bd5780635b7baf641461082157806366f2addc146107dd57806378bd79351461073b57806396b5a7551461057e578063b1724b4614610560578063b77dd80d146104f4578063c44e6640146104d7578063cda4beef14610127578063da1f12ab1461010a5763f3f43703146100ca575f80fd5b34610107576020366003190112610107576004356001600160a01b038116809103610105578160409160209352600483522054604051908152f35b505b80fd5b503461010757806003193601126101075760206040516127118152f35b503461010757606036600319011261010757604435602435600435821515806104ca575b156104855767ffffffffffffffff8211610440576001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000166040516331a9108f60e11b8152826004820152602081602481855afa9081156104355786916103f7575b506001600160a01b03339116036103b2578085913b15610105576040516323b872dd60e01b8152336004820152306024820152604481018490529082908290606490829084905af180156103a75761038e575b5054926801000000000000000084101561037a5760018401855561025f61022c8561151e565b5083815560018101805473ffffffffffffffffffffffffffffffffffffffff1916331790556002810185905591426115b6565b906003810191825561026f6121fb565b600682019081555f5160206123495f395f51905f5254604051639cd07acb60e01b815260048101899052919291906001600160a01b0316816044818b602094600760248401525af197881561035a5797610320575b50956102de6102e6926007602099019283553090546122cb565b3090546122cb565b5460405192835284830152827fc01e7da6ec06ecf5e1b887799549c755425a022ab59da72fa2d8c6255c10bc8560403394a4604051908152f35b96506020873d602011610352575b8161033b6020938361142c565b8101031261034e579551956102de6102c4565b5f80fd5b3d915061032e565b604051903d90823e3d90fd5b634e487b7160e01b5f52602160045260245ffd5b634e487b7160e01b85526041600452602485fd5b816103989161142c565b6103a357835f610206565b8380fd5b6040513d84823e3d90fd5b60405162461bcd60e51b815260206004820152600e60248201527f4e6f742062616c6c206f776e65720000000000000000000000000000000000006044820152606490fd5b90506020813d60201161042d575b816104126020938361142c565b810103126104295761042390611b1b565b5f6101b3565b8580fd5b3d9150610405565b6040513d88823e3d90fd5b60405162461bcd60e51b815260206004820152601660248201527f5265736572766520707269636520746f6f2068696768000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201527f496e76616c6964206475726174696f6e000000000000000000000000000000006044820152606490fd5b5062278d0083111561014b565b503461010757806003193601126101075760209054604051908152f35b50346101075760603660031901126101075760243567ffffffffffffffff8111610105576105269036906004016114b4565b906044359067ffffffffffffffff82116101075760206105568461054d36600487016114b4565b90600435611b2f565b6040519015158152f35b5034610107578060031936011261010757602060405162278d008152f35b50346101075760203660031901126101075760043561059f825482106114d2565b6105a88161151e565b506001600160a01b0360018201541633036106f657600581019060ff82541660048110156106e2576105da901561156a565b600481015461069d57815460ff19166003179091555482907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316803b15610699576040516323b872dd60e01b8152306004820152336024820152604481019290925282908290606490829084905af180156103a757610684575b50807f2809c7e17bf978fbc7194c0a694b638c4215e9140cacc6c38ca36010b45697df91a280f35b8161068e9161142c565b61010557815f61065c565b8280fd5b60405162461bcd60e51b815260206004820152601060248201527f41756374696f6e206861732062696473000000000000000000000000000000006044820152606490fd5b634e487b7160e01b85526021600452602485fd5b60405162461bcd60e51b815260206004820152600e60248201527f4e6f74207468652073656c6c65720000000000000000000000000000000000006044820152606490fd5b50346101075760203660031901126101075761076460043561075f835482106114d2565b61151e565b508054906001600160a01b03600182015416906002810154600382015460048301549060ff6005850154169260096001600160a01b0360088701541695015495604051978852602088015260408701526060860152608085015260048110156106e257610100945060a084015260c083015260e0820152f35b503461010757806003193601126101075760206040516001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000168152f35b50346101075760203660031901126101075760043561083e612146565b61084a825482106114d2565b60ff60056108578361151e565b5001541660048110156109a957600203610964578082526002602052604082206001600160a01b0333165f5260205260405f205490811561091f578083526002602052604083206001600160a01b0333165f526020528260405f20556108cc8380808086335af16108c6611a85565b50611ab4565b6040519182527ff3f402280ef0a7905e124aa621b65eaeb2725c343e8b36d398ed78c29daf285c60203393a360017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f005580f35b60405162461bcd60e51b815260206004820152601160248201527f4e6f7468696e6720746f20726566756e640000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601360248201527f41756374696f6e206e6f7420736574746c6564000000000000000000000000006044820152606490fd5b634e487b7160e01b83526021600452602483fd5b5034610107576040366003190112610107576001600160a01b036040600435926109e5611416565b936109f2825482106114d2565b815260016020522091165f52602052602060405f2054604051908152f35b5034610107576040366003190112610107576001600160a01b036040610a34611416565b92600435815260026020522091165f52602052602060405f2054604051908152f35b503461010757602036600319011261010757600435610a77825482106114d2565b8152600360205260408120604051908160208254918281520190819285526020852090855b818110610afc5750505082610ab291038361142c565b604051928392602084019060208552518091526040840192915b818110610ada575050500390f35b82516001600160a01b0316845285945060209384019390920191600101610acc565b82546001600160a01b0316845260209093019260019283019201610a9c565b50606036600319011261034e5760043560443567ffffffffffffffff811161034e573660238201121561034e5780600401359067ffffffffffffffff821161034e57366024838301011161034e57610b755f5484106114d2565b610b7e8361151e565b509160ff600584015416600481101561036657610b9b901561156a565b60038301544210156112c4576001600160a01b03600184015416331461127f57835f52600260205260405f206001600160a01b0333165f5260205260405f205461123a5734156111f55767ffffffffffffffff34116111b057610c54610c095f93602093602436920161147e565b6001600160a01b035f5160206123495f395f51905f5254169060405194858094819363196d0b9b60e01b835260243560048401523360248401526080604484015260848301906121d7565b6005606483015203925af1908115611173575f9161117e575b506001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561034e57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156111735761115e575b505f5160206123495f395f51905f5254604051639cd07acb60e01b81523467ffffffffffffffff16600482015291906001600160a01b03168260448188602094600560248401525af19182156110fd57859261112a575b50818192821561111a575b15611108575b60209060646001600160a01b035f5160206123495f395f51905f52541694886040519687948593631d44e90160e21b8552600485015260248401528160448401525af19081156110fd5785916110c7575b610d9f9250610d996121fb565b91612278565b600682018054829190821590816110b7575b80156110a5575b60209060646001600160a01b035f5160206123495f395f51905f525416968a60405198899485936385362ee760e01b8552600485015260248401528160448401525af1938415611012578794611071575b5081549083908215611061575b61104f575b60209060646001600160a01b035f5160206123495f395f51905f525416938a6040519586948593630d8c635960e21b8552600485015260248401528160448401525af190811561101257879161101d575b5081555f5160206123495f395f51905f5254604051639cd07acb60e01b815233600482015293906001600160a01b0316846044818a602094600760248401525af1938415611012578794610fdc575b50926102de610ee292610ed8610f14966007890194855491612278565b83555430906122cb565b8385526001602052604085206001600160a01b0333165f526020528060405f2055610f0d30826122cb565b33906122cb565b8183526002602052604083206001600160a01b0333165f5260205260405f203490558183526003602052604083208054906801000000000000000082101561037a5760018201808255821015610fc85784526020842001805473ffffffffffffffffffffffffffffffffffffffff1916331790556004018054610f9690611b00565b9055604051903482527f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c4760203393a380f35b634e487b7160e01b85526032600452602485fd5b93506020843d60201161100a575b81610ff76020938361142c565b8101031261034e579251926102de610ebb565b3d9150610fea565b6040513d89823e3d90fd5b90506020813d602011611047575b816110386020938361142c565b8101031261034e57515f610e6c565b3d915061102b565b50602061105a6121fb565b9050610e1b565b915061106b6121fb565b91610e16565b9093506020813d60201161109d575b8161108d6020938361142c565b8101031261034e5751925f610e09565b3d9150611080565b5060206110b06121fb565b9050610db8565b93506110c16121fb565b93610db1565b90506020823d6020116110f5575b816110e26020938361142c565b8101031261034e57610d9f915190610d8c565b3d91506110d5565b6040513d87823e3d90fd5b5060206111136121fb565b9050610d3b565b92506111246121fb565b92610d35565b9091506020813d602011611156575b816111466020938361142c565b8101031261034e5751905f610d2a565b3d9150611139565b61116b9194505f9061142c565b5f925f610cd3565b6040513d5f823e3d90fd5b90506020813d6020116111a8575b816111996020938361142c565b8101031261034e57515f610c6d565b3d915061118c565b60405162461bcd60e51b815260206004820152601060248201527f4465706f73697420746f6f2068696768000000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201527f4465706f736974207265717569726564000000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600b60248201527f416c7265616479206269640000000000000000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601160248201527f53656c6c65722063616e6e6f74206269640000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601160248201527f42696464696e672068617320656e6465640000000000000000000000000000006044820152606490fd5b3461034e575f36600319011261034e57611321612146565b335f52600460205260405f205480156113a757335f5260046020525f60408120556113555f80808085335af16108c6611a85565b6040519081527f7fcf532c15f0a6db0bd6d0e038bea71d30d808c7d98cb3bf7268a95bf5081b6560203392a260017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055005b60405162461bcd60e51b815260206004820152601360248201527f4e6f7468696e6720746f207769746864726177000000000000000000000000006044820152606490fd5b3461034e57602036600319011261034e5761141460043561140f5f5482106114d2565b6115d7565b005b602435906001600160a01b038216820361034e57565b90601f8019910116810190811067ffffffffffffffff82111761144e57604052565b634e487b7160e01b5f52604160045260245ffd5b67ffffffffffffffff811161144e57601f01601f191660200190565b92919261148a82611462565b91611498604051938461142c565b82948184528183011161034e578281602093845f960137010152565b9080601f8301121561034e578160206114cf9335910161147e565b90565b156114d957565b60405162461bcd60e51b815260206004820152601660248201527f41756374696f6e20646f6573206e6f74206578697374000000000000000000006044820152606490fd5b5f54811015611556575f808052600a919091027f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5630191565b634e487b7160e01b5f52603260045260245ffd5b1561157157565b60405162461bcd60e51b815260206004820152601060248201527f41756374696f6e206e6f74206f70656e000000000000000000000000000000006044820152606490fd5b919082018092116115c357565b634e487b7160e01b5f52601160045260245ffd5b5f6115e18261151e565b50906005820160ff8154166004811015610366576115ff901561156a565b60038301544210611a405760048301541561196b57805460ff191660011790556040519161162e60608461142c565b60028352602083019060403683376006810154845115611957578252600701548351600110156119435760408401527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054926001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156103a357836040518092637d6e912360e11b8252602060048301528183816116d960248201896121a4565b03925af180156119235790849161192e575b50506001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156103a357836040518092633263b83b60e01b82528760048301526060602483015281838161174c60648201896121a4565b63b77dd80d60e01b604483015203925af180156119235790849161190e575b508490527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260408320546118ff578383527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020526040832090519167ffffffffffffffff83116118eb576801000000000000000083116118eb5781548383558084106118c5575b5090835260208320835b8381106118b157505050506118357f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054611b00565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055600183019081841161189d5791602091604084837f4603db6e379bfc34597f7d0b7ed8bc30d6dc6456875942e8abaf2f15e36edc989652600585522055604051908152a2565b634e487b7160e01b81526011600452602490fd5b600190602084519401938184015501611800565b828552836020862091820191015b8181106118e057506117f6565b8581556001016118d3565b634e487b7160e01b84526041600452602484fd5b633f06d22b60e01b8352600483fd5b816119189161142c565b61069957825f61176b565b6040513d86823e3d90fd5b816119389161142c565b61069957825f6116eb565b634e487b7160e01b83526032600452602483fd5b634e487b7160e01b84526032600452602484fd5b805460ff19166002179055600182015491549092917f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0390811692911690823b1561034e576040516323b872dd60e01b81523060048201526001600160a01b039290921660248301526044820152905f908290606490829084905af1801561117357611a2b575b507ff3f2616e1974d63dd639b6a9ee3bb862a76b9bb4909e0a92a1e95b475e3821b760408051848152846020820152a3565b611a389192505f9061142c565b5f905f6119f9565b60405162461bcd60e51b815260206004820152601560248201527f42696464696e6720686173206e6f7420656e64656400000000000000000000006044820152606490fd5b3d15611aaf573d90611a9682611462565b91611aa4604051938461142c565b82523d5f602084013e565b606090565b15611abb57565b60405162461bcd60e51b815260206004820152601360248201527f455448207472616e73666572206661696c6564000000000000000000000000006044820152606490fd5b5f1981146115c35760010190565b919082039182116115c357565b51906001600160a01b038216820361034e57565b905f92825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f20541561213757825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f2090604051808360208295549384815201905f5260205f20925f5b81811061211e575050611bbd9250038361142c565b8251918260200192836020116115c3576040018093116115c357602092611c7492611c625f8694611c0e868060405180988d80519d8e91019d8e8585015e820190838201520301808852018661142c565b611c866001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b87526060600488015260648701906121a4565b858103600319016024870152906121d7565b838103600319016044850152906121d7565b03925af1908115611173575f916120e3575b50156120d45760405192807f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2805f52600560205260405f205493841561209257505f5260056020525f60408120555f1983019283116115c357611cfd8361151e565b50906005820160ff81541660048110156103665760010361204d57600260ff1982541617905560408380518101031261034e57519167ffffffffffffffff831680930361034e5760400151936001600160a01b03851680950361034e5784158015612045575b8015612038575b611f6657600882016001600160a01b03861673ffffffffffffffffffffffffffffffffffffffff198254161790558260098301558381526002602052604081206001600160a01b0386165f5260205260405f20611dc8848254611b0e565b90556001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000168254926040519363152a902d60e11b85526004850152846024850152604084604481855afa938415611f5b5783908495611f12575b506001600160a01b03168352600460205260408320611e498582546115b6565b9055611e558486611b0e565b6001600160a01b0360018301541684526004602052611e79604085209182546115b6565b905554813b15610699576040516323b872dd60e01b81523060048201526001600160a01b038816602482015260448101919091529082908290606490829084905af180156103a757611efd575b50507ff3f2616e1974d63dd639b6a9ee3bb862a76b9bb4909e0a92a1e95b475e3821b79160409182519182526020820152a3600190565b611f0882809261142c565b6101075780611ec6565b9450506040843d604011611f53575b81611f2e6040938361142c565b81010312610699576001600160a01b036020611f4986611b1b565b9501519490611e29565b3d9150611f21565b6040513d85823e3d90fd5b935090506001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906001600160a01b036001820154169054823b1561034e576040516323b872dd60e01b81523060048201526001600160a01b039290921660248301526044820152905f908290606490829084905af1801561117357612023575b507ff3f2616e1974d63dd639b6a9ee3bb862a76b9bb4909e0a92a1e95b475e3821b760408051848152846020820152a3600190565b6120309192505f9061142c565b5f905f611fee565b5060028201548310611d6a565b508215611d63565b60405162461bcd60e51b815260206004820152601560248201527f41756374696f6e206e6f742072657665616c696e6700000000000000000000006044820152606490fd5b62461bcd60e51b815260206004820152601760248201527f556e6b6e6f776e2061756374696f6e20726571756573740000000000000000006044820152606490fd5b63cf6c44e960e01b5f5260045ffd5b90506020813d602011612116575b816120fe6020938361142c565b8101031261034e5751801515810361034e575f611c98565b3d91506120f1565b8454835260019485019487945060209093019201611ba8565b63d66ca67560e01b5f5260045ffd5b60027f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0054146121955760027f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055565b633ee5aeb560e01b5f5260045ffd5b90602080835192838152019201905f5b8181106121c15750505090565b82518452602093840193909201916001016121b4565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b5f5160206123495f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600560248401525af1908115611173575f91612249575090565b90506020813d602011612270575b816122646020938361142c565b8101031261034e575190565b3d9150612257565b9060646020925f6001600160a01b035f5160206123495f395f51905f5254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115611173575f91612249575090565b6001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700541691823b1561034e57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156111735761233c5750565b5f6123469161142c565b56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081b000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700";
+
+type CryptoBallAuctionConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CryptoBallAuctionConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CryptoBallAuction__factory extends ContractFactory {
+  constructor(...args: CryptoBallAuctionConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _balls: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_balls, overrides || {});
+  }
+  override deploy(
+    _balls: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_balls, overrides || {}) as Promise<
+      CryptoBallAuction & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CryptoBallAuction__factory {
+    return super.connect(runner) as CryptoBallAuction__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CryptoBallAuctionInterface {
+    return new Interface(_abi) as CryptoBallAuctionInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CryptoBallAuction {
+    return new Contract(address, _abi, runner) as unknown as CryptoBallAuction;
+  }
+}
@@ -0,0 +1,516 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CryptoBallMarketplace,
+  CryptoBallMarketplaceInterface,
+} from "../../contracts/CryptoBallMarketplace";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CryptoBalls",
+        name: "_balls",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "BallListed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "royalty",
+        type: "uint256",
+      },
+    ],
+    name: "BallSold",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+    ],
+    name: "ListingCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "OfferCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "OfferMade",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawal",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_buyer",
+        type: "address",
+      },
+    ],
+    name: "acceptOffer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "balls",
+    outputs: [
+      {
+        internalType: "contract CryptoBalls",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "buyBall",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelListing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelOffer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballTypeFilter",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_minPower",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_maxPower",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_sortBy",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_sortOrder",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+    ],
+    name: "getFilteredListings",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ballIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "prices",
+        type: "uint256[]",
+      },
+      {
+        internalType: "address[]",
+        name: "sellers",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "totalMatches",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "getOffers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "buyers",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "amounts",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "listBall",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "listings",
+    outputs: [
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "listedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "makeOffer",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "offers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pendingWithdrawals",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346100bf57601f611b0438819003918201601f19168301916001600160401b038311848410176100c3578084926020946040528339810103126100bf57516001600160a01b03811681036100bf5760017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055608052604051611a2c90816100d882396080518181816101b901528181610783015281816109f501528181610ae501528181611304015281816114d90152818161160001526118a60152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063305a67a814610f445780633ccfd60b14610de55780633dcb15d414610b0957806366f2addc14610ac6578063918d407d146109b35780639a2f647414610752578063a5beb896146105b8578063de74e57b1461056f578063dfa49e6f1461047c578063e795825214610192578063ebdfbce51461014d578063ef706adf146100e75763f3f43703146100a8575f80fd5b346100e35760203660031901126100e3576004356001600160a01b0381168091036100e3575f526006602052602060405f2054604051908152f35b5f80fd5b346100e35760203660031901126100e3576004356101053382611712565b90335f52600660205260405f2061011d8382546111c7565b90556040519182527fe2dc0bfd2fc658db980184c3f7c091c2f886874e896043b562d5099c8d95b1dd60203393a3005b346100e35760403660031901126100e35761016661107b565b6004355f5260036020526001600160a01b0360405f2091165f52602052602060405f2054604051908152f35b346100e35760403660031901126100e3576024356004358115610437576001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000166040516331a9108f60e11b8152826004820152602081602481855afa9081156103e7575f916103f2575b5060249161021e60a0926001600160a01b03339116146111e8565b61023061022b33866115f6565b611234565b6040519283809263075e478d60e21b82528660048301525afa9081156103e7575f916103b3575b501561036e57805f52600260205260405f205415610305575b60405161027c816110dd565b3381526002602082018481526040830190428252845f525f6020526001600160a01b0360405f209451167fffffffffffffffffffffffff0000000000000000000000000000000000000000855416178455516001840155519101556040519182527f767709192c22fbccde3f3020708e98cca7a826970f283c74a78f7da3f725a3a460203393a3005b6001546801000000000000000081101561035a578161032d8260016103459401600155611165565b90919082549060031b91821b915f19901b1916179055565b600154815f52600260205260405f2055610270565b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260206004820152601260248201527f42616c6c206973206e6f742061637469766500000000000000000000000000006044820152606490fd5b6103d5915060a03d60a0116103e0575b6103cd81836110f9565b81019061128d565b935050505083610257565b503d6103c3565b6040513d5f823e3d90fd5b90506020813d60201161042f575b8161040d602093836110f9565b810103126100e35760249161021e61042660a0936111d4565b92505091610203565b3d9150610400565b60405162461bcd60e51b815260206004820152601c60248201527f5072696365206d7573742062652067726561746572207468616e2030000000006044820152606490fd5b346100e35760203660031901126100e357600435805f52600460205260405f20604051808260208294549384815201905f5260205f20925f5b81811061054d5750506104ca925003826110f9565b6104d48151611133565b5f5b825181101561051f57600190845f52600360205260405f206001600160a01b038061050184886111a6565b5116165f5260205260405f205461051882856111a6565b52016104d6565b61053b836105498460405193849360408552604085019061103f565b90838203602085015261100c565b0390f35b84546001600160a01b03168352600194850194869450602090930192016104b5565b346100e35760203660031901126100e3576004355f525f602052606060405f206001600160a01b0381541690600260018201549101549060405192835260208301526040820152f35b60203660031901126100e3576004356105cf61144b565b805f525f60205260405f20604051916105e7836110dd565b6106156001600160a01b03835416808552600260018501549460208701958652015460408601521515611091565b6001600160a01b03835116331461070d57815134036106c857610637816112cb565b15610683576001600160a01b0361065d9361065183611398565b5116915191339161189a565b60017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055005b60405162461bcd60e51b815260206004820152601060248201527f4c697374696e67206973207374616c65000000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601160248201527f496e636f7272656374207061796d656e740000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601860248201527f43616e6e6f742062757920796f7572206f776e2062616c6c00000000000000006044820152606490fd5b60203660031901126100e357600435341561096e576040516331a9108f60e11b8152600481018290526020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156103e7575f91610934575b506001600160a01b031633146108ef57805f52600360205260405f206001600160a01b0333165f5260205260405f20541561086c575b805f52600360205260405f206001600160a01b0333165f5260205260405f2061081b3482546111c7565b9055805f52600360205260405f206001600160a01b0333165f5260205260405f2054906040519182527fbdf1e76c2ba2a5c85b93bf78678a4a3b06d63b18422612dac8d7d5249ed4671460203393a3005b805f52600460205260405f208054906801000000000000000082101561035a578161089f9160016108bd94018155611191565b33906001600160a01b038084549260031b9316831b921b1916179055565b805f52600460205260405f2054815f52600560205260405f206001600160a01b0333165f5260205260405f20556107f1565b60405162461bcd60e51b815260206004820152601d60248201527f43616e6e6f74206f66666572206f6e20796f7572206f776e2062616c6c0000006044820152606490fd5b90506020813d602011610966575b8161094f602093836110f9565b810103126100e357610960906111d4565b826107bb565b3d9150610942565b60405162461bcd60e51b815260206004820152601c60248201527f4f66666572206d7573742062652067726561746572207468616e2030000000006044820152606490fd5b346100e35760403660031901126100e3576004356109cf61107b565b906109d861144b565b6040516331a9108f60e11b815260048101829052916020836024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9283156103e7575f93610a85575b50610a4661065d936001600160a01b03339116146111e8565b610a5361022b33846115f6565b610a5d8183611712565b91805f52600260205260405f2054610a77575b339061189a565b610a8081611398565b610a70565b92506020833d602011610abe575b81610aa0602093836110f9565b810103126100e357610a46610ab761065d946111d4565b9350610a2d565b3d9150610a93565b346100e3575f3660031901126100e35760206040516001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000168152f35b346100e35760e03660031901126100e357600435602435906044359060643560a4359260c4359260015490610b3d82611133565b93610b4783611133565b935f985f5b858110610d8957505050505050608435159060015b868110610c9c57505050838210610c8c575f925b808411610c84575b50610b8783611133565b92610b9181611133565b91610b9b8261111b565b93610ba960405195866110f9565b828552601f19610bb88461111b565b013660208701375f5b838110610c0f57610be98789610c0589610bf78a60405196879660808852608088019061100c565b90868203602088015261100c565b90848203604086015261103f565b9060608301520390f35b80610c25610c1f600193856111c7565b856111a6565b51610c30828a6111a6565b52610c3b81896111a6565b515f525f6020528160405f200154610c5382886111a6565b52610c5e81896111a6565b515f525f6020526001600160a01b0360405f205416610c7d82896111a6565b5201610bc1565b925084610b7d565b610c9682856111ba565b92610b75565b9194610cac8385989396986111a6565b5196610cb884876111a6565b5192845b8015801580610d48575b15610d1d575f19820191808311610d0957610ce1838a6111a6565b51610cec828b6111a6565b52610d02610cfa848c6111a6565b51918b6111a6565b5215610cbc575b634e487b7160e01b5f52601160045260245ffd5b50610d3e906001949995929a98969398610d37828a6111a6565b52866111a6565b5201919091610b61565b508915610d6c575f198201828111610d0957610d6587918b6111a6565b5111610cc6565b5f198201828111610d0957610d8287918b6111a6565b5110610cc6565b610d9281611165565b90549060031b1c610da685858589856114a9565b9190610db7575b5050600101610b4c565b610dc48d8b9e949e6111a6565b52610dcf82896111a6565b525f198114610d095760018091019a908c610dad565b346100e3575f3660031901126100e357610dfd61144b565b335f52600660205260405f20548015610eff57335f5260066020525f60408120555f80808084335af13d15610efa573d67ffffffffffffffff811161035a5760405190610e54601f8201601f1916602001836110f9565b81525f60203d92013e5b15610eb5576040519081527f7fcf532c15f0a6db0bd6d0e038bea71d30d808c7d98cb3bf7268a95bf5081b6560203392a260017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055005b60405162461bcd60e51b815260206004820152601360248201527f455448207472616e73666572206661696c6564000000000000000000000000006044820152606490fd5b610e5e565b60405162461bcd60e51b815260206004820152601360248201527f4e6f7468696e6720746f207769746864726177000000000000000000000000006044820152606490fd5b346100e35760203660031901126100e357600435805f525f6020526001600160a01b0360405f20541690610f79821515611091565b3382148015610ffc575b15610fb757610f9181611398565b7f8e25282255ab31897df2b0456bb993ac7f84d376861aefd84901d2d63a7428a25f80a3005b60405162461bcd60e51b815260206004820152600e60248201527f4e6f74207468652073656c6c65720000000000000000000000000000000000006044820152606490fd5b50611006816112cb565b15610f83565b90602080835192838152019201905f5b8181106110295750505090565b825184526020938401939092019160010161101c565b90602080835192838152019201905f5b81811061105c5750505090565b82516001600160a01b031684526020938401939092019160010161104f565b602435906001600160a01b03821682036100e357565b1561109857565b60405162461bcd60e51b815260206004820152600f60248201527f42616c6c206e6f74206c697374656400000000000000000000000000000000006044820152606490fd5b6060810190811067ffffffffffffffff82111761035a57604052565b90601f8019910116810190811067ffffffffffffffff82111761035a57604052565b67ffffffffffffffff811161035a5760051b60200190565b9061113d8261111b565b61114a60405191826110f9565b828152809261115b601f199161111b565b0190602036910137565b60015481101561117d5760015f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b805482101561117d575f5260205f2001905f90565b805182101561117d5760209160051b010190565b91908203918211610d0957565b91908201809211610d0957565b51906001600160a01b03821682036100e357565b156111ef57565b60405162461bcd60e51b815260206004820152600e60248201527f4e6f742062616c6c206f776e65720000000000000000000000000000000000006044820152606490fd5b1561123b57565b60405162461bcd60e51b815260206004820152601860248201527f4d61726b6574706c616365206e6f7420617070726f76656400000000000000006044820152606490fd5b519081151582036100e357565b908160a09103126100e357805160038110156100e357916020820151916040810151916112c860806112c1606085016111d4565b9301611280565b90565b805f525f6020526001600160a01b0360405f2054166040519163075e478d60e21b835280600484015260a0836024816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa9283156103e7575f905f94611366575b506001600160a01b03168214928361135e575b508261135457505090565b6112c892506115f6565b92505f611349565b6001600160a01b03945083915061138b9060a03d60a0116103e0576103cd81836110f9565b9793509150509150611336565b805f52600260205260405f20545f198101818111610d09576001545f198101908111610d095761032d916113ce6113dd92611165565b90549060031b1c928391611165565b5f52600260205260405f20556001548015611437575f19016113fe81611165565b8154905f199060031b1b19169055600155805f5260026020525f60408120555f525f6020525f6002604082208281558260018201550155565b634e487b7160e01b5f52603160045260245ffd5b60027f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f00541461149a5760027f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055565b633ee5aeb560e01b5f5260045ffd5b94939190926114b7866112cb565b156115ea5760405163075e478d60e21b8152600481018790529160a0836024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9485156103e7575f935f966115bf575b50801593841561158a575b50508261157f575b5081611562575b50935f525f60205260405f2090600181145f1461154e575060019150015490565b600203611559575090565b60029150015490565b801591508115611574575b505f61152d565b90508211155f61156d565b84101591505f611526565b9091935060038110156115ab5760018101809111610d095714915f8061151e565b634e487b7160e01b5f52602160045260245ffd5b9095506115dc91935060a03d60a0116103e0576103cd81836110f9565b50509391905092945f611513565b5050505090505f905f90565b6001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906040519063020604bf60e21b82526004820152602081602481855afa9081156103e7575f916116d8575b506001600160a01b0316301491821561166357505090565b602091925060446001600160a01b0391604051948593849263e985e9c560e01b84521660048301523060248301525afa9081156103e7575f916116a4575090565b90506020813d6020116116d0575b816116bf602093836110f9565b810103126100e3576112c890611280565b3d91506116b2565b90506020813d60201161170a575b816116f3602093836110f9565b810103126100e357611704906111d4565b5f61164b565b3d91506116e6565b9190825f52600360205260405f206001600160a01b0382165f5260205260405f205492831561185557805f52600360205260405f206001600160a01b0383165f526020525f6040812055805f52600460205260405f20815f52600560205260405f206001600160a01b0384165f5260205260405f20545f198101818111610d095782545f198101908111610d09576117ca916001600160a01b036117b96117e99387611191565b90549060031b1c1692839186611191565b9091906001600160a01b038084549260031b9316831b921b1916179055565b835f5260056020526001600160a01b0360405f2091165f5260205260405f205580548015611437575f19019061181f8282611191565b6001600160a01b0382549160031b1b19169055555f5260056020526001600160a01b0360405f2091165f526020525f6040812055565b60405162461bcd60e51b815260206004820152601260248201527f4e6f206f6666657220746f2072656d6f766500000000000000000000000000006044820152606490fd5b92906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906040519063152a902d60e11b8252856004830152836024830152604082604481865afa80156103e7575f925f916119d7575b50916001600160a01b031680156119cf575b5f52600660205260405f206119218382546111c7565b9055857fd79d5bb7066a3387cb55cc8c442904d97d76e4f8e2a0e2d78dd36195880e2b1060406001600160a01b038061195a878a6111ba565b9516988995865f526006602052611975845f209182546111c7565b90551696879582519182526020820152a4803b156100e3575f92836064926040519687958694632142170760e11b86526004860152602485015260448401525af180156103e7576119c35750565b5f6119cd916110f9565b565b5f925061190b565b9250506040823d604011611a17575b816119f3604093836110f9565b810103126100e3576001600160a01b036020611a0e846111d4565b930151906118f9565b3d91506119e656fea164736f6c634300081b000a";
+
+type CryptoBallMarketplaceConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CryptoBallMarketplaceConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CryptoBallMarketplace__factory extends ContractFactory {
+  constructor(...args: CryptoBallMarketplaceConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _balls: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_balls, overrides || {});
+  }
+  override deploy(
+    _balls: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_balls, overrides || {}) as Promise<
+      CryptoBallMarketplace & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): CryptoBallMarketplace__factory {
+    return super.connect(runner) as CryptoBallMarketplace__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CryptoBallMarketplaceInterface {
+    return new Interface(_abi) as CryptoBallMarketplaceInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CryptoBallMarketplace {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as CryptoBallMarketplace;
+  }
+}
@@ -0,0 +1,1717 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CryptoBalls,
+  CryptoBallsInterface,
+} from "../../contracts/CryptoBalls";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ERC721EnumerableForbiddenBatchMint",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721OutOfBoundsIndex",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collectionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "BallAddedToCollection",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newPowerLevel",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "BallPowerUpgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collectionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "BallRemovedFromCollection",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collectionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "CollectionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collectionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "curator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum CryptoBalls.CollectionRole",
+        name: "role",
+        type: "uint8",
+      },
+    ],
+    name: "CollectionCuratorSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collectionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "CollectionRenamed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collectionId",
+        type: "uint256",
+      },
+    ],
+    name: "CollectionReordered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collectionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "CollectionTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collectionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isPublic",
+        type: "bool",
+      },
+    ],
+    name: "CollectionVisibilityChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum CryptoBalls.BallType",
+        name: "ballType",
+        type: "uint8",
+      },
+    ],
+    name: "CryptoBallGenerated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "burnedBallIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "CryptoBallsFused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "minter",
+        type: "address",
+      },
+    ],
+    name: "MinterSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "points",
+        type: "uint256",
+      },
+    ],
+    name: "RewardPointsEarned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "FUSION_COST",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_COLLECTION_BALLS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ROYALTY_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_collectionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "addBallToCollection",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "ballCollections",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isPublic",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "ballSourceEvents",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "collectionRoles",
+    outputs: [
+      {
+        internalType: "enum CryptoBalls.CollectionRole",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "_isPublic",
+        type: "bool",
+      },
+    ],
+    name: "createBallCollection",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "cryptoBalls",
+    outputs: [
+      {
+        internalType: "enum CryptoBalls.BallType",
+        name: "ballType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "generationTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "powerLevel",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "_ballIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "fuseCryptoBalls",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_collectionId",
+        type: "uint256",
+      },
+    ],
+    name: "getBallCollection",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ballIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isPublic",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getBallCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "getBallUpgradeHistory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "enum CryptoBalls.UpgradeSource",
+            name: "source",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "previousPower",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "newPower",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct CryptoBalls.PowerUpgrade[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCollectionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_collectionId",
+        type: "uint256",
+      },
+    ],
+    name: "getCollectionCurators",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "curators",
+        type: "address[]",
+      },
+      {
+        internalType: "enum CryptoBalls.CollectionRole[]",
+        name: "roles",
+        type: "uint8[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "getCryptoBall",
+    outputs: [
+      {
+        internalType: "enum CryptoBalls.BallType",
+        name: "ballType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "generationTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "powerLevel",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getCuratedCollectionIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_ballTypeFilter",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_activeFilter",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_sortBy",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_sortOrder",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+    ],
+    name: "getFilteredUserBalls",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ballIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "enum CryptoBalls.BallType[]",
+        name: "ballTypes",
+        type: "uint8[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "powerLevels",
+        type: "uint256[]",
+      },
+      {
+        internalType: "bool[]",
+        name: "isActive",
+        type: "bool[]",
+      },
+      {
+        internalType: "uint256",
+        name: "totalMatches",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+    ],
+    name: "getPublicCollections",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "collectionIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "string[]",
+        name: "names",
+        type: "string[]",
+      },
+      {
+        internalType: "address[]",
+        name: "owners",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ballCounts",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserBallCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserCollectionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserCollectionIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_owner",
+        type: "address",
+      },
+      {
+        internalType: "enum CryptoBalls.BallType",
+        name: "_ballType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_sourceEventId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_royaltyReceiver",
+        type: "address",
+      },
+    ],
+    name: "mintClaimedBall",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "ballId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minter",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_collectionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "removeBallFromCollection",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_collectionId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+    ],
+    name: "renameBallCollection",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_collectionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_ballIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "reorderCollectionBalls",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "rewardPoints",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_salePrice",
+        type: "uint256",
+      },
+    ],
+    name: "royaltyInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_collectionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_curator",
+        type: "address",
+      },
+      {
+        internalType: "enum CryptoBalls.CollectionRole",
+        name: "_role",
+        type: "uint8",
+      },
+    ],
+    name: "setCollectionCurator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_collectionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_isPublic",
+        type: "bool",
+      },
+    ],
+    name: "setCollectionPublic",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_minter",
+        type: "address",
+      },
+    ],
+    name: "setMinter",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "_interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenOfOwnerByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_collectionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+    ],
+    name: "transferBallCollection",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_consumedBallIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "upgradeBallWithBalls",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_ballId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_points",
+        type: "uint256",
+      },
+    ],
+    name: "upgradeBallWithPoints",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "userCollections",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523461034657604080519081016001600160401b0381118282101761025c576040908152600a82526910dc9e5c1d1bd0985b1b60b21b602083015280519081016001600160401b0381118282101761025c57604052600581526410d090531360da1b602082015260017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f005581516001600160401b03811161025c575f54600181811c9116801561033c575b602082101461023e57601f81116102da575b50602092601f821160011461027b57928192935f92610270575b50508160011b915f199060031b1c1916175f555b80516001600160401b03811161025c57600154600181811c91168015610252575b602082101461023e57601f81116101db575b50602091601f821160011461017b579181925f92610170575b50508160011b915f199060031b1c1916176001555b600a80546001600160a01b0319163317905560405161571c908161034b8239f35b015190505f8061013a565b601f1982169260015f52805f20915f5b8581106101c3575083600195106101ab575b505050811b0160015561014f565b01515f1960f88460031b161c191690555f808061019d565b9192602060018192868501518155019401920161018b565b60015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6601f830160051c81019160208410610234575b601f0160051c01905b8181106102295750610121565b5f815560010161021c565b9091508190610213565b634e487b7160e01b5f52602260045260245ffd5b90607f169061010f565b634e487b7160e01b5f52604160045260245ffd5b015190505f806100da565b601f198216935f8052805f20915f5b8681106102c257508360019596106102aa575b505050811b015f556100ee565b01515f1960f88460031b161c191690555f808061029d565b9192602060018192868501518155019401920161028a565b5f80527f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563601f830160051c81019160208410610332575b601f0160051c01905b81811061032757506100c0565b5f815560010161031a565b9091508190610311565b90607f16906100ae565b5f80fdfe60a06040526004361015610011575f80fd5b5f3560e01c806301676e0d146132e757806301ffc9a714613245578063069b43ec1461322a57806306fdde03146131885780630754617214613162578063081812fc14613125578063095ea7b3146130395780630c6945ec14612d6757806312143c6b14612c4d5780631267467c14612aa2578063171cffd71461296857806318160ddd1461294b5780631c10106f1461292e5780631d791e34146128da57806321fe3bc41461287457806323b872dd1461285d5780632a0959e6146126625780632a55205a146126345780632f745c591461260d57806336ec6aa3146124a05780633801a71e1461233457806340221f7e1461231757806342842e0e146122e8578063428a6171146122a257806349c657db146122875780634f6ccce71461223957806354228d0c1461209557806357fdd1a514611cfa5780635994e26114611ca85780636352211e14611ccb57806370a0823114611ca8578063780a567614611c705780637bd95a8514611c385780638307edf214611bbc5780638cf6b0e814611b8457806395d89b4114611aa6578063a22cb465146119ed578063a2e514fe146119a1578063afecf715146118af578063b46ce945146117ae578063b872feb11461175d578063b88d4fde146116ef578063b9aa8a2b146116d4578063bb391ac814611420578063c129517b1461127a578063c87b56dd14610a5a578063ce84635b14610952578063d208ae71146107ad578063e985e9c514610754578063f5afc0db146102ed578063fca3b5aa146102835763fde14c8914610255575f80fd5b3461027f57602036600319011261027f576004355f52600c602052602060405f2054604051908152f35b5f80fd5b3461027f57602036600319011261027f576001600160a01b03196102a56134ba565b6001600160a01b03600a54916102be82841633146145c9565b169182911617600a557f726b590ef91a8c76ad05bbe91a57ef84605276528f49cd47d787f558a4e755b65f80a2005b3461027f57602036600319011261027f5760043567ffffffffffffffff811161027f5761031e90369060040161377b565b9060027f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0054146107455760027f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055600382036107005781156106ec5760ff61038682356135b9565b505416916103938361348c565b82156106a7575f925f5b8281106105f757506103ae8161348c565b5f190160ff81116105e3576103e66103de60ff6104199316956103d08761348c565b6103d987615472565b613d78565b8095336154a1565b93845f52600f60205260405f2060405191610400836134e6565b5f83525f60208401526040830152426060830152614615565b60405190602082528060208301527f07ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff811161027f5783917fb37ddee9a34adaf40b668b51575a44d269bd3268418842cde007ac6a706ae5059160051b8094604083013760408133958101030190a36020906040516104978382613502565b5f81526104a48233615587565b82333b6104d8575b60017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055604051838152f35b6105109160405180938192630a85bd0160e11b83523360048401525f6024840152866044840152608060648401526084830190613496565b03815f335af15f91816105a3575b5061057257823d1561056a573d9061053582613524565b916105436040519384613502565b82523d5f8284013e5b8151918261056757633250574960e11b5f523360045260245ffd5b01fd5b60609061054c565b6001600160e01b03191663757a42ff60e11b016105905782826104ac565b633250574960e11b5f523360045260245ffd5b9091508381813d83116105dc575b6105bb8183613502565b8101031261027f57516001600160e01b03198116810361027f57908461051e565b503d6105b1565b634e487b7160e01b5f52601160045260245ffd5b938160ff61060f6106098887896145b9565b356135b9565b50541661061b8261348c565b6106248161348c565b036106625761065b60019161065561064661064089888a6145b9565b35614fa5565b61064f86615472565b90613d85565b90613d78565b940161039d565b60405162461bcd60e51b815260206004820152601760248201527f42616c6c73206d757374207368617265206120746965720000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601d60248201527f4372797374616c2062616c6c732063616e6e6f742062652066757365640000006044820152606490fd5b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b815260206004820152601d60248201527f57726f6e67206e756d626572206f662062616c6c7320746f20667573650000006044820152606490fd5b633ee5aeb560e01b5f5260045ffd5b3461027f57604036600319011261027f5761076d6134ba565b6001600160a01b0361077d6134d0565b91165f5260056020526001600160a01b0360405f2091165f52602052602060ff60405f2054166040519015158152f35b3461027f576107bb366137ac565b906107c5836147f9565b9060028201918254840361090d575f5b84811061085657505067ffffffffffffffff8311610842576107f783836138a0565b905f5260205f205f5b83811061082e57847fbe4ba8925abf63edb9c204bdb2bd1984d6eac6c54e5bf57115369ef5de8034c45f80a2005b600190602084359401938184015501610800565b634e487b7160e01b5f52604160045260245ffd5b5f5f5b8681106108d3575060010361088e578061088861088361087c60019489886145b9565b35856148a1565b613e25565b016107d5565b60405162461bcd60e51b815260206004820152600e60248201527f4475706c69636174652062616c6c0000000000000000000000000000000000006044820152606490fd5b6108de8188876145b9565b356108ea8489886145b9565b35146108f9575b600101610859565b90610905600191613ef6565b9190506108f1565b60405162461bcd60e51b815260206004820152601360248201527f42616c6c20636f756e74206d69736d61746368000000000000000000000000006044820152606490fd5b3461027f57608036600319011261027f5761096b6134ba565b60243590600382101561027f57604435916064356001600160a01b038116810361027f576109a56001600160a01b03600a541633146145c9565b6109b96109b183615472565b8093856154a1565b92600185018095116105e3576005610a52938593602097855f52600c895260405f2055845f52600d88526001600160a01b0360405f2091166001600160a01b0319825416179055047fd3fb9137eab330a769f54f687a27e154914bdf0ccd3f430ad1bf8caf5dc84104866001600160a01b03841692835f52600e825260405f20610a44828254613d78565b9055604051908152a2615587565b604051908152f35b3461027f57602036600319011261027f57600435610a778161467f565b50610a81816135b9565b5060ff81541690610a918261521c565b90610a9b846152ee565b92610aa58161348c565b806111ed5750604051610ab9604082613502565b600781527f23613835356637000000000000000000000000000000000000000000000000006020820152905b60028101549460648611156111e75760645b6007810290808204600714901517156105e357600a9004603201806032116105e357610b22906152ee565b600383015460ff169384156111c057610b56604051610b42604082613502565b60018152603160f81b6020820152936152ee565b92610b60896152ee565b90604051938493602085017f3c73766720786d6c6e733d27687474703a2f2f7777772e77332e6f72672f32309052604085017f30302f737667272076696577426f783d273020302033353020333530273e00009052605e85017f3c646566733e3c72616469616c4772616469656e742069643d2767272063783d9052607e85017f27333525272063793d27333525273e3c73746f70206f66667365743d273025279052609e85017f2073746f702d636f6c6f723d2723666666272f3e000000000000000000000000905260b285017f3c73746f70206f66667365743d2731303025272073746f702d636f6c6f723d2790528051602081920160d287015e7f272f3e3c2f72616469616c4772616469656e743e3c2f646566733e3c7265637460d2918601918201527f2077696474683d2733353027206865696768743d27333530272066696c6c3d2760f28201527f23306231303230272f3e000000000000000000000000000000000000000000006101128201527f3c636972636c652063783d27313735272063793d273136302720723d2700000061011c820152815191829060200161013983015e0160d201606781017f272066696c6c3d2775726c2823672927206f7061636974793d27000000000000905281516020819301608183015e0160670193601a85017f272f3e3c7465787420783d273137352720793d27333130272066696c6c3d27239052603a85017f6535653765622720666f6e742d66616d696c793d276d6f6e6f737061636527209052605a85017f666f6e742d73697a653d2731362720746578742d616e63686f723d276d6964649052607a8501633632939f60e11b9052875160208901958187607e83015e01601a016064810161202360f01b905281516020819301606683015e01606401600281017f207c20506f776572200000000000000000000000000000000000000000000000905281516020819301600b83015e01600201600981017f3c2f746578743e3c2f7376673e0000000000000000000000000000000000000090520360090160121981018252600d01610e6c9082613502565b610e75906155c2565b95610e7f906152ee565b9160010154610e8d906152ee565b921561119d57604051610ea1604082613502565b600381526259657360e81b6020820152935b604051968796602088017f7b226e616d65223a2243727970746f42616c6c2023000000000000000000000090528051602081920160358a015e7f222c226465736372697074696f6e223a224d696e7465642066726f6d20616e206035918901918201527f656e637279707465642043727970746f5072696365477565737320707265646960558201527f6374696f6e206576656e742e220000000000000000000000000000000000000060758201527f2c22696d616765223a22646174613a696d6167652f7376672b786d6c3b626173608282015263194d8d0b60e21b60a2820152815191829060200160a683015e0160350190607182017f222c2261747472696275746573223a5b7b2274726169745f74797065223a22549052609182017f797065222c2276616c7565223a220000000000000000000000000000000000009052518092609f83015e01607101602e81017f227d2c7b2274726169745f74797065223a22506f776572204c6576656c222c229052604e81017f646973706c61795f74797065223a226e756d626572222c2276616c7565223a00905281516020819301606d83015e01602e01603f81017f7d2c7b2274726169745f74797065223a2247656e657261746564222c226469739052605f81017f706c61795f74797065223a2264617465222c2276616c7565223a000000000000905281516020819301607983015e01603f01603a81017f7d2c7b2274726169745f74797065223a22416374697665222c2276616c7565229052611d1160f11b605a82015281516020819301605c83015e01603a0163227d5d7d60e01b602282015203602201601b19810182526004016111249082613502565b61112d906155c2565b6040518091602082017f646174613a6170706c69636174696f6e2f6a736f6e3b6261736536342c000000905280516020819201603d84015e8101603d81015f905203603d01601f19810182526111839082613502565b6040518091602082526020820161119991613496565b0390f35b6040516111ab604082613502565b60028152614e6f60f01b602082015293610eb3565b610b566040516111d1604082613502565b60038152620c0b8d60ea1b6020820152936152ee565b85610af7565b6001906111f98161348c565b0361123d5760405161120c604082613502565b600781527f233362383266360000000000000000000000000000000000000000000000000060208201525b90610ae5565b60405161124b604082613502565b600781527f23323263353565000000000000000000000000000000000000000000000000006020820152611237565b3461027f57611288366137ac565b9081156113db57905f915f915b808310611365575050506112bb6112ab8361467f565b6001600160a01b03163314613966565b60026112c6836135b9565b506112d760ff6003830154166139b2565b016112e481549283613d78565b90818155835f52600f60205260405f2092604051611301816134e6565b7f9ecc96b830d0c4b6c86caef0a38dbe6b916ed05743298147d5152f96bc7b53cf946040946113429360018452602084015285830152426060830152614615565b548151908152336020820152a2005b634e487b7160e01b5f52602160045260245ffd5b909192846113748584866145b9565b35146113975761138e6001916106556106408786886145b9565b93019190611295565b606460405162461bcd60e51b815260206004820152602060248201527f43616e6e6f7420636f6e73756d65207468652075706772616465642062616c6c6044820152fd5b60405162461bcd60e51b815260206004820152601360248201527f4e6f2062616c6c7320746f20636f6e73756d65000000000000000000000000006044820152606490fd5b3461027f57604036600319011261027f5760043561143c6134d0565b9061144a60105482106137e0565b61145381613687565b509160018301926001600160a01b03845416330361168f576001600160a01b03821690811594851580611685575b15611640576114fa91600291865f52601460205260405f20855f5260205260ff60405f2054166114b08161348c565b6115e7575b9695949396335f5260116020526114cf8660405f20614f3e565b875f5260116020526114e48660405f206138f7565b876001600160a01b031982541617905501613eae565b5f5b81518110156115be579485611512869784613844565b515f526002602052336001600160a01b0360405f2054161461153b575b909594506001016114fc565b6115458184613844565b51966115ab576001600160a01b0361155d88866148e0565b16806115765787637e27328960e01b5f5260045260245ffd5b909192939495963382036115925750869594939291905061152f565b6364283d7b60e01b5f523360045260245260445260645ffd5b633250574960e11b5f525f60045260245ffd5b8533857f9b6a32f3cd7b15e8a1bfb25410c1b783cf20a9fcfee4b3b070770f5c09c0646f5f80a4005b6115f18688614ccd565b865f52601460205260405f20855f5260205260405f2060ff19815416905584877f85657e8e51106349494ea3fda0d4055835434a70b44ab12d5a49cd426f82731960206040515f8152a36114b5565b60405162461bcd60e51b815260206004820152601160248201527f496e76616c696420726563697069656e740000000000000000000000000000006044820152606490fd5b5033831415611481565b60405162461bcd60e51b815260206004820152601460248201527f4e6f7420636f6c6c656374696f6e206f776e65720000000000000000000000006044820152606490fd5b3461027f575f36600319011261027f57602060405160648152f35b3461027f57608036600319011261027f576117086134ba565b6117106134d0565b906044356064359267ffffffffffffffff841161027f573660238501121561027f5761174961175b943690602481600401359101613540565b92611755838383613a3e565b33614e09565b005b3461027f57604036600319011261027f576117766134d0565b6004355f5260146020526001600160a01b0360405f2091165f52602052602060ff60405f205416604051906117aa8161348c565b8152f35b3461027f57602036600319011261027f576004356117cf60105482106137e0565b6117d881613687565b5060ff6004820154168015928361189d575b501561185857611835916001600160a01b0360018301541690611848600384015492611821600261181a876136db565b9601613eae565b60405196879660a0885260a0880190613496565b916020870152858203604087015261360f565b9160608401521560808301520390f35b60405162461bcd60e51b815260206004820152601960248201527f436f6c6c656374696f6e206e6f742061636365737369626c65000000000000006044820152606490fd5b6118a991503390614da7565b836117ea565b3461027f5760e036600319011261027f576118e86118cb6134ba565b60c4359060a4359060843590606435906044359060243590613f04565b93926119026040939293519460a0865260a086019061360f565b918483036020860152602080835194858152019201925f5b81811061197c5750506119359250848203604086015261360f565b9282840360608401526020808351958681520192015f945b80861061196257505082935060808301520390f35b90926020806001928651151581520194019501949061194d565b90919260208060019287516119908161348c565b81520195019101939291909361191a565b3461027f57602036600319011261027f576001600160a01b036119c26134ba565b165f5260166020526111996119d960405f20613eae565b60405191829160208352602083019061360f565b3461027f57604036600319011261027f57611a066134ba565b611a0e613594565b903315611a93576001600160a01b0316908115611a8057335f52600560205260405f20825f52602052611a508160405f209060ff801983541691151516179055565b60405190151581527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160203392a3005b50630b61174360e31b5f5260045260245ffd5b63a9fbf51f60e01b5f525f60045260245ffd5b3461027f575f36600319011261027f576040515f600154611ac6816136a3565b8084529060018116908115611b605750600114611b02575b61119983611aee81850382613502565b604051918291602083526020830190613496565b60015f9081527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6939250905b808210611b4657509091508101602001611aee611ade565b919260018160209254838588010152019101909291611b2e565b60ff191660208086019190915291151560051b84019091019150611aee9050611ade565b3461027f57602036600319011261027f576001600160a01b03611ba56134ba565b165f526011602052602060405f2054604051908152f35b3461027f57602036600319011261027f5760043560105481101561027f57611be6611c2291613687565b50611bf0816136db565b906001600160a01b036001820154169060ff600460038301549201541690604051948594608086526080860190613496565b9260208501526040840152151560608301520390f35b3461027f57602036600319011261027f576001600160a01b03611c596134ba565b165f52600e602052602060405f2054604051908152f35b3461027f57602036600319011261027f576001600160a01b03611c916134ba565b165f5260116020526111996119d960405f20613eae565b3461027f57602036600319011261027f576020610a52611cc66134ba565b613e7d565b3461027f57602036600319011261027f576020611ce960043561467f565b6001600160a01b0360405191168152f35b3461027f57606036600319011261027f57600435611d166134d0565b90604435600381101561027f57611d3060105483106137e0565b611d3982613687565b50926001600160a01b038116938415158061207e575b1561203957835f52601460205260405f20855f5260205260ff60405f205416611d778461348c565b611d808161348c565b838114611ff4576001600160a01b0360018301541633141580611fd3575b611f27575b611dac8161348c565b611e73575090825f52601560205260405f20908154600160401b811015610842577f85657e8e51106349494ea3fda0d4055835434a70b44ab12d5a49cd426f82731993611e04826020956001611e2395018155613672565b9091906001600160a01b038084549260031b9316831b921b1916179055565b845f5260168252611e378460405f206138f7565b835f526014825260405f20855f52825260405f20611e548261348c565b60ff1981541660ff831617905560405190611e6e8161348c565b8152a3005b611e7c8361348c565b8215611eae575b505060207f85657e8e51106349494ea3fda0d4055835434a70b44ab12d5a49cd426f82731991611e37565b600290611ebb8386614ccd565b01908154805b611ecb5750611e83565b5f198101908082116105e357611ee4611f109285613672565b90549060031b1c805f52600260205283886001600160a01b0360405f20541614611f16575b5050613e71565b80611ec1565b611f209188614bc9565b8783611f09565b845f52601460205260405f206001600160a01b0333165f52602052600260ff60405f205416611f558161348c565b1480611fbf575b80611fab575b611da35760405162461bcd60e51b815260206004820152601c60248201527f4e6f7420616c6c6f77656420746f20736574207468697320726f6c65000000006044820152606490fd5b50611fb58461348c565b6002841415611f62565b50611fc98161348c565b6002811415611f5c565b5085331480611fe3575b15611d9e565b50611fed8461348c565b8315611fdd565b60405162461bcd60e51b815260206004820152600e60248201527f526f6c6520756e6368616e6765640000000000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201527f496e76616c69642063757261746f7200000000000000000000000000000000006044820152606490fd5b506001600160a01b03600182015416851415611d4f565b3461027f57604036600319011261027f5760043560243567ffffffffffffffff811161027f576120c9903690600401613576565b906120d381614785565b916120dd816146b2565b80519267ffffffffffffffff8411610842576120f981546136a3565b601f81116121fe575b50602093601f811160011461217857908161216893927fa6223cfe78fc114c7bf102bf37fae3c421e2a8e9f809b41d453a343cda12e26895965f9161216d575b508160011b915f199060031b1c1916179055604051918291602083526020830190613496565b0390a2005b905083015187612142565b601f198116825f52855f20905f5b8181106121e65750916001917fa6223cfe78fc114c7bf102bf37fae3c421e2a8e9f809b41d453a343cda12e268969782612168979695106121ce575b5050811b019055611aee565b8501515f1960f88460031b161c1916905587806121c2565b85880151835560209788019760019093019201612186565b61222990825f5260205f20601f870160051c8101916020881061222f575b601f0160051c019061388a565b84612102565b909150819061221c565b3461027f57602036600319011261027f576004356008548110156122715761226260209161365a565b90549060031b1c604051908152f35b63295f44f760e21b5f525f60045260245260445ffd5b3461027f575f36600319011261027f57602060405160fa8152f35b3461027f57604036600319011261027f576122bb6134ba565b6001600160a01b0360243591165f52601160205260405f20805482101561027f5760209161226291613672565b3461027f5761175b6122f9366135d5565b9060405192612309602085613502565b5f8452611755838383613a3e565b3461027f575f36600319011261027f576020600b54604051908152f35b3461027f57612342366135a3565b90815f5260026020526001600160a01b0360405f20541633145f14612498576001915b61237260105483106137e0565b61237b82613687565b5092336001600160a01b03600186015416036123bf575b506123a36108838261175b956148a1565b805f5260026020526001600160a01b0360405f20541691614bc9565b825f52601460205260405f206001600160a01b0333165f5260205260ff60405f2054166123eb8161348c565b8015612453576123fa8261348c565b6124038161348c565b1061240e5783612392565b60405162461bcd60e51b815260206004820152601760248201527f436f6c6c656374696f6e20726f6c6520746f6f206c6f770000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601860248201527f4e6f74206120636f6c6c656374696f6e2063757261746f7200000000000000006044820152606490fd5b600291612365565b3461027f576124ae366135a3565b80156125c857335f52600e6020528060405f20541061258357335f52600e60205260405f206124de828254613d85565b90556124fc336001600160a01b036124f58561467f565b1614613966565b6002612507836135b9565b5061251860ff6003830154166139b2565b0161252581549283613d78565b90818155835f52600f60205260405f2092604051612542816134e6565b7f9ecc96b830d0c4b6c86caef0a38dbe6b916ed05743298147d5152f96bc7b53cf946040946113429360028452602084015285830152426060830152614615565b60405162461bcd60e51b815260206004820152601860248201527f4e6f7420656e6f7567682072657761726420706f696e747300000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601260248201527f4e6f20706f696e747320746f207370656e6400000000000000000000000000006044820152606490fd5b3461027f57604036600319011261027f576020610a5261262b6134ba565b60243590613dd4565b3461027f57604061264d612647366135a3565b90613d92565b6001600160a01b038351921682526020820152f35b3461027f57612670366135a3565b601254918261267f8284613d78565b111561284e5750815b81808211156128455761269a91613d85565b915b6126a583613858565b916126af8461382c565b6126bc6040519182613502565b848152601f196126cb8661382c565b015f5b8181106128345750506126e08561382c565b946126ee6040519687613502565b808652601f196126fd8261382c565b0136602088013761270d81613858565b925f5b8281106127b65750505061272f6040519460a0865260a086019061360f565b948486036020860152815180875260208701906020808260051b8a01019401915f905b82821061278a578880896127808a6127728b8b8682036040880152613450565b90848203606086015261360f565b9060808301520390f35b909192946020806127a86001938d601f199082030186528951613496565b970192019201909291612752565b8060026127cd6127c860019486613d78565b613642565b90549060031b1c6127dd81613687565b50906127e9848c613844565b526127f3816136db565b6127fd8489613844565b526128088388613844565b506001600160a01b038482015416612820848d613844565b52015461282d8288613844565b5201612710565b8060606020809386010152016126ce565b50505f9161269c565b6128589082613d78565b612688565b3461027f5761175b61286e366135d5565b91613a3e565b3461027f57602036600319011261027f57600435600b5481101561027f5761289d6080916135b9565b5060ff8154169060018101549060ff600360028301549201541691604051936128c58161348c565b84526020840152604083015215156060820152f35b3461027f57602036600319011261027f5760a06001600160a01b036129006004356139fe565b939492604092919251956129138161348c565b86526020860152604085015216606083015215156080820152f35b3461027f575f36600319011261027f576020601054604051908152f35b3461027f575f36600319011261027f576020600854604051908152f35b3461027f57612976366135a3565b90612984600b54831061391a565b61298d816147f9565b6129b260ff600361299d866135b9565b506129aa6112ab8861467f565b0154166139b2565b6129bc83826148a1565b612a5d57600201606481541015612a1857826129d7916138f7565b815f5260176020526129ec8160405f206138f7565b7f72dec0630500bea0e14404b64c1b55a0a123bce10f646f10116efc08e3f685436020604051338152a3005b60405162461bcd60e51b815260206004820152601260248201527f436f6c6c656374696f6e2069732066756c6c00000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601a60248201527f42616c6c20616c726561647920696e20636f6c6c656374696f6e0000000000006044820152606490fd5b3461027f57604036600319011261027f57600435612abe613594565b6004612ac983614785565b019060ff825416918115158093151514612c0857805460ff191660ff8315151617905515612b275760207f505a06b98bd5675c452e3448d6c0314443513241e415dc6debf8ca872f4c43c891612b1e8461474e565b604051908152a2005b815f52601360205260405f20545f1981018181116105e3576012545f1981019081116105e357612b6c91612b5d612b8492613642565b90549060031b1c928391613642565b90919082549060031b91821b915f19901b1916179055565b5f52601360205260405f20556012548015612bf4577f505a06b98bd5675c452e3448d6c0314443513241e415dc6debf8ca872f4c43c8916020915f1901612bdf612bcf826012613672565b8154905f199060031b1b19169055565b601255835f52601382525f6040812055612b1e565b634e487b7160e01b5f52603160045260245ffd5b60405162461bcd60e51b815260206004820152601460248201527f5669736962696c69747920756e6368616e6765640000000000000000000000006044820152606490fd5b3461027f57602036600319011261027f57600435612c6e600b54821061391a565b5f52600f60205260405f20805490612c858261382c565b91612c936040519384613502565b8083526020830180925f5260205f205f915b838310612d1a578486604051918291602083019060208452518091526040830191905f5b818110612cd7575050500390f35b9193509160206080600192606087518051612cf18161348c565b835284810151858401526040810151604084015201516060820152019401910191849392612cc9565b60046020600192604051612d2d816134e6565b60ff865416612d3b8161348c565b815284860154838201526002860154604082015260038601546060820152815201920192019190612ca5565b3461027f57604036600319011261027f5760043567ffffffffffffffff811161027f57612d98903690600401613576565b612da0613594565b90612daa816146b2565b60105490602092604051612dbe8582613502565b5f81525f3681376040519060a0820182811067ffffffffffffffff821117610842576040528382528582019033825260408301908152606083019042825260808401928515158452600160401b8810156108425760018801601055612e2288613687565b959095613026575180519067ffffffffffffffff821161084257612e4687546136a3565b8b601f8211612ff7575b50508a90601f8311600114612f88576001600160a01b039392915f9183612f7d575b50508160011b915f199060031b1c19161786555b51166001600160a01b036001860191166001600160a01b03198254161790556002840190519081519167ffffffffffffffff8311610842578990612eca84846138a0565b01905f52885f205f5b838110612f6b5750505050612f02929160049151600384015551151591019060ff801983541691151516179055565b335f5260118452612f168360405f206138f7565b612f5d575b817fb0b7b214963f2e16da9cf6ed5851757dfed306875edf1d59e030881102ef24ef60405185815280612f52339588830190613496565b0390a3604051908152f35b612f668261474e565b612f1b565b825182820155918a0191600101612ed3565b015190508c80612e72565b5f8881528c8120929190601f198516908e5b828210612fdf5750509160019391856001600160a01b0397969410612fc7575b505050811b018655612e86565b01515f1960f88460031b161c191690558c8080612fba565b80600186978294978701518155019601940190612f9a565b61301f91895f52815f2090601f860160051c820192861061222f57601f0160051c019061388a565b8b8b612e50565b634e487b7160e01b5f525f60045260245ffd5b3461027f57604036600319011261027f576130526134ba565b60243561305e8161467f565b33151580613112575b806130df575b6130cc5781906001600160a01b0380851691167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9255f80a45f5260046020526001600160a01b0360405f2091166001600160a01b03198254161790555f80f35b63a9fbf51f60e01b5f523360045260245ffd5b506001600160a01b0381165f52600560205260405f206001600160a01b0333165f5260205260ff60405f2054161561306d565b50336001600160a01b0382161415613067565b3461027f57602036600319011261027f576004356131428161467f565b505f52600460205260206001600160a01b0360405f205416604051908152f35b3461027f575f36600319011261027f5760206001600160a01b03600a5416604051908152f35b3461027f575f36600319011261027f576040515f5f546131a7816136a3565b8084529060018116908115611b6057506001146131ce5761119983611aee81850382613502565b5f8080527f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563939250905b80821061321057509091508101602001611aee611ade565b9192600181602092548385880101520191019092916131f8565b3461027f575f36600319011261027f57602060405160038152f35b3461027f57602036600319011261027f5760043563ffffffff60e01b811680910361027f5760209063152a902d60e11b811490811561328a575b506040519015158152f35b63780e9d6360e01b8114915081156132a4575b508261327f565b6380ac58cd60e01b8114915081156132d6575b81156132c5575b508261329d565b6301ffc9a760e01b149050826132be565b635b5e139f60e01b811491506132b7565b3461027f57602036600319011261027f5760043561330860105482106137e0565b805f52601560205260405f2090604051808360208295549384815201905f5260205f20925f5b81811061342e57505061334392500383613502565b81516133676133518261382c565b9161335f6040519384613502565b80835261382c565b602082019290601f19013684375f5b84518110156133cb57600190825f52601460205260405f206001600160a01b03806133a1848a613844565b5116165f5260205260ff60405f2054166133bb8286613844565b6133c48261348c565b5201613376565b5050906133e992916020604051948594604086526040860190613450565b918483038286015251918281520191905f5b818110613409575050500390f35b91935091602080600192865161341e8161348c565b81520194019101918493926133fb565b84546001600160a01b031683526001948501948794506020909301920161332e565b90602080835192838152019201905f5b81811061346d5750505090565b82516001600160a01b0316845260209384019390920191600101613460565b6003111561135157565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b600435906001600160a01b038216820361027f57565b602435906001600160a01b038216820361027f57565b6080810190811067ffffffffffffffff82111761084257604052565b90601f8019910116810190811067ffffffffffffffff82111761084257604052565b67ffffffffffffffff811161084257601f01601f191660200190565b92919261354c82613524565b9161355a6040519384613502565b82948184528183011161027f578281602093845f960137010152565b9080601f8301121561027f5781602061359193359101613540565b90565b60243590811515820361027f57565b604090600319011261027f576004359060243590565b600b548110156106ec57600b5f5260205f209060021b01905f90565b606090600319011261027f576004356001600160a01b038116810361027f57906024356001600160a01b038116810361027f579060443590565b90602080835192838152019201905f5b81811061362c5750505090565b825184526020938401939092019160010161361f565b6012548110156106ec5760125f5260205f2001905f90565b6008548110156106ec5760085f5260205f2001905f90565b80548210156106ec575f5260205f2001905f90565b6010548110156106ec5760105f52600560205f20910201905f90565b90600182811c921680156136d1575b60208310146136bd57565b634e487b7160e01b5f52602260045260245ffd5b91607f16916136b2565b9060405191825f8254926136ee846136a3565b80845293600181169081156137595750600114613715575b5061371392500383613502565b565b90505f9291925260205f20905f915b81831061373d575050906020613713928201015f613706565b6020919350806001915483858901015201910190918492613724565b90506020925061371394915060ff191682840152151560051b8201015f613706565b9181601f8401121561027f5782359167ffffffffffffffff831161027f576020808501948460051b01011161027f57565b90604060031983011261027f57600435916024359067ffffffffffffffff821161027f576137dc9160040161377b565b9091565b156137e757565b60405162461bcd60e51b815260206004820152601960248201527f436f6c6c656374696f6e20646f6573206e6f74206578697374000000000000006044820152606490fd5b67ffffffffffffffff81116108425760051b60200190565b80518210156106ec5760209160051b010190565b906138628261382c565b61386f6040519182613502565b8281528092613880601f199161382c565b0190602036910137565b818110613895575050565b5f815560010161388a565b90600160401b8111610842578154908083558181106138be57505050565b613713925f5260205f20918201910161388a565b60085490600160401b82101561084257612b6c82600161371394016008556008613672565b90815491600160401b8310156108425782612b6c91600161371395018155613672565b1561392157565b60405162461bcd60e51b815260206004820152601360248201527f42616c6c20646f6573206e6f74206578697374000000000000000000000000006044820152606490fd5b1561396d57565b60405162461bcd60e51b815260206004820152600e60248201527f4e6f742062616c6c206f776e65720000000000000000000000000000000000006044820152606490fd5b156139b957565b60405162461bcd60e51b815260206004820152601260248201527f42616c6c206973206e6f742061637469766500000000000000000000000000006044820152606490fd5b613a07816135b9565b5060ff8154166001820154936002830154935f52600260205260ff60036001600160a01b0360405f20541694015416919493929190565b9190916001600160a01b0383169081156115ab57825f5260026020526001600160a01b0360405f205416801515808091613d70575b613d52575b613ce5575b50825f5260026020526001600160a01b0360405f2054169333151580613c4f575b5084158015613c18575b835f52600360205260405f2060018154019055845f52600260205260405f20846001600160a01b03198254161790558484877fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a415613b9b57600854845f52600960205260405f2055613b1c846138d2565b828503613b54575b506001600160a01b03915016808303613b3c57505050565b6364283d7b60e01b5f5260045260245260445260645ffd5b613b5d90613e7d565b5f1981019081116105e3576001600160a01b03925f52600660205260405f20815f526020528360405f2055835f52600760205260405f20555f613b24565b848314613b1c57613bab85613e7d565b845f52600760205260405f205490865f52600660205260405f2091818103613bed575b50855f5260076020525f60408120555f526020525f6040812055613b1c565b815f528260205260405f2054815f52836020528060405f20555f52600760205260405f20555f613bce565b613c37855f52600460205260405f206001600160a01b03198154169055565b855f52600360205260405f205f198154019055613aa8565b80613c8e575b15613c60575f613a9e565b8385613c7857637e27328960e01b5f5260045260245ffd5b63177e802f60e01b5f523360045260245260445ffd5b503385148015613cbc575b80613c555750835f526004602052336001600160a01b0360405f20541614613c55565b50845f52600560205260405f206001600160a01b0333165f5260205260ff60405f205416613c99565b835f52601760205260405f20908154805b613d01575050613a7d565b5f198101908082116105e357613d1a613d3b9285613672565b90549060031b1c8388613d2d8b84614da7565b15613d41575b505050613e71565b80613cf6565b613d4a92614bc9565b5f8388613d33565b613d6b60ff6003613d62886135b9565b500154166139b2565b613a78565b506001613a73565b919082018092116105e357565b919082039182116105e357565b9190915f52600d6020526001600160a01b0360405f2054168015613dcc5760fa83029280840460fa14901517156105e35761271090920490565b505f91508190565b613ddd81613e7d565b821015613e06576001600160a01b03165f52600660205260405f20905f5260205260405f205490565b6001600160a01b039063295f44f760e21b5f521660045260245260445ffd5b15613e2c57565b60405162461bcd60e51b815260206004820152601c60248201527f42616c6c206e6f7420666f756e6420696e20636f6c6c656374696f6e000000006044820152606490fd5b80156105e3575f190190565b6001600160a01b03168015613e9b575f52600360205260405f205490565b6322718ad960e21b5f525f60045260245ffd5b90604051918281549182825260208201905f5260205f20925f5b818110613edd57505061371392500383613502565b8454835260019485019487945060209093019201613ec8565b5f1981146105e35760010190565b9695949094939193613f1588613e7d565b96613f1f88613858565b985f5b89811061459a5750505f975f5b8181106144a25750613f4089613858565b96613f4a8a613858565b9a613f548b613858565b608052613f608b613858565b995f91828e5b868210614387575050505050505090915f925b600184018085116105e35789111561421c575f5b613f97858b613d85565b5f1981019081116105e357811015614207575f876141045750856140dd57613fbf8189613844565b51600182018083116105e357613fd5908a613844565b51105b613fe5575b600101613f8d565b613fef8189613844565b5190600181018082116105e357600192614009828c613844565b51614014848d613844565b5261401f828c613844565b528c6140678261402f8584613844565b519261403a8461348c565b6140448282613844565b5161404e8161348c565b6140588783613844565b6140618261348c565b52613844565b6140708261348c565b5261407d82608051613844565b5161408a82608051613844565b5161409784608051613844565b526140a482608051613844565b526140d56140b2838d613844565b511515918c6140ce856140c58484613844565b51151592613844565b528c613844565b529050613fdd565b6140e78189613844565b51600182018083116105e3576140fd908a613844565b5111613fd8565b6001880361416157508561413d5761411e81608051613844565b51600182018083116105e35761413690608051613844565b5110613fd8565b61414981608051613844565b51600182018083116105e3576140fd90608051613844565b60028803613fd85750856141bb57614179818c613844565b516141838161348c565b61418c8161348c565b600182018083116105e3576141a1908d613844565b51906141ac8261348c565b6141b58261348c565b11613fd8565b6141c5818c613844565b516141cf8161348c565b6141d88161348c565b600182018083116105e3576141ed908d613844565b51906141f88261348c565b6142018261348c565b10613fd8565b5091909261421490613ef6565b929091613f79565b979350909350614230915096949686613d78565b818111614380575b8186101561431b578561424a91613d85565b61425381613858565b9661425d82613858565b9661426783613858565b9661427184613858565b965f5b8581106142845750505050505090565b808c6142a68261429f6142996001968a613d78565b87613844565b5192613844565b528b6142cf826142bf6142b9828a613d78565b88613844565b51926142ca8461348c565b613844565b6142d88261348c565b526142ee6142e68287613d78565b608051613844565b516142f9828d613844565b526143076142998287613d78565b511515614314828c613844565b5201614274565b509350935050506020604051916143328284613502565b5f83525f368137604051936143478386613502565b5f85525f3681376040519361435c8486613502565b5f85525f368137604051936143718186613502565b5f8552505f3681379493929190565b5080614238565b8d8d6143938486613844565b5161439d816139fe565b9793949250509389158015614486575b8015614468575b801561444a575b8c158015614438575b81614430575b506143e0575b505050505050506001018e613f66565b93614417936144018c80989495819660019c9f614061906144219d9b613844565b61440a8261348c565b5261406183608051613844565b9015159052613ef6565b93908f5f8f918f8282916143d0565b90505f6143ca565b5060018d1480156143c45750876143c4565b5060038a1480156143bb575061445f8461348c565b600284146143bb565b5060028a1480156143b4575061447d8461348c565b600184146143b4565b5060018a1480156143ad575061449b8461348c565b83156143ad565b6144b56144af828d613844565b516139fe565b925050508a15918215614577575b8215614552575b8215614528575b50891590811561450d575b5081614505575b506144f1575b600101613f2f565b986144fd600191613ef6565b9990506144e9565b90505f6144e3565b60018b14915081614520575b505f6144dc565b90505f614519565b90915060038b14908161453e575b50905f6144d1565b6002915061454b8161348c565b145f614536565b915060028b1480614564575b916144ca565b5061456e8261348c565b6001821461455e565b915060018b1480614589575b916144c3565b506145938261348c565b8115614583565b808b6145b2826145ac60019587613dd4565b92613844565b5201613f22565b91908110156106ec5760051b0190565b156145d057565b60405162461bcd60e51b815260206004820152601b60248201527f4f6e6c7920746865206d696e7465722063616e20646f207468697300000000006044820152606490fd5b805490600160401b82101561084257600182018082558210156106ec576003916060915f5260205f209060021b0192805161464f8161348c565b6146588161348c565b60ff8019865416911617845560208101516001850155604081015160028501550151910155565b805f5260026020526001600160a01b0360405f2054169081156146a0575090565b637e27328960e01b5f5260045260245ffd5b8051156147095760329051116146c457565b60405162461bcd60e51b815260206004820152601860248201527f436f6c6c656374696f6e206e616d6520746f6f206c6f6e6700000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601f60248201527f436f6c6c656374696f6e206e616d652063616e6e6f7420626520656d707479006044820152606490fd5b601254600160401b8110156108425781612b6c82600161477394016012556012613672565b601254905f52601360205260405f2055565b9061479360105483106137e0565b61479c82613687565b50916001600160a01b0360018401541633036147b55750565b5f52601460205260405f206001600160a01b0333165f5260205260ff60405f2054166147e08161348c565b801561245357806147f260029261348c565b1061240e57565b9061480760105483106137e0565b61481082613687565b50916001600160a01b0360018401541633036148295750565b5f52601460205260405f206001600160a01b0333165f5260205260ff60405f2054166148548161348c565b801561245357806147f260019261348c565b6008548015612bf4575f1901614880612bcf826008613672565b600855565b80548015612bf4575f19019061489e612bcf8383613672565b55565b905f5b6002830180548210156148d8576148bc828492613672565b90549060031b1c146148d0576001016148a4565b505050600190565b505050505f90565b815f5260026020526001600160a01b0360405f205416801515808091614bb7575b614ba2575b614b1e575b50815f5260026020526001600160a01b0360405f205416918215918215614ae7575b6001600160a01b038116928315908115614acf575b835f52600260205260405f20856001600160a01b03198254161790558385877fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a415614a5257600854835f52600960205260405f20556149a3836138d2565b15614a04575090506008545f1981019081116105e357815f5260096020526149cf60405f20549161365a565b90549060031b1c6149e381612b6c8461365a565b5f52600960205260405f20555f5260096020525f6040812055613591614866565b828403614a12575b50505090565b614a1b90613e7d565b5f198101929083116105e3575f52600660205260405f20825f526020528060405f20555f52600760205260405f20555f8080614a0c565b8484146149a357614a6285613e7d565b835f52600760205260405f205490865f52600660205260405f2091818103614aa4575b50845f5260076020525f60408120555f526020525f60408120556149a3565b815f528260205260405f2054815f52836020528060405f20555f52600760205260405f20555f614a85565b845f52600360205260405f2060018154019055614942565b614b06825f52600460205260405f206001600160a01b03198154169055565b835f52600360205260405f205f19815401905561492d565b825f52601760205260405f20908154805b614b3a57505061490b565b5f198101908082116105e357614b53614b7a9285613672565b90549060031b1c83876001600160a01b038816158015614b91575b614b8057505050613e71565b80614b2f565b614b8992614bc9565b5f8387613d33565b50614b9c8884614da7565b15614b6e565b614bb260ff6003613d62876135b9565b614906565b506001600160a01b0383161515614901565b90916002614bd683613687565b5001935f5b8554811015614ca15784614bef8288613672565b90549060031b1c14614c0357600101614bdb565b93909192935b600181018082116105e3578654811015614c495790614c3f614c2e614c449389613672565b90549060031b1c612b6c838a613672565b613ef6565b614c09565b50509291602090614c7b7f6ba408bb6833087689371de0f99fa21907e4dc387db20006819da2481e64743c9396614885565b845f5260178252614c8f8460405f20614f3e565b6001600160a01b0360405191168152a3565b50935060207f6ba408bb6833087689371de0f99fa21907e4dc387db20006819da2481e64743c91614c7b565b805f52601560205260405f20905f5b825480821015614d92576001600160a01b03614cf88386613672565b90549060031b1c166001600160a01b03861614614d185750600101614cdc565b929391925f198101919082116105e357611e046001600160a01b03614d40614d4f9488613672565b90549060031b1c169186613672565b8254908115612bf457613713936001600160a01b03925f190190614d738282613672565b8582549160031b1b19169055555b165f52601660205260405f20614f3e565b505090506001600160a01b0361371392614d81565b906001600160a01b036001614dbb84613687565b500154166001600160a01b03821614918215614dd657505090565b9091505f5260146020526001600160a01b0360405f2091165f5260205260ff60405f205416614e048161348c565b151590565b93909293823b614e1b575b5050505050565b614e626001600160a01b0392836020951696846040519788968796630a85bd0160e11b88521660048701521660248501526044840152608060648401526084830190613496565b03815f865af15f9181614ef9575b50614ec557503d15614ebe573d614e8681613524565b90614e946040519283613502565b81523d5f602083013e5b80519081614eb95782633250574960e11b5f5260045260245ffd5b602001fd5b6060614e9e565b6001600160e01b03191663757a42ff60e11b01614ee757505f80808080614e14565b633250574960e11b5f5260045260245ffd5b9091506020813d602011614f36575b81614f1560209383613502565b8101031261027f57516001600160e01b03198116810361027f57905f614e70565b3d9150614f08565b5f5b815480821015614f9f5783614f558385613672565b90549060031b1c14614f6a5750600101614f40565b9092505f1981019081116105e35761371392612b6c614f8c614f9a9385613672565b90549060031b1c9184613672565b614885565b50505050565b90614fb26112ab8361467f565b614fbb826135b9565b5060038101614fcd60ff8254166139b2565b835f5260026020526001600160a01b0360405f205416801515808091615215575b615200575b6151af575b50835f5260026020526001600160a01b0360405f205416801590811580615178575b865f52600260205260405f206001600160a01b03198154169055865f837fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8280a482156150fd5750600854865f52600960205260405f205561507b866138d2565b6008545f1981019081116105e357865f52600960205261509f60405f20549161365a565b90549060031b1c6150b381612b6c8461365a565b5f52600960205260405f2055855f5260096020525f60408120556150d5614866565b506150ea57805460ff19169055600201549150565b83637e27328960e01b5f5260045260245ffd5b1561507b5761510b81613e7d565b865f52600760205260405f205490825f52600660205260405f209181810361514d575b50875f5260076020525f60408120555f526020525f604081205561507b565b815f528260205260405f2054815f52836020528060405f20555f52600760205260405f20555f61512e565b615197875f52600460205260405f206001600160a01b03198154169055565b815f52600360205260405f205f19815401905561501a565b845f52601760205260405f20908154805b6151cb575050614ff8565b5f198101908082116105e3576151f583896151e96151fa9588613672565b90549060031b1c614bc9565b613e71565b806151c0565b61521060ff6003613d62896135b9565b614ff3565b505f614fee565b6152258161348c565b80156152b2576001906152378161348c565b146152775760405161524a604082613502565b600581527f5661756c74000000000000000000000000000000000000000000000000000000602082015290565b604051615285604082613502565b600a81527f50726564696374696f6e00000000000000000000000000000000000000000000602082015290565b506040516152c1604082613502565b600781527f4372797374616c00000000000000000000000000000000000000000000000000602082015290565b805f917a184f03e93ff9f4daa797ed6e38ed64bf6a1f01000000000000000082101561544a575b806d04ee2d6d415b85acef8100000000600a92101561542f575b662386f26fc1000081101561541b575b6305f5e10081101561540a575b6127108110156153fb575b60648110156153ed575b10156153e2575b600a6021600184019361537a85613524565b946153886040519687613502565b808652615397601f1991613524565b013660208701378401015b5f1901917f30313233343536373839616263646566000000000000000000000000000000008282061a83530480156153dd57600a90916153a2565b505090565b600190910190615368565b606460029104930192615361565b61271060049104930192615357565b6305f5e1006008910493019261534c565b662386f26fc100006010910493019261533f565b6d04ee2d6d415b85acef81000000006020910493019261532f565b50604091507a184f03e93ff9f4daa797ed6e38ed64bf6a1f0100000000000000008104615315565b61547b8161348c565b806154865750606490565b6001906154928161348c565b0361549c57603290565b601990565b90929192600b5493604051926154b6846134e6565b6154bf8361348c565b828452602084019242845260408501928352606085019360018552600160401b8810156108425760018801600b556154f6886135b9565b6130265760037f31799e8cd961519d15a8b023dc0fcf2c15593ffcdbcd4559b0edee09d49fb7d496604096615568948c9a516155318161348c565b61553a8161348c565b60ff8019875416911617855551600185015551600284015551151591019060ff801983541691151516179055565b6001600160a01b0383519216825261557f8161348c565b6020820152a2565b6001600160a01b038116156115ab576001600160a01b03916155a8916148e0565b166155af57565b6339e3563760e11b5f525f60045260245ffd5b908151156156f9578151600281018091116105e35760039004908160021b917f3fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8116036105e357604051917f4142434445464748494a4b4c4d4e4f505152535455565758595a616263646566601f527f6768696a6b6c6d6e6f707172737475767778797a303132333435363738392b2f603f52602083018480518101602081018051915f82525b8089106156bd57506020959697509060039291525106806001146156a85760021461569b575b50808452830101604052565b603d905f1901535f61568f565b50603d90815f1982015360011901535f61568f565b939760036004910198603f8a51818160121c165183538181600c1c16516001840153818160061c16516002840153165160038201530193615669565b9050604051615709602082613502565b5f81529056fea164736f6c634300081b000a";
+
+type CryptoBallsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CryptoBallsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CryptoBalls__factory extends ContractFactory {
+  constructor(...args: CryptoBallsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CryptoBalls & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CryptoBalls__factory {
+    return super.connect(runner) as CryptoBalls__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CryptoBallsInterface {
+    return new Interface(_abi) as CryptoBallsInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): CryptoBalls {
+    return new Contract(address, _abi, runner) as unknown as CryptoBalls;
+  }
+}
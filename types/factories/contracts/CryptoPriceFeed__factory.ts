@@ -0,0 +1,845 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CryptoPriceFeed,
+  CryptoPriceFeedInterface,
+} from "../../contracts/CryptoPriceFeed";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "assetId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "priceScale",
+        type: "uint32",
+      },
+    ],
+    name: "AssetAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "assetId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    name: "AssetStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "assetId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "change",
+        type: "uint256",
+      },
+    ],
+    name: "PriceAlertTriggered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "feeder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "authorized",
+        type: "bool",
+      },
+    ],
+    name: "PriceFeedAuthorized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "assetId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+    ],
+    name: "PriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "UserPreferencesUpdated",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_symbol",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "_decimals",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32",
+        name: "_priceScale",
+        type: "uint32",
+      },
+    ],
+    name: "addAsset",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "assets",
+    outputs: [
+      {
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32",
+        name: "priceScale",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "authorizedPriceFeeders",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAssetCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_symbol",
+        type: "string",
+      },
+    ],
+    name: "getAssetIdBySymbol",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+    ],
+    name: "getCurrentPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "isValid",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getPriceHistory",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "prices",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "timestamps",
+        type: "uint256[]",
+      },
+      {
+        internalType: "address[]",
+        name: "updaters",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+    ],
+    name: "getPriceStatistics",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "currentPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "averagePrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "highestPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lowestPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "priceChange24h",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "volatility",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserPreferences",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "emailNotifications",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "priceAlerts",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "minAlertThreshold",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "preferredAsset",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "autoGenerateBalls",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "publicProfile",
+        type: "bool",
+      },
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "theme",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasSetPreferences",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+    ],
+    name: "isAssetActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "latestPrices",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "isValid",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "priceFeedAdmin",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "priceHistory",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "isValid",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "resetUserPreferences",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_isActive",
+        type: "bool",
+      },
+    ],
+    name: "setAssetActive",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_feeder",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "_authorized",
+        type: "bool",
+      },
+    ],
+    name: "setPriceFeederAuthorization",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_emailNotifications",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "_priceAlerts",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "_minAlertThreshold",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_preferredAsset",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_autoGenerateBalls",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "_publicProfile",
+        type: "bool",
+      },
+      {
+        internalType: "string",
+        name: "_displayName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_theme",
+        type: "uint256",
+      },
+    ],
+    name: "setUserPreferences",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_currentPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_previousPrice",
+        type: "uint256",
+      },
+    ],
+    name: "shouldTriggerPriceAlert",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_change",
+        type: "uint256",
+      },
+    ],
+    name: "triggerPriceAlert",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "updatePrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "userPreferences",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "emailNotifications",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "priceAlerts",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "minAlertThreshold",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "preferredAsset",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "autoGenerateBalls",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "publicProfile",
+        type: "bool",
+      },
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "theme",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523461007f57600580546001600160a01b031916339081179091555f908152600460205260409020805460ff191660011790556100526100416100b6565b6242544360e81b60208201526100d9565b5061006f61005e6100b6565b6208aa8960eb1b602082015261047d565b50604051611e75908161071b8239f35b5f80fd5b60405190608082016001600160401b038111838210176100a257604052565b634e487b7160e01b5f52604160045260245ffd5b60408051919082016001600160401b038111838210176100a25760405260038252565b80518015159081610471575b501561043b57805190602081019182205f52600160205260405f20546103f657906064915b63ffffffff8316600a811015806103e5575b1561012c57600a9004925061010a565b509163ffffffff6001911603610395575f5491610147610083565b91818352602083016008815260408401606481526060850160018152680100000000000000008710156100a2576001870195865f5586881015610381575f8052518051600189901b5f5160206125905f395f51905f5201916001600160401b0382116100a2578254600181811c91168015610377575b602082101461036357601f811161031e575b50602090601f83116001146102b657918060ff94926001945f926102ab575b50505f19600383901b1c191690831b1781555b0193511665ff000000000064ffffffff008554945160081b169251151560281b169265ffffffffffff191617171790558284116102975760808285945f5160206125b05f395f51905f52945184205f52600160205260405f2055604051928391606083525180918160608501528484015e5f8282018401526008602083015260646040830152601f01601f19168101030190a290565b634e487b7160e01b5f52601160045260245ffd5b015190505f806101ee565b90601f19831691845f52815f20925f5b818110610306575092600194919285938360ff9896106102ee575b505050811b018155610201565b01515f1960f88460031b161c191690555f80806102e1565b929360206001819287860151815501950193016102c6565b835f5260205f20601f840160051c81019160208510610359575b601f0160051c01905b81811061034e57506101cf565b5f8155600101610341565b9091508190610338565b634e487b7160e01b5f52602260045260245ffd5b90607f16906101bd565b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f5072696365207363616c65206d757374206265206120706f776572206f66207460448201526132b760f11b6064820152608490fd5b5063ffffffff600a8206161561011c565b60405162461bcd60e51b815260206004820152601860248201527f417373657420616c7265616479207265676973746572656400000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600e60248201526d125b9d985b1a59081cde5b589bdb60921b6044820152606490fd5b600c915011155f6100e5565b8051801515908161070e575b501561043b57805190602081019182205f52600160205260405f20546103f657906064915b63ffffffff8316600a811015806106fd575b156104d057600a900492506104ae565b509163ffffffff6001911603610395575f54916104eb610083565b91818352602083016012815260408401606481526060850160018152680100000000000000008710156100a2576001870195865f5586881015610381575f8052518051600189901b5f5160206125905f395f51905f5201916001600160401b0382116100a2578254600181811c911680156106f3575b602082101461036357601f81116106ae575b50602090601f831160011461064657918060ff94926001945f9261063b575b50505f19600383901b1c191690831b1781555b0193511665ff000000000064ffffffff008554945160081b169251151560281b169265ffffffffffff191617171790558284116102975760808285945f5160206125b05f395f51905f52945184205f52600160205260405f2055604051928391606083525180918160608501528484015e5f8282018401526012602083015260646040830152601f01601f19168101030190a290565b015190505f80610592565b90601f19831691845f52815f20925f5b818110610696575092600194919285938360ff98961061067e575b505050811b0181556105a5565b01515f1960f88460031b161c191690555f8080610671565b92936020600181928786015181550195019301610656565b835f5260205f20601f840160051c810191602085106106e9575b601f0160051c01905b8181106106de5750610573565b5f81556001016106d1565b90915081906106c8565b90607f1690610561565b5063ffffffff600a820616156104c0565b600c915011155f61048956fe60806040526004361015610011575f80fd5b5f3560e01c806302624783146116035780630909adfb146114a157806322e900c21461146257806328c7bb74146113fa57806335b12333146112bd57806335b12cbc14610f42578063482f20a614610ed25780635a5c456114610e835780636793bcbf14610e0d57806382367b2d14610ac257806383c2d72e14610a9c5780638551130414610a5f578063a0aead4d14610a43578063a45009411461089d578063a6379feb146107d3578063a73a99ac14610773578063bb41838614610354578063c55d0f56146102df578063cf35bdd01461026a578063da09e0e214610244578063e0a444d11461014c5763e4894a7d1461010b575f80fd5b34610148576020366003190112610148576001600160a01b0361012c6116a4565b165f526004602052602060ff60405f2054166040519015158152f35b5f80fd5b34610148576040366003190112610148576101656116a4565b61016d611695565b906001600160a01b036005541633036101d95760206001600160a01b037fe7195d7220e2d4d532e3c6b9bb1927680560b695b18bb41edcc36d8c9bf7586f921692835f52600482526101ce8160405f209060ff801983541691151516179055565b6040519015158152a2005b60405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920707269636520666565642061646d696e2063616e20617574686f7260448201527f697a6520666565646572730000000000000000000000000000000000000000006064820152608490fd5b34610148576020610260610257366116ba565b92919091611d43565b6040519015158152f35b34610148576020366003190112610148576004355f54811015610148576102936102b891611973565b50600161029f826118a0565b91015460ff604051938493608085526080850190611716565b91818116602085015263ffffffff8160081c16604085015260281c16151560608301520390f35b34610148576020366003190112610148576004356102ff5f5482106119ab565b5f52600260205261031260405f20611aa4565b80516020808301516040808501516060958601518251958652938501929092526001600160a01b039091169083015215159181019190915280608081015b0390f35b346101485760603660031901126101485760043567ffffffffffffffff8111610148576103859036906004016116e8565b906024359160ff8316809303610148576044359063ffffffff821692838303610148576103c9916103c26001600160a01b036005541633146119f7565b36916117df565b9182518015159081610767575b501561072257825191602084019283205f52600160205260405f20546106dd575b63ffffffff811690600a821015806106cc575b156104195750600a90046103f7565b8594915063ffffffff600191160361067c575f54926040519161043b836117a1565b808352602083018681526040840185815260608501906001825268010000000000000000881015610655576001880195865f5561047789611973565b919091610669575180519067ffffffffffffffff82116106555761049b8354611868565b601f811161061a575b50602090601f83116001146105ad57926104e08360ff946001946105249a9998975f926105a2575b50508160011b915f199060031b1c19161790565b81555b0193511664ffffffff008454925160081b169164ffffffffff19161717825551151565ff0000000000825491151560281b169065ff00000000001916179055565b82851161058e5760209585947f1d1f9213543b454927e466ecf3c4c81c4dfefcc2b347c6eee7be8bd341eab0d79461057994845190205f526001895260405f2055604051938493606085526060850190611716565b918884015260408301520390a2604051908152f35b634e487b7160e01b5f52601160045260245ffd5b015190505f806104cc565b90601f19831691845f52815f20925f5b818110610602575093600193610524999897969385938360ff98106105ea575b505050811b0181556104e3565b01515f1960f88460031b161c191690558f80806105dd565b929360206001819287860151815501950193016105bd565b61064590845f5260205f20601f850160051c8101916020861061064b575b601f0160051c0190611a76565b8c6104a4565b9091508190610638565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f525f60045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f5072696365207363616c65206d757374206265206120706f776572206f66207460448201526132b760f11b6064820152608490fd5b5063ffffffff600a8306161561040a565b60405162461bcd60e51b815260206004820152601860248201527f417373657420616c7265616479207265676973746572656400000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600e60248201527f496e76616c69642073796d626f6c0000000000000000000000000000000000006044820152606490fd5b600c91501115856103d6565b34610148576020366003190112610148576004355f908152600260208181526040928390208054600182015491909301548451938452918301526001600160a01b0381169282019290925260a09190911c60ff1615156060820152608090f35b34610148575f36600319011261014857335f5260066020525f600560408220828155826001820155826002820155826003820155600481016108158154611868565b908161085b575b50500155335f52600760205260405f2060ff198154169055337f39f3386da9c542fee748076076e20be1230645926f391c74d9d39089004841a15f80a2005b81601f8693116001146108725750555b838061081c565b8183526020832061088d91601f01861c810190600101611a76565b808252816020812091555561086b565b34610148576108ab36611825565b906108b85f5482106119ab565b5f52600360205260405f209081546108cf81611a8c565b926108dd60405194856117bd565b81845260208401905f5260205f205f915b838310610a2557855186908681811115610a205750805b61090e81611d11565b9261091882611d11565b9061092283611a8c565b9261093060405194856117bd565b80845261093c81611a8c565b602085019590601f19013687375f1981019081115f5b8381106109c95761097989898960206109868b604051968796606088526060880190611940565b9086820384880152611940565b91848303604086015251918281520191905f5b8181106109a7575050500390f35b82516001600160a01b0316845285945060209384019390920191600101610999565b8161058e57806001600160a01b0360406109ee6109e860019588611a69565b89611ae3565b5180516109fb858f611ae3565b526020810151610a0b858c611ae3565b52015116610a19828a611ae3565b5201610952565b610905565b60036020600192610a3585611aa4565b8152019201920191906108ee565b34610148575f3660031901126101485760205f54604051908152f35b34610148576020366003190112610148576001600160a01b03610a806116a4565b165f526007602052602060ff60405f2054166040519015158152f35b34610148575f3660031901126101485760206001600160a01b0360055416604051908152f35b3461014857610ad036611825565b610adc5f5483106119ab565b335f52600460205260ff60405f20541615610dc85760ff6001610afe84611973565b50015460281c1615610d83578015610d3e5763ffffffff6001610b2084611973565b50015460081c1680620f42400290620f424082040361058e57811015610cf957604051610b4c816117a1565b81815242602082015233604082015260016060820152825f526002602052610bc48160405f20600290825181556020830151600182015501906001600160a01b0360408201511674ffffffffffffffffffffffffffffffffffffffffff1960ff60a01b60608554940151151560a01b16921617179055565b825f52600360205260405f2080546801000000000000000081101561065557610bf29160018201815561183b565b91909161066957610c4f91600290825181556020830151600182015501906001600160a01b0360408201511674ffffffffffffffffffffffffffffffffffffffffff1960ff60a01b60608554940151151560a01b16921617179055565b815f526003602052606460405f205411610c9d575b60607f4f0aa5fab7aa20059cc56368985fcf440c02c1d0229156bcfefad462cae1893d91604051908152426020820152336040820152a2005b905f5b815f52600360205260405f2054606319810190811161058e57811015610cf257815f526003602052610cd58160405f2061183b565b919091610669575f60028382600195558285820155015501610ca0565b5090610c64565b60405162461bcd60e51b815260206004820152601d60248201527f5072696365207365656d7320756e726561736f6e61626c7920686967680000006044820152606490fd5b60405162461bcd60e51b815260206004820152601c60248201527f5072696365206d7573742062652067726561746572207468616e2030000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601360248201527f4173736574206973206e6f7420616374697665000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601f60248201527f4e6f7420617574686f72697a656420746f2075706461746520707269636573006044820152606490fd5b34610148576020366003190112610148576001600160a01b03610e2e6116a4565b165f52600660205260405f20805461035060018301549160028401549360038101546005610e5e600484016118a0565b9201549260405196879660ff808560081c1694169260ff808260081c1691168961173a565b346101485760203660031901126101485760c0610ead600435610ea85f5482106119ab565b611b22565b93604093919351958652602086015260408501526060840152608083015260a0820152f35b3461014857610ee036611825565b905f52600360205260405f2090815481101561014857610eff9161183b565b50805460018201546002909201546040805192835260208301939093526001600160a01b0381169282019290925260a09190911c60ff1615156060820152608090f35b34610148576101003660031901126101485760043580151580910361014857610f69611695565b90604435606435926084358015158091036101485760a4358015158091036101485760c43567ffffffffffffffff8111610148573660238201121561014857610fbc9036906024816004013591016117df565b9560e43594612710811161127857600286116112335760208851116111ee5761106c6110ac95610fee5f5485106119ab565b60405198610ffb8a611784565b895260208901901515815260408901928352606089019384526080890195865260a0890194855260c08901998a5260e08901978852335f52600660205261105560405f20995115158a9060ff801983541691151516179055565b51885461ff00191690151560081b61ff0016178855565b5160018701555160028601556110956003860192511515839060ff801983541691151516179055565b51815461ff00191690151560081b61ff0016179055565b60048201925192835167ffffffffffffffff8111610655576110ce8254611868565b601f81116111be575b506020601f821160011461115957908061110992600596975f9261114e5750508160011b915f199060031b1c19161790565b90555b51910155335f52600760205260405f20600160ff19825416179055337f39f3386da9c542fee748076076e20be1230645926f391c74d9d39089004841a15f80a2005b0151905087806104cc565b601f19821695835f52815f20965f5b8181106111a6575091600596979184600195941061118e575b505050811b01905561110c565b01515f1960f88460031b161c19169055868080611181565b83830151895560019098019760209384019301611168565b6111e890835f5260205f20601f840160051c8101916020851061064b57601f0160051c0190611a76565b856110d7565b60405162461bcd60e51b815260206004820152601560248201527f446973706c6179206e616d6520746f6f206c6f6e6700000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600d60248201527f496e76616c6964207468656d65000000000000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601c60248201527f5468726573686f6c642063616e6e6f74206578636565642031303025000000006044820152606490fd5b34610148576020366003190112610148576001600160a01b036112de6116a4565b1633811480156113de575b15611399575f52600660205260405f2060405161130581611784565b61035082549160ff83161515815260ff602082019360081c16151583526001840154936040820194855260028101546060830190815260038201546080840160ff82161515815260ff60a086019260081c16151582526005611369600486016118a0565b948560c08801520154948560e082015251151596511515975192519051151591511515926040519889988961173a565b60405162461bcd60e51b815260206004820152601260248201527f50726f66696c65206e6f74207075626c696300000000000000000000000000006044820152606490fd5b50805f52600660205260ff600360405f20015460081c166112e9565b346101485760203660031901126101485760043567ffffffffffffffff8111610148576103c261142e9136906004016116e8565b602081519101205f52600160205260405f205461144c8115156119ab565b5f19810190811161058e57602090604051908152f35b3461014857602036600319011261014857602060ff600161149060043561148b5f5482106119ab565b611973565b50015460281c166040519015158152f35b34610148576114af366116ba565b9192335f52600460205260ff60405f205416156115bf576001600160a01b031692835f52600760205260ff60405f2054161561157a57835f52600660205260ff60405f205460081c1615611535577fc269e1748c81885287ef5d6c92a8243161f48ff8d8ebce37a05f5672a101af4e9260609260405192835260208301526040820152a2005b60405162461bcd60e51b815260206004820152601860248201527f557365722068617320616c657274732064697361626c656400000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601b60248201527f5573657220686173206e6f20707265666572656e6365732073657400000000006044820152606490fd5b606460405162461bcd60e51b815260206004820152602060248201527f4e6f7420617574686f72697a656420746f207472696767657220616c657274736044820152fd5b34610148576040366003190112610148576004357f3aaff362d7ee3a2f8f3627b2c06bf3d51795d4c32927d4caf17c32569045f5306020611642611695565b61164e5f5485106119ab565b6116646001600160a01b036005541633146119f7565b6101ce81600161167387611973565b50019065ff0000000000825491151560281b169065ff00000000001916179055565b60243590811515820361014857565b600435906001600160a01b038216820361014857565b6080906003190112610148576004356001600160a01b03811681036101485790602435906044359060643590565b9181601f840112156101485782359167ffffffffffffffff8311610148576020838186019501011161014857565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b98979693909261177f959260e0979415158b52151560208b015260408a0152606089015215156080880152151560a087015261010060c0870152610100860190611716565b930152565b610100810190811067ffffffffffffffff82111761065557604052565b6080810190811067ffffffffffffffff82111761065557604052565b90601f8019910116810190811067ffffffffffffffff82111761065557604052565b92919267ffffffffffffffff82116106555760405191611809601f8201601f1916602001846117bd565b829481845281830111610148578281602093845f960137010152565b6040906003190112610148576004359060243590565b8054821015611854575f52600360205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b90600182811c92168015611896575b602083101461188257565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611877565b9060405191825f8254926118b384611868565b808452936001811690811561191e57506001146118da575b506118d8925003836117bd565b565b90505f9291925260205f20905f915b8183106119025750509060206118d8928201015f6118cb565b60209193508060019154838589010152019101909184926118e9565b9050602092506118d894915060ff191682840152151560051b8201015f6118cb565b90602080835192838152019201905f5b81811061195d5750505090565b8251845260209384019390920191600101611950565b5f54811015611854575f80805260019190911b7f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5630191565b156119b257565b60405162461bcd60e51b815260206004820152601460248201527f417373657420646f6573206e6f742065786973740000000000000000000000006044820152606490fd5b156119fe57565b60405162461bcd60e51b815260206004820152602760248201527f4f6e6c7920707269636520666565642061646d696e2063616e206d616e61676560448201527f20617373657473000000000000000000000000000000000000000000000000006064820152608490fd5b9190820391821161058e57565b818110611a81575050565b5f8155600101611a76565b67ffffffffffffffff81116106555760051b60200190565b90604051611ab1816117a1565b606060ff60028395805485526001810154602086015201546001600160a01b038116604085015260a01c161515910152565b80518210156118545760209160051b010190565b9190820180921161058e57565b8115611b0e570490565b634e487b7160e01b5f52601260045260245ffd5b90815f52600360205260405f20918254611b3b81611a8c565b93611b4960405195866117bd565b81855260208501905f5260205f205f915b838310611cf357505050508251908115611ce2575f52600260205260405f2054925f935f935f19935f96815f5b818110611c7d5750611b9891611b04565b968015611c75578381811115611c675790611bb291611a69565b935b5f905f905b838210611bfb5750506001821115611bf2575f19820191821161058e57611be891611be391611b04565b611e22565b915b959493929190565b50505f91611bea565b909189611c088484611ae3565b51511115611c4c57611c258a611c1e8585611ae3565b5151611a69565b905b8180029180830481149015171561058e57600191611c4491611af7565b920190611bb9565b611c61611c598484611ae3565b51518b611a69565b90611c27565b611c7091611a69565b611bb2565b505f93611bb4565b9050611c95611c8c8288611ae3565b51518093611af7565b91888111611cda575b878110611cd2575b600882101580611cca575b611cc1575b506001018290611b87565b98506001611cb6565b508915611cb1565b965086611ca6565b975087611c9e565b505f92508291829150819081908190565b60036020600192611d0385611aa4565b815201920192019190611b5a565b90611d1b82611a8c565b611d2860405191826117bd565b8281528092611d39601f1991611a8c565b0190602036910137565b6001600160a01b0390939291931692835f52600760205260ff60405f205416158015611e08575b611e0057835f526006602052600260405f20015403611df9578180821115611dca57611d9591611a69565b90612710820291808304612710149015171561058e57611db491611b04565b905b5f526006602052600160405f200154111590565b90611dd491611a69565b90612710820291808304612710149015171561058e57611df391611b04565b90611db6565b5050505f90565b505050505f90565b50835f52600660205260ff60405f205460081c1615611d6a565b8015611e63576001810180821161058e5760011c815b828210611e4457505090565b909150611e5a82611e558184611b04565b611af7565b60011c90611e38565b505f9056fea164736f6c634300081b000a290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5631d1f9213543b454927e466ecf3c4c81c4dfefcc2b347c6eee7be8bd341eab0d7";
+
+type CryptoPriceFeedConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CryptoPriceFeedConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CryptoPriceFeed__factory extends ContractFactory {
+  constructor(...args: CryptoPriceFeedConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CryptoPriceFeed & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CryptoPriceFeed__factory {
+    return super.connect(runner) as CryptoPriceFeed__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CryptoPriceFeedInterface {
+    return new Interface(_abi) as CryptoPriceFeedInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CryptoPriceFeed {
+    return new Contract(address, _abi, runner) as unknown as CryptoPriceFeed;
+  }
+}
@@ -0,0 +1,330 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CryptoPriceGuessStats,
+  CryptoPriceGuessStatsInterface,
+} from "../../contracts/CryptoPriceGuessStats";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CryptoPriceGuess",
+        name: "_priceGuess",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_statusFilter",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_assetFilter",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_sortBy",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_sortOrder",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+    ],
+    name: "getFilteredEvents",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "eventIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "string[]",
+        name: "titles",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "assetIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "endTimes",
+        type: "uint256[]",
+      },
+      {
+        internalType: "bool[]",
+        name: "isActive",
+        type: "bool[]",
+      },
+      {
+        internalType: "bool[]",
+        name: "isFinalized",
+        type: "bool[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "totalPredictions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getGlobalStatistics",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "totalEvents",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activeEvents",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "finalizedEvents",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalPredictions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalCryptoBalls",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalCollections",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "getPredictionStatistics",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "totalPredictions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activePredictions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "finalizedPredictions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "averagePredictionAge",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "uniquePredictors",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserPredictionHistory",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "totalPredictions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activePredictions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "finalizedPredictions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "participatedEventIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserPublicProfile",
+    outputs: [
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "hasPublicProfile",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "totalPredictions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalBalls",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalCollections",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "priceGuess",
+    outputs: [
+      {
+        internalType: "contract CryptoPriceGuess",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a03461009357601f6114c238819003918201601f19168301916001600160401b038311848410176100975780849260209460405283398101031261009357516001600160a01b03811681036100935760805260405161141690816100ac8239608051818181608c0152818161022e01528181610271015281816107e301528181610bb80152818161112601526113010152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063394dd297146106305780638f8342c314610537578063a9a7ffb8146104dc578063d5abc33514610252578063e102ead71461020f5763eecce3e41461005b575f80fd5b346101f85760203660031901126101f85760043560405163367923d760e21b81526020816004816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa908115610204575f916101ce575b50811015610189576100ce5f916112d5565b60a081015190915f91829015610172575060c0830151905b60c08401938451610115575b5060a0935191604051938385526020850152604084015260608301526080820152f35b61012491506040015142610b6d565b9280519384810294818604149015171561015e578051801561014a5790930460a06100f2565b634e487b7160e01b5f52601260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b906080840151156100e65760c084015192506100e6565b60405162461bcd60e51b815260206004820152601460248201527f4576656e7420646f6573206e6f742065786973740000000000000000000000006044820152606490fd5b90506020813d6020116101fc575b816101e96020938361071c565b810103126101f857515f6100bc565b5f80fd5b3d91506101dc565b6040513d5f823e3d90fd5b346101f8575f3660031901126101f85760206040516001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000168152f35b346101f8575f3660031901126101f85760405163367923d760e21b81527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690602081600481855afa908115610204575f916104aa575b505f5f5f5f5b84811061044857506040516319bcab7760e21b815291602083600481895afa928315610204576001600160a01b03936020915f9161042b575b506004604051809681936320110fbf60e11b8352165afa928315610204575f936103f4575b506020600496604051978880926319bcab7760e21b82525afa958615610204576001600160a01b03966020915f916103c7575b50600460405180998193631c10106f60e01b8352165afa938415610204575f94610392575b60c09650604051958652602086015260408501526060840152608083015260a0820152f35b93506020863d6020116103bf575b816103ad6020938361071c565b810103126101f85760c095519361036d565b3d91506103a0565b6103e79150823d84116103ed575b6103df818361071c565b8101906107b5565b88610348565b503d6103d5565b9592506020863d602011610423575b816104106020938361071c565b810103126101f857945191946020610315565b3d9150610403565b6104429150823d84116103ed576103df818361071c565b886102f0565b91610461610455846112d5565b9260c084015190610b88565b60a083015190929015610482575061047a600191610b7a565b925b016102b7565b60800151909290610496575b60019061047c565b926104a2600191610b7a565b93905061048e565b90506020813d6020116104d4575b816104c56020938361071c565b810103126101f85751826102b1565b3d91506104b8565b346101f85760203660031901126101f8576004356001600160a01b03811681036101f85761050c61053391611116565b906040949294519485948552602085015260408401526080606084015260808301906106b4565b0390f35b346101f85760c03660031901126101f85761056260a435608435606435604435602435600435610b95565b93959461057d6040949294519660e0885260e08801906106b4565b968688036020880152815180895260208901906020808260051b8c01019401915f905b828210610604575089806105338b6105f68c6105e88d6105da8e6105cc8f8f8b820360408d01526106b4565b9089820360608b01526106b4565b9087820360808901526106e7565b9085820360a08701526106e7565b9083820360c08501526106b4565b909192946020806106226001938f601f199082030186528951610690565b9701920192019092916105a0565b346101f85760203660031901126101f8576004356001600160a01b03811681036101f857610660610675916107d4565b9160405195869560a0875260a0870190610690565b93151560208601526040850152606084015260808301520390f35b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b90602080835192838152019201905f5b8181106106d15750505090565b82518452602093840193909201916001016106c4565b90602080835192838152019201905f5b8181106107045750505090565b825115158452602093840193909201916001016106f7565b90601f8019910116810190811067ffffffffffffffff82111761073e57604052565b634e487b7160e01b5f52604160045260245ffd5b519081151582036101f857565b81601f820112156101f85780519067ffffffffffffffff821161073e5760405192610794601f8401601f19166020018561071c565b828452602083830101116101f857815f9260208093018386015e8301015290565b908160209103126101f857516001600160a01b03811681036101f85790565b604051633a0df78d60e11b81527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690602081600481855afa908115610204575f91610a71575b5060405192636793bcbf60e01b84525f846024816001600160a01b0380861696876004840152165afa938415610204575f905f956109fb575b50156109db5761086b90611116565b50505092604051926319bcab7760e21b8452602084600481845afa938415610204576001600160a01b03946020915f916109be575b506024604051809781936370a0823160e01b8352886004840152165afa938415610204575f94610989575b506020600491604051928380926319bcab7760e21b82525afa8015610204576001600160a01b03936020925f92610967575b50602490604051958693849263119ed61d60e31b84526004840152165afa918215610204575f92610933575b5093600193929190565b9091506020813d60201161095f575b8161094f6020938361071c565b810103126101f85751905f610929565b3d9150610942565b602491925061098290843d86116103ed576103df818361071c565b91906108fd565b9093506020813d6020116109b6575b816109a56020938361071c565b810103126101f857519260206108cb565b3d9150610998565b6109d59150823d84116103ed576103df818361071c565b5f6108a0565b505050506040516109ed60208261071c565b5f8152905f905f905f905f90565b9450503d805f863e610a0d818661071c565b840193610100818603126101f857610a2481610752565b50610a3160208201610752565b50610a3e60808201610752565b50610a4b60a08201610752565b9460c082015167ffffffffffffffff81116101f857610a6a920161075f565b935f61085c565b90506020813d602011610aab575b81610a8c6020938361071c565b810103126101f857516001600160a01b03811681036101f8575f610823565b3d9150610a7f565b67ffffffffffffffff811161073e5760051b60200190565b6040519060e0820182811067ffffffffffffffff82111761073e576040525f60c083606081528260208201528260408201528260608201528260808201528260a08201520152565b90610b1d82610ab3565b610b2a604051918261071c565b8281528092610b3b601f1991610ab3565b0190602036910137565b8051821015610b595760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b9190820391821161015e57565b5f19811461015e5760010190565b9190820180921161015e57565b93909491956040519263367923d760e21b84526020846004816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa938415610204575f946110e2575b50610bf284610ab3565b93610c00604051958661071c565b808552601f19610c0f82610ab3565b015f5b8181106110cb575050610c2481610b13565b965f985f5b838110610fd6575050505090915f925b6001840180851161015e57881115610da0575f5b610c57858a610b6d565b5f19810190811161015e57811015610d8b575f90610c75818a610b45565b5191600182019081831161015e576001938d91610c92848e610b45565b51928b610caa85610ca38684610b45565b5192610b45565b519180610cfd57505050508a155f14610cf757115b610ccb575b5001610c4d565b610cf0610cd8838c610b45565b51918b610ce985610ca38484610b45565b528b610b45565b525f610cc4565b10610cbf565b92945090925090808703610d315750606091925081908c155f14610d2657015191015110610cbf565b015191015111610cbf565b60028103610d54575060c091925081908c155f14610d2657015191015110610cbf565b600314610d63575b5050610cbf565b604091925081908c155f14610d80570151910151105b5f80610d5c565b015191015111610d79565b50919092610d9890610b7a565b929091610c39565b97509095929350610db2915085610b88565b90808211610fce575b841015610f0d5783610dcc91610b6d565b91610dd683610b13565b93610de084610ab3565b95610dee604051978861071c565b848752601f19610dfd86610ab3565b015f5b818110610efc575050610e1285610b13565b95610e1c86610b13565b95610e2681610b13565b95610e3082610b13565b95610e3a83610b13565b958a5f5b8d87878310610e5857505050505050505096959493929190565b600193610ea18460c0948a610e8e83610e87610e7f8e610e798f8590610b88565b90610b45565b518094610b45565b5197610b45565b528451610e9b8383610b45565b52610b45565b50610eb184602084015192610b45565b528d610ec284606084015192610b45565b5260808101511515610ed4848f610b45565b5260a08101511515610ee6848e610b45565b520151610ef3828b610b45565b52018b90610e3e565b806060602080938c01015201610e00565b50505050602060405190610f21818361071c565b5f82525f36813760405192610f36828561071c565b5f8452601f198201825f5b828110610fbe5750505060405192610f59838561071c565b5f84525f36813760405192610f6e818561071c565b5f84525f36813760405192610f83828561071c565b5f84525f36813760405192610f98838561071c565b5f84525f36813760405192610fad818561071c565b5f8452505f36813796959493929190565b6060828289010152018390610f41565b905080610dbb565b610fdf816112d5565b80610fea838b610b45565b52610ff5828a610b45565b50600190818514806110bf575b6110b7575b600285148061109e575b611096575b600385148061108a575b611082575b8315159081611069575b50611062575b611042575b600101610c29565b9961105a818c6110546001948e610b45565b52610b7a565b9a905061103a565b505f611035565b602001515f198501915084821161015e5714155f61102f565b5f9150611025565b5060a081015115611020565b5f9150611016565b506080810151151580611011575060a081015115611011565b5f9150611007565b50608081015115611002565b6020906110d6610acb565b82828a01015201610c12565b9093506020813d60201161110e575b816110fe6020938361071c565b810103126101f85751925f610be8565b3d91506110f1565b60405163367923d760e21b8152917f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690602084600481855afa938415610204575f946112a1575b5061117084610b13565b915f905f955f955f5b8281106111be575050505061118d81610b13565b925f5b82811061119f57505093929190565b806111ac60019284610b45565b516111b78288610b45565b5201611190565b60405163149574e160e01b8152600481018290526001600160a01b0383166024820152602081604481885afa908115610204575f91611268575b50611206575b600101611179565b96938088611054611217938a610b45565b93611221886112d5565b60a0810151156112405750611237600191610b7a565b975b90506111fe565b60800151909790611254575b600190611239565b97611260600191610b7a565b98905061124c565b90506020813d8211611299575b816112826020938361071c565b810103126101f85761129390610752565b5f6111f8565b3d9150611275565b9093506020813d6020116112cd575b816112bd6020938361071c565b810103126101f85751925f611166565b3d91506112b0565b906112de610acb565b91604051906349bf203560e11b825260048201525f816024816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa908115610204575f915f915f915f915f915f915f91611364575b5060c0890152151560a0880152151560808701526060860152604085015260208401528252565b96505050505050503d805f833e61137b818361071c565b8101610140828203126101f85781519067ffffffffffffffff82116101f8576113a591830161075f565b906020810151916040820151916060810151916113c460808301610752565b916113d160a08201610752565b9160c08201516001600160a01b038116036101f85761012060e083015192015163ffffffff8116036101f8579594939291905f61133d56fea164736f6c634300081b000a";
+
+type CryptoPriceGuessStatsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CryptoPriceGuessStatsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CryptoPriceGuessStats__factory extends ContractFactory {
+  constructor(...args: CryptoPriceGuessStatsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _priceGuess: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_priceGuess, overrides || {});
+  }
+  override deploy(
+    _priceGuess: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_priceGuess, overrides || {}) as Promise<
+      CryptoPriceGuessStats & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): CryptoPriceGuessStats__factory {
+    return super.connect(runner) as CryptoPriceGuessStats__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CryptoPriceGuessStatsInterface {
+    return new Interface(_abi) as CryptoPriceGuessStatsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CryptoPriceGuessStats {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as CryptoPriceGuessStats;
+  }
+}
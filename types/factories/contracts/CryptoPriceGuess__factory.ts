@@ -7,7 +7,12 @@ import {
   ContractTransactionResponse,
   Interface,
 } from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
 import type { NonPayableOverrides } from "../../common";
 import type {
   CryptoPriceGuess,
@@ -15,11 +20,42 @@ import type {
 } from "../../contracts/CryptoPriceGuess";
 
 const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CryptoBalls",
+        name: "_balls",
+        type: "address",
+      },
+      {
+        internalType: "contract CryptoPriceFeed",
+        name: "_priceFeed",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
   {
     inputs: [],
     name: "HandlesAlreadySavedForRequestID",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
   {
     anonymous: false,
     inputs: [
@@ -39,6 +75,100 @@ const _abi = [
     name: "ActualPriceSet",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "CryptoBallClaimRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum EventMarkets.EventKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "params",
+        type: "uint32[]",
+      },
+    ],
+    name: "EventMarketCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "stakeToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "stakeAmount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint16[]",
+        name: "payoutShares",
+        type: "uint16[]",
+      },
+    ],
+    name: "EventPoolCreated",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -58,6 +188,57 @@ const _abi = [
     name: "FinalizeRequested",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "LeaderboardRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+    ],
+    name: "LeaderboardRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionEventCancelled",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -75,9 +256,9 @@ const _abi = [
       },
       {
         indexed: false,
-        internalType: "enum CryptoPriceGuess.TokenType",
-        name: "tokenType",
-        type: "uint8",
+        internalType: "uint256",
+        name: "assetId",
+        type: "uint256",
       },
       {
         indexed: true,
@@ -147,58 +328,928 @@ const _abi = [
     type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
-        internalType: "string",
-        name: "_title",
-        type: "string",
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
       },
       {
-        internalType: "enum CryptoPriceGuess.TokenType",
-        name: "_tokenType",
-        type: "uint8",
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
       },
+    ],
+    name: "PredictionUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "_targetDate",
+        name: "eventId",
         type: "uint256",
       },
       {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "PredictionWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
         internalType: "uint256",
-        name: "_durationInHours",
+        name: "eventId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "scoredCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalPredictions",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionsScored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "StakeDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
         type: "uint256",
       },
     ],
-    name: "createPredictionEvent",
+    name: "StakeRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "eventId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "WinningsClaimed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CRYSTAL_ERROR_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAYOUT_RANKS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RANGE_BUCKETS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PREDICTION_ERROR_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RESOLUTION_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "ballClaimCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "balls",
+    outputs: [
+      {
+        internalType: "contract CryptoBalls",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelPredictionEvent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "claimWinnings",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_title",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_targetDate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_durationInHours",
+        type: "uint256",
+      },
+      {
+        internalType: "enum EventMarkets.EventKind",
+        name: "_kind",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32[]",
+        name: "_marketParams",
+        type: "uint32[]",
+      },
+    ],
+    name: "createMarketEvent",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_title",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_targetDate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_durationInHours",
+        type: "uint256",
+      },
+    ],
+    name: "createPredictionEvent",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_title",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_targetDate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_durationInHours",
+        type: "uint256",
+      },
+      {
+        internalType: "enum EventMarkets.EventKind",
+        name: "_kind",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32[]",
+        name: "_marketParams",
+        type: "uint32[]",
+      },
+      {
+        internalType: "address",
+        name: "_stakeToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_stakeAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16[]",
+        name: "_payoutShares",
+        type: "uint16[]",
+      },
+    ],
+    name: "createStakedMarketEvent",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_title",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_targetDate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_durationInHours",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_stakeToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_stakeAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16[]",
+        name: "_payoutShares",
+        type: "uint16[]",
+      },
+    ],
+    name: "createStakedPredictionEvent",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptionCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "endPredictionEvent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "eventLeaderboards",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "scoredCount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "revealRequested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "finalizePredictionEvent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "generateCryptoBall",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getClaimableAmount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedAveragePrice",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedPriceSum",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getEventCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "getEventLeaderboard",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "predictors",
+        type: "address[]",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "getEventMarket",
+    outputs: [
+      {
+        internalType: "enum EventMarkets.EventKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32[]",
+        name: "params",
+        type: "uint32[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "results",
+        type: "uint32[]",
+      },
+      {
+        internalType: "uint32",
+        name: "actualOutcome",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "getEventPool",
+    outputs: [
+      {
+        internalType: "address",
+        name: "stakeToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "stakeAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalStaked",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16[]",
+        name: "payoutShares",
+        type: "uint16[]",
+      },
+      {
+        internalType: "bool",
+        name: "isCancelled",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "getPredictionEvent",
+    outputs: [
+      {
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "assetId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "targetDate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isFinalized",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "totalPredictions",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "actualPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "decryptedAveragePrice",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserEncryptedBounds",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "lower",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "upper",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserEncryptedError",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserEncryptedPrediction",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasClaimed",
     outputs: [
       {
-        internalType: "uint256",
+        internalType: "bool",
         name: "",
-        type: "uint256",
+        type: "bool",
       },
     ],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "uint256",
-        name: "requestId",
+        name: "",
         type: "uint256",
       },
       {
-        internalType: "bytes",
-        name: "cleartexts",
-        type: "bytes",
-      },
-      {
-        internalType: "bytes[]",
+        internalType: "address",
         name: "",
-        type: "bytes[]",
+        type: "address",
       },
     ],
-    name: "decryptionCallback",
+    name: "hasClaimedBall",
     outputs: [
       {
         internalType: "bool",
@@ -206,7 +1257,7 @@ const _abi = [
         type: "bool",
       },
     ],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -216,23 +1267,21 @@ const _abi = [
         name: "_eventId",
         type: "uint256",
       },
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
     ],
-    name: "endPredictionEvent",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
+    name: "hasUserPredicted",
+    outputs: [
       {
-        internalType: "uint256",
-        name: "_eventId",
-        type: "uint256",
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
     ],
-    name: "finalizePredictionEvent",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -243,12 +1292,12 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "getDecryptedAveragePrice",
+    name: "isResolutionOverdue",
     outputs: [
       {
-        internalType: "uint32",
+        internalType: "bool",
         name: "",
-        type: "uint32",
+        type: "bool",
       },
     ],
     stateMutability: "view",
@@ -258,43 +1307,40 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "_eventId",
+        name: "requestId",
         type: "uint256",
       },
-    ],
-    name: "getEncryptedPriceSum",
-    outputs: [
       {
-        internalType: "euint32",
-        name: "",
-        type: "bytes32",
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
       },
     ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "getEventCount",
+    name: "leaderboardDecryptionCallback",
     outputs: [
       {
-        internalType: "uint256",
+        internalType: "bool",
         name: "",
-        type: "uint256",
+        type: "bool",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "uint256",
-        name: "_eventId",
+        name: "",
         type: "uint256",
       },
     ],
-    name: "getPredictionEvent",
+    name: "predictionEvents",
     outputs: [
       {
         internalType: "string",
@@ -302,9 +1348,9 @@ const _abi = [
         type: "string",
       },
       {
-        internalType: "enum CryptoPriceGuess.TokenType",
-        name: "tokenType",
-        type: "uint8",
+        internalType: "uint256",
+        name: "assetId",
+        type: "uint256",
       },
       {
         internalType: "uint256",
@@ -341,6 +1387,11 @@ const _abi = [
         name: "actualPrice",
         type: "uint256",
       },
+      {
+        internalType: "euint32",
+        name: "encryptedPriceSum",
+        type: "bytes32",
+      },
       {
         internalType: "uint32",
         name: "decryptedAveragePrice",
@@ -351,27 +1402,29 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "_eventId",
-        type: "uint256",
-      },
+    inputs: [],
+    name: "priceFeed",
+    outputs: [
       {
-        internalType: "address",
-        name: "_user",
+        internalType: "contract CryptoPriceFeed",
+        name: "",
         type: "address",
       },
     ],
-    name: "getUserEncryptedPrediction",
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
     outputs: [
       {
-        internalType: "euint32",
+        internalType: "uint256",
         name: "",
-        type: "bytes32",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "pure",
     type: "function",
   },
   {
@@ -381,18 +1434,31 @@ const _abi = [
         name: "_eventId",
         type: "uint256",
       },
+    ],
+    name: "revealLeaderboard",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "_user",
+        name: "",
         type: "address",
       },
     ],
-    name: "hasUserPredicted",
+    name: "revealedRanks",
     outputs: [
       {
-        internalType: "bool",
+        internalType: "uint32",
         name: "",
-        type: "bool",
+        type: "uint32",
       },
     ],
     stateMutability: "view",
@@ -402,82 +1468,110 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "_eventId",
         type: "uint256",
       },
-    ],
-    name: "predictionEvents",
-    outputs: [
-      {
-        internalType: "string",
-        name: "title",
-        type: "string",
-      },
       {
-        internalType: "enum CryptoPriceGuess.TokenType",
-        name: "tokenType",
-        type: "uint8",
+        internalType: "uint256",
+        name: "_maxCount",
+        type: "uint256",
       },
+    ],
+    name: "scorePredictions",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "targetDate",
+        name: "_eventId",
         type: "uint256",
       },
       {
         internalType: "uint256",
-        name: "endTime",
+        name: "_actualPrice",
         type: "uint256",
       },
+    ],
+    name: "setActualPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "bool",
-        name: "isActive",
-        type: "bool",
+        internalType: "uint256[]",
+        name: "_eventIds",
+        type: "uint256[]",
       },
       {
-        internalType: "bool",
-        name: "isFinalized",
-        type: "bool",
+        internalType: "externalEuint32[]",
+        name: "_encryptedPrices",
+        type: "bytes32[]",
       },
       {
-        internalType: "address",
-        name: "admin",
-        type: "address",
+        internalType: "bytes[]",
+        name: "_inputProofs",
+        type: "bytes[]",
       },
+    ],
+    name: "submitBatchPredictions",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "totalPredictions",
+        name: "_eventId",
         type: "uint256",
       },
       {
-        internalType: "uint256",
-        name: "actualPrice",
-        type: "uint256",
+        internalType: "externalEuint32",
+        name: "_encryptedLower",
+        type: "bytes32",
       },
       {
-        internalType: "euint32",
-        name: "encryptedPriceSum",
+        internalType: "externalEuint32",
+        name: "_encryptedUpper",
         type: "bytes32",
       },
       {
-        internalType: "uint32",
-        name: "decryptedAveragePrice",
-        type: "uint32",
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
       },
     ],
-    stateMutability: "view",
+    name: "submitBoundsPrediction",
+    outputs: [],
+    stateMutability: "payable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "protocolId",
-    outputs: [
+    inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "_eventId",
         type: "uint256",
       },
+      {
+        internalType: "externalEuint32",
+        name: "_encryptedPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
     ],
-    stateMutability: "pure",
+    name: "submitPrediction",
+    outputs: [],
+    stateMutability: "payable",
     type: "function",
   },
   {
@@ -488,12 +1582,22 @@ const _abi = [
         type: "uint256",
       },
       {
-        internalType: "uint256",
-        name: "_actualPrice",
-        type: "uint256",
+        internalType: "externalEuint32",
+        name: "_encryptedLower",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "_encryptedUpper",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
       },
     ],
-    name: "setActualPrice",
+    name: "updateBoundsPrediction",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -516,7 +1620,7 @@ const _abi = [
         type: "bytes",
       },
     ],
-    name: "submitPrediction",
+    name: "updatePrediction",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -555,35 +1659,94 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_eventId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawPrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561000f575f5ffd5b5061018a6100ae604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b6121d9806101975f395ff3fe608060405234801561000f575f5ffd5b50600436106100f0575f3560e01c8063937e406a11610093578063acc0f1dc11610063578063acc0f1dc1461026e578063be524e4614610281578063d9e48f5c14610294578063da1f12ab1461029b575f5ffd5b8063937e406a146101b557806398a57b1f146101de5780639e5e4a4714610233578063a371027114610246575f5ffd5b80633af02dce116100ce5780633af02dce146101525780634a67faaa1461016557806367746211146101785780637174c43c1461018b575f5ffd5b8063149574e1146100f45780631f8550e11461011c57806321f036871461013d575b5f5ffd5b610107610102366004611a84565b6102a3565b60405190151581526020015b60405180910390f35b61012f61012a366004611a84565b6102d2565b604051908152602001610113565b61015061014b366004611abd565b6103be565b005b61012f610160366004611b72565b61050f565b610107610173366004611c01565b6106cd565b610150610186366004611d02565b6108a1565b61019e610199366004611abd565b610c17565b6040516101139b9a99989796959493929190611dd4565b6101c86101c3366004611abd565b610d1d565b6040516101139a99989796959493929190611e4c565b6102166101ec366004611a84565b600160208181525f9384526040808520909152918352912080549181015460029091015460ff1683565b604080519384526020840192909252151590820152606001610113565b610150610241366004611abd565b610e9c565b610259610254366004611abd565b61114f565b60405163ffffffff9091168152602001610113565b61012f61027c366004611abd565b611248565b61015061028f366004611ebe565b6112bc565b5f5461012f565b61271161012f565b5f8281526001602090815260408083206001600160a01b038516845290915290206002015460ff165b92915050565b5f8054839081106103215760405162461bcd60e51b8152602060048201526014602482015273115d995b9d08191bd95cc81b9bdd08195e1a5cdd60621b60448201526064015b60405180910390fd5b5f8481526001602090815260408083206001600160a01b038716845290915290206002015460ff166103955760405162461bcd60e51b815260206004820152601660248201527f5573657220686173206e6f7420707265646963746564000000000000000000006044820152606401610318565b50505f9182526001602090815260408084206001600160a01b0393909316845291905290205490565b5f54819081106104075760405162461bcd60e51b8152602060048201526014602482015273115d995b9d08191bd95cc81b9bdd08195e1a5cdd60621b6044820152606401610318565b5f5f838154811061041a5761041a611ede565b5f9182526020909120600990910201600481015490915060ff166104805760405162461bcd60e51b815260206004820152601060248201527f4576656e74206e6f7420616374697665000000000000000000000000000000006044820152606401610318565b80600301544210156104d45760405162461bcd60e51b815260206004820152601760248201527f4576656e7420686173206e6f7420656e646564207965740000000000000000006044820152606401610318565b60048101805460ff1916905560405183907f56e917cab8fcda8590d4d2e00670ab5a8a607111c71d35d2e140ff84d1cc6dfa905f90a2505050565b5f4283116105695760405162461bcd60e51b815260206004820152602160248201527f5461726765742064617465206d75737420626520696e207468652066757475726044820152606560f81b6064820152608401610318565b5f82116105b85760405162461bcd60e51b815260206004820152601f60248201527f4475726174696f6e206d7573742062652067726561746572207468616e2030006044820152606401610318565b5f8054600181018255908052600981027f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e56301806105f58882611f70565b5060018082018054889260ff1990911690838181111561061757610617611dac565b02179055506002810185905561062f84610e1061203f565b6106399042612056565b600382015560048101805462010000339081027fffffffffffffffffffff00000000000000000000000000000000000000000000909216919091176001179091555f60058301819055600683015560405183907fb15b33205ade8a2e0a59cd5ce13871706bbdefd1bea57117822f7658e1a88b9b906106bb908b908b90612069565b60405180910390a35095945050505050565b5f83815260026020526040812054815482908190839081106106f1576106f1611ede565b905f5260205f20906009020190508060040160019054906101000a900460ff161561075e5760405162461bcd60e51b815260206004820152601760248201527f4576656e7420616c72656164792066696e616c697a65640000000000000000006044820152606401610318565b600481015460ff16156107b35760405162461bcd60e51b815260206004820152601260248201527f4576656e74207374696c6c2061637469766500000000000000000000000000006044820152606401610318565b6004855110156108055760405162461bcd60e51b815260206004820152601960248201527f496e76616c696420636c6561727465787473206c656e677468000000000000006044820152606401610318565b5f602086015160e01c90505f826005015482610821919061208a565b60088401805463ffffffff831663ffffffff19909116811790915560048501805461ff001916610100179055600685015460408051928352602083019190915291925085917f91188dea6f6d006a57f45cc0c3b8e707eceda09bcc87ca37ecb5640a8f4f421f910160405180910390a260019450505050505b9392505050565b5f54849081106108ea5760405162461bcd60e51b8152602060048201526014602482015273115d995b9d08191bd95cc81b9bdd08195e1a5cdd60621b6044820152606401610318565b845f81815481106108fd576108fd611ede565b5f91825260209091206004600990920201015460ff1661095f5760405162461bcd60e51b815260206004820152601360248201527f4576656e74206973206e6f7420616374697665000000000000000000000000006044820152606401610318565b5f818154811061097157610971611ede565b905f5260205f2090600902016003015442106109cf5760405162461bcd60e51b815260206004820152600f60248201527f4576656e742068617320656e64656400000000000000000000000000000000006044820152606401610318565b5f81815481106109e1576109e1611ede565b905f5260205f20906009020160040160019054906101000a900460ff1615610a4b5760405162461bcd60e51b815260206004820152601260248201527f4576656e742069732066696e616c697a656400000000000000000000000000006044820152606401610318565b5f86815260016020908152604080832033845290915290206002015460ff1615610ab75760405162461bcd60e51b815260206004820152601c60248201527f416c7265616479207375626d69747465642070726564696374696f6e000000006044820152606401610318565b5f5f8781548110610aca57610aca611ede565b905f5260205f20906009020190505f610b188787878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f920191909152506114af92505050565b6040805160608101825282815242602080830191825260018385018181525f8f81528284528681203382529093529482209351845591519183019190915591516002909101805460ff1916911515919091179055600584015491925003610b855760078201819055610b99565b610b938260070154826114bc565b60078301555b610ba682600701546114ea565b5060078201546004830154610bca91906201000090046001600160a01b03166114f9565b50600582018054905f610bdc836120bd565b9091555050604051339089907f2e5591dc3bdf69213e1be2f7ad86937078a5b387dfd176b577fee221058fb9f1905f90a35050505050505050565b5f8181548110610c25575f80fd5b905f5260205f2090600902015f91509050805f018054610c4490611ef2565b80601f0160208091040260200160405190810160405280929190818152602001828054610c7090611ef2565b8015610cbb5780601f10610c9257610100808354040283529160200191610cbb565b820191905f5260205f20905b815481529060010190602001808311610c9e57829003601f168201915b505050506001830154600284015460038501546004860154600587015460068801546007890154600890990154979860ff96871698959750939580841695610100850490911694620100009094046001600160a01b0316939063ffffffff168b565b60605f5f5f5f5f5f5f5f5f8a5f805490508110610d735760405162461bcd60e51b8152602060048201526014602482015273115d995b9d08191bd95cc81b9bdd08195e1a5cdd60621b6044820152606401610318565b5f5f8d81548110610d8657610d86611ede565b5f918252602090912060099091020160018101546002820154600383015460048401546005850154600686015460088701548754979850889760ff9788169780861695610100810490911694620100009091046001600160a01b0316939092909163ffffffff909116908a90610dfb90611ef2565b80601f0160208091040260200160405190810160405280929190818152602001828054610e2790611ef2565b8015610e725780601f10610e4957610100808354040283529160200191610e72565b820191905f5260205f20905b815481529060010190602001808311610e5557829003601f168201915b505050505099509b509b509b509b509b509b509b509b509b509b5050509193959799509193959799565b5f5481908110610ee55760405162461bcd60e51b8152602060048201526014602482015273115d995b9d08191bd95cc81b9bdd08195e1a5cdd60621b6044820152606401610318565b81336001600160a01b03165f8281548110610f0257610f02611ede565b5f9182526020909120600990910201600401546201000090046001600160a01b031614610f7c5760405162461bcd60e51b815260206004820152602260248201527f4f6e6c792061646d696e2063616e20706572666f726d2074686973206163746960448201526137b760f11b6064820152608401610318565b5f5f8481548110610f8f57610f8f611ede565b5f9182526020909120600990910201600481015490915060ff1615610ff65760405162461bcd60e51b815260206004820152601260248201527f4576656e74207374696c6c2061637469766500000000000000000000000000006044820152606401610318565b6004810154610100900460ff16156110505760405162461bcd60e51b815260206004820152601760248201527f4576656e7420616c72656164792066696e616c697a65640000000000000000006044820152606401610318565b5f8160050154116110a35760405162461bcd60e51b815260206004820152601a60248201527f4e6f2070726564696374696f6e7320746f2066696e616c697a650000000000006044820152606401610318565b6040805160018082528183019092525f91602080830190803683375050506007830154909150815f815181106110db576110db611ede565b60209081029190910101525f6110f882632533fd5560e11b61150b565b5f81815260026020526040908190208890555190915086907f78b1c4f4a995ee0900557ab63afc39e57dcce05ef2e622329233c0a9f0f0ef5e9061113f9084815260200190565b60405180910390a2505050505050565b5f8054829081106111995760405162461bcd60e51b8152602060048201526014602482015273115d995b9d08191bd95cc81b9bdd08195e1a5cdd60621b6044820152606401610318565b5f83815481106111ab576111ab611ede565b905f5260205f20906009020160040160019054906101000a900460ff166112145760405162461bcd60e51b815260206004820152601360248201527f4576656e74206e6f742066696e616c697a6564000000000000000000000000006044820152606401610318565b5f838154811061122657611226611ede565b5f91825260209091206008600990920201015463ffffffff1691505b50919050565b5f8054829081106112925760405162461bcd60e51b8152602060048201526014602482015273115d995b9d08191bd95cc81b9bdd08195e1a5cdd60621b6044820152606401610318565b5f83815481106112a4576112a4611ede565b905f5260205f20906009020160070154915050919050565b5f54829081106113055760405162461bcd60e51b8152602060048201526014602482015273115d995b9d08191bd95cc81b9bdd08195e1a5cdd60621b6044820152606401610318565b82336001600160a01b03165f828154811061132257611322611ede565b5f9182526020909120600990910201600401546201000090046001600160a01b03161461139c5760405162461bcd60e51b815260206004820152602260248201527f4f6e6c792061646d696e2063616e20706572666f726d2074686973206163746960448201526137b760f11b6064820152608401610318565b5f5f85815481106113af576113af611ede565b905f5260205f209060090201905080600201544210156114115760405162461bcd60e51b815260206004820152601760248201527f5461726765742064617465206e6f7420726561636865640000000000000000006044820152606401610318565b5f841161146c5760405162461bcd60e51b815260206004820152602360248201527f41637475616c207072696365206d75737420626520677265617465722074686160448201526206e20360ec1b6064820152608401610318565b6006810184905560405184815285907f17829879f8687fb2faf5fb54a108aa75d4f06060418c7d2d1ea9dfc4d915c30e9060200160405180910390a25050505050565b5f61089a83836004611517565b5f826114ce576114cb5f611637565b92505b816114df576114dc5f611637565b91505b61089a83835f611649565b5f6114f58230611729565b5090565b5f6115048383611729565b5090919050565b5f61089a83835f6117b2565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163196d0b9b60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b039091169063196d0b9b906115909088903390899089906004016120e5565b6020604051808303815f875af11580156115ac573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906115d09190612124565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b158015611619575f5ffd5b505af115801561162b573d5f5f3e3d5ffd5b50505050509392505050565b5f6102cc8263ffffffff1660046118e0565b5f5f821561165c5750600160f81b61165f565b505f5b5f7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700600181015460405163022f65e760e31b815260048101899052602481018890527fff00000000000000000000000000000000000000000000000000000000000000851660448201529192506001600160a01b03169063117b2f38906064016020604051808303815f875af11580156116fb573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061171f9190612124565b9695505050505050565b5f7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b158015611797575f5ffd5b505af11580156117a9573d5f5f3e3d5ffd5b50505050505050565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008054604051637d6e912360e11b81529293926001600160a01b039091169063fadd224690611828908990600401612175565b5f604051808303815f87803b15801561183f575f5ffd5b505af1158015611851573d5f5f3e3d5ffd5b5050506002820154604051633263b83b60e01b81526001600160a01b039091169150633263b83b90869061188d9087908b908b90600401612187565b5f604051808303818588803b1580156118a4575f5ffd5b505af11580156118b6573d5f5f3e3d5ffd5b50505050506118c5838761199d565b8154825f6118d2836120bd565b919050555050509392505050565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b0390911690639cd07acb9061195590879087906004016121b8565b6020604051808303815f875af1158015611971573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906119959190612124565b949350505050565b5f8281527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260409020547f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009015611a0a57604051633f06d22b60e01b815260040160405180910390fd5b5f83815260018201602090815260409091208351611a2a92850190611a30565b50505050565b828054828255905f5260205f20908101928215611a69579160200282015b82811115611a69578251825591602001919060010190611a4e565b506114f59291505b808211156114f5575f8155600101611a71565b5f5f60408385031215611a95575f5ffd5b8235915060208301356001600160a01b0381168114611ab2575f5ffd5b809150509250929050565b5f60208284031215611acd575f5ffd5b5035919050565b634e487b7160e01b5f52604160045260245ffd5b604051601f8201601f1916810167ffffffffffffffff81118282101715611b1157611b11611ad4565b604052919050565b5f5f67ffffffffffffffff841115611b3357611b33611ad4565b50601f8301601f1916602001611b4881611ae8565b915050828152838383011115611b5c575f5ffd5b828260208301375f602084830101529392505050565b5f5f5f5f60808587031215611b85575f5ffd5b843567ffffffffffffffff811115611b9b575f5ffd5b8501601f81018713611bab575f5ffd5b611bba87823560208401611b19565b945050602085013560028110611bce575f5ffd5b93969395505050506040820135916060013590565b5f82601f830112611bf2575f5ffd5b61089a83833560208501611b19565b5f5f5f60608486031215611c13575f5ffd5b83359250602084013567ffffffffffffffff811115611c30575f5ffd5b611c3c86828701611be3565b925050604084013567ffffffffffffffff811115611c58575f5ffd5b8401601f81018613611c68575f5ffd5b803567ffffffffffffffff811115611c8257611c82611ad4565b8060051b611c9260208201611ae8565b91825260208184018101929081019089841115611cad575f5ffd5b6020850192505b83831015611cf357823567ffffffffffffffff811115611cd2575f5ffd5b611ce18b602083890101611be3565b83525060209283019290910190611cb4565b80955050505050509250925092565b5f5f5f5f60608587031215611d15575f5ffd5b8435935060208501359250604085013567ffffffffffffffff811115611d39575f5ffd5b8501601f81018713611d49575f5ffd5b803567ffffffffffffffff811115611d5f575f5ffd5b876020828401011115611d70575f5ffd5b949793965060200194505050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b634e487b7160e01b5f52602160045260245ffd5b60028110611dd057611dd0611dac565b9052565b61016081525f611de861016083018e611d7e565b9050611df7602083018d611dc0565b604082019a909a526060810198909852951515608088015293151560a08701526001600160a01b039290921660c086015260e085015261010084015261012083015263ffffffff166101409091015292915050565b61014081525f611e6061014083018d611d7e565b9050611e6f602083018c611dc0565b60408201999099526060810197909752941515608087015292151560a08601526001600160a01b039190911660c085015260e084015261010083015263ffffffff166101209091015292915050565b5f5f60408385031215611ecf575f5ffd5b50508035926020909101359150565b634e487b7160e01b5f52603260045260245ffd5b600181811c90821680611f0657607f821691505b60208210810361124257634e487b7160e01b5f52602260045260245ffd5b601f821115611f6b57805f5260205f20601f840160051c81016020851015611f495750805b601f840160051c820191505b81811015611f68575f8155600101611f55565b50505b505050565b815167ffffffffffffffff811115611f8a57611f8a611ad4565b611f9e81611f988454611ef2565b84611f24565b6020601f821160018114611fd0575f8315611fb95750848201515b5f19600385901b1c1916600184901b178455611f68565b5f84815260208120601f198516915b82811015611fff5787850151825560209485019460019092019101611fdf565b508482101561201c57868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b634e487b7160e01b5f52601160045260245ffd5b80820281158282048414176102cc576102cc61202b565b808201808211156102cc576102cc61202b565b604081525f61207b6040830185611d7e565b905061089a6020830184611dc0565b5f63ffffffff8316806120ab57634e487b7160e01b5f52601260045260245ffd5b8063ffffffff84160491505092915050565b5f600182016120ce576120ce61202b565b5060010190565b60548110611dd057611dd0611dac565b8481526001600160a01b0384166020820152608060408201525f61210c6080830185611d7e565b905061211b60608301846120d5565b95945050505050565b5f60208284031215612134575f5ffd5b5051919050565b5f8151808452602084019350602083015f5b8281101561216b57815186526020958601959091019060010161214d565b5093949350505050565b602081525f61089a602083018461213b565b838152606060208201525f61219f606083018561213b565b905063ffffffff60e01b83166040830152949350505050565b8281526040810161089a60208301846120d556fea164736f6c634300081b000a";
+  "0x60c06040523461024057604051601f6161d138819003918201601f19168301916001600160401b03831184841017610244578084926040948552833981010312610240578051906001600160a01b03821682036102405760200151906001600160a01b0382168203610240575f6060610076610258565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60606100a6610258565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03195f5160206161b15f395f51905f525416175f5160206161b15f395f51905f525573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f5160206161715f395f51905f525416175f5160206161715f395f51905f525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f5160206161915f395f51905f525416175f5160206161915f395f51905f5255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f5160206161515f395f51905f525416175f5160206161515f395f51905f525560017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f005560805260a052604051615ed9908161027882396080518181816119250152612f72015260a051818181611e830152614bc00152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176102445760405256fe60806040526004361015610011575f80fd5b5f3560e01c80629f9a0c146102f157806302c7f4761461031e57806303d03c1c146103195780630b4411fb146103145780630ca58ac51461030f578063140b73c51461030a578063149574e1146103055780631f8550e11461030057806321f03687146102fb5780632320d508146102f657806326b5ddaa146102f15780632a74bd60146102ec578063368aead3146102e757806338263bc1146102e257806350f90594146102dd5780635b7a0c73146102d85780635b7baf64146102d35780635d16a06a146102ce5780636628aec9146102c957806366f2addc146102c457806367746211146102bf578063677bd9ff146102ba5780636a398d2a146102b55780637174c43c146102b0578063741bef1a146102ab578063748da356146102a657806378c5195e146102a15780637bbedfd71461029c5780637f90d65f14610297578063873d87ca14610292578063873f6f9e1461028d5780639134793a14610288578063937e406a1461028357806398a57b1f1461027e5780639e5e4a47146102795780639fdbfd5814610274578063a37102711461026f578063ab388b9e1461026a578063ac3c76ef14610265578063acc0f1dc14610260578063be524e461461025b578063d9e48f5c14610256578063da1f12ab14610251578063de1fecd11461024c578063e1e1240b14610247578063e3a97fad14610242578063e3b11e4f1461023d578063e8c4ee1c146102385763f398ea2214610233575f80fd5b61318b565b613117565b6130fc565b613046565b612fc8565b612e4e565b612e32565b612e16565b612d37565b612d05565b612c48565b612ac0565b612a6d565b61282e565b6126ba565b612670565b6125e7565b612540565b6124f9565b612321565b6122a1565b6120c2565b612035565b611ea7565b611e64565b611dd0565b611bc8565b611a3b565b61197c565b611906565b611848565b6117ee565b611632565b6115b5565b611598565b611462565b61122f565b61112f565b610331565b61105b565b610f60565b610ec7565b610e71565b610e55565b610cb6565b6108ad565b61078d565b61034c565b5f91031261032d57565b5f80fd5b3461032d575f36600319011261032d576020604051600a8152f35b3461032d57602036600319011261032d57600435610368614796565b6103745f5482106131df565b61038d60ff600461038484611c2f565b5001541661322b565b6103a5600361039b83611c2f565b5001544210613277565b6103c260ff60046103b584611c2f565b50015460081c16156132c3565b6103ed6103d7825f52600160205260405f2090565b336001600160a01b03165f5260205260405f2090565b6104036103fe600283015460ff1690565b61330f565b61040c82611c2f565b5061041f835f52600260205260405f2090565b916020600783019182549054946104b161045b336104458a5f52600360205260405f2090565b906001600160a01b03165f5260205260405f2090565b54600487015460101c6001600160a01b031690604051988995869563e21b2be960e01b875260048701936080936001600160a01b03939796929760a0870198875260208701526040860152606085015216910152565b038173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af4908115610649576005935f9261064e575b5055016104e88154613389565b90556104f433826147f4565b61051e61050d33610445845f52600160205260405f2090565b60025f918281558260018201550155565b33817fd024803ecdc257de5f7a60c3ac511ab249f5908eef8d4775f5801395fccc1ee65f80a3610556815f52600c60205260405f2090565b600181019081548061058e575b61058c60017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055565b005b61059d600283019182546133a8565b905573__$d60e63fe2fe637dfa7d045ebb122bbe0ed$__908254823b1561032d5760405163bfef9fad60e01b815260048101929092523360248301526044820152905f90829060649082905af480156106495761062f575b50546040519081523391907f181dd8e5abfdd7ea94bff7529391d477a29bf85df13abe63fb4f97017bbc8ba090602090a35f808080610563565b8061063d5f61064393610693565b80610323565b5f6105f5565b61336a565b61067191925060203d602011610678575b6106698183610693565b81019061335b565b905f6104db565b503d61065f565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176106b557604052565b61067f565b604051906106c9606083610693565b565b92919267ffffffffffffffff82116106b557604051916106f5601f8201601f191660200184610693565b82948184528183011161032d578281602093845f960137010152565b9080601f8301121561032d5781602061072c933591016106cb565b90565b60843590600482101561032d57565b9181601f8401121561032d5782359167ffffffffffffffff831161032d576020808501948460051b01011161032d57565b6001600160a01b0381160361032d57565b60c435906106c98261076f565b3461032d5761012036600319011261032d5760043567ffffffffffffffff811161032d576107bf903690600401610711565b6024359060443591606435916107d361072f565b60a43567ffffffffffffffff811161032d576107f390369060040161073e565b6107fb610780565b9160e43593610104359767ffffffffffffffff891161032d57610841996108296108319a369060040161073e565b9990986133b5565b6040519081529081906020820190565b0390f35b93919594959290926001600160a01b0360a08601941685526020850152604084015260a060608401528051809252602060c084019101915f5b81811061089357505060809150931515910152565b835161ffff1683526020938401939092019160010161087e565b3461032d57602036600319011261032d576004356108cd5f5482106131df565b5f52600c60205260405f206001600160a01b03815416600182015490600283015460ff6004600386019501541690604051908161091d6109138854809360209181520190565b975f5260205f2090565b905f915b81600f840110610b4e57976109c092859261084198999a5491818110610b39575b818110610b20575b818110610b08575b818110610aef575b818110610ad6575b818110610abd575b818110610aa4575b818110610a8b575b818110610a72575b818110610a59575b818110610a40575b818110610a27575b818110610a0e575b8181106109f5575b8181106109dc575b106109cc575b500383610693565b60405195869586610845565b60f01c81526020905b015f6109b8565b60e083901c61ffff1684529260019060200193016109b2565b60d083901c61ffff1684529260019060200193016109aa565b60c083901c61ffff1684529260019060200193016109a2565b60b083901c61ffff16845292600190602001930161099a565b60a083901c61ffff168452926001906020019301610992565b609083901c61ffff16845292600190602001930161098a565b608083901c61ffff168452926001906020019301610982565b607083901c61ffff16845292600190602001930161097a565b606083901c61ffff168452926001906020019301610972565b605083901c61ffff16845292600190602001930161096a565b604083901c61ffff168452926001906020019301610962565b603083901c61ffff16845292600190602001930161095a565b602083811c61ffff1685529093600191019301610952565b601083901c61ffff16845292600190602001930161094a565b61ffff83168452926001906020019301610942565b976001610200601092610c418c54610b6d8361ffff831661ffff169052565b80861c61ffff166020840152602081901c61ffff166040840152603081901c61ffff166060840152604081901c61ffff166080840152605081901c61ffff1660a0840152606081901c61ffff1660c0840152607081901c61ffff1660e0840152608081901c61ffff16610100840152609081901c61ffff1661012084015260a081901c61ffff1661014084015260b081901c61ffff1661016084015260c081901c61ffff1661018084015260d081901c61ffff166101a084015260e081901c61ffff166101c084015260f01c6101e0830152565b019901920191610921565b9181601f8401121561032d5782359167ffffffffffffffff831161032d576020838186019501011161032d57565b90608060031983011261032d576004359160243591604435916064359067ffffffffffffffff821161032d57610cb291600401610c4c565b9091565b610d8d610d7f6040610cc736610c7a565b9396929590610cd4614796565b610ce05f5489106131df565b610cf060ff60046103848b611c2f565b610cfe600361039b8a611c2f565b610d0e60ff60046103b58b611c2f565b610d3f610d3a610d366002610d2e6103d78d5f52600160205260405f2090565b015460ff1690565b1590565b6133db565b610d85610d54895f52600260205260405f2090565b97610d746003610d658b5460ff1690565b610d6e81611097565b14613427565b610d7f3688856106cb565b90614fbe565b9436916106cb565b82516308fcb58b60e21b81526004810194909452602484019190915260448301525f60648301528160848173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af491821561064957610e14610e1992610563945f915f91610e20575b5080610e0e91610e0633610445885f52600360205260405f2090565b55339061580f565b82615112565b6152c4565b3414613489565b610e0e9250610e47915060403d604011610e4e575b610e3f8183610693565b810190613473565b9091610dea565b503d610e35565b3461032d575f36600319011261032d5760206040516101f48152f35b3461032d57604036600319011261032d57602060ff6002610eba602435600435610e9a8261076f565b5f526001855260405f20906001600160a01b03165f5260205260405f2090565b0154166040519015158152f35b3461032d57604036600319011261032d57610841610f4f602435600435610eed8261076f565b610ef95f5482106131df565b805f526001602052610f2e60ff6002610f268560405f20906001600160a01b03165f5260205260405f2090565b0154166134d5565b5f52600160205260405f20906001600160a01b03165f5260205260405f2090565b546040519081529081906020820190565b3461032d57602036600319011261032d57600435610f805f5482106131df565b610f8981611c2f565b50600481019060ff8254161561101657600301544210610fd157805460ff191690557f56e917cab8fcda8590d4d2e00670ab5a8a607111c71d35d2e140ff84d1cc6dfa5f80a2005b60405162461bcd60e51b815260206004820152601760248201527f4576656e7420686173206e6f7420656e646564207965740000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201527f4576656e74206e6f7420616374697665000000000000000000000000000000006044820152606490fd5b3461032d57602036600319011261032d576020611079600435613521565b6040519015158152f35b634e487b7160e01b5f52602160045260245ffd5b600411156110a157565b611083565b9060048210156110a15752565b90602080835192838152019201905f5b8181106110d05750505090565b825163ffffffff168452602093840193909201916001016110c3565b926111289061111a6060946111098763ffffffff969a999a6110a6565b6080602088015260808701906110b3565b9085820360408701526110b3565b9416910152565b3461032d57602036600319011261032d5760043561114f5f5482106131df565b5f600661116d611167845f52600260205260405f2090565b93611c2f565b500154806111aa575b50610841611185835460ff1690565b9161119e600361119760018701613615565b9501613615565b604051948594856110ec565b60405163045fe71560e41b81526004810184905263ffffffff919091166024820152905060208160448173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af4908115610649575f91611200575b505f611176565b611222915060203d602011611228575b61121a8183610693565b810190613600565b5f6111f9565b503d611210565b3461032d57604036600319011261032d57600435602435906112535f5482106131df565b6112776001600160a01b03600461126984611c2f565b50015460101c1633146137ea565b6112ca600661128583611c2f565b506112a86112a3610d366004610d2e885f52600c60205260405f2090565b613841565b6112c16112bc610d36600484015460ff1690565b61388d565b015415156138d9565b6112dc815f52600b60205260405f2090565b916112ef825f52600660205260405f2090565b835491815492611300848210613925565b811515848161144f575b5061143c575b505061131b83615379565b845473__$edc04a1d3d5f5998730b5874516c93b352$__905b84811061138657505050817fcb29236e03a17a02af80e1a32957f4e81a1d6e378eb874b585b48b1b2690540c93945554906113816040519283928360209093929193604081019481520152565b0390a2005b6113b0836113aa6113978488613971565b90546001600160a01b039160031b1c1690565b8861540d565b906113c3875f52600860205260405f2090565b916113d6885f52600960205260405f2090565b843b1561032d57604051638fe00ab160e01b815260048101949094526024840152604483018690526064830182905260848301525f8260a481865af491821561064957600192611428575b5001611334565b8061063d5f61143693610693565b5f611421565b6114479293506135e5565b905f80611310565b905061145b83836135e5565b105f61130a565b3461032d576114d9610d7f604061147836610c7a565b93969295906114895f5489106131df565b61149960ff60046103848b611c2f565b6114a7600361039b8a611c2f565b6114b760ff60046103b58b611c2f565b610d3f6114d46002610d2e6103d78c5f52600160205260405f2090565b613986565b926115256114f333610445885f52600360205260405f2090565b54845195869485946308fcb58b60e21b8652600486019094939260609260808301968352602083015260408201520152565b038173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af49182156106495761058c925f925f91611573575b508061156e91610e0633610445865f52600360205260405f2090565b6154c0565b61156e9350611591915060403d604011610e4e57610e3f8183610693565b9092611552565b3461032d575f36600319011261032d57602060405162093a808152f35b3461032d5760e036600319011261032d5760043567ffffffffffffffff811161032d576115e6903690600401610711565b6024359060443591606435916084356115fe8161076f565b60a4359060c4359467ffffffffffffffff861161032d576108419661162a61083197369060040161073e565b9690956139d2565b3461032d57602036600319011261032d5760043561164e614796565b61165a5f5482106131df565b61166c815f52600c60205260405f2090565b61167d610d36600483015460ff1690565b6117cf575b600181019061169382541515613a38565b6116b56116b06002610d2e6103d7875f52600160205260405f2090565b6134d5565b6116e06116db610d366116d433610445885f52600d60205260405f2090565b5460ff1690565b613a84565b6117066116f933610445865f52600d60205260405f2090565b805460ff19166001179055565b73__$d60e63fe2fe637dfa7d045ebb122bbe0ed$__908254823b1561032d5760405163bfef9fad60e01b815260048101929092523360248301526044820152905f90829060649082905af48015610649576117bb575b50546040519081523391907f181dd8e5abfdd7ea94bff7529391d477a29bf85df13abe63fb4f97017bbc8ba09080602081015b0390a361058c60017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055565b8061063d5f6117c993610693565b5f61175c565b6117e06117db83613521565b6139ec565b6117e9826155e7565b611682565b3461032d57602036600319011261032d576004355f52600b602052608060405f206001600160a01b036001825492015460405192835260ff81161515602084015260ff8160081c161515604084015260101c166060820152f35b3461032d57604036600319011261032d576004356024356118688161076f565b6118745f5483106131df565b815f5260016020526118a160ff6002610f268460405f20906001600160a01b03165f5260205260405f2090565b815f52600260205260ff60405f2054169060048210156110a1576118ca60036118f39314613427565b6104456118e382610445865f52600160205260405f2090565b54935f52600360205260405f2090565b5460408051928352602083019190915290f35b3461032d575f36600319011261032d5760206040516001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000168152f35b606060031982011261032d5760043591602435916044359067ffffffffffffffff821161032d57610cb291600401610c4c565b610563610e19610d7f610e14610e0e61199436611949565b6119a096929396614796565b6119ac5f5488106131df565b6119bc60ff60046103848a611c2f565b6119ca600361039b89611c2f565b6119da60ff60046103b58a611c2f565b865f526001602052611a0f60ff6002611a0660405f20336001600160a01b03165f5260205260405f2090565b015416156133db565b865f526002602052611a34600360ff60405f205416611a2d81611097565b1415613ad0565b36916106cb565b3461032d57602036600319011261032d57600435611a57614796565b611a635f5482106131df565b611a85611a806004611a7484611c2f565b50015460081c60ff1690565b613b1c565b611aaf611aaa6001611a9f845f52600b60205260405f2090565b015460081c60ff1690565b613b68565b611acc6112a3610d366004610d2e855f52600c60205260405f2090565b611aea6116db610d366116d46103d7855f52600d60205260405f2090565b611af4338261563c565b90611b00821515613bb4565b611b196116f933610445845f52600d60205260405f2090565b611b2b815f52600c60205260405f2090565b73__$d60e63fe2fe637dfa7d045ebb122bbe0ed$__803b1561032d5760405163bfef9fad60e01b81526004810192909252336024830152604482018490525f90829060649082905af4801561064957611bb4575b5060405191825233917f5380cf6fe903b40c6d5a9e0dfbca2f3a423f0a21520b4d5947ed5169bdba946d90806020810161178f565b8061063d5f611bc293610693565b5f611b7f565b3461032d57604036600319011261032d57602060ff611c0f602435600435611bef8261076f565b5f52600e845260405f20906001600160a01b03165f5260205260405f2090565b54166040519015158152f35b634e487b7160e01b5f52603260045260245ffd5b5f54811015611c67575f8080526009919091027f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5630191565b611c1b565b90600182811c92168015611c9a575b6020831014611c8657565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611c7b565b9060405191825f825492611cb784611c6c565b8084529360018116908115611d205750600114611cdc575b506106c992500383610693565b90505f9291925260205f20905f915b818310611d045750509060206106c9928201015f611ccf565b6020919350806001915483858901015201910190918492611ceb565b9050602092506106c994915060ff191682840152151560051b8201015f611ccf565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b99979593919b9a98969492906101608b526101608b01611d8591611d42565b9b60208b015260408a0152606089015215156080880152151560a08701526001600160a01b031660c086015260e085015261010084015261012083015263ffffffff16906101400152565b3461032d57602036600319011261032d576004355f5481101561032d57611df690611c2f565b50611e0081611ca4565b90610841600182015492600283015492600381015494600482015490600583015490600684015492611e3e6008600787015496015463ffffffff1690565b95604051998a996001600160a01b038460101c169460ff808660081c169516938c611d66565b3461032d575f36600319011261032d5760206040516001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000168152f35b3461032d57602036600319011261032d57600435611ec75f5482106131df565b611edd6001600160a01b03600461126984611c2f565b611efa6112a3610d366004610d2e855f52600c60205260405f2090565b611f0c815f52600b60205260405f2090565b611f905f6001611f24855f52600660205260405f2090565b93611f3d8554611f35811515613c00565b825414613c4c565b0192611f55611f50610d36865460ff1690565b613c98565b611f67855f52600960205260405f2090565b604051631be70abf60e11b81526004810191909152602481019190915291829081906044820190565b038173__$edc04a1d3d5f5998730b5874516c93b352$__5af491821561064957610831611fe97f9c6faa55ae4902cc8c9d8acf544afc995e30133e732bbba718de7974ab2ef55b94611381945f91612013575b50615915565b91611ff3866135b9565b612005845f52600560205260405f2090565b55805460ff19166001179055565b61202f91503d805f833e6120278183610693565b810190613d08565b5f611fe3565b3461032d57604036600319011261032d57602061206b60243560043561205a8261076f565b6120665f5482106131df565b613d82565b604051908152f35b606060031982011261032d576004359160243567ffffffffffffffff811161032d57826120a291600401610711565b916044359067ffffffffffffffff821161032d5761072c91600401610711565b3461032d576120e06121176120d636612073565b81839592956156e0565b5f6121116120f6835f52600560205260405f2090565b5492612103841515613e5c565b5f52600560205260405f2090565b5561339a565b90600161212c835f52600b60205260405f2090565b01612149815461213c8160ff1690565b908161228c575b50613ea8565b602061215d845f52600a60205260405f2090565b61216f855f52600660205260405f2090565b604051638bde5f1360e01b8152948592839261218f929160048501613f09565b038173__$edc04a1d3d5f5998730b5874516c93b352$__5af49081156106495761220e61222b926001600160a01b03945f9161225d575b5082547fffffffffffffffffffff0000000000000000000000000000000000000000ffff1660109190911b75ffffffffffffffffffffffffffffffffffffffff000016178255565b805461ff0019166101001781555460101c6001600160a01b031690565b16604051917f7535b8db69f4150589c8b03a5e3871933a2cfd4cb5876387a6a72df376b808705f80a360018152602090f35b61227f915060203d602011612285575b6122778183610693565b810190613ef4565b5f6121c6565b503d61226d565b61229b915060081c60ff161590565b5f612143565b3461032d57604036600319011261032d57610841610f4f6024356004356122c78261076f565b6122d35f5482106131df565b805f52600160205261230060ff6002610f268560405f20906001600160a01b03165f5260205260405f2090565b5f52600860205260405f20906001600160a01b03165f5260205260405f2090565b606036600319011261032d5760043567ffffffffffffffff811161032d5761234d90369060040161073e565b60243567ffffffffffffffff811161032d5761236d90369060040161073e565b9060443567ffffffffffffffff811161032d5784926123918592369060040161073e565b9061239a614796565b6123a5838514613f25565b6123b0828514613f25565b6123bb841515613f71565b6123c8600a851115613fbd565b5f945f945b8086106123df57610563873414613489565b9091929394956123f087838a614009565b355f5481106123fe906131df565b61240781611c2f565b5060048101549061241a60ff831661322b565b60030154421061242990613277565b60081c60ff1615612439906132c3565b61244b815f52600260205260405f2090565b5460ff1661245881611097565b6003141561246590613ad0565b33612478825f52600160205260405f2090565b9061249391906001600160a01b03165f5260205260405f2090565b6002015460ff16156124a490614019565b6124af888886614009565b356124bb89888861408b565b36906124c6926106cb565b6124cf91614fbe565b6124d99082615112565b6124e2906152c4565b6124eb916135e5565b9560010194939291906123cd565b3461032d57604036600319011261032d57602060ff611c0f6024356004356125208261076f565b5f52600d845260405f20906001600160a01b03165f5260205260405f2090565b3461032d57608036600319011261032d5760043567ffffffffffffffff811161032d5761206b6125766020923690600401610711565b6024356044359060643592614b9e565b989461012098946001600160a01b03946125b263ffffffff9a959e9d99946101408e8181520190611d42565b9d60208d015260408c015260608b0152151560808a0152151560a08901521660c087015260e086015261010085015216910152565b3461032d57602036600319011261032d5761260f60043561260a5f5482106131df565b611c2f565b5060018101549061084160028201549160038101549360048201549060058301549060068401549261264b63ffffffff60088701541695611ca4565b6040519889986001600160a01b038460101c169460ff808660081c169516938b612586565b3461032d57604036600319011261032d576060612695602435600435610f2e8261076f565b80549060ff600260018301549201541690604051928352602083015215156040820152f35b3461032d57602036600319011261032d576004356126da5f5482106131df565b6126f06001600160a01b03600461126984611c2f565b6127935f6126fd83611c2f565b5061271b6112a3610d366004610d2e885f52600c60205260405f2090565b612747612742610d3660048401546127396112bc610d368360ff1690565b60081c60ff1690565b6140cd565b61275660058201541515614119565b600761276a855f52600260205260405f2090565b910154604051637c4c9b1560e01b81526004810192909252602482015291829081906044820190565b038173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af48015610649576127e8611381917f78b1c4f4a995ee0900557ab63afc39e57dcce05ef2e622329233c0a9f0f0ef5e935f91612814575b50615aa5565b6127f1846135b9565b612803825f52600460205260405f2090565b556040519081529081906020820190565b61282891503d805f833e6120278183610693565b5f6127e2565b3461032d57602036600319011261032d5760043561284e5f5482106131df565b61287061286b6002610d2e6103d7855f52600160205260405f2090565b614165565b61289461288f610d366116d433610445865f52600e60205260405f2090565b6141bd565b600661289f82611c2f565b5060048101546128b49060081c60ff16614209565b016128c1815415156138d9565b6128da6116f933610445855f52600e60205260405f2090565b60206128ee835f52600260205260405f2090565b61290433610445865f52600160205260405f2090565b549061297661292e61292233610445895f52600360205260405f2090565b54955463ffffffff1690565b604051958694859463d03d3c0760e01b86526004860190949363ffffffff906101f49460a09460c0850198855260208501526040840152166060820152606460808201520152565b038173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af48015610649576129c3915f91612a4e575b506129aa816157d8565b506129b361427b565b906129bd8261429d565b52615bb5565b90612a02336129da845f52600f60205260405f2090565b906001600160a01b031673ffffffffffffffffffffffffffffffffffffffff19825416179055565b612a0b816135b9565b612a1d835f52601060205260405f2090565b5560405191825233917f6be239d220bd53126310b9d22323f1a2485324e5c4cd5c3d7e05ae704201759d90602090a3005b612a67915060203d602011610678576106698183610693565b5f6129a0565b3461032d57602036600319011261032d57602063ffffffff6008612ab4600435612a995f5482106131df565b61260a60ff6004612aa984611c2f565b500154851c16613b1c565b50015416604051908152f35b3461032d57612ad4612b056120d636612073565b5f612111612aea835f52600460205260405f2090565b5492612af78415156142aa565b5f52600460205260405f2090565b90612b0f82611c2f565b506004810190612b3a6112bc610d368454612b34612742610d368360ff9060081c1690565b60ff1690565b6020612b4e855f52600260205260405f2090565b93612b60600584015463ffffffff1690565b94612b7e604051968793849362330b3760ea1b8552600485016142f6565b038173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af4908115610649577f91188dea6f6d006a57f45cc0c3b8e707eceda09bcc87ca37ecb5640a8f4f421f935f92612c22575b50612bfb8293612bec600694600885019063ffffffff1663ffffffff19825416179055565b805461ff001916610100179055565b01546040805163ffffffff939093168352602083019190915290a260405160018152602090f35b60069250612c41612bfb9160203d6020116112285761121a8183610693565b9250612bc7565b3461032d57602036600319011261032d57600435612c685f5482106131df565b612c7e6001600160a01b03600461126984611c2f565b805f52600c60205260ff600460405f20015416612cc05780612cbb612cb6610d366001611a9f61058c965f52600b60205260405f2090565b614319565b6155e7565b60405162461bcd60e51b815260206004820152601760248201527f4576656e7420616c72656164792063616e63656c6c65640000000000000000006044820152606490fd5b3461032d57602036600319011261032d5760206007612d2c60043561260a5f5482106131df565b500154604051908152f35b3461032d57604036600319011261032d576004357f17829879f8687fb2faf5fb54a108aa75d4f06060418c7d2d1ea9dfc4d915c30e611381602435612d7e5f5485106131df565b612d946001600160a01b03600461126987611c2f565b806006612da086611c2f565b50865f52600c602052612dbd60ff600460405f2001541615613841565b612dcd6002820154421015614365565b612dd88315156143b1565b612de863ffffffff841115614409565b612e04612dfd885f52600b60205260405f2090565b5415614455565b01556040519081529081906020820190565b3461032d575f36600319011261032d5760205f54604051908152f35b3461032d575f36600319011261032d5760206040516127118152f35b3461032d57612e6b6020612e6136612073565b81839592936156e0565b612f26612f2183612e94612e87875f52600f60205260405f2090565b546001600160a01b031690565b93612ea96001600160a01b03861615156144a1565b612eb5828251146144ed565b5f612f15612ed4612ece8a5f52601060205260405f2090565b5461339a565b98612f07612eea825f52600f60205260405f2090565b73ffffffffffffffffffffffffffffffffffffffff198154169055565b5f52601060205260405f2090565b55015163ffffffff1690565b614539565b90612f65612f4a6004612f3887611c2f565b50015460101c6001600160a01b031690565b60405163ce84635b60e01b815295869485946004860161454b565b03815f6001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165af1801561064957612fab575b60405160018152602090f35b612fc39060203d602011610678576106698183610693565b612f9f565b3461032d57602036600319011261032d57612ff0600435612feb5f5482106131df565b61465a565b9060405190604082019260408352815180945260206060840192015f945b808610613025575050829350151560208301520390f35b90926020806001926001600160a01b0387511681520194019501949061300e565b3461032d5761305436611949565b9092916130635f5484106131df565b61307360ff600461038486611c2f565b613081600361039b85611c2f565b61309160ff60046103b586611c2f565b825f5260016020526130c560ff60026130bd60405f20336001600160a01b03165f5260205260405f2090565b015416613986565b825f52600260205260ff60405f20541660048110156110a15761058c946130f693611a346003610d7f941415614730565b906154c0565b3461032d575f36600319011261032d57602060405160648152f35b3461032d5760c036600319011261032d5760043567ffffffffffffffff811161032d57613148903690600401610711565b604435906024356064359161315b61072f565b60a4359367ffffffffffffffff851161032d576108419561318361083196369060040161073e565b95909461477c565b3461032d57604036600319011261032d57602063ffffffff6131d56024356004356131b58261076f565b5f52600a845260405f20906001600160a01b03165f5260205260405f2090565b5416604051908152f35b156131e657565b60405162461bcd60e51b815260206004820152601460248201527f4576656e7420646f6573206e6f742065786973740000000000000000000000006044820152606490fd5b1561323257565b60405162461bcd60e51b815260206004820152601360248201527f4576656e74206973206e6f7420616374697665000000000000000000000000006044820152606490fd5b1561327e57565b60405162461bcd60e51b815260206004820152600f60248201527f4576656e742068617320656e64656400000000000000000000000000000000006044820152606490fd5b156132ca57565b60405162461bcd60e51b815260206004820152601260248201527f4576656e742069732066696e616c697a656400000000000000000000000000006044820152606490fd5b1561331657565b60405162461bcd60e51b815260206004820152601960248201527f4e6f2070726564696374696f6e20746f207769746864726177000000000000006044820152606490fd5b9081602091031261032d575190565b6040513d5f823e3d90fd5b634e487b7160e01b5f52601160045260245ffd5b8015613395575f190190565b613375565b5f1981019190821161339557565b9190820391821161339557565b9261072c999795926133ce926133d5969c9a9895614b9e565b9889614d68565b85614ec9565b156133e257565b60405162461bcd60e51b815260206004820152601c60248201527f416c7265616479207375626d69747465642070726564696374696f6e000000006044820152606490fd5b1561342e57565b60405162461bcd60e51b815260206004820152601360248201527f4e6f74206120626f756e6473206d61726b6574000000000000000000000000006044820152606490fd5b919082604091031261032d576020825192015190565b1561349057565b60405162461bcd60e51b815260206004820152601360248201527f496e636f727265637420455448207374616b65000000000000000000000000006044820152606490fd5b156134dc57565b60405162461bcd60e51b815260206004820152601660248201527f5573657220686173206e6f7420707265646963746564000000000000000000006044820152606490fd5b61352d5f5482106131df565b805f52600c60205260ff600460405f2001541615908161356f575b81613551575090565b6135699150613561600291611c2f565b5001546135c7565b42101590565b905061358c60ff600461358184611c2f565b50015460081c161590565b8015613599575b90613548565b506135b4610d366001611a9f845f52600b60205260405f2090565b613593565b906001820180921161339557565b9062093a80820180921161339557565b906020820180921161339557565b9190820180921161339557565b63ffffffff81160361032d57565b9081602091031261032d575161072c816135f2565b6040518154808252909291839061363360208301915f5260205f2090565b925f905b806007830110613751576106c994549181811061373a575b818110613720575b818110613705575b8181106136ea575b8181106136cf575b8181106136b4575b818110613699575b1061368c57500383610693565b60e01c81526020906109d5565b60c083901c63ffffffff16845292600190602001930161367f565b60a083901c63ffffffff168452926001906020019301613677565b608083901c63ffffffff16845292600190602001930161366f565b606083901c63ffffffff168452926001906020019301613667565b604083901c63ffffffff16845292600190602001930161365f565b602083811c63ffffffff1685529093600191019301613657565b63ffffffff8316845292600190602001930161364f565b9160089193506101006001916137dc87546137778363ffffffff831663ffffffff169052565b602081811c63ffffffff1690840152604081811c63ffffffff1690840152606081811c63ffffffff1690840152608081811c63ffffffff169084015260a081811c63ffffffff169084015260c081811c63ffffffff169084015260e090811c90830152565b019401920185929391613637565b156137f157565b60405162461bcd60e51b815260206004820152602260248201527f4f6e6c792061646d696e2063616e20706572666f726d2074686973206163746960448201526137b760f11b6064820152608490fd5b1561384857565b60405162461bcd60e51b815260206004820152600f60248201527f4576656e742063616e63656c6c656400000000000000000000000000000000006044820152606490fd5b1561389457565b60405162461bcd60e51b815260206004820152601260248201527f4576656e74207374696c6c2061637469766500000000000000000000000000006044820152606490fd5b156138e057565b60405162461bcd60e51b815260206004820152601460248201527f41637475616c207072696365206e6f74207365740000000000000000000000006044820152606490fd5b1561392c57565b60405162461bcd60e51b815260206004820152601660248201527f416c6c2070726564696374696f6e732073636f726564000000000000000000006044820152606490fd5b8054821015611c67575f5260205f2001905f90565b1561398d57565b60405162461bcd60e51b815260206004820152601760248201527f4e6f2070726564696374696f6e20746f207570646174650000000000000000006044820152606490fd5b9161072c9694979593916139e593614b9e565b9485614ec9565b156139f357565b60405162461bcd60e51b815260206004820152601360248201527f4576656e74206e6f742063616e63656c6c6564000000000000000000000000006044820152606490fd5b15613a3f57565b60405162461bcd60e51b815260206004820152601260248201527f4576656e7420686173206e6f207374616b6500000000000000000000000000006044820152606490fd5b15613a8b57565b60405162461bcd60e51b815260206004820152600f60248201527f416c726561647920636c61696d656400000000000000000000000000000000006044820152606490fd5b15613ad757565b60405162461bcd60e51b815260206004820152601a60248201527f557365207375626d6974426f756e647350726564696374696f6e0000000000006044820152606490fd5b15613b2357565b60405162461bcd60e51b815260206004820152601360248201527f4576656e74206e6f742066696e616c697a6564000000000000000000000000006044820152606490fd5b15613b6f57565b60405162461bcd60e51b815260206004820152601860248201527f4c6561646572626f617264206e6f742072657665616c656400000000000000006044820152606490fd5b15613bbb57565b60405162461bcd60e51b815260206004820152601460248201527f4e6f2077696e6e696e677320746f20636c61696d0000000000000000000000006044820152606490fd5b15613c0757565b60405162461bcd60e51b815260206004820152601860248201527f4e6f2070726564696374696f6e7320746f2072657665616c00000000000000006044820152606490fd5b15613c5357565b60405162461bcd60e51b815260206004820152601c60248201527f50726564696374696f6e73206e6f742066756c6c792073636f726564000000006044820152606490fd5b15613c9f57565b60405162461bcd60e51b8152602060048201526024808201527f4c6561646572626f6172642072657665616c20616c72656164792072657175656044820152631cdd195960e21b6064820152608490fd5b67ffffffffffffffff81116106b55760051b60200190565b60208183031261032d5780519067ffffffffffffffff821161032d57019080601f8301121561032d578151613d3c81613cf0565b92613d4a6040519485610693565b81845260208085019260051b82010192831161032d57602001905b828210613d725750505090565b8151815260209182019101613d65565b90613d95825f52600c60205260405f2090565b613dae6116d483610445865f52600d60205260405f2090565b8015613e38575b613e3157600481015460ff168015613e22575b613e185750613dde610d366004611a7485611c2f565b8015613df8575b613df25761072c9161563c565b50505f90565b50613e13610d366001611a9f855f52600b60205260405f2090565b613de5565b6001015492915050565b50613e2c83613521565b613dc8565b5050505f90565b50613e57610d366002610d2e85610445885f52600160205260405f2090565b613db5565b15613e6357565b60405162461bcd60e51b815260206004820152601b60248201527f556e6b6e6f776e206c6561646572626f617264207265717565737400000000006044820152606490fd5b15613eaf57565b60405162461bcd60e51b815260206004820152601f60248201527f4c6561646572626f617264206e6f74206177616974696e672072657665616c006044820152606490fd5b9081602091031261032d575161072c8161076f565b61072c9392606092825260208201528160408201520190611d42565b15613f2c57565b60405162461bcd60e51b815260206004820152601560248201527f4172726179206c656e677468206d69736d6174636800000000000000000000006044820152606490fd5b15613f7857565b60405162461bcd60e51b815260206004820152601960248201527f43616e6e6f74207375626d697420656d707479206261746368000000000000006044820152606490fd5b15613fc457565b60405162461bcd60e51b815260206004820152601460248201527f42617463682073697a6520746f6f206c617267650000000000000000000000006044820152606490fd5b9190811015611c675760051b0190565b1561402057565b60405162461bcd60e51b815260206004820152602660248201527f416c7265616479207375626d69747465642070726564696374696f6e20666f7260448201527f206576656e7400000000000000000000000000000000000000000000000000006064820152608490fd5b9190811015611c675760051b81013590601e198136030182121561032d57019081359167ffffffffffffffff831161032d57602001823603811361032d579190565b156140d457565b60405162461bcd60e51b815260206004820152601760248201527f4576656e7420616c72656164792066696e616c697a65640000000000000000006044820152606490fd5b1561412057565b60405162461bcd60e51b815260206004820152601a60248201527f4e6f2070726564696374696f6e7320746f2066696e616c697a650000000000006044820152606490fd5b1561416c57565b60405162461bcd60e51b815260206004820152602360248201527f55736572206d7573742068617665207375626d6974746564207072656469637460448201526234b7b760e91b6064820152608490fd5b156141c457565b60405162461bcd60e51b815260206004820152601460248201527f42616c6c20616c726561647920636c61696d65640000000000000000000000006044820152606490fd5b1561421057565b60405162461bcd60e51b815260206004820152602860248201527f4576656e74206d7573742062652066696e616c697a656420746f2067656e657260448201527f6174652062616c6c0000000000000000000000000000000000000000000000006064820152608490fd5b6040805190919061428c8382610693565b6001815291601f1901366020840137565b805115611c675760200190565b156142b157565b60405162461bcd60e51b815260206004820152601860248201527f556e6b6e6f776e2066696e616c697a65207265717565737400000000000000006044820152606490fd5b9161112863ffffffff916040939695968552606060208601526060850190611d42565b1561432057565b60405162461bcd60e51b815260206004820152601c60248201527f4c6561646572626f61726420616c72656164792072657665616c6564000000006044820152606490fd5b1561436c57565b60405162461bcd60e51b815260206004820152601760248201527f5461726765742064617465206e6f7420726561636865640000000000000000006044820152606490fd5b156143b857565b60405162461bcd60e51b815260206004820152602360248201527f41637475616c207072696365206d75737420626520677265617465722074686160448201526206e20360ec1b6064820152608490fd5b1561441057565b60405162461bcd60e51b815260206004820152601960248201527f41637475616c207072696365206f7574206f662072616e6765000000000000006044820152606490fd5b1561445c57565b60405162461bcd60e51b815260206004820152601a60248201527f50726564696374696f6e7320616c72656164792073636f7265640000000000006044820152606490fd5b156144a857565b60405162461bcd60e51b815260206004820152601260248201527f556e6b6e6f776e2062616c6c20636c61696d00000000000000000000000000006044820152606490fd5b156144f457565b60405162461bcd60e51b815260206004820152601960248201527f496e76616c696420636c6561727465787473206c656e677468000000000000006044820152606490fd5b63ffffffff1660038110156110a15790565b92919094936001600160a01b03608085019616845260038210156110a1576060926001600160a01b03926020860152604085015216910152565b90604051918281549182825260208201905f5260205f20925f5b8181106145b45750506106c992500383610693565b84546001600160a01b031683526001948501948794506020909301920161459f565b60208183031261032d5780519067ffffffffffffffff821161032d57019080601f8301121561032d57815161460a81613cf0565b926146186040519485610693565b81845260208085019260051b82010192831161032d57602001905b8282106146405750505090565b60208091835161464f8161076f565b815201910190614633565b90815f52600b60205260ff600160405f20015460081c169182801561471457505f816146a36146946146c9945f52600a60205260405f2090565b915f52600660205260405f2090565b60405163c1280c7d60e01b81526004810192909252602482015291829081906044820190565b038173__$edc04a1d3d5f5998730b5874516c93b352$__5af4908115610649575f916146f457509190565b61471091503d805f833e6147088183610693565b8101906145d6565b9190565b925061472b614710915f52600660205260405f2090565b614585565b1561473757565b60405162461bcd60e51b815260206004820152601a60248201527f55736520757064617465426f756e647350726564696374696f6e0000000000006044820152606490fd5b9161072c95939161478f93979597614b9e565b9384614d68565b60027f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0054146147e55760027f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055565b633ee5aeb560e01b5f5260045ffd5b90815f52600660205260405f2090825f5260076020526148288160405f20906001600160a01b03165f5260205260405f2090565b5482545f198101908111613395576148486001600160a01b039185613971565b90549060031b1c165f198201908282116133955761488c8161486d61489e9488613971565b9091906001600160a01b038084549260031b9316831b921b1916179055565b610445865f52600760205260405f2090565b55815480156148e4575f936148e193610445925f1901906148bf8282613971565b6001600160a01b0382549160031b1b19169055555f52600760205260405f2090565b55565b634e487b7160e01b5f52603160045260245ffd5b9081602091031261032d5751801515810361032d5790565b1561491757565b60405162461bcd60e51b815260206004820152601360248201527f4173736574206973206e6f7420616374697665000000000000000000000000006044820152606490fd5b1561496357565b60405162461bcd60e51b815260206004820152602160248201527f5461726765742064617465206d75737420626520696e207468652066757475726044820152606560f81b6064820152608490fd5b156149b957565b60405162461bcd60e51b815260206004820152601f60248201527f4475726174696f6e206d7573742062652067726561746572207468616e2030006044820152606490fd5b5f54680100000000000000008110156106b557600181015f555f54811015611c67575f8080526009919091027f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5630191565b601f8211614a5c57505050565b5f5260205f20906020601f840160051c83019310614a94575b601f0160051c01905b818110614a89575050565b5f8155600101614a7e565b9091508190614a75565b919091825167ffffffffffffffff81116106b557614ac681614ac08454611c6c565b84614a4f565b6020601f8211600114614b05578190614af69394955f92614afa575b50508160011b915f199060031b1c19161790565b9055565b015190505f80614ae2565b601f19821690614b18845f5260205f2090565b915f5b818110614b5257509583600195969710614b3a575b505050811b019055565b01515f1960f88460031b161c191690555f8080614b30565b9192602060018192868b015181550194019201614b1b565b90610e10820291808304610e10149015171561339557565b929190614b99602091604086526040860190611d42565b930152565b604051631174806160e11b8152600481018390529390929091906020856024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa918215610649575f6006614cdd93614c2e7fccbf3699903e3a1f543d2cce25fdcf8d4a8ff46ffde038cfe9ef48a8c09942ab96614c709a8591614ce3575b50614910565b614c3942821161495c565b614c448715156149b2565b614c768354998a98614c546149fe565b5093614c608c86614a9e565b8760018601556002850155614b6a565b426135e5565b600382015560048101805475ffffffffffffffffffffffffffffffffffffffff00003360101b167fffffffffffffffffffff000000000000000000000000000000000000000000009091161760011790558260058201550155604051918291339683614b82565b0390a390565b614d05915060203d602011614d0b575b614cfd8183610693565b8101906148f8565b5f614c28565b503d614cf3565b83606092949394614d278360408101926110a6565b60406020840152520191905f5b818110614d415750505090565b90919260208060019263ffffffff8735614d5a816135f2565b168152019401929101614d34565b929190835f52600260205260405f209273__$ddea940f3a15be230a3fa82f5dcaa54196$__803b1561032d57604051634cd9493f60e01b815260048101959095528160648601614dbb60248801866110a6565b60606044880152528460848101855f5b858110614e355750509181805f9403915af4908115610649577fa31b9267ba41c989f55d0cca8f805765c3b74e24a85244edfa387a97b8431f1894614e1c92614e21575b5060405193849384614d12565b0390a2565b8061063d5f614e2f93610693565b5f614e0f565b918193506020809163ffffffff60019435614e4f816135f2565b168152019301910190879291614dcb565b359061ffff8216820361032d57565b90938093946080936001600160a01b036060850192168452602084015260606040840152520191905f5b818110614ea65750505090565b90919260208060019261ffff614ebb88614e60565b168152019401929101614e99565b9392845f52600c60205260405f209373__$d60e63fe2fe637dfa7d045ebb122bbe0ed$__803b1561032d57816040519663ed9b106760e01b8852608488019060048901526001600160a01b038616602489015286604489015260806064890152528560a48101845f5b858110614f975750509181805f9403915af4918215610649577f4a74533ac81dcbe1ebd1376c81af82841d37cd4039d0dfacc81cc4b3eb95b41395614e1c93614f83575b5060405194859485614e6f565b8061063d5f614f9193610693565b5f614f76565b918193506020809161ffff614fad600195614e60565b168152019301910190889291614f32565b61502891602091615008614ffc614ffc7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701546001600160a01b031690565b6001600160a01b031690565b905f60405180968195829463196d0b9b60e01b84523390600485016157e2565b03925af1908115610649575f916150bd575b50615072614ffc614ffc7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031690565b803b1561032d57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610649576150af575090565b8061063d5f61072c93610693565b6150d6915060203d602011610678576106698183610693565b5f61503a565b5f1981146133955760010190565b90815491680100000000000000008310156106b5578261486d9160016106c995018155613971565b9061511c82611c2f565b5061512f835f52600260205260405f2090565b6040600783019182549061519661515460048701546001600160a01b039060101c1690565b84519788948594635d5d750560e01b86526004860192936001600160a01b0391959460809360a0860197865260208601525f6040860152606085015216910152565b038173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af492831561064957600593615226925f925f926152a0575b505561521f6151d36106ba565b828152426020820152600160408201526151f86103d7885f52600160205260405f2090565b6002604091835181556020840151600182015501910151151560ff80198354169116179055565b339061580f565b0161523181546150dc565b905561524e33615249835f52600660205260405f2090565b6150ea565b615260815f52600660205260405f2090565b5461527733610445845f52600760205260405f2090565b5533907f2e5591dc3bdf69213e1be2f7ad86937078a5b387dfd176b577fee221058fb9f15f80a3565b9092506152bc915060403d604011610e4e57610e3f8183610693565b90915f6151c6565b6152d6815f52600c60205260405f2090565b906001820154918215613e31576040519283526153369260209233917f4297eb34ce0f5cba5434e9e5bc90ff09dc76e8c53521965282b3b31bc2dcc4bc908590a3604051809381926331bafb4f60e01b8352600483019190602083019252565b038173__$d60e63fe2fe637dfa7d045ebb122bbe0ed$__5af4908115610649575f91615360575090565b61072c915060203d602011610678576106698183610693565b60206153ca91805f526002825263ffffffff600661539a60405f2093611c2f565b50015460405163f06ae6a760e01b815260048101939093521663ffffffff16602482015291829081906044820190565b038173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af4908115610649575f916153f4575090565b61072c915060203d6020116112285761121a8183610693565b602091815f526002835261549661545a60405f2092845f526001865261044561544a8260405f20906001600160a01b03165f5260205260405f2090565b54955f52600360205260405f2090565b54946040519586948594639683751b60e01b865260048601929363ffffffff919594606093608086019786526020860152604085015216910152565b038173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af4908115610649575f91615360575090565b906154ca82611c2f565b506154e06103d7845f52600160205260405f2090565b60406154f4855f52600260205260405f2090565b93600784019461555d86549261551a600487549801546001600160a01b039060101c1690565b9085519788958695635d5d750560e01b875260048701936080936001600160a01b03939796929760a0870198875260208701526040860152606085015216910152565b038173__$ddea940f3a15be230a3fa82f5dcaa54196$__5af480156106495761559b935f935f926155c3575b5055818155600142910155339061580f565b33907f3544b05dd48ba5137da2d2e5d302b3535c4ff55e29c5e315ce1667387d252aff5f80a3565b9093506155df915060403d604011610e4e57610e3f8183610693565b90925f615589565b805f52600c602052600460405f2001600160ff19825416179055600461560c82611c2f565b5001805460ff191690557f87e97dc9eebf5e9cd203a9f90169c9fc40f862a38657fa250017dfc9a0bd9f545f80a2565b9061564f825f52600c60205260405f2090565b9160028301541580156156bc575b613e315761568961469461567f602094610445855f52600a60205260405f2090565b5463ffffffff1690565b54604051632ca7071f60e21b8152600481019490945263ffffffff90911660248401526044830152818060648101615336565b506156db610d366002610d2e85610445865f52600160205260405f2090565b61565d565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f2054156157c957825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f206040519081602082549182815201915f5260205f20905f5b8181106157b357505050918161577561577a9593610d36950382610693565b615d13565b6157a4577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b63cf6c44e960e01b5f5260045ffd5b8254845260209093019260019283019201615756565b63d66ca67560e01b5f5260045ffd5b61072c308261580f565b9392614b99906001600160a01b036004946060948852166020870152608060408701526080860190611d42565b6001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700541691823b1561032d57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610649576158805750565b5f6106c991610693565b90602080835192838152019201905f5b8181106158a75750505090565b825184526020938401939092019160010161589a565b90602061072c92818152019061588a565b916158ec90604092959495845260606020850152606084019061588a565b7fffffffff00000000000000000000000000000000000000000000000000000000909416910152565b907f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf005491615970614ffc614ffc7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031690565b803b1561032d575f6040518092637d6e912360e11b825281838161599788600483016158bd565b03925af1801561064957615a91575b506159de614ffc614ffc7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b031690565b90813b1561032d57604051633263b83b60e01b8152915f908390818381615a11637bbedfd760e01b888c600485016158ce565b03925af191821561064957615a2c92615a7d575b5083615dd9565b6106c9615a597f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00546150dc565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b8061063d5f615a8b93610693565b5f615a25565b8061063d5f615a9f93610693565b5f6159a6565b907f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf005491615b00614ffc614ffc7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031690565b803b1561032d575f6040518092637d6e912360e11b8252818381615b2788600483016158bd565b03925af1801561064957615ba1575b50615b6e614ffc614ffc7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b031690565b90813b1561032d57604051633263b83b60e01b8152915f908390818381615a1163559c45cf60e11b888c600485016158ce565b8061063d5f615baf93610693565b5f615b36565b907f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf005491615c10614ffc614ffc7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031690565b803b1561032d575f6040518092637d6e912360e11b8252818381615c3788600483016158bd565b03925af1801561064957615cb1575b50615c7e614ffc614ffc7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b031690565b90813b1561032d57604051633263b83b60e01b8152915f908390818381615a1163de1fecd160e01b888c600485016158ce565b8061063d5f615cbf93610693565b5f615c46565b60209291908391805192839101825e019081520190565b91615d0590615cf761072c959360608652606086019061588a565b908482036020860152611d42565b916040818403910152611d42565b90918251602001918260201161339557615dab93615d55615d356020956135d7565b91615d47604051938492888401615cc5565b03601f198101835282610693565b5f615d8d614ffc614ffc7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703546001600160a01b031690565b92604051968795869485936378542ead60e01b855260048501615cdc565b03925af1908115610649575f91615dc0575090565b61072c915060203d602011614d0b57614cfd8183610693565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f2054615ebd575f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f2081519167ffffffffffffffff83116106b5576801000000000000000083116106b5578154838355808410615e97575b506020615e749101915f5260205f2090565b5f5b838110615e835750505050565b600190602084519401938184015501615e76565b825f528360205f2091820191015b818110615eb25750615e62565b5f8155600101615ea5565b633f06d22b60e01b5f5260045ffdfea164736f6c634300081b000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700";
 
 type CryptoPriceGuessConstructorParams =
-  | [signer?: Signer]
+  | [linkLibraryAddresses: CryptoPriceGuessLibraryAddresses, signer?: Signer]
   | ConstructorParameters<typeof ContractFactory>;
 
 const isSuperArgs = (
   xs: CryptoPriceGuessConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
 
 export class CryptoPriceGuess__factory extends ContractFactory {
   constructor(...args: CryptoPriceGuessConstructorParams) {
     if (isSuperArgs(args)) {
       super(...args);
     } else {
-      super(_abi, _bytecode, args[0]);
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        CryptoPriceGuess__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
     }
   }
 
+  static linkBytecode(
+    linkLibraryAddresses: CryptoPriceGuessLibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$ddea940f3a15be230a3fa82f5dcaa54196\\$__", "g"),
+      linkLibraryAddresses["contracts/EventMarkets.sol:EventMarkets"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$d60e63fe2fe637dfa7d045ebb122bbe0ed\\$__", "g"),
+      linkLibraryAddresses["contracts/EventPools.sol:EventPools"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$edc04a1d3d5f5998730b5874516c93b352\\$__", "g"),
+      linkLibraryAddresses["contracts/Leaderboards.sol:Leaderboards"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
   override getDeployTransaction(
+    _balls: AddressLike,
+    _priceFeed: AddressLike,
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
+    return super.getDeployTransaction(_balls, _priceFeed, overrides || {});
   }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
+  override deploy(
+    _balls: AddressLike,
+    _priceFeed: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_balls, _priceFeed, overrides || {}) as Promise<
       CryptoPriceGuess & {
         deploymentTransaction(): ContractTransactionResponse;
       }
@@ -605,3 +1768,9 @@ export class CryptoPriceGuess__factory extends ContractFactory {
     return new Contract(address, _abi, runner) as unknown as CryptoPriceGuess;
   }
 }
+
+export interface CryptoPriceGuessLibraryAddresses {
+  ["contracts/EventMarkets.sol:EventMarkets"]: string;
+  ["contracts/EventPools.sol:EventPools"]: string;
+  ["contracts/Leaderboards.sol:Leaderboards"]: string;
+}
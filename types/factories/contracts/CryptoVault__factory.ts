@@ -0,0 +1,1016 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CryptoVault,
+  CryptoVaultInterface,
+} from "../../contracts/CryptoVault";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "storageId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "StorageTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "storageId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum CryptoVault.VaultValueType",
+        name: "valueType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "ValuePublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "storageId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ValueStored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "storageId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "VaultEntryShared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "storageId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "VaultEntryUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "storageId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "releaseAt",
+        type: "uint256",
+      },
+    ],
+    name: "VaultReleaseScheduled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "storageId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "keeper",
+        type: "address",
+      },
+    ],
+    name: "VaultReleaseTriggered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "storageId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "VaultShareRevoked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_VAULT_GRANTEES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_VAULT_LABEL_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "addToVaultEntry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_otherId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum CryptoVault.VaultComparison",
+        name: "_comparison",
+        type: "uint8",
+      },
+    ],
+    name: "compareVaultEntries",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "resultId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedStorages",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "storedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isEncrypted",
+        type: "bool",
+      },
+      {
+        internalType: "enum CryptoVault.VaultValueType",
+        name: "valueType",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "releaseAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_typeFilter",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_includeExpired",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+    ],
+    name: "getFilteredVaultEntries",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "storageIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "enum CryptoVault.VaultValueType[]",
+        name: "valueTypes",
+        type: "uint8[]",
+      },
+      {
+        internalType: "string[]",
+        name: "labels",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "expiresAt",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "totalMatches",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_dueOnly",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+    ],
+    name: "getPendingVaultReleases",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "storageIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "releaseAt",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "totalMatches",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getSharedVaultEntryIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "storageIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserStorageCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+    ],
+    name: "getUserStorageIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+    ],
+    name: "getVaultGrantees",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "grantees",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "expiresAt",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_releaseAt",
+        type: "uint256",
+      },
+    ],
+    name: "heartbeatVaultEntry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_otherId",
+        type: "uint256",
+      },
+    ],
+    name: "maxVaultEntries",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_otherId",
+        type: "uint256",
+      },
+    ],
+    name: "minVaultEntries",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+    ],
+    name: "pruneExpiredVaultShares",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+    ],
+    name: "publishEncryptedValue",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "publishRequested",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "publishedVaultValues",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseVaultEntry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+    ],
+    name: "retrieveEncryptedValue",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+    ],
+    name: "retrieveSharedVaultValue",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_grantee",
+        type: "address",
+      },
+    ],
+    name: "revokeVaultShare",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_grantee",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "shareVaultEntry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum CryptoVault.VaultValueType",
+        name: "_valueType",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "_encryptedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "_label",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "storeEncryptedEntry",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "_encryptedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "storeEncryptedValue",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum CryptoVault.VaultValueType",
+        name: "_valueType",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "_encryptedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "_label",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_releaseAt",
+        type: "uint256",
+      },
+    ],
+    name: "storeTimeLockedEntry",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "storageId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "subtractFromVaultEntry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_storageId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+    ],
+    name: "transferEncryptedStorage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "userEncryptedStorages",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "valuePublishCallback",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "vaultShareExpiry",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234610194575f6060610014610198565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060610044610198565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03195f516020614d2a5f395f51905f525416175f516020614d2a5f395f51905f525573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f516020614cea5f395f51905f525416175f516020614cea5f395f51905f525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f516020614d0a5f395f51905f525416175f516020614d0a5f395f51905f5255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f516020614cca5f395f51905f525416175f516020614cca5f395f51905f5255604051614afe90816101cc8239f35b5f80fd5b60405190608082016001600160401b038111838210176101b757604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063066c9e771461293257806307063262146128c25780631b7dbe8f1461283c578063227b54581461215f5780632dd10aa914612044578063390a62db14611e195780633d27565514611d7657806343ac5ab714611d5b57806365ca181e14611bb85780636ed609de146118fe5780636f7532eb146118d45780636fdc3d19146114bf5780636fec7207146111325780638675c267146111145780638e2961c1146110e55780638e6c98b3146110ad578063970e9b1614611006578063980e6fc314610f515780639ba3e57e14610e62578063a225976114610db1578063a5f626e114610c89578063ab9265df14610b1f578063b21b6a83146107cb578063b3b5c18e146105bc578063b6fbc9b6146104a8578063bdd827d314610463578063d764269f14610448578063da1f12ab1461042c578063e3365a0f146103d7578063e95c22d0146102e6578063eb9721b8146102635763f4cfe75c14610179575f80fd5b3461025f57602036600319011261025f5760043561019a6003548210612d24565b6101a381612b75565b5060ff60036006830154926101b9841515612f87565b01541680610247575b6101cb90612cd8565b4210610202576101da81613051565b33907f8c1a7beeeb2441caad216106f2d200d9910d48441b31d15cfe6c2ae753d031945f80a3005b60405162461bcd60e51b815260206004820152601860248201527f52656c656173652074696d65206e6f74207265616368656400000000000000006044820152606490fd5b505f8281526005602052604090205460ff16156101c2565b5f80fd5b3461025f57604036600319011261025f5760043560243567ffffffffffffffff811161025f576102e4916102b36102a16102b99336906004016129e4565b6102ac841515612e3c565b3691612b0b565b906148dd565b6102c33082614648565b6102cd3382614648565b604051906102dc602083612acd565b5f8252613819565b005b3461025f576102ff6102f736612b5f565b819291613478565b61030a839293613a5a565b508083156103c7575b156103b5575b60209060646001600160a01b035f516020614ab25f395f51905f525416945f6040519687948593630d8c635960e21b8552600485015260248401528160448401525af19081156103aa575f91610374575b6102e4925061407b565b90506020823d6020116103a2575b8161038f60209383612acd565b8101031261025f576102e491519061036a565b3d9150610382565b6040513d5f823e3d90fd5b5060206103c06149c6565b9050610319565b92506103d16149c6565b92610313565b3461025f57604036600319011261025f576103f0612985565b6001600160a01b0360243591165f52600460205260405f20805482101561025f5760209161041d91612cc3565b90549060031b1c604051908152f35b3461025f575f36600319011261025f5760206040516127118152f35b3461025f575f36600319011261025f57602060405160408152f35b3461025f57604036600319011261025f5761047c61299b565b6004355f5260016020526001600160a01b0360405f2091165f52602052602060405f2054604051908152f35b3461025f576104b636612b5f565b60066104c183612fd3565b0180546104cf811515612f87565b835f5260056020526104e860ff60405f20541615612cd8565b804210156105775782111561052757817fdb5e6eeea5eaa0aceae8c37cf285254e769624a7a1c6c53ff5fd0b9742adfac29260209255604051908152a2005b60405162461bcd60e51b815260206004820152602260248201527f52656c656173652074696d652063616e206f6e6c79206d6f766520666f7277616044820152611c9960f21b6064820152608490fd5b60405162461bcd60e51b815260206004820152601360248201527f52656c656173652074696d6520706173736564000000000000000000000000006044820152606490fd5b3461025f57606036600319011261025f576004356105d861299b565b906044356105e582612fd3565b6001600160a01b03841693841515806107c1575b1561077c57610609428411612ed4565b835f52600160205260405f20855f5260205260405f20541561066b575b505060207f2160821a553a153ec5d03af9756fff93ee185f8def4adc9e1ec71cda2ec0fc5f91835f526001825260405f20855f5282528060405f2055604051908152a3005b9091835f525f602052600a60405f2054101561073757835f525f60205260405f2091825490600160401b821015610723577f2160821a553a153ec5d03af9756fff93ee185f8def4adc9e1ec71cda2ec0fc5f946106f6826106d785602098600161071d98018155612cc3565b9091906001600160a01b038084549260031b9316831b921b1916179055565b875f526002855261070a8760405f20612e16565b60ff600382015460081c169054906141ee565b91610626565b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260206004820152601160248201527f546f6f206d616e79206772616e746565730000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201527f496e76616c6964206772616e74656500000000000000000000000000000000006044820152606490fd5b50338514156105f9565b3461025f5760a036600319011261025f576107e4612985565b60243590604435908115918215810361025f5791608435926001600160a01b035f93165f52600460205260405f209081549261081f84612d88565b965f928115918215945b878110610a4f578a8a8a61083f60643583612f7a565b818111610a48575b8281811015610a3f5761085991612dce565b915b61086483612d88565b9261086e81612d70565b61087b6040519182612acd565b81815261088782612d70565b602082019290601f190136843761089d81612d70565b966108ab6040519889612acd565b818852601f196108ba83612d70565b015f5b818110610a2e5750506108cf82612d88565b94875f5b8a8582106109aa5750505050505060206108f86040519660a0885260a08801906129b1565b918683038288015251918281520191905f5b818110610989575050508381036040850152845180825260208201916020808360051b8301019701925f915b83831061095c578780886109528c8a84820360608601526129b1565b9060808301520390f35b909192939760208061097a600193601f198682030187528c51612c87565b9a019301930191939290610936565b909192602080600192865161099d81612c7d565b815201940192910161090a565b600192610a18836005936109c76109c1838a612f7a565b8a612dba565b516109dc836109d583612b75565b5096612dba565b5260ff600385015460081c166109f2838d612dba565b6109fb82612c7d565b52610a0860048501612bdd565b610a128383612dba565b52612dba565b500154610a25828a612dba565b520188906108d3565b806060602080938d010152016108bd565b50505f9161085b565b5080610847565b8a8686610a6b610a5f858c612cc3565b90549060031b1c612b75565b508792610adb575b8691610aca575b5081610ac2575b50610a90575b50600101610829565b9890600191610ab9610aa2838b612cc3565b90549060031b1c91610ab381612f6c565b9c612dba565b5290508a610a87565b90508d610a81565b610ad4915061427d565b158e610a7a565b600381015460081c60ff1693509150610af5905082612c7d565b60018201809211610b0b5786848e931491610a73565b634e487b7160e01b5f52601160045260245ffd5b3461025f57606036600319011261025f57600435801590811580910361025f576044355f9260075490610b5182612d88565b935f5b838110610c315750505050610b6b60243582612f7a565b838111610c2a575b8181811015610c2257610b8591612dce565b610b8e81612d88565b92610b9882612d88565b925f5b838110610bd757610bbf8688610bcd886040519485946060865260608601906129b1565b9084820360208601526129b1565b9060408301520390f35b80610bed610be760019385612f7a565b85612dba565b51610bf88289612dba565b526006610c0e610c08838a612dba565b51612b75565b500154610c1b8288612dba565b5201610b9b565b50505f610b85565b5082610b73565b80610c3d600192612cab565b90549060031b1c838590610c72575b610c58575b5001610b54565b610c6b610c648a612f6c565b9989612dba565b5288610c51565b506006610c7e82612b75565b500154421015610c4c565b3461025f57610cd7610cd1610c9d36612a12565b610caa8495929694613a5a565b9560ff610cc46003890198828a5460081c16905490613af7565b975460081c169384613b40565b90613af7565b610ce183826135e8565b8184928515610da1575b15610d8f575b60209060646001600160a01b035f516020614ab25f395f51905f525416945f60405196879485936303056db360e31b8552600485015260248401528160448401525af19182156103aa575f92610d57575b5092610d51916102e49461470b565b9061407b565b9150926020823d602011610d87575b81610d7360209383612acd565b8101031261025f57905190926102e4610d42565b3d9150610d66565b506020610d9a6149c6565b9050610cf1565b9250610dab6149c6565b92610ceb565b3461025f57602036600319011261025f5760043560035481101561025f57610dd890612b75565b5080546001600160a01b03600183015416916002810154610e53600383015460ff8160081c1660ff610e0c60048701612bdd565b926006600588015497015495604051998a998a5260208a015260408901521615156060870152610e3b81612c7d565b608086015261010060a0860152610100850190612c87565b9160c084015260e08301520390f35b3461025f57602036600319011261025f57610e7b612985565b6001600160a01b0381165f52600260205260405f20905f905f918354925b838110610f225750610eaa90612d88565b925f915f5b848110610ed05760405160208082528190610ecc908201896129b1565b0390f35b80610eed83610ee160019487612cc3565b90549060031b1c614296565b610ef8575b01610eaf565b610f028185612cc3565b90549060031b1c610f1c610f1587612f6c565b9689612dba565b52610ef2565b610f3083610ee18388612cc3565b610f3d575b600101610e99565b90610f49600191612f6c565b919050610f35565b3461025f57602036600319011261025f57600435610f726003548210612d24565b610f7b81612b75565b50905f52600160205260405f206001600160a01b0333165f5260205260405f2054421015610fc15780610fb8610fb260209361427d565b15612f20565b54604051908152f35b60405162461bcd60e51b815260206004820152601360248201527f4e6f7420736861726564207769746820796f75000000000000000000000000006044820152606490fd5b3461025f576110176102f736612b5f565b611022839293613a5a565b5080831561109d575b1561108b575b60209060646001600160a01b035f516020614ab25f395f51905f525416945f60405196879485936304559f7160e01b8552600485015260248401528160448401525af19081156103aa575f91610374576102e4925061407b565b5060206110966149c6565b9050611031565b92506110a76149c6565b9261102b565b3461025f57602036600319011261025f576001600160a01b036110ce612985565b165f526004602052602060405f2054604051908152f35b3461025f57602036600319011261025f576004355f526005602052602060ff60405f2054166040519015158152f35b3461025f57602036600319011261025f576020610fb8600435612fd3565b3461025f5761114036612a49565b9490939261114f821515612e3c565b61115c6040861115612e88565b4286111561146f57611189936111729288613b40565b9261117e3085886141ee565b6102ac3385886141ee565b92600354916040519061119b82612ab0565b81526020810191338352604082019042825260608301906001825260808401906111c481612c7d565b815260a0840197885260c08401925f845260e08501945f8652600160401b88101561072357600188016003556111f988612b75565b97909761145c576001600160a01b039151885551166001600160a01b036001880191166001600160a01b031982541617905551600286015561124e6003860192511515839060ff801983541691151516179055565b5161125881612c7d565b61126181612c7d565b61ff0082549160081b169061ff00191617905560048301955195865167ffffffffffffffff8111610723576112968254612ba5565b601f8111611417575b506020601f82116001146113b05781906006969798995f926113a5575b50508160011b915f199060031b1c19161790555b51600584015551910155335f5260046020526112ef8160405f20612e16565b33817f6780c206d7f9b84380d83af1f788410ca704e0950ff2f78b1ada794f5fd9b1925f80a381600661132183612b75565b500155600754600160401b811015610723577fdb5e6eeea5eaa0aceae8c37cf285254e769624a7a1c6c53ff5fd0b9742adfac2602080948461138561136f8660018498016007556007612cc3565b819391549060031b91821b915f19901b19161790565b9055600754845f526008835260405f2055604051908152a2604051908152f35b0151905089806112bc565b601f19821698835f52815f20995f5b8181106113ff57509160069798999a918460019594106113e7575b505050811b0190556112d0565b01515f1960f88460031b161c191690558980806113da565b838301518c556001909b019a602093840193016113bf565b825f5260205f20601f830160051c81019160208410611452575b601f0160051c01905b818110611447575061129f565b5f815560010161143a565b9091508190611431565b634e487b7160e01b5f525f60045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f52656c656173652074696d65206d75737420626520696e207468652066757475604482015261726560f01b6064820152608490fd5b3461025f57606036600319011261025f5760043560243567ffffffffffffffff811161025f576114f3903690600401612b41565b9060443567ffffffffffffffff811161025f57611514903690600401612b41565b815f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f2054156118c557815f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f2090604051808360208295549384815201905f5260205f20925f5b8181106118ac57505061159f92500383612acd565b835191826020019283602011610b0b57604001809311610b0b57602092611657926116455f86946115f186808c60405198818a92519d8e91019d8e8585015e8201908382015203018088520186612acd565b6116696001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b87526060600488015260648701906129b1565b85810360031901602487015290612c87565b83810360031901604485015290612c87565b03925af19081156103aa575f91611871575b50156118625760405191807f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2805f52600960205260405f2054928315611820575060208451036117db575f5260096020525f60408120555f198201918211610b0b576116e982612b75565b5090825f52600560205260ff60405f205416806117cd575b15611788576020600383019460ff19865416865580518101031261025f577faa46143e30425694e136dd4700d60180fdf609deb7674d1a2b6341f917805cf99160ff6001600160a01b0360016040945193875f52600660205284865f2055015416955460081c169082519161177581612c7d565b82526020820152a3602060405160018152f35b60405162461bcd60e51b815260206004820152601e60248201527f456e747279206e6f74206177616974696e67207075626c69636174696f6e00006044820152606490fd5b5060ff600383015416611701565b60405162461bcd60e51b815260206004820152601960248201527f496e76616c696420636c6561727465787473206c656e677468000000000000006044820152606490fd5b62461bcd60e51b815260206004820152601960248201527f556e6b6e6f776e207661756c74207075626c69636174696f6e000000000000006044820152606490fd5b63cf6c44e960e01b5f5260045ffd5b90506020813d6020116118a4575b8161188c60209383612acd565b8101031261025f5751801515810361025f578461167b565b3d915061187f565b845483526001948501948794506020909301920161158a565b63d66ca67560e01b5f5260045ffd5b3461025f57602036600319011261025f576004355f526006602052602060405f2054604051908152f35b3461025f5761196261194b61191236612a49565b979461192681989493959297981515612e3c565b6119336040881115612e88565b88158015611baf575b61194590612ed4565b87613b40565b926119573085876141ee565b6102ac3385876141ee565b91600354916040519061197482612ab0565b815260208101913383526040820190428252606083019160018352608084019161199d81612c7d565b825260a0840196875260c0840197885260e08401935f8552600160401b87101561072357600187016003556119d187612b75565b96909661145c576001600160a01b039151875551166001600160a01b036001870191166001600160a01b0319825416179055516002850155611a266003850192511515839060ff801983541691151516179055565b51611a3081612c7d565b611a3981612c7d565b61ff0082549160081b169061ff0019161790556004820193519485519467ffffffffffffffff861161072357611a6f8154612ba5565b96601f8811611b6a575b602097508790601f8811600114611b045796809160069697985f92611af9575b50508160011b915f199060031b1c19161790555b51600584015551910155335f5260048252611acb8160405f20612e16565b33817f6780c206d7f9b84380d83af1f788410ca704e0950ff2f78b1ada794f5fd9b1925f80a3604051908152f35b015190508980611a99565b90601f19881691835f52815f20925f5b818110611b53575091600193918a6006999a9b9410611b3b575b505050811b019055611aad565b01515f1960f88460031b161c19169055898080611b2e565b92938b600181928786015181550195019301611b14565b815f5260205f20601f880160051c81019860208910611ba5575b601f0160051c01975b888110611b9a5750611a79565b5f8155600101611b8d565b9098508890611b84565b5042891161193c565b3461025f57604036600319011261025f576004356001600160a01b03611bdc61299b565b16908115611d16576001611bef82612fd3565b016001600160a01b0381541690836001600160a01b0319825416179055815f525f60205260405f20925b83548015611c54575f198101908111610b0b576001600160a01b03611c41611c4f9287612cc3565b90549060031b1c16846140d9565b611c19565b509250611c6082613402565b50805f52600460205260405f20915f5b835480821015611d0c5782611c858387612cc3565b90549060031b1c14611c9a5750600101611c70565b919293905f198301928311610b0b57611cca61136f611cbc611cd19585612cc3565b90549060031b1c9284612cc3565b9055612ddb565b825f526004602052611ce68160405f20612e16565b7f545af22c96b6e9a34829191a205d417cd75bddc4b97d6043ceae3f6ec2d9d5245f80a4005b5050909150611cd1565b60405162461bcd60e51b815260206004820152601f60248201527f43616e6e6f74207472616e7366657220746f207a65726f2061646472657373006044820152606490fd5b3461025f575f36600319011261025f576020604051600a8152f35b3461025f57604036600319011261025f57600435611d9261299b565b90611d9c81612fd3565b50805f52600160205260405f206001600160a01b0383165f5260205260405f205415611dd457611dcf6102e492826140d9565b613402565b60405162461bcd60e51b815260206004820152601c60248201527f4e6f7420736861726564207769746820746869732061646472657373000000006044820152606490fd5b3461025f575f6020611e68611e2d36612a12565b929491610cd1611e3f87969396613a5a565b94611e58600387019660ff885460081c16905490613af7565b9660ff875460081c169384613b40565b83908415612034575b8015612026575b5f516020614ab25f395f51905f525460405163022f65e760e31b8152600480820194909452848101909301919091527fff00000000000000000000000000000000000000000000000000000000000000871660448301529095869160649183916001600160a01b03165af19384156103aa575f94611ff1575b505460081c60ff16611f0281612c7d565b60048103611f2257508083611f1d610d51936102e496613534565b61470b565b611f2b90614027565b83908415611fdd575b5f516020614ab25f395f51905f5254604051631d44e90160e21b8152600481019390935267ffffffffffffffff9091166024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156103aa575f91611fa7575b506102e493610d51929161470b565b9190506020823d602011611fd5575b81611fc360209383612acd565b8101031261025f5790516102e4611f98565b3d9150611fb6565b90506020611fe96149c6565b919050611f34565b9093506020813d60201161201e575b8161200d60209383612acd565b8101031261025f57519260ff611ef1565b3d9150612000565b5061202f6149c6565b611e78565b905061203e6149c6565b90611e71565b3461025f57602036600319011261025f57600435805f525f60205260405f2090604051808160208554928381520180955f5260205f20925f5b81811061213d57505061209292500382612acd565b61209c8151612d88565b905f5b81518110156120e757600190845f528160205260405f206001600160a01b03806120c98487612dba565b5116165f5260205260405f20546120e08286612dba565b520161209f565b50915060405191604083019060408452518091526060830193905f5b81811061211e578480610ecc888783820360208501526129b1565b82516001600160a01b0316865260209586019590920191600101612103565b84546001600160a01b031683526001948501948694506020909301920161207d565b3461025f57606036600319011261025f57604435602435600435600683101561025f5761218c8282613478565b61219585612c7d565b8461261857808215612608575b156125f6575b60209060646001600160a01b035f516020614ab25f395f51905f525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af19081156103aa575f916125c4575b50915b6122063084614648565b6122103384614648565b6040519060c082019482861067ffffffffffffffff871117610723576001602060029360218261231061236e98829c6040526122fb60409b8c61225581519182612acd565b8b8152613d3d60f01b8682015283528c516122708e82612acd565b8b815261213d60f01b86820152838601528c5161228d8e82612acd565b898152600f60fa1b86820152838e01528c516122a98e82612acd565b8b8152613c3d60f01b8682015260608401528c516122c78e82612acd565b898152601f60f91b8682015260808401528c516122e48e82612acd565b8b8152613e3d60f01b8682015260a0840152613695565b9761230581612c7d565b60051b015193613695565b9289519b8c97602360f81b828a0152805191829101858a015e870190600160fd1b84830152805192839101602283015e01019061202360f01b84830152805192839101600383015e01015f838201520301601f198101855284612acd565b6003549181519061237e82612ab0565b8152336020820190815242838301908152600160608401908152919291608083015f815260a0840197885260c08401925f845260e08501945f8652600160401b89101561072357600189016003556123d589612b75565b97909761145c576001600160a01b039151885551166001600160a01b036001880191166001600160a01b031982541617905551600286015561242a6003860192511515839060ff801983541691151516179055565b5161243481612c7d565b61243d81612c7d565b61ff0082549160081b169061ff00191617905560048301955195865167ffffffffffffffff8111610723576124728254612ba5565b97601f891161256b575b602098508890601f831160011461250457600695949392915f91836124f9575b50508160011b915f199060031b1c19161790555b51600584015551910155335f52600483526124cd82825f20612e16565b33827f6780c206d7f9b84380d83af1f788410ca704e0950ff2f78b1ada794f5fd9b1925f80a351908152f35b015190508a8061249c565b90601f19831691845f52815f20925f5b8181106125545750916001939185600699989796941061253c575b505050811b0190556124b0565b01515f1960f88460031b161c191690558a808061252f565b92938c600181928786015181550195019301612514565b825f5260205f20601f830160051c810199602084106125a6575b601f0160051c01985b89811061259b575061247c565b5f815560010161258e565b9099508990612585565b634e487b7160e01b5f52602160045260245ffd5b90506020813d6020116125ee575b816125df60209383612acd565b8101031261025f5751846121f9565b3d91506125d2565b5060206126016149c6565b90506121a8565b91506126126149c6565b916121a2565b61262185612c7d565b600185036126e3578082156126d3575b156126c1575b60209060646001600160a01b035f516020614ab25f395f51905f525416935f60405195869485936336024b2f60e21b8552600485015260248401528160448401525af19081156103aa575f9161268f575b50916121fc565b90506020813d6020116126b9575b816126aa60209383612acd565b8101031261025f575184612688565b3d915061269d565b5060206126cc6149c6565b9050612637565b91506126dd6149c6565b91612631565b6126ec85612c7d565b6002850361277b5780821561276b575b15612759575b60209060646001600160a01b035f516020614ab25f395f51905f525416935f6040519586948593637210768160e01b8552600485015260248401528160448401525af19081156103aa575f9161268f5750916121fc565b5060206127646149c6565b9050612702565b91506127756149c6565b916126fc565b61278485612c7d565b6003850361279b57612795916135e8565b916121fc565b6127a485612c7d565b6004850361283357808215612823575b15612811575b60209060646001600160a01b035f516020614ab25f395f51905f525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af19081156103aa575f9161268f5750916121fc565b50602061281c6149c6565b90506127ba565b915061282d6149c6565b916127b4565b61279591613534565b3461025f57602036600319011261025f576001600160a01b0361285d612985565b165f52600460205260405f206040519081602082549182815201915f5260205f20905f5b8181106128ac57610ecc8561289881870382612acd565b6040519182916020835260208301906129b1565b8254845260209093019260019283019201612881565b3461025f57602036600319011261025f576128e6600435611dcf6003548210612d24565b156128ed57005b60405162461bcd60e51b815260206004820152601160248201527f4e6f2065787069726564207368617265730000000000000000000000000000006044820152606490fd5b3461025f57602036600319011261025f576102e460043560ff600361295683612fd3565b0154168061296d575b61296890612cd8565b613051565b505f8181526005602052604090205460ff161561295f565b600435906001600160a01b038216820361025f57565b602435906001600160a01b038216820361025f57565b90602080835192838152019201905f5b8181106129ce5750505090565b82518452602093840193909201916001016129c1565b9181601f8401121561025f5782359167ffffffffffffffff831161025f576020838186019501011161025f57565b606060031982011261025f5760043591602435916044359067ffffffffffffffff821161025f57612a45916004016129e4565b9091565b60a060031982011261025f57600435600681101561025f57916024359160443567ffffffffffffffff811161025f5781612a85916004016129e4565b929092916064359067ffffffffffffffff821161025f57612aa8916004016129e4565b909160843590565b610100810190811067ffffffffffffffff82111761072357604052565b90601f8019910116810190811067ffffffffffffffff82111761072357604052565b67ffffffffffffffff811161072357601f01601f191660200190565b929192612b1782612aef565b91612b256040519384612acd565b82948184528183011161025f578281602093845f960137010152565b9080601f8301121561025f57816020612b5c93359101612b0b565b90565b604090600319011261025f576004359060243590565b600354811015612b915760035f52600760205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b90600182811c92168015612bd3575b6020831014612bbf57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691612bb4565b9060405191825f825492612bf084612ba5565b8084529360018116908115612c5b5750600114612c17575b50612c1592500383612acd565b565b90505f9291925260205f20905f915b818310612c3f575050906020612c15928201015f612c08565b6020919350806001915483858901015201910190918492612c26565b905060209250612c1594915060ff191682840152151560051b8201015f612c08565b600611156125b057565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b600754811015612b915760075f5260205f2001905f90565b8054821015612b91575f5260205f2001905f90565b15612cdf57565b60405162461bcd60e51b815260206004820152601760248201527f56616c756520616c7265616479207075626c69736865640000000000000000006044820152606490fd5b15612d2b57565b60405162461bcd60e51b815260206004820152601660248201527f53746f7261676520646f6573206e6f74206578697374000000000000000000006044820152606490fd5b67ffffffffffffffff81116107235760051b60200190565b90612d9282612d70565b612d9f6040519182612acd565b8281528092612db0601f1991612d70565b0190602036910137565b8051821015612b915760209160051b010190565b91908203918211610b0b57565b80548015612e02575f190190612df18282612cc3565b8154905f199060031b1b1916905555565b634e487b7160e01b5f52603160045260245ffd5b805490600160401b821015610723578161136f916001612e3894018155612cc3565b9055565b15612e4357565b60405162461bcd60e51b815260206004820152601460248201527f56616c75652063616e6e6f74206265207a65726f0000000000000000000000006044820152606490fd5b15612e8f57565b60405162461bcd60e51b815260206004820152600e60248201527f4c6162656c20746f6f206c6f6e670000000000000000000000000000000000006044820152606490fd5b15612edb57565b60405162461bcd60e51b815260206004820152601c60248201527f457870697279206d75737420626520696e2074686520667574757265000000006044820152606490fd5b15612f2757565b60405162461bcd60e51b815260206004820152600d60248201527f456e7472792065787069726564000000000000000000000000000000000000006044820152606490fd5b5f198114610b0b5760010190565b91908201809211610b0b57565b15612f8e57565b60405162461bcd60e51b815260206004820152600f60248201527f4e6f742074696d652d6c6f636b656400000000000000000000000000000000006044820152606490fd5b612fe990612fe46003548210612d24565b612b75565b5090816001600160a01b03600182015416330361300c57610fb2612c159161427d565b60405162461bcd60e51b815260206004820152600d60248201527f4e6f7420746865206f776e6572000000000000000000000000000000000000006044820152606490fd5b5f9060409081516130628382612acd565b6001815260208101601f19840136823761307b83612b75565b5054825115612b915781527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054916001600160a01b035f516020614ad25f395f51905f525416803b1561025f575f86518092637d6e912360e11b8252602060048301528183816130ee60248201896129b1565b03925af180156133f8576133e3575b506001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156133df578686518092633263b83b60e01b82528660048301526060602483015281838161315c60648201896129b1565b636fdc3d1960e01b604483015203925af180156133d5579087916133bc575b508390527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01602052848620546133ad578286527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205284862090519167ffffffffffffffff831161339957600160401b8311613399578154838355808410613373575b5090865260208620865b83811061335f575050505061323e7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054612f6c565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055600182019081831161334b5784526009602052828420558083526005602052818320600160ff19825416179055808352600860205281832054806132a5575b50505050565b6007545f19810190811161334b576132bc90612cab565b90549060031b1c5f198201828111613337576132db61136f8392612cab565b905584526008602052828420556007548015613323575f19016132ff816007612cc3565b8154905f199060031b1b19169055600755825260086020528120555f80808061329f565b634e487b7160e01b84526031600452602484fd5b634e487b7160e01b86526011600452602486fd5b634e487b7160e01b85526011600452602485fd5b600190602084519401938184015501613209565b828852836020892091820191015b81811061338e57506131ff565b888155600101613381565b634e487b7160e01b87526041600452602487fd5b633f06d22b60e01b8652600486fd5b816133c691612acd565b6133d157855f61317b565b8580fd5b86513d89823e3d90fd5b8680fd5b6133f09196505f90612acd565b5f945f6130fd565b86513d5f823e3d90fd5b612b5c9061342661341282612b75565b5060ff600382015460081c169054906142db565b9061452a565b1561343357565b60405162461bcd60e51b815260206004820152601260248201527f4e6f742061206e756d62657220656e74727900000000000000000000000000006044820152606490fd5b61348761348d91939293612fd3565b92612fd3565b9160ff600382015460081c16926134ab6134a685614620565b61342c565b60038101938060ff865460081c166134c282612c7d565b6134cb81612c7d565b036134ef576134e160ff91612b5c945490613af7565b945460081c16905490613af7565b60405162461bcd60e51b815260206004820152601260248201527f456e7472792074797065732064696666657200000000000000000000000000006044820152606490fd5b9081156135d8575b80156135c6575b60209060646001600160a01b035f516020614ab25f395f51905f525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af19081156103aa575f91613597575090565b90506020813d6020116135be575b816135b260209383612acd565b8101031261025f575190565b3d91506135a5565b5060206135d16149c6565b9050613543565b90506135e26149c6565b9061353c565b6020905f928115613685575b8015613677575b5f516020614ab25f395f51905f5254604051631d44e90160e21b8152600480820194909452848101909301919091527fff00000000000000000000000000000000000000000000000000000000000000841660448301529092839160649183916001600160a01b03165af19081156103aa575f91613597575090565b506136806149c6565b6135fb565b905061368f6149c6565b906135f4565b805f917a184f03e93ff9f4daa797ed6e38ed64bf6a1f0100000000000000008210156137f1575b806d04ee2d6d415b85acef8100000000600a9210156137d6575b662386f26fc100008110156137c2575b6305f5e1008110156137b1575b6127108110156137a2575b6064811015613794575b1015613789575b600a6021600184019361372185612aef565b9461372f6040519687612acd565b80865261373e601f1991612aef565b013660208701378401015b5f1901917f30313233343536373839616263646566000000000000000000000000000000008282061a835304801561378457600a9091613749565b505090565b60019091019061370f565b606460029104930192613708565b612710600491049301926136fe565b6305f5e100600891049301926136f3565b662386f26fc10000601091049301926136e6565b6d04ee2d6d415b85acef8100000000602091049301926136d6565b50604091507a184f03e93ff9f4daa797ed6e38ed64bf6a1f01000000000000000081046136bc565b9091600354916040519061382c82612ab0565b815233602082019081524260408301908152600160608401908152919291608083016003815260a0840197885260c08401925f845260e08501945f8652600160401b891015610723576001890160035561388589612b75565b97909761145c576001600160a01b039151885551166001600160a01b036001880191166001600160a01b03198254161790555160028601556138da6003860192511515839060ff801983541691151516179055565b516138e481612c7d565b6138ed81612c7d565b61ff0082549160081b169061ff00191617905560048301955195865167ffffffffffffffff8111610723576139228254612ba5565b601f8111613a15575b506020601f82116001146139ae5781906006969798995f926139a3575b50508160011b915f199060031b1c19161790555b51600584015551910155335f52600460205261397b8260405f20612e16565b33827f6780c206d7f9b84380d83af1f788410ca704e0950ff2f78b1ada794f5fd9b1925f80a3565b015190505f80613948565b601f19821698835f52815f20995f5b8181106139fd57509160069798999a918460019594106139e5575b505050811b01905561395c565b01515f1960f88460031b161c191690555f80806139d8565b838301518c556001909b019a602093840193016139bd565b825f5260205f20601f830160051c81019160208410613a50575b601f0160051c01905b818110613a45575061392b565b5f8155600101613a38565b9091508190613a2f565b90613a6482612fd3565b9160ff6003840154613a7d6134a6838360081c16614620565b1680613ade575b613a8e9150612cd8565b6006820154613a9957565b60405162461bcd60e51b815260206004820152601460248201527f456e7472792069732074696d652d6c6f636b65640000000000000000000000006044820152606490fd5b505f526005602052613a8e60ff60405f20541615613a84565b613b0081612c7d565b60018114613b3657613b1181612c7d565b60028114613b3657600390613b2581612c7d565b14613b2d5790565b612b5c90614a62565b50612b5c90614a62565b9190925f92613b4e81612c7d565b80613c8f575092613b66602092613bb0953691612b0b565b906001600160a01b035f516020614ab25f395f51905f525416908460405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190612c87565b613bbd60648301846148d0565b03925af1918215613c82578192613c4e575b506001600160a01b035f516020614ad25f395f51905f525416803b15613c4a57604051630f8e573b60e21b8152600481018490523360248201529082908290818381604481015b03925af18015613c3f57613c2957505090565b613c34828092612acd565b613c3c575090565b80fd5b6040513d84823e3d90fd5b5080fd5b9091506020813d602011613c7a575b81613c6a60209383612acd565b8101031261025f5751905f613bcf565b3d9150613c5d565b50604051903d90823e3d90fd5b613c9881612c7d565b60018103613d5e575090613cad913691612b0b565b613cf36001600160a01b035f516020614ab25f395f51905f525416916040519463196d0b9b60e01b86526004860152336024860152608060448601526084850190612c87565b60209184848180946002606483015203925af1918215613c82578192613c4e57506001600160a01b035f516020614ad25f395f51905f525416803b15613c4a57604051630f8e573b60e21b815260048101849052336024820152908290829081838160448101613c16565b613d6781612c7d565b60028103613e2d575090613d7c913691612b0b565b613dc26001600160a01b035f516020614ab25f395f51905f525416916040519463196d0b9b60e01b86526004860152336024860152608060448601526084850190612c87565b60209184848180946003606483015203925af1918215613c82578192613c4e57506001600160a01b035f516020614ad25f395f51905f525416803b15613c4a57604051630f8e573b60e21b815260048101849052336024820152908290829081838160448101613c16565b9392613e3885612c7d565b60038503613e525750612b5c9350906102b3913691612b0b565b9293600490613e6081612c7d565b03613f225790613e71913691612b0b565b613eb76001600160a01b035f516020614ab25f395f51905f525416916040519463196d0b9b60e01b86526004860152336024860152608060448601526084850190612c87565b60209184848180946005606483015203925af1918215613c82578192613c4e57506001600160a01b035f516020614ad25f395f51905f525416803b15613c4a57604051630f8e573b60e21b815260048101849052336024820152908290829081838160448101613c16565b613f2e92503691612b0b565b613f746001600160a01b035f516020614ab25f395f51905f525416916040519363196d0b9b60e01b85526004850152336024850152608060448501526084840190612c87565b602091835f8180946007606483015203925af19081156103aa575f91613ff5575b506001600160a01b035f516020614ad25f395f51905f525416803b1561025f57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156103aa57613feb575090565b5f612b5c91612acd565b90506020813d60201161401f575b8161401060209383612acd565b8101031261025f57515f613f95565b3d9150614003565b61403081612c7d565b600181146140755761404181612c7d565b6002811461406e5760039061405581612c7d565b146140665767ffffffffffffffff90565b63ffffffff90565b5061ffff90565b5060ff90565b9060016001600160a01b03916140ae6140a861409686612b75565b509260ff600385015460081c1661475e565b8561452a565b50015416907f654ef6957b62d43279d555d9bee4d4339e554aa5f08592065345acc5cce4763c5f80a3565b805f525f60205260405f205f5b8154808210156141dc576001600160a01b036141028385612cc3565b90549060031b1c166001600160a01b0386161461412257506001016140e6565b929391925f19810191908211610b0b576106d76001600160a01b0361414a6141599487612cc3565b90549060031b1c169185612cc3565b8154918215612e02576001600160a01b03925f1901906141798282612cc3565b8582549160031b1b19169055555b1690815f52600260205261419e8160405f20614883565b805f52600160205260405f20825f526020525f60408120557f25c01dc59580cb07cbc41fdbf5761027094d2a086665c8204a82a0235f58937a5f80a3565b505050906001600160a01b0390614187565b9190916141fa81612c7d565b806142095750612c1591614648565b61421281612c7d565b600181036142245750612c1591614648565b61422d81612c7d565b6002810361423f5750612c1591614648565b61424881612c7d565b6003810361425a5750612c1591614648565b60049061426681612c7d565b0361427457612c1591614648565b612c1591614648565b60050154801515908161428e575090565b905042101590565b90815f5260016020526001600160a01b0360405f2091165f5260205260405f2054421090816142c3575090565b6142d791506142d190612b75565b5061427d565b1590565b6142e481612c7d565b806143635750801561434e575b5f516020614ab25f395f51905f525460405163d99882d560e01b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156103aa575f91613597575090565b505f602061435b82614a14565b9150506142f1565b61436c81612c7d565b6001810361440b57508015614385575b612b5c906146b3565b505f516020614ab25f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600260248401525af180156103aa575f906143d7575b905061437c565b506020813d602011614403575b816143f160209383612acd565b8101031261025f57612b5c90516143d0565b3d91506143e4565b61441481612c7d565b6002810361447d5750801561442c57612b5c906146b3565b505f516020614ab25f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600360248401525af180156103aa575f906143d757905061437c565b61448681612c7d565b600381036144ef5750801561449e57612b5c906146b3565b505f516020614ab25f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600460248401525af180156103aa575f906143d757905061437c565b6004906144fb81612c7d565b0361451b57801561450f57612b5c906146b3565b50612b5c6143d06149c6565b80612b5c91611f1d6001614a14565b91905f9261453781612b75565b50906003820161455060ff825460081c168530916141ee565b61457060ff825460081c16856001600160a01b03600187015416916141ee565b815f525f60205260405f2090815492835b61458c575050505055565b909192965f198801888111610b0b576145ad6001600160a01b039186612cc3565b90549060031b1c16825f52600160205260405f206001600160a01b0382165f5260205260405f2042905411155f1461460657906145ed6145f292846140d9565b612f6c565b965b8015610b0b575f190192919083614581565b61461b908760ff869b949b5460081c166141ee565b6145f4565b61462981612c7d565b8015159081614636575090565b6005915061464381612c7d565b141590565b6001600160a01b035f516020614ad25f395f51905f52541691823b1561025f57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af180156103aa576146a95750565b5f612c1591612acd565b6020600160f81b60646001600160a01b035f516020614ab25f395f51905f525416935f604051958694859363022f65e760e31b8552600485015282602485015260448401525af19081156103aa575f91613597575090565b9060646020925f6001600160a01b035f516020614ab25f395f51905f5254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156103aa575f91613597575090565b61476781612c7d565b600181146148335761477881612c7d565b600281146147e35760039061478c81612c7d565b146147945790565b5f516020614ab25f395f51905f52546040516307227b9160e21b815260048101929092526001600160a01b0316816044815f602094600460248401525af19081156103aa575f91613597575090565b505f516020614ab25f395f51905f52546040516307227b9160e21b815260048101929092526001600160a01b0316816044815f602094600360248401525af19081156103aa575f91613597575090565b505f516020614ab25f395f51905f52546040516307227b9160e21b815260048101929092526001600160a01b0316816044815f602094600260248401525af19081156103aa575f91613597575090565b905f5b82548082101561329f578261489b8386612cc3565b90549060031b1c146148b05750600101614886565b5f1981019392508311610b0b57611cca61136f611cbc612c159585612cc3565b9060548210156125b05752565b919061491c5f516020614ab25f395f51905f5254916040519463196d0b9b60e01b86526004860152336024860152608060448601526084850190612c87565b602091845f6001600160a01b03828095600460648301520393165af19182156103aa575f92614992575b50816001600160a01b035f516020614ad25f395f51905f525416803b1561025f57604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101614698565b9091506020813d6020116149be575b816149ae60209383612acd565b8101031261025f5751905f614946565b3d91506149a1565b5f516020614ab25f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600560248401525af19081156103aa575f91613597575090565b5f516020614ab25f395f51905f5254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f6020948160248401525af19081156103aa575f91613597575090565b5f516020614ab25f395f51905f52546040516307227b9160e21b815260048101929092526001600160a01b0316816044815f602094600560248401525af19081156103aa575f9161359757509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c634300081b000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700";
+
+type CryptoVaultConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CryptoVaultConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CryptoVault__factory extends ContractFactory {
+  constructor(...args: CryptoVaultConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CryptoVault & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CryptoVault__factory {
+    return super.connect(runner) as CryptoVault__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CryptoVaultInterface {
+    return new Interface(_abi) as CryptoVaultInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): CryptoVault {
+    return new Contract(address, _abi, runner) as unknown as CryptoVault;
+  }
+}
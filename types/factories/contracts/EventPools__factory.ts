@@ -0,0 +1,75 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  EventPools,
+  EventPoolsInterface,
+} from "../../contracts/EventPools";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234601b5761075990816100208239308160070152f35b5f80fdfe6080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610034575f80fd5b5f3560e01c806331bafb4f146104f8578063b29c1c7c146104d1578063bfef9fad1461037f5763ed9b106714610068575f80fd5b61037b57608036600319011261037b57600435610083610516565b606435916044359167ffffffffffffffff841161037b573660238501121561037b5783600401359067ffffffffffffffff821161037b573660248360051b8701011161037b578315610336578115158061032b575b156102e6575f92835b838510156101125761010a60019161ffff61010360248960051b8c010161073d565b169061052c565b9401936100e1565b8694506127108691036102a1576001600160a01b03600393167fffffffffffffffffffffffff00000000000000000000000000000000000000008354161782556001820155019168010000000000000000821161028d578254828455808310610233575b50602401915f5260205f208160041c915f5b8381106101e75750600f19811690038061019e57005b925f935f5b8181106101b1575050500155005b90919460206101dd6001926101c58961073d565b9085851b61ffff809160031b9316831b921b19161790565b96019291016101a3565b5f5f5b601081106101ff575083820155600101610188565b9590602061022a6001926102128561073d565b908a851b61ffff809160031b9316831b921b19161790565b920196016101ea565b835f5260205f20600f80850160041c8201920160041c0190601e8460011b1680610272575b505b8181106102675750610176565b5f815560010161025a565b5f198201908154905f199060200360031b1c16905585610258565b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260206004820152601f60248201527f5061796f757420736861726573206d7573742073756d20746f203130303030006044820152606490fd5b60405162461bcd60e51b815260206004820152601e60248201527f496e76616c6964206e756d626572206f66207061796f75742072616e6b7300006044820152606490fd5b50600a8211156100d8565b60405162461bcd60e51b815260206004820152601c60248201527f5374616b65206d7573742062652067726561746572207468616e2030000000006044820152606490fd5b5f80fd5b5061037b57606036600319011261037b57610398610516565b604435906001600160a01b03600435541680155f1461045e57505f8080936001600160a01b038294165af13d15610459573d67ffffffffffffffff811161028d5760405190601f8101601f19908116603f0116820167ffffffffffffffff81118382101761028d5760405281525f60203d92013e5b1561041457005b60405162461bcd60e51b815260206004820152601360248201527f455448207472616e73666572206661696c6564000000000000000000000000006044820152606490fd5b61040d565b916001600160a01b036040519263a9059cbb60e01b5f521660045260245260205f60448180865af19060015f51148216156104b0575b6040521561049e57005b635274afe760e01b5f5260045260245ffd5b9060018115166104c857823b15153d15161690610494565b503d5f823e3d90fd5b606036600319011261037b5760206104f060443560243560043561063a565b604051908152f35b5061037b57602036600319011261037b5760206104f060043561054d565b602435906001600160a01b038216820361037b57565b9190820180921161053957565b634e487b7160e01b5f52601160045260245ffd5b6001600160a01b036001820154916002810161056a84825461052c565b905554169081156105cf57604051906323b872dd60e01b5f52336004523060245260445260205f60648180865af19060015f51148216156105b7575b6040525f6060521561049e57505f90565b9060018115166104c857823b15153d151616906105a6565b905090565b91909180548310156105f5575f52601e60205f208360041c019260011b1690565b634e487b7160e01b5f52603260045260245ffd5b8181029291811591840414171561053957565b8115610626570490565b634e487b7160e01b5f52601260045260245ffd5b90916003820190815490818110610735575b508084101561072d575f925f5b8281106107045750600201549261068d8161068861ffff61067a89886105d4565b90549060031b1c1687610609565b61061c565b941561069b575b5050505090565b91905f925f925b8284106106c857505050508103908111610539576106bf9161052c565b5f808080610694565b909192936106fa6001916106f48561068861ffff6106e68b896105d4565b90549060031b1c168b610609565b9061052c565b94019291906106a2565b9361072660019161ffff61071888886105d4565b90549060031b1c169061052c565b9401610659565b505050505f90565b90505f61064c565b3561ffff8116810361037b579056fea164736f6c634300081b000a";
+
+type EventPoolsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: EventPoolsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class EventPools__factory extends ContractFactory {
+  constructor(...args: EventPoolsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      EventPools & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): EventPools__factory {
+    return super.connect(runner) as EventPools__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): EventPoolsInterface {
+    return new Interface(_abi) as EventPoolsInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): EventPools {
+    return new Contract(address, _abi, runner) as unknown as EventPools;
+  }
+}
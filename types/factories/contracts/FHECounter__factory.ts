@@ -80,7 +80,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561000f575f5ffd5b5061018a6100ae604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b610735806101975f395ff3fe608060405234801561000f575f5ffd5b506004361061004a575f3560e01c80635941195d1461004e578063a87d942c14610063578063da1f12ab14610078578063e055f8f914610080575b5f5ffd5b61006161005c36600461060c565b610093565b005b5f545b60405190815260200160405180910390f35b612711610066565b61006161008e36600461060c565b610100565b5f6100d38484848080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061014d92505050565b90506100e05f5482610161565b5f8190556100ed9061018f565b506100f95f543361019e565b5050505050565b5f6101408484848080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061014d92505050565b90506100e05f54826101b0565b5f61015a838360046101de565b9392505050565b5f82610173576101705f6102fe565b92505b81610184576101815f6102fe565b91505b61015a83835f610316565b5f61019a8230610411565b5090565b5f6101a98383610411565b5090919050565b5f826101c2576101bf5f6102fe565b92505b816101d3576101d05f6102fe565b91505b61015a83835f61049a565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163196d0b9b60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b039091169063196d0b9b906102579088903390899089906004016106a3565b6020604051808303815f875af1158015610273573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061029791906106fd565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b1580156102e0575f5ffd5b505af11580156102f2573d5f5f3e3d5ffd5b50505050509392505050565b5f6103108263ffffffff16600461054f565b92915050565b5f5f82156103295750600160f81b61032c565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163022f65e760e31b815260048101879052602481018690527fff00000000000000000000000000000000000000000000000000000000000000831660448201527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b03169063117b2f38906064015b6020604051808303815f875af11580156103e3573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061040791906106fd565b9695505050505050565b5f7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b15801561047f575f5ffd5b505af1158015610491573d5f5f3e3d5ffd5b50505050505050565b5f5f82156104ad5750600160f81b6104b0565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701546040516303056db360e31b815260048101879052602481018690527fff00000000000000000000000000000000000000000000000000000000000000831660448201527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b03169063182b6d98906064016103c7565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b0390911690639cd07acb906105c49087908790600401610714565b6020604051808303815f875af11580156105e0573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061060491906106fd565b949350505050565b5f5f5f6040848603121561061e575f5ffd5b83359250602084013567ffffffffffffffff81111561063b575f5ffd5b8401601f8101861361064b575f5ffd5b803567ffffffffffffffff811115610661575f5ffd5b866020828401011115610672575f5ffd5b939660209190910195509293505050565b6054811061069f57634e487b7160e01b5f52602160045260245ffd5b9052565b8481526001600160a01b0384166020820152608060408201525f8351806080840152806020860160a085015e5f60a0828501015260a0601f19601f8301168401019150506106f46060830184610683565b95945050505050565b5f6020828403121561070d575f5ffd5b5051919050565b8281526040810161015a602083018461068356fea164736f6c634300081b000a";
+  "0x608060405234610194575f6060610014610198565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060610044610198565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03195f51602061079f5f395f51905f525416175f51602061079f5f395f51905f525573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f51602061075f5f395f51905f525416175f51602061075f5f395f51905f525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f51602061077f5f395f51905f525416175f51602061077f5f395f51905f5255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f51602061073f5f395f51905f525416175f51602061073f5f395f51905f525560405161057390816101cc8239f35b5f80fd5b60405190608082016001600160401b038111838210176101b757604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c80635941195d14610196578063a87d942c1461017a578063da1f12ab1461015e5763e055f8f914610045575f80fd5b34610125576100696100636100593661024d565b92919236916102d7565b9061031d565b5f549080821561014e575b1561013c575b60209060646001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af18015610131575f906100f9575b806100eb915f5530906104e9565b6100f75f5433906104e9565b005b506020813d602011610129575b81610113602093836102a1565b81010312610125576100eb90516100dd565b5f80fd5b3d9150610106565b6040513d5f823e3d90fd5b506020610147610459565b905061007a565b9150610158610459565b91610074565b34610125575f3660031901126101255760206040516127118152f35b34610125575f3660031901126101255760205f54604051908152f35b34610125576101aa6100636100593661024d565b5f549080821561023d575b1561022b575b60209060646001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af18015610131575f906100f957806100eb915f5530906104e9565b506020610236610459565b90506101bb565b9150610247610459565b916101b5565b6040600319820112610125576004359160243567ffffffffffffffff811161012557826023820112156101255780600401359267ffffffffffffffff84116101255760248483010111610125576024019190565b90601f8019910116810190811067ffffffffffffffff8211176102c357604052565b634e487b7160e01b5f52604160045260245ffd5b92919267ffffffffffffffff82116102c35760405191610301601f8201601f1916602001846102a1565b829481845281830111610125578281602093845f960137010152565b60209182916001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416905f60a460405180978196829563196d0b9b60e01b84526004840152336024840152608060448401528051918291826084860152018484015e818101830184905260046064830152601f01601f191681010301925af1908115610131575f91610427575b506001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561012557604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156101315761041a575090565b5f610424916102a1565b90565b90506020813d602011610451575b81610442602093836102a1565b8101031261012557515f6103b1565b3d9150610435565b5f60206001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416604460405180948193639cd07acb60e01b8352816004840152600460248401525af1908115610131575f916104ba575090565b90506020813d6020116104e1575b816104d5602093836102a1565b81010312610125575190565b3d91506104c8565b6001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700541691823b1561012557604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156101315761055a5750565b5f610564916102a1565b56fea164736f6c634300081b000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700";
 
 type FHECounterConstructorParams =
   | [signer?: Signer]
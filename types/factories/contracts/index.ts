@@ -1,5 +1,13 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as mocks from "./mocks";
+export { CryptoBallAuction__factory } from "./CryptoBallAuction__factory";
+export { CryptoBallMarketplace__factory } from "./CryptoBallMarketplace__factory";
+export { CryptoBalls__factory } from "./CryptoBalls__factory";
+export { CryptoPriceFeed__factory } from "./CryptoPriceFeed__factory";
 export { CryptoPriceGuess__factory } from "./CryptoPriceGuess__factory";
+export { CryptoPriceGuessStats__factory } from "./CryptoPriceGuessStats__factory";
+export { CryptoVault__factory } from "./CryptoVault__factory";
+export { EventPools__factory } from "./EventPools__factory";
 export { FHECounter__factory } from "./FHECounter__factory";
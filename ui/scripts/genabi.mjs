@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Contract name => exported ABI constant
+const CONTRACTS = {
+  CryptoPriceGuess: "CRYPTO_PRICE_GUESS_ABI",
+  CryptoPriceGuessStats: "CRYPTO_PRICE_GUESS_STATS_ABI",
+  CryptoPriceFeed: "CRYPTO_PRICE_FEED_ABI",
+  CryptoBalls: "CRYPTO_BALLS_ABI",
+  CryptoVault: "CRYPTO_VAULT_ABI",
+  CryptoBallMarketplace: "CRYPTO_BALL_MARKETPLACE_ABI",
+  CryptoBallAuction: "CRYPTO_BALL_AUCTION_ABI",
+};
+
+// <root>/ui/scripts -> <root>
+const rootDir = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..", "..");
+
+// <root>/ui/src/abi
+const outdir = path.resolve(rootDir, "ui", "src", "abi");
+
+const line = "\n===================================================================\n";
+
+const deploymentsDir = path.join(rootDir, "deployments");
+
+if (!fs.existsSync(outdir)) {
+  fs.mkdirSync(outdir, { recursive: true });
+}
+
+// Addresses are written by deploy/deploy.ts; here we only flag deployments whose ABI no longer matches.
+function checkDeployments(CONTRACT_NAME, abiJson) {
+  if (!fs.existsSync(deploymentsDir)) {
+    return;
+  }
+
+  for (const chainName of fs.readdirSync(deploymentsDir).sort()) {
+    const chainDeploymentDir = path.join(deploymentsDir, chainName);
+    const deploymentPath = path.join(chainDeploymentDir, `${CONTRACT_NAME}.json`);
+    const chainIdPath = path.join(chainDeploymentDir, ".chainId");
+    if (!fs.existsSync(deploymentPath) || !fs.existsSync(chainIdPath)) {
+      continue;
+    }
+
+    const deployment = JSON.parse(fs.readFileSync(deploymentPath, "utf-8"));
+    const chainId = Number(fs.readFileSync(chainIdPath, "utf-8").trim());
+
+    if (JSON.stringify(deployment.abi) !== abiJson) {
+      console.warn(
+        `${line}${CONTRACT_NAME} deployed on '${chainName}' was built from an older version of the contract.\n` +
+          `Redeploy with 'npx hardhat deploy --network ${chainName}' before using the UI on chain ${chainId}.${line}`,
+      );
+    }
+  }
+}
+
+for (const [CONTRACT_NAME, exportName] of Object.entries(CONTRACTS)) {
+  const artifactPath = path.join(rootDir, "artifacts", "contracts", `${CONTRACT_NAME}.sol`, `${CONTRACT_NAME}.json`);
+
+  if (!fs.existsSync(artifactPath)) {
+    console.error(`${line}Unable to locate ${artifactPath}.\nRun 'npm run compile' in the repository root first.${line}`);
+    process.exit(1);
+  }
+
+  const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf-8"));
+  checkDeployments(CONTRACT_NAME, JSON.stringify(artifact.abi));
+
+  const tsCode = `/*
+  This file is auto-generated from artifacts/contracts/${CONTRACT_NAME}.sol/${CONTRACT_NAME}.json.
+  Command: 'npm run genabi' (in ui/)
+*/
+export const ${exportName} = ${JSON.stringify(artifact.abi, null, 2)} as const;
+`;
+
+  fs.writeFileSync(path.join(outdir, `${CONTRACT_NAME}ABI.ts`), tsCode, "utf-8");
+
+  console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}ABI.ts`)}`);
+}
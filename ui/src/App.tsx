@@ -3,6 +3,11 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Balls from "./pages/Balls";
+import Marketplace from "./pages/Marketplace";
+import Auctions from "./pages/Auctions";
+import Collections from "./pages/Collections";
+import Vault from "./pages/Vault";
 import NotFound from "./pages/NotFound";
 
 const App = () => (
@@ -12,6 +17,11 @@ const App = () => (
     <BrowserRouter>
       <Routes>
         <Route path="/" element={<Index />} />
+        <Route path="/balls" element={<Balls />} />
+        <Route path="/market" element={<Marketplace />} />
+        <Route path="/auctions" element={<Auctions />} />
+        <Route path="/collections" element={<Collections />} />
+        <Route path="/vault" element={<Vault />} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -1,14 +1,26 @@
-// Contract addresses for CryptoPriceGuess
-// Update these addresses after deployment
-
-export const CRYPTO_PRICE_GUESS_ADDRESSES: Record<number, `0x${string}`> = {
-  // Hardhat Local Network
-  31337: "0x5FbDB2315678afecb367f032d93F642f64180aa3", // Deployed to localhost
-  // Sepolia Testnet
-  11155111: "0x0000000000000000000000000000000000000000", // Update after Sepolia deployment
+import deployments from "./CryptoPriceGuessDeployments.json";
+
+// CryptoPriceGuessDeployments.json is written by deploy/deploy.ts on every
+// `npx hardhat deploy --network <name>`, one entry per chain id.
+export type CryptoPriceGuessDeployment = {
+  chainId: number;
+  chainName: string;
+  address: `0x${string}`;
+  deploymentBlock: number;
+  ballsAddress?: `0x${string}`; // CryptoBalls, the ERC-721 balls minted by this deployment
+  vaultAddress?: `0x${string}`; // CryptoVault, the encrypted personal vault
+  priceFeedAddress?: `0x${string}`; // CryptoPriceFeed, the asset registry and prices events are created for
+  statsAddress?: `0x${string}`; // CryptoPriceGuessStats, statistics and event searches
+  marketplaceAddress?: `0x${string}`; // CryptoBallMarketplace trading this deployment's balls
+  auctionAddress?: `0x${string}`; // CryptoBallAuction running sealed-bid auctions of them
 };
 
-export const getCryptoPriceGuessAddress = (chainId: number): `0x${string}` | undefined => {
-  return CRYPTO_PRICE_GUESS_ADDRESSES[chainId];
+export const CRYPTO_PRICE_GUESS_DEPLOYMENTS = deployments as Record<string, CryptoPriceGuessDeployment>;
+
+export const getCryptoPriceGuessDeployment = (chainId: number): CryptoPriceGuessDeployment | undefined => {
+  return CRYPTO_PRICE_GUESS_DEPLOYMENTS[String(chainId)];
 };
 
+export const getCryptoPriceGuessAddress = (chainId: number): `0x${string}` | undefined => {
+  return getCryptoPriceGuessDeployment(chainId)?.address;
+};
@@ -0,0 +1,254 @@
+/*
+  This file is auto-generated from artifacts/contracts/CryptoPriceGuessStats.sol/CryptoPriceGuessStats.json.
+  Command: 'npm run genabi' (in ui/)
+*/
+export const CRYPTO_PRICE_GUESS_STATS_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract CryptoPriceGuess",
+        "name": "_priceGuess",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_statusFilter",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_assetFilter",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_sortBy",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_sortOrder",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_limit",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_offset",
+        "type": "uint256"
+      }
+    ],
+    "name": "getFilteredEvents",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "eventIds",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "string[]",
+        "name": "titles",
+        "type": "string[]"
+      },
+      {
+        "internalType": "uint256[]",
+        "name": "assetIds",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "uint256[]",
+        "name": "endTimes",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "bool[]",
+        "name": "isActive",
+        "type": "bool[]"
+      },
+      {
+        "internalType": "bool[]",
+        "name": "isFinalized",
+        "type": "bool[]"
+      },
+      {
+        "internalType": "uint256[]",
+        "name": "totalPredictions",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getGlobalStatistics",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "totalEvents",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "activeEvents",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "finalizedEvents",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "totalPredictions",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "totalCryptoBalls",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "totalCollections",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_eventId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getPredictionStatistics",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "totalPredictions",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "activePredictions",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "finalizedPredictions",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "averagePredictionAge",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "uniquePredictors",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_user",
+        "type": "address"
+      }
+    ],
+    "name": "getUserPredictionHistory",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "totalPredictions",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "activePredictions",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "finalizedPredictions",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256[]",
+        "name": "participatedEventIds",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_user",
+        "type": "address"
+      }
+    ],
+    "name": "getUserPublicProfile",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "displayName",
+        "type": "string"
+      },
+      {
+        "internalType": "bool",
+        "name": "hasPublicProfile",
+        "type": "bool"
+      },
+      {
+        "internalType": "uint256",
+        "name": "totalPredictions",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "totalBalls",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "totalCollections",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "priceGuess",
+    "outputs": [
+      {
+        "internalType": "contract CryptoPriceGuess",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
@@ -4,9 +4,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
-import { Shield, Lock, CheckCircle2 } from "lucide-react";
+import { Shield, Lock, CheckCircle2, Calculator, Trophy, Ban } from "lucide-react";
 import { useAccount } from "wagmi";
 import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useEventPool } from "@/hooks/useEventPool";
+import { useAssets } from "@/hooks/useAssets";
 import { useReadContract } from "wagmi";
 
 interface AdminPanelProps {
@@ -17,8 +19,24 @@ interface AdminPanelProps {
 
 const AdminPanel = ({ eventId, open, onOpenChange, ...props }: AdminPanelProps) => {
   const { address } = useAccount();
-  const { getEventConfig, endEvent, setActualPrice, finalizeEvent, isPending, isConfirmed } = useCryptoPriceGuess();
+  const {
+    getEventConfig,
+    getLeaderboardStateConfig,
+    endEvent,
+    setActualPrice,
+    finalizeEvent,
+    scorePredictions,
+    revealLeaderboard,
+    cancelEvent,
+    isPending,
+    isConfirmed,
+  } = useCryptoPriceGuess();
   const { data: eventData, refetch: refetchEventData } = useReadContract(getEventConfig(eventId));
+  const { data: leaderboardState, refetch: refetchLeaderboardState } = useReadContract(
+    getLeaderboardStateConfig(eventId)
+  );
+  const { pool, formatStake, refetch: refetchPool } = useEventPool(eventId);
+  const { getAsset } = useAssets();
   const [actualPrice, setActualPriceValue] = useState("");
   
   // Refresh event data when operations complete
@@ -27,9 +45,11 @@ const AdminPanel = ({ eventId, open, onOpenChange, ...props }: AdminPanelProps)
       // Wait a bit for the transaction to be mined
       setTimeout(() => {
         refetchEventData();
+        refetchLeaderboardState();
+        refetchPool();
       }, 2000);
     }
-  }, [isConfirmed, refetchEventData]);
+  }, [isConfirmed, refetchEventData, refetchLeaderboardState, refetchPool]);
 
   if (!eventData) {
     return null;
@@ -42,10 +62,24 @@ const AdminPanel = ({ eventId, open, onOpenChange, ...props }: AdminPanelProps)
   const targetDate = Number(eventData[2]) * 1000;
   const currentTime = Date.now();
 
+  const isCancelled = pool?.isCancelled ?? false;
+  const asset = getAsset(eventData[1]);
+  const priceScale = asset?.priceScale ?? 100;
+
   const isAdmin = address && admin && address.toLowerCase() === admin.toLowerCase();
   const canEnd = isActive && currentTime >= endTime;
-  const canSetPrice = !isActive && !isFinalized && currentTime >= targetDate && eventData[8] === 0n;
-  const canFinalize = !isActive && !isFinalized && eventData[8] > 0n;
+  const canSetPrice = !isCancelled && !isActive && !isFinalized && currentTime >= targetDate && eventData[8] === 0n;
+  const canFinalize = !isCancelled && !isActive && !isFinalized && eventData[8] > 0n;
+
+  const totalPredictions = Number(eventData[7]);
+  const scoredCount = leaderboardState ? Number(leaderboardState[0]) : 0;
+  const revealRequested = leaderboardState ? leaderboardState[1] : false;
+  const isLeaderboardRevealed = leaderboardState ? leaderboardState[2] : false;
+  const canScore = !isCancelled && !isActive && eventData[8] > 0n && scoredCount < totalPredictions;
+  const canRevealLeaderboard =
+    !isCancelled && totalPredictions > 0 && scoredCount === totalPredictions && !revealRequested;
+  // Once the leaderboard is public the payouts are fixed, so cancelling is no longer possible
+  const canCancel = !isCancelled && !isLeaderboardRevealed;
 
   const handleEndEvent = async () => {
     try {
@@ -67,7 +101,7 @@ const AdminPanel = ({ eventId, open, onOpenChange, ...props }: AdminPanelProps)
       return;
     }
     try {
-      await setActualPrice(eventId, priceValue);
+      await setActualPrice(eventId, priceValue, priceScale);
       toast.success("Actual price set successfully");
       setActualPriceValue("");
       // Refresh event data after a short delay
@@ -101,6 +135,41 @@ const AdminPanel = ({ eventId, open, onOpenChange, ...props }: AdminPanelProps)
     }
   };
 
+  const handleScore = async () => {
+    try {
+      await scorePredictions(eventId);
+      toast.success("Scoring submitted. Each predictor's error is computed on encrypted data.");
+    } catch (error) {
+      toast.error((error as Error)?.message || "Failed to score predictions");
+    }
+  };
+
+  const handleRevealLeaderboard = async () => {
+    try {
+      await revealLeaderboard(eventId);
+      toast.success("Leaderboard reveal requested. Errors will be decrypted shortly.");
+      // The oracle answers asynchronously, keep polling for a while
+      const interval = setInterval(() => {
+        refetchLeaderboardState();
+      }, 3000);
+      setTimeout(() => clearInterval(interval), 30000);
+    } catch (error) {
+      toast.error((error as Error)?.message || "Failed to reveal leaderboard");
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!window.confirm("Cancel this event? Predictors will be able to reclaim their stakes.")) {
+      return;
+    }
+    try {
+      await cancelEvent(eventId);
+      toast.success("Event cancellation submitted");
+    } catch (error) {
+      toast.error((error as Error)?.message || "Failed to cancel event");
+    }
+  };
+
   if (!isAdmin) {
     return null;
   }
@@ -124,15 +193,21 @@ const AdminPanel = ({ eventId, open, onOpenChange, ...props }: AdminPanelProps)
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Status</span>
               <span className={`text-sm font-medium ${
-                isFinalized ? "text-primary" : isActive ? "text-accent" : "text-muted-foreground"
+                isCancelled ? "text-destructive" : isFinalized ? "text-primary" : isActive ? "text-accent" : "text-muted-foreground"
               }`}>
-                {isFinalized ? "Finalized" : isActive ? "Active" : "Ended"}
+                {isCancelled ? "Cancelled" : isFinalized ? "Finalized" : isActive ? "Active" : "Ended"}
               </span>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Total Predictions</span>
               <span className="text-sm font-medium">{Number(eventData[7])}</span>
             </div>
+            {pool?.isStaked && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Prize Pool</span>
+                <span className="text-sm font-medium">{formatStake(pool.totalStaked)}</span>
+              </div>
+            )}
           </div>
 
           {/* End Event */}
@@ -157,11 +232,11 @@ const AdminPanel = ({ eventId, open, onOpenChange, ...props }: AdminPanelProps)
           {/* Set Actual Price */}
           {canSetPrice && (
             <div className="space-y-2">
-              <Label htmlFor="actualPrice">Set Actual Price (USD)</Label>
+              <Label htmlFor="actualPrice">Set Actual {asset?.symbol ?? ""} Price (USD)</Label>
               <Input
                 id="actualPrice"
                 type="number"
-                step="0.01"
+                step={1 / priceScale}
                 min="0"
                 placeholder="50000.00"
                 value={actualPrice}
@@ -199,6 +274,69 @@ const AdminPanel = ({ eventId, open, onOpenChange, ...props }: AdminPanelProps)
             </div>
           )}
 
+          {/* Score Predictions */}
+          {canScore && (
+            <div className="space-y-2">
+              <Label>Score Predictions</Label>
+              <p className="text-xs text-muted-foreground">
+                Compute each prediction's distance to the actual price on encrypted data
+                ({scoredCount}/{totalPredictions} scored). The actual price is locked afterwards.
+              </p>
+              <Button
+                onClick={handleScore}
+                disabled={isPending}
+                variant="outline"
+                className="w-full"
+              >
+                <Calculator className="w-4 h-4 mr-2" />
+                Score Predictions
+              </Button>
+            </div>
+          )}
+
+          {/* Reveal Leaderboard */}
+          {canRevealLeaderboard && (
+            <div className="space-y-2">
+              <Label>Reveal Leaderboard</Label>
+              <p className="text-xs text-muted-foreground">
+                Decrypt every prediction's error to rank predictors and crown the winner.
+              </p>
+              <Button
+                onClick={handleRevealLeaderboard}
+                disabled={isPending}
+                className="w-full neon-border"
+              >
+                <Trophy className="w-4 h-4 mr-2" />
+                Reveal Leaderboard
+              </Button>
+            </div>
+          )}
+
+          {revealRequested && !isLeaderboardRevealed && (
+            <div className="text-xs text-muted-foreground">
+              Leaderboard reveal requested, waiting for the decryption oracle...
+            </div>
+          )}
+
+          {/* Cancel Event */}
+          {canCancel && (
+            <div className="space-y-2">
+              <Label>Cancel Event</Label>
+              <p className="text-xs text-muted-foreground">
+                Stop the event for good. {pool?.isStaked ? "Every predictor can reclaim their stake." : ""}
+              </p>
+              <Button
+                onClick={handleCancel}
+                disabled={isPending}
+                variant="destructive"
+                className="w-full"
+              >
+                <Ban className="w-4 h-4 mr-2" />
+                Cancel Event
+              </Button>
+            </div>
+          )}
+
           {/* Already Finalized */}
           {isFinalized && (
             <div className="bg-primary/10 border border-primary/20 rounded-lg p-4">
@@ -0,0 +1,134 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Gavel } from "lucide-react";
+import { useReadContract } from "wagmi";
+import { useCryptoBallAuction } from "@/hooks/useCryptoBallAuction";
+import { AUCTION_DURATION_HOURS } from "@/lib/auctions";
+
+interface AuctionBallDialogProps {
+  ballId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void; // Called once the auction is created (the ball is escrowed until it settles)
+}
+
+const SELECT_CLASS =
+  "flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+const AuctionBallDialog = ({ ballId, open, onOpenChange, onCreated }: AuctionBallDialogProps) => {
+  const {
+    auctionAddress,
+    auctionStatusMessage,
+    getBallApprovalConfig,
+    approveBall,
+    createAuction,
+    isPending,
+    isConfirmed,
+  } = useCryptoBallAuction();
+  const { data: approved, refetch: refetchApproval } = useReadContract(getBallApprovalConfig(ballId));
+  const [reservePrice, setReservePrice] = useState("");
+  const [duration, setDuration] = useState(24);
+  const [action, setAction] = useState<"approve" | "create" | null>(null);
+
+  const isApproved = !!auctionAddress && approved?.toLowerCase() === auctionAddress.toLowerCase();
+
+  useEffect(() => {
+    if (isConfirmed && action) {
+      if (action === "approve") {
+        toast.success("Ball approved for auction");
+        refetchApproval();
+      } else {
+        toast.success(`Ball #${ballId} is up for auction`);
+        onOpenChange(false);
+        onCreated?.();
+      }
+      setAction(null);
+    }
+  }, [isConfirmed, action, ballId, refetchApproval, onOpenChange, onCreated]);
+
+  const run = async (next: NonNullable<typeof action>, call: () => Promise<unknown>) => {
+    setAction(next);
+    try {
+      await call();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Transaction failed");
+      setAction(null);
+    }
+  };
+
+  const handleCreate = () => {
+    if (reservePrice !== "" && !(Number(reservePrice) >= 0)) {
+      toast.error("Enter a reserve price in ETH");
+      return;
+    }
+    run("create", () => createAuction(ballId, reservePrice || "0", duration));
+  };
+
+  const busy = action !== null || isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] glass-effect border-primary/20">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Gavel className="w-6 h-6 text-primary" />
+            Auction Ball #{ballId}
+          </DialogTitle>
+          <DialogDescription>
+            Sealed-bid auction: bids stay encrypted and only the winning bid is revealed when the auction closes.
+            The ball is held by the auction contract until then.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!auctionAddress ? (
+          <p className="text-sm text-muted-foreground mt-4">{auctionStatusMessage ?? "Loading auctions..."}</p>
+        ) : (
+          <div className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor={`reserve-${ballId}`}>Reserve price (ETH, optional)</Label>
+              <Input
+                id={`reserve-${ballId}`}
+                type="number"
+                min={0}
+                step="any"
+                placeholder="0"
+                value={reservePrice}
+                onChange={(e) => setReservePrice(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`duration-${ballId}`}>Bidding period</Label>
+              <select
+                id={`duration-${ballId}`}
+                value={duration}
+                onChange={(e) => setDuration(Number(e.target.value))}
+                className={SELECT_CLASS}
+              >
+                {AUCTION_DURATION_HOURS.map((hours) => (
+                  <option key={hours} value={hours}>
+                    {hours < 24 ? `${hours} hour${hours === 1 ? "" : "s"}` : `${hours / 24} days`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {isApproved ? (
+              <Button onClick={handleCreate} disabled={busy} className="w-full">
+                {busy ? "Creating..." : "Start auction"}
+              </Button>
+            ) : (
+              <Button onClick={() => run("approve", () => approveBall(ballId))} disabled={busy} className="w-full">
+                {busy ? "Approving..." : "Approve the auction contract"}
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AuctionBallDialog;
@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Gavel, Lock } from "lucide-react";
+import { toast } from "sonner";
+import { useAccount, useReadContract } from "wagmi";
+import { formatEther, zeroAddress } from "viem";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useCryptoBallAuction } from "@/hooks/useCryptoBallAuction";
+import { AUCTION_STATUS_LABELS, AuctionStatus, type AuctionInfo } from "@/lib/auctions";
+import { parseBallMetadata } from "@/lib/balls";
+import PlaceBidDialog from "./PlaceBidDialog";
+
+interface AuctionCardProps {
+  auction: AuctionInfo;
+  now: number; // Current time in seconds, shared by the page's ticking clock
+  onChange?: () => void; // Called once a bid, close, cancellation or refund is confirmed
+}
+
+const formatRemaining = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${seconds % 60}s`;
+};
+
+const AuctionCard = ({ auction, now, onChange }: AuctionCardProps) => {
+  const { address } = useAccount();
+  const { getBallTokenURIConfig } = useCryptoPriceGuess();
+  const { closeAuction, cancelAuction, claimRefund, getDepositConfig, isPending, isConfirmed } =
+    useCryptoBallAuction();
+  const { data: tokenUri } = useReadContract(getBallTokenURIConfig(auction.ballId));
+  const { data: deposit, refetch: refetchDeposit } = useReadContract(getDepositConfig(auction.auctionId));
+  const [bidOpen, setBidOpen] = useState(false);
+  const [action, setAction] = useState<"close" | "cancel" | "refund" | null>(null);
+
+  const metadata = tokenUri ? parseBallMetadata(tokenUri) : undefined;
+  const isSeller = !!address && address.toLowerCase() === auction.seller.toLowerCase();
+  const isOpen = auction.status === AuctionStatus.OPEN;
+  const biddingEnded = now >= auction.endTime;
+  const refundable = deposit ?? 0n;
+
+  useEffect(() => {
+    if (isConfirmed && action) {
+      const messages = {
+        close: "Auction closed, the winning bid is being decrypted",
+        cancel: "Auction cancelled, the ball is back in your wallet",
+        refund: "Deposit refunded",
+      };
+      toast.success(messages[action]);
+      setAction(null);
+      refetchDeposit();
+      onChange?.();
+    }
+  }, [isConfirmed, action, refetchDeposit, onChange]);
+
+  const run = async (next: NonNullable<typeof action>, call: () => Promise<unknown>) => {
+    if (!address) {
+      toast.error("Connect your wallet first");
+      return;
+    }
+    setAction(next);
+    try {
+      await call();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Transaction failed");
+      setAction(null);
+    }
+  };
+
+  const busy = action !== null || isPending;
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">
+            Auction #{auction.auctionId} · Ball #{auction.ballId}
+          </CardTitle>
+          <Badge variant={isOpen && !biddingEnded ? "default" : "secondary"}>
+            {isOpen && biddingEnded ? "Ended" : AUCTION_STATUS_LABELS[auction.status]}
+          </Badge>
+        </div>
+        <CardDescription className="font-mono text-xs truncate">Seller {auction.seller}</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {metadata && <img src={metadata.image} alt={metadata.name} className="w-full aspect-square rounded-lg" />}
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="bg-muted/50 p-3 rounded-lg">
+            <span className="font-medium block text-xs">Reserve</span>
+            <span className="text-muted-foreground">
+              {auction.reservePrice > 0n ? `${formatEther(auction.reservePrice)} ETH` : "None"}
+            </span>
+          </div>
+          <div className="bg-muted/50 p-3 rounded-lg">
+            <span className="font-medium block text-xs">Sealed bids</span>
+            <span className="text-muted-foreground">{auction.bidCount}</span>
+          </div>
+        </div>
+
+        {isOpen && (
+          <p className="text-xs text-muted-foreground">
+            {biddingEnded
+              ? "Bidding has ended, anyone can close the auction to reveal the winner."
+              : `Ends in ${formatRemaining(auction.endTime - now)}`}
+          </p>
+        )}
+        {auction.status === AuctionStatus.REVEALING && (
+          <p className="text-xs text-muted-foreground">Waiting for the oracle to decrypt the winning bid...</p>
+        )}
+        {auction.status === AuctionStatus.SETTLED && (
+          <div className="text-sm bg-muted/50 p-3 rounded-lg">
+            {auction.winner === zeroAddress ? (
+              <span className="text-muted-foreground">No sale, the ball went back to the seller</span>
+            ) : (
+              <>
+                <span className="font-medium block text-xs">Won for {formatEther(auction.winningBid)} ETH by</span>
+                <span className="text-muted-foreground font-mono text-xs break-all">{auction.winner}</span>
+              </>
+            )}
+          </div>
+        )}
+
+        {isOpen && !biddingEnded && !isSeller && (
+          <Button onClick={() => setBidOpen(true)} className="w-full">
+            <Lock className="w-4 h-4 mr-2" />
+            {refundable > 0n ? "Your sealed bid" : "Place sealed bid"}
+          </Button>
+        )}
+        {isOpen && !biddingEnded && isSeller && auction.bidCount === 0 && (
+          <Button
+            variant="outline"
+            onClick={() => run("cancel", () => cancelAuction(auction.auctionId))}
+            disabled={busy}
+            className="w-full"
+          >
+            Cancel auction
+          </Button>
+        )}
+        {isOpen && biddingEnded && (
+          <Button
+            onClick={() => run("close", () => closeAuction(auction.auctionId))}
+            disabled={busy}
+            className="w-full"
+          >
+            <Gavel className="w-4 h-4 mr-2" />
+            Close auction
+          </Button>
+        )}
+        {auction.status === AuctionStatus.SETTLED && refundable > 0n && (
+          <Button
+            variant="outline"
+            onClick={() => run("refund", () => claimRefund(auction.auctionId))}
+            disabled={busy}
+            className="w-full"
+          >
+            Claim {formatEther(refundable)} ETH deposit
+          </Button>
+        )}
+      </CardContent>
+
+      <PlaceBidDialog
+        auctionId={auction.auctionId}
+        ballId={auction.ballId}
+        reservePrice={auction.reservePrice}
+        open={bidOpen}
+        onOpenChange={setBidOpen}
+        onBid={() => {
+          refetchDeposit();
+          onChange?.();
+        }}
+      />
+    </Card>
+  );
+};
+
+export default AuctionCard;
@@ -0,0 +1,54 @@
+import type { DragEvent } from "react";
+import { useReadContract } from "wagmi";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { parseBallMetadata } from "@/lib/balls";
+import { BALL_DRAG_TYPE, type BallDragSource } from "@/lib/collections";
+import { cn } from "@/lib/utils";
+
+interface BallTileProps {
+  ballId: number;
+  dragSource?: BallDragSource; // Makes the tile draggable, tagged with where it comes from
+  onDrop?: (event: DragEvent<HTMLDivElement>) => void; // Drops onto the tile (reordering in front of it)
+}
+
+// Compact ball thumbnail (its on-chain SVG) for collections
+const BallTile = ({ ballId, dragSource, onDrop }: BallTileProps) => {
+  const { getBallTokenURIConfig } = useCryptoPriceGuess();
+  const { data: tokenUri } = useReadContract(getBallTokenURIConfig(ballId));
+  const metadata = tokenUri ? parseBallMetadata(tokenUri) : undefined;
+  const ballType = metadata?.attributes.find((attribute) => attribute.trait_type === "Type")?.value;
+  const power = metadata?.attributes.find((attribute) => attribute.trait_type === "Power Level")?.value;
+
+  const handleDragStart = (event: DragEvent<HTMLDivElement>) => {
+    event.dataTransfer.setData(BALL_DRAG_TYPE, JSON.stringify({ ballId, source: dragSource }));
+    event.dataTransfer.effectAllowed = "move";
+  };
+
+  return (
+    <div
+      draggable={!!dragSource}
+      onDragStart={dragSource ? handleDragStart : undefined}
+      onDragOver={onDrop ? (event) => event.preventDefault() : undefined}
+      onDrop={onDrop}
+      title={metadata?.name ?? `CryptoBall #${ballId}`}
+      className={cn(
+        "w-24 rounded-lg border border-border bg-background/60 p-2 text-center text-xs select-none",
+        dragSource && "cursor-grab active:cursor-grabbing hover:border-primary"
+      )}
+    >
+      {metadata ? (
+        <img src={metadata.image} alt={metadata.name} className="w-full rounded-md pointer-events-none" />
+      ) : (
+        <div className="aspect-square w-full rounded-md bg-muted" />
+      )}
+      <div className="mt-1 font-medium">#{ballId}</div>
+      {metadata && (
+        <div className="text-muted-foreground truncate">
+          {ballType} · {power}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BallTile;
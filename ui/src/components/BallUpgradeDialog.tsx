@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Flame, History, Star, Zap } from "lucide-react";
+import { useReadContract } from "wagmi";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { UPGRADE_SOURCE_LABELS } from "@/lib/balls";
+
+interface BallUpgradeDialogProps {
+  ballId: number;
+  powerLevel: number;
+  consumableBallIds: number[]; // Balls selected on the page, other than this one
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpgrade?: () => void; // Called once an upgrade is confirmed
+}
+
+const BallUpgradeDialog = ({
+  ballId,
+  powerLevel,
+  consumableBallIds,
+  open,
+  onOpenChange,
+  onUpgrade,
+}: BallUpgradeDialogProps) => {
+  const {
+    upgradeBallWithBalls,
+    upgradeBallWithPoints,
+    getRewardPointsConfig,
+    getBallUpgradeHistoryConfig,
+    isPending,
+    isConfirmed,
+  } = useCryptoPriceGuess();
+  const { data: rewardPoints, refetch: refetchPoints } = useReadContract(getRewardPointsConfig());
+  const { data: history, refetch: refetchHistory } = useReadContract(getBallUpgradeHistoryConfig(ballId));
+  const [points, setPoints] = useState("");
+  const [isUpgrading, setIsUpgrading] = useState(false);
+
+  const availablePoints = Number(rewardPoints ?? 0n);
+
+  useEffect(() => {
+    if (isConfirmed && isUpgrading) {
+      toast.success(`Ball #${ballId} powered up`);
+      setIsUpgrading(false);
+      setPoints("");
+      refetchPoints();
+      refetchHistory();
+      onUpgrade?.();
+    }
+  }, [isConfirmed, isUpgrading, ballId, refetchPoints, refetchHistory, onUpgrade]);
+
+  const runUpgrade = async (upgrade: () => Promise<unknown>) => {
+    setIsUpgrading(true);
+    try {
+      await upgrade();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Upgrade failed");
+      setIsUpgrading(false);
+    }
+  };
+
+  const handleSpendPoints = () => {
+    const amount = Number(points);
+    if (!Number.isInteger(amount) || amount <= 0) {
+      toast.error("Enter a whole number of points");
+      return;
+    }
+    if (amount > availablePoints) {
+      toast.error("Not enough reward points");
+      return;
+    }
+    runUpgrade(() => upgradeBallWithPoints(ballId, amount));
+  };
+
+  const busy = isUpgrading || isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] glass-effect border-primary/20">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Zap className="w-6 h-6 text-primary" />
+            Upgrade Ball #{ballId}
+          </DialogTitle>
+          <DialogDescription>Current power level: {powerLevel}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-4">
+          <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 font-medium">
+                <Star className="w-4 h-4 text-accent" />
+                Reward points
+              </span>
+              <span className="text-muted-foreground">{availablePoints} available</span>
+            </div>
+            <Label htmlFor={`points-${ballId}`} className="text-xs text-muted-foreground">
+              1 point = 1 power
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id={`points-${ballId}`}
+                type="number"
+                min={1}
+                max={availablePoints}
+                placeholder="Points to spend"
+                value={points}
+                onChange={(e) => setPoints(e.target.value)}
+              />
+              <Button onClick={handleSpendPoints} disabled={busy || availablePoints === 0}>
+                Spend
+              </Button>
+            </div>
+          </div>
+
+          <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Flame className="w-4 h-4 text-destructive" />
+              Burn balls into this one
+            </div>
+            {consumableBallIds.length > 0 ? (
+              <Button
+                variant="outline"
+                onClick={() => runUpgrade(() => upgradeBallWithBalls(ballId, consumableBallIds))}
+                disabled={busy}
+                className="w-full"
+              >
+                Burn {consumableBallIds.map((id) => `#${id}`).join(", ")} (adds their power)
+              </Button>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Select balls on the page to burn them into this one; their power is added to it.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <History className="w-4 h-4 text-primary" />
+              Level-up history
+            </div>
+            {history && history.length > 0 ? (
+              <ul className="space-y-1 text-xs">
+                {history.map((upgrade, index) => (
+                  <li key={index} className="flex justify-between bg-muted/30 rounded px-3 py-2">
+                    <span>{UPGRADE_SOURCE_LABELS[upgrade.source]}</span>
+                    <span className="text-muted-foreground">
+                      {upgrade.previousPower.toString()} → {upgrade.newPower.toString()} ·{" "}
+                      {new Date(Number(upgrade.timestamp) * 1000).toLocaleDateString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">No level-ups yet</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BallUpgradeDialog;
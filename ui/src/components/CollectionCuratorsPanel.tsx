@@ -0,0 +1,193 @@
+import { useState, useEffect } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { isAddress } from "viem";
+import { LogOut, Send, UserPlus, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useDisplayNames } from "@/hooks/useDisplayNames";
+import { COLLECTION_ROLE_LABELS, CollectionRole } from "@/lib/collections";
+
+const SELECT_CLASS =
+  "flex h-9 items-center justify-between rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+type CuratorAction = "curator" | "leave" | "transfer";
+
+interface CollectionCuratorsPanelProps {
+  collectionId: number;
+  owner: string;
+  onChange?: () => void; // Called once a role change is confirmed
+  onLeft?: () => void; // Called once the connected user stepped down or transferred the collection away
+}
+
+// Curators of a collection. The owner manages every role and can transfer the collection, managers appoint and
+// dismiss editors, and any curator can step down.
+const CollectionCuratorsPanel = ({ collectionId, owner, onChange, onLeft }: CollectionCuratorsPanelProps) => {
+  const { address } = useAccount();
+  const { getCollectionCuratorsConfig, setCollectionCurator, transferBallCollection, isPending, isConfirmed } =
+    useCryptoPriceGuess();
+  const { data, refetch } = useReadContract(getCollectionCuratorsConfig(collectionId));
+  const [newCurator, setNewCurator] = useState("");
+  const [newRole, setNewRole] = useState<number>(CollectionRole.EDITOR);
+  const [transferTo, setTransferTo] = useState("");
+  const [action, setAction] = useState<CuratorAction | null>(null);
+
+  const [curators, roles] = data ?? [[], []];
+  const displayName = useDisplayNames(curators);
+  const isOwner = !!address && address.toLowerCase() === owner.toLowerCase();
+  const myIndex = curators.findIndex((curator) => curator.toLowerCase() === address?.toLowerCase());
+  const myRole = myIndex === -1 ? CollectionRole.NONE : Number(roles[myIndex]);
+  const isManager = isOwner || myRole === CollectionRole.MANAGER;
+  const busy = action !== null || isPending;
+
+  // Managers may only hand out or take away the editor role
+  const canChange = (role: number) => isOwner || (isManager && role !== CollectionRole.MANAGER);
+
+  useEffect(() => {
+    if (isConfirmed && action) {
+      if (action === "curator") {
+        toast.success("Curators updated");
+        setNewCurator("");
+        refetch();
+        onChange?.();
+      } else {
+        toast.success(action === "leave" ? "You left the collection" : "Collection transferred");
+        setTransferTo("");
+        onLeft?.();
+      }
+      setAction(null);
+    }
+  }, [isConfirmed, action, refetch, onChange, onLeft]);
+
+  const run = async (nextAction: CuratorAction, write: () => Promise<void>) => {
+    setAction(nextAction);
+    try {
+      await write();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Transaction failed");
+      setAction(null);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!isAddress(newCurator)) {
+      toast.error("Enter a valid address");
+      return;
+    }
+    run("curator", () => setCollectionCurator(collectionId, newCurator, newRole));
+  };
+
+  const handleTransfer = () => {
+    if (!isAddress(transferTo)) {
+      toast.error("Enter a valid address");
+      return;
+    }
+    run("transfer", () => transferBallCollection(collectionId, transferTo));
+  };
+
+  return (
+    <div className="glass-effect rounded-xl p-4 space-y-4">
+      <h3 className="font-semibold flex items-center gap-2">
+        <Users className="w-4 h-4" />
+        Curators
+      </h3>
+
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center justify-between">
+          <span>{isOwner ? "You" : displayName(owner)}</span>
+          <span className="text-muted-foreground">Owner</span>
+        </div>
+        {curators.map((curator, index) => {
+          const role = Number(roles[index]);
+          const isMe = index === myIndex;
+          return (
+            <div key={curator} className="flex items-center justify-between gap-2">
+              <span className="truncate">{isMe ? "You" : displayName(curator)}</span>
+              {isMe ? (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => run("leave", () => setCollectionCurator(collectionId, curator, CollectionRole.NONE))}
+                  disabled={busy}
+                  title="Your balls leave the collection"
+                >
+                  <LogOut className="w-4 h-4 mr-1" />
+                  {COLLECTION_ROLE_LABELS[role]} · Leave
+                </Button>
+              ) : canChange(role) ? (
+                <select
+                  value={role}
+                  onChange={(e) =>
+                    run("curator", () => setCollectionCurator(collectionId, curator, Number(e.target.value)))
+                  }
+                  disabled={busy}
+                  className={SELECT_CLASS}
+                >
+                  {COLLECTION_ROLE_LABELS.map((label, value) =>
+                    canChange(value) ? (
+                      <option key={label} value={value}>
+                        {value === CollectionRole.NONE ? "Remove" : label}
+                      </option>
+                    ) : null
+                  )}
+                </select>
+              ) : (
+                <span className="text-muted-foreground">{COLLECTION_ROLE_LABELS[role]}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {isManager && (
+        <div className="space-y-2">
+          <Label htmlFor="newCurator">Add a curator</Label>
+          <div className="flex gap-2">
+            <Input
+              id="newCurator"
+              value={newCurator}
+              placeholder="0x..."
+              onChange={(e) => setNewCurator(e.target.value)}
+            />
+            <select
+              value={newRole}
+              onChange={(e) => setNewRole(Number(e.target.value))}
+              className={SELECT_CLASS}
+              disabled={!isOwner}
+            >
+              <option value={CollectionRole.EDITOR}>Editor</option>
+              {isOwner && <option value={CollectionRole.MANAGER}>Manager</option>}
+            </select>
+            <Button size="icon" onClick={handleAdd} disabled={busy || !newCurator} title="Add curator">
+              <UserPlus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isOwner && (
+        <div className="space-y-2">
+          <Label htmlFor="transferCollection">Transfer collection</Label>
+          <p className="text-xs text-muted-foreground">
+            Your balls in this collection move to the new owner; curators keep their roles and balls.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              id="transferCollection"
+              value={transferTo}
+              placeholder="0x..."
+              onChange={(e) => setTransferTo(e.target.value)}
+            />
+            <Button size="icon" onClick={handleTransfer} disabled={busy || !transferTo} title="Transfer collection">
+              <Send className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectionCuratorsPanel;
@@ -0,0 +1,242 @@
+import { useState, useEffect, type DragEvent } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { Globe, Lock, Save, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import BallTile from "./BallTile";
+import CollectionCuratorsPanel from "./CollectionCuratorsPanel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import {
+  BALL_DRAG_TYPE,
+  CollectionRole,
+  MAX_COLLECTION_BALLS,
+  isValidCollectionName,
+  moveBall,
+  parseBallDragPayload,
+} from "@/lib/collections";
+
+type CollectionAction = "rename" | "visibility" | "reorder" | "add" | "remove";
+
+const ACTION_MESSAGES: Record<CollectionAction, string> = {
+  rename: "Collection renamed",
+  visibility: "Collection visibility updated",
+  reorder: "Collection order saved",
+  add: "Ball added to the collection",
+  remove: "Ball removed from the collection",
+};
+
+interface CollectionEditorProps {
+  collectionId: number;
+  ownedBallIds: number[]; // The connected user's balls, the ones that can be added
+  onChange?: () => void; // Called once a change is confirmed
+  onLeft?: () => void; // Called once the connected user no longer owns or curates the collection
+}
+
+// A collection the connected user owns or curates. Balls are dragged in from the inventory, dragged within the
+// collection to reorder (saved as one transaction) and dragged back to the inventory to remove them. Editors
+// can only remove their own balls; renaming and visibility are for the owner and managers.
+const CollectionEditor = ({ collectionId, ownedBallIds, onChange, onLeft }: CollectionEditorProps) => {
+  const { address } = useAccount();
+  const {
+    getBallCollectionConfig,
+    getCollectionCuratorsConfig,
+    renameBallCollection,
+    setCollectionPublic,
+    reorderCollectionBalls,
+    addBallToCollection,
+    removeBallFromCollection,
+    isPending,
+    isConfirmed,
+  } = useCryptoPriceGuess();
+  const { data: collection, refetch } = useReadContract(getBallCollectionConfig(collectionId));
+  const { data: curatorData } = useReadContract(getCollectionCuratorsConfig(collectionId));
+  const [name, setName] = useState("");
+  // Unsaved order after drags within the collection; undefined = the on-chain order
+  const [draftOrder, setDraftOrder] = useState<number[]>();
+  const [action, setAction] = useState<CollectionAction | null>(null);
+
+  const [collectionName, owner, ballIdValues, , isPublic] = collection ?? ["", "", [], 0n, false];
+  const [curators, roles] = curatorData ?? [[], []];
+  const myIndex = curators.findIndex((curator) => curator.toLowerCase() === address?.toLowerCase());
+  const isManager =
+    (!!address && owner.toLowerCase() === address.toLowerCase()) ||
+    (myIndex !== -1 && Number(roles[myIndex]) === CollectionRole.MANAGER);
+  const ballIds = ballIdValues.map(Number);
+  const order = draftOrder ?? ballIds;
+  const inventory = ownedBallIds.filter((ballId) => !ballIds.includes(ballId));
+  const isFull = ballIds.length >= MAX_COLLECTION_BALLS;
+  const busy = action !== null || isPending;
+
+  useEffect(() => {
+    setName(collectionName);
+  }, [collectionName]);
+
+  useEffect(() => {
+    setDraftOrder(undefined);
+  }, [collectionId]);
+
+  useEffect(() => {
+    if (isConfirmed && action) {
+      toast.success(ACTION_MESSAGES[action]);
+      setAction(null);
+      setDraftOrder(undefined);
+      refetch();
+      onChange?.();
+    }
+  }, [isConfirmed, action, refetch, onChange]);
+
+  const run = async (nextAction: CollectionAction, write: () => Promise<void>) => {
+    setAction(nextAction);
+    try {
+      await write();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Transaction failed");
+      setAction(null);
+    }
+  };
+
+  const handleAdd = (ballId: number) => {
+    if (isFull) {
+      toast.error(`A collection holds at most ${MAX_COLLECTION_BALLS} balls`);
+      return;
+    }
+    if (draftOrder) {
+      toast.error("Save or discard the new order first");
+      return;
+    }
+    run("add", () => addBallToCollection(collectionId, ballId));
+  };
+
+  // Dropped on a collection tile (`beforeBallId`) or on the collection's empty space
+  const handleCollectionDrop = (event: DragEvent<HTMLDivElement>, beforeBallId?: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const payload = parseBallDragPayload(event.dataTransfer.getData(BALL_DRAG_TYPE));
+    if (!payload || busy) return;
+    if (payload.source === "inventory") {
+      handleAdd(payload.ballId);
+    } else {
+      setDraftOrder(moveBall(order, payload.ballId, beforeBallId));
+    }
+  };
+
+  const handleInventoryDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const payload = parseBallDragPayload(event.dataTransfer.getData(BALL_DRAG_TYPE));
+    if (!payload || payload.source !== "collection" || busy) return;
+    if (!isManager && !ownedBallIds.includes(payload.ballId)) {
+      toast.error("Only the owner and managers can remove other curators' balls");
+      return;
+    }
+    if (draftOrder) {
+      toast.error("Save or discard the new order first");
+      return;
+    }
+    run("remove", () => removeBallFromCollection(collectionId, payload.ballId));
+  };
+
+  if (!collection) {
+    return <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">Loading collection...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-effect rounded-xl p-4 flex flex-col md:flex-row md:items-end gap-4">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="collectionName">Name</Label>
+          <Input
+            id="collectionName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={!isManager}
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => run("rename", () => renameBallCollection(collectionId, name.trim()))}
+          disabled={!isManager || busy || name.trim() === collectionName || !isValidCollectionName(name.trim())}
+        >
+          {action === "rename" ? "Renaming..." : "Rename"}
+        </Button>
+        <div className="flex items-center gap-2 h-10">
+          <Switch
+            id="collectionPublic"
+            checked={isPublic}
+            onCheckedChange={(checked) => run("visibility", () => setCollectionPublic(collectionId, checked))}
+            disabled={!isManager || busy}
+          />
+          <Label htmlFor="collectionPublic" className="flex items-center gap-1">
+            {isPublic ? <Globe className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+            {isPublic ? "Public" : "Private"}
+          </Label>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold">
+            In this collection ({ballIds.length}/{MAX_COLLECTION_BALLS})
+          </h3>
+          {draftOrder && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setDraftOrder(undefined)} disabled={busy}>
+                <Undo2 className="w-4 h-4 mr-1" />
+                Discard
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => run("reorder", () => reorderCollectionBalls(collectionId, draftOrder))}
+                disabled={busy}
+              >
+                <Save className="w-4 h-4 mr-1" />
+                {action === "reorder" ? "Saving..." : "Save order"}
+              </Button>
+            </div>
+          )}
+        </div>
+        <div
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => handleCollectionDrop(event)}
+          className="glass-effect rounded-xl p-4 min-h-[9rem] flex flex-wrap gap-3"
+        >
+          {order.length === 0 ? (
+            <p className="m-auto text-sm text-muted-foreground">Drag balls here from your inventory</p>
+          ) : (
+            order.map((ballId) => (
+              <BallTile
+                key={ballId}
+                ballId={ballId}
+                dragSource="collection"
+                onDrop={(event) => handleCollectionDrop(event, ballId)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">Your other balls</h3>
+        <div
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={handleInventoryDrop}
+          className="rounded-xl border border-dashed border-border p-4 min-h-[9rem] flex flex-wrap gap-3"
+        >
+          {inventory.length === 0 ? (
+            <p className="m-auto text-sm text-muted-foreground">
+              All your balls are in this collection. Drag one here to remove it.
+            </p>
+          ) : (
+            inventory.map((ballId) => <BallTile key={ballId} ballId={ballId} dragSource="inventory" />)
+          )}
+        </div>
+      </div>
+
+      <CollectionCuratorsPanel collectionId={collectionId} owner={owner} onChange={onChange} onLeft={onLeft} />
+    </div>
+  );
+};
+
+export default CollectionEditor;
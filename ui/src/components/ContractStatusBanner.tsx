@@ -0,0 +1,27 @@
+import { AlertTriangle, Unplug } from "lucide-react";
+import { useAccount } from "wagmi";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+
+const ContractStatusBanner = () => {
+  const { isConnected } = useAccount();
+  const { contractStatus, contractStatusMessage } = useCryptoPriceGuess();
+
+  if (!isConnected || contractStatus === "ready" || contractStatus === "checking") {
+    return null;
+  }
+
+  const isWrongNetwork = contractStatus === "unsupported-network";
+
+  return (
+    <div className="container mx-auto px-4 pt-4">
+      <Alert variant="destructive" className="glass-effect">
+        {isWrongNetwork ? <Unplug className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+        <AlertTitle>{isWrongNetwork ? "Wrong network" : "Contract not deployed"}</AlertTitle>
+        <AlertDescription>{contractStatusMessage}</AlertDescription>
+      </Alert>
+    </div>
+  );
+};
+
+export default ContractStatusBanner;
@@ -5,8 +5,27 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { Plus } from "lucide-react";
-import { useAccount } from "wagmi";
+import { erc20Abi, isAddress, parseUnits, zeroAddress } from "viem";
+import { useAccount, useReadContract } from "wagmi";
+import { Switch } from "@/components/ui/switch";
 import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useAssets } from "@/hooks/useAssets";
+import { MARKET_KIND_LABELS, MAX_RANGE_BUCKETS, MarketKind, formatBucketLabels } from "@/lib/markets";
+
+const MARKET_KIND_HINTS = [
+  "Predictors guess the exact price; closest guesses win",
+  "Predictors call whether the price ends above the threshold",
+  "Predictors pick the price range the price ends in",
+  "Predictors give a lower and upper bound; the tightest bounds around the price win",
+];
+
+// Pool share per leaderboard rank, in basis points
+const PAYOUT_PRESETS = [
+  { value: "10000", label: "Winner takes all" },
+  { value: "7000,3000", label: "Top 2 (70% / 30%)" },
+  { value: "6000,3000,1000", label: "Top 3 (60% / 30% / 10%)" },
+  { value: "4000,2500,1500,1000,1000", label: "Top 5 (40% / 25% / 15% / 10% / 10%)" },
+];
 
 interface CreateEventModalProps {
   open: boolean;
@@ -15,12 +34,49 @@ interface CreateEventModalProps {
 
 const CreateEventModal = ({ open, onOpenChange }: CreateEventModalProps) => {
   const { address } = useAccount();
-  const { createEvent, isPending, isConfirmed, refetchEventCount } = useCryptoPriceGuess();
+  const { createEvent, createStakedEvent, createMarketEvent, isPending, isConfirmed, refetchEventCount } =
+    useCryptoPriceGuess();
   const [title, setTitle] = useState("");
-  const [tokenType, setTokenType] = useState<"0" | "1">("0");
+  const { assets } = useAssets();
+  const activeAssets = assets.filter((asset) => asset.isActive);
+  const [assetId, setAssetId] = useState("0");
+
+  // Fall back to the first listed asset if the selected one is not (or no longer) listed
+  useEffect(() => {
+    if (activeAssets.length > 0 && !activeAssets.some((asset) => String(asset.assetId) === assetId)) {
+      setAssetId(String(activeAssets[0].assetId));
+    }
+  }, [activeAssets, assetId]);
   const [targetDate, setTargetDate] = useState("");
   const [durationHours, setDurationHours] = useState("24");
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [isStaked, setIsStaked] = useState(false);
+  const [stakeCurrency, setStakeCurrency] = useState<"eth" | "erc20">("eth");
+  const [stakeToken, setStakeToken] = useState("");
+  const [stakeAmount, setStakeAmount] = useState("0.01");
+  const [payoutPreset, setPayoutPreset] = useState(PAYOUT_PRESETS[0].value);
+  const [marketKind, setMarketKind] = useState<number>(MarketKind.PRICE);
+  const [threshold, setThreshold] = useState("");
+  const [buckets, setBuckets] = useState("");
+
+  const priceScale = activeAssets.find((asset) => String(asset.assetId) === assetId)?.priceScale ?? 100;
+  // "90000, 110000" (USD) -> ascending bounds in the asset's on-chain unit; NaN entries are caught on submit
+  const bucketBounds = buckets
+    .split(",")
+    .map((bound) => bound.trim())
+    .filter((bound) => bound !== "")
+    .map((bound) => Math.round(parseFloat(bound) * priceScale));
+
+  // ERC-20 stakes are entered in whole tokens, so the token's decimals are needed to encode them
+  const { data: stakeTokenDecimals } = useReadContract({
+    address: isAddress(stakeToken) ? stakeToken : undefined,
+    abi: erc20Abi,
+    functionName: "decimals",
+    query: {
+      enabled: isStaked && stakeCurrency === "erc20" && isAddress(stakeToken),
+      retry: false,
+    },
+  });
 
   // Handle successful creation in useEffect to avoid setState during render
   useEffect(() => {
@@ -29,9 +85,17 @@ const CreateEventModal = ({ open, onOpenChange }: CreateEventModalProps) => {
       refetchEventCount();
       onOpenChange(false);
       setTitle("");
-      setTokenType("0");
+      setAssetId("0");
       setTargetDate("");
       setDurationHours("24");
+      setIsStaked(false);
+      setStakeCurrency("eth");
+      setStakeToken("");
+      setStakeAmount("0.01");
+      setPayoutPreset(PAYOUT_PRESETS[0].value);
+      setMarketKind(MarketKind.PRICE);
+      setThreshold("");
+      setBuckets("");
       setHasSubmitted(false);
     }
   }, [hasSubmitted, isConfirmed]);
@@ -110,21 +174,96 @@ const CreateEventModal = ({ open, onOpenChange }: CreateEventModalProps) => {
       return;
     }
 
-    const tokenTypeNum = parseInt(tokenType, 10);
-    if (isNaN(tokenTypeNum) || (tokenTypeNum !== 0 && tokenTypeNum !== 1)) {
-      toast.error("Invalid token type");
+    const assetIdNum = parseInt(assetId, 10);
+    if (!activeAssets.some((asset) => asset.assetId === assetIdNum)) {
+      toast.error("Please select a listed asset");
       return;
     }
 
+    let marketParams: number[] = [];
+    if (marketKind === MarketKind.THRESHOLD) {
+      const thresholdValue = Math.round(parseFloat(threshold) * priceScale);
+      if (isNaN(thresholdValue) || thresholdValue <= 0) {
+        toast.error("Please enter a valid threshold price");
+        return;
+      }
+      marketParams = [thresholdValue];
+    } else if (marketKind === MarketKind.RANGE || (marketKind === MarketKind.PRICE && bucketBounds.length > 0)) {
+      // Price events take optional histogram bounds, range markets require them
+      if (bucketBounds.length === 0 || bucketBounds.some((bound) => isNaN(bound) || bound <= 0)) {
+        toast.error("Please enter the bucket bounds as comma separated prices");
+        return;
+      }
+      if (bucketBounds.length >= MAX_RANGE_BUCKETS) {
+        toast.error(`At most ${MAX_RANGE_BUCKETS} buckets are supported`);
+        return;
+      }
+      if (bucketBounds.some((bound, i) => i > 0 && bound <= bucketBounds[i - 1])) {
+        toast.error("Bucket bounds must be in ascending order");
+        return;
+      }
+      marketParams = bucketBounds;
+    }
+
+    let stakeTokenAddress: `0x${string}` = zeroAddress;
+    let stakeAmountUnits = 0n;
+    if (isStaked) {
+      if (stakeCurrency === "erc20") {
+        if (!isAddress(stakeToken)) {
+          toast.error("Please enter a valid ERC-20 token address");
+          return;
+        }
+        if (stakeTokenDecimals === undefined) {
+          toast.error("Could not read the stake token. Is it an ERC-20 on this network?");
+          return;
+        }
+        stakeTokenAddress = stakeToken;
+      }
+      try {
+        stakeAmountUnits = parseUnits(stakeAmount, stakeCurrency === "erc20" ? stakeTokenDecimals! : 18);
+      } catch {
+        stakeAmountUnits = 0n;
+      }
+      if (stakeAmountUnits <= 0n) {
+        toast.error("Please enter a valid stake amount");
+        return;
+      }
+    }
+
     setHasSubmitted(true);
     try {
       console.log("Creating event with:", {
         title,
-        tokenType: tokenTypeNum,
+        assetId: assetIdNum,
         targetTimestamp,
         duration,
+        marketKind,
+        marketParams,
       });
-      await createEvent(title, tokenTypeNum, targetTimestamp, duration);
+      const payoutShares = payoutPreset.split(",").map(Number);
+      if (marketKind !== MarketKind.PRICE || marketParams.length > 0) {
+        await createMarketEvent(
+          title,
+          assetIdNum,
+          targetTimestamp,
+          duration,
+          marketKind,
+          marketParams,
+          isStaked ? { stakeToken: stakeTokenAddress, stakeAmount: stakeAmountUnits, payoutShares } : undefined,
+        );
+      } else if (isStaked) {
+        await createStakedEvent(
+          title,
+          assetIdNum,
+          targetTimestamp,
+          duration,
+          stakeTokenAddress,
+          stakeAmountUnits,
+          payoutShares,
+        );
+      } else {
+        await createEvent(title, assetIdNum, targetTimestamp, duration);
+      }
     } catch (error) {
       console.error("Error creating event:", error);
       toast.error("Failed to create event");
@@ -156,18 +295,79 @@ const CreateEventModal = ({ open, onOpenChange }: CreateEventModalProps) => {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="tokenType">Token Type</Label>
+            <Label htmlFor="assetId">Asset</Label>
             <select
-              id="tokenType"
-              value={tokenType}
-              onChange={(e) => setTokenType(e.target.value as "0" | "1")}
+              id="assetId"
+              value={assetId}
+              onChange={(e) => setAssetId(e.target.value)}
               className="flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
             >
-              <option value="0">BTC (Bitcoin)</option>
-              <option value="1">ETH (Ethereum)</option>
+              {activeAssets.map((asset) => (
+                <option key={asset.assetId} value={String(asset.assetId)}>
+                  {asset.symbol}
+                </option>
+              ))}
             </select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="marketKind">Market</Label>
+            <select
+              id="marketKind"
+              value={marketKind}
+              onChange={(e) => setMarketKind(Number(e.target.value))}
+              className="flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+            >
+              {MARKET_KIND_LABELS.map((label, kind) => (
+                <option key={label} value={kind}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">{MARKET_KIND_HINTS[marketKind]}</p>
+          </div>
+
+          {marketKind === MarketKind.THRESHOLD && (
+            <div className="space-y-2">
+              <Label htmlFor="threshold">Threshold Price (USD)</Label>
+              <Input
+                id="threshold"
+                type="number"
+                step={1 / priceScale}
+                min="0"
+                placeholder="100000"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                A price exactly at the threshold resolves as below
+              </p>
+            </div>
+          )}
+
+          {(marketKind === MarketKind.RANGE || marketKind === MarketKind.PRICE) && (
+            <div className="space-y-2">
+              <Label htmlFor="buckets">
+                {marketKind === MarketKind.RANGE ? "Bucket Bounds (USD)" : "Distribution Buckets (USD, optional)"}
+              </Label>
+              <Input
+                id="buckets"
+                placeholder="90000, 100000, 110000"
+                value={buckets}
+                onChange={(e) => setBuckets(e.target.value)}
+                required={marketKind === MarketKind.RANGE}
+              />
+              <p className="text-xs text-muted-foreground">
+                {bucketBounds.length > 0 && !bucketBounds.some(isNaN)
+                  ? `Buckets: ${formatBucketLabels(bucketBounds, priceScale).join(" | ")}`
+                  : marketKind === MarketKind.RANGE
+                  ? `Ascending prices separating up to ${MAX_RANGE_BUCKETS} buckets`
+                  : "Reveal an encrypted histogram of the predictions at finalization"}
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="targetDate">Target Date</Label>
             <Input
@@ -198,6 +398,81 @@ const CreateEventModal = ({ open, onOpenChange }: CreateEventModalProps) => {
             </p>
           </div>
 
+          <div className="space-y-4 rounded-lg border border-primary/20 p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="isStaked">Prize Pool</Label>
+                <p className="text-xs text-muted-foreground">
+                  Charge an entry stake and pay the pool out to the closest predictors
+                </p>
+              </div>
+              <Switch id="isStaked" checked={isStaked} onCheckedChange={setIsStaked} />
+            </div>
+
+            {isStaked && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="stakeCurrency">Stake In</Label>
+                    <select
+                      id="stakeCurrency"
+                      value={stakeCurrency}
+                      onChange={(e) => setStakeCurrency(e.target.value as "eth" | "erc20")}
+                      className="flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                    >
+                      <option value="eth">ETH</option>
+                      <option value="erc20">ERC-20 token</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="stakeAmount">Entry Stake</Label>
+                    <Input
+                      id="stakeAmount"
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={stakeAmount}
+                      onChange={(e) => setStakeAmount(e.target.value)}
+                      required
+                    />
+                  </div>
+                </div>
+
+                {stakeCurrency === "erc20" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="stakeToken">Token Address</Label>
+                    <Input
+                      id="stakeToken"
+                      placeholder="0x..."
+                      value={stakeToken}
+                      onChange={(e) => setStakeToken(e.target.value.trim())}
+                      required
+                    />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="payoutPreset">Payout</Label>
+                  <select
+                    id="payoutPreset"
+                    value={payoutPreset}
+                    onChange={(e) => setPayoutPreset(e.target.value)}
+                    className="flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                  >
+                    {PAYOUT_PRESETS.map((preset) => (
+                      <option key={preset.value} value={preset.value}>
+                        {preset.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    With fewer predictors than paid places, the unused shares go to the paid ones
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+
           <div className="flex gap-3">
             <Button
               type="button"
@@ -2,10 +2,15 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Gem, Zap, Vault, Send, RefreshCw } from "lucide-react";
+import { Gem, Zap, Vault, Send, CheckSquare, Square, Tag, Gavel } from "lucide-react";
 import { toast } from "sonner";
-import { useAccount } from "wagmi";
+import { useAccount, useReadContract } from "wagmi";
+import { isAddress } from "viem";
 import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { parseBallMetadata } from "@/lib/balls";
+import BallUpgradeDialog from "./BallUpgradeDialog";
+import SellBallDialog from "./SellBallDialog";
+import AuctionBallDialog from "./AuctionBallDialog";
 
 interface CryptoBallCardProps {
   ballId: number;
@@ -14,7 +19,11 @@ interface CryptoBallCardProps {
   powerLevel: number;
   owner: string;
   isActive: boolean;
-  onTransfer?: (ballId: number) => void;
+  onTransfer?: (ballId: number) => void; // Called once the ball leaves the wallet (transfer, sale or auction)
+  selected?: boolean;
+  onSelect?: (ballId: number) => void; // Shows a select toggle (fusion / burning into another ball)
+  consumableBallIds?: number[]; // Selected balls the upgrade dialog can burn into this one
+  onUpgrade?: () => void; // Called once an upgrade is confirmed
 }
 
 const CryptoBallCard = ({
@@ -24,14 +33,34 @@ const CryptoBallCard = ({
   powerLevel,
   owner,
   isActive,
-  onTransfer
+  onTransfer,
+  selected = false,
+  onSelect,
+  consumableBallIds = [],
+  onUpgrade,
 }: CryptoBallCardProps) => {
-  const { isConnected, address } = useAccount();
-  const [isGenerating, setIsGenerating] = useState(false);
+  const { address } = useAccount();
   const [transferAddress, setTransferAddress] = useState("");
   const [showTransfer, setShowTransfer] = useState(false);
-
-  const { generateCryptoBall, transferCryptoBall } = useCryptoPriceGuess();
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [upgradeOpen, setUpgradeOpen] = useState(false);
+  const [sellOpen, setSellOpen] = useState(false);
+  const [auctionOpen, setAuctionOpen] = useState(false);
+
+  const { transferCryptoBall, getBallTokenURIConfig, isPending, isConfirmed } = useCryptoPriceGuess();
+  const { data: tokenUri } = useReadContract(getBallTokenURIConfig(ballId));
+  const metadata = tokenUri ? parseBallMetadata(tokenUri) : undefined;
+  const isOwner = !!address && address.toLowerCase() === owner.toLowerCase();
+
+  useEffect(() => {
+    if (isConfirmed && isTransferring) {
+      toast.success("Ball transferred successfully!");
+      setIsTransferring(false);
+      setShowTransfer(false);
+      setTransferAddress("");
+      onTransfer?.(ballId);
+    }
+  }, [isConfirmed, isTransferring, onTransfer, ballId]);
 
   const getBallTypeInfo = (type: number) => {
     switch (type) {
@@ -49,49 +78,14 @@ const CryptoBallCard = ({
   const ballTypeInfo = getBallTypeInfo(ballType);
   const BallIcon = ballTypeInfo.icon;
 
-  const handleGenerateBall = async (eventId: number) => {
-    if (!isConnected) {
-      toast.error("Please connect your wallet to generate CryptoBalls");
-      return;
-    }
-
-    if (!address) {
-      toast.error("Wallet address not available");
-      return;
-    }
-
-    setIsGenerating(true);
-    try {
-      await generateCryptoBall(eventId);
-      toast.success("CryptoBall generated successfully!");
-    } catch (error: any) {
-      console.error("Failed to generate ball:", error);
-
-      // Enhanced error handling with specific messages
-      if (error?.message?.includes("User must have submitted prediction")) {
-        toast.error("You must submit a prediction for this event before generating a ball");
-      } else if (error?.message?.includes("Event must be finalized")) {
-        toast.error("Event must be finalized before generating balls");
-      } else if (error?.message?.includes("User denied")) {
-        toast.error("Transaction cancelled by user");
-      } else if (error?.message?.includes("insufficient funds")) {
-        toast.error("Insufficient funds for transaction");
-      } else {
-        toast.error("Failed to generate CryptoBall: " + (error?.message || "Unknown error"));
-      }
-    } finally {
-      setIsGenerating(false);
-    }
-  };
-
   const handleTransfer = async () => {
-    if (!transferAddress || !transferAddress.startsWith("0x")) {
+    if (!isAddress(transferAddress)) {
       toast.error("Invalid address");
       return;
     }
 
     // Verify ownership before allowing transfer
-    if (address !== owner) {
+    if (!isOwner) {
       toast.error("You are not the owner of this ball");
       return;
     }
@@ -102,14 +96,13 @@ const CryptoBallCard = ({
       return;
     }
 
+    setIsTransferring(true);
     try {
       await transferCryptoBall(ballId, transferAddress);
-      toast.success("Ball transferred successfully!");
-      setShowTransfer(false);
-      setTransferAddress("");
     } catch (error) {
       console.error("Transfer failed:", error);
       toast.error("Transfer failed: " + (error as Error).message);
+      setIsTransferring(false);
     }
   };
 
@@ -118,7 +111,9 @@ const CryptoBallCard = ({
   };
 
   return (
-    <Card className="w-full max-w-md mx-auto sm:max-w-sm md:max-w-md lg:max-w-lg">
+    <Card
+      className={`w-full max-w-md mx-auto sm:max-w-sm md:max-w-md lg:max-w-lg ${selected ? "ring-2 ring-primary" : ""}`}
+    >
       <CardHeader className="pb-3">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
           <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
@@ -135,6 +130,10 @@ const CryptoBallCard = ({
       </CardHeader>
 
       <CardContent className="space-y-3 sm:space-y-4 px-4 sm:px-6">
+        {metadata && (
+          <img src={metadata.image} alt={metadata.name} className="w-full aspect-square rounded-lg" />
+        )}
+
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 text-sm">
           <div className="bg-muted/50 p-2 sm:p-3 rounded-lg">
             <span className="font-medium block text-xs sm:text-sm">Ball ID:</span>
@@ -153,8 +152,8 @@ const CryptoBallCard = ({
           </p>
         </div>
 
-        <div className="flex flex-col sm:flex-row gap-2">
-          {address === owner && (
+        {isOwner && isActive && (
+          <div className="flex flex-col sm:flex-row gap-2">
             <Button
               variant="outline"
               size="sm"
@@ -164,19 +163,31 @@ const CryptoBallCard = ({
               <Send className="w-4 h-4 mr-2" />
               Transfer
             </Button>
-          )}
-
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => handleGenerateBall(0)} // BUG: Hardcoded event ID
-            disabled={isGenerating}
-            className="w-full sm:flex-1"
-          >
-            <RefreshCw className={`w-4 h-4 mr-2 ${isGenerating ? 'animate-spin' : ''}`} />
-            Generate
-          </Button>
-        </div>
+            <Button variant="outline" size="sm" onClick={() => setUpgradeOpen(true)} className="w-full sm:flex-1">
+              <Zap className="w-4 h-4 mr-2" />
+              Upgrade
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setSellOpen(true)} className="w-full sm:flex-1">
+              <Tag className="w-4 h-4 mr-2" />
+              Sell
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAuctionOpen(true)} className="w-full sm:flex-1">
+              <Gavel className="w-4 h-4 mr-2" />
+              Auction
+            </Button>
+            {onSelect && (
+              <Button
+                variant={selected ? "default" : "outline"}
+                size="sm"
+                onClick={() => onSelect(ballId)}
+                className="w-full sm:flex-1"
+              >
+                {selected ? <CheckSquare className="w-4 h-4 mr-2" /> : <Square className="w-4 h-4 mr-2" />}
+                {selected ? "Selected" : "Select"}
+              </Button>
+            )}
+          </div>
+        )}
 
         {showTransfer && (
           <div className="space-y-3 p-3 sm:p-4 bg-muted/50 rounded-lg border">
@@ -191,8 +202,13 @@ const CryptoBallCard = ({
               />
             </div>
             <div className="flex flex-col sm:flex-row gap-2">
-              <Button size="sm" onClick={handleTransfer} className="flex-1 order-2 sm:order-1">
-                Confirm Transfer
+              <Button
+                size="sm"
+                onClick={handleTransfer}
+                disabled={isTransferring || isPending}
+                className="flex-1 order-2 sm:order-1"
+              >
+                {isTransferring || isPending ? "Transferring..." : "Confirm Transfer"}
               </Button>
               <Button
                 size="sm"
@@ -206,6 +222,27 @@ const CryptoBallCard = ({
           </div>
         )}
       </CardContent>
+
+      <BallUpgradeDialog
+        ballId={ballId}
+        powerLevel={powerLevel}
+        consumableBallIds={consumableBallIds.filter((id) => id !== ballId)}
+        open={upgradeOpen}
+        onOpenChange={setUpgradeOpen}
+        onUpgrade={onUpgrade}
+      />
+      <SellBallDialog
+        ballId={ballId}
+        open={sellOpen}
+        onOpenChange={setSellOpen}
+        onSold={() => onTransfer?.(ballId)}
+      />
+      <AuctionBallDialog
+        ballId={ballId}
+        open={auctionOpen}
+        onOpenChange={setAuctionOpen}
+        onCreated={() => onTransfer?.(ballId)}
+      />
     </Card>
   );
 };
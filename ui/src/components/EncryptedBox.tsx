@@ -59,7 +59,7 @@ const EncryptedBox = ({ prediction, revealed = false, username, onReveal }: Encr
           <div className="absolute inset-0 bg-gradient-to-r from-transparent via-primary/20 to-transparent animate-shimmer" />
         )}
       </div>
-      {!isRevealed && (
+      {!isRevealed && onReveal && (
         <button
           onClick={handleReveal}
           disabled={isRevealing}
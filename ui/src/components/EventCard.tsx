@@ -1,17 +1,25 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Calendar, Users, CheckCircle2, Shield } from "lucide-react";
+import { Calendar, Users, CheckCircle2, Shield, Coins, Gift, Gem } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { useAccount } from "wagmi";
 import { useReadContract } from "wagmi";
 import PredictionModal from "./PredictionModal";
+import PredictionHistogram from "./PredictionHistogram";
 import AdminPanel from "./AdminPanel";
 import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useEventPool } from "@/hooks/useEventPool";
+import { useEventMarket } from "@/hooks/useEventMarket";
+import { MARKET_KIND_LABELS, MarketKind, formatBucketLabels } from "@/lib/markets";
+import { Progress } from "@/components/ui/progress";
+import { formatUsdPrice } from "@/lib/utils";
 
 interface EventCardProps {
   id: number;
   title: string;
-  category: string;
+  category: string; // asset symbol
+  priceScale?: number; // prices are stored as USD * priceScale
   endDate: string;
   participants: number;
   status: "active" | "ended";
@@ -26,6 +34,7 @@ const EventCard = ({
   id, 
   title, 
   category, 
+  priceScale = 100,
   endDate, 
   participants, 
   status, 
@@ -38,6 +47,79 @@ const EventCard = ({
   const { isConnected, address } = useAccount();
   const [modalOpen, setModalOpen] = useState(false);
   const [adminPanelOpen, setAdminPanelOpen] = useState(false);
+  const navigate = useNavigate();
+  const {
+    getClaimableAmountConfig,
+    getResolutionOverdueConfig,
+    getUserPredictedConfig,
+    getHasClaimedBallConfig,
+    claimWinnings,
+    claimRefund,
+    generateCryptoBall,
+    isPending,
+    isConfirmed,
+  } = useCryptoPriceGuess();
+  const { pool, formatStake, refetch: refetchPool } = useEventPool(id);
+  const { data: claimable, refetch: refetchClaimable } = useReadContract(getClaimableAmountConfig(id));
+  const { data: isOverdue } = useReadContract(getResolutionOverdueConfig(id));
+  const { data: hasPredicted } = useReadContract(getUserPredictedConfig(id));
+  const { data: hasClaimedBall, refetch: refetchClaimedBall } = useReadContract(getHasClaimedBallConfig(id));
+  const { market, refetch: refetchMarket } = useEventMarket(id);
+  const kind = market?.kind ?? MarketKind.PRICE;
+
+  // Market results are decrypted together with the average at finalize
+  useEffect(() => {
+    if (isFinalized) {
+      refetchMarket();
+    }
+  }, [isFinalized, refetchMarket]);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const isCancelled = pool?.isCancelled ?? false;
+  // Once the admin misses the resolution deadline, the first refund cancels the event
+  const isRefundable = isCancelled || !!isOverdue;
+  const claimableAmount = claimable ?? 0n;
+
+  useEffect(() => {
+    if (isConfirmed && isClaiming) {
+      toast.success(isRefundable ? "Stake refunded" : "Winnings claimed");
+      setIsClaiming(false);
+      refetchClaimable();
+      refetchPool();
+    }
+  }, [isConfirmed, isClaiming, isRefundable, refetchClaimable, refetchPool]);
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    try {
+      await (isRefundable ? claimRefund(id) : claimWinnings(id));
+    } catch (error) {
+      toast.error((error as Error)?.message || "Failed to claim");
+      setIsClaiming(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isConfirmed && isGenerating) {
+      // The ball is minted once the oracle decrypts its rarity tier
+      toast.success("CryptoBall claimed - it appears in My Balls once its rarity is revealed", {
+        action: { label: "My Balls", onClick: () => navigate("/balls") },
+      });
+      setIsGenerating(false);
+      refetchClaimedBall();
+    }
+  }, [isConfirmed, isGenerating, navigate, refetchClaimedBall]);
+
+  const handleGenerateBall = async () => {
+    setIsGenerating(true);
+    try {
+      await generateCryptoBall(id);
+    } catch (error) {
+      toast.error((error as Error)?.message || "Failed to generate CryptoBall");
+      setIsGenerating(false);
+    }
+  };
 
   const handlePredict = () => {
     if (!isConnected) {
@@ -47,13 +129,31 @@ const EventCard = ({
     setModalOpen(true);
   };
 
-  // Format price from cents to USD
-  const formatPrice = (priceInCents?: number) => {
-    if (!priceInCents || priceInCents === 0) return "N/A";
-    return `$${(priceInCents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  // Format a scaled on-chain price as USD
+  const formatPrice = (price?: number) => {
+    if (!price || price === 0) return "N/A";
+    return formatUsdPrice(price, priceScale);
   };
 
   const isAdmin = address && admin && address.toLowerCase() === admin.toLowerCase();
+
+  const hasActualPrice = !!actualPrice && actualPrice > 0;
+  const marketLabel =
+    kind === MarketKind.THRESHOLD && market
+      ? `Above ${formatPrice(market.params[0])}?`
+      : kind !== MarketKind.PRICE
+      ? MARKET_KIND_LABELS[kind]
+      : undefined;
+
+  // RANGE markets and PRICE events created with histogram bounds reveal one count per bucket
+  const bucketLabels =
+    kind === MarketKind.RANGE || (kind === MarketKind.PRICE && (market?.params.length ?? 0) > 0)
+      ? formatBucketLabels(market?.params ?? [], priceScale)
+      : [];
+  // THRESHOLD: [below, above]. The row the actual price resolved to is highlighted
+  const tallyRows = kind === MarketKind.THRESHOLD ? ["At or below", "Above"] : [];
+  const outcomeLabels = kind === MarketKind.THRESHOLD ? tallyRows : bucketLabels;
+  const totalTally = market?.results.reduce((sum, count) => sum + count, 0) ?? 0;
   
   // Debug: log admin check
   useEffect(() => {
@@ -73,19 +173,22 @@ const EventCard = ({
         <div>
           <div className="text-xs text-accent uppercase tracking-wider mb-1">
             {category}
+            {marketLabel && <span className="text-muted-foreground"> · {marketLabel}</span>}
           </div>
           <h3 className="text-xl font-bold">{title}</h3>
         </div>
         <div
           className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-300 ${
-            status === "active"
+            isCancelled
+              ? "bg-destructive/20 text-destructive"
+              : status === "active"
               ? "bg-accent/20 text-accent animate-pulse"
               : isFinalized
               ? "bg-primary/20 text-primary"
               : "bg-muted text-muted-foreground"
           }`}
         >
-          {isFinalized ? "Finalized" : status === "active" ? "Live" : "Ended"}
+          {isCancelled ? "Cancelled" : isFinalized ? "Finalized" : status === "active" ? "Live" : "Ended"}
         </div>
       </div>
       <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
@@ -99,6 +202,17 @@ const EventCard = ({
         </div>
       </div>
 
+      {pool?.isStaked && (
+        <div className="flex items-center justify-between bg-accent/10 border border-accent/20 rounded-lg px-4 py-3 mb-4 text-sm">
+          <div className="flex items-center gap-2">
+            <Coins className="w-4 h-4 text-accent" />
+            <span className="text-muted-foreground">Prize pool</span>
+            <span className="font-bold text-accent">{formatStake(pool.totalStaked)}</span>
+          </div>
+          <span className="text-xs text-muted-foreground">Entry {formatStake(pool.stakeAmount)}</span>
+        </div>
+      )}
+
       {/* Show decrypted results if finalized */}
       {isFinalized && (
         <div className="bg-primary/10 border border-primary/20 rounded-lg p-4 mb-4 space-y-2">
@@ -107,14 +221,34 @@ const EventCard = ({
             <span>Results Decrypted</span>
           </div>
           <div className="grid grid-cols-2 gap-2 text-xs">
-            <div>
-              <div className="text-muted-foreground">Average Prediction</div>
-              <div className="font-bold text-accent">
-                {decryptedAveragePrice && decryptedAveragePrice > 0 
-                  ? formatPrice(decryptedAveragePrice) 
-                  : "Decrypting..."}
+            {kind === MarketKind.PRICE && (
+              <div>
+                <div className="text-muted-foreground">Average Prediction</div>
+                <div className="font-bold text-accent">
+                  {decryptedAveragePrice && decryptedAveragePrice > 0 
+                    ? formatPrice(decryptedAveragePrice) 
+                    : "Decrypting..."}
+                </div>
               </div>
-            </div>
+            )}
+            {kind === MarketKind.BOUNDS && (
+              <div>
+                <div className="text-muted-foreground">Average Bounds</div>
+                <div className="font-bold text-accent">
+                  {market && market.results.length === 2
+                    ? `${formatPrice(market.results[0])} - ${formatPrice(market.results[1])}`
+                    : "Decrypting..."}
+                </div>
+              </div>
+            )}
+            {(kind === MarketKind.THRESHOLD || kind === MarketKind.RANGE) && (
+              <div>
+                <div className="text-muted-foreground">Outcome</div>
+                <div className="font-bold text-accent">
+                  {hasActualPrice ? outcomeLabels[market?.actualOutcome ?? 0] : "Pending"}
+                </div>
+              </div>
+            )}
             {actualPrice && actualPrice > 0 ? (
               <div>
                 <div className="text-muted-foreground">Actual Price</div>
@@ -127,17 +261,85 @@ const EventCard = ({
               </div>
             )}
           </div>
+          {tallyRows.length > 0 && (
+            <div className="space-y-2 pt-2">
+              {market && market.results.length === tallyRows.length ? (
+                tallyRows.map((label, index) => {
+                  const count = market.results[index];
+                  const isOutcome = hasActualPrice && market.actualOutcome === index;
+                  return (
+                    <div key={label} className="space-y-1 text-xs">
+                      <div className="flex justify-between">
+                        <span className={isOutcome ? "font-bold text-accent" : "text-muted-foreground"}>{label}</span>
+                        <span>{count}</span>
+                      </div>
+                      <Progress value={totalTally > 0 ? (count / totalTally) * 100 : 0} className="h-2" />
+                    </div>
+                  );
+                })
+              ) : (
+                <div className="text-xs text-muted-foreground">Decrypting tallies...</div>
+              )}
+            </div>
+          )}
+          {bucketLabels.length > 0 && (
+            <div className="pt-2">
+              {market && market.results.length === bucketLabels.length ? (
+                <PredictionHistogram
+                  labels={bucketLabels}
+                  counts={market.results}
+                  highlightedBucket={hasActualPrice ? market.actualOutcome : undefined}
+                />
+              ) : (
+                <div className="text-xs text-muted-foreground">Decrypting distribution...</div>
+              )}
+            </div>
+          )}
         </div>
       )}
 
+      {claimableAmount > 0n && (
+        <Button
+          onClick={handleClaim}
+          disabled={isClaiming || isPending}
+          className="w-full mb-2 neon-border"
+        >
+          <Gift className="w-4 h-4 mr-2" />
+          {isClaiming || isPending
+            ? "Claiming..."
+            : isRefundable
+            ? `Refund ${formatStake(claimableAmount)}`
+            : `Claim ${formatStake(claimableAmount)}`}
+        </Button>
+      )}
+
+      {/* Rarity depends on the prediction's accuracy, so the actual price must be set */}
+      {isFinalized && hasPredicted && !hasClaimedBall && !!actualPrice && actualPrice > 0 && (
+        <Button
+          onClick={handleGenerateBall}
+          disabled={isGenerating || isPending}
+          variant="outline"
+          className="w-full mb-2 border-primary/50 hover:bg-primary/10"
+        >
+          <Gem className="w-4 h-4 mr-2 text-primary" />
+          {isGenerating || isPending ? "Claiming..." : "Claim CryptoBall"}
+        </Button>
+      )}
+
       <div className="flex gap-2">
       <Button
         onClick={handlePredict}
-          disabled={status === "ended" && !isFinalized}
+          disabled={isCancelled || (status === "ended" && !isFinalized)}
           className="flex-1"
         variant={status === "active" ? "default" : "secondary"}
       >
-          {status === "active" ? "Submit Prediction" : isFinalized ? "View Results" : "Event Ended"}
+          {isCancelled
+            ? "Event Cancelled"
+            : status === "active"
+            ? "Submit Prediction"
+            : isFinalized
+            ? "View Results"
+            : "Event Ended"}
         </Button>
         {isAdmin && (
           <Button
@@ -157,7 +359,12 @@ const EventCard = ({
         onOpenChange={setModalOpen}
         eventTitle={title}
         eventId={id}
-        onSuccess={onPredictionSuccess}
+        assetSymbol={category}
+        priceScale={priceScale}
+        onSuccess={() => {
+          refetchPool();
+          onPredictionSuccess?.();
+        }}
       />
 
       <AdminPanel
@@ -2,6 +2,7 @@ import EventCard from "./EventCard";
 import { TrendingUp, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useAssets } from "@/hooks/useAssets";
 import { useMemo, useState, useEffect } from "react";
 import { useReadContract } from "wagmi";
 import CreateEventModal from "./CreateEventModal";
@@ -18,6 +19,7 @@ interface EventData {
 // Component to render a single event card with data fetching
 const EventCardWithData = ({ eventId, refreshKey, onRefresh }: { eventId: number; refreshKey?: number; onRefresh?: () => void }) => {
   const { getEventConfig } = useCryptoPriceGuess();
+  const { getAsset } = useAssets();
   const config = getEventConfig(eventId);
   const { data: eventData, refetch, isError, isLoading } = useReadContract({
     ...config,
@@ -44,7 +46,8 @@ const EventCardWithData = ({ eventId, refreshKey, onRefresh }: { eventId: number
     return null;
   }
 
-  const tokenType = eventData[1] === 0 ? "BTC" : "ETH";
+  const asset = getAsset(eventData[1]);
+  const symbol = asset?.symbol ?? `Asset #${eventData[1]}`;
   const endTime = Number(eventData[3]) * 1000;
   const isActive = eventData[4];
   const isFinalized = eventData[5];
@@ -55,8 +58,9 @@ const EventCardWithData = ({ eventId, refreshKey, onRefresh }: { eventId: number
 
   const event = {
     id: eventId,
-    title: eventData[0] || `${tokenType} Price Prediction`,
-    category: "Crypto",
+    title: eventData[0] || `${symbol} Price Prediction`,
+    category: symbol,
+    priceScale: asset?.priceScale,
     endDate: new Date(endTime).toLocaleDateString(),
     participants: totalPredictions,
     status: isActive ? ("active" as const) : ("ended" as const),
@@ -73,17 +77,23 @@ const EventCardWithData = ({ eventId, refreshKey, onRefresh }: { eventId: number
 };
 
 const EventsList = () => {
-  const { eventCount, refetchEventCount } = useCryptoPriceGuess();
+  const { eventCount, refetchEventCount, getEventsByAssetConfig } = useCryptoPriceGuess();
+  const { assets } = useAssets();
   const [refreshKey, setRefreshKey] = useState(0);
   const [createEventModalOpen, setCreateEventModalOpen] = useState(false);
+  const [assetFilter, setAssetFilter] = useState<number | null>(null);
+
+  // With an asset selected, the contract filters the events (getFilteredEvents)
+  const { data: filteredEvents } = useReadContract(getEventsByAssetConfig(assetFilter, eventCount));
 
   // Create array of event IDs - only create if eventCount > 0
-  const eventIds = useMemo(() => {
+  const allEventIds = useMemo(() => {
     if (!eventCount || eventCount === 0) {
       return [];
     }
     return Array.from({ length: eventCount }, (_, i) => i);
   }, [eventCount]);
+  const eventIds = assetFilter === null ? allEventIds : (filteredEvents?.[0] ?? []).map(Number);
 
   // Function to trigger refresh
   const handleRefresh = () => {
@@ -91,7 +101,7 @@ const EventsList = () => {
   };
 
   // Show placeholder message if no contract events
-  if (eventIds.length === 0) {
+  if (allEventIds.length === 0) {
     return (
       <section className="py-16 px-4 bg-secondary/30 relative overflow-hidden">
         {/* Background decorations */}
@@ -167,6 +177,32 @@ const EventsList = () => {
             Create Event
           </Button>
         </div>
+        {assets.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-6 animate-fade-in-up">
+            <Button
+              size="sm"
+              variant={assetFilter === null ? "default" : "outline"}
+              onClick={() => setAssetFilter(null)}
+            >
+              All
+            </Button>
+            {assets.map((asset) => (
+              <Button
+                key={asset.assetId}
+                size="sm"
+                variant={assetFilter === asset.assetId ? "default" : "outline"}
+                onClick={() => setAssetFilter(asset.assetId)}
+              >
+                {asset.symbol}
+              </Button>
+            ))}
+          </div>
+        )}
+        {eventIds.length === 0 && (
+          <div className="glass-effect rounded-xl p-8 text-center text-muted-foreground">
+            No events for this asset yet.
+          </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {eventIds.map((eventId, index) => (
             <div
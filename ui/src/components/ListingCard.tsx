@@ -0,0 +1,149 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { HandCoins, ShoppingCart } from "lucide-react";
+import { toast } from "sonner";
+import { useAccount, useReadContract } from "wagmi";
+import { formatEther } from "viem";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useCryptoBallMarketplace } from "@/hooks/useCryptoBallMarketplace";
+import { BALL_TYPE_NAMES, parseBallMetadata } from "@/lib/balls";
+
+interface ListingCardProps {
+  ballId: number;
+  price: bigint; // In wei
+  seller: string;
+  onChange?: () => void; // Called once a purchase, offer or cancellation is confirmed
+}
+
+const ListingCard = ({ ballId, price, seller, onChange }: ListingCardProps) => {
+  const { address } = useAccount();
+  const { getCryptoBallConfig, getBallTokenURIConfig } = useCryptoPriceGuess();
+  const { buyBall, cancelListing, makeOffer, cancelOffer, getOffersConfig, isPending, isConfirmed } =
+    useCryptoBallMarketplace();
+  const { data: ball } = useReadContract(getCryptoBallConfig(ballId));
+  const { data: tokenUri } = useReadContract(getBallTokenURIConfig(ballId));
+  const { data: offers, refetch: refetchOffers } = useReadContract(getOffersConfig(ballId));
+  const [offerAmount, setOfferAmount] = useState("");
+  const [action, setAction] = useState<"buy" | "cancel" | "offer" | "cancelOffer" | null>(null);
+
+  const metadata = tokenUri ? parseBallMetadata(tokenUri) : undefined;
+  const isSeller = !!address && address.toLowerCase() === seller.toLowerCase();
+  const [buyers, amounts] = offers ?? [[], []];
+  const myOfferIndex = buyers.findIndex((buyer) => !!address && buyer.toLowerCase() === address.toLowerCase());
+  const bestOffer = amounts.reduce((best, amount) => (amount > best ? amount : best), 0n);
+
+  useEffect(() => {
+    if (isConfirmed && action) {
+      const messages = {
+        buy: `Bought Ball #${ballId}`,
+        cancel: "Listing cancelled",
+        offer: "Offer placed",
+        cancelOffer: "Offer cancelled, withdraw the refund from your proceeds",
+      };
+      toast.success(messages[action]);
+      setAction(null);
+      setOfferAmount("");
+      refetchOffers();
+      onChange?.();
+    }
+  }, [isConfirmed, action, ballId, refetchOffers, onChange]);
+
+  const run = async (next: NonNullable<typeof action>, call: () => Promise<unknown>) => {
+    if (!address) {
+      toast.error("Connect your wallet first");
+      return;
+    }
+    setAction(next);
+    try {
+      await call();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Transaction failed");
+      setAction(null);
+    }
+  };
+
+  const handleOffer = () => {
+    if (!(Number(offerAmount) > 0)) {
+      toast.error("Enter an offer greater than 0");
+      return;
+    }
+    run("offer", () => makeOffer(ballId, offerAmount));
+  };
+
+  const busy = action !== null || isPending;
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">
+            {ball ? `${BALL_TYPE_NAMES[ball[0]]} Ball` : "CryptoBall"} #{ballId}
+          </CardTitle>
+          {ball && <Badge variant="secondary">Power {ball[2].toString()}</Badge>}
+        </div>
+        <CardDescription className="font-mono text-xs truncate">Seller {seller}</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {metadata && <img src={metadata.image} alt={metadata.name} className="w-full aspect-square rounded-lg" />}
+
+        <div className="flex items-center justify-between text-sm bg-muted/50 p-3 rounded-lg">
+          <span className="font-medium">{formatEther(price)} ETH</span>
+          <span className="text-muted-foreground text-xs">
+            {buyers.length > 0 ? `${buyers.length} offers · best ${formatEther(bestOffer)} ETH` : "No offers"}
+          </span>
+        </div>
+
+        {isSeller ? (
+          <Button
+            variant="outline"
+            onClick={() => run("cancel", () => cancelListing(ballId))}
+            disabled={busy}
+            className="w-full"
+          >
+            Cancel listing
+          </Button>
+        ) : (
+          <>
+            <Button onClick={() => run("buy", () => buyBall(ballId, price))} disabled={busy} className="w-full">
+              <ShoppingCart className="w-4 h-4 mr-2" />
+              Buy
+            </Button>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                placeholder="Offer in ETH"
+                value={offerAmount}
+                onChange={(e) => setOfferAmount(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleOffer} disabled={busy}>
+                <HandCoins className="w-4 h-4 mr-2" />
+                Offer
+              </Button>
+            </div>
+            {myOfferIndex >= 0 && (
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Your offer: {formatEther(amounts[myOfferIndex])} ETH</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => run("cancelOffer", () => cancelOffer(ballId))}
+                  disabled={busy}
+                >
+                  Cancel offer
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ListingCard;
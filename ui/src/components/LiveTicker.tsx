@@ -1,23 +1,80 @@
-import { CheckCircle2, Sparkles } from "lucide-react";
+import { CheckCircle2, Gem, Lock, Pencil, Radio, Sparkles, Trophy, Undo2, Zap } from "lucide-react";
+import { useCryptoPriceGuessEvents, type ContractFeedItem } from "@/hooks/useCryptoPriceGuessEvents";
+import { useDisplayNames } from "@/hooks/useDisplayNames";
+import { useAssets } from "@/hooks/useAssets";
+import { formatUsdPrice } from "@/lib/utils";
+import { BALL_TYPE_NAMES } from "@/lib/balls";
+
+// Most recent logs shown in the ticker
+const TICKER_SIZE = 20;
+
+const TICKER_ICONS = {
+  PredictionEventCreated: Radio,
+  PredictionSubmitted: Lock,
+  PredictionUpdated: Pencil,
+  PredictionWithdrawn: Undo2,
+  ActualPriceSet: CheckCircle2,
+  PredictionEventFinalized: CheckCircle2,
+  LeaderboardRevealed: Trophy,
+  CryptoBallGenerated: Gem,
+  BallPowerUpgraded: Zap,
+};
 
 const LiveTicker = () => {
-  const results = [
-    "BTC Price Prediction - Result Verified ✓",
-    "ETH Price Prediction - Resolved ✓",
-    "BTC Weekly Forecast - Result Confirmed ✓",
-    "ETH Monthly Forecast - Verified ✓",
-    "BTC Price Range - Result Posted ✓",
-    "ETH Price Target - Confirmed ✓",
-  ];
+  const { items, eventTitles, eventAssetIds, isBackfilling } = useCryptoPriceGuessEvents();
+  const { getPriceScale } = useAssets();
+  const latest = items.slice(0, TICKER_SIZE);
+  const displayName = useDisplayNames(latest.filter((item) => item.user).map((item) => item.user as string));
+
+  const eventLabel = (item: ContractFeedItem) => eventTitles.get(item.eventId ?? -1) || `Event #${item.eventId}`;
+  const formatPrice = (item: ContractFeedItem) =>
+    formatUsdPrice(item.price!, getPriceScale(eventAssetIds.get(item.eventId ?? -1)));
+
+  const describe = (item: ContractFeedItem) => {
+    switch (item.eventName) {
+      case "PredictionEventCreated":
+        return `New event: ${eventLabel(item)}`;
+      case "PredictionSubmitted":
+        return `${displayName(item.user!)} submitted an encrypted prediction on ${eventLabel(item)}`;
+      case "PredictionUpdated":
+        return `${displayName(item.user!)} updated their encrypted prediction on ${eventLabel(item)}`;
+      case "PredictionWithdrawn":
+        return `${displayName(item.user!)} withdrew from ${eventLabel(item)}`;
+      case "ActualPriceSet":
+        return `${eventLabel(item)} - actual price set at ${formatPrice(item)}`;
+      case "PredictionEventFinalized":
+        // Threshold and range markets reveal tallies instead of an average
+        return item.price
+          ? `${eventLabel(item)} - finalized, average prediction ${formatPrice(item)}`
+          : `${eventLabel(item)} - finalized, tallies revealed`;
+      case "LeaderboardRevealed":
+        return `${displayName(item.user!)} won ${eventLabel(item)}`;
+      case "CryptoBallGenerated":
+        return `${displayName(item.user!)} minted ${BALL_TYPE_NAMES[item.ballType!] ?? "a"} Ball #${item.ballId}`;
+      case "BallPowerUpgraded":
+        return `${displayName(item.user!)} powered Ball #${item.ballId} up to ${item.powerLevel}`;
+    }
+  };
+
+  const entries =
+    latest.length > 0
+      ? latest.map((item) => ({ key: item.id, Icon: TICKER_ICONS[item.eventName], text: describe(item) }))
+      : [
+          {
+            key: "idle",
+            Icon: Radio,
+            text: isBackfilling ? "Loading on-chain activity..." : "Waiting for on-chain activity...",
+          },
+        ];
 
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-card/95 backdrop-blur-sm border-t border-primary/30 overflow-hidden py-3 z-40">
       <div className="absolute inset-0 bg-gradient-to-r from-primary/5 via-transparent to-encrypted/5" />
       <div className="flex items-center gap-8 animate-ticker whitespace-nowrap relative">
-        {[...results, ...results].map((result, index) => (
-          <div key={index} className="flex items-center gap-2 text-sm group">
-            <CheckCircle2 className="w-4 h-4 text-accent group-hover:scale-110 transition-transform" />
-            <span className="text-muted-foreground group-hover:text-foreground transition-colors">{result}</span>
+        {[...entries, ...entries].map(({ key, Icon, text }, index) => (
+          <div key={`${key}-${index}`} className="flex items-center gap-2 text-sm group">
+            <Icon className="w-4 h-4 text-accent group-hover:scale-110 transition-transform" />
+            <span className="text-muted-foreground group-hover:text-foreground transition-colors">{text}</span>
             <Sparkles className="w-3 h-3 text-primary/50" />
           </div>
         ))}
@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Eye, Lock } from "lucide-react";
+import { useAccount, useReadContract, useWalletClient } from "wagmi";
+import { formatEther, parseEther } from "viem";
+import { ethers } from "ethers";
+import { useCryptoBallAuction } from "@/hooks/useCryptoBallAuction";
+import { toBytes32Hex, useFhevmInstance } from "@/fhevm/useFhevmInstance";
+import { userDecryptHandles } from "@/fhevm/userDecrypt";
+
+interface PlaceBidDialogProps {
+  auctionId: number;
+  ballId: number;
+  reservePrice: bigint;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onBid?: () => void; // Called once the bid is confirmed
+}
+
+// Bids are encrypted in the browser; only the deposit backing them is public
+const PlaceBidDialog = ({ auctionId, ballId, reservePrice, open, onOpenChange, onBid }: PlaceBidDialogProps) => {
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const { auctionAddress, placeBid, getDepositConfig, getEncryptedBidConfig, isPending, isConfirmed } =
+    useCryptoBallAuction();
+  const { fhevmInstance, fhevmLoading } = useFhevmInstance(open && !!auctionAddress);
+  const { data: deposit, refetch: refetchDeposit } = useReadContract(getDepositConfig(auctionId));
+  const { data: encryptedBid, refetch: refetchEncryptedBid } = useReadContract(getEncryptedBidConfig(auctionId));
+  const [bid, setBid] = useState("");
+  const [depositAmount, setDepositAmount] = useState("");
+  const [isBidding, setIsBidding] = useState(false);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [clearBid, setClearBid] = useState<bigint | null>(null);
+
+  const hasBid = (deposit ?? 0n) > 0n;
+
+  useEffect(() => {
+    if (isConfirmed && isBidding) {
+      toast.success(`Sealed bid placed on auction #${auctionId}`);
+      setIsBidding(false);
+      setBid("");
+      setDepositAmount("");
+      refetchDeposit();
+      refetchEncryptedBid();
+      onBid?.();
+    }
+  }, [isConfirmed, isBidding, auctionId, refetchDeposit, refetchEncryptedBid, onBid]);
+
+  const handleBid = async () => {
+    if (!address || !auctionAddress) {
+      toast.error("Connect your wallet first");
+      return;
+    }
+    if (!fhevmInstance) {
+      toast.error("FHE encryption not ready. Please wait...");
+      return;
+    }
+
+    let bidWei: bigint;
+    let depositWei: bigint;
+    try {
+      bidWei = parseEther(bid);
+      depositWei = parseEther(depositAmount || bid);
+    } catch {
+      toast.error("Enter amounts in ETH");
+      return;
+    }
+    if (bidWei <= 0n) {
+      toast.error("Enter a bid greater than 0");
+      return;
+    }
+    if (depositWei < bidWei) {
+      toast.error("The deposit must cover the bid, a larger bid would count as zero");
+      return;
+    }
+    if (bidWei < reservePrice) {
+      toast.warning("Your bid is below the reserve price and cannot win");
+    }
+
+    setIsBidding(true);
+    try {
+      const input = fhevmInstance.createEncryptedInput(auctionAddress, address);
+      input.add64(bidWei);
+      const encrypted = await input.encrypt();
+      const inputProof =
+        typeof encrypted.inputProof === "string" ? encrypted.inputProof : ethers.hexlify(encrypted.inputProof);
+
+      await placeBid(auctionId, toBytes32Hex(encrypted.handles[0]), inputProof as `0x${string}`, depositWei);
+    } catch (error) {
+      toast.error((error as Error)?.message || "Bid failed");
+      setIsBidding(false);
+    }
+  };
+
+  // EIP-712 signed request: only the bidder can read their own bid
+  const handleDecrypt = async () => {
+    if (!fhevmInstance || !walletClient || !auctionAddress || !encryptedBid) {
+      toast.error("FHE encryption not ready. Please wait...");
+      return;
+    }
+
+    setIsDecrypting(true);
+    try {
+      const signer = await new ethers.BrowserProvider(walletClient as unknown as ethers.Eip1193Provider).getSigner();
+      const [value] = await userDecryptHandles(fhevmInstance, signer, auctionAddress, [encryptedBid]);
+      setClearBid(value);
+    } catch (error) {
+      toast.error((error as Error)?.message || "Decryption failed");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] glass-effect border-primary/20">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Lock className="w-6 h-6 text-primary" />
+            Bid on Ball #{ballId}
+          </DialogTitle>
+          <DialogDescription>
+            Your bid is encrypted and never revealed unless it wins. The deposit is public: deposit more than you
+            bid to hide it, everything above a winning bid (or all of it if you lose) is refunded.
+            {reservePrice > 0n && ` Reserve price: ${formatEther(reservePrice)} ETH.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasBid ? (
+          <div className="bg-muted/50 rounded-lg p-4 space-y-3 mt-4 text-sm">
+            <div className="flex justify-between">
+              <span className="font-medium">Your deposit</span>
+              <span className="text-muted-foreground">{formatEther(deposit!)} ETH</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Your sealed bid</span>
+              {clearBid !== null ? (
+                <span className="text-muted-foreground">
+                  {clearBid > 0n ? `${formatEther(clearBid)} ETH` : "0 (exceeded the deposit)"}
+                </span>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDecrypt}
+                  disabled={isDecrypting || fhevmLoading || !fhevmInstance}
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  {isDecrypting ? "Decrypting..." : "Decrypt"}
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">One sealed bid per auction.</p>
+          </div>
+        ) : (
+          <div className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor={`bid-${auctionId}`}>Bid (ETH, encrypted)</Label>
+              <Input
+                id={`bid-${auctionId}`}
+                type="number"
+                min={0}
+                step="any"
+                placeholder="0.25"
+                value={bid}
+                onChange={(e) => setBid(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`deposit-${auctionId}`}>Deposit (ETH, public, defaults to the bid)</Label>
+              <Input
+                id={`deposit-${auctionId}`}
+                type="number"
+                min={0}
+                step="any"
+                placeholder={bid || "1"}
+                value={depositAmount}
+                onChange={(e) => setDepositAmount(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleBid}
+              disabled={isBidding || isPending || fhevmLoading || !fhevmInstance}
+              className="w-full"
+            >
+              {fhevmLoading ? "Initializing FHE..." : isBidding || isPending ? "Bidding..." : "Place sealed bid"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlaceBidDialog;
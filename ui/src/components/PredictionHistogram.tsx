@@ -0,0 +1,40 @@
+import { Bar, BarChart, CartesianGrid, Cell, XAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+
+const chartConfig = {
+  count: {
+    label: "Predictions",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+interface PredictionHistogramProps {
+  labels: string[]; // one per bucket, see formatBucketLabels
+  counts: readonly number[];
+  highlightedBucket?: number; // bucket the actual price fell in
+}
+
+// Decrypted per-bucket prediction counts of an event
+const PredictionHistogram = ({ labels, counts, highlightedBucket }: PredictionHistogramProps) => {
+  const data = labels.map((bucket, index) => ({ bucket, count: counts[index] ?? 0 }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+      <BarChart data={data} margin={{ top: 8, right: 0, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="bucket" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+        <Bar dataKey="count" radius={4}>
+          {data.map((entry, index) => (
+            <Cell
+              key={entry.bucket}
+              fill={index === highlightedBucket ? "hsl(var(--accent))" : "var(--color-count)"}
+            />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default PredictionHistogram;
@@ -4,36 +4,139 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
-import { Lock } from "lucide-react";
-import { useAccount, useWalletClient, useChainId, useReadContract } from "wagmi";
+import { Coins, Lock, Pencil, Undo2 } from "lucide-react";
+import { erc20Abi } from "viem";
+import {
+  useAccount,
+  useWalletClient,
+  useReadContract,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from "wagmi";
 import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useEventPool } from "@/hooks/useEventPool";
+import { useEventMarket } from "@/hooks/useEventMarket";
+import { MarketKind, formatBucketLabels } from "@/lib/markets";
+import { formatUsdPrice } from "@/lib/utils";
+import { userDecryptHandles } from "@/fhevm/userDecrypt";
+import { toBytes32Hex, useFhevmInstance } from "@/fhevm/useFhevmInstance";
 import { ethers } from "ethers";
-import { getCryptoPriceGuessAddress } from "@/abi/CryptoPriceGuessAddresses";
 
 interface PredictionModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   eventTitle: string;
   eventId?: number;
-  onSuccess?: () => void; // Callback when prediction is successfully submitted
+  assetSymbol?: string;
+  priceScale?: number; // the contract stores USD * priceScale
+  onSuccess?: () => void; // Callback when prediction is successfully submitted, updated or withdrawn
 }
 
-const PredictionModal = ({ open, onOpenChange, eventTitle, eventId, onSuccess }: PredictionModalProps) => {
+type PredictionAction = "submit" | "update" | "withdraw";
+
+const ACTION_SUCCESS_MESSAGES: Record<PredictionAction, string> = {
+  submit: "Prediction encrypted and submitted successfully!",
+  update: "Prediction encrypted and updated successfully!",
+  withdraw: "Prediction withdrawn",
+};
+
+const PredictionModal = ({
+  open,
+  onOpenChange,
+  eventTitle,
+  eventId,
+  assetSymbol,
+  priceScale = 100,
+  onSuccess,
+}: PredictionModalProps) => {
   const { address } = useAccount();
   const { data: walletClient } = useWalletClient();
-  const chainId = useChainId();
-  const { submitPrediction, isPending, isConfirmed, contractAddress, error: contractError } = useCryptoPriceGuess();
+  const {
+    submitPrediction,
+    submitBoundsPrediction,
+    updatePrediction,
+    updateBoundsPrediction,
+    withdrawPrediction,
+    getUserPredictionConfig,
+    getUserEncryptedBoundsConfig,
+    isPending,
+    isConfirmed,
+    contractAddress,
+    error: contractError,
+  } = useCryptoPriceGuess();
+  const { market } = useEventMarket(eventId ?? -1);
+  const kind = market?.kind ?? MarketKind.PRICE;
+  const bucketLabels = formatBucketLabels(market?.params ?? [], priceScale);
   const [price, setPrice] = useState("");
+  const [side, setSide] = useState<"above" | "below">("above");
+  const [bucket, setBucket] = useState("0");
+  const [lower, setLower] = useState("");
+  const [upper, setUpper] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [fhevmInstance, setFhevmInstance] = useState<any>(null);
-  const [fhevmLoading, setFhevmLoading] = useState(false);
+  const [action, setAction] = useState<PredictionAction>("submit");
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [currentPrediction, setCurrentPrediction] = useState<string | null>(null);
+  const { fhevmInstance, fhevmLoading } = useFhevmInstance(open && !!contractAddress);
   const [hasHandledConfirm, setHasHandledConfirm] = useState(false);
+
+  // Staked events: ETH goes along with the submission, ERC-20 stakes need an allowance first
+  const { pool, formatStake } = useEventPool(eventId ?? -1);
+  const needsTokenApproval = !!pool && pool.isStaked && !pool.isEthStake;
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: pool?.stakeToken,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [address ?? "0x0000000000000000000000000000000000000000", contractAddress ?? "0x0000000000000000000000000000000000000000"],
+    query: {
+      enabled: open && needsTokenApproval && !!address && !!contractAddress,
+    },
+  });
+  // An existing prediction switches the modal to editing: update (keeping the stake) or withdraw
+  const { data: userPrediction, refetch: refetchUserPrediction } = useReadContract(
+    getUserPredictionConfig(eventId ?? -1),
+  );
+  const hasPredicted = userPrediction?.[2] ?? false;
+  const boundsConfig = getUserEncryptedBoundsConfig(eventId ?? -1);
+  const { data: userBounds } = useReadContract({
+    ...boundsConfig,
+    query: { ...boundsConfig.query, enabled: boundsConfig.query.enabled && hasPredicted && kind === MarketKind.BOUNDS },
+  });
+
+  const hasAllowance =
+    hasPredicted || !needsTokenApproval || (allowance !== undefined && allowance >= pool!.stakeAmount);
+  const { writeContract: writeApproval, data: approvalHash, isPending: isApprovalPending } = useWriteContract();
+  const { isLoading: isApprovalConfirming, isSuccess: isApprovalConfirmed } = useWaitForTransactionReceipt({
+    hash: approvalHash,
+  });
+
+  useEffect(() => {
+    if (isApprovalConfirmed) {
+      toast.success("Stake approved, you can now submit your prediction");
+      refetchAllowance();
+    }
+  }, [isApprovalConfirmed, refetchAllowance]);
+
+  const handleApprove = () => {
+    if (!pool || !contractAddress) return;
+    writeApproval(
+      {
+        address: pool.stakeToken,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [contractAddress, pool.stakeAmount],
+      },
+      {
+        onError: (error) => toast.error(`Failed to approve stake: ${error.message}`),
+      },
+    );
+  };
   
   // Reset state when modal opens/closes
   useEffect(() => {
     if (!open) {
       setHasHandledConfirm(false);
       setIsSubmitting(false);
+      setCurrentPrediction(null);
     }
   }, [open]);
   
@@ -54,155 +157,58 @@ const PredictionModal = ({ open, onOpenChange, eventTitle, eventId, onSuccess }:
         }
       }
       
-      toast.error(`Failed to submit: ${errorMsg}`);
+      toast.error(`Failed to ${action}: ${errorMsg}`);
       setIsSubmitting(false);
     }
-  }, [contractError, isSubmitting]);
+  }, [contractError, isSubmitting, action]);
 
-  // Initialize FHEVM instance
-  useEffect(() => {
-    if (!open || !walletClient || !contractAddress) return;
 
-    const initFhevm = async () => {
-      try {
-        setFhevmLoading(true);
-        
-        // Check if we're on a mock chain (localhost)
-        const isMock = chainId === 31337;
-        
-        if (isMock) {
-          // For localhost, try to get real FHEVM metadata from Hardhat node first
-          console.log("Initializing FHEVM for localhost...");
-          
-          try {
-          const provider = new ethers.BrowserProvider(walletClient as any);
-          const network = await provider.getNetwork();
-            const networkChainId = Number(network.chainId);
-            
-            console.log("Network chainId:", networkChainId);
-            
-            // Check if hardhat node is running by trying to get block number
-            try {
-              await provider.getBlockNumber();
-              console.log("Hardhat node is accessible");
-            } catch (nodeError) {
-              throw new Error("Cannot connect to hardhat node. Please ensure 'npx hardhat node' is running on http://127.0.0.1:8545");
-            }
-            
-            // Try to fetch FHEVM relayer metadata from Hardhat node
-            let metadata: {
-              ACLAddress: `0x${string}`;
-              InputVerifierAddress: `0x${string}`;
-              KMSVerifierAddress: `0x${string}`;
-            } | undefined;
-            
-            try {
-              const rpcProvider = new ethers.JsonRpcProvider("http://127.0.0.1:8545");
-              const fhevmMetadata = await rpcProvider.send("fhevm_relayer_metadata", []);
-              console.log("FHEVM relayer metadata:", fhevmMetadata);
-              
-              if (fhevmMetadata && 
-                  typeof fhevmMetadata === 'object' &&
-                  'ACLAddress' in fhevmMetadata &&
-                  'InputVerifierAddress' in fhevmMetadata &&
-                  'KMSVerifierAddress' in fhevmMetadata) {
-                metadata = {
-                  ACLAddress: fhevmMetadata.ACLAddress as `0x${string}`,
-                  InputVerifierAddress: fhevmMetadata.InputVerifierAddress as `0x${string}`,
-                  KMSVerifierAddress: fhevmMetadata.KMSVerifierAddress as `0x${string}`,
-                };
-                console.log("Using FHEVM metadata from Hardhat node:", metadata);
-              }
-            } catch (metadataError: any) {
-              console.warn("Could not fetch FHEVM metadata from Hardhat node:", metadataError?.message);
-              console.warn("This is normal if Hardhat node is not running with FHEVM plugin");
-            }
-            
-            // Use metadata if available, otherwise use zero addresses (will fallback to simple mock)
-            const defaultMetadata = metadata || {
-              ACLAddress: "0x0000000000000000000000000000000000000000" as `0x${string}`,
-              InputVerifierAddress: "0x0000000000000000000000000000000000000000" as `0x${string}`,
-              KMSVerifierAddress: "0x0000000000000000000000000000000000000000" as `0x${string}`,
-            };
-            
-            console.log("Importing mock FHEVM module...");
-            // Dynamically import mock FHEVM
-            const { fhevmMockCreateInstance } = await import("@/fhevm/mock/fhevmMock");
-            
-            console.log("Creating mock FHEVM instance...");
-            // Note: fhevmMockCreateInstance will create its own JsonRpcProvider
-            // to access Hardhat node RPC methods (like fhevm_relayer_v1_input_proof)
-            // MetaMask provider doesn't support these methods
-            const instance = await fhevmMockCreateInstance({
-              rpcUrl: `http://127.0.0.1:8545`,
-              chainId: networkChainId,
-              metadata: defaultMetadata,
-              // Don't pass provider - MockFhevmInstance needs direct RPC access
-            });
-            
-            console.log("Mock FHEVM instance created successfully");
-            setFhevmInstance(instance);
-          } catch (mockError: any) {
-            console.error("Error initializing mock FHEVM:", mockError);
-            console.error("Error details:", {
-              message: mockError?.message,
-              stack: mockError?.stack,
-              name: mockError?.name,
-              code: mockError?.code,
-            });
-            
-            // Provide helpful error message
-            let errorMessage = "Failed to initialize mock FHEVM";
-            if (mockError?.message?.includes("getKmsSigners") || mockError?.message?.includes("KMS")) {
-              errorMessage = "FHEVM initialization failed: KMS contract not available. Please ensure hardhat node is running with FHEVM plugin enabled.";
-            } else if (mockError?.message?.includes("Cannot connect")) {
-              errorMessage = mockError.message;
-            } else {
-              errorMessage = `${errorMessage}: ${mockError?.message || "Unknown error"}`;
-            }
-            
-            throw new Error(errorMessage);
-          }
-        } else {
-          // For Sepolia, load the relayer SDK
-          console.log("Initializing FHEVM for Sepolia...");
-          
-          if (typeof window !== "undefined" && (window as any).relayerSDK) {
-            const relayerSDK = (window as any).relayerSDK;
-            
-            // Initialize SDK if not already initialized
-            if (!relayerSDK.__initialized__) {
-              console.log("Initializing relayer SDK...");
-              await relayerSDK.initSDK();
-            }
-            
-            // Create instance
-            const config = relayerSDK.SepoliaConfig;
-            console.log("Creating FHEVM instance for Sepolia...");
-            const instance = await relayerSDK.createInstance({
-              ...config,
-              network: walletClient,
-            });
-            console.log("FHEVM instance created successfully");
-            setFhevmInstance(instance);
-          } else {
-            const errorMsg = "FHEVM Relayer SDK not loaded. Please ensure @zama-fhe/relayer-sdk is available.";
-            console.warn(errorMsg);
-            throw new Error(errorMsg);
-          }
-        }
-      } catch (error: any) {
-        console.error("Error initializing FHEVM:", error);
-        const errorMessage = error?.message || "Failed to initialize FHE encryption. Please try again.";
-        console.error("Full error:", error);
-        toast.error(errorMessage);
-      } finally {
-        setFhevmLoading(false);
+  // Decrypts the user's current prediction (EIP-712 signed request) and pre-fills the form with it
+  const handleDecryptCurrent = async () => {
+    if (!fhevmInstance || !walletClient || !contractAddress || !userPrediction) {
+      toast.error("FHE encryption not ready. Please wait...");
+      return;
+    }
+
+    setIsDecrypting(true);
+    try {
+      const signer = await new ethers.BrowserProvider(walletClient as unknown as ethers.Eip1193Provider).getSigner();
+      const handles = kind === MarketKind.BOUNDS && userBounds ? [userBounds[0], userBounds[1]] : [userPrediction[0]];
+      const values = (await userDecryptHandles(fhevmInstance, signer, contractAddress, handles)).map(Number);
+
+      if (kind === MarketKind.THRESHOLD) {
+        setSide(values[0] === 1 ? "above" : "below");
+        setCurrentPrediction(values[0] === 1 ? "Above" : "At or below");
+      } else if (kind === MarketKind.RANGE) {
+        setBucket(String(values[0]));
+        setCurrentPrediction(bucketLabels[values[0]] ?? `Bucket ${values[0]}`);
+      } else if (kind === MarketKind.BOUNDS) {
+        setLower(String(values[0] / priceScale));
+        setUpper(String(values[1] / priceScale));
+        setCurrentPrediction(`${formatUsdPrice(values[0], priceScale)} - ${formatUsdPrice(values[1], priceScale)}`);
+      } else {
+        setPrice(String(values[0] / priceScale));
+        setCurrentPrediction(formatUsdPrice(values[0], priceScale));
       }
-    };
+    } catch (error) {
+      console.error("Error decrypting prediction:", error);
+      toast.error((error as Error)?.message || "Failed to decrypt your prediction");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
 
-    initFhevm();
-  }, [open, walletClient, contractAddress, chainId]);
+  const handleWithdraw = async () => {
+    if (eventId === undefined || eventId === null) return;
+    setAction("withdraw");
+    setIsSubmitting(true);
+    try {
+      await withdrawPrediction(eventId);
+    } catch (error) {
+      toast.error((error as Error)?.message || "Failed to withdraw prediction");
+      setIsSubmitting(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -216,10 +222,39 @@ const PredictionModal = ({ open, onOpenChange, eventTitle, eventId, onSuccess }:
       return;
     }
 
-    const priceValue = parseFloat(price);
-    if (isNaN(priceValue) || priceValue <= 0) {
-      toast.error("Please enter a valid price");
-      return;
+    // Scale USD prices to the asset's on-chain unit
+    // For example: $50,000 at scale 100 (cents) = 5000000
+    const toScaledPrice = (value: string) => {
+      const priceValue = parseFloat(value);
+      const scaledPrice = Math.round(priceValue * priceScale);
+      return isNaN(priceValue) || scaledPrice <= 0 || scaledPrice > 0xffffffff ? null : scaledPrice;
+    };
+
+    // Values to encrypt: a price, 1/0 for above/below, a bucket index or [lower, upper] bounds
+    let values: number[];
+    if (kind === MarketKind.THRESHOLD) {
+      values = [side === "above" ? 1 : 0];
+    } else if (kind === MarketKind.RANGE) {
+      values = [parseInt(bucket, 10)];
+    } else if (kind === MarketKind.BOUNDS) {
+      const lowerValue = toScaledPrice(lower);
+      const upperValue = toScaledPrice(upper);
+      if (lowerValue === null || upperValue === null) {
+        toast.error("Please enter valid lower and upper prices");
+        return;
+      }
+      if (lowerValue > upperValue) {
+        toast.error("The lower bound must not exceed the upper bound");
+        return;
+      }
+      values = [lowerValue, upperValue];
+    } else {
+      const scaledPrice = toScaledPrice(price);
+      if (scaledPrice === null) {
+        toast.error("Please enter a valid price");
+        return;
+      }
+      values = [scaledPrice];
     }
 
     if (!fhevmInstance) {
@@ -227,37 +262,21 @@ const PredictionModal = ({ open, onOpenChange, eventTitle, eventId, onSuccess }:
       return;
     }
 
+    setAction(hasPredicted ? "update" : "submit");
     setIsSubmitting(true);
 
     try {
-      // Convert price to cents (multiply by 100)
-      // For example: $50,000 = 5000000 cents
-      const priceInCents = Math.round(priceValue * 100);
-      
-      toast.info("Encrypting price prediction...");
+      toast.info("Encrypting prediction...");
       
-      // Encrypt using FHEVM
+      // Encrypt using FHEVM (all values share one input proof)
       const input = fhevmInstance.createEncryptedInput(
         contractAddress!,
         address
       );
-      input.add32(priceInCents);
+      values.forEach((value) => input.add32(value));
       const encrypted = await input.encrypt();
 
-      // Convert handle to hex string
-      let handleHex: string;
-      if (typeof encrypted.handles[0] === 'string') {
-        handleHex = encrypted.handles[0];
-      } else {
-        handleHex = ethers.hexlify(encrypted.handles[0]);
-        // Ensure it's 32 bytes (66 chars including 0x)
-        if (handleHex.length < 66) {
-          const padded = handleHex.slice(2).padStart(64, '0');
-          handleHex = `0x${padded}`;
-        } else if (handleHex.length > 66) {
-          handleHex = handleHex.slice(0, 66);
-        }
-      }
+      const handles = (encrypted.handles as (string | Uint8Array)[]).map(toBytes32Hex);
 
       // Convert inputProof to hex if needed
       let inputProofHex: string;
@@ -272,21 +291,25 @@ const PredictionModal = ({ open, onOpenChange, eventTitle, eventId, onSuccess }:
       // Log the data being submitted for debugging
       console.log("Submitting prediction:", {
         eventId,
-        handleHex,
-        handleLength: handleHex.length,
+        kind,
+        handles,
         inputProofHex: inputProofHex.substring(0, 20) + "...",
         inputProofLength: inputProofHex.length,
         contractAddress,
       });
       
-      // Validate handle format (should be 32 bytes = 66 chars with 0x)
-      if (handleHex.length !== 66) {
-        throw new Error(`Invalid handle length: ${handleHex.length}, expected 66 (32 bytes)`);
+      // Submit to contract - let the contract handle validation. Updates keep the stake already paid
+      const ethStake = pool?.isStaked && pool.isEthStake ? pool.stakeAmount : 0n;
+      if (hasPredicted && kind === MarketKind.BOUNDS) {
+        await updateBoundsPrediction(eventId, handles[0], handles[1], inputProofHex as `0x${string}`);
+      } else if (hasPredicted) {
+        await updatePrediction(eventId, handles[0], inputProofHex as `0x${string}`);
+      } else if (kind === MarketKind.BOUNDS) {
+        await submitBoundsPrediction(eventId, handles[0], handles[1], inputProofHex as `0x${string}`, ethStake);
+      } else {
+        await submitPrediction(eventId, handles[0], inputProofHex as `0x${string}`, ethStake);
       }
       
-      // Submit to contract - let the contract handle validation
-      await submitPrediction(eventId, handleHex as `0x${string}`, inputProofHex as `0x${string}`);
-      
     } catch (error: any) {
       console.error("Error submitting prediction:", error);
       console.error("Error details:", {
@@ -351,9 +374,13 @@ const PredictionModal = ({ open, onOpenChange, eventTitle, eventId, onSuccess }:
   useEffect(() => {
     if (isConfirmed && !hasHandledConfirm && isSubmitting) {
       setHasHandledConfirm(true);
-      toast.success("Prediction encrypted and submitted successfully!");
+      toast.success(ACTION_SUCCESS_MESSAGES[action]);
       setPrice("");
+      setLower("");
+      setUpper("");
+      setCurrentPrediction(null);
       setIsSubmitting(false);
+      refetchUserPrediction();
       // Trigger refresh of event data
       onSuccess?.();
       onOpenChange(false);
@@ -365,8 +392,8 @@ const PredictionModal = ({ open, onOpenChange, eventTitle, eventId, onSuccess }:
       <DialogContent className="sm:max-w-[500px] glass-effect border-primary/20">
         <DialogHeader>
           <DialogTitle className="text-2xl flex items-center gap-2">
-            <Lock className="w-6 h-6 text-primary" />
-            Submit Encrypted Prediction
+            {hasPredicted ? <Pencil className="w-6 h-6 text-primary" /> : <Lock className="w-6 h-6 text-primary" />}
+            {hasPredicted ? "Edit Your Prediction" : "Submit Encrypted Prediction"}
           </DialogTitle>
           <DialogDescription className="text-sm text-muted-foreground mt-2">
             {eventTitle}
@@ -374,23 +401,146 @@ const PredictionModal = ({ open, onOpenChange, eventTitle, eventId, onSuccess }:
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-6 mt-4">
-          <div className="space-y-2">
-            <Label htmlFor="price">Price Prediction (USD)</Label>
-            <Input
-              id="price"
-              type="number"
-              step="0.01"
-              min="0"
-              placeholder="50000.00"
-              value={price}
-              onChange={(e) => setPrice(e.target.value)}
-              required
-              className="text-lg"
-            />
-            <p className="text-xs text-muted-foreground">
-              Enter your predicted price in USD. This will be encrypted locally using FHE before submission.
-            </p>
-          </div>
+          {hasPredicted && (
+            <div className="bg-secondary/40 border border-border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-muted-foreground">
+                  Current prediction:{" "}
+                  <span className="font-bold text-foreground">{currentPrediction ?? "Encrypted"}</span>
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDecryptCurrent}
+                  disabled={isDecrypting || fhevmLoading || !fhevmInstance}
+                >
+                  {isDecrypting ? "Decrypting..." : currentPrediction ? "Decrypted" : "Decrypt & Edit"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Only you can decrypt your prediction. Submitting replaces it while the event is live
+                {pool?.isStaked ? "; your stake stays in the pool" : ""}.
+              </p>
+            </div>
+          )}
+
+          {kind === MarketKind.PRICE && (
+            <div className="space-y-2">
+              <Label htmlFor="price">{assetSymbol ? `${assetSymbol} ` : ""}Price Prediction (USD)</Label>
+              <Input
+                id="price"
+                type="number"
+                step={1 / priceScale}
+                min="0"
+                placeholder="50000.00"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                required
+                className="text-lg"
+              />
+              <p className="text-xs text-muted-foreground">
+                Enter your predicted price in USD. This will be encrypted locally using FHE before submission.
+              </p>
+            </div>
+          )}
+
+          {kind === MarketKind.THRESHOLD && market && (
+            <div className="space-y-2">
+              <Label>
+                Will {assetSymbol ?? "the price"} end above {formatUsdPrice(market.params[0], priceScale)}?
+              </Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  type="button"
+                  variant={side === "above" ? "default" : "outline"}
+                  onClick={() => setSide("above")}
+                >
+                  Above
+                </Button>
+                <Button
+                  type="button"
+                  variant={side === "below" ? "default" : "outline"}
+                  onClick={() => setSide("below")}
+                >
+                  At or below
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Your call is encrypted locally; only the above/below totals are revealed.
+              </p>
+            </div>
+          )}
+
+          {kind === MarketKind.RANGE && (
+            <div className="space-y-2">
+              <Label>Which range will {assetSymbol ?? "the price"} end in?</Label>
+              <div className="grid grid-cols-1 gap-2">
+                {bucketLabels.map((label, index) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    variant={bucket === String(index) ? "default" : "outline"}
+                    onClick={() => setBucket(String(index))}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Your bucket is encrypted locally; only the per-bucket totals are revealed.
+              </p>
+            </div>
+          )}
+
+          {kind === MarketKind.BOUNDS && (
+            <div className="space-y-2">
+              <Label>{assetSymbol ? `${assetSymbol} ` : ""}Price Bounds (USD)</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  id="lower"
+                  type="number"
+                  step={1 / priceScale}
+                  min="0"
+                  placeholder="Lower"
+                  value={lower}
+                  onChange={(e) => setLower(e.target.value)}
+                  required
+                />
+                <Input
+                  id="upper"
+                  type="number"
+                  step={1 / priceScale}
+                  min="0"
+                  placeholder="Upper"
+                  value={upper}
+                  onChange={(e) => setUpper(e.target.value)}
+                  required
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Bounds are scored by their width, plus the distance to the actual price if it falls outside them.
+              </p>
+            </div>
+          )}
+
+          {pool?.isStaked && (
+            <div className="bg-accent/10 border border-accent/20 rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 font-medium">
+                  <Coins className="w-4 h-4 text-accent" />
+                  Entry stake
+                </span>
+                <span className="font-bold text-accent">{formatStake(pool.stakeAmount)}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The prize pool (currently {formatStake(pool.totalStaked)}) is split between the closest predictors
+                ({pool.payoutShares.map((share) => `${share / 100}%`).join(" / ")}). Stakes are refunded if the
+                event is cancelled.
+                {needsTokenApproval && !hasAllowance && " Approve the stake before submitting."}
+              </p>
+            </div>
+          )}
 
           <div className="bg-primary/10 border border-primary/20 rounded-lg p-4 space-y-2">
             <div className="flex items-center gap-2 text-sm">
@@ -414,18 +564,45 @@ const PredictionModal = ({ open, onOpenChange, eventTitle, eventId, onSuccess }:
             >
               Cancel
             </Button>
+            {!hasAllowance ? (
+              <Button
+                type="button"
+                className="flex-1 neon-border"
+                onClick={handleApprove}
+                disabled={isApprovalPending || isApprovalConfirming}
+              >
+                {isApprovalPending || isApprovalConfirming ? "Approving..." : `Approve ${formatStake(pool!.stakeAmount)}`}
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                className="flex-1 neon-border"
+                disabled={isSubmitting || isPending || fhevmLoading || !fhevmInstance}
+              >
+                {fhevmLoading 
+                  ? "Initializing Encryption..." 
+                  : isSubmitting || isPending 
+                  ? "Encrypting & Submitting..." 
+                  : hasPredicted
+                  ? "Update Prediction"
+                  : pool?.isStaked
+                  ? `Stake ${formatStake(pool.stakeAmount)} & Submit`
+                  : "Submit Prediction"}
+              </Button>
+            )}
+          </div>
+          {hasPredicted && (
             <Button
-              type="submit"
-              className="flex-1 neon-border"
-              disabled={isSubmitting || isPending || fhevmLoading || !fhevmInstance}
+              type="button"
+              variant="ghost"
+              className="w-full text-destructive hover:text-destructive"
+              onClick={handleWithdraw}
+              disabled={isSubmitting || isPending}
             >
-              {fhevmLoading 
-                ? "Initializing Encryption..." 
-                : isSubmitting || isPending 
-                ? "Encrypting & Submitting..." 
-                : "Submit Prediction"}
+              <Undo2 className="w-4 h-4 mr-2" />
+              {pool?.isStaked ? `Withdraw & Refund ${formatStake(pool.stakeAmount)}` : "Withdraw Prediction"}
             </Button>
-          </div>
+          )}
         </form>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { useReadContract } from "wagmi";
+import { ChevronDown, ChevronUp, Globe } from "lucide-react";
+import BallTile from "./BallTile";
+import { Button } from "@/components/ui/button";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+
+interface PublicCollectionCardProps {
+  collectionId: number;
+  name: string;
+  owner: string; // Display name or short address
+  ballCount: number;
+}
+
+// A public collection in the discovery view; its balls are only read once expanded
+const PublicCollectionCard = ({ collectionId, name, owner, ballCount }: PublicCollectionCardProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const { getBallCollectionConfig } = useCryptoPriceGuess();
+  const config = getBallCollectionConfig(collectionId);
+  const { data: collection, isLoading } = useReadContract({
+    ...config,
+    query: { ...config.query, enabled: config.query.enabled && expanded },
+  });
+  const ballIds = (collection?.[2] ?? []).map(Number);
+
+  return (
+    <div className="glass-effect rounded-xl p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <Globe className="w-5 h-5 text-primary shrink-0" />
+          <div className="min-w-0">
+            <div className="font-semibold truncate">{name}</div>
+            <div className="text-sm text-muted-foreground">
+              #{collectionId} by {owner} · {ballCount} {ballCount === 1 ? "ball" : "balls"}
+            </div>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setExpanded(!expanded)} disabled={ballCount === 0}>
+          {expanded ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+          {expanded ? "Hide" : "View"}
+        </Button>
+      </div>
+      {expanded && (
+        <div className="mt-4 flex flex-wrap gap-3">
+          {isLoading ? (
+            <span className="text-sm text-muted-foreground">Loading balls...</span>
+          ) : (
+            ballIds.map((ballId) => <BallTile key={ballId} ballId={ballId} />)
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PublicCollectionCard;
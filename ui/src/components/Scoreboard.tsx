@@ -1,15 +1,75 @@
 import EncryptedBox from "./EncryptedBox";
-import { Trophy, Sparkles } from "lucide-react";
+import { Trophy, Sparkles, ChevronLeft, ChevronRight } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useReadContract } from "wagmi";
+import { Button } from "@/components/ui/button";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useCryptoPriceGuessEvents } from "@/hooks/useCryptoPriceGuessEvents";
+import { useDisplayNames } from "@/hooks/useDisplayNames";
+import { useAssets } from "@/hooks/useAssets";
 
 const Scoreboard = () => {
-  const predictions = [
-    { id: 1, username: "CryptoKing", prediction: "BTC $52,500", revealed: true },
-    { id: 2, username: "MarketWiz", prediction: "ETH $3,200", revealed: true },
-    { id: 3, username: "PredictPro", prediction: "BTC $51,800", revealed: false },
-    { id: 4, username: "FutureSeer", prediction: "ETH $3,150", revealed: false },
-    { id: 5, username: "DataMaster", prediction: "BTC $53,000", revealed: true },
-    { id: 6, username: "OracleTech", prediction: "ETH $3,100", revealed: false },
-  ];
+  const { eventCount, getEventConfig, getLeaderboardConfig } = useCryptoPriceGuess();
+  const { items: feed } = useCryptoPriceGuessEvents();
+  const { getAsset } = useAssets();
+  const [selectedEventId, setSelectedEventId] = useState<number | null>(null);
+
+  // Events created while the page is open show up in the feed before the next count refresh
+  const latestEventId = Math.max(
+    eventCount - 1,
+    ...feed.filter((item) => item.eventName === "PredictionEventCreated").map((item) => item.eventId ?? -1),
+  );
+
+  // Follow the latest event until the user picks another one
+  useEffect(() => {
+    if (latestEventId >= 0 && (selectedEventId === null || selectedEventId > latestEventId)) {
+      setSelectedEventId(latestEventId);
+    }
+  }, [latestEventId, selectedEventId]);
+
+  const eventId = selectedEventId ?? -1;
+  const { data: eventData, refetch: refetchEvent } = useReadContract(getEventConfig(eventId));
+  const { data: leaderboard, refetch: refetchLeaderboard } = useReadContract(getLeaderboardConfig(eventId));
+
+  // Re-read the leaderboard whenever a log touches the selected event
+  const eventFeed = feed.filter((item) => item.eventId === eventId);
+  const lastEventLogId = eventFeed[0]?.id;
+  useEffect(() => {
+    if (lastEventLogId) {
+      refetchEvent();
+      refetchLeaderboard();
+    }
+  }, [lastEventLogId, refetchEvent, refetchLeaderboard]);
+
+  const isRevealed = leaderboard?.[1] ?? false;
+  // Before the reveal, submissions come straight from PredictionSubmitted logs (oldest first); like on-chain,
+  // a withdrawal moves the last predictor into the freed slot and a resubmission goes to the back
+  const submittedPredictors: string[] = [];
+  for (const item of [...eventFeed].reverse()) {
+    if (!item.user) continue;
+    if (item.eventName === "PredictionSubmitted") {
+      submittedPredictors.push(item.user);
+    } else if (item.eventName === "PredictionWithdrawn" && submittedPredictors.includes(item.user)) {
+      const index = submittedPredictors.indexOf(item.user);
+      const last = submittedPredictors.pop()!;
+      if (index < submittedPredictors.length) {
+        submittedPredictors[index] = last;
+      }
+    }
+  }
+  const predictors = (
+    isRevealed || submittedPredictors.length === 0 ? leaderboard?.[0] ?? [] : submittedPredictors
+  ) as readonly string[];
+  const displayName = useDisplayNames(predictors);
+
+  const asset = getAsset(eventData?.[1]);
+  const symbol = asset?.symbol ?? `Asset #${eventData?.[1]}`;
+  const title = eventData ? eventData[0] || `${symbol} Price Prediction` : "No prediction events yet";
+  const subtitle = !eventData
+    ? "Create an event to start collecting encrypted predictions"
+    : isRevealed
+      ? "Ranked by distance to the actual price, errors stay encrypted"
+      : "Predictions stay encrypted until the leaderboard is revealed";
 
   return (
     <section className="py-16 px-4 relative overflow-hidden">
@@ -27,29 +87,61 @@ const Scoreboard = () => {
               <Sparkles className="w-5 h-5 text-primary animate-pulse" />
             </h2>
             <p className="text-muted-foreground">
-              BTC/ETH Price Prediction - Results being revealed
+              {title} - {subtitle}
             </p>
           </div>
-          <div className="text-right animate-fade-in-up stagger-2">
-            <div className="text-sm text-muted-foreground">Total Predictions</div>
-            <div className="text-2xl font-bold text-primary">{predictions.length}</div>
-          </div>
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {predictions.map((pred, index) => (
-            <div
-              key={pred.id}
-              className="animate-fade-in-up"
-              style={{ animationDelay: `${index * 100}ms` }}
-            >
-              <EncryptedBox
-                username={pred.username}
-                prediction={pred.prediction}
-                revealed={pred.revealed}
-              />
+          <div className="flex items-center gap-4 animate-fade-in-up stagger-2">
+            {latestEventId > 0 && (
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={eventId <= 0}
+                  onClick={() => setSelectedEventId(eventId - 1)}
+                  aria-label="Previous event"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">#{eventId}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={eventId >= latestEventId}
+                  onClick={() => setSelectedEventId(eventId + 1)}
+                  aria-label="Next event"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+            <div className="text-right">
+              <div className="text-sm text-muted-foreground">Total Predictions</div>
+              <div className="text-2xl font-bold text-primary">{predictors.length}</div>
             </div>
-          ))}
+          </div>
         </div>
+        {predictors.length === 0 ? (
+          <div className="glass-effect rounded-xl p-8 text-center text-muted-foreground">
+            No predictions submitted for this event yet.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {predictors.map((predictor, index) => (
+              <div
+                // Remount on reveal so the box animates from encrypted to revealed
+                key={`${predictor}-${isRevealed}`}
+                className="animate-fade-in-up"
+                style={{ animationDelay: `${index * 100}ms` }}
+              >
+                <EncryptedBox
+                  username={displayName(predictor)}
+                  prediction={isRevealed ? (index === 0 ? "Winner" : `Rank #${index + 1}`) : "Encrypted"}
+                  revealed={isRevealed}
+                />
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </section>
   );
@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { HandCoins, ShieldCheck, Tag } from "lucide-react";
+import { useReadContract } from "wagmi";
+import { formatEther, zeroAddress } from "viem";
+import { useCryptoBallMarketplace } from "@/hooks/useCryptoBallMarketplace";
+import { ROYALTY_BPS } from "@/lib/market";
+
+interface SellBallDialogProps {
+  ballId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSold?: () => void; // Called once an accepted offer is confirmed (the ball has left the wallet)
+}
+
+const SellBallDialog = ({ ballId, open, onOpenChange, onSold }: SellBallDialogProps) => {
+  const {
+    marketplaceAddress,
+    marketplaceStatusMessage,
+    getListingConfig,
+    getOffersConfig,
+    getIsMarketplaceApprovedConfig,
+    approveMarketplace,
+    listBall,
+    cancelListing,
+    acceptOffer,
+    isPending,
+    isConfirmed,
+  } = useCryptoBallMarketplace();
+  const { data: listing, refetch: refetchListing } = useReadContract(getListingConfig(ballId));
+  const { data: offers, refetch: refetchOffers } = useReadContract(getOffersConfig(ballId));
+  const { data: isApproved, refetch: refetchApproval } = useReadContract(getIsMarketplaceApprovedConfig());
+  const [price, setPrice] = useState("");
+  // The action waiting for confirmation, so the right toast is shown
+  const [action, setAction] = useState<"approve" | "list" | "cancel" | "accept" | null>(null);
+
+  const [seller, listedPrice] = listing ?? [zeroAddress, 0n];
+  const isListed = seller !== zeroAddress;
+
+  useEffect(() => {
+    if (isConfirmed && action) {
+      const messages = {
+        approve: "Marketplace approved",
+        list: `Ball #${ballId} listed`,
+        cancel: "Listing cancelled",
+        accept: `Ball #${ballId} sold`,
+      };
+      toast.success(messages[action]);
+      if (action === "accept") {
+        onOpenChange(false);
+        onSold?.();
+      }
+      setAction(null);
+      setPrice("");
+      refetchListing();
+      refetchOffers();
+      refetchApproval();
+    }
+  }, [isConfirmed, action, ballId, onOpenChange, onSold, refetchListing, refetchOffers, refetchApproval]);
+
+  const run = async (next: NonNullable<typeof action>, call: () => Promise<unknown>) => {
+    setAction(next);
+    try {
+      await call();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Transaction failed");
+      setAction(null);
+    }
+  };
+
+  const handleList = () => {
+    if (!(Number(price) > 0)) {
+      toast.error("Enter a price greater than 0");
+      return;
+    }
+    run("list", () => listBall(ballId, price));
+  };
+
+  const busy = action !== null || isPending;
+  const [buyers, amounts] = offers ?? [[], []];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] glass-effect border-primary/20">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Tag className="w-6 h-6 text-primary" />
+            Sell Ball #{ballId}
+          </DialogTitle>
+          <DialogDescription>
+            The ball stays in your wallet until it sells. {ROYALTY_BPS / 100}% of the sale goes to the admin of the
+            event it was claimed from.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!marketplaceAddress ? (
+          <p className="text-sm text-muted-foreground mt-4">{marketplaceStatusMessage ?? "Loading marketplace..."}</p>
+        ) : (
+          <div className="space-y-4 mt-4">
+            {!isApproved && (
+              <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <ShieldCheck className="w-4 h-4 text-primary" />
+                  Approve the marketplace
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Lets the marketplace transfer your balls when one of them is bought. Needed once per wallet.
+                </p>
+                <Button onClick={() => run("approve", approveMarketplace)} disabled={busy} className="w-full">
+                  Approve
+                </Button>
+              </div>
+            )}
+
+            <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">Fixed price</span>
+                <span className="text-muted-foreground">
+                  {isListed ? `Listed at ${formatEther(listedPrice)} ETH` : "Not listed"}
+                </span>
+              </div>
+              <Label htmlFor={`price-${ballId}`} className="text-xs text-muted-foreground">
+                Price in ETH{isListed && " (re-listing updates the price)"}
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id={`price-${ballId}`}
+                  type="number"
+                  min={0}
+                  step="any"
+                  placeholder="0.05"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                />
+                <Button onClick={handleList} disabled={busy || !isApproved}>
+                  {isListed ? "Update" : "List"}
+                </Button>
+              </div>
+              {isListed && (
+                <Button
+                  variant="outline"
+                  onClick={() => run("cancel", () => cancelListing(ballId))}
+                  disabled={busy}
+                  className="w-full"
+                >
+                  Cancel listing
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <HandCoins className="w-4 h-4 text-accent" />
+                Offers
+              </div>
+              {buyers.length > 0 ? (
+                <ul className="space-y-1 text-xs">
+                  {buyers.map((buyer, index) => (
+                    <li key={buyer} className="flex items-center justify-between gap-2 bg-muted/30 rounded px-3 py-2">
+                      <span className="font-mono truncate">{buyer}</span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        {formatEther(amounts[index])} ETH
+                        <Button
+                          size="sm"
+                          onClick={() => run("accept", () => acceptOffer(ballId, buyer))}
+                          disabled={busy || !isApproved}
+                        >
+                          Accept
+                        </Button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-muted-foreground">No offers yet</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SellBallDialog;
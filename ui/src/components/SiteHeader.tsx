@@ -0,0 +1,36 @@
+import Logo from "@/components/Logo";
+import WalletButton from "@/components/WalletButton";
+import { NavLink } from "@/components/NavLink";
+
+const NAV_LINKS = [
+  { to: "/", label: "Events" },
+  { to: "/balls", label: "My Balls" },
+  { to: "/market", label: "Marketplace" },
+  { to: "/auctions", label: "Auctions" },
+  { to: "/collections", label: "Collections" },
+  { to: "/vault", label: "Vault" },
+];
+
+const SiteHeader = () => (
+  <header className="border-b border-border/50 backdrop-blur-sm sticky top-0 z-50 bg-background/80 animate-fade-in-up">
+    <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+      <Logo />
+      <nav className="flex items-center gap-1 text-sm">
+        {NAV_LINKS.map(({ to, label }) => (
+          <NavLink
+            key={to}
+            to={to}
+            end
+            className="px-3 py-2 rounded-md text-muted-foreground hover:text-foreground transition-colors"
+            activeClassName="text-primary bg-primary/10"
+          >
+            {label}
+          </NavLink>
+        ))}
+      </nav>
+      <WalletButton />
+    </div>
+  </header>
+);
+
+export default SiteHeader;
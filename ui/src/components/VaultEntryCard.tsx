@@ -0,0 +1,269 @@
+import { useState, useEffect } from "react";
+import { useReadContract, useWalletClient } from "wagmi";
+import { isAddress } from "viem";
+import { ethers } from "ethers";
+import { Calculator, Eye, EyeOff, HeartPulse, Lock, Megaphone, Send, Timer, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import VaultMathPanel from "./VaultMathPanel";
+import VaultSharesPanel from "./VaultSharesPanel";
+import { useVault } from "@/hooks/useVault";
+import { useDisplayNames } from "@/hooks/useDisplayNames";
+import { userDecryptHandles } from "@/fhevm/userDecrypt";
+import type { FhevmInstance } from "@/fhevm/mock/fhevmMock";
+import {
+  VAULT_RELEASE_HOURS,
+  VAULT_VALUE_TYPE_LABELS,
+  formatVaultCountdown,
+  formatVaultPeriod,
+  formatVaultValue,
+  isVaultEntryDue,
+  isVaultEntryExpired,
+  isVaultNumberType,
+  type VaultEntry,
+} from "@/lib/vault";
+
+const SELECT_CLASS =
+  "flex h-9 items-center justify-between rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+type EntryAction = "transfer" | "publish" | "heartbeat" | "release";
+
+const ACTION_MESSAGES: Record<EntryAction, string> = {
+  transfer: "transferred",
+  publish: "publication requested",
+  heartbeat: "release pushed back",
+  release: "released",
+};
+
+interface VaultEntryCardProps {
+  entry: VaultEntry;
+  fhevmInstance: FhevmInstance | null;
+  now: number; // Current time in seconds, shared by the page's ticking clock
+  shared?: boolean; // Shared with the connected user by its owner: it can only be decrypted
+  onChange?: () => void; // Called once a transfer, publication, share change or computation is confirmed
+}
+
+// A vault entry of the connected user: decrypt it in the browser, compute on it, share it, hand it to someone else
+// or publish it
+const VaultEntryCard = ({ entry, fhevmInstance, now, shared = false, onChange }: VaultEntryCardProps) => {
+  const { data: walletClient } = useWalletClient();
+  const {
+    vaultAddress,
+    getPublishedVaultValueConfig,
+    transferEncryptedStorage,
+    publishEncryptedValue,
+    heartbeatVaultEntry,
+    releaseVaultEntry,
+    isPending,
+    isConfirmed,
+  } = useVault();
+  const { data: publishedValue } = useReadContract(
+    getPublishedVaultValueConfig(entry.storageId, !entry.isEncrypted)
+  );
+  const [clearValue, setClearValue] = useState<bigint | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showShares, setShowShares] = useState(false);
+  const [showMath, setShowMath] = useState(false);
+  const [transferTo, setTransferTo] = useState("");
+  const [heartbeatHours, setHeartbeatHours] = useState(VAULT_RELEASE_HOURS[1]);
+  const [action, setAction] = useState<EntryAction | null>(null);
+
+  const displayName = useDisplayNames(shared ? [entry.owner] : []);
+  const expired = isVaultEntryExpired(entry, now);
+  const busy = action !== null || isPending || expired;
+  const timeLocked = entry.releaseAt !== 0 && entry.isEncrypted;
+  const due = isVaultEntryDue(entry, now);
+  // Time-locked entries are commitments: their value cannot change
+  const canCompute = isVaultNumberType(entry.valueType) && entry.isEncrypted && entry.releaseAt === 0;
+  // The new release time has to be later than the current one
+  const heartbeatOptions = VAULT_RELEASE_HOURS.filter((hours) => now + hours * 3600 > entry.releaseAt);
+  const selectedHeartbeatHours = heartbeatOptions.includes(heartbeatHours) ? heartbeatHours : heartbeatOptions[0];
+
+  // Updates and revocations move the entry to a new handle: the value shown may be stale
+  useEffect(() => {
+    setClearValue(null);
+  }, [entry.handle]);
+
+  useEffect(() => {
+    if (isConfirmed && action) {
+      toast.success(`Entry #${entry.storageId} ${ACTION_MESSAGES[action]}`);
+      setAction(null);
+      setShowTransfer(false);
+      setTransferTo("");
+      onChange?.();
+    }
+  }, [isConfirmed, action, entry.storageId, onChange]);
+
+  // EIP-712 signed request: the value is re-encrypted for the connected user (owner or grantee) and decrypted locally
+  const handleDecrypt = async () => {
+    if (!fhevmInstance || !walletClient || !vaultAddress) {
+      toast.error("FHE encryption not ready. Please wait...");
+      return;
+    }
+
+    setIsDecrypting(true);
+    try {
+      const signer = await new ethers.BrowserProvider(walletClient as unknown as ethers.Eip1193Provider).getSigner();
+      const [value] = await userDecryptHandles(fhevmInstance, signer, vaultAddress, [entry.handle]);
+      setClearValue(value);
+    } catch (error) {
+      toast.error((error as Error)?.message || "Decryption failed");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const run = async (nextAction: EntryAction, write: () => Promise<void>) => {
+    setAction(nextAction);
+    try {
+      await write();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Transaction failed");
+      setAction(null);
+    }
+  };
+
+  const handleHeartbeat = () => {
+    const releaseAt = Math.floor(Date.now() / 1000) + selectedHeartbeatHours * 3600;
+    run("heartbeat", () => heartbeatVaultEntry(entry.storageId, releaseAt));
+  };
+
+  const handleTransfer = () => {
+    if (!isAddress(transferTo)) {
+      toast.error("Enter a valid address");
+      return;
+    }
+    run("transfer", () => transferEncryptedStorage(entry.storageId, transferTo));
+  };
+
+  return (
+    <div className="glass-effect rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Lock className="w-5 h-5 text-primary" />
+          <div>
+            <div className="font-semibold">{entry.label || `Entry #${entry.storageId}`}</div>
+            <div className="text-xs text-muted-foreground">
+              {shared && `Shared by ${displayName(entry.owner)} · `}
+              {VAULT_VALUE_TYPE_LABELS[entry.valueType]} · Stored {new Date(entry.timestamp * 1000).toLocaleString()}
+              {entry.expiresAt !== 0 &&
+                ` · ${expired ? "Expired" : "Expires"} ${new Date(entry.expiresAt * 1000).toLocaleString()}`}
+            </div>
+            {timeLocked && (
+              <div className="text-xs text-primary flex items-center gap-1 mt-1">
+                <Timer className="w-3 h-3" />
+                {due
+                  ? "Release due: anyone can publish it now"
+                  : `Published automatically in ${formatVaultCountdown(entry.releaseAt - now)}`}
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="font-mono text-lg break-all text-right">
+          {clearValue !== null
+            ? formatVaultValue(entry.valueType, clearValue)
+            : publishedValue !== undefined && !entry.isEncrypted
+              ? formatVaultValue(entry.valueType, publishedValue)
+              : "••••••"}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {clearValue !== null ? (
+          <Button size="sm" variant="outline" onClick={() => setClearValue(null)}>
+            <EyeOff className="w-4 h-4 mr-1" />
+            Hide
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleDecrypt}
+            disabled={isDecrypting || !fhevmInstance || expired}
+          >
+            <Eye className="w-4 h-4 mr-1" />
+            {isDecrypting ? "Decrypting..." : "Decrypt"}
+          </Button>
+        )}
+        {due && (
+          <Button
+            size="sm"
+            onClick={() => run("release", () => releaseVaultEntry(entry.storageId))}
+            disabled={action !== null || isPending}
+          >
+            <Megaphone className="w-4 h-4 mr-1" />
+            {action === "release" ? "Releasing..." : "Release"}
+          </Button>
+        )}
+        {!shared && (
+          <>
+            {canCompute && (
+              <Button size="sm" variant="outline" onClick={() => setShowMath(!showMath)} disabled={expired}>
+                <Calculator className="w-4 h-4 mr-1" />
+                Compute
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => setShowShares(!showShares)} disabled={expired}>
+              <Users className="w-4 h-4 mr-1" />
+              Share
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setShowTransfer(!showTransfer)} disabled={busy}>
+              <Send className="w-4 h-4 mr-1" />
+              Transfer
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => run("publish", () => publishEncryptedValue(entry.storageId))}
+              disabled={busy || !entry.isEncrypted}
+              title="The oracle decrypts the value into a public ValuePublished log, readable by anyone"
+            >
+              <Megaphone className="w-4 h-4 mr-1" />
+              {!entry.isEncrypted ? "Published" : action === "publish" ? "Publishing..." : "Publish"}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {timeLocked && !due && !shared && heartbeatOptions.length > 0 && (
+        <div className="flex gap-2">
+          <select
+            aria-label="New release time"
+            className={SELECT_CLASS}
+            value={selectedHeartbeatHours}
+            onChange={(e) => setHeartbeatHours(Number(e.target.value))}
+          >
+            {heartbeatOptions.map((hours) => (
+              <option key={hours} value={hours}>
+                Publish in {formatVaultPeriod(hours)}
+              </option>
+            ))}
+          </select>
+          <Button size="sm" variant="outline" onClick={handleHeartbeat} disabled={busy}>
+            <HeartPulse className="w-4 h-4 mr-1" />
+            {action === "heartbeat" ? "Postponing..." : "Postpone"}
+          </Button>
+        </div>
+      )}
+
+      {showMath && canCompute && !shared && (
+        <VaultMathPanel entry={entry} fhevmInstance={fhevmInstance} onChange={onChange} />
+      )}
+
+      {showShares && !shared && <VaultSharesPanel storageId={entry.storageId} onChange={onChange} />}
+
+      {showTransfer && (
+        <div className="flex gap-2">
+          <Input value={transferTo} placeholder="Recipient 0x..." onChange={(e) => setTransferTo(e.target.value)} />
+          <Button size="sm" onClick={handleTransfer} disabled={busy || !transferTo}>
+            {action === "transfer" ? "Sending..." : "Send"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VaultEntryCard;
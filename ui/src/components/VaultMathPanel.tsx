@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { useAccount } from "wagmi";
+import { ArrowDownToLine, ArrowUpToLine, Minus, Plus, Scale } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useVault } from "@/hooks/useVault";
+import { encryptVaultValue } from "@/fhevm/encryptInput";
+import type { FhevmInstance } from "@/fhevm/mock/fhevmMock";
+import {
+  VAULT_COMPARISON_SYMBOLS,
+  VAULT_VALUE_TYPE_LABELS,
+  parseVaultValue,
+  type VaultComparisonId,
+  type VaultEntry,
+} from "@/lib/vault";
+
+const SELECT_CLASS =
+  "flex h-9 items-center justify-between rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+type MathAction = "add" | "subtract" | "compare" | "min" | "max";
+
+const ACTION_MESSAGES: Record<MathAction, string> = {
+  add: "Amount added",
+  subtract: "Amount subtracted",
+  compare: "Comparison stored as a new entry",
+  min: "Entry bounded",
+  max: "Entry bounded",
+};
+
+interface VaultMathPanelProps {
+  entry: VaultEntry; // A number entry of the connected user
+  fhevmInstance: FhevmInstance | null;
+  onChange?: () => void; // Called once an update or a comparison is confirmed
+}
+
+// Computes on one of the connected user's number entries without decrypting it. The contract cannot revert on an
+// encrypted overflow, so an addition or subtraction out of the type's range leaves the entry unchanged.
+const VaultMathPanel = ({ entry, fhevmInstance, onChange }: VaultMathPanelProps) => {
+  const { address } = useAccount();
+  const {
+    vaultAddress,
+    addToVaultEntry,
+    subtractFromVaultEntry,
+    compareVaultEntries,
+    boundVaultEntry,
+    isPending,
+    isConfirmed,
+  } = useVault();
+  const [amount, setAmount] = useState("");
+  const [otherId, setOtherId] = useState("");
+  const [comparison, setComparison] = useState<VaultComparisonId>(0);
+  const [action, setAction] = useState<MathAction | null>(null);
+
+  const other = /^\d+$/.test(otherId) ? Number(otherId) : null;
+  const busy = action !== null || isPending;
+
+  useEffect(() => {
+    if (isConfirmed && action) {
+      toast.success(ACTION_MESSAGES[action]);
+      setAction(null);
+      setAmount("");
+      onChange?.();
+    }
+  }, [isConfirmed, action, onChange]);
+
+  const run = async (nextAction: MathAction, write: () => Promise<void>) => {
+    setAction(nextAction);
+    try {
+      await write();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Transaction failed");
+      setAction(null);
+    }
+  };
+
+  const handleAmount = (nextAction: "add" | "subtract") => {
+    if (!fhevmInstance || !address || !vaultAddress) {
+      toast.error("FHE encryption not ready. Please wait...");
+      return;
+    }
+    const parsed = parseVaultValue(entry.valueType, amount);
+    if (parsed === null) {
+      toast.error(`Enter a valid ${VAULT_VALUE_TYPE_LABELS[entry.valueType].toLowerCase()}`);
+      return;
+    }
+    run(nextAction, async () => {
+      const { handle, inputProof } = await encryptVaultValue(
+        fhevmInstance,
+        vaultAddress,
+        address,
+        entry.valueType,
+        parsed
+      );
+      const write = nextAction === "add" ? addToVaultEntry : subtractFromVaultEntry;
+      await write(entry.storageId, handle, inputProof);
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`vaultAmount${entry.storageId}`}>Amount</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`vaultAmount${entry.storageId}`}
+            value={amount}
+            placeholder="Encrypted before sending"
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          <Button size="sm" variant="outline" onClick={() => handleAmount("add")} disabled={busy || !amount}>
+            <Plus className="w-4 h-4 mr-1" />
+            {action === "add" ? "Adding..." : "Add"}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleAmount("subtract")} disabled={busy || !amount}>
+            <Minus className="w-4 h-4 mr-1" />
+            {action === "subtract" ? "Subtracting..." : "Subtract"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`vaultOther${entry.storageId}`}>Another entry of the same type</Label>
+        <div className="flex flex-wrap gap-2">
+          <Input
+            id={`vaultOther${entry.storageId}`}
+            className="w-28"
+            value={otherId}
+            placeholder="Entry #"
+            onChange={(e) => setOtherId(e.target.value)}
+          />
+          <select
+            aria-label="Comparison"
+            className={SELECT_CLASS}
+            value={comparison}
+            onChange={(e) => setComparison(Number(e.target.value) as VaultComparisonId)}
+          >
+            {VAULT_COMPARISON_SYMBOLS.map((symbol, op) => (
+              <option key={op} value={op}>
+                #{entry.storageId} {symbol} #{otherId || "…"}
+              </option>
+            ))}
+          </select>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => run("compare", () => compareVaultEntries(entry.storageId, other!, comparison))}
+            disabled={busy || other === null}
+            title="The encrypted result is stored as a new Boolean entry"
+          >
+            <Scale className="w-4 h-4 mr-1" />
+            {action === "compare" ? "Comparing..." : "Compare"}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => run("min", () => boundVaultEntry(entry.storageId, other!, false))}
+            disabled={busy || other === null}
+            title="Keep the smaller of the two values"
+          >
+            <ArrowDownToLine className="w-4 h-4 mr-1" />
+            Min
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => run("max", () => boundVaultEntry(entry.storageId, other!, true))}
+            disabled={busy || other === null}
+            title="Keep the larger of the two values"
+          >
+            <ArrowUpToLine className="w-4 h-4 mr-1" />
+            Max
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultMathPanel;
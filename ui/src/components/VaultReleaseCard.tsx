@@ -0,0 +1,63 @@
+import { useState, useEffect } from "react";
+import { Megaphone, Timer } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useVault } from "@/hooks/useVault";
+import { VAULT_VALUE_TYPE_LABELS, formatVaultCountdown, isVaultEntryDue, type VaultEntry } from "@/lib/vault";
+
+interface VaultReleaseCardProps {
+  entry: VaultEntry; // A time-locked entry of any user, not published yet
+  owner: string; // Display name of the entry's owner
+  now: number; // Current time in seconds, shared by the page's ticking clock
+  onChange?: () => void; // Called once the release is confirmed
+}
+
+// A time-locked entry counting down to its release. Once due, anyone can act as the keeper and have the oracle
+// publish it; the value then shows on the owner's card and in the ValuePublished log.
+const VaultReleaseCard = ({ entry, owner, now, onChange }: VaultReleaseCardProps) => {
+  const { releaseVaultEntry, isPending, isConfirmed } = useVault();
+  const [isReleasing, setIsReleasing] = useState(false);
+
+  const due = isVaultEntryDue(entry, now);
+
+  useEffect(() => {
+    if (isConfirmed && isReleasing) {
+      toast.success(`Entry #${entry.storageId} released, the oracle publishes it shortly`);
+      setIsReleasing(false);
+      onChange?.();
+    }
+  }, [isConfirmed, isReleasing, entry.storageId, onChange]);
+
+  const handleRelease = async () => {
+    setIsReleasing(true);
+    try {
+      await releaseVaultEntry(entry.storageId);
+    } catch (error) {
+      toast.error((error as Error)?.message || "Release failed");
+      setIsReleasing(false);
+    }
+  };
+
+  return (
+    <div className="glass-effect rounded-xl p-4 flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <Timer className="w-5 h-5 text-primary" />
+        <div>
+          <div className="font-semibold">{entry.label || `Entry #${entry.storageId}`}</div>
+          <div className="text-xs text-muted-foreground">
+            {VAULT_VALUE_TYPE_LABELS[entry.valueType]} · By {owner} ·{" "}
+            {due
+              ? `Due since ${new Date(entry.releaseAt * 1000).toLocaleString()}`
+              : `Releases in ${formatVaultCountdown(entry.releaseAt - now)}`}
+          </div>
+        </div>
+      </div>
+      <Button size="sm" onClick={handleRelease} disabled={!due || isReleasing || isPending}>
+        <Megaphone className="w-4 h-4 mr-1" />
+        {isReleasing ? "Releasing..." : "Release"}
+      </Button>
+    </div>
+  );
+};
+
+export default VaultReleaseCard;
@@ -0,0 +1,146 @@
+import { useState, useEffect } from "react";
+import { useReadContract } from "wagmi";
+import { isAddress } from "viem";
+import { Eraser, UserPlus, UserX } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useVault } from "@/hooks/useVault";
+import { useDisplayNames } from "@/hooks/useDisplayNames";
+import { VAULT_SHARE_HOURS, formatVaultPeriod } from "@/lib/vault";
+
+const SELECT_CLASS =
+  "flex h-9 items-center justify-between rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+type ShareAction = "share" | "revoke" | "prune";
+
+const ACTION_MESSAGES: Record<ShareAction, string> = {
+  share: "Entry shared",
+  revoke: "Access revoked",
+  prune: "Expired shares removed",
+};
+
+interface VaultSharesPanelProps {
+  storageId: number;
+  onChange?: () => void; // Called once a change is confirmed (revoking re-issues the entry's handle)
+}
+
+// Who else may decrypt one of the connected user's entries. Revoking, or pruning expired shares, moves the entry
+// to a fresh handle, so the grantees' access really ends.
+const VaultSharesPanel = ({ storageId, onChange }: VaultSharesPanelProps) => {
+  const {
+    getVaultGranteesConfig,
+    shareVaultEntry,
+    revokeVaultShare,
+    pruneExpiredVaultShares,
+    isPending,
+    isConfirmed,
+  } = useVault();
+  const { data, refetch } = useReadContract(getVaultGranteesConfig(storageId));
+  const [grantee, setGrantee] = useState("");
+  const [hours, setHours] = useState(VAULT_SHARE_HOURS[1]);
+  const [action, setAction] = useState<ShareAction | null>(null);
+
+  const [grantees, expiries] = data ?? [[], []];
+  const displayName = useDisplayNames(grantees);
+  const now = Date.now() / 1000;
+  const hasExpired = expiries.some((expiresAt) => Number(expiresAt) <= now);
+  const busy = action !== null || isPending;
+
+  useEffect(() => {
+    if (isConfirmed && action) {
+      toast.success(ACTION_MESSAGES[action]);
+      setAction(null);
+      setGrantee("");
+      refetch();
+      onChange?.();
+    }
+  }, [isConfirmed, action, refetch, onChange]);
+
+  const run = async (nextAction: ShareAction, write: () => Promise<void>) => {
+    setAction(nextAction);
+    try {
+      await write();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Transaction failed");
+      setAction(null);
+    }
+  };
+
+  const handleShare = () => {
+    if (!isAddress(grantee)) {
+      toast.error("Enter a valid address");
+      return;
+    }
+    run("share", () => shareVaultEntry(storageId, grantee, Math.floor(Date.now() / 1000) + hours * 3600));
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-3">
+      {grantees.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not shared with anyone</p>
+      ) : (
+        <div className="space-y-1 text-sm">
+          {grantees.map((address, index) => {
+            const expiresAt = Number(expiries[index]);
+            return (
+              <div key={address} className="flex items-center justify-between gap-2">
+                <span className="truncate">{displayName(address)}</span>
+                <span className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                  {expiresAt <= now ? "Expired" : `Until ${new Date(expiresAt * 1000).toLocaleString()}`}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => run("revoke", () => revokeVaultShare(storageId, address))}
+                    disabled={busy}
+                    title="Revoke access"
+                  >
+                    <UserX className="w-4 h-4" />
+                  </Button>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {hasExpired && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => run("prune", () => pruneExpiredVaultShares(storageId))}
+          disabled={busy}
+        >
+          <Eraser className="w-4 h-4 mr-1" />
+          {action === "prune" ? "Removing..." : "Remove expired shares"}
+        </Button>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`vaultGrantee-${storageId}`}>Share with</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`vaultGrantee-${storageId}`}
+            value={grantee}
+            placeholder="0x..."
+            onChange={(e) => setGrantee(e.target.value)}
+          />
+          <select value={hours} onChange={(e) => setHours(Number(e.target.value))} className={SELECT_CLASS}>
+            {VAULT_SHARE_HOURS.map((option) => (
+              <option key={option} value={option}>
+                {formatVaultPeriod(option)}
+              </option>
+            ))}
+          </select>
+          <Button size="icon" onClick={handleShare} disabled={busy || !grantee} title="Share">
+            <UserPlus className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultSharesPanel;
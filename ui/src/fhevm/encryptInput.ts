@@ -0,0 +1,41 @@
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@/fhevm/mock/fhevmMock";
+import { toBytes32Hex } from "@/fhevm/useFhevmInstance";
+import { VaultValueType, type VaultValueTypeId } from "@/lib/vault";
+
+// Encrypts one value as the given vault type (see parseVaultValue for the accepted values). The proof binds
+// the handle to `contractAddress` and `userAddress`, the account that sends the transaction.
+export async function encryptVaultValue(
+  instance: FhevmInstance,
+  contractAddress: string,
+  userAddress: string,
+  valueType: VaultValueTypeId,
+  value: bigint | boolean | `0x${string}`,
+): Promise<{ handle: `0x${string}`; inputProof: `0x${string}` }> {
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  switch (valueType) {
+    case VaultValueType.BOOL:
+      input.addBool(value as boolean);
+      break;
+    case VaultValueType.UINT8:
+      input.add8(value as bigint);
+      break;
+    case VaultValueType.UINT16:
+      input.add16(value as bigint);
+      break;
+    case VaultValueType.UINT32:
+      input.add32(value as bigint);
+      break;
+    case VaultValueType.UINT64:
+      input.add64(value as bigint);
+      break;
+    case VaultValueType.ADDRESS:
+      input.addAddress(value as string);
+      break;
+  }
+
+  const encrypted = await input.encrypt();
+  const inputProof =
+    typeof encrypted.inputProof === "string" ? encrypted.inputProof : ethers.hexlify(encrypted.inputProof);
+  return { handle: toBytes32Hex(encrypted.handles[0]), inputProof: inputProof as `0x${string}` };
+}
@@ -10,37 +10,64 @@ import { JsonRpcProvider, randomBytes, hexlify, Provider } from "ethers";
 
 export type FhevmInstance = {
   createEncryptedInput: (contractAddress: string, userAddress: string) => {
-    add32: (value: number) => void;
+    addBool: (value: boolean) => void;
+    add8: (value: number | bigint) => void;
+    add16: (value: number | bigint) => void;
+    add32: (value: number | bigint) => void;
+    add64: (value: number | bigint) => void;
+    addAddress: (value: string) => void;
     encrypt: () => Promise<{
       handles: (string | Uint8Array)[];
       inputProof: string | Uint8Array;
     }>;
   };
+  // User decryption (see fhevm/userDecrypt.ts); the simple local mock cannot decrypt
+  generateKeypair?: () => { publicKey: string; privateKey: string };
+  createEIP712?: (publicKey: string, contractAddresses: string[], startTimestamp: number, durationDays: number) => {
+    domain: { chainId: number; name: string; verifyingContract: string; version: string };
+    types: Record<string, { name: string; type: string }[]>;
+    message: Record<string, unknown>;
+  };
   userDecrypt?: (handles: any[], privateKey: any, publicKey: any, signature: any, contractAddresses: any, userAddress: any, startTimestamp: any, durationDays: any) => Promise<any>;
 };
 
 // Simple local mock implementation that doesn't require RPC calls
 class SimpleMockFhevmInstance implements FhevmInstance {
-  private value: number | null = null;
-
   createEncryptedInput(contractAddress: string, userAddress: string) {
+    // One handle per added value, all covered by the same proof
+    const values: (boolean | number | bigint | string)[] = [];
     return {
-      add32: (value: number) => {
-        this.value = value;
+      addBool: (value: boolean) => {
+        values.push(value);
+      },
+      add8: (value: number | bigint) => {
+        values.push(value);
+      },
+      add16: (value: number | bigint) => {
+        values.push(value);
+      },
+      add32: (value: number | bigint) => {
+        values.push(value);
+      },
+      add64: (value: number | bigint) => {
+        values.push(value);
+      },
+      addAddress: (value: string) => {
+        values.push(value);
       },
       encrypt: async () => {
-        if (this.value === null) {
-          throw new Error("No value added. Call add32() before encrypt().");
+        if (values.length === 0) {
+          throw new Error("No value added. Call one of the add*() methods before encrypt().");
         }
 
         // Generate mock encrypted data
         // In a real implementation, this would be actual FHE encrypted data
         // For mock purposes, we generate deterministic but valid-looking handles
-        const handle = hexlify(randomBytes(32));
+        const handles = values.map(() => hexlify(randomBytes(32)));
         const inputProof = hexlify(randomBytes(128)); // Mock proof
 
         return {
-          handles: [handle],
+          handles,
           inputProof: inputProof,
         };
       },
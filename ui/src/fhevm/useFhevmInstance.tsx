@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { useWalletClient, useChainId } from "wagmi";
+import { toast } from "sonner";
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@/fhevm/mock/fhevmMock";
+import type * as RelayerSDK from "@zama-fhe/relayer-sdk/web";
+
+declare global {
+  interface Window {
+    // Set by the relayer SDK's UMD bundle; `__initialized__` once initSDK has run
+    relayerSDK?: typeof RelayerSDK & { __initialized__?: boolean };
+  }
+}
+
+// Encrypted input handles come back as hex or bytes; contracts take bytes32
+export const toBytes32Hex = (handle: string | Uint8Array) => {
+  let handleHex = typeof handle === 'string' ? handle : ethers.hexlify(handle);
+  // Ensure it's 32 bytes (66 chars including 0x)
+  if (handleHex.length < 66) {
+    handleHex = `0x${handleHex.slice(2).padStart(64, '0')}`;
+  } else if (handleHex.length > 66) {
+    handleHex = handleHex.slice(0, 66);
+  }
+  return handleHex as `0x${string}`;
+};
+
+// The FHEVM instance used to encrypt inputs and decrypt handles: the Hardhat node's mock on localhost
+// (chain 31337), the relayer SDK on Sepolia. Created once `enabled` and a wallet is connected.
+export function useFhevmInstance(enabled: boolean) {
+  const { data: walletClient } = useWalletClient();
+  const chainId = useChainId();
+  const [fhevmInstance, setFhevmInstance] = useState<FhevmInstance | null>(null);
+  const [fhevmLoading, setFhevmLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !walletClient) return;
+
+    const initFhevm = async () => {
+      try {
+        setFhevmLoading(true);
+        // Both ethers and the relayer SDK only need the wallet's EIP-1193 `request`
+        const eip1193 = walletClient as unknown as ethers.Eip1193Provider;
+
+        // Check if we're on a mock chain (localhost)
+        const isMock = chainId === 31337;
+
+        if (isMock) {
+          // For localhost, try to get real FHEVM metadata from Hardhat node first
+          try {
+            const provider = new ethers.BrowserProvider(eip1193);
+            const network = await provider.getNetwork();
+            const networkChainId = Number(network.chainId);
+
+            // Check if hardhat node is running by trying to get block number
+            try {
+              await provider.getBlockNumber();
+            } catch {
+              throw new Error("Cannot connect to hardhat node. Please ensure 'npx hardhat node' is running on http://127.0.0.1:8545");
+            }
+
+            // Try to fetch FHEVM relayer metadata from Hardhat node
+            let metadata: {
+              ACLAddress: `0x${string}`;
+              InputVerifierAddress: `0x${string}`;
+              KMSVerifierAddress: `0x${string}`;
+            } | undefined;
+
+            try {
+              const rpcProvider = new ethers.JsonRpcProvider("http://127.0.0.1:8545");
+              const fhevmMetadata = await rpcProvider.send("fhevm_relayer_metadata", []);
+
+              if (fhevmMetadata &&
+                  typeof fhevmMetadata === 'object' &&
+                  'ACLAddress' in fhevmMetadata &&
+                  'InputVerifierAddress' in fhevmMetadata &&
+                  'KMSVerifierAddress' in fhevmMetadata) {
+                metadata = {
+                  ACLAddress: fhevmMetadata.ACLAddress as `0x${string}`,
+                  InputVerifierAddress: fhevmMetadata.InputVerifierAddress as `0x${string}`,
+                  KMSVerifierAddress: fhevmMetadata.KMSVerifierAddress as `0x${string}`,
+                };
+              }
+            } catch (metadataError) {
+              // Normal when the Hardhat node runs without the FHEVM plugin
+              console.warn("Could not fetch FHEVM metadata from Hardhat node:", (metadataError as Error)?.message);
+            }
+
+            // Use metadata if available, otherwise use zero addresses (will fallback to simple mock)
+            const defaultMetadata = metadata || {
+              ACLAddress: "0x0000000000000000000000000000000000000000" as `0x${string}`,
+              InputVerifierAddress: "0x0000000000000000000000000000000000000000" as `0x${string}`,
+              KMSVerifierAddress: "0x0000000000000000000000000000000000000000" as `0x${string}`,
+            };
+
+            // Dynamically import mock FHEVM
+            const { fhevmMockCreateInstance } = await import("@/fhevm/mock/fhevmMock");
+
+            // Note: fhevmMockCreateInstance will create its own JsonRpcProvider
+            // to access Hardhat node RPC methods (like fhevm_relayer_v1_input_proof)
+            // MetaMask provider doesn't support these methods
+            const instance = await fhevmMockCreateInstance({
+              rpcUrl: `http://127.0.0.1:8545`,
+              chainId: networkChainId,
+              metadata: defaultMetadata,
+              // Don't pass provider - MockFhevmInstance needs direct RPC access
+            });
+
+            setFhevmInstance(instance);
+          } catch (mockError) {
+            const message = (mockError as Error)?.message;
+
+            // Provide helpful error message
+            let errorMessage = "Failed to initialize mock FHEVM";
+            if (message?.includes("getKmsSigners") || message?.includes("KMS")) {
+              errorMessage = "FHEVM initialization failed: KMS contract not available. Please ensure hardhat node is running with FHEVM plugin enabled.";
+            } else if (message?.includes("Cannot connect")) {
+              errorMessage = message;
+            } else {
+              errorMessage = `${errorMessage}: ${message || "Unknown error"}`;
+            }
+
+            throw new Error(errorMessage);
+          }
+        } else {
+          // For Sepolia, use the relayer SDK loaded by the page
+          const relayerSDK = typeof window !== "undefined" ? window.relayerSDK : undefined;
+          if (!relayerSDK) {
+            throw new Error("FHEVM Relayer SDK not loaded. Please ensure @zama-fhe/relayer-sdk is available.");
+          }
+
+          // Initialize SDK if not already initialized
+          if (!relayerSDK.__initialized__) {
+            await relayerSDK.initSDK();
+          }
+
+          const instance = await relayerSDK.createInstance({
+            ...relayerSDK.SepoliaConfig,
+            network: eip1193,
+          });
+          setFhevmInstance(instance);
+        }
+      } catch (error) {
+        console.error("Error initializing FHEVM:", error);
+        toast.error((error as Error)?.message || "Failed to initialize FHE encryption. Please try again.");
+      } finally {
+        setFhevmLoading(false);
+      }
+    };
+
+    initFhevm();
+  }, [enabled, walletClient, chainId]);
+
+  return { fhevmInstance, fhevmLoading };
+}
@@ -0,0 +1,41 @@
+import type { Signer } from "ethers";
+import type { FhevmInstance } from "@/fhevm/mock/fhevmMock";
+
+// How long a signed decryption request stays valid
+const DECRYPTION_DURATION_DAYS = 1;
+
+// Decrypts handles the user has ACL access to: the user signs an EIP-712 request for a throwaway
+// keypair and the relayer (or the Hardhat mock) re-encrypts the values under that key.
+// Results come back in the order of `handles`.
+export async function userDecryptHandles(
+  instance: FhevmInstance,
+  signer: Signer,
+  contractAddress: string,
+  handles: string[],
+): Promise<bigint[]> {
+  if (!instance.generateKeypair || !instance.createEIP712 || !instance.userDecrypt) {
+    throw new Error("Decryption needs the Hardhat node with the FHEVM plugin (or Sepolia)");
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, DECRYPTION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message,
+  );
+
+  const results = await instance.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    privateKey,
+    publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    DECRYPTION_DURATION_DAYS,
+  );
+
+  return handles.map((handle) => BigInt(results[handle]));
+}
@@ -0,0 +1,61 @@
+import { useReadContract, useReadContracts } from 'wagmi';
+import { CRYPTO_PRICE_FEED_ABI } from '@/abi/CryptoPriceFeedABI';
+import { useCryptoPriceGuess } from '@/hooks/useCryptoPriceGuess';
+
+export type RegisteredAsset = {
+  assetId: number;
+  symbol: string;
+  decimals: number;
+  priceScale: number; // prices are stored as USD * priceScale
+  isActive: boolean;
+};
+
+// Fallback while the registry loads; matches the BTC/ETH entries the price feed is deployed with
+const DEFAULT_PRICE_SCALE = 100;
+
+// Asset registry of the CryptoPriceFeed (symbols, decimals and price scales used by events and price feeds)
+export function useAssets() {
+  const { priceFeedAddress } = useCryptoPriceGuess();
+
+  const { data: assetCount } = useReadContract({
+    address: priceFeedAddress,
+    abi: CRYPTO_PRICE_FEED_ABI,
+    functionName: 'getAssetCount',
+    query: {
+      enabled: !!priceFeedAddress,
+      staleTime: 60000,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  const assetIds = Array.from({ length: Number(assetCount ?? 0n) }, (_, index) => index);
+  const { data: entries } = useReadContracts({
+    contracts: assetIds.map((assetId) => ({
+      address: priceFeedAddress,
+      abi: CRYPTO_PRICE_FEED_ABI,
+      functionName: 'assets' as const,
+      args: [BigInt(assetId)] as const,
+    })),
+    query: {
+      enabled: !!priceFeedAddress && assetIds.length > 0,
+      staleTime: 60000,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  const assets: RegisteredAsset[] = [];
+  assetIds.forEach((assetId) => {
+    const entry = entries?.[assetId];
+    if (entry?.status === 'success') {
+      const [symbol, decimals, priceScale, isActive] = entry.result as readonly [string, number, number, boolean];
+      assets.push({ assetId, symbol, decimals, priceScale, isActive });
+    }
+  });
+
+  const getAsset = (assetId: number | bigint | undefined) =>
+    assetId === undefined ? undefined : assets.find((asset) => asset.assetId === Number(assetId));
+
+  const getPriceScale = (assetId: number | bigint | undefined) => getAsset(assetId)?.priceScale ?? DEFAULT_PRICE_SCALE;
+
+  return { assets, getAsset, getPriceScale };
+}
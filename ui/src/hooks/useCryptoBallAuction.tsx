@@ -0,0 +1,226 @@
+import { useAccount, useChainId, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { parseEther } from 'viem';
+import { getCryptoPriceGuessDeployment } from '@/abi/CryptoPriceGuessAddresses';
+import { CRYPTO_BALLS_ABI } from '@/abi/CryptoBallsABI';
+import { CRYPTO_BALL_AUCTION_ABI } from '@/abi/CryptoBallAuctionABI';
+import { useCryptoPriceGuess } from '@/hooks/useCryptoPriceGuess';
+
+// The CryptoBallAuction deployed next to CryptoPriceGuess. Auctioned balls are escrowed by the contract,
+// bids are encrypted euint64 amounts in wei backed by a public ETH deposit, and only the winning bid is
+// decrypted at close. Deposits come back with claimRefund, sale proceeds and royalties with withdraw.
+export function useCryptoBallAuction() {
+  const chainId = useChainId();
+  const { address } = useAccount();
+  const { contractAddress, ballsAddress, contractStatusMessage } = useCryptoPriceGuess();
+
+  // Only trust the auction address once the CryptoPriceGuess deployment it belongs to, and its balls, are confirmed
+  const auctionAddress = ballsAddress ? getCryptoPriceGuessDeployment(chainId)?.auctionAddress : undefined;
+  const auctionStatusMessage =
+    contractStatusMessage ??
+    (contractAddress && !auctionAddress
+      ? `No CryptoBallAuction is deployed on chain ${chainId}. Redeploy the contracts and restart the UI.`
+      : undefined);
+
+  const { writeContract, data: hash, isPending, error } = useWriteContract({
+    mutation: {
+      onError: (error) => {
+        console.error("Write contract error:", error);
+      },
+    },
+  });
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const requireAuction = () => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!auctionAddress) {
+      throw new Error(auctionStatusMessage ?? 'Auction contract is not ready yet');
+    }
+    return auctionAddress;
+  };
+
+  const getAuctionCountConfig = () => ({
+    address: auctionAddress,
+    abi: CRYPTO_BALL_AUCTION_ABI,
+    functionName: 'getAuctionCount' as const,
+    query: {
+      enabled: !!auctionAddress,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Read config of getAuction, for batching with useReadContracts (see AuctionInfo)
+  const getAuctionContract = (auctionId: number) => ({
+    address: auctionAddress,
+    abi: CRYPTO_BALL_AUCTION_ABI,
+    functionName: 'getAuction' as const,
+    args: [BigInt(auctionId)] as const,
+  });
+
+  // The connected user's deposit still held by an auction (refundable once it is settled)
+  const getDepositConfig = (auctionId: number) => ({
+    address: auctionAddress,
+    abi: CRYPTO_BALL_AUCTION_ABI,
+    functionName: 'deposits' as const,
+    args: [BigInt(auctionId), address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!auctionAddress && !!address && auctionId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // The connected user's encrypted bid, decryptable by them (see fhevm/userDecrypt.ts)
+  const getEncryptedBidConfig = (auctionId: number) => ({
+    address: auctionAddress,
+    abi: CRYPTO_BALL_AUCTION_ABI,
+    functionName: 'getEncryptedBid' as const,
+    args: [BigInt(auctionId), address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!auctionAddress && !!address && auctionId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // ETH the connected user can withdraw (auction proceeds and royalties)
+  const getPendingWithdrawalConfig = () => ({
+    address: auctionAddress,
+    abi: CRYPTO_BALL_AUCTION_ABI,
+    functionName: 'pendingWithdrawals' as const,
+    args: [address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!auctionAddress && !!address,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // The address approved for a ball, to check whether the auction can escrow it
+  const getBallApprovalConfig = (ballId: number) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'getApproved' as const,
+    args: [BigInt(ballId)] as const,
+    query: {
+      enabled: !!ballsAddress && ballId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Let the auction contract escrow one ball
+  const approveBall = async (ballId: number) => {
+    const operator = requireAuction();
+
+    return writeContract({
+      address: ballsAddress!,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'approve',
+      args: [operator, BigInt(ballId)],
+    });
+  };
+
+  // `reservePrice` is in ETH ("0" = no reserve), `durationInHours` the bidding period
+  const createAuction = async (ballId: number, reservePrice: string, durationInHours: number) => {
+    const auction = requireAuction();
+
+    return writeContract({
+      address: auction,
+      abi: CRYPTO_BALL_AUCTION_ABI,
+      functionName: 'createAuction',
+      args: [BigInt(ballId), parseEther(reservePrice), BigInt(durationInHours * 3600)],
+    });
+  };
+
+  // `deposit` is the public ETH (in wei) backing the encrypted bid; a bid above it counts as zero
+  const placeBid = async (
+    auctionId: number,
+    encryptedBid: `0x${string}`,
+    inputProof: `0x${string}`,
+    deposit: bigint
+  ) => {
+    const auction = requireAuction();
+
+    return writeContract({
+      address: auction,
+      abi: CRYPTO_BALL_AUCTION_ABI,
+      functionName: 'placeBid',
+      args: [BigInt(auctionId), encryptedBid, inputProof],
+      value: deposit,
+    });
+  };
+
+  // Anyone can close an auction once bidding has ended; the oracle then settles it
+  const closeAuction = async (auctionId: number) => {
+    const auction = requireAuction();
+
+    return writeContract({
+      address: auction,
+      abi: CRYPTO_BALL_AUCTION_ABI,
+      functionName: 'closeAuction',
+      args: [BigInt(auctionId)],
+    });
+  };
+
+  const cancelAuction = async (auctionId: number) => {
+    const auction = requireAuction();
+
+    return writeContract({
+      address: auction,
+      abi: CRYPTO_BALL_AUCTION_ABI,
+      functionName: 'cancelAuction',
+      args: [BigInt(auctionId)],
+    });
+  };
+
+  const claimRefund = async (auctionId: number) => {
+    const auction = requireAuction();
+
+    return writeContract({
+      address: auction,
+      abi: CRYPTO_BALL_AUCTION_ABI,
+      functionName: 'claimRefund',
+      args: [BigInt(auctionId)],
+    });
+  };
+
+  const withdraw = async () => {
+    const auction = requireAuction();
+
+    return writeContract({
+      address: auction,
+      abi: CRYPTO_BALL_AUCTION_ABI,
+      functionName: 'withdraw',
+    });
+  };
+
+  return {
+    auctionAddress,
+    auctionStatusMessage,
+    getAuctionCountConfig,
+    getAuctionContract,
+    getDepositConfig,
+    getEncryptedBidConfig,
+    getPendingWithdrawalConfig,
+    getBallApprovalConfig,
+    approveBall,
+    createAuction,
+    placeBid,
+    closeAuction,
+    cancelAuction,
+    claimRefund,
+    withdraw,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
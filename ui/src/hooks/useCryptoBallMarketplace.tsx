@@ -0,0 +1,239 @@
+import { useAccount, useChainId, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { parseEther } from 'viem';
+import { getCryptoPriceGuessDeployment } from '@/abi/CryptoPriceGuessAddresses';
+import { CRYPTO_BALLS_ABI } from '@/abi/CryptoBallsABI';
+import { CRYPTO_BALL_MARKETPLACE_ABI } from '@/abi/CryptoBallMarketplaceABI';
+import { useCryptoPriceGuess } from '@/hooks/useCryptoPriceGuess';
+import type { ListingFilters } from '@/lib/market';
+
+// The CryptoBallMarketplace deployed next to CryptoPriceGuess. Balls stay in the seller's wallet until a sale,
+// so listing and accepting offers need the marketplace approved on CryptoBalls; ETH from sales, royalties
+// and cancelled offers is pulled with withdraw.
+export function useCryptoBallMarketplace() {
+  const chainId = useChainId();
+  const { address } = useAccount();
+  const { contractAddress, ballsAddress, contractStatusMessage } = useCryptoPriceGuess();
+
+  // Only trust the marketplace address once the CryptoPriceGuess deployment it belongs to, and its balls, are confirmed
+  const marketplaceAddress = ballsAddress ? getCryptoPriceGuessDeployment(chainId)?.marketplaceAddress : undefined;
+  const marketplaceStatusMessage =
+    contractStatusMessage ??
+    (contractAddress && !marketplaceAddress
+      ? `No CryptoBallMarketplace is deployed on chain ${chainId}. Redeploy the contracts and restart the UI.`
+      : undefined);
+
+  const { writeContract, data: hash, isPending, error } = useWriteContract({
+    mutation: {
+      onError: (error) => {
+        console.error("Write contract error:", error);
+      },
+    },
+  });
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const requireMarketplace = () => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!marketplaceAddress) {
+      throw new Error(marketplaceStatusMessage ?? 'Marketplace is not ready yet');
+    }
+    return marketplaceAddress;
+  };
+
+  // One page of valid listings: ballIds, prices, sellers, totalMatches
+  const getFilteredListingsConfig = (filters: ListingFilters, limit: number, offset: number) => ({
+    address: marketplaceAddress,
+    abi: CRYPTO_BALL_MARKETPLACE_ABI,
+    functionName: 'getFilteredListings' as const,
+    args: [
+      BigInt(filters.ballType),
+      BigInt(filters.minPower),
+      BigInt(filters.maxPower),
+      BigInt(filters.sortBy),
+      BigInt(filters.sortOrder),
+      BigInt(limit),
+      BigInt(offset),
+    ] as const,
+    query: {
+      enabled: !!marketplaceAddress,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // A ball's listing: seller (zero address when not listed), price, listedAt
+  const getListingConfig = (ballId: number) => ({
+    address: marketplaceAddress,
+    abi: CRYPTO_BALL_MARKETPLACE_ABI,
+    functionName: 'listings' as const,
+    args: [BigInt(ballId)] as const,
+    query: {
+      enabled: !!marketplaceAddress && ballId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Open offers on a ball: buyers and escrowed amounts (unordered)
+  const getOffersConfig = (ballId: number) => ({
+    address: marketplaceAddress,
+    abi: CRYPTO_BALL_MARKETPLACE_ABI,
+    functionName: 'getOffers' as const,
+    args: [BigInt(ballId)] as const,
+    query: {
+      enabled: !!marketplaceAddress && ballId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // ETH the connected user can withdraw (sale proceeds, royalties, cancelled offers)
+  const getPendingWithdrawalConfig = () => ({
+    address: marketplaceAddress,
+    abi: CRYPTO_BALL_MARKETPLACE_ABI,
+    functionName: 'pendingWithdrawals' as const,
+    args: [address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!marketplaceAddress && !!address,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Whether the connected user approved the marketplace for all of their balls
+  const getIsMarketplaceApprovedConfig = () => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'isApprovedForAll' as const,
+    args: [
+      address ?? '0x0000000000000000000000000000000000000000',
+      marketplaceAddress ?? '0x0000000000000000000000000000000000000000',
+    ] as const,
+    query: {
+      enabled: !!ballsAddress && !!marketplaceAddress && !!address,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Let the marketplace move the connected user's balls when they sell
+  const approveMarketplace = async () => {
+    const operator = requireMarketplace();
+
+    return writeContract({
+      address: ballsAddress!,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'setApprovalForAll',
+      args: [operator, true],
+    });
+  };
+
+  // `price` is in ETH, e.g. "0.05"; re-listing a listed ball updates its price
+  const listBall = async (ballId: number, price: string) => {
+    const marketplace = requireMarketplace();
+
+    return writeContract({
+      address: marketplace,
+      abi: CRYPTO_BALL_MARKETPLACE_ABI,
+      functionName: 'listBall',
+      args: [BigInt(ballId), parseEther(price)],
+    });
+  };
+
+  const cancelListing = async (ballId: number) => {
+    const marketplace = requireMarketplace();
+
+    return writeContract({
+      address: marketplace,
+      abi: CRYPTO_BALL_MARKETPLACE_ABI,
+      functionName: 'cancelListing',
+      args: [BigInt(ballId)],
+    });
+  };
+
+  // `price` is the listing price in wei, sent as the payment
+  const buyBall = async (ballId: number, price: bigint) => {
+    const marketplace = requireMarketplace();
+
+    return writeContract({
+      address: marketplace,
+      abi: CRYPTO_BALL_MARKETPLACE_ABI,
+      functionName: 'buyBall',
+      args: [BigInt(ballId)],
+      value: price,
+    });
+  };
+
+  // `amount` is in ETH and escrowed by the marketplace; a second offer adds to the first
+  const makeOffer = async (ballId: number, amount: string) => {
+    const marketplace = requireMarketplace();
+
+    return writeContract({
+      address: marketplace,
+      abi: CRYPTO_BALL_MARKETPLACE_ABI,
+      functionName: 'makeOffer',
+      args: [BigInt(ballId)],
+      value: parseEther(amount),
+    });
+  };
+
+  const cancelOffer = async (ballId: number) => {
+    const marketplace = requireMarketplace();
+
+    return writeContract({
+      address: marketplace,
+      abi: CRYPTO_BALL_MARKETPLACE_ABI,
+      functionName: 'cancelOffer',
+      args: [BigInt(ballId)],
+    });
+  };
+
+  const acceptOffer = async (ballId: number, buyer: `0x${string}`) => {
+    const marketplace = requireMarketplace();
+
+    return writeContract({
+      address: marketplace,
+      abi: CRYPTO_BALL_MARKETPLACE_ABI,
+      functionName: 'acceptOffer',
+      args: [BigInt(ballId), buyer],
+    });
+  };
+
+  const withdraw = async () => {
+    const marketplace = requireMarketplace();
+
+    return writeContract({
+      address: marketplace,
+      abi: CRYPTO_BALL_MARKETPLACE_ABI,
+      functionName: 'withdraw',
+    });
+  };
+
+  return {
+    marketplaceAddress,
+    marketplaceStatusMessage,
+    getFilteredListingsConfig,
+    getListingConfig,
+    getOffersConfig,
+    getPendingWithdrawalConfig,
+    getIsMarketplaceApprovedConfig,
+    approveMarketplace,
+    listBall,
+    cancelListing,
+    buyBall,
+    makeOffer,
+    cancelOffer,
+    acceptOffer,
+    withdraw,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
@@ -1,151 +1,56 @@
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { getCryptoPriceGuessAddress } from '@/abi/CryptoPriceGuessAddresses';
-import { useChainId } from 'wagmi';
-import { useMemo } from 'react';
-
-// Simplified ABI for CryptoPriceGuess contract
-// This should be replaced with the actual ABI from compiled contract
-const CRYPTO_PRICE_GUESS_ABI = [
-  {
-    inputs: [],
-    name: 'getEventCount',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: '_eventId', type: 'uint256' }],
-    name: 'getPredictionEvent',
-    outputs: [
-      { internalType: 'string', name: 'title', type: 'string' },
-      { internalType: 'uint8', name: 'tokenType', type: 'uint8' },
-      { internalType: 'uint256', name: 'targetDate', type: 'uint256' },
-      { internalType: 'uint256', name: 'endTime', type: 'uint256' },
-      { internalType: 'bool', name: 'isActive', type: 'bool' },
-      { internalType: 'bool', name: 'isFinalized', type: 'bool' },
-      { internalType: 'address', name: 'admin', type: 'address' },
-      { internalType: 'uint256', name: 'totalPredictions', type: 'uint256' },
-      { internalType: 'uint256', name: 'actualPrice', type: 'uint256' },
-      { internalType: 'uint32', name: 'decryptedAveragePrice', type: 'uint32' },
-    ],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { internalType: 'uint256', name: '_eventId', type: 'uint256' },
-      { internalType: 'bytes32', name: '_encryptedPrice', type: 'bytes32' },
-      { internalType: 'bytes', name: 'inputProof', type: 'bytes' },
-    ],
-    name: 'submitPrediction',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { internalType: 'uint256', name: '_eventId', type: 'uint256' },
-      { internalType: 'address', name: '_user', type: 'address' },
-    ],
-    name: 'hasUserPredicted',
-    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  // CryptoBall functions
-  {
-    inputs: [{ internalType: 'uint256', name: '_eventId', type: 'uint256' }],
-    name: 'generateCryptoBall',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'address', name: '_user', type: 'address' }],
-    name: 'getUserBallCount',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: '_ballId', type: 'uint256' }],
-    name: 'getCryptoBall',
-    outputs: [
-      { internalType: 'uint8', name: 'ballType', type: 'uint8' },
-      { internalType: 'uint256', name: 'generationTime', type: 'uint256' },
-      { internalType: 'uint256', name: 'powerLevel', type: 'uint256' },
-      { internalType: 'address', name: 'owner', type: 'address' },
-      { internalType: 'bool', name: 'isActive', type: 'bool' },
-    ],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { internalType: 'uint256', name: '_ballId', type: 'uint256' },
-      { internalType: 'address', name: '_to', type: 'address' },
-    ],
-    name: 'transferCryptoBall',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { internalType: 'string', name: '_title', type: 'string' },
-      { internalType: 'uint8', name: '_tokenType', type: 'uint8' },
-      { internalType: 'uint256', name: '_targetDate', type: 'uint256' },
-      { internalType: 'uint256', name: '_durationInHours', type: 'uint256' },
-    ],
-    name: 'createPredictionEvent',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: '_eventId', type: 'uint256' }],
-    name: 'endPredictionEvent',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { internalType: 'uint256', name: '_eventId', type: 'uint256' },
-      { internalType: 'uint256', name: '_actualPrice', type: 'uint256' },
-    ],
-    name: 'setActualPrice',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: '_eventId', type: 'uint256' }],
-    name: 'finalizePredictionEvent',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: '_eventId', type: 'uint256' }],
-    name: 'getDecryptedAveragePrice',
-    outputs: [{ internalType: 'uint32', name: '', type: 'uint32' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-] as const;
+import { useAccount, useBytecode, useChainId, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { getCryptoPriceGuessDeployment } from '@/abi/CryptoPriceGuessAddresses';
+import { CRYPTO_BALLS_ABI } from '@/abi/CryptoBallsABI';
+import { CRYPTO_PRICE_GUESS_ABI } from '@/abi/CryptoPriceGuessABI';
+import { CRYPTO_PRICE_GUESS_STATS_ABI } from '@/abi/CryptoPriceGuessStatsABI';
+import type { BallFilters } from '@/lib/balls';
+
+// 'unsupported-network': no manifest entry for the connected chain
+// 'not-deployed': manifest entry exists but there is no code at that address (e.g. restarted local node)
+export type ContractStatus = 'unsupported-network' | 'checking' | 'not-deployed' | 'ready';
 
 export function useCryptoPriceGuess() {
   const chainId = useChainId();
   const { address } = useAccount();
-  const contractAddress = useMemo(() => {
-    const addr = getCryptoPriceGuessAddress(chainId);
-    console.log("Contract address for chainId", chainId, ":", addr);
-    if (!addr || addr === "0x0000000000000000000000000000000000000000") {
-      console.warn("Contract not deployed on chain", chainId);
-    }
-    return addr;
-  }, [chainId]);
+  const deployment = getCryptoPriceGuessDeployment(chainId);
+
+  // The manifest may point at a contract that no longer exists, so confirm there is code before using it
+  const { data: bytecode, isLoading: isCheckingBytecode } = useBytecode({
+    address: deployment?.address,
+    chainId,
+    query: {
+      enabled: !!deployment,
+      retry: false,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  let contractStatus: ContractStatus;
+  if (!deployment) {
+    contractStatus = 'unsupported-network';
+  } else if (isCheckingBytecode) {
+    contractStatus = 'checking';
+  } else if (!bytecode || bytecode === '0x') {
+    contractStatus = 'not-deployed';
+  } else {
+    contractStatus = 'ready';
+  }
+
+  const contractAddress = contractStatus === 'ready' ? deployment!.address : undefined;
+  const deploymentBlock = contractStatus === 'ready' ? BigInt(deployment!.deploymentBlock) : undefined;
+  // Deployed with CryptoPriceGuess, so only trusted once its deployment is confirmed: CryptoBalls holds the balls
+  // and their collections, CryptoPriceFeed the assets and prices, CryptoPriceGuessStats serves the profiles and
+  // event searches and CryptoVault the personal vault
+  const ballsAddress = contractAddress ? deployment!.ballsAddress : undefined;
+  const priceFeedAddress = contractAddress ? deployment!.priceFeedAddress : undefined;
+  const statsAddress = contractAddress ? deployment!.statsAddress : undefined;
+  const vaultAddress = contractAddress ? deployment!.vaultAddress : undefined;
+  const contractStatusMessage =
+    contractStatus === 'unsupported-network'
+      ? `CryptoPriceGuess is not deployed on chain ${chainId}. Switch to a supported network.`
+      : contractStatus === 'not-deployed'
+        ? `No CryptoPriceGuess contract found at ${deployment!.address} on chain ${chainId}. Redeploy it and restart the UI.`
+        : undefined;
 
   // Get event count
   const { data: eventCount, refetch: refetchEventCount } = useReadContract({
@@ -175,18 +80,169 @@ export function useCryptoPriceGuess() {
     },
   });
 
-  // Check if user has predicted
-  const checkUserPredicted = (eventId: number) => {
-    return useReadContract({
-      address: contractAddress,
-      abi: CRYPTO_PRICE_GUESS_ABI,
-      functionName: 'hasUserPredicted',
-      args: [BigInt(eventId), address!],
-      query: {
-        enabled: !!contractAddress && !!address && eventId >= 0,
-      },
-    });
-  };
+  // Leaderboard of an event: predictors sorted by rank once revealed (errors are never revealed)
+  const getLeaderboardConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'getEventLeaderboard' as const,
+    args: [BigInt(eventId)] as const,
+    query: {
+      enabled: !!contractAddress && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Scoring progress of an event: scoredCount, revealRequested, isRevealed, winner
+  const getLeaderboardStateConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'eventLeaderboards' as const,
+    args: [BigInt(eventId)] as const,
+    query: {
+      enabled: !!contractAddress && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Event ids for one asset of the registry, in creation order
+  const getEventsByAssetConfig = (assetId: number | null, limit: number) => ({
+    address: statsAddress,
+    abi: CRYPTO_PRICE_GUESS_STATS_ABI,
+    functionName: 'getFilteredEvents' as const,
+    // status: all, asset: assetId + 1, sort: creation time ascending, no offset
+    args: [0n, BigInt((assetId ?? -1) + 1), 0n, 0n, BigInt(limit), 0n] as const,
+    query: {
+      enabled: !!statsAddress && assetId !== null && limit > 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Prize pool of an event: stakeToken (0x0 = ETH), stakeAmount, totalStaked, payoutShares, isCancelled
+  const getEventPoolConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'getEventPool' as const,
+    args: [BigInt(eventId)] as const,
+    query: {
+      enabled: !!contractAddress && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Market of an event: kind, params (threshold / bucket bounds), results after finalize, actual outcome
+  const getEventMarketConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'getEventMarket' as const,
+    args: [BigInt(eventId)] as const,
+    query: {
+      enabled: !!contractAddress && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Winnings (or refund, once cancelled) the connected user can still claim from an event
+  const getClaimableAmountConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'getClaimableAmount' as const,
+    args: [BigInt(eventId), address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!contractAddress && !!address && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Whether an event missed its resolution deadline, letting predictors claim refunds without the admin
+  const getResolutionOverdueConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'isResolutionOverdue' as const,
+    args: [BigInt(eventId)] as const,
+    query: {
+      enabled: !!contractAddress && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // The connected user's prediction on an event: encryptedPrice handle, timestamp, exists
+  const getUserPredictionConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'userPredictions' as const,
+    args: [BigInt(eventId), address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!contractAddress && !!address && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // The connected user's encrypted [lower, upper] handles on a BOUNDS market (reverts without a prediction)
+  const getUserEncryptedBoundsConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'getUserEncryptedBounds' as const,
+    args: [BigInt(eventId), address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!contractAddress && !!address && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Whether the connected user has a prediction on an event
+  const getUserPredictedConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'hasUserPredicted' as const,
+    args: [BigInt(eventId), address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!contractAddress && !!address && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // A page of the connected user's CryptoBalls: ballIds, ballTypes, powerLevels, isActive, totalMatches.
+  // Filters and sort keys are the contract's (see BallFilters)
+  const getFilteredUserBallsConfig = (filters: BallFilters, limit: number, offset: number) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'getFilteredUserBalls' as const,
+    args: [
+      address ?? '0x0000000000000000000000000000000000000000',
+      BigInt(filters.ballType),
+      BigInt(filters.active),
+      BigInt(filters.sortBy),
+      BigInt(filters.sortOrder),
+      BigInt(limit),
+      BigInt(offset),
+    ] as const,
+    query: {
+      enabled: !!ballsAddress && !!address && limit > 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
 
   // Submit prediction
   const { writeContract, data: hash, isPending, error } = useWriteContract({
@@ -200,9 +256,15 @@ export function useCryptoPriceGuess() {
     hash,
   });
 
-  const submitPrediction = async (eventId: number, encryptedPrice: `0x${string}`, inputProof: `0x${string}`) => {
+  // `ethStake` is the entry stake of ETH pools; ERC-20 stakes are pulled by the contract after approval
+  const submitPrediction = async (
+    eventId: number,
+    encryptedPrice: `0x${string}`,
+    inputProof: `0x${string}`,
+    ethStake = 0n,
+  ) => {
     if (!contractAddress) {
-      throw new Error('Contract not deployed on this network');
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
     }
     
     // Validate inputs
@@ -215,6 +277,7 @@ export function useCryptoPriceGuess() {
       eventId,
       encryptedPrice,
       inputProofLength: inputProof.length,
+      ethStake,
     });
     
     // writeContract is synchronous and triggers the mutation
@@ -224,12 +287,92 @@ export function useCryptoPriceGuess() {
       abi: CRYPTO_PRICE_GUESS_ABI,
       functionName: 'submitPrediction',
       args: [BigInt(eventId), encryptedPrice, inputProof],
+      value: ethStake,
+    });
+  };
+
+  // Bounds markets take both encrypted bounds from one encrypted input (one proof)
+  const submitBoundsPrediction = async (
+    eventId: number,
+    encryptedLower: `0x${string}`,
+    encryptedUpper: `0x${string}`,
+    inputProof: `0x${string}`,
+    ethStake = 0n,
+  ) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    if (encryptedLower.length !== 66 || encryptedUpper.length !== 66) {
+      throw new Error('Invalid encrypted bound length, expected 66 (32 bytes)');
+    }
+
+    writeContract({
+      address: contractAddress,
+      abi: CRYPTO_PRICE_GUESS_ABI,
+      functionName: 'submitBoundsPrediction',
+      args: [BigInt(eventId), encryptedLower, encryptedUpper, inputProof],
+      value: ethStake,
+    });
+  };
+
+  // Replaces the caller's prediction while the event is active; the entry stake stays in the pool
+  const updatePrediction = async (eventId: number, encryptedPrice: `0x${string}`, inputProof: `0x${string}`) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    if (encryptedPrice.length !== 66) {
+      throw new Error(`Invalid encrypted price length: ${encryptedPrice.length}, expected 66 (32 bytes)`);
+    }
+
+    writeContract({
+      address: contractAddress,
+      abi: CRYPTO_PRICE_GUESS_ABI,
+      functionName: 'updatePrediction',
+      args: [BigInt(eventId), encryptedPrice, inputProof],
     });
   };
 
-  const createEvent = async (title: string, tokenType: number, targetDate: number, durationInHours: number) => {
+  const updateBoundsPrediction = async (
+    eventId: number,
+    encryptedLower: `0x${string}`,
+    encryptedUpper: `0x${string}`,
+    inputProof: `0x${string}`,
+  ) => {
     if (!contractAddress) {
-      throw new Error('Contract not deployed on this network');
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    if (encryptedLower.length !== 66 || encryptedUpper.length !== 66) {
+      throw new Error('Invalid encrypted bound length, expected 66 (32 bytes)');
+    }
+
+    writeContract({
+      address: contractAddress,
+      abi: CRYPTO_PRICE_GUESS_ABI,
+      functionName: 'updateBoundsPrediction',
+      args: [BigInt(eventId), encryptedLower, encryptedUpper, inputProof],
+    });
+  };
+
+  // Removes the caller's prediction while the event is active and refunds the entry stake
+  const withdrawPrediction = async (eventId: number) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+    writeContract({
+      address: contractAddress,
+      abi: CRYPTO_PRICE_GUESS_ABI,
+      functionName: 'withdrawPrediction',
+      args: [BigInt(eventId)],
+    });
+  };
+
+  // `assetId` is the event's asset in the contract's registry (see useAssets)
+  const createEvent = async (title: string, assetId: number, targetDate: number, durationInHours: number) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
     }
     
     // Validate inputs
@@ -237,8 +380,8 @@ export function useCryptoPriceGuess() {
       throw new Error('Invalid title');
     }
     
-    if (typeof tokenType !== 'number' || (tokenType !== 0 && tokenType !== 1)) {
-      throw new Error('Invalid token type. Must be 0 (BTC) or 1 (ETH)');
+    if (!Number.isInteger(assetId) || assetId < 0) {
+      throw new Error(`Invalid asset: ${assetId}`);
     }
     
     if (typeof targetDate !== 'number' || isNaN(targetDate) || targetDate <= 0) {
@@ -255,7 +398,7 @@ export function useCryptoPriceGuess() {
     
     console.log("Calling createPredictionEvent:", {
       title,
-      tokenType,
+      assetId,
       targetDate: targetDateInt,
       durationInHours: durationInt,
     });
@@ -264,13 +407,106 @@ export function useCryptoPriceGuess() {
       address: contractAddress,
       abi: CRYPTO_PRICE_GUESS_ABI,
       functionName: 'createPredictionEvent',
-      args: [title, tokenType, BigInt(targetDateInt), BigInt(durationInt)],
+      args: [title, BigInt(assetId), BigInt(targetDateInt), BigInt(durationInt)],
+    });
+  };
+
+  // Staked event: `stakeToken` is an ERC-20 address or the zero address for ETH,
+  // `payoutShares` are basis points per leaderboard rank and must sum to 10000
+  const createStakedEvent = async (
+    title: string,
+    assetId: number,
+    targetDate: number,
+    durationInHours: number,
+    stakeToken: `0x${string}`,
+    stakeAmount: bigint,
+    payoutShares: number[],
+  ) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    if (stakeAmount <= 0n) {
+      throw new Error('Stake must be greater than 0');
+    }
+
+    if (payoutShares.reduce((sum, share) => sum + share, 0) !== 10000) {
+      throw new Error('Payout shares must sum to 100%');
+    }
+
+    writeContract({
+      address: contractAddress,
+      abi: CRYPTO_PRICE_GUESS_ABI,
+      functionName: 'createStakedPredictionEvent',
+      args: [
+        title,
+        BigInt(assetId),
+        BigInt(Math.floor(targetDate)),
+        BigInt(Math.floor(durationInHours)),
+        stakeToken,
+        stakeAmount,
+        payoutShares,
+      ],
+    });
+  };
+
+  // Threshold / range / bounds market (see MarketKind); `marketParams` are in the asset's on-chain price unit.
+  // Pass `stake` to create it with a prize pool, as in createStakedEvent
+  const createMarketEvent = async (
+    title: string,
+    assetId: number,
+    targetDate: number,
+    durationInHours: number,
+    kind: number,
+    marketParams: number[],
+    stake?: { stakeToken: `0x${string}`; stakeAmount: bigint; payoutShares: number[] },
+  ) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    if (marketParams.some((param) => !Number.isInteger(param) || param <= 0 || param > 0xffffffff)) {
+      throw new Error('Market parameters are out of range');
+    }
+
+    const eventArgs = [
+      title,
+      BigInt(assetId),
+      BigInt(Math.floor(targetDate)),
+      BigInt(Math.floor(durationInHours)),
+      kind,
+      marketParams,
+    ] as const;
+
+    if (!stake) {
+      writeContract({
+        address: contractAddress,
+        abi: CRYPTO_PRICE_GUESS_ABI,
+        functionName: 'createMarketEvent',
+        args: eventArgs,
+      });
+      return;
+    }
+
+    if (stake.stakeAmount <= 0n) {
+      throw new Error('Stake must be greater than 0');
+    }
+
+    if (stake.payoutShares.reduce((sum, share) => sum + share, 0) !== 10000) {
+      throw new Error('Payout shares must sum to 100%');
+    }
+
+    writeContract({
+      address: contractAddress,
+      abi: CRYPTO_PRICE_GUESS_ABI,
+      functionName: 'createStakedMarketEvent',
+      args: [...eventArgs, stake.stakeToken, stake.stakeAmount, stake.payoutShares],
     });
   };
 
   const endEvent = async (eventId: number) => {
     if (!contractAddress) {
-      throw new Error('Contract not deployed on this network');
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
     }
     writeContract({
       address: contractAddress,
@@ -280,23 +516,23 @@ export function useCryptoPriceGuess() {
     });
   };
 
-  const setActualPrice = async (eventId: number, actualPrice: number) => {
+  // `actualPrice` is in USD; the contract stores USD * the asset's price scale
+  const setActualPrice = async (eventId: number, actualPrice: number, priceScale = 100) => {
     if (!contractAddress) {
-      throw new Error('Contract not deployed on this network');
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
     }
-    // Convert price to cents (multiply by 100)
-    const priceInCents = Math.round(actualPrice * 100);
+    const scaledPrice = Math.round(actualPrice * priceScale);
     writeContract({
       address: contractAddress,
       abi: CRYPTO_PRICE_GUESS_ABI,
       functionName: 'setActualPrice',
-      args: [BigInt(eventId), BigInt(priceInCents)],
+      args: [BigInt(eventId), BigInt(scaledPrice)],
     });
   };
 
   const finalizeEvent = async (eventId: number) => {
     if (!contractAddress) {
-      throw new Error('Contract not deployed on this network');
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
     }
     writeContract({
       address: contractAddress,
@@ -306,63 +542,479 @@ export function useCryptoPriceGuess() {
     });
   };
 
-  // CryptoBall functions
-  const generateCryptoBall = async (eventId: number) => {
-    if (!address) throw new Error('Wallet not connected');
+  const scorePredictions = async (eventId: number, maxCount = 0) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+    writeContract({
+      address: contractAddress,
+      abi: CRYPTO_PRICE_GUESS_ABI,
+      functionName: 'scorePredictions',
+      args: [BigInt(eventId), BigInt(maxCount)],
+    });
+  };
 
-    return writeContract({
+  const revealLeaderboard = async (eventId: number) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+    writeContract({
       address: contractAddress,
       abi: CRYPTO_PRICE_GUESS_ABI,
-      functionName: 'generateCryptoBall',
+      functionName: 'revealLeaderboard',
       args: [BigInt(eventId)],
     });
   };
 
-  const getUserBallCount = (userAddress?: string) => {
-    return useReadContract({
+  const cancelEvent = async (eventId: number) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+    writeContract({
+      address: contractAddress,
+      abi: CRYPTO_PRICE_GUESS_ABI,
+      functionName: 'cancelPredictionEvent',
+      args: [BigInt(eventId)],
+    });
+  };
+
+  const claimWinnings = async (eventId: number) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+    writeContract({
       address: contractAddress,
       abi: CRYPTO_PRICE_GUESS_ABI,
-      functionName: 'getUserBallCount',
-      args: [userAddress || address || '0x0000000000000000000000000000000000000000'],
+      functionName: 'claimWinnings',
+      args: [BigInt(eventId)],
     });
   };
 
-  const getCryptoBall = (ballId: number) => {
-    return useReadContract({
+  const claimRefund = async (eventId: number) => {
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+    writeContract({
       address: contractAddress,
       abi: CRYPTO_PRICE_GUESS_ABI,
-      functionName: 'getCryptoBall',
-      args: [BigInt(ballId)],
+      functionName: 'claimRefund',
+      args: [BigInt(eventId)],
     });
   };
 
-  const transferCryptoBall = async (ballId: number, toAddress: string) => {
+  // CryptoBall functions
+  const generateCryptoBall = async (eventId: number) => {
     if (!address) throw new Error('Wallet not connected');
+    if (!contractAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
 
     return writeContract({
       address: contractAddress,
       abi: CRYPTO_PRICE_GUESS_ABI,
-      functionName: 'transferCryptoBall',
-      args: [BigInt(ballId), toAddress],
+      functionName: 'generateCryptoBall',
+      args: [BigInt(eventId)],
+    });
+  };
+
+  // Whether the connected user already claimed the CryptoBall of an event (one per prediction)
+  const getHasClaimedBallConfig = (eventId: number) => ({
+    address: contractAddress,
+    abi: CRYPTO_PRICE_GUESS_ABI,
+    functionName: 'hasClaimedBall' as const,
+    args: [BigInt(eventId), address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!contractAddress && !!address && eventId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Number of CryptoBalls (ERC-721 balance) owned by a user (the connected user by default)
+  const getUserBallCountConfig = (userAddress?: `0x${string}`) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'balanceOf' as const,
+    args: [userAddress ?? address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!ballsAddress && !!(userAddress ?? address),
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // A CryptoBall: ballType, generationTime, powerLevel, owner, isActive
+  const getCryptoBallConfig = (ballId: number) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'getCryptoBall' as const,
+    args: [BigInt(ballId)] as const,
+    query: {
+      enabled: !!ballsAddress && ballId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // ERC-721 metadata: a base64 data URI with the ball's on-chain SVG (see parseBallMetadata)
+  const getBallTokenURIConfig = (ballId: number) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'tokenURI' as const,
+    args: [BigInt(ballId)] as const,
+    query: {
+      enabled: !!ballsAddress && ballId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Burn FUSION_COST balls of one tier into a ball of the next tier
+  const fuseCryptoBalls = async (ballIds: number[]) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'fuseCryptoBalls',
+      args: [ballIds.map(BigInt)],
+    });
+  };
+
+  // Burn other balls into a ball, adding their power to it
+  const upgradeBallWithBalls = async (ballId: number, consumedBallIds: number[]) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'upgradeBallWithBalls',
+      args: [BigInt(ballId), consumedBallIds.map(BigInt)],
+    });
+  };
+
+  // Spend reward points on a ball's power (1 point = 1 power)
+  const upgradeBallWithPoints = async (ballId: number, points: number) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'upgradeBallWithPoints',
+      args: [BigInt(ballId), BigInt(points)],
+    });
+  };
+
+  // Reward points of the connected user, earned by claiming balls
+  const getRewardPointsConfig = () => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'rewardPoints' as const,
+    args: [address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!ballsAddress && !!address,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // A ball's level-ups, oldest first: { source, previousPower, newPower, timestamp }
+  const getBallUpgradeHistoryConfig = (ballId: number) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'getBallUpgradeHistory' as const,
+    args: [BigInt(ballId)] as const,
+    query: {
+      enabled: !!ballsAddress && ballId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Standard ERC-721 safe transfer from the connected wallet
+  const transferCryptoBall = async (ballId: number, toAddress: `0x${string}`) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'safeTransferFrom',
+      args: [address, toAddress, BigInt(ballId)],
+    });
+  };
+
+  // Collection functions
+  // IDs of a user's collections (the connected user by default), oldest first
+  const getUserCollectionIdsConfig = (userAddress?: `0x${string}`) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'getUserCollectionIds' as const,
+    args: [userAddress ?? address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!ballsAddress && !!(userAddress ?? address),
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // IDs of the collections a user (the connected user by default) curates without owning them
+  const getCuratedCollectionIdsConfig = (userAddress?: `0x${string}`) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'getCuratedCollectionIds' as const,
+    args: [userAddress ?? address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!ballsAddress && !!(userAddress ?? address),
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // A collection's curators and their CollectionRole
+  const getCollectionCuratorsConfig = (collectionId: number) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'getCollectionCurators' as const,
+    args: [BigInt(collectionId)] as const,
+    query: {
+      enabled: !!ballsAddress && collectionId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // A collection: name, owner, ballIds, createdAt, isPublic. Private collections are only readable by their owner
+  // and curators, so the call is made from the connected account
+  const getBallCollectionConfig = (collectionId: number) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'getBallCollection' as const,
+    args: [BigInt(collectionId)] as const,
+    account: address,
+    query: {
+      enabled: !!ballsAddress && collectionId >= 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // A page of public collections: collectionIds, names, owners, ballCounts, total
+  const getPublicCollectionsConfig = (limit: number, offset: number) => ({
+    address: ballsAddress,
+    abi: CRYPTO_BALLS_ABI,
+    functionName: 'getPublicCollections' as const,
+    args: [BigInt(limit), BigInt(offset)] as const,
+    query: {
+      enabled: !!ballsAddress && limit > 0,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  const createBallCollection = async (name: string, isPublic: boolean) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'createBallCollection',
+      args: [name, isPublic],
+    });
+  };
+
+  const renameBallCollection = async (collectionId: number, name: string) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'renameBallCollection',
+      args: [BigInt(collectionId), name],
+    });
+  };
+
+  // Public collections are listed by getPublicCollections
+  const setCollectionPublic = async (collectionId: number, isPublic: boolean) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'setCollectionPublic',
+      args: [BigInt(collectionId), isPublic],
+    });
+  };
+
+  // `ballIds` must hold the collection's current balls, each exactly once, in their new order
+  const reorderCollectionBalls = async (collectionId: number, ballIds: number[]) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'reorderCollectionBalls',
+      args: [BigInt(collectionId), ballIds.map(BigInt)],
+    });
+  };
+
+  // Appoint, change or dismiss (CollectionRole.NONE) a curator; curators can dismiss themselves
+  const setCollectionCurator = async (collectionId: number, curator: `0x${string}`, role: number) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'setCollectionCurator',
+      args: [BigInt(collectionId), curator, role],
+    });
+  };
+
+  // Hands the collection over together with the connected user's balls in it
+  const transferBallCollection = async (collectionId: number, toAddress: `0x${string}`) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'transferBallCollection',
+      args: [BigInt(collectionId), toAddress],
+    });
+  };
+
+  const addBallToCollection = async (collectionId: number, ballId: number) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'addBallToCollection',
+      args: [BigInt(collectionId), BigInt(ballId)],
+    });
+  };
+
+  const removeBallFromCollection = async (collectionId: number, ballId: number) => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!ballsAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+
+    return writeContract({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'removeBallFromCollection',
+      args: [BigInt(collectionId), BigInt(ballId)],
     });
   };
 
   return {
     contractAddress,
+    ballsAddress,
+    priceFeedAddress,
+    statsAddress,
+    vaultAddress,
+    contractStatus,
+    contractStatusMessage,
+    deploymentBlock,
     eventCount: eventCount ? Number(eventCount) : 0,
     refetchEventCount,
     getEventConfig,
-    checkUserPredicted,
+    getLeaderboardConfig,
+    getLeaderboardStateConfig,
+    getEventsByAssetConfig,
+    getEventPoolConfig,
+    getEventMarketConfig,
+    getClaimableAmountConfig,
+    getResolutionOverdueConfig,
+    getUserPredictionConfig,
+    getUserEncryptedBoundsConfig,
+    getUserPredictedConfig,
+    getFilteredUserBallsConfig,
     submitPrediction,
+    submitBoundsPrediction,
+    updatePrediction,
+    updateBoundsPrediction,
+    withdrawPrediction,
     createEvent,
+    createStakedEvent,
+    createMarketEvent,
     endEvent,
     setActualPrice,
     finalizeEvent,
+    scorePredictions,
+    revealLeaderboard,
+    cancelEvent,
+    claimWinnings,
+    claimRefund,
     // CryptoBall functions
     generateCryptoBall,
-    getUserBallCount,
-    getCryptoBall,
+    getHasClaimedBallConfig,
+    getUserBallCountConfig,
+    getCryptoBallConfig,
+    getBallTokenURIConfig,
+    fuseCryptoBalls,
+    upgradeBallWithBalls,
+    upgradeBallWithPoints,
+    getRewardPointsConfig,
+    getBallUpgradeHistoryConfig,
     transferCryptoBall,
+    // Collection functions
+    getUserCollectionIdsConfig,
+    getCuratedCollectionIdsConfig,
+    getCollectionCuratorsConfig,
+    getBallCollectionConfig,
+    getPublicCollectionsConfig,
+    createBallCollection,
+    renameBallCollection,
+    setCollectionPublic,
+    reorderCollectionBalls,
+    setCollectionCurator,
+    transferBallCollection,
+    addBallToCollection,
+    removeBallFromCollection,
     isPending,
     isConfirming,
     isConfirmed,
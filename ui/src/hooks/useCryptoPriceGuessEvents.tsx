@@ -0,0 +1,172 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { usePublicClient, useWatchContractEvent } from 'wagmi';
+import { CRYPTO_PRICE_GUESS_ABI } from '@/abi/CryptoPriceGuessABI';
+import { CRYPTO_BALLS_ABI } from '@/abi/CryptoBallsABI';
+import { useCryptoPriceGuess } from '@/hooks/useCryptoPriceGuess';
+
+const FEED_EVENT_NAMES = [
+  'PredictionEventCreated',
+  'PredictionSubmitted',
+  'PredictionUpdated',
+  'PredictionWithdrawn',
+  'ActualPriceSet',
+  'PredictionEventFinalized',
+  'LeaderboardRevealed',
+  'CryptoBallGenerated',
+  'BallPowerUpgraded',
+] as const;
+
+export type FeedEventName = (typeof FEED_EVENT_NAMES)[number];
+
+export type ContractFeedItem = {
+  id: string; // `${transactionHash}-${logIndex}`
+  eventName: FeedEventName;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+  eventId?: number;
+  title?: string;
+  user?: `0x${string}`; // predictor, winner or ball owner
+  assetId?: number; // asset of a created event
+  price?: bigint; // actual price, average price or winning error, as USD * the asset's price scale
+  ballId?: number;
+  ballType?: number;
+  powerLevel?: number; // power after an upgrade
+};
+
+// Ball events are emitted by the game's CryptoBalls contract, so the feed reads both contracts' logs
+const FEED_ABI = [...CRYPTO_PRICE_GUESS_ABI, ...CRYPTO_BALLS_ABI] as const;
+
+// Public RPCs cap eth_getLogs ranges, so the backfill is fetched in chunks
+const BACKFILL_CHUNK_SIZE = 10_000n;
+
+type RawLog = {
+  eventName?: string;
+  args?: unknown;
+  blockNumber: bigint | null;
+  logIndex: number | null;
+  transactionHash: `0x${string}` | null;
+};
+
+const toFeedItem = (log: RawLog): ContractFeedItem | undefined => {
+  if (!FEED_EVENT_NAMES.includes(log.eventName as FeedEventName)) return undefined;
+  // Pending logs have no position yet; they come back once mined
+  if (log.blockNumber === null || log.logIndex === null || log.transactionHash === null) return undefined;
+
+  const args = (log.args ?? {}) as Record<string, unknown>;
+  const item: ContractFeedItem = {
+    id: `${log.transactionHash}-${log.logIndex}`,
+    eventName: log.eventName as FeedEventName,
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+    transactionHash: log.transactionHash,
+  };
+
+  if (args.eventId !== undefined) item.eventId = Number(args.eventId);
+
+  switch (item.eventName) {
+    case 'PredictionEventCreated':
+      item.title = args.title as string;
+      item.assetId = Number(args.assetId);
+      item.user = args.admin as `0x${string}`;
+      break;
+    case 'PredictionSubmitted':
+    case 'PredictionUpdated':
+    case 'PredictionWithdrawn':
+      item.user = args.user as `0x${string}`;
+      break;
+    case 'ActualPriceSet':
+      item.price = args.actualPrice as bigint;
+      break;
+    case 'PredictionEventFinalized':
+      item.price = BigInt(args.decryptedAveragePrice as number);
+      break;
+    case 'LeaderboardRevealed':
+      item.user = args.winner as `0x${string}`;
+      break;
+    case 'CryptoBallGenerated':
+      item.user = args.owner as `0x${string}`;
+      item.ballId = Number(args.ballId);
+      item.ballType = Number(args.ballType);
+      break;
+    case 'BallPowerUpgraded':
+      item.user = args.owner as `0x${string}`;
+      item.ballId = Number(args.ballId);
+      item.powerLevel = Number(args.newPowerLevel);
+      break;
+  }
+
+  return item;
+};
+
+// Newest first, de-duplicated (backfill and live watchers may deliver the same log)
+const mergeFeed = (previous: ContractFeedItem[], logs: RawLog[]): ContractFeedItem[] => {
+  const byId = new Map(previous.map((item) => [item.id, item]));
+  for (const log of logs) {
+    const item = toFeedItem(log);
+    if (item) byId.set(item.id, item);
+  }
+  return [...byId.values()].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : a.blockNumber > b.blockNumber ? -1 : 1,
+  );
+};
+
+// Contract activity feed: backfilled from the deployment block, then kept live with a log watcher.
+// The feed is cached per chain/contract, so every component using it shares one backfill.
+export function useCryptoPriceGuessEvents() {
+  const { contractAddress, ballsAddress, deploymentBlock } = useCryptoPriceGuess();
+  const publicClient = usePublicClient();
+  const queryClient = useQueryClient();
+
+  const queryKey = ['cryptoPriceGuessEvents', publicClient?.chain.id, contractAddress];
+  const feedAddresses = contractAddress && ballsAddress ? [contractAddress, ballsAddress] : undefined;
+
+  const { data: items = [], isLoading: isBackfilling, error } = useQuery({
+    queryKey,
+    enabled: !!publicClient && !!feedAddresses && deploymentBlock !== undefined,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      const latestBlock = await publicClient!.getBlockNumber();
+
+      const logs: RawLog[] = [];
+      for (let fromBlock = deploymentBlock!; fromBlock <= latestBlock; fromBlock += BACKFILL_CHUNK_SIZE) {
+        const toBlock =
+          fromBlock + BACKFILL_CHUNK_SIZE - 1n < latestBlock ? fromBlock + BACKFILL_CHUNK_SIZE - 1n : latestBlock;
+        const chunk = await publicClient!.getContractEvents({
+          address: feedAddresses!,
+          abi: FEED_ABI,
+          fromBlock,
+          toBlock,
+        });
+        logs.push(...(chunk as RawLog[]));
+      }
+
+      // Keep whatever the watcher delivered while the backfill was running
+      return mergeFeed(queryClient.getQueryData<ContractFeedItem[]>(queryKey) ?? [], logs);
+    },
+  });
+
+  useWatchContractEvent({
+    address: feedAddresses,
+    abi: FEED_ABI,
+    enabled: !!feedAddresses,
+    onLogs: (logs) => {
+      queryClient.setQueryData<ContractFeedItem[]>(queryKey, (previous) =>
+        mergeFeed(previous ?? [], logs as RawLog[]),
+      );
+    },
+  });
+
+  // Titles and assets come from PredictionEventCreated logs so the feed can render without extra reads
+  const eventTitles = new Map<number, string>();
+  const eventAssetIds = new Map<number, number>();
+  for (const item of items) {
+    if (item.eventName === 'PredictionEventCreated' && item.eventId !== undefined) {
+      eventTitles.set(item.eventId, item.title ?? '');
+      if (item.assetId !== undefined) eventAssetIds.set(item.eventId, item.assetId);
+    }
+  }
+
+  return { items, eventTitles, eventAssetIds, isBackfilling, error };
+}
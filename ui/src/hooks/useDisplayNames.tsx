@@ -0,0 +1,37 @@
+import { useReadContracts } from 'wagmi';
+import { CRYPTO_PRICE_GUESS_STATS_ABI } from '@/abi/CryptoPriceGuessStatsABI';
+import { useCryptoPriceGuess } from '@/hooks/useCryptoPriceGuess';
+import { shortenAddress } from '@/lib/utils';
+
+// Resolves display names via getUserPublicProfile; users without a public profile show as a short address
+export function useDisplayNames(addresses: readonly string[]) {
+  const { statsAddress } = useCryptoPriceGuess();
+  const uniqueAddresses = [...new Set(addresses.map((address) => address.toLowerCase()))] as `0x${string}`[];
+
+  const { data: profiles } = useReadContracts({
+    contracts: uniqueAddresses.map((address) => ({
+      address: statsAddress,
+      abi: CRYPTO_PRICE_GUESS_STATS_ABI,
+      functionName: 'getUserPublicProfile' as const,
+      args: [address] as const,
+    })),
+    query: {
+      enabled: !!statsAddress && uniqueAddresses.length > 0,
+      staleTime: 60000,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  const names = new Map<string, string>();
+  uniqueAddresses.forEach((address, index) => {
+    const profile = profiles?.[index];
+    if (profile?.status === 'success') {
+      const [displayName, hasPublicProfile] = profile.result as readonly [string, boolean, bigint, bigint, bigint];
+      if (hasPublicProfile && displayName) {
+        names.set(address, displayName);
+      }
+    }
+  });
+
+  return (address: string) => names.get(address.toLowerCase()) ?? shortenAddress(address);
+}
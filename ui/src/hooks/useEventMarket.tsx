@@ -0,0 +1,26 @@
+import { useReadContract } from 'wagmi';
+import { useCryptoPriceGuess } from '@/hooks/useCryptoPriceGuess';
+
+export type EventMarket = {
+  kind: number; // see MarketKind
+  params: readonly number[]; // THRESHOLD: [threshold]; RANGE: ascending bucket bounds (USD * price scale)
+  results: readonly number[]; // After finalize. THRESHOLD: [below, above]; RANGE: per bucket; BOUNDS: [avg lower, avg upper]
+  actualOutcome: number; // THRESHOLD: 1 = above; RANGE: bucket of the actual price (once it is set)
+};
+
+// Market kind and results of an event. Events created with createPredictionEvent come back as PRICE markets.
+export function useEventMarket(eventId: number) {
+  const { getEventMarketConfig } = useCryptoPriceGuess();
+  const { data, refetch } = useReadContract(getEventMarketConfig(eventId));
+
+  const market: EventMarket | undefined = data
+    ? {
+        kind: Number(data[0]),
+        params: data[1],
+        results: data[2],
+        actualOutcome: data[3],
+      }
+    : undefined;
+
+  return { market, refetch };
+}
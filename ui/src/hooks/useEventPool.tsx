@@ -0,0 +1,52 @@
+import { erc20Abi, formatUnits, zeroAddress } from 'viem';
+import { useReadContract, useReadContracts } from 'wagmi';
+import { useCryptoPriceGuess } from '@/hooks/useCryptoPriceGuess';
+
+export type EventPool = {
+  stakeToken: `0x${string}`; // zero address for ETH pools
+  stakeAmount: bigint;
+  totalStaked: bigint;
+  payoutShares: readonly number[]; // basis points per leaderboard rank
+  isCancelled: boolean;
+  isStaked: boolean;
+  isEthStake: boolean;
+};
+
+// Prize pool of an event with the stake token's symbol/decimals resolved for display.
+// Free events come back with `isStaked: false`.
+export function useEventPool(eventId: number) {
+  const { getEventPoolConfig } = useCryptoPriceGuess();
+  const { data, refetch } = useReadContract(getEventPoolConfig(eventId));
+
+  const pool: EventPool | undefined = data
+    ? {
+        stakeToken: data[0],
+        stakeAmount: data[1],
+        totalStaked: data[2],
+        payoutShares: data[3],
+        isCancelled: data[4],
+        isStaked: data[1] > 0n,
+        isEthStake: data[0] === zeroAddress,
+      }
+    : undefined;
+
+  const isErc20Stake = !!pool && pool.isStaked && !pool.isEthStake;
+  const { data: tokenInfo } = useReadContracts({
+    contracts: [
+      { address: pool?.stakeToken, abi: erc20Abi, functionName: 'symbol' },
+      { address: pool?.stakeToken, abi: erc20Abi, functionName: 'decimals' },
+    ],
+    query: {
+      enabled: isErc20Stake,
+      staleTime: Infinity,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  const symbol = isErc20Stake ? ((tokenInfo?.[0]?.result as string | undefined) ?? 'tokens') : 'ETH';
+  const decimals = isErc20Stake ? ((tokenInfo?.[1]?.result as number | undefined) ?? 18) : 18;
+
+  const formatStake = (amount: bigint) => `${formatUnits(amount, decimals)} ${symbol}`;
+
+  return { pool, symbol, decimals, formatStake, refetch };
+}
@@ -0,0 +1,62 @@
+import { useReadContract, useReadContracts } from 'wagmi';
+import { CRYPTO_BALLS_ABI } from '@/abi/CryptoBallsABI';
+import { useCryptoPriceGuess } from '@/hooks/useCryptoPriceGuess';
+import type { BallFilters } from '@/lib/balls';
+
+export type UserBall = {
+  ballId: number;
+  ballType: number;
+  generationTime: number;
+  powerLevel: number;
+  owner: string;
+  isActive: boolean;
+};
+
+// One page of the connected user's CryptoBalls, filtered and sorted on-chain by getFilteredUserBalls.
+// Generation time and owner are not part of the filtered view, so they are batch-read per ball.
+export function useUserBalls(filters: BallFilters, page: number, pageSize: number) {
+  const { ballsAddress, getFilteredUserBallsConfig } = useCryptoPriceGuess();
+  const { data, isLoading, refetch } = useReadContract(
+    getFilteredUserBallsConfig(filters, pageSize, page * pageSize)
+  );
+
+  const ballIds = (data?.[0] ?? []).map(Number);
+  const { data: details, refetch: refetchDetails } = useReadContracts({
+    contracts: ballIds.map((ballId) => ({
+      address: ballsAddress,
+      abi: CRYPTO_BALLS_ABI,
+      functionName: 'getCryptoBall' as const,
+      args: [BigInt(ballId)] as const,
+    })),
+    query: {
+      enabled: !!ballsAddress && ballIds.length > 0,
+      staleTime: 30000,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  const balls: UserBall[] = [];
+  ballIds.forEach((ballId, index) => {
+    const entry = details?.[index];
+    if (entry?.status === 'success') {
+      const [, generationTime, , owner] = entry.result as readonly [number, bigint, bigint, string, boolean];
+      balls.push({
+        ballId,
+        ballType: Number(data![1][index]),
+        generationTime: Number(generationTime),
+        powerLevel: Number(data![2][index]),
+        owner,
+        isActive: data![3][index],
+      });
+    }
+  });
+
+  const totalMatches = Number(data?.[4] ?? 0n);
+
+  const refetchAll = () => {
+    refetch();
+    refetchDetails();
+  };
+
+  return { balls, totalMatches, isLoading, refetch: refetchAll };
+}
@@ -0,0 +1,464 @@
+import { useAccount, useReadContract, useReadContracts, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { CRYPTO_VAULT_ABI } from '@/abi/CryptoVaultABI';
+import { useCryptoPriceGuess } from '@/hooks/useCryptoPriceGuess';
+import type { VaultComparisonId, VaultEntry, VaultValueTypeId } from '@/lib/vault';
+
+// The encrypted storage of CryptoVault. Values are encrypted in the browser (see useFhevmInstance) and only
+// readable by their owner through user decryption (see fhevm/userDecrypt.ts), unless the owner publishes them.
+export function useVault() {
+  const { address } = useAccount();
+  const { vaultAddress, contractStatusMessage } = useCryptoPriceGuess();
+
+  const { writeContract, data: hash, isPending, error } = useWriteContract({
+    mutation: {
+      onError: (error) => {
+        console.error("Write contract error:", error);
+      },
+    },
+  });
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const requireContract = () => {
+    if (!address) throw new Error('Wallet not connected');
+    if (!vaultAddress) {
+      throw new Error(contractStatusMessage ?? 'Contract is not ready yet');
+    }
+    return vaultAddress;
+  };
+
+  // IDs of the connected user's vault entries
+  const getUserStorageIdsConfig = () => ({
+    address: vaultAddress,
+    abi: CRYPTO_VAULT_ABI,
+    functionName: 'getUserStorageIds' as const,
+    args: [address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!vaultAddress && !!address,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // One page of the connected user's entries, in storage order. `typeFilter` is 0 for all types, otherwise the
+  // VaultValueType + 1; expired entries are left out unless `includeExpired`.
+  const getFilteredVaultEntriesConfig = (
+    typeFilter: number,
+    includeExpired: boolean,
+    limit: number,
+    offset: number
+  ) => ({
+    address: vaultAddress,
+    abi: CRYPTO_VAULT_ABI,
+    functionName: 'getFilteredVaultEntries' as const,
+    args: [
+      address ?? '0x0000000000000000000000000000000000000000',
+      BigInt(typeFilter),
+      includeExpired,
+      BigInt(limit),
+      BigInt(offset),
+    ] as const,
+    query: {
+      enabled: !!vaultAddress && !!address,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Grantees of an entry and their share expiries (expired shares included until pruned)
+  const getVaultGranteesConfig = (storageId: number) => ({
+    address: vaultAddress,
+    abi: CRYPTO_VAULT_ABI,
+    functionName: 'getVaultGrantees' as const,
+    args: [BigInt(storageId)] as const,
+    query: {
+      enabled: !!vaultAddress,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // IDs of the entries currently shared with the connected user
+  const getSharedVaultEntryIdsConfig = () => ({
+    address: vaultAddress,
+    abi: CRYPTO_VAULT_ABI,
+    functionName: 'getSharedVaultEntryIds' as const,
+    args: [address ?? '0x0000000000000000000000000000000000000000'] as const,
+    query: {
+      enabled: !!vaultAddress && !!address,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // One page of the time-locked entries of every user that are not published yet, optionally only the due ones
+  const getPendingVaultReleasesConfig = (dueOnly: boolean, limit: number, offset: number) => ({
+    address: vaultAddress,
+    abi: CRYPTO_VAULT_ABI,
+    functionName: 'getPendingVaultReleases' as const,
+    args: [dueOnly, BigInt(limit), BigInt(offset)] as const,
+    query: {
+      enabled: !!vaultAddress,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Plaintext of a published entry (only meaningful once isEncrypted is false)
+  const getPublishedVaultValueConfig = (storageId: number, enabled = true) => ({
+    address: vaultAddress,
+    abi: CRYPTO_VAULT_ABI,
+    functionName: 'publishedVaultValues' as const,
+    args: [BigInt(storageId)] as const,
+    query: {
+      enabled: !!vaultAddress && enabled,
+      retry: false,
+      refetchOnWindowFocus: false,
+      staleTime: 30000,
+    },
+  });
+
+  // Read config of encryptedStorages, for batching with useReadContracts (see VaultEntry)
+  const getStorageContract = (storageId: number) => ({
+    address: vaultAddress,
+    abi: CRYPTO_VAULT_ABI,
+    functionName: 'encryptedStorages' as const,
+    args: [BigInt(storageId)] as const,
+  });
+
+  // `encryptedValue` and `inputProof` come from an encrypted input with one 32-bit value
+  const storeEncryptedValue = async (encryptedValue: `0x${string}`, inputProof: `0x${string}`) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'storeEncryptedValue',
+      args: [encryptedValue, inputProof],
+    });
+  };
+
+  // `encryptedValue` and `inputProof` come from encryptVaultValue (see fhevm/encryptInput.ts) with the same type.
+  // `expiresAt` is a unix timestamp, 0 for never.
+  const storeEncryptedEntry = async (
+    valueType: VaultValueTypeId,
+    encryptedValue: `0x${string}`,
+    inputProof: `0x${string}`,
+    label: string,
+    expiresAt: number
+  ) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'storeEncryptedEntry',
+      args: [valueType, encryptedValue, inputProof, label, BigInt(expiresAt)],
+    });
+  };
+
+  // As storeEncryptedEntry, but the entry never expires and cannot change; from `releaseAt` (a unix timestamp)
+  // anyone can publish it unless the owner pushes it back with heartbeatVaultEntry
+  const storeTimeLockedEntry = async (
+    valueType: VaultValueTypeId,
+    encryptedValue: `0x${string}`,
+    inputProof: `0x${string}`,
+    label: string,
+    releaseAt: number
+  ) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'storeTimeLockedEntry',
+      args: [valueType, encryptedValue, inputProof, label, BigInt(releaseAt)],
+    });
+  };
+
+  // `releaseAt` must be later than the current release time, which must not have passed
+  const heartbeatVaultEntry = async (storageId: number, releaseAt: number) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'heartbeatVaultEntry',
+      args: [BigInt(storageId), BigInt(releaseAt)],
+    });
+  };
+
+  // Anyone can release a due time-locked entry: the oracle publishes it as with publishEncryptedValue
+  const releaseVaultEntry = async (storageId: number) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'releaseVaultEntry',
+      args: [BigInt(storageId)],
+    });
+  };
+
+  // Sends the value to the public decryption oracle: the plaintext ends up in a ValuePublished log for anyone to read
+  const publishEncryptedValue = async (storageId: number) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'publishEncryptedValue',
+      args: [BigInt(storageId)],
+    });
+  };
+
+  const transferEncryptedStorage = async (storageId: number, toAddress: `0x${string}`) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'transferEncryptedStorage',
+      args: [BigInt(storageId), toAddress],
+    });
+  };
+
+  // `expiresAt` is a unix timestamp; sharing again with a grantee changes the expiry
+  const shareVaultEntry = async (storageId: number, grantee: `0x${string}`, expiresAt: number) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'shareVaultEntry',
+      args: [BigInt(storageId), grantee, BigInt(expiresAt)],
+    });
+  };
+
+  // Re-issues the entry under a fresh handle, so the grantee's access really ends
+  const revokeVaultShare = async (storageId: number, grantee: `0x${string}`) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'revokeVaultShare',
+      args: [BigInt(storageId), grantee],
+    });
+  };
+
+  const pruneExpiredVaultShares = async (storageId: number) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'pruneExpiredVaultShares',
+      args: [BigInt(storageId)],
+    });
+  };
+
+  // `encryptedAmount` and `inputProof` come from encryptVaultValue with the entry's type. A sum that would overflow
+  // the type leaves the entry unchanged.
+  const addToVaultEntry = async (storageId: number, encryptedAmount: `0x${string}`, inputProof: `0x${string}`) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'addToVaultEntry',
+      args: [BigInt(storageId), encryptedAmount, inputProof],
+    });
+  };
+
+  // As addToVaultEntry; an amount larger than the entry leaves it unchanged
+  const subtractFromVaultEntry = async (
+    storageId: number,
+    encryptedAmount: `0x${string}`,
+    inputProof: `0x${string}`
+  ) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'subtractFromVaultEntry',
+      args: [BigInt(storageId), encryptedAmount, inputProof],
+    });
+  };
+
+  // Stores the encrypted result as a new Boolean entry of the connected user
+  const compareVaultEntries = async (storageId: number, otherId: number, comparison: VaultComparisonId) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: 'compareVaultEntries',
+      args: [BigInt(storageId), BigInt(otherId), comparison],
+    });
+  };
+
+  // Replaces the entry with the smaller (or larger, `max`) of itself and the other entry
+  const boundVaultEntry = async (storageId: number, otherId: number, max: boolean) => {
+    const contract = requireContract();
+
+    return writeContract({
+      address: contract,
+      abi: CRYPTO_VAULT_ABI,
+      functionName: max ? 'maxVaultEntries' : 'minVaultEntries',
+      args: [BigInt(storageId), BigInt(otherId)],
+    });
+  };
+
+  return {
+    vaultAddress,
+    getUserStorageIdsConfig,
+    getFilteredVaultEntriesConfig,
+    getVaultGranteesConfig,
+    getSharedVaultEntryIdsConfig,
+    getPendingVaultReleasesConfig,
+    getPublishedVaultValueConfig,
+    getStorageContract,
+    storeEncryptedValue,
+    storeEncryptedEntry,
+    storeTimeLockedEntry,
+    heartbeatVaultEntry,
+    releaseVaultEntry,
+    publishEncryptedValue,
+    transferEncryptedStorage,
+    shareVaultEntry,
+    revokeVaultShare,
+    pruneExpiredVaultShares,
+    addToVaultEntry,
+    subtractFromVaultEntry,
+    compareVaultEntries,
+    boundVaultEntry,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+type StorageResult = readonly [`0x${string}`, `0x${string}`, bigint, boolean, number, string, bigint, bigint];
+
+const toVaultEntry = (storageId: number, result: StorageResult): VaultEntry => {
+  const [handle, owner, timestamp, isEncrypted, valueType, label, expiresAt, releaseAt] = result;
+  return {
+    storageId,
+    handle,
+    owner,
+    timestamp: Number(timestamp),
+    isEncrypted,
+    valueType: valueType as VaultValueTypeId,
+    label,
+    expiresAt: Number(expiresAt),
+    releaseAt: Number(releaseAt),
+  };
+};
+
+// One page of the connected user's vault entries, filtered as in getFilteredVaultEntriesConfig
+export function useVaultEntries(typeFilter: number, includeExpired: boolean, pageSize: number, page: number) {
+  const { vaultAddress, getFilteredVaultEntriesConfig, getStorageContract } = useVault();
+  const { data: filtered, isLoading, refetch } = useReadContract(
+    getFilteredVaultEntriesConfig(typeFilter, includeExpired, pageSize, page * pageSize)
+  );
+
+  const [storageIds, , , , totalMatches] = filtered ?? [[], [], [], [], 0n];
+  const ids = storageIds.map(Number);
+  const { data: details, refetch: refetchDetails } = useReadContracts({
+    contracts: ids.map(getStorageContract),
+    query: {
+      enabled: !!vaultAddress && ids.length > 0,
+      staleTime: 30000,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  const entries: VaultEntry[] = [];
+  ids.forEach((storageId, index) => {
+    const entry = details?.[index];
+    if (entry?.status === 'success') {
+      entries.push(toVaultEntry(storageId, entry.result as StorageResult));
+    }
+  });
+
+  const refetchAll = () => {
+    refetch();
+    refetchDetails();
+  };
+
+  return { entries, totalMatches: Number(totalMatches), isLoading, refetch: refetchAll };
+}
+
+// Entries other users currently share with the connected user
+export function useSharedVaultEntries() {
+  const { vaultAddress, getSharedVaultEntryIdsConfig, getStorageContract } = useVault();
+  const { data: storageIds, isLoading, refetch } = useReadContract(getSharedVaultEntryIdsConfig());
+
+  const ids = (storageIds ?? []).map(Number);
+  const { data: details, refetch: refetchDetails } = useReadContracts({
+    contracts: ids.map(getStorageContract),
+    query: {
+      enabled: !!vaultAddress && ids.length > 0,
+      staleTime: 30000,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  const entries: VaultEntry[] = [];
+  ids.forEach((storageId, index) => {
+    const entry = details?.[index];
+    if (entry?.status === 'success') {
+      entries.push(toVaultEntry(storageId, entry.result as StorageResult));
+    }
+  });
+
+  const refetchAll = () => {
+    refetch();
+    refetchDetails();
+  };
+
+  return { entries, isLoading, refetch: refetchAll };
+}
+
+// One page of the time-locked entries of every user waiting to be published, for keepers to release the due ones
+export function usePendingVaultReleases(pageSize: number, page: number) {
+  const { vaultAddress, getPendingVaultReleasesConfig, getStorageContract } = useVault();
+  const { data: pending, isLoading, refetch } = useReadContract(
+    getPendingVaultReleasesConfig(false, pageSize, page * pageSize)
+  );
+
+  const [storageIds, , totalMatches] = pending ?? [[], [], 0n];
+  const ids = storageIds.map(Number);
+  const { data: details, refetch: refetchDetails } = useReadContracts({
+    contracts: ids.map(getStorageContract),
+    query: {
+      enabled: !!vaultAddress && ids.length > 0,
+      staleTime: 30000,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  const entries: VaultEntry[] = [];
+  ids.forEach((storageId, index) => {
+    const entry = details?.[index];
+    if (entry?.status === 'success') {
+      entries.push(toVaultEntry(storageId, entry.result as StorageResult));
+    }
+  });
+
+  const refetchAll = () => {
+    refetch();
+    refetchDetails();
+  };
+
+  return { entries, totalMatches: Number(totalMatches), isLoading, refetch: refetchAll };
+}
@@ -0,0 +1,25 @@
+// Mirrors CryptoBallAuction.AuctionStatus
+export const AuctionStatus = {
+  OPEN: 0,
+  REVEALING: 1,
+  SETTLED: 2,
+  CANCELLED: 3,
+} as const;
+
+export const AUCTION_STATUS_LABELS = ["Open", "Revealing", "Settled", "Cancelled"];
+
+// Bidding period presets offered when creating an auction (the contract allows up to 30 days)
+export const AUCTION_DURATION_HOURS = [1, 6, 24, 72, 168];
+
+// getAuction result
+export type AuctionInfo = {
+  auctionId: number;
+  ballId: number;
+  seller: `0x${string}`;
+  reservePrice: bigint;
+  endTime: number;
+  bidCount: number;
+  status: number;
+  winner: `0x${string}`;
+  winningBid: bigint;
+};
@@ -0,0 +1,53 @@
+// Mirrors CryptoPriceGuess.BallType
+export const BallType = {
+  CRYSTAL: 0,
+  PREDICTION: 1,
+  VAULT: 2,
+} as const;
+
+export const BALL_TYPE_NAMES = ["Crystal", "Prediction", "Vault"];
+
+// Mirrors CryptoPriceGuess.FUSION_COST: balls of one tier burned per fusion
+export const FUSION_COST = 3;
+
+// Mirrors CryptoPriceGuess.UpgradeSource
+export const UPGRADE_SOURCE_LABELS = ["Fused", "Balls burned", "Reward points"];
+
+// Fusion needs FUSION_COST balls of one tier below Crystal; returns the tier they fuse into
+export function fusionResult(ballTypes: number[]): number | undefined {
+  if (ballTypes.length !== FUSION_COST) return undefined;
+  const [ballType] = ballTypes;
+  if (ballType === BallType.CRYSTAL || ballTypes.some((type) => type !== ballType)) return undefined;
+  return ballType - 1;
+}
+
+// getFilteredUserBalls arguments. ballType: 0 = all, otherwise BallType + 1; active: 0 = all, 1 = active;
+// sortBy: 0 = generation time, 1 = power level, 2 = ball type; sortOrder: 0 = ascending, 1 = descending
+export type BallFilters = {
+  ballType: number;
+  active: number;
+  sortBy: number;
+  sortOrder: number;
+};
+
+export const DEFAULT_BALL_FILTERS: BallFilters = { ballType: 0, active: 0, sortBy: 0, sortOrder: 1 };
+
+export const BALL_SORT_LABELS = ["Generation time", "Power level", "Ball type"];
+
+export type BallMetadata = {
+  name: string;
+  description: string;
+  image: string; // data:image/svg+xml;base64 URI, usable as an <img> src
+  attributes: { trait_type: string; value: string | number; display_type?: string }[];
+};
+
+// Decode the contract's tokenURI (data:application/json;base64,...)
+export function parseBallMetadata(tokenUri: string): BallMetadata | undefined {
+  const [prefix, payload] = tokenUri.split(",");
+  if (prefix !== "data:application/json;base64" || !payload) return undefined;
+  try {
+    return JSON.parse(atob(payload)) as BallMetadata;
+  } catch {
+    return undefined;
+  }
+}
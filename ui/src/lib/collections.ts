@@ -0,0 +1,45 @@
+// Mirrors CryptoBalls.MAX_COLLECTION_BALLS
+export const MAX_COLLECTION_BALLS = 100;
+
+// Mirrors the contract's collection name check (1 to 50 bytes)
+export const MAX_COLLECTION_NAME_BYTES = 50;
+
+export function isValidCollectionName(name: string): boolean {
+  const length = new TextEncoder().encode(name).length;
+  return length > 0 && length <= MAX_COLLECTION_NAME_BYTES;
+}
+
+// Drag-and-drop payload of a ball tile: where it was dragged from, so drop targets know whether to add,
+// remove or reorder
+export const BALL_DRAG_TYPE = "application/x-cryptoball";
+
+export type BallDragSource = "inventory" | "collection";
+
+export type BallDragPayload = { ballId: number; source: BallDragSource };
+
+export function parseBallDragPayload(data: string): BallDragPayload | undefined {
+  try {
+    const payload = JSON.parse(data) as BallDragPayload;
+    return Number.isInteger(payload.ballId) ? payload : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Move `ballId` in front of `beforeBallId` (to the end when undefined); a new order for reorderCollectionBalls
+export function moveBall(ballIds: number[], ballId: number, beforeBallId?: number): number[] {
+  if (ballId === beforeBallId) return ballIds;
+  const rest = ballIds.filter((id) => id !== ballId);
+  const index = beforeBallId === undefined ? -1 : rest.indexOf(beforeBallId);
+  if (index === -1) return [...rest, ballId];
+  return [...rest.slice(0, index), ballId, ...rest.slice(index)];
+}
+
+// Mirrors CryptoBalls.CollectionRole; the owner is not a curator and has every permission
+export const CollectionRole = {
+  NONE: 0,
+  EDITOR: 1,
+  MANAGER: 2,
+} as const;
+
+export const COLLECTION_ROLE_LABELS = ["None", "Editor", "Manager"];
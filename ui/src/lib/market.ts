@@ -0,0 +1,23 @@
+// getFilteredListings arguments. ballType: 0 = all, otherwise BallType + 1; minPower / maxPower: inclusive power
+// range (maxPower 0 = no maximum); sortBy: 0 = listing time, 1 = price, 2 = power level; sortOrder: 0 = ascending,
+// 1 = descending
+export type ListingFilters = {
+  ballType: number;
+  minPower: number;
+  maxPower: number;
+  sortBy: number;
+  sortOrder: number;
+};
+
+export const DEFAULT_LISTING_FILTERS: ListingFilters = {
+  ballType: 0,
+  minPower: 0,
+  maxPower: 0,
+  sortBy: 0,
+  sortOrder: 1,
+};
+
+export const LISTING_SORT_LABELS = ["Listing time", "Price", "Power level"];
+
+// Mirrors CryptoPriceGuess.ROYALTY_BPS: share of a sale paid to the admin of the ball's source event
+export const ROYALTY_BPS = 250;
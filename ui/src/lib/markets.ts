@@ -0,0 +1,26 @@
+import { formatUsdPrice } from "@/lib/utils";
+
+// Mirrors CryptoPriceGuess.EventKind
+export const MarketKind = {
+  PRICE: 0,
+  THRESHOLD: 1,
+  RANGE: 2,
+  BOUNDS: 3,
+} as const;
+
+export const MARKET_KIND_LABELS = ["Price", "Above / Below", "Range", "Bounds"];
+
+// Contract cap on the number of buckets of a range market
+export const MAX_RANGE_BUCKETS = 10;
+
+// Ascending bounds [b0, b1] -> ["< b0", "b0 - b1", "≥ b1"]
+export function formatBucketLabels(bounds: readonly number[], priceScale = 100): string[] {
+  if (bounds.length === 0) return [];
+  const labels = bounds.map((bound, i) =>
+    i === 0
+      ? `< ${formatUsdPrice(bound, priceScale)}`
+      : `${formatUsdPrice(bounds[i - 1], priceScale)} - ${formatUsdPrice(bound, priceScale)}`,
+  );
+  labels.push(`≥ ${formatUsdPrice(bounds[bounds.length - 1], priceScale)}`);
+  return labels;
+}
@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// On-chain prices are stored as USD * the asset's price scale (100 = cents)
+export function formatUsdPrice(amount: bigint | number, priceScale = 100) {
+  const fractionDigits = Math.max(2, String(priceScale).length - 1);
+  return `$${(Number(amount) / priceScale).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: fractionDigits,
+  })}`;
+}
@@ -0,0 +1,113 @@
+import { isAddress } from "viem";
+
+// Mirrors CryptoVault.VaultValueType
+export const VaultValueType = {
+  BOOL: 0,
+  UINT8: 1,
+  UINT16: 2,
+  UINT32: 3,
+  UINT64: 4,
+  ADDRESS: 5,
+} as const;
+
+export type VaultValueTypeId = (typeof VaultValueType)[keyof typeof VaultValueType];
+
+export const VAULT_VALUE_TYPE_LABELS = [
+  "Boolean",
+  "8-bit number",
+  "16-bit number",
+  "32-bit number",
+  "64-bit number",
+  "Address",
+];
+
+export const isVaultNumberType = (valueType: number) =>
+  valueType !== VaultValueType.BOOL && valueType !== VaultValueType.ADDRESS;
+
+// Mirrors CryptoVault.VaultComparison
+export const VaultComparison = {
+  EQ: 0,
+  NE: 1,
+  LT: 2,
+  LE: 3,
+  GT: 4,
+  GE: 5,
+} as const;
+
+export type VaultComparisonId = (typeof VaultComparison)[keyof typeof VaultComparison];
+
+export const VAULT_COMPARISON_SYMBOLS = ["=", "≠", "<", "≤", ">", "≥"];
+
+// Largest value of each integer type
+const VAULT_UINT_MAX: Partial<Record<VaultValueTypeId, bigint>> = {
+  [VaultValueType.UINT8]: 2n ** 8n - 1n,
+  [VaultValueType.UINT16]: 2n ** 16n - 1n,
+  [VaultValueType.UINT32]: 2n ** 32n - 1n,
+  [VaultValueType.UINT64]: 2n ** 64n - 1n,
+};
+
+export const MAX_VAULT_LABEL_LENGTH = 64;
+
+// Expiry presets offered when storing an entry; 0 = never expires
+export const VAULT_EXPIRY_HOURS = [0, 1, 24, 168, 720];
+
+// Share period presets offered when sharing an entry
+export const VAULT_SHARE_HOURS = [1, 24, 168, 720];
+
+// Release time presets for time-locked entries, and for pushing the release back (heartbeat)
+export const VAULT_RELEASE_HOURS = [1, 24, 168, 720];
+
+export const formatVaultPeriod = (hours: number) =>
+  hours < 24 ? `${hours}h` : `${hours / 24} day${hours === 24 ? "" : "s"}`;
+
+// A value typed into the store form, converted for encryption (see fhevm/encryptInput.ts), or null if it is
+// not valid for the type
+export function parseVaultValue(valueType: VaultValueTypeId, input: string): bigint | boolean | `0x${string}` | null {
+  const value = input.trim();
+  if (valueType === VaultValueType.BOOL) {
+    return value === "true" ? true : value === "false" ? false : null;
+  }
+  if (valueType === VaultValueType.ADDRESS) {
+    return isAddress(value) ? value : null;
+  }
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = BigInt(value);
+  return parsed <= VAULT_UINT_MAX[valueType]! ? parsed : null;
+}
+
+// A decrypted or published value (user decryption and ValuePublished both widen it to an integer)
+export function formatVaultValue(valueType: number, value: bigint): string {
+  if (valueType === VaultValueType.BOOL) return value === 0n ? "false" : "true";
+  if (valueType === VaultValueType.ADDRESS) return `0x${value.toString(16).padStart(40, "0")}`;
+  return value.toString();
+}
+
+// encryptedStorages result; `handle` is the ciphertext handle of the stored value
+export type VaultEntry = {
+  storageId: number;
+  handle: `0x${string}`;
+  owner: `0x${string}`;
+  timestamp: number;
+  isEncrypted: boolean;
+  valueType: VaultValueTypeId;
+  label: string;
+  expiresAt: number; // 0 = never
+  releaseAt: number; // 0 = not time-locked
+};
+
+export const isVaultEntryExpired = (entry: VaultEntry, now = Date.now() / 1000) =>
+  entry.expiresAt !== 0 && now >= entry.expiresAt;
+
+// Time-locked entries can be released by anyone from releaseAt, until they are published
+export const isVaultEntryDue = (entry: VaultEntry, now = Date.now() / 1000) =>
+  entry.releaseAt !== 0 && entry.isEncrypted && now >= entry.releaseAt;
+
+// Time left until a release, e.g. "2d 4h", "3h 12m" or "45s"
+export function formatVaultCountdown(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAccount, useReadContract, useReadContracts } from "wagmi";
+import { formatEther } from "viem";
+import { Gavel, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import SiteHeader from "@/components/SiteHeader";
+import ContractStatusBanner from "@/components/ContractStatusBanner";
+import AuctionCard from "@/components/AuctionCard";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useCryptoBallAuction } from "@/hooks/useCryptoBallAuction";
+import { AUCTION_STATUS_LABELS, type AuctionInfo } from "@/lib/auctions";
+
+const SELECT_CLASS =
+  "flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+const Auctions = () => {
+  const { isConnected } = useAccount();
+  const {
+    auctionAddress,
+    auctionStatusMessage,
+    getAuctionCountConfig,
+    getAuctionContract,
+    getPendingWithdrawalConfig,
+    withdraw,
+    isPending,
+    isConfirmed,
+  } = useCryptoBallAuction();
+  const { data: auctionCount, refetch: refetchCount } = useReadContract(getAuctionCountConfig());
+  const { data: pendingWithdrawal, refetch: refetchPending } = useReadContract(getPendingWithdrawalConfig());
+  // -1 = all statuses, otherwise an AuctionStatus
+  const [statusFilter, setStatusFilter] = useState(-1);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  // Newest first
+  const auctionIds = Array.from({ length: Number(auctionCount ?? 0n) }, (_, index) => Number(auctionCount) - 1 - index);
+  const { data: details, isLoading, refetch: refetchDetails } = useReadContracts({
+    contracts: auctionIds.map(getAuctionContract),
+    query: {
+      enabled: !!auctionAddress && auctionIds.length > 0,
+      staleTime: 30000,
+      refetchOnWindowFocus: false,
+    },
+  });
+
+  const auctions: AuctionInfo[] = [];
+  auctionIds.forEach((auctionId, index) => {
+    const entry = details?.[index];
+    if (entry?.status === "success") {
+      const [ballId, seller, reservePrice, endTime, bidCount, status, winner, winningBid] = entry.result as readonly [
+        bigint,
+        `0x${string}`,
+        bigint,
+        bigint,
+        bigint,
+        number,
+        `0x${string}`,
+        bigint,
+      ];
+      auctions.push({
+        auctionId,
+        ballId: Number(ballId),
+        seller,
+        reservePrice,
+        endTime: Number(endTime),
+        bidCount: Number(bidCount),
+        status,
+        winner,
+        winningBid,
+      });
+    }
+  });
+  const visibleAuctions = auctions.filter((auction) => statusFilter < 0 || auction.status === statusFilter);
+  const withdrawable = pendingWithdrawal ?? 0n;
+
+  // Countdowns tick every second; ended auctions switch to "Close auction" without a refetch
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (isConfirmed && isWithdrawing) {
+      toast.success("Proceeds withdrawn");
+      setIsWithdrawing(false);
+      refetchPending();
+    }
+  }, [isConfirmed, isWithdrawing, refetchPending]);
+
+  const handleWithdraw = async () => {
+    setIsWithdrawing(true);
+    try {
+      await withdraw();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Withdrawal failed");
+      setIsWithdrawing(false);
+    }
+  };
+
+  const handleAuctionChanged = useCallback(() => {
+    refetchCount();
+    refetchDetails();
+    refetchPending();
+  }, [refetchCount, refetchDetails, refetchPending]);
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <SiteHeader />
+      <ContractStatusBanner />
+
+      <section className="container mx-auto px-4 py-12">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-3">
+            <Gavel className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold">Sealed-bid Auctions</h1>
+              <p className="text-muted-foreground">
+                Bids are encrypted; only the winning bid is revealed and losing bids are refunded unseen
+              </p>
+            </div>
+          </div>
+          {isConnected && withdrawable > 0n && (
+            <div className="glass-effect rounded-xl p-4 flex items-center gap-4 text-sm">
+              <span>
+                <Wallet className="w-4 h-4 inline mr-2 text-primary" />
+                {formatEther(withdrawable)} ETH to withdraw
+              </span>
+              <Button size="sm" onClick={handleWithdraw} disabled={isWithdrawing || isPending}>
+                {isWithdrawing || isPending ? "Withdrawing..." : "Withdraw"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {!auctionAddress ? (
+          <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+            {auctionStatusMessage ?? "Loading auctions..."}
+          </div>
+        ) : (
+          <>
+            <div className="glass-effect rounded-xl p-4 mb-8 max-w-xs space-y-2">
+              <Label htmlFor="auctionStatus">Status</Label>
+              <select
+                id="auctionStatus"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(Number(e.target.value))}
+                className={SELECT_CLASS}
+              >
+                <option value={-1}>All</option>
+                {AUCTION_STATUS_LABELS.map((label, status) => (
+                  <option key={label} value={status}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center text-muted-foreground py-12">Loading auctions...</div>
+            ) : visibleAuctions.length === 0 ? (
+              <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+                No auctions here yet. Put one of your balls up for auction from My Balls.
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {visibleAuctions.map((auction) => (
+                  <AuctionCard
+                    key={auction.auctionId}
+                    auction={auction}
+                    now={now}
+                    onChange={handleAuctionChanged}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </section>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Auctions;
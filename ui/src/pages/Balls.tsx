@@ -0,0 +1,239 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { useAccount } from "wagmi";
+import { ChevronLeft, ChevronRight, Gem, Merge } from "lucide-react";
+import { toast } from "sonner";
+import SiteHeader from "@/components/SiteHeader";
+import ContractStatusBanner from "@/components/ContractStatusBanner";
+import CryptoBallCard from "@/components/CryptoBallCard";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useUserBalls, type UserBall } from "@/hooks/useUserBalls";
+import {
+  BALL_SORT_LABELS,
+  BALL_TYPE_NAMES,
+  DEFAULT_BALL_FILTERS,
+  FUSION_COST,
+  fusionResult,
+  type BallFilters,
+} from "@/lib/balls";
+
+const PAGE_SIZE = 12;
+
+const SELECT_CLASS =
+  "flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+const Balls = () => {
+  const { isConnected } = useAccount();
+  const [filters, setFilters] = useState<BallFilters>(DEFAULT_BALL_FILTERS);
+  const [page, setPage] = useState(0);
+  const { balls, totalMatches, isLoading, refetch } = useUserBalls(filters, page, PAGE_SIZE);
+  const { fuseCryptoBalls, isPending, isConfirmed } = useCryptoPriceGuess();
+  // Selected balls (kept across pages) to fuse, or to burn into another ball from its upgrade dialog
+  const [selected, setSelected] = useState<UserBall[]>([]);
+  const [isFusing, setIsFusing] = useState(false);
+
+  const selectedIds = selected.map((ball) => ball.ballId);
+  const fusedType = fusionResult(selected.map((ball) => ball.ballType));
+
+  // Burned or transferred balls leave the inventory, so the selection starts over
+  const handleBallsChanged = useCallback(() => {
+    setSelected([]);
+    refetch();
+  }, [refetch]);
+
+  useEffect(() => {
+    if (isConfirmed && isFusing) {
+      toast.success(`Fused into a ${BALL_TYPE_NAMES[fusedType ?? 0]} Ball`);
+      setIsFusing(false);
+      handleBallsChanged();
+    }
+  }, [isConfirmed, isFusing, fusedType, handleBallsChanged]);
+
+  const toggleSelected = (ball: UserBall) => {
+    setSelected((current) =>
+      current.some((entry) => entry.ballId === ball.ballId)
+        ? current.filter((entry) => entry.ballId !== ball.ballId)
+        : [...current, ball]
+    );
+  };
+
+  const handleFuse = async () => {
+    setIsFusing(true);
+    try {
+      await fuseCryptoBalls(selectedIds);
+    } catch (error) {
+      toast.error((error as Error)?.message || "Fusion failed");
+      setIsFusing(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalMatches / PAGE_SIZE));
+
+  // Any filter change starts again from the first page
+  const updateFilter = (key: keyof BallFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: Number(value) }));
+    setPage(0);
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <SiteHeader />
+      <ContractStatusBanner />
+
+      <section className="container mx-auto px-4 py-12">
+        <div className="flex items-center gap-3 mb-8">
+          <Gem className="w-8 h-8 text-primary" />
+          <div>
+            <h1 className="text-3xl font-bold">My CryptoBalls</h1>
+            <p className="text-muted-foreground">Balls minted from the finalized events you predicted on</p>
+          </div>
+        </div>
+
+        {!isConnected ? (
+          <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+            Connect your wallet to see your CryptoBalls
+          </div>
+        ) : (
+          <>
+            <div className="glass-effect rounded-xl p-4 mb-8 grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ballType">Type</Label>
+                <select
+                  id="ballType"
+                  value={filters.ballType}
+                  onChange={(e) => updateFilter("ballType", e.target.value)}
+                  className={SELECT_CLASS}
+                >
+                  <option value={0}>All types</option>
+                  {BALL_TYPE_NAMES.map((name, type) => (
+                    <option key={name} value={type + 1}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="active">Status</Label>
+                <select
+                  id="active"
+                  value={filters.active}
+                  onChange={(e) => updateFilter("active", e.target.value)}
+                  className={SELECT_CLASS}
+                >
+                  <option value={0}>All</option>
+                  <option value={1}>Active</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sortBy">Sort by</Label>
+                <select
+                  id="sortBy"
+                  value={filters.sortBy}
+                  onChange={(e) => updateFilter("sortBy", e.target.value)}
+                  className={SELECT_CLASS}
+                >
+                  {BALL_SORT_LABELS.map((label, sortBy) => (
+                    <option key={label} value={sortBy}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sortOrder">Order</Label>
+                <select
+                  id="sortOrder"
+                  value={filters.sortOrder}
+                  onChange={(e) => updateFilter("sortOrder", e.target.value)}
+                  className={SELECT_CLASS}
+                >
+                  <option value={1}>Descending</option>
+                  <option value={0}>Ascending</option>
+                </select>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center text-muted-foreground py-12">Loading CryptoBalls...</div>
+            ) : totalMatches === 0 ? (
+              <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+                No CryptoBalls match these filters.{" "}
+                <Link to="/" className="text-primary underline hover:text-primary/90">
+                  Predict on an event
+                </Link>{" "}
+                and claim its ball once it is finalized.
+              </div>
+            ) : (
+              <>
+                {selected.length > 0 && (
+                  <div className="glass-effect rounded-xl p-4 mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm">
+                    <span className="text-muted-foreground">
+                      {selected.length} selected ({selectedIds.map((id) => `#${id}`).join(", ")}).{" "}
+                      {fusedType === undefined
+                        ? `Fuse ${FUSION_COST} balls of one tier below Crystal, or burn them into a ball from its Upgrade dialog.`
+                        : `Ready to fuse into a ${BALL_TYPE_NAMES[fusedType]} Ball.`}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setSelected([])}>
+                        Clear
+                      </Button>
+                      <Button size="sm" onClick={handleFuse} disabled={fusedType === undefined || isFusing || isPending}>
+                        <Merge className="w-4 h-4 mr-2" />
+                        {isFusing || isPending ? "Fusing..." : "Fuse"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {balls.map((ball) => (
+                    <CryptoBallCard
+                      key={ball.ballId}
+                      {...ball}
+                      onTransfer={handleBallsChanged}
+                      selected={selectedIds.includes(ball.ballId)}
+                      onSelect={() => toggleSelected(ball)}
+                      consumableBallIds={selectedIds}
+                      onUpgrade={handleBallsChanged}
+                    />
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-center gap-4 mt-8 text-sm">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 0}
+                    title="Previous page"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-muted-foreground">
+                    Page {page + 1} of {pageCount} · {totalMatches} balls
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page + 1 >= pageCount}
+                    title="Next page"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </section>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Balls;
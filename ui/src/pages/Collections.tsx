@@ -0,0 +1,262 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { ChevronLeft, ChevronRight, FolderHeart, Globe, Lock, Plus } from "lucide-react";
+import { toast } from "sonner";
+import SiteHeader from "@/components/SiteHeader";
+import ContractStatusBanner from "@/components/ContractStatusBanner";
+import CollectionEditor from "@/components/CollectionEditor";
+import PublicCollectionCard from "@/components/PublicCollectionCard";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useCryptoPriceGuess } from "@/hooks/useCryptoPriceGuess";
+import { useDisplayNames } from "@/hooks/useDisplayNames";
+import { useUserBalls } from "@/hooks/useUserBalls";
+import { DEFAULT_BALL_FILTERS } from "@/lib/balls";
+import { MAX_COLLECTION_BALLS, isValidCollectionName } from "@/lib/collections";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 10;
+
+interface CollectionButtonProps {
+  collectionId: number;
+  selected: boolean;
+  onSelect: (collectionId: number) => void;
+}
+
+const CollectionButton = ({ collectionId, selected, onSelect }: CollectionButtonProps) => {
+  const { getBallCollectionConfig } = useCryptoPriceGuess();
+  const { data: collection } = useReadContract(getBallCollectionConfig(collectionId));
+  const [name, , ballIds, , isPublic] = collection ?? [`Collection #${collectionId}`, undefined, [], 0n, false];
+
+  return (
+    <button
+      onClick={() => onSelect(collectionId)}
+      className={cn(
+        "w-full flex items-center justify-between gap-2 rounded-lg px-3 py-2 text-left text-sm transition-colors",
+        selected ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+      )}
+    >
+      <span className="flex items-center gap-2 min-w-0">
+        {isPublic ? <Globe className="w-4 h-4 shrink-0" /> : <Lock className="w-4 h-4 shrink-0" />}
+        <span className="truncate">{name}</span>
+      </span>
+      <span className="shrink-0 opacity-70">{ballIds.length}</span>
+    </button>
+  );
+};
+
+const Collections = () => {
+  const { isConnected } = useAccount();
+  const {
+    ballsAddress,
+    getUserCollectionIdsConfig,
+    getCuratedCollectionIdsConfig,
+    getPublicCollectionsConfig,
+    createBallCollection,
+    isPending,
+    isConfirmed,
+  } = useCryptoPriceGuess();
+  const { data: collectionIdValues, refetch: refetchCollectionIds } = useReadContract(getUserCollectionIdsConfig());
+  const { data: curatedIdValues, refetch: refetchCuratedIds } = useReadContract(getCuratedCollectionIdsConfig());
+  // Balls that can be added: the most recent ones up to a full collection
+  const { balls, refetch: refetchBalls } = useUserBalls(DEFAULT_BALL_FILTERS, 0, MAX_COLLECTION_BALLS);
+  const [page, setPage] = useState(0);
+  const { data: publicPage, isLoading: isLoadingPublic, refetch: refetchPublic } = useReadContract(
+    getPublicCollectionsConfig(PAGE_SIZE, page * PAGE_SIZE)
+  );
+  const [selectedId, setSelectedId] = useState<number>();
+  const [newName, setNewName] = useState("");
+  const [newIsPublic, setNewIsPublic] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Owned and curated collections, by collection ID
+  const collectionIds = [...(collectionIdValues ?? []), ...(curatedIdValues ?? [])].map(Number).sort((a, b) => a - b);
+  const [publicIds, publicNames, publicOwners, publicBallCounts, publicTotal] = publicPage ?? [[], [], [], [], 0n];
+  const totalPublic = Number(publicTotal);
+  const pageCount = Math.max(1, Math.ceil(totalPublic / PAGE_SIZE));
+  const displayName = useDisplayNames(publicOwners);
+
+  // Default to the most recent collection
+  useEffect(() => {
+    if (selectedId === undefined && collectionIds.length > 0) {
+      setSelectedId(collectionIds[collectionIds.length - 1]);
+    }
+  }, [selectedId, collectionIds]);
+
+  useEffect(() => {
+    if (isConfirmed && isCreating) {
+      toast.success("Collection created");
+      setIsCreating(false);
+      setNewName("");
+      setSelectedId(undefined);
+      refetchCollectionIds();
+      refetchPublic();
+    }
+  }, [isConfirmed, isCreating, refetchCollectionIds, refetchPublic]);
+
+  // Renames, visibility changes and ball counts all show up in the discovery view
+  const handleCollectionChanged = useCallback(() => {
+    refetchPublic();
+    refetchBalls();
+  }, [refetchPublic, refetchBalls]);
+
+  // Stepping down or transferring the collection away takes it off the list (and balls with it)
+  const handleCollectionLeft = useCallback(() => {
+    setSelectedId(undefined);
+    refetchCollectionIds();
+    refetchCuratedIds();
+    handleCollectionChanged();
+  }, [refetchCollectionIds, refetchCuratedIds, handleCollectionChanged]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await createBallCollection(newName.trim(), newIsPublic);
+    } catch (error) {
+      toast.error((error as Error)?.message || "Failed to create the collection");
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <SiteHeader />
+      <ContractStatusBanner />
+
+      <section className="container mx-auto px-4 py-12">
+        <div className="flex items-center gap-3 mb-8">
+          <FolderHeart className="w-8 h-8 text-primary" />
+          <div>
+            <h1 className="text-3xl font-bold">Collections</h1>
+            <p className="text-muted-foreground">Group your CryptoBalls and browse the collections others share</p>
+          </div>
+        </div>
+
+        <Tabs defaultValue="mine">
+          <TabsList className="mb-6">
+            <TabsTrigger value="mine">My collections</TabsTrigger>
+            <TabsTrigger value="discover">Discover ({totalPublic})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="mine">
+            {!isConnected ? (
+              <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+                Connect your wallet to manage your collections
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                <div className="space-y-4">
+                  <div className="glass-effect rounded-xl p-4 space-y-3">
+                    <Label htmlFor="newCollectionName">New collection</Label>
+                    <Input
+                      id="newCollectionName"
+                      value={newName}
+                      placeholder="Name"
+                      onChange={(e) => setNewName(e.target.value)}
+                    />
+                    <div className="flex items-center gap-2">
+                      <Switch id="newCollectionPublic" checked={newIsPublic} onCheckedChange={setNewIsPublic} />
+                      <Label htmlFor="newCollectionPublic">Public</Label>
+                    </div>
+                    <Button
+                      className="w-full"
+                      onClick={handleCreate}
+                      disabled={!ballsAddress || isCreating || isPending || !isValidCollectionName(newName.trim())}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      {isCreating ? "Creating..." : "Create"}
+                    </Button>
+                  </div>
+                  <div className="glass-effect rounded-xl p-2 space-y-1">
+                    {collectionIds.length === 0 ? (
+                      <p className="p-2 text-sm text-muted-foreground">No collections yet</p>
+                    ) : (
+                      collectionIds.map((collectionId) => (
+                        <CollectionButton
+                          key={collectionId}
+                          collectionId={collectionId}
+                          selected={collectionId === selectedId}
+                          onSelect={setSelectedId}
+                        />
+                      ))
+                    )}
+                  </div>
+                </div>
+                <div className="lg:col-span-3">
+                  {selectedId === undefined ? (
+                    <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+                      Create a collection to start grouping your balls
+                    </div>
+                  ) : (
+                    <CollectionEditor
+                      collectionId={selectedId}
+                      ownedBallIds={balls.map((ball) => ball.ballId)}
+                      onChange={handleCollectionChanged}
+                      onLeft={handleCollectionLeft}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="discover">
+            {isLoadingPublic ? (
+              <div className="text-center text-muted-foreground py-12">Loading collections...</div>
+            ) : totalPublic === 0 ? (
+              <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+                No public collections yet
+              </div>
+            ) : (
+              <>
+                <div className="space-y-4">
+                  {publicIds.map((collectionId, index) => (
+                    <PublicCollectionCard
+                      key={collectionId.toString()}
+                      collectionId={Number(collectionId)}
+                      name={publicNames[index]}
+                      owner={displayName(publicOwners[index])}
+                      ballCount={Number(publicBallCounts[index])}
+                    />
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-center gap-4 mt-8 text-sm">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 0}
+                    title="Previous page"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-muted-foreground">
+                    Page {page + 1} of {pageCount} · {totalPublic} collections
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page + 1 >= pageCount}
+                    title="Next page"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </section>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Collections;
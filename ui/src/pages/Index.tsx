@@ -1,5 +1,5 @@
-import Logo from "@/components/Logo";
-import WalletButton from "@/components/WalletButton";
+import SiteHeader from "@/components/SiteHeader";
+import ContractStatusBanner from "@/components/ContractStatusBanner";
 import LiveTicker from "@/components/LiveTicker";
 import Scoreboard from "@/components/Scoreboard";
 import EventsList from "@/components/EventsList";
@@ -15,12 +15,10 @@ const Index = () => {
       <FloatingParticles />
 
       {/* Header */}
-      <header className="border-b border-border/50 backdrop-blur-sm sticky top-0 z-50 bg-background/80 animate-fade-in-up">
-        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
-          <Logo />
-          <WalletButton />
-        </div>
-      </header>
+      <SiteHeader />
+
+      {/* Network / deployment warning */}
+      <ContractStatusBanner />
 
       {/* Hero Section */}
       <section className="relative py-24 px-4 overflow-hidden min-h-[90vh] flex items-center">
@@ -34,10 +32,10 @@ const Index = () => {
         
         <div className="container mx-auto max-w-4xl text-center relative z-10">
           <h1 className="text-5xl md:text-7xl font-bold mb-6 bg-gradient-to-r from-primary via-accent to-primary bg-clip-text text-transparent animate-glow-pulse animate-fade-in-up">
-            Predict BTC/ETH Price Privately
+            Predict Crypto Prices Privately
           </h1>
           <p className="text-xl text-muted-foreground mb-8 max-w-2xl mx-auto animate-fade-in-up stagger-2">
-            Submit encrypted price predictions for Bitcoin and Ethereum. 
+            Submit encrypted price predictions for Bitcoin, Ethereum and every other listed asset. 
             Your predictions are encrypted with FHE before submission and remain private until the event ends.
           </p>
 
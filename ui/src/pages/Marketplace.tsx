@@ -0,0 +1,231 @@
+import { useState, useEffect } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { formatEther } from "viem";
+import { ChevronLeft, ChevronRight, Store, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import SiteHeader from "@/components/SiteHeader";
+import ContractStatusBanner from "@/components/ContractStatusBanner";
+import ListingCard from "@/components/ListingCard";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCryptoBallMarketplace } from "@/hooks/useCryptoBallMarketplace";
+import { BALL_TYPE_NAMES } from "@/lib/balls";
+import { DEFAULT_LISTING_FILTERS, LISTING_SORT_LABELS, ROYALTY_BPS, type ListingFilters } from "@/lib/market";
+
+const PAGE_SIZE = 12;
+
+const SELECT_CLASS =
+  "flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+const Marketplace = () => {
+  const { isConnected } = useAccount();
+  const [filters, setFilters] = useState<ListingFilters>(DEFAULT_LISTING_FILTERS);
+  const [page, setPage] = useState(0);
+  const {
+    marketplaceAddress,
+    marketplaceStatusMessage,
+    getFilteredListingsConfig,
+    getPendingWithdrawalConfig,
+    withdraw,
+    isPending,
+    isConfirmed,
+  } = useCryptoBallMarketplace();
+  const { data, isLoading, refetch } = useReadContract(getFilteredListingsConfig(filters, PAGE_SIZE, page * PAGE_SIZE));
+  const { data: pendingWithdrawal, refetch: refetchPending } = useReadContract(getPendingWithdrawalConfig());
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+
+  const [ballIds, prices, sellers, total] = data ?? [[], [], [], 0n];
+  const totalMatches = Number(total);
+  const pageCount = Math.max(1, Math.ceil(totalMatches / PAGE_SIZE));
+  const withdrawable = pendingWithdrawal ?? 0n;
+
+  useEffect(() => {
+    if (isConfirmed && isWithdrawing) {
+      toast.success("Proceeds withdrawn");
+      setIsWithdrawing(false);
+      refetchPending();
+    }
+  }, [isConfirmed, isWithdrawing, refetchPending]);
+
+  const handleWithdraw = async () => {
+    setIsWithdrawing(true);
+    try {
+      await withdraw();
+    } catch (error) {
+      toast.error((error as Error)?.message || "Withdrawal failed");
+      setIsWithdrawing(false);
+    }
+  };
+
+  // A sale or cancellation changes the listings and possibly the connected user's proceeds
+  const handleListingChanged = () => {
+    refetch();
+    refetchPending();
+  };
+
+  // Any filter change starts again from the first page
+  const updateFilter = (key: keyof ListingFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: Math.max(0, Math.floor(Number(value) || 0)) }));
+    setPage(0);
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <SiteHeader />
+      <ContractStatusBanner />
+
+      <section className="container mx-auto px-4 py-12">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-3">
+            <Store className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold">Marketplace</h1>
+              <p className="text-muted-foreground">
+                Buy CryptoBalls or make offers. {ROYALTY_BPS / 100}% of each sale goes to the admin of the ball's event.
+              </p>
+            </div>
+          </div>
+          {isConnected && withdrawable > 0n && (
+            <div className="glass-effect rounded-xl p-4 flex items-center gap-4 text-sm">
+              <span>
+                <Wallet className="w-4 h-4 inline mr-2 text-primary" />
+                {formatEther(withdrawable)} ETH to withdraw
+              </span>
+              <Button size="sm" onClick={handleWithdraw} disabled={isWithdrawing || isPending}>
+                {isWithdrawing || isPending ? "Withdrawing..." : "Withdraw"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {!marketplaceAddress ? (
+          <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+            {marketplaceStatusMessage ?? "Loading marketplace..."}
+          </div>
+        ) : (
+          <>
+            <div className="glass-effect rounded-xl p-4 mb-8 grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ballType">Type</Label>
+                <select
+                  id="ballType"
+                  value={filters.ballType}
+                  onChange={(e) => updateFilter("ballType", e.target.value)}
+                  className={SELECT_CLASS}
+                >
+                  <option value={0}>All types</option>
+                  {BALL_TYPE_NAMES.map((name, type) => (
+                    <option key={name} value={type + 1}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="minPower">Min power</Label>
+                <Input
+                  id="minPower"
+                  type="number"
+                  min={0}
+                  value={filters.minPower || ""}
+                  placeholder="0"
+                  onChange={(e) => updateFilter("minPower", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxPower">Max power</Label>
+                <Input
+                  id="maxPower"
+                  type="number"
+                  min={0}
+                  value={filters.maxPower || ""}
+                  placeholder="Any"
+                  onChange={(e) => updateFilter("maxPower", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sortBy">Sort by</Label>
+                <select
+                  id="sortBy"
+                  value={filters.sortBy}
+                  onChange={(e) => updateFilter("sortBy", e.target.value)}
+                  className={SELECT_CLASS}
+                >
+                  {LISTING_SORT_LABELS.map((label, sortBy) => (
+                    <option key={label} value={sortBy}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sortOrder">Order</Label>
+                <select
+                  id="sortOrder"
+                  value={filters.sortOrder}
+                  onChange={(e) => updateFilter("sortOrder", e.target.value)}
+                  className={SELECT_CLASS}
+                >
+                  <option value={1}>Descending</option>
+                  <option value={0}>Ascending</option>
+                </select>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center text-muted-foreground py-12">Loading listings...</div>
+            ) : totalMatches === 0 ? (
+              <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+                No balls listed for these filters. List your own from My Balls.
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {ballIds.map((ballId, index) => (
+                    <ListingCard
+                      key={ballId.toString()}
+                      ballId={Number(ballId)}
+                      price={prices[index]}
+                      seller={sellers[index]}
+                      onChange={handleListingChanged}
+                    />
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-center gap-4 mt-8 text-sm">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 0}
+                    title="Previous page"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-muted-foreground">
+                    Page {page + 1} of {pageCount} · {totalMatches} listings
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page + 1 >= pageCount}
+                    title="Next page"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </section>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Marketplace;
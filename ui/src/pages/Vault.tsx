@@ -0,0 +1,414 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAccount } from "wagmi";
+import { ChevronLeft, ChevronRight, Lock, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import SiteHeader from "@/components/SiteHeader";
+import ContractStatusBanner from "@/components/ContractStatusBanner";
+import VaultEntryCard from "@/components/VaultEntryCard";
+import VaultReleaseCard from "@/components/VaultReleaseCard";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { usePendingVaultReleases, useSharedVaultEntries, useVault, useVaultEntries } from "@/hooks/useVault";
+import { useDisplayNames } from "@/hooks/useDisplayNames";
+import { useFhevmInstance } from "@/fhevm/useFhevmInstance";
+import { encryptVaultValue } from "@/fhevm/encryptInput";
+import {
+  MAX_VAULT_LABEL_LENGTH,
+  VAULT_EXPIRY_HOURS,
+  VAULT_RELEASE_HOURS,
+  VAULT_VALUE_TYPE_LABELS,
+  VaultValueType,
+  formatVaultPeriod,
+  parseVaultValue,
+  type VaultValueTypeId,
+} from "@/lib/vault";
+
+const PAGE_SIZE = 10;
+
+const SELECT_CLASS =
+  "flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+const VALUE_PLACEHOLDERS = [
+  "",
+  "0 - 255",
+  "0 - 65535",
+  "A 32-bit unsigned number",
+  "A 64-bit unsigned number",
+  "0x...",
+];
+
+const Vault = () => {
+  const { address, isConnected } = useAccount();
+  const { vaultAddress, storeEncryptedEntry, storeTimeLockedEntry, isPending, isConfirmed } = useVault();
+  const [typeFilter, setTypeFilter] = useState(0);
+  const [includeExpired, setIncludeExpired] = useState(false);
+  const [page, setPage] = useState(0);
+  const { entries, totalMatches, isLoading, refetch } = useVaultEntries(typeFilter, includeExpired, PAGE_SIZE, page);
+  const { entries: sharedEntries, isLoading: isLoadingShared, refetch: refetchShared } = useSharedVaultEntries();
+  const [releasePage, setReleasePage] = useState(0);
+  const {
+    entries: releaseEntries,
+    totalMatches: totalReleases,
+    isLoading: isLoadingReleases,
+    refetch: refetchReleases,
+  } = usePendingVaultReleases(PAGE_SIZE, releasePage);
+  const displayName = useDisplayNames(releaseEntries.map((entry) => entry.owner));
+  const { fhevmInstance, fhevmLoading } = useFhevmInstance(isConnected && !!vaultAddress);
+  const [valueType, setValueType] = useState<VaultValueTypeId>(VaultValueType.UINT32);
+  const [value, setValue] = useState("");
+  const [label, setLabel] = useState("");
+  const [expiryHours, setExpiryHours] = useState(0);
+  const [releaseHours, setReleaseHours] = useState(0); // 0 = not time-locked
+  const [isStoring, setIsStoring] = useState(false);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const pageCount = Math.max(1, Math.ceil(totalMatches / PAGE_SIZE));
+  const releasePageCount = Math.max(1, Math.ceil(totalReleases / PAGE_SIZE));
+  // Soonest release first
+  const sortedReleases = [...releaseEntries].sort((a, b) => a.releaseAt - b.releaseAt);
+
+  // Countdowns tick every second; due entries switch to "Release" without a refetch
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setPage(0);
+  }, [typeFilter, includeExpired]);
+
+  useEffect(() => {
+    if (isConfirmed && isStoring) {
+      toast.success("Value encrypted and stored");
+      setIsStoring(false);
+      setValue("");
+      setLabel("");
+      refetch();
+      refetchReleases();
+    }
+  }, [isConfirmed, isStoring, refetch, refetchReleases]);
+
+  // Releasing or postponing an entry of mine also changes the release queue, and the other way around
+  const handleEntriesChanged = useCallback(() => {
+    refetch();
+    refetchReleases();
+  }, [refetch, refetchReleases]);
+
+  const handleTypeChange = (nextType: VaultValueTypeId) => {
+    setValueType(nextType);
+    setValue(nextType === VaultValueType.BOOL ? "true" : "");
+  };
+
+  const handleStore = async () => {
+    if (!address || !vaultAddress) {
+      toast.error("Connect your wallet first");
+      return;
+    }
+    if (!fhevmInstance) {
+      toast.error("FHE encryption not ready. Please wait...");
+      return;
+    }
+    const parsed = parseVaultValue(valueType, value);
+    if (parsed === null) {
+      toast.error(`Enter a valid ${VAULT_VALUE_TYPE_LABELS[valueType].toLowerCase()}`);
+      return;
+    }
+
+    setIsStoring(true);
+    try {
+      const { handle, inputProof } = await encryptVaultValue(
+        fhevmInstance,
+        vaultAddress,
+        address,
+        valueType,
+        parsed
+      );
+      if (releaseHours !== 0) {
+        const releaseAt = Math.floor(Date.now() / 1000) + releaseHours * 3600;
+        await storeTimeLockedEntry(valueType, handle, inputProof, label.trim(), releaseAt);
+      } else {
+        const expiresAt = expiryHours === 0 ? 0 : Math.floor(Date.now() / 1000) + expiryHours * 3600;
+        await storeEncryptedEntry(valueType, handle, inputProof, label.trim(), expiresAt);
+      }
+    } catch (error) {
+      toast.error((error as Error)?.message || "Failed to store the value");
+      setIsStoring(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <SiteHeader />
+      <ContractStatusBanner />
+
+      <section className="container mx-auto px-4 py-12">
+        <div className="flex items-center gap-3 mb-8">
+          <ShieldCheck className="w-8 h-8 text-primary" />
+          <div>
+            <h1 className="text-3xl font-bold">Vault</h1>
+            <p className="text-muted-foreground">
+              Values encrypted in your browser and stored on-chain; only you can decrypt them
+            </p>
+          </div>
+        </div>
+
+        {!isConnected ? (
+          <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+            Connect your wallet to use your vault
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="glass-effect rounded-xl p-4 space-y-3 h-fit">
+              <div className="flex items-center gap-2 font-medium">
+                <Lock className="w-4 h-4" />
+                New entry
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vaultType">Type</Label>
+                <select
+                  id="vaultType"
+                  className={SELECT_CLASS}
+                  value={valueType}
+                  onChange={(e) => handleTypeChange(Number(e.target.value) as VaultValueTypeId)}
+                >
+                  {VAULT_VALUE_TYPE_LABELS.map((typeLabel, type) => (
+                    <option key={type} value={type}>
+                      {typeLabel}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vaultValue">Value</Label>
+                {valueType === VaultValueType.BOOL ? (
+                  <select
+                    id="vaultValue"
+                    className={SELECT_CLASS}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                  >
+                    <option value="true">true</option>
+                    <option value="false">false</option>
+                  </select>
+                ) : (
+                  <Input
+                    id="vaultValue"
+                    value={value}
+                    placeholder={VALUE_PLACEHOLDERS[valueType]}
+                    onChange={(e) => setValue(e.target.value)}
+                  />
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vaultLabel">Label (public)</Label>
+                <Input
+                  id="vaultLabel"
+                  value={label}
+                  maxLength={MAX_VAULT_LABEL_LENGTH}
+                  placeholder="Optional"
+                  onChange={(e) => setLabel(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vaultExpiry">Expires</Label>
+                <select
+                  id="vaultExpiry"
+                  className={SELECT_CLASS}
+                  value={releaseHours !== 0 ? 0 : expiryHours}
+                  onChange={(e) => setExpiryHours(Number(e.target.value))}
+                  disabled={releaseHours !== 0}
+                  title={releaseHours !== 0 ? "Time-locked entries never expire" : undefined}
+                >
+                  {VAULT_EXPIRY_HOURS.map((hours) => (
+                    <option key={hours} value={hours}>
+                      {hours === 0 ? "Never" : `In ${formatVaultPeriod(hours)}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vaultRelease">Publish automatically</Label>
+                <select
+                  id="vaultRelease"
+                  className={SELECT_CLASS}
+                  value={releaseHours}
+                  onChange={(e) => setReleaseHours(Number(e.target.value))}
+                >
+                  <option value={0}>Never</option>
+                  {VAULT_RELEASE_HOURS.map((hours) => (
+                    <option key={hours} value={hours}>
+                      In {formatVaultPeriod(hours)}, unless postponed
+                    </option>
+                  ))}
+                </select>
+                {releaseHours !== 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Anyone can then have the value published; it can no longer change, so it works as a commitment
+                  </p>
+                )}
+              </div>
+              <Button
+                className="w-full"
+                onClick={handleStore}
+                disabled={!value || isStoring || isPending || fhevmLoading || !fhevmInstance}
+              >
+                {fhevmLoading ? "Loading FHE..." : isStoring ? "Storing..." : "Encrypt & store"}
+              </Button>
+            </div>
+
+            <div className="lg:col-span-2">
+              <Tabs defaultValue="mine">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="mine">My entries</TabsTrigger>
+                  <TabsTrigger value="shared">Shared with me ({sharedEntries.length})</TabsTrigger>
+                  <TabsTrigger value="releases">Time-locked ({totalReleases})</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="mine" className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-4">
+                    <select
+                      aria-label="Filter by type"
+                      className={`${SELECT_CLASS} w-48`}
+                      value={typeFilter}
+                      onChange={(e) => setTypeFilter(Number(e.target.value))}
+                    >
+                      <option value={0}>All types</option>
+                      {VAULT_VALUE_TYPE_LABELS.map((typeLabel, type) => (
+                        <option key={type} value={type + 1}>
+                          {typeLabel}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex items-center gap-2">
+                      <Switch id="vaultExpired" checked={includeExpired} onCheckedChange={setIncludeExpired} />
+                      <Label htmlFor="vaultExpired">Show expired</Label>
+                    </div>
+                  </div>
+
+                  {isLoading ? (
+                    <div className="text-center text-muted-foreground py-12">Loading vault...</div>
+                  ) : entries.length === 0 ? (
+                    <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+                      {typeFilter === 0 && !includeExpired ? "Your vault is empty" : "No entries match the filters"}
+                    </div>
+                  ) : (
+                    entries.map((entry) => (
+                      <VaultEntryCard
+                        key={entry.storageId}
+                        entry={entry}
+                        fhevmInstance={fhevmInstance}
+                        now={now}
+                        onChange={handleEntriesChanged}
+                      />
+                    ))
+                  )}
+
+                  {totalMatches > PAGE_SIZE && (
+                    <div className="flex items-center justify-center gap-4 text-sm">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setPage(page - 1)}
+                        disabled={page === 0}
+                        title="Previous page"
+                      >
+                        <ChevronLeft className="w-4 h-4" />
+                      </Button>
+                      <span className="text-muted-foreground">
+                        Page {page + 1} of {pageCount} · {totalMatches} entries
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setPage(page + 1)}
+                        disabled={page + 1 >= pageCount}
+                        title="Next page"
+                      >
+                        <ChevronRight className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="shared" className="space-y-4">
+                  {isLoadingShared ? (
+                    <div className="text-center text-muted-foreground py-12">Loading shared entries...</div>
+                  ) : sharedEntries.length === 0 ? (
+                    <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+                      Nobody shares an entry with you right now
+                    </div>
+                  ) : (
+                    sharedEntries.map((entry) => (
+                      <VaultEntryCard
+                        key={entry.storageId}
+                        entry={entry}
+                        fhevmInstance={fhevmInstance}
+                        now={now}
+                        shared
+                        onChange={refetchShared}
+                      />
+                    ))
+                  )}
+                </TabsContent>
+
+                <TabsContent value="releases" className="space-y-4">
+                  {isLoadingReleases ? (
+                    <div className="text-center text-muted-foreground py-12">Loading time-locked entries...</div>
+                  ) : sortedReleases.length === 0 ? (
+                    <div className="glass-effect rounded-xl p-12 text-center text-muted-foreground">
+                      No time-locked entries are waiting to be published
+                    </div>
+                  ) : (
+                    sortedReleases.map((entry) => (
+                      <VaultReleaseCard
+                        key={entry.storageId}
+                        entry={entry}
+                        owner={displayName(entry.owner)}
+                        now={now}
+                        onChange={handleEntriesChanged}
+                      />
+                    ))
+                  )}
+
+                  {totalReleases > PAGE_SIZE && (
+                    <div className="flex items-center justify-center gap-4 text-sm">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setReleasePage(releasePage - 1)}
+                        disabled={releasePage === 0}
+                        title="Previous page"
+                      >
+                        <ChevronLeft className="w-4 h-4" />
+                      </Button>
+                      <span className="text-muted-foreground">
+                        Page {releasePage + 1} of {releasePageCount} · {totalReleases} entries
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setReleasePage(releasePage + 1)}
+                        disabled={releasePage + 1 >= releasePageCount}
+                        title="Next page"
+                      >
+                        <ChevronRight className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </TabsContent>
+              </Tabs>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Vault;